@@ -1,8 +1,10 @@
 import { useEffect, useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MarketGalaxy, ProductionCard, NeuralFeed, BuildingShop, FinancialReport, CompetitorPanel, ResearchLab, IndustryPanel, EconomyCenter, SettingsModal, StockMarket } from './components/game';
-import { useGameStore, useActivePanel, usePlayerCompany, useIsPaused, useCurrentTick, useGameSpeed, useFinancials } from './stores';
+import { MarketGalaxy, ProductionCard, NeuralFeed, BuildingShop, FinancialReport, DecisionEventModal, ScenarioPicker, ScenarioPanel, CompetitorPanel, ResearchLab, IndustryPanel, EconomyCenter, SettingsModal, StockMarket } from './components/game';
+import { useGameStore, useActivePanel, usePlayerCompany, useIsPaused, useCurrentTick, useGameSpeed, useFinancials, usePendingDecisions, useScenarioStatus, useDifficulty } from './stores';
 import { gameWebSocket } from './services/websocket';
+import { api } from './api';
+import { Difficulty } from '@scc/shared';
 import { formatMoney, formatGameTime } from './utils/formatters';
 import { useAudio, useUISound, useBGM } from './audio';
 import { GlassPanel, PopupPanel } from './components/ui';
@@ -12,6 +14,10 @@ import { MODAL_VARIANTS, MODAL_OVERLAY_VARIANTS } from './animations';
 
 export function App() {
   const [gameStarted, setGameStarted] = useState(false);
+  const [gameId, setGameId] = useState('game-1');
+  const [selectedScenarioId, setSelectedScenarioId] = useState<string | null>(null);
+  const [selectedDifficulty, setSelectedDifficulty] = useState<Difficulty>(Difficulty.Normal);
+  const [startError, setStartError] = useState<string | null>(null);
   const [showShop, setShowShop] = useState(false);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [showFinancialReport, setShowFinancialReport] = useState(false);
@@ -28,16 +34,20 @@ export function App() {
   const currentTick = useCurrentTick();
   const gameSpeed = useGameSpeed();
   const financials = useFinancials();
+  const pendingDecisions = usePendingDecisions();
+  const scenarioStatus = useScenarioStatus();
+  const difficulty = useDifficulty();
   
   const initializeGame = useGameStore((state) => state.initializeGame);
   const setActivePanel = useGameStore((state) => state.setActivePanel);
   const setGameSpeed = useGameStore((state) => state.setGameSpeed);
   const togglePause = useGameStore((state) => state.togglePause);
   const showProductionCard = useGameStore((state) => state.showProductionCard);
+  const injectCash = useGameStore((state) => state.injectCash);
 
   useEffect(() => {
     if (gameStarted) {
-      initializeGame('game-1');
+      void initializeGame(gameId);
       
       // Listen for game reset
       const unsubscribe = gameWebSocket.on('gameReset', (_msg) => {
@@ -54,15 +64,29 @@ export function App() {
         unsubscribe();
       };
     }
-  }, [gameStarted, initializeGame, audioInitialized, playBGM]);
+  }, [gameStarted, gameId, initializeGame, audioInitialized, playBGM]);
   
   // 处理游戏开始
-  const handleStartGame = useCallback(() => {
+  const handleStartGame = useCallback(async () => {
     // 用户交互后恢复音频上下文
     resumeAudioContext();
     playClick();
+    
+    // 剧本模式或非普通难度：创建一局新游戏；否则沿用默认游戏
+    if (selectedScenarioId || selectedDifficulty !== Difficulty.Normal) {
+      const result = await api.createGame(
+        selectedScenarioId ? `剧本: ${selectedScenarioId}` : '自由模式',
+        '玩家公司',
+        selectedScenarioId ? { scenarioId: selectedScenarioId } : { difficulty: selectedDifficulty }
+      );
+      if (!result.data) {
+        setStartError(result.error ?? '创建游戏失败');
+        return;
+      }
+      setGameId(result.data.id);
+    }
     setGameStarted(true);
-  }, [resumeAudioContext, playClick]);
+  }, [resumeAudioContext, playClick, selectedScenarioId, selectedDifficulty]);
   
   const handleResetGame = useCallback(() => {
     playWarning();
@@ -160,6 +184,15 @@ export function App() {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.6, delay: 0.8 }}
           >
+            <div className="mb-6">
+              <ScenarioPicker
+                selectedId={selectedScenarioId}
+                onSelect={setSelectedScenarioId}
+                difficulty={selectedDifficulty}
+                onDifficultyChange={setSelectedDifficulty}
+              />
+              {startError && <p className="mt-2 text-sm text-red-400">{startError}</p>}
+            </div>
             <NeonButton
               onClick={handleStartGame}
               variant="primary"
@@ -242,6 +275,16 @@ export function App() {
               🔄 重置
             </NeonButton>
           </div>
+          {difficulty === Difficulty.Sandbox && (
+            <NeonButton
+              onClick={() => injectCash(1_000_000_000)}
+              variant="secondary"
+              size="xs"
+              className="w-full mt-2"
+            >
+              💰 沙盒注资 ¥10亿
+            </NeonButton>
+          )}
         </GlassPanel>
         <nav className="flex-1 p-2">
           <NavItem
@@ -285,8 +328,15 @@ export function App() {
           </div>
         </nav>
         
+        {/* Scenario objectives */}
+        {scenarioStatus && (
+          <GlassPanel variant="default" padding="sm" className="m-2 mt-auto mb-0">
+            <ScenarioPanel />
+          </GlassPanel>
+        )}
+        
         {/* Financial Summary */}
-        <GlassPanel variant="inset" padding="sm" className="m-2 mt-auto">
+        <GlassPanel variant="inset" padding="sm" className={scenarioStatus ? 'm-2' : 'm-2 mt-auto'}>
           <div className="flex items-center justify-between mb-2">
             <h3 className="text-xs font-semibold text-gray-400">财务概况（平均）</h3>
             <button
@@ -365,7 +415,7 @@ export function App() {
           {activePanel === 'economy' && <EconomyCenter />}
           {activePanel === 'stocks' && playerCompany && (
             <div className="h-full p-4 overflow-auto">
-              <StockMarket gameId="game-1" playerCompanyId={playerCompany.id} />
+              <StockMarket gameId={gameId} playerCompanyId={playerCompany.id} />
             </div>
           )}
         </div>
@@ -439,6 +489,9 @@ export function App() {
       {/* Financial Report Modal */}
       {showFinancialReport && <FinancialReport onClose={handleCloseFinancialReport} />}
       
+      {/* Decision Event Modal */}
+      {pendingDecisions.length > 0 && <DecisionEventModal />}
+      
       {/* Settings Modal */}
       {showSettings && <SettingsModal onClose={handleCloseSettings} />}
       
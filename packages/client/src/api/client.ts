@@ -2,6 +2,19 @@
  * API Client for communicating with the backend
  */
 
+import type {
+  BuildingStaffingPayload,
+  DecisionRecordPayload,
+  LaborTierStatusPayload,
+  PoachCampaignPayload,
+  PendingDecisionPayload,
+  PowerBuildingPayload,
+  PowerGridStatusPayload,
+  ScenarioStatusPayload,
+  ScenarioSummaryPayload,
+} from '../services/websocket';
+import type { Difficulty } from '@scc/shared';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3002';
 const WS_BASE_URL = import.meta.env.VITE_WS_URL || 'ws://localhost:3002';
 
@@ -10,6 +23,210 @@ interface ApiResponse<T> {
   error?: string;
 }
 
+/** 银行贷款 / 授信额度 */
+interface BankLoan {
+  id: string;
+  companyId: string;
+  type: 'term' | 'credit_line';
+  principal: number;
+  balance: number;
+  annualRate: number;
+  accruedInterest: number;
+  originatedTick: number;
+  nextPaymentTick: number;
+  maturityTick?: number;
+  missedPayments: number;
+  status: 'active' | 'repaid' | 'defaulted' | 'written_off';
+}
+
+type CreditRating = 'AAA' | 'AA' | 'A' | 'BBB' | 'BB' | 'B' | 'CCC' | 'D';
+
+/** LLM 后端：OpenAI 兼容 API / 本地服务 / 离线回放 */
+type LLMProviderType = 'openai' | 'ollama' | 'replay';
+
+/** LLM 计费功能 */
+type LLMFeature = 'research' | 'ai_strategy' | 'market_events' | 'chat';
+
+/** LLM 功能预算（0 表示不限） */
+interface LLMFeatureBudget {
+  maxTokens: number;
+  maxCallsPerMinute: number;
+}
+
+/** LLM 用量预算（每局生效） */
+interface LLMBudgetConfig {
+  maxTokensPerGame: number;
+  features: Record<LLMFeature, LLMFeatureBudget>;
+  pricing: { promptPer1K: number; completionPer1K: number };
+}
+
+/** 提示词模板ID */
+type PromptTemplateId = 'strategy' | 'tech_evaluation' | 'tech_effects' | 'market_events' | 'decision_event';
+
+/** 单个功能的LLM用量 */
+interface LLMFeatureUsageReport {
+  feature: LLMFeature;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+  deniedCalls: number;
+  lastDeniedReason: 'game_tokens' | 'feature_tokens' | 'rate_limit' | null;
+  budget: LLMFeatureBudget;
+  callsLastMinute: number;
+  remainingTokens: number | null;
+  exhausted: boolean;
+}
+
+/** 收购整合方式：控股 / 吸收合并 */
+type TakeoverMode = 'subsidiary' | 'merger';
+
+/** 要约收购（含股东承诺明细） */
+interface TakeoverOffer {
+  id: string;
+  acquirerId: string;
+  targetId: string;
+  offerPrice: number;
+  premium: number;
+  targetShares: number;
+  pledgedShares: number;
+  status: string;
+  initiatedTick: number;
+  expiryTick: number;
+  rationale: string;
+  hostile: boolean;
+  defenseActivated: boolean;
+  mode: TakeoverMode;
+  pledges: { holderId: string; shares: number }[];
+}
+
+/** 专利授权条件 */
+interface LicenseTerms {
+  upfrontFee: number;
+  royaltyPerUnit: number;
+}
+
+/** 专利授权申请 */
+interface LicenseRequest {
+  id: string;
+  patentId: string;
+  technologyId: string;
+  technologyName: string;
+  holderId: string;
+  requesterId: string;
+  proposed: LicenseTerms;
+  counter?: LicenseTerms;
+  status: 'pending' | 'approved' | 'rejected' | 'negotiating' | 'withdrawn';
+  createdAt: number;
+  respondedAt?: number;
+  reason?: string;
+}
+
+/** 生效的专利授权 */
+interface PatentLicense {
+  patentId: string;
+  technologyName: string;
+  holderId: string;
+  licenseeId: string;
+  terms: LicenseTerms;
+  grantedAt: number;
+  royaltiesPaid: number;
+}
+
+/** 专利无效挑战 */
+interface PatentChallenge {
+  id: string;
+  patentId: string;
+  technologyName: string;
+  holderId: string;
+  challengerId: string;
+  cost: number;
+  filedAt: number;
+  resolvesAt: number;
+  status: 'pending' | 'upheld' | 'invalidated';
+  priorArt?: { technologyName: string; similarity: number };
+  resolvedAt?: number;
+}
+
+/** 侵权救济：赔偿 / 赔偿并禁令 */
+type InfringementRemedy = 'damages' | 'injunction';
+
+/** 侵权案件 */
+interface InfringementCase {
+  id: string;
+  patentId: string;
+  technologyName: string;
+  holderId: string;
+  infringerId: string;
+  remedy: InfringementRemedy;
+  status: 'detected' | 'filed' | 'won' | 'dismissed' | 'dropped';
+  infringingUnits: number;
+  detectedAt: number;
+  filedAt?: number;
+  resolvesAt?: number;
+  damages?: number;
+  resolvedAt?: number;
+  reason?: string;
+}
+
+/** 持有人对侵权的默许（放弃追究或只判赔偿后不再立案） */
+interface InfringementWaiver {
+  patentId: string;
+  holderId: string;
+  companyId: string;
+  caseId: string;
+  waivedAt: number;
+}
+
+/** 研发项目的前置技术（owned 表示公司可使用该技术） */
+interface ResearchPrerequisite {
+  technologyId?: string;
+  name: string;
+  owned: boolean;
+}
+
+/** 研发事件（decision 为需要决定是否追加资金的事件） */
+interface ResearchEventRecord {
+  id: string;
+  projectId: string;
+  projectName: string;
+  type: string;
+  title: string;
+  description: string;
+  tick: number;
+  effect?: { progressBonus?: number; costReduction?: number; riskChange?: number };
+  decision?: {
+    cost: number;
+    acceptLabel: string;
+    declineLabel: string;
+    deadlineTick: number;
+    choice?: 'accepted' | 'declined' | 'expired';
+  };
+}
+
+/** 科技星图节点 */
+interface TechGraphNode {
+  technologyId: string;
+  name: string;
+  category: string;
+  tier: number;
+  position: { x: number; y: number; z: number };
+  connections: string[];
+  brightness: number;
+  canUse: boolean;
+  isPlayerInvented: boolean;
+  patentHolderId?: string;
+  discoveredAt?: number;
+}
+
+/** 科技星图连线（前置技术 → 技术） */
+interface TechGraphEdge {
+  from: string;
+  to: string;
+  satisfied: boolean;
+}
+
 class ApiClient {
   private baseUrl: string;
 
@@ -46,14 +263,20 @@ class ApiClient {
   }
 
   // Game endpoints
-  async createGame(name: string, playerCompanyName: string) {
+  async createGame(
+    name: string,
+    playerCompanyName: string,
+    options: { scenarioId?: string; difficulty?: Difficulty } = {}
+  ) {
     return this.request<{
       id: string;
       name: string;
+      scenarioId: string | null;
+      difficulty: Difficulty;
       playerCompany: { id: string; name: string };
     }>('/api/v1/games', {
       method: 'POST',
-      body: JSON.stringify({ name, playerCompanyName }),
+      body: JSON.stringify({ name, playerCompanyName, ...options }),
     });
   }
 
@@ -66,6 +289,7 @@ class ApiClient {
       isPaused: boolean;
       playerCompanyId: string;
       playerCash: number;
+      difficulty: Difficulty;
       buildingCount: number;
       buildings: Array<{
         id: string;
@@ -77,6 +301,17 @@ class ApiClient {
     }>(`/api/v1/games/${gameId}`);
   }
 
+  /** 注入资金（仅沙盒难度） */
+  async injectCash(gameId: string, amount: number) {
+    return this.request<{
+      success: boolean;
+      data: { cash: number };
+    }>(`/api/v1/games/${gameId}/cash`, {
+      method: 'POST',
+      body: JSON.stringify({ amount }),
+    });
+  }
+
   async setGameControl(gameId: string, speed: number, isPaused?: boolean) {
     return this.request<{ gameId: string; speed: number; isPaused: boolean }>(
       `/api/v1/games/${gameId}/control`,
@@ -154,10 +389,16 @@ class ApiClient {
         sellerId: string;
         buyerId: string;
         goodsId: string;
-        quantity: number;
+        quantityPerDelivery: number;
         pricePerUnit: number;
         type: string;
         status: string;
+        deliveryIntervalTicks?: number;
+        totalDeliveries?: number;
+        completedDeliveries: number;
+        nextDeliveryTick: number;
+        penaltiesPaid: number;
+        breachedBy?: string;
       }>;
     }>(`/api/v1/games/${gameId}/contracts${query}`);
   }
@@ -171,19 +412,123 @@ class ApiClient {
       quantity: number;
       pricePerUnit: number;
       type: 'spot' | 'long_term';
+      deliveryIntervalTicks?: number;
+      totalDeliveries?: number;
       durationTicks?: number;
     }
   ) {
     return this.request<{
-      id: string;
-      status: string;
-      createdAt: string;
+      contract: {
+        id: string;
+        status: string;
+        breakPenalty: number;
+      };
     }>(`/api/v1/games/${gameId}/contracts`, {
       method: 'POST',
       body: JSON.stringify(contract),
     });
   }
 
+  async cancelContract(gameId: string, contractId: string) {
+    return this.request<{
+      contract: { id: string; status: string };
+    }>(`/api/v1/games/${gameId}/contracts/${contractId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Banking endpoints
+  async getBanking(gameId: string) {
+    return this.request<{
+      success: boolean;
+      data: {
+        profile: {
+          companyId: string;
+          rating: CreditRating;
+          totalAssets: number;
+          leverage: number;
+          operatingCashFlow: number;
+          lastRatedTick: number;
+          defaultedAtTick?: number;
+        };
+        quote: {
+          rating: CreditRating;
+          termRate: number;
+          creditLineRate: number;
+          borrowingCapacity: number;
+          totalDebt: number;
+        };
+        loans: BankLoan[];
+      };
+    }>(`/api/v1/games/${gameId}/banking`);
+  }
+
+  async takeLoan(gameId: string, loan: {
+    type: 'term' | 'credit_line';
+    amount: number;
+    termTicks?: number;
+  }) {
+    return this.request<{
+      success: boolean;
+      data: { loan: BankLoan; playerCash: number };
+    }>(`/api/v1/games/${gameId}/loans`, {
+      method: 'POST',
+      body: JSON.stringify(loan),
+    });
+  }
+
+  async drawCredit(gameId: string, loanId: string, amount: number) {
+    return this.request<{
+      success: boolean;
+      data: { loan: BankLoan; playerCash: number };
+    }>(`/api/v1/games/${gameId}/loans/${loanId}/draw`, {
+      method: 'POST',
+      body: JSON.stringify({ amount }),
+    });
+  }
+
+  async repayLoan(gameId: string, loanId: string, amount: number) {
+    return this.request<{
+      success: boolean;
+      data: { loan: BankLoan; playerCash: number };
+    }>(`/api/v1/games/${gameId}/loans/${loanId}/repay`, {
+      method: 'POST',
+      body: JSON.stringify({ amount }),
+    });
+  }
+
+  async getBankruptcies(gameId: string, limit?: number) {
+    return this.request<{
+      success: boolean;
+      data: {
+        cases: {
+          companyId: string;
+          companyName: string;
+          isPlayer: boolean;
+          status: 'restructuring' | 'recovered' | 'liquidated';
+          reason: 'loan_default' | 'cash_shortfall';
+          insolventSinceTick: number;
+          graceEndsTick: number;
+          extensions: number;
+          resolvedTick?: number;
+          auctionProceeds?: number;
+          debtRecovered?: number;
+          debtWrittenOff?: number;
+        }[];
+        auctions: {
+          tick: number;
+          sellerId: string;
+          assetType: 'building' | 'goods';
+          assetId: string;
+          assetName: string;
+          quantity: number;
+          price: number;
+          buyerId: string | null;
+        }[];
+      };
+    }>(`/api/v1/games/${gameId}/bankruptcies${limit ? `?limit=${limit}` : ''}`);
+  }
+
   // Chat endpoints
   async sendChatMessage(
     gameId: string,
@@ -220,21 +565,34 @@ class ApiClient {
       quantity: number;
       pricePerUnit: number;
       duration?: number;
-    }
+    },
+    sessionId?: string
   ) {
     return this.request<{
+      sessionId: string;
       response: string;
       decision: 'accept' | 'reject' | 'counter' | 'continue';
       counterOffer?: {
-        quantity?: number;
-        pricePerUnit?: number;
+        quantity: number;
+        pricePerUnit: number;
         duration?: number;
       };
       emotionalState: string;
+      contract?: { id: string; status: string };
       timestamp: number;
     }>(`/api/v1/games/${gameId}/chat/negotiate`, {
       method: 'POST',
-      body: JSON.stringify({ message, sellerId, goodsType, proposedTerms }),
+      body: JSON.stringify({ message, sellerId, goodsType, proposedTerms, sessionId }),
+    });
+  }
+
+  async acceptCounterOffer(gameId: string, sessionId: string) {
+    return this.request<{
+      sessionId: string;
+      contract: { id: string; status: string };
+    }>(`/api/v1/games/${gameId}/negotiations/${sessionId}/accept`, {
+      method: 'POST',
+      body: JSON.stringify({}),
     });
   }
 
@@ -351,6 +709,8 @@ class ApiClient {
           riskLevel: string;
           scientistComment: string;
         };
+        prerequisiteStatus: ResearchPrerequisite[];
+        successChance: number;
         startedAt?: number;
         completedAt?: number;
       }>;
@@ -358,6 +718,24 @@ class ApiClient {
     }>(`/api/v1/games/${gameId}/research/projects${query}`);
   }
 
+  /** Get events of the player's research projects (pending funding decisions first) */
+  async getResearchEvents(gameId: string) {
+    return this.request<{ success: boolean; events: ResearchEventRecord[] }>(
+      `/api/v1/games/${gameId}/research/events`
+    );
+  }
+
+  /** Decide whether to spend extra funds on a research event */
+  async respondResearchEvent(gameId: string, eventId: string, accept: boolean) {
+    return this.request<{ success: boolean; event: ResearchEventRecord; message: string }>(
+      `/api/v1/games/${gameId}/research/events/${eventId}/respond`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ accept }),
+      }
+    );
+  }
+
   /** Get discovered technologies */
   async getTechnologies(gameId: string) {
     return this.request<{
@@ -372,6 +750,7 @@ class ApiClient {
         isOwned?: boolean;
         canUse?: boolean;
         sideEffectCount?: number;
+        prerequisites?: string[];
         patentHolderId?: string;
         unlockedMethods?: Array<{
           buildingId: string;
@@ -397,6 +776,26 @@ class ApiClient {
     }>(`/api/v1/games/${gameId}/research/technologies`);
   }
 
+  /** Get the company's technology graph (constellation view) */
+  async getTechGraph(gameId: string) {
+    return this.request<{
+      success: boolean;
+      nodes: TechGraphNode[];
+      edges: TechGraphEdge[];
+    }>(`/api/v1/games/${gameId}/research/graph`);
+  }
+
+  /** Replace a technology's prerequisites (tech-tree editing) */
+  async setTechPrerequisites(gameId: string, techId: string, prerequisiteIds: string[]) {
+    return this.request<{ success: boolean; prerequisites: string[] }>(
+      `/api/v1/games/${gameId}/research/technologies/${techId}/prerequisites`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({ prerequisiteIds }),
+      }
+    );
+  }
+
   /** Get technology detail */
   async getTechnologyDetail(gameId: string, techId: string) {
     return this.request<{
@@ -436,24 +835,129 @@ class ApiClient {
     }>(`/api/v1/games/${gameId}/research/technologies/${techId}`);
   }
 
-  /** Request a patent license */
+  /** Request a patent license (AI holders answer immediately) */
   async requestPatentLicense(
     gameId: string,
     patentId: string,
     proposedFee?: number,
-    proposedTerms?: string
+    proposedRoyalty?: number
   ) {
     return this.request<{
+      success: boolean;
       requestId: string;
       patentId: string;
-      status: string;
+      status: LicenseRequest['status'];
       message: string;
+      request: LicenseRequest;
     }>(`/api/v1/games/${gameId}/research/patents/${patentId}/license`, {
       method: 'POST',
-      body: JSON.stringify({ proposedFee, proposedTerms }),
+      body: JSON.stringify({ proposedFee, proposedRoyalty }),
     });
   }
 
+  /** Get incoming / outgoing license requests and active licenses */
+  async getLicenses(gameId: string) {
+    return this.request<{
+      success: boolean;
+      incoming: LicenseRequest[];
+      outgoing: LicenseRequest[];
+      licenses: PatentLicense[];
+    }>(`/api/v1/games/${gameId}/research/licenses`);
+  }
+
+  /** Approve, reject or counter an incoming license request */
+  async respondLicense(
+    gameId: string,
+    requestId: string,
+    decision: 'approve' | 'reject' | 'counter',
+    counter?: Partial<LicenseTerms>
+  ) {
+    return this.request<{ success: boolean; request: LicenseRequest }>(
+      `/api/v1/games/${gameId}/research/licenses/${requestId}/respond`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ decision, ...counter }),
+      }
+    );
+  }
+
+  /** Accept the holder's counter-offer */
+  async acceptLicenseCounter(gameId: string, requestId: string) {
+    return this.request<{ success: boolean; request: LicenseRequest }>(
+      `/api/v1/games/${gameId}/research/licenses/${requestId}/accept`,
+      {
+        method: 'POST',
+        body: JSON.stringify({}),
+      }
+    );
+  }
+
+  /** Withdraw an outgoing license request */
+  async withdrawLicense(gameId: string, requestId: string) {
+    return this.request<{ success: boolean; request: LicenseRequest }>(
+      `/api/v1/games/${gameId}/research/licenses/${requestId}/withdraw`,
+      {
+        method: 'POST',
+        body: JSON.stringify({}),
+      }
+    );
+  }
+
+  /** Challenge a patent's validity (pays the litigation fee) */
+  async challengePatent(gameId: string, patentId: string) {
+    return this.request<{ success: boolean; challenge: PatentChallenge }>(
+      `/api/v1/games/${gameId}/research/patents/${patentId}/challenge`,
+      {
+        method: 'POST',
+        body: JSON.stringify({}),
+      }
+    );
+  }
+
+  /** Get patent challenges, infringement cases and injunctions involving the player */
+  async getLitigation(gameId: string) {
+    return this.request<{
+      success: boolean;
+      challenges: PatentChallenge[];
+      cases: InfringementCase[];
+      injunctions: { patentId: string; companyId: string; issuedAt: number }[];
+      waivers: InfringementWaiver[];
+    }>(`/api/v1/games/${gameId}/research/litigation`);
+  }
+
+  /** Sue over a detected infringement */
+  async fileInfringementSuit(gameId: string, caseId: string, remedy: InfringementRemedy) {
+    return this.request<{ success: boolean; case: InfringementCase }>(
+      `/api/v1/games/${gameId}/research/litigation/${caseId}/file`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ remedy }),
+      }
+    );
+  }
+
+  /** Let a detected infringement go */
+  async dropInfringementCase(gameId: string, caseId: string) {
+    return this.request<{ success: boolean; case: InfringementCase }>(
+      `/api/v1/games/${gameId}/research/litigation/${caseId}/drop`,
+      {
+        method: 'POST',
+        body: JSON.stringify({}),
+      }
+    );
+  }
+
+  /** Withdraw tacit permission and pursue the infringer again */
+  async reopenInfringementCase(gameId: string, caseId: string) {
+    return this.request<{ success: boolean; case?: InfringementCase }>(
+      `/api/v1/games/${gameId}/research/litigation/${caseId}/reopen`,
+      {
+        method: 'POST',
+        body: JSON.stringify({}),
+      }
+    );
+  }
+
   /** Get technology effects summary */
   async getTechnologyEffectsSummary(gameId: string) {
     return this.request<{
@@ -711,24 +1215,34 @@ class ApiClient {
   /** Get LLM configuration */
   async getLLMConfig() {
     return this.request<{
+      provider: LLMProviderType;
       apiKey: string;
       baseUrl: string;
       model: string;
+      budget: LLMBudgetConfig;
     }>('/api/v1/settings/llm');
   }
 
   /** Update LLM configuration */
   async updateLLMConfig(config: {
+    provider?: LLMProviderType;
     apiKey?: string;
     baseUrl?: string;
     model?: string;
+    budget?: {
+      maxTokensPerGame?: number;
+      features?: Partial<Record<LLMFeature, Partial<LLMFeatureBudget>>>;
+      pricing?: Partial<LLMBudgetConfig['pricing']>;
+    };
   }) {
     return this.request<{
       success: boolean;
       config: {
+        provider: LLMProviderType;
         apiKey: string;
         baseUrl: string;
         model: string;
+        budget: LLMBudgetConfig;
       };
     }>('/api/v1/settings/llm', {
       method: 'POST',
@@ -750,6 +1264,7 @@ class ApiClient {
 
   /** Test LLM connection with temporary config (without saving) */
   async testLLMConnectionTemp(config: {
+    provider?: LLMProviderType;
     apiKey?: string;
     baseUrl?: string;
     model?: string;
@@ -775,6 +1290,7 @@ class ApiClient {
 
   /** Get available models with temporary config (without saving) */
   async getAvailableModelsTemp(config: {
+    provider?: LLMProviderType;
     apiKey?: string;
     baseUrl?: string;
   }) {
@@ -788,12 +1304,62 @@ class ApiClient {
     });
   }
 
+  /** Get this game's LLM usage (calls, tokens, cost and remaining budget per feature) */
+  async getLLMUsage(gameId: string) {
+    return this.request<{
+      success: boolean;
+      data: {
+        gameId: string;
+        enabled: boolean;
+        llmCallsThisSession: number;
+        llmTokensUsed: number;
+        estimatedCost: number;
+        maxTokensPerGame: number;
+        remainingTokens: number | null;
+        deniedCalls: number;
+        features: LLMFeatureUsageReport[];
+      };
+    }>(`/api/v1/games/${gameId}/llm/usage`);
+  }
+
+  /** Get registered prompt templates and their versions */
+  async getPromptTemplates() {
+    return this.request<{
+      success: boolean;
+      data: {
+        id: PromptTemplateId;
+        defaultVersion: string;
+        variables: string[];
+        versions: { version: string; description: string }[];
+      }[];
+    }>('/api/v1/settings/llm/prompts');
+  }
+
+  /** Get the prompt template versions used by this game */
+  async getGamePromptVersions(gameId: string) {
+    return this.request<{
+      success: boolean;
+      data: Record<PromptTemplateId, string>;
+    }>(`/api/v1/games/${gameId}/llm/prompts`);
+  }
+
+  /** Switch the prompt template version used by this game */
+  async selectPromptVersion(gameId: string, templateId: PromptTemplateId, version: string) {
+    return this.request<{
+      success: boolean;
+      data: Record<PromptTemplateId, string>;
+    }>(`/api/v1/games/${gameId}/llm/prompts/${templateId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ version }),
+    });
+  }
+
   // ============================================
   // Stock Market API (Phase 32)
   // ============================================
 
   /** Get all stocks */
-  async getStocks() {
+  async getStocks(gameId: string) {
     return this.request<{
       success: boolean;
       data: {
@@ -834,11 +1400,11 @@ class ApiClient {
           closeTick: number;
         };
       };
-    }>('/api/v1/stocks');
+    }>(`/api/v1/stocks?gameId=${gameId}`);
   }
 
   /** Get single stock details */
-  async getStockDetail(stockId: string) {
+  async getStockDetail(gameId: string, stockId: string) {
     return this.request<{
       success: boolean;
       data: {
@@ -902,12 +1468,12 @@ class ApiClient {
           rating: string;
         } | null;
       };
-    }>(`/api/v1/stocks/${stockId}`);
+    }>(`/api/v1/stocks/${stockId}?gameId=${gameId}`);
   }
 
   /** Get stock price history */
-  async getStockPriceHistory(stockId: string, limit?: number) {
-    const query = limit ? `?limit=${limit}` : '';
+  async getStockPriceHistory(gameId: string, stockId: string, limit?: number) {
+    const query = limit ? `&limit=${limit}` : '';
     return this.request<{
       success: boolean;
       data: Array<{
@@ -919,11 +1485,11 @@ class ApiClient {
         volume: number;
         turnover: number;
       }>;
-    }>(`/api/v1/stocks/${stockId}/history${query}`);
+    }>(`/api/v1/stocks/${stockId}/history?gameId=${gameId}${query}`);
   }
 
   /** Get stockholdings for a company */
-  async getStockHoldings(holderId: string) {
+  async getStockHoldings(gameId: string, holderId: string) {
     return this.request<{
       success: boolean;
       data: Array<{
@@ -940,11 +1506,12 @@ class ApiClient {
         pnLPercent: number;
         ticker: string;
       }>;
-    }>(`/api/v1/stocks/holdings/${holderId}`);
+    }>(`/api/v1/stocks/holdings/${holderId}?gameId=${gameId}`);
   }
 
   /** Submit stock order */
   async submitStockOrder(
+    gameId: string,
     companyId: string,
     stockId: string,
     orderType: 'market' | 'limit',
@@ -972,25 +1539,25 @@ class ApiClient {
         };
         error?: string;
       };
-    }>('/api/v1/stocks/order', {
+    }>(`/api/v1/stocks/order?gameId=${gameId}`, {
       method: 'POST',
       body: JSON.stringify({ companyId, stockId, orderType, side, quantity, limitPrice }),
     });
   }
 
   /** Cancel stock order */
-  async cancelStockOrder(stockId: string, orderId: string) {
+  async cancelStockOrder(gameId: string, stockId: string, orderId: string) {
     return this.request<{
       success: boolean;
       message?: string;
       error?: string;
-    }>(`/api/v1/stocks/order/${stockId}/${orderId}`, {
+    }>(`/api/v1/stocks/order/${stockId}/${orderId}?gameId=${gameId}`, {
       method: 'DELETE',
     });
   }
 
   /** Get market state */
-  async getMarketState() {
+  async getMarketState(gameId: string) {
     return this.request<{
       success: boolean;
       data: {
@@ -1007,15 +1574,14 @@ class ApiClient {
         openTick: number;
         closeTick: number;
       };
-    }>('/api/v1/stocks/market/state');
+    }>(`/api/v1/stocks/market/state?gameId=${gameId}`);
   }
 
   /** Get recent stock trades */
-  async getRecentStockTrades(stockId?: string, limit?: number) {
-    const params = new URLSearchParams();
+  async getRecentStockTrades(gameId: string, stockId?: string, limit?: number) {
+    const params = new URLSearchParams({ gameId });
     if (stockId) params.append('stockId', stockId);
     if (limit) params.append('limit', limit.toString());
-    const query = params.toString() ? `?${params.toString()}` : '';
     return this.request<{
       success: boolean;
       data: Array<{
@@ -1028,11 +1594,11 @@ class ApiClient {
         value: number;
         tick: number;
       }>;
-    }>(`/api/v1/stocks/trades/recent${query}`);
+    }>(`/api/v1/stocks/trades/recent?${params.toString()}`);
   }
 
   /** Get market depth (order book) */
-  async getMarketDepth(stockId: string, levels: number = 5) {
+  async getMarketDepth(gameId: string, stockId: string, levels = 5) {
     return this.request<{
       success: boolean;
       data: {
@@ -1042,11 +1608,11 @@ class ApiClient {
         bids: Array<{ price: number; volume: number }>;
         asks: Array<{ price: number; volume: number }>;
       };
-    }>(`/api/v1/stocks/${stockId}/depth?levels=${levels}`);
+    }>(`/api/v1/stocks/${stockId}/depth?gameId=${gameId}&levels=${levels}`);
   }
 
   /** Get orders for a company */
-  async getOrders(companyId: string) {
+  async getOrders(gameId: string, companyId: string) {
     return this.request<{
       success: boolean;
       data: Array<{
@@ -1065,11 +1631,11 @@ class ApiClient {
         ticker: string;
         currentPrice: number;
       }>;
-    }>(`/api/v1/stocks/orders/${companyId}`);
+    }>(`/api/v1/stocks/orders/${companyId}?gameId=${gameId}`);
   }
 
   /** Initiate takeover bid */
-  async initiateTakeover(acquirerId: string, targetId: string, offerPrice: number, rationale?: string) {
+  async initiateTakeover(gameId: string, acquirerId: string, targetId: string, offerPrice: number, rationale?: string) {
     return this.request<{
       success: boolean;
       data?: {
@@ -1086,11 +1652,187 @@ class ApiClient {
         defenseActivated: boolean;
       };
       error?: string;
-    }>('/api/v1/stocks/takeover', {
+    }>(`/api/v1/stocks/takeover?gameId=${gameId}`, {
       method: 'POST',
       body: JSON.stringify({ acquirerId, targetId, offerPrice, rationale }),
     });
   }
+
+  /** Takeover bids involving the player and recent takeover outcomes */
+  async getTakeovers(gameId: string, limit?: number) {
+    return this.request<{
+      success: boolean;
+      data: {
+        bids: TakeoverOffer[];
+        history: {
+          type: 'subsidiary_acquired' | 'merged' | 'failed';
+          bidId: string;
+          acquirerId: string;
+          targetId: string;
+          targetName: string;
+          tick: number;
+          message: string;
+          buildingsTransferred?: number;
+          cashTransferred?: number;
+        }[];
+      };
+    }>(`/api/v1/games/${gameId}/takeovers${limit ? `?limit=${limit}` : ''}`);
+  }
+
+  /** Launch a tender offer as the player */
+  async launchTakeover(gameId: string, offer: {
+    targetId: string;
+    offerPrice: number;
+    mode?: TakeoverMode;
+    rationale?: string;
+  }) {
+    return this.request<{
+      success: boolean;
+      data?: Omit<TakeoverOffer, 'pledges'>;
+      error?: string;
+    }>(`/api/v1/games/${gameId}/takeovers`, {
+      method: 'POST',
+      body: JSON.stringify(offer),
+    });
+  }
+
+  /** Tender the player's shares into a takeover bid (0 withdraws the pledge) */
+  async pledgeShares(gameId: string, bidId: string, shares: number) {
+    return this.request<{
+      success: boolean;
+      data?: TakeoverOffer;
+      error?: string;
+    }>(`/api/v1/games/${gameId}/takeovers/${bidId}/pledge`, {
+      method: 'POST',
+      body: JSON.stringify({ shares }),
+    });
+  }
+
+  /** Player's subsidiaries with their buildings */
+  async getSubsidiaries(gameId: string) {
+    return this.request<{
+      success: boolean;
+      data: {
+        subsidiaries: {
+          subsidiaryId: string;
+          subsidiaryName: string;
+          parentId: string;
+          bidId: string;
+          acquiredTick: number;
+          cash: number;
+          buildings: {
+            id: string;
+            definitionId: string;
+            name: string;
+            currentMethodId: string;
+            efficiency: number;
+            utilization: number;
+          }[];
+        }[];
+        relationships: {
+          targetCompanyId: string;
+          type: 'subsidiary' | 'parent';
+          trust: number;
+          lastInteraction: number;
+          notes: string[];
+        }[];
+      };
+    }>(`/api/v1/games/${gameId}/subsidiaries`);
+  }
+
+  /** Switch the production method of a subsidiary's building */
+  async directSubsidiaryProduction(gameId: string, subsidiaryId: string, buildingId: string, methodId: string) {
+    return this.request<{
+      success: boolean;
+      error?: string;
+    }>(`/api/v1/games/${gameId}/subsidiaries/${subsidiaryId}/buildings/${buildingId}/method`, {
+      method: 'POST',
+      body: JSON.stringify({ methodId }),
+    });
+  }
+
+  /** Pending decision events (with unmet option requirements) and recent decisions */
+  async getDecisions(gameId: string, limit?: number) {
+    return this.request<{
+      success: boolean;
+      data: {
+        pending: (PendingDecisionPayload & { unmetRequirements: Record<string, string[]> })[];
+        history: DecisionRecordPayload[];
+      };
+    }>(`/api/v1/games/${gameId}/decisions${limit ? `?limit=${limit}` : ''}`);
+  }
+
+  // ============================================
+  // Scenario endpoints
+  // ============================================
+
+  /**
+   * 获取可选剧本列表
+   */
+  async getScenarios() {
+    return this.request<{
+      success: boolean;
+      data: ScenarioSummaryPayload[];
+    }>('/api/v1/scenarios');
+  }
+
+  /**
+   * 获取当前游戏的剧本目标进度（自由模式返回 404）
+   */
+  async getGameScenario(gameId: string) {
+    return this.request<{
+      success: boolean;
+      data: ScenarioStatusPayload;
+    }>(`/api/v1/games/${gameId}/scenario`);
+  }
+
+  // ============================================
+  // Labor market endpoints
+  // ============================================
+
+  /**
+   * 获取劳动力市场状况、玩家建筑用工情况和进行中的挖角
+   */
+  async getLaborMarket(gameId: string) {
+    return this.request<{
+      success: boolean;
+      data: {
+        tiers: LaborTierStatusPayload[];
+        staffing: BuildingStaffingPayload[];
+        campaigns: PoachCampaignPayload[];
+      };
+    }>(`/api/v1/games/${gameId}/labor`);
+  }
+
+  // ============================================
+  // Power grid endpoints
+  // ============================================
+
+  /**
+   * 获取电网状况和玩家建筑的用电情况
+   */
+  async getPowerGrid(gameId: string) {
+    return this.request<{
+      success: boolean;
+      data: {
+        status: PowerGridStatusPayload | null;
+        buildings: PowerBuildingPayload[];
+      };
+    }>(`/api/v1/games/${gameId}/power`);
+  }
+
+  /**
+   * 设置建筑的供电优先级（电力不足时低优先级先停电）
+   */
+  async setPowerPriority(gameId: string, buildingId: string, priority: PowerBuildingPayload['priority']) {
+    return this.request<{
+      success: boolean;
+      data: { buildingId: string; priority: PowerBuildingPayload['priority'] };
+    }>(`/api/v1/games/${gameId}/buildings/${buildingId}/power-priority`, {
+      method: 'PUT',
+      body: JSON.stringify({ priority }),
+    });
+  }
 }
 
 // WebSocket connection manager
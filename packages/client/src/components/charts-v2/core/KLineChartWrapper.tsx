@@ -20,7 +20,6 @@ import { DEFAULT_CHART_OPTIONS } from './types';
 export function KLineChartWrapper({
   data,
   chartId,
-  tick,
   width,
   height = 300,
   theme = 'cyberpunk',
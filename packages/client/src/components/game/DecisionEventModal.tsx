@@ -0,0 +1,122 @@
+/**
+ * DecisionEventModal - 决策事件选择弹窗
+ * 展示最早出现的待决事件，玩家选择应对方案；超时后服务端按默认选项处理
+ */
+
+import { useGameStore, usePendingDecisions, useCurrentTick, usePlayerCompany } from '../../stores';
+import { formatMoneyShort } from '../../utils/formatters';
+
+const SEVERITY_STYLES: Record<string, { gradient: string; icon: string }> = {
+  info: { gradient: 'from-slate-600 to-slate-700', icon: '📰' },
+  warning: { gradient: 'from-amber-600 to-orange-700', icon: '⚠️' },
+  critical: { gradient: 'from-red-600 to-rose-800', icon: '🚨' },
+  opportunity: { gradient: 'from-emerald-600 to-green-700', icon: '💡' },
+};
+
+/**
+ * 把服务端的条件表达式转换为可读文本
+ */
+function describeRequirement(requirement: string): string {
+  const [kind, value = ''] = requirement.split(':');
+  switch (kind) {
+    case 'cash':
+      return `现金不少于 ${formatMoneyShort(Number(value))}`;
+    case 'buildings':
+      return `拥有至少 ${value} 座建筑`;
+    case 'building':
+      return `拥有建筑 ${value}`;
+    default:
+      return requirement;
+  }
+}
+
+export function DecisionEventModal() {
+  const pendingDecisions = usePendingDecisions();
+  const currentTick = useCurrentTick();
+  const playerCompany = usePlayerCompany();
+  const decisionError = useGameStore((state) => state.decisionError);
+  const respondToDecision = useGameStore((state) => state.respondToDecision);
+
+  const decision = pendingDecisions[0];
+  if (!decision) return null;
+
+  const { event } = decision;
+  const style = SEVERITY_STYLES[event.severity] ?? SEVERITY_STYLES.warning;
+  const ticksLeft = Math.max(0, decision.deadlineTick - currentTick);
+  const cash = playerCompany?.cash ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-xl max-w-xl w-full max-h-[80vh] overflow-hidden shadow-2xl border border-slate-700">
+        {/* Header */}
+        <div className={`bg-gradient-to-r ${style.gradient} p-4`}>
+          <div className="flex items-center gap-3">
+            <span className="text-3xl">{style.icon}</span>
+            <div className="flex-1">
+              <h2 className="text-xl font-bold text-white">{event.title}</h2>
+              {event.headline && event.headline !== event.title && (
+                <p className="text-sm text-white/80">{event.headline}</p>
+              )}
+            </div>
+            {pendingDecisions.length > 1 && (
+              <span className="text-xs px-2 py-1 rounded-full bg-white/20 text-white">
+                还有 {pendingDecisions.length - 1} 个待决
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 border-b border-slate-700">
+          <p className="text-sm text-gray-300 leading-relaxed">{event.content}</p>
+          <div className="flex items-center gap-4 mt-3 text-xs text-gray-400">
+            <span>⏳ 剩余 {ticksLeft} 天，超时将按默认方案处理</span>
+            {decision.pauseGame && <span className="text-amber-400">⏸ 游戏已暂停</span>}
+          </div>
+        </div>
+
+        {/* Options */}
+        <div className="p-4 space-y-3 overflow-y-auto max-h-[45vh]">
+          {(event.responseOptions ?? []).map((option) => {
+            const cost = option.cost ?? 0;
+            const affordable = cost <= cash;
+            const isDefault = option.id === decision.defaultOptionId;
+
+            return (
+              <button
+                key={option.id}
+                onClick={() => { respondToDecision(event.id, option.id); }}
+                disabled={!affordable}
+                className="w-full text-left p-3 rounded-lg bg-slate-700/50 hover:bg-slate-700 border border-slate-600 hover:border-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-slate-600"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-white">
+                    {option.label}
+                    {isDefault && <span className="ml-2 text-xs text-gray-400">(默认)</span>}
+                  </span>
+                  {cost > 0 && (
+                    <span className={`text-sm font-mono ${affordable ? 'text-orange-400' : 'text-red-400'}`}>
+                      -{formatMoneyShort(cost)}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">{option.description}</p>
+                {option.requirements && option.requirements.length > 0 && (
+                  <p className="text-xs text-cyan-400/80 mt-1">
+                    条件：{option.requirements.map(describeRequirement).join('，')}
+                  </p>
+                )}
+              </button>
+            );
+          })}
+
+          {decisionError && (
+            <div className="text-sm text-red-400 bg-red-500/10 border border-red-500/30 rounded-lg p-2">
+              {decisionError}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -63,6 +63,16 @@ export function FinancialReport({ onClose }: FinancialReportProps) {
               </div>
             </div>
           </div>
+          {financials && (financials.royaltyIncome > 0 || financials.royaltyExpense > 0) && (
+            <div className="mt-3 flex justify-between text-xs text-gray-400">
+              <span>专利使用费（本 Tick）</span>
+              <span>
+                <span className="text-green-400">+{formatMoneyShort(financials.royaltyIncome)}</span>
+                {' / '}
+                <span className="text-red-400">-{formatMoneyShort(financials.royaltyExpense)}</span>
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Building Details */}
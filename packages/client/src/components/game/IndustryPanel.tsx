@@ -9,7 +9,7 @@
  */
 
 import { useState, useMemo, useCallback, memo } from 'react';
-import { useGameStore, useMarketPrices, useBuildingShortages, useInventory, useNavigateToEconomyGoods, type FinancialSummary, type BuildingProfit, type BuildingShortage, type InventorySnapshot } from '../../stores';
+import { useGameStore, useMarketPrices, useBuildingShortages, useInventory, useNavigateToEconomyGoods, useLaborTiers, usePowerGrid, type FinancialSummary, type BuildingProfit, type BuildingShortage, type InventorySnapshot } from '../../stores';
 import { BUILDINGS_MAP, GOODS_MAP, type BuildingData, type ProductionMethodData, type ProductionSlotData } from '@scc/shared';
 import type { EntityId, BuildingInstance } from '@scc/shared';
 import { gameWebSocket } from '../../services/websocket';
@@ -428,6 +428,119 @@ const CapacitySummaryCard = memo(function CapacitySummaryCard({
   );
 });
 
+// 劳动力市场卡片
+const LaborMarketCard = memo(function LaborMarketCard() {
+  const tiers = useLaborTiers();
+
+  if (tiers.length === 0) return null;
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-4 mb-4 border border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold text-white">劳动力市场</h3>
+        <span className="text-xs text-gray-400">人手不足的工厂按在岗比例减产，工资计入运营成本</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {tiers.map((tier) => {
+          const tightness = tier.laborForce > 0 ? tier.demand / tier.laborForce : 0;
+          const employedPercent = tier.laborForce > 0 ? Math.min(100, (tier.employed / tier.laborForce) * 100) : 0;
+          const wageChange = tier.baseWage > 0 ? (tier.wage / tier.baseWage - 1) * 100 : 0;
+          const tightnessColor = tightness > 1 ? 'text-red-400' : tightness > 0.9 ? 'text-yellow-400' : 'text-green-400';
+
+          return (
+            <div key={tier.popGroupId} className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="text-gray-300">{tier.nameZh}</span>
+                <span className={tightnessColor}>用工需求 {(tightness * 100).toFixed(0)}%</span>
+              </div>
+              <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden mb-2">
+                <div className="h-full bg-cyan-500" style={{ width: `${employedPercent}%` }} />
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-xs">
+                <div>
+                  <div className="text-gray-500">在岗 / 劳动力</div>
+                  <div className="text-white">{Math.round(tier.employed).toLocaleString()} / {Math.round(tier.laborForce).toLocaleString()}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">工资（月）</div>
+                  <div className="text-white">
+                    {formatMoney(tier.wage)}
+                    <span className={`ml-1 ${wageChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {wageChange >= 0 ? '+' : ''}{wageChange.toFixed(0)}%
+                    </span>
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-500">居民收入</div>
+                  <div className="text-white">×{tier.incomeMultiplier.toFixed(2)}</div>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+// 电网卡片
+const PowerGridCard = memo(function PowerGridCard() {
+  const grid = usePowerGrid();
+  const buildings = useGameStore((state) => state.buildings);
+
+  if (!grid) return null;
+
+  const loadPercent = grid.capacity > 0 ? (grid.load / grid.capacity) * 100 : 0;
+  const loadColor = grid.capacity === 0 || loadPercent > 100 ? 'bg-orange-500' : loadPercent > 80 ? 'bg-yellow-500' : 'bg-green-500';
+  const reserveTicks = grid.load > 0 ? grid.stored / grid.load : null;
+  const blackoutNames = grid.blackoutBuildingIds.map((id) => buildings.get(id)?.name ?? id);
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-4 mb-4 border border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold text-white">⚡ 电网</h3>
+        <span className="text-xs text-gray-400">发电不足时自动从市场购电，库存耗尽时低优先级建筑先停电</span>
+      </div>
+
+      <div className="flex items-center justify-between text-sm mb-1">
+        <span className="text-gray-400">负荷 / 自有发电能力</span>
+        <span className="text-white">
+          {grid.load.toFixed(0)} / {grid.capacity.toFixed(0)}
+          {grid.capacity > 0 && <span className="text-gray-400 ml-1">({loadPercent.toFixed(0)}%)</span>}
+        </span>
+      </div>
+      <div className="h-2 bg-slate-700 rounded-full overflow-hidden mb-3">
+        <div className={`h-full ${loadColor}`} style={{ width: `${grid.capacity > 0 ? Math.min(100, loadPercent) : 100}%` }} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-xs">
+        <div>
+          <div className="text-gray-500">电力库存</div>
+          <div className="text-white">
+            {grid.stored.toFixed(0)}
+            {reserveTicks !== null && <span className="text-gray-400 ml-1">（约 {reserveTicks.toFixed(0)} 天）</span>}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-500">用电建筑</div>
+          <div className="text-white">{grid.consumers}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">供电缺口</div>
+          <div className={grid.shortfall > 0 ? 'text-red-400' : 'text-green-400'}>{grid.shortfall.toFixed(0)}</div>
+        </div>
+      </div>
+
+      {blackoutNames.length > 0 && (
+        <div className="mt-3 text-xs text-red-400">
+          停电 {blackoutNames.length} 座：{blackoutNames.join('、')}
+        </div>
+      )}
+    </div>
+  );
+});
+
 /** 合并后的建筑组数据 */
 interface BuildingGroup {
   definitionId: string;
@@ -1104,6 +1217,12 @@ export const IndustryPanel = memo(function IndustryPanel() {
         {/* 产能概览 */}
         <CapacitySummaryCard buildings={buildings} financials={financials} />
         
+        {/* 劳动力市场 */}
+        <LaborMarketCard />
+        
+        {/* 电网 */}
+        <PowerGridCard />
+        
         {/* 停工警告面板（综合所有停工类型） */}
         <ShutdownAlertPanel />
         
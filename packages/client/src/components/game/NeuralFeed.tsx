@@ -21,6 +21,8 @@ const typeConfig: Record<string, { icon: string; color: string; bgColor: string
   'expansion': { icon: '🏗️', color: 'text-blue-400', bgColor: 'bg-blue-500/10' },
   'media_attack': { icon: '📢', color: 'text-yellow-400', bgColor: 'bg-yellow-500/10' },
   'strategy_change': { icon: '🎯', color: 'text-purple-400', bgColor: 'bg-purple-500/10' },
+  'talent_poaching': { icon: '🧲', color: 'text-pink-400', bgColor: 'bg-pink-500/10' },
+  'tech_breakthrough': { icon: '🔬', color: 'text-cyan-400', bgColor: 'bg-cyan-500/10' },
 };
 
 // 新闻项组件
@@ -19,8 +19,6 @@ interface PriceChartCanvasProps {
 // Canvas 价格图表组件
 function PriceChartCanvas({
   history,
-  goodsId,
-  tick,
   width = 400,
   height = 220,
 }: PriceChartCanvasProps) {
@@ -6,7 +6,11 @@
  * - Natural language technology concept input
  * - Real-time LLM keyword analysis
  * - Project management (evaluate, start, invest)
+ * - Research events (breakthroughs, setbacks, extra-funding decisions)
  * - Technology blueprint display
+ * - Patent licensing (request, approve / reject / counter, royalties)
+ * - Patent litigation (validity challenges, infringement suits)
+ * - Tech constellation (prerequisite graph)
  */
 
 import { useState, useEffect, useCallback } from 'react';
@@ -35,6 +39,12 @@ interface ResearchProject {
     estimatedCost?: number;
     estimatedTicks?: number;
   };
+  prerequisiteStatus?: {
+    technologyId?: string;
+    name: string;
+    owned: boolean;
+  }[];
+  successChance?: number;
   startedAt?: number;
   completedAt?: number;
 }
@@ -48,9 +58,14 @@ interface Technology {
   tier: number;
   isLLMGenerated: boolean;
   patentHolderId?: string;
+  patentId?: string;
+  patentStatus?: string;
+  isExclusive?: boolean;
+  licenseTerms?: LicenseTerms;
   isOwned?: boolean;
   canUse?: boolean;
   sideEffectCount?: number;
+  prerequisites?: string[];
   unlockedMethods?: Array<{
     buildingId: string;
     methodId: string;
@@ -72,6 +87,111 @@ interface Technology {
   }>;
 }
 
+interface LicenseTerms {
+  upfrontFee: number;
+  royaltyPerUnit: number;
+}
+
+interface LicenseRequest {
+  id: string;
+  patentId: string;
+  technologyName: string;
+  holderId: string;
+  requesterId: string;
+  proposed: LicenseTerms;
+  counter?: LicenseTerms;
+  status: string;
+  createdAt: number;
+  reason?: string;
+}
+
+interface PatentLicense {
+  patentId: string;
+  technologyName: string;
+  holderId: string;
+  licenseeId: string;
+  terms: LicenseTerms;
+  grantedAt: number;
+  royaltiesPaid: number;
+}
+
+interface PatentChallenge {
+  id: string;
+  technologyName: string;
+  holderId: string;
+  challengerId: string;
+  cost: number;
+  resolvesAt: number;
+  status: string;
+  priorArt?: { technologyName: string; similarity: number };
+}
+
+interface InfringementCase {
+  id: string;
+  technologyName: string;
+  holderId: string;
+  infringerId: string;
+  remedy: string;
+  status: string;
+  infringingUnits: number;
+  resolvesAt?: number;
+  damages?: number;
+  reason?: string;
+}
+
+interface LitigationOverview {
+  challenges: PatentChallenge[];
+  cases: InfringementCase[];
+  /** 默许中的案件（玩家为持有人时可重新追究） */
+  waivedCaseIds: string[];
+}
+
+interface LicenseOverview {
+  incoming: LicenseRequest[];
+  outgoing: LicenseRequest[];
+  licenses: PatentLicense[];
+}
+
+interface ResearchEventRecord {
+  id: string;
+  projectId: string;
+  title: string;
+  description: string;
+  tick: number;
+  decision?: {
+    cost: number;
+    acceptLabel: string;
+    declineLabel: string;
+    deadlineTick: number;
+    choice?: string;
+  };
+}
+
+interface TechGraph {
+  nodes: {
+    technologyId: string;
+    name: string;
+    category: string;
+    tier: number;
+    position: { x: number; y: number };
+    brightness: number;
+    canUse: boolean;
+    isPlayerInvented: boolean;
+  }[];
+  edges: {
+    from: string;
+    to: string;
+    satisfied: boolean;
+  }[];
+}
+
+// Counter-offer being drafted for an incoming request
+interface CounterDraft {
+  requestId: string;
+  upfrontFee: string;
+  royaltyPerUnit: string;
+}
+
 // Selected technology detail modal state
 interface TechDetailModal {
   isOpen: boolean;
@@ -103,6 +223,27 @@ const RISK_COLORS: Record<string, string> = {
   extreme: 'text-red-400 bg-red-500/20',
 };
 
+// License request status labels
+const LICENSE_STATUS_LABELS: Record<string, string> = {
+  pending: '待答复',
+  approved: '已批准',
+  rejected: '已拒绝',
+  negotiating: '还价中',
+  withdrawn: '已撤回',
+};
+
+// Patent challenge / infringement case status labels
+const LITIGATION_STATUS_LABELS: Record<string, string> = {
+  pending: '审理中',
+  upheld: '专利维持有效',
+  invalidated: '专利被宣告无效',
+  detected: '待决定',
+  filed: '审理中',
+  won: '侵权成立',
+  dismissed: '已驳回',
+  dropped: '已放弃',
+};
+
 // Category icons
 const CATEGORY_ICONS: Record<string, string> = {
   manufacturing: '🏭',
@@ -115,9 +256,26 @@ const CATEGORY_ICONS: Record<string, string> = {
   finance: '💰',
 };
 
+// Patent status badge text
+function patentStatusLabel(status: string | undefined): string {
+  switch (status) {
+    case 'Challenged':
+      return '专利挑战审理中';
+    case 'Invalidated':
+      return '专利已被宣告无效';
+    case 'Expired':
+      return '专利已过期';
+    default:
+      return '专利保护中';
+  }
+}
+
 export function ResearchLab() {
   const gameId = useGameStore((state) => state.gameId);
   const playerCash = useGameStore((state) => state.playerCompany?.cash ?? 0);
+  const playerCompanyId = useGameStore((state) => state.playerCompanyId);
+  const aiCompanies = useGameStore((state) => state.aiCompanies);
+  const currentTick = useGameStore((state) => state.currentTick);
   
   // Concept input state
   const [conceptName, setConceptName] = useState('');
@@ -126,7 +284,7 @@ export function ResearchLab() {
   const [constraints, setConstraints] = useState('');
   
   // UI state
-  const [activeTab, setActiveTab] = useState<'concept' | 'projects' | 'technologies' | 'effects'>('concept');
+  const [activeTab, setActiveTab] = useState<'concept' | 'projects' | 'technologies' | 'graph' | 'effects' | 'licenses'>('concept');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isEvaluating, setIsEvaluating] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -138,6 +296,11 @@ export function ResearchLab() {
   const [techDetail, setTechDetail] = useState<TechDetailModal>({ isOpen: false, technology: null });
   const [effectsSummary, setEffectsSummary] = useState<TechEffectsSummary | null>(null);
   const [activeTechs, setActiveTechs] = useState<ActiveTech[]>([]);
+  const [licenseOverview, setLicenseOverview] = useState<LicenseOverview>({ incoming: [], outgoing: [], licenses: [] });
+  const [counterDraft, setCounterDraft] = useState<CounterDraft | null>(null);
+  const [litigation, setLitigation] = useState<LitigationOverview>({ challenges: [], cases: [], waivedCaseIds: [] });
+  const [techGraph, setTechGraph] = useState<TechGraph>({ nodes: [], edges: [] });
+  const [researchEvents, setResearchEvents] = useState<ResearchEventRecord[]>([]);
   
   // Real-time keyword analysis (simulated LLM streaming)
   const [extractedKeywords, setExtractedKeywords] = useState<string[]>([]);
@@ -147,15 +310,22 @@ export function ResearchLab() {
     if (!gameId) return;
     
     try {
-      const [projectsResult, techResult, effectsResult] = await Promise.all([
+      const [projectsResult, eventsResult, techResult, effectsResult, licensesResult, litigationResult, graphResult] = await Promise.all([
         api.getResearchProjects(gameId),
+        api.getResearchEvents(gameId),
         api.getTechnologies(gameId),
         api.getTechnologyEffectsSummary(gameId),
+        api.getLicenses(gameId),
+        api.getLitigation(gameId),
+        api.getTechGraph(gameId),
       ]);
       
       if (projectsResult.data) {
         setProjects(projectsResult.data.projects as ResearchProject[]);
       }
+      if (eventsResult.data && eventsResult.data.success) {
+        setResearchEvents(eventsResult.data.events);
+      }
       if (techResult.data) {
         setTechnologies(techResult.data.technologies as Technology[]);
       }
@@ -163,6 +333,23 @@ export function ResearchLab() {
         setEffectsSummary(effectsResult.data.summary);
         setActiveTechs(effectsResult.data.activeTechnologies);
       }
+      if (licensesResult.data && licensesResult.data.success) {
+        setLicenseOverview({
+          incoming: licensesResult.data.incoming,
+          outgoing: licensesResult.data.outgoing,
+          licenses: licensesResult.data.licenses,
+        });
+      }
+      if (litigationResult.data && litigationResult.data.success) {
+        setLitigation({
+          challenges: litigationResult.data.challenges,
+          cases: litigationResult.data.cases,
+          waivedCaseIds: litigationResult.data.waivers.map(waiver => waiver.caseId),
+        });
+      }
+      if (graphResult.data && graphResult.data.success) {
+        setTechGraph({ nodes: graphResult.data.nodes, edges: graphResult.data.edges });
+      }
     } catch (err) {
       console.error('Failed to load research data:', err);
     }
@@ -178,10 +365,16 @@ export function ResearchLab() {
     if (!gameId) return;
     
     try {
-      const projectsResult = await api.getResearchProjects(gameId);
+      const [projectsResult, eventsResult] = await Promise.all([
+        api.getResearchProjects(gameId),
+        api.getResearchEvents(gameId),
+      ]);
       if (projectsResult.data) {
         setProjects(projectsResult.data.projects as ResearchProject[]);
       }
+      if (eventsResult.data && eventsResult.data.success) {
+        setResearchEvents(eventsResult.data.events);
+      }
     } catch (err) {
       console.error('Failed to load research projects:', err);
     }
@@ -348,6 +541,72 @@ export function ResearchLab() {
     }
   };
   
+  // Run a licensing / litigation action and refresh research data
+  const runPatentAction = async (action: (currentGameId: string) => Promise<{ error?: string }>, failureMessage: string) => {
+    if (!gameId) return;
+    
+    setIsSubmitting(true);
+    setError(null);
+    
+    try {
+      const result = await action(gameId);
+      
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failureMessage);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  // Request a license at the patent's default terms
+  const handleRequestLicense = async (tech: Technology | null) => {
+    if (!gameId || !tech?.patentId) return;
+    const patentId = tech.patentId;
+    await runPatentAction(() => api.requestPatentLicense(gameId, patentId), '申请授权失败');
+    setTechDetail({ isOpen: false, technology: null });
+    setActiveTab('licenses');
+  };
+  
+  // Challenge the validity of another company's patent
+  const handleChallengePatent = async (tech: Technology | null) => {
+    if (!gameId || !tech?.patentId) return;
+    const patentId = tech.patentId;
+    await runPatentAction(() => api.challengePatent(gameId, patentId), '发起挑战失败');
+    setTechDetail({ isOpen: false, technology: null });
+    setActiveTab('licenses');
+  };
+  
+  // Send a counter-offer for an incoming request
+  const handleSubmitCounter = async () => {
+    if (!gameId || !counterDraft) return;
+    const { requestId, upfrontFee, royaltyPerUnit } = counterDraft;
+    await runPatentAction(() => api.respondLicense(gameId, requestId, 'counter', {
+      upfrontFee: Number(upfrontFee) || 0,
+      royaltyPerUnit: Number(royaltyPerUnit) || 0,
+    }), '还价失败');
+    setCounterDraft(null);
+  };
+  
+  // Decide whether to spend extra funds on a research event
+  const handleResearchEvent = async (eventId: string, accept: boolean) => {
+    if (!gameId) return;
+    await runPatentAction(() => api.respondResearchEvent(gameId, eventId, accept), '提交决定失败');
+  };
+  
+  // Display name for a company id
+  const companyName = (companyId: string): string =>
+    companyId === playerCompanyId ? '我方' : aiCompanies.find(c => c.id === companyId)?.name ?? companyId;
+  
+  const pendingIncoming = licenseOverview.incoming.filter(r => r.status === 'pending');
+  const detectedCases = litigation.cases.filter(c => c.status === 'detected' && c.holderId === playerCompanyId);
+  const pendingLegalActions = pendingIncoming.length + detectedCases.length;
+  const pendingResearchDecisions = researchEvents.filter(e => e.decision && !e.decision.choice);
+  
   // Format money
   const formatMoney = (amount: number | undefined | null): string => {
     // Handle undefined, null, or NaN values
@@ -420,6 +679,16 @@ export function ResearchLab() {
             </span>
           )}
         </button>
+        <button
+          onClick={() => { setActiveTab('graph'); }}
+          className={`px-4 py-2 text-sm font-medium transition-colors ${
+            activeTab === 'graph'
+              ? 'text-purple-400 border-b-2 border-purple-400'
+              : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          🌌 技术星图
+        </button>
         <button
           onClick={() => setActiveTab('effects')}
           className={`px-4 py-2 text-sm font-medium transition-colors relative ${
@@ -435,6 +704,21 @@ export function ResearchLab() {
             </span>
           )}
         </button>
+        <button
+          onClick={() => { setActiveTab('licenses'); }}
+          className={`px-4 py-2 text-sm font-medium transition-colors relative ${
+            activeTab === 'licenses'
+              ? 'text-purple-400 border-b-2 border-purple-400'
+              : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          📜 专利授权
+          {pendingLegalActions > 0 && (
+            <span className="absolute -top-1 -right-1 w-5 h-5 bg-yellow-500 rounded-full text-xs flex items-center justify-center text-white">
+              {pendingLegalActions}
+            </span>
+          )}
+        </button>
       </div>
       
       {/* Error display */}
@@ -560,6 +844,35 @@ export function ResearchLab() {
         {/* Projects Tab */}
         {activeTab === 'projects' && (
           <div className="space-y-4">
+            {/* Pending funding decisions */}
+            {pendingResearchDecisions.map((event) => event.decision && (
+              <div key={event.id} className="bg-yellow-500/10 rounded-lg p-4 border border-yellow-500/40">
+                <div className="flex items-center justify-between mb-1">
+                  <h4 className="text-yellow-300 font-medium">⚠️ {event.title}</h4>
+                  <span className="text-xs text-gray-400">
+                    剩余 {Math.max(0, event.decision.deadlineTick - currentTick)} 天
+                  </span>
+                </div>
+                <p className="text-sm text-gray-300">{event.description}</p>
+                <div className="mt-3 flex gap-2">
+                  <button
+                    onClick={() => handleResearchEvent(event.id, true)}
+                    disabled={isSubmitting || playerCash < event.decision.cost}
+                    className="flex-1 py-2 bg-yellow-600 hover:bg-yellow-500 disabled:bg-slate-600 text-white text-sm rounded transition-colors"
+                  >
+                    {event.decision.acceptLabel}（{formatMoney(event.decision.cost)}）
+                  </button>
+                  <button
+                    onClick={() => handleResearchEvent(event.id, false)}
+                    disabled={isSubmitting}
+                    className="flex-1 py-2 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-600 text-white text-sm rounded transition-colors"
+                  >
+                    {event.decision.declineLabel}
+                  </button>
+                </div>
+              </div>
+            ))}
+            
             {projects.length === 0 ? (
               <div className="text-center py-12 text-gray-500">
                 <span className="text-4xl mb-3 block">📭</span>
@@ -597,12 +910,15 @@ export function ResearchLab() {
                           ? 'bg-blue-500/20 text-blue-400'
                           : project.status === 'planning'
                           ? 'bg-yellow-500/20 text-yellow-400'
+                          : project.status === 'failed'
+                          ? 'bg-red-500/20 text-red-400'
                           : 'bg-gray-500/20 text-gray-400'
                       }`}
                     >
                       {project.status === 'active' ? '研发中' :
                        project.status === 'completed' ? '已完成' :
                        project.status === 'planning' ? '规划中' :
+                       project.status === 'failed' ? '研发失败' :
                        project.status}
                     </span>
                   </div>
@@ -642,7 +958,27 @@ export function ResearchLab() {
                         <span className={`px-2 py-0.5 rounded ${RISK_COLORS[project.feasibility.riskLevel] || 'text-gray-400'}`}>
                           {project.feasibility.riskLevel}风险
                         </span>
+                        {project.successChance !== undefined && (
+                          <span className="text-gray-400">
+                            成功率: <span className="text-cyan-400">{(project.successChance * 100).toFixed(0)}%</span>
+                          </span>
+                        )}
                       </div>
+                      {project.prerequisiteStatus && project.prerequisiteStatus.length > 0 && (
+                        <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+                          <span className="text-gray-400">前置技术:</span>
+                          {project.prerequisiteStatus.map((prerequisite) => (
+                            <span
+                              key={prerequisite.technologyId ?? prerequisite.name}
+                              className={`px-2 py-0.5 rounded ${
+                                prerequisite.owned ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'
+                              }`}
+                            >
+                              {prerequisite.owned ? '✓' : '✗'} {prerequisite.name}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                       {project.feasibility.scientistComment && (
                         <p className="text-xs text-gray-400 mt-2 italic">
                           "{project.feasibility.scientistComment}"
@@ -651,6 +987,23 @@ export function ResearchLab() {
                     </div>
                   )}
                   
+                  {/* Recent research events */}
+                  {(() => {
+                    const recentEvents = researchEvents
+                      .filter(e => e.projectId === project.id && !(e.decision && !e.decision.choice))
+                      .slice(0, 3);
+                    return recentEvents.length > 0 && (
+                      <div className="mt-3 space-y-1">
+                        {recentEvents.map((event) => (
+                          <div key={event.id} className="text-xs text-gray-400">
+                            <span className="text-gray-300">{event.title}</span>
+                            <span className="text-gray-500"> · {event.description}</span>
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })()}
+                  
                   {/* Action Buttons */}
                   <div className="mt-3 flex gap-2">
                     {project.status === 'planning' && !project.feasibility && (
@@ -754,7 +1107,7 @@ export function ResearchLab() {
                   {tech.patentHolderId && (
                     <div className="mt-2 text-xs text-yellow-400 flex items-center gap-1">
                       <span>📜</span>
-                      <span>专利保护中</span>
+                      <span>{patentStatusLabel(tech.patentStatus)}</span>
                     </div>
                   )}
                 </div>
@@ -763,6 +1116,84 @@ export function ResearchLab() {
           </div>
         )}
         
+        {/* Graph Tab */}
+        {activeTab === 'graph' && (
+          <div className="space-y-4">
+            {techGraph.nodes.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <span className="text-4xl mb-3 block">🌌</span>
+                <p>星图尚未点亮</p>
+                <p className="text-sm mt-1">发明或获得技术后，技术及其前置关系将显示在这里</p>
+              </div>
+            ) : (
+              (() => {
+                const xs = techGraph.nodes.map(n => n.position.x);
+                const ys = techGraph.nodes.map(n => n.position.y);
+                const minX = Math.min(...xs) - 80;
+                const minY = Math.min(...ys) - 60;
+                const width = Math.max(...xs) - minX + 80;
+                const height = Math.max(...ys) - minY + 60;
+                const positions = new Map(techGraph.nodes.map(n => [n.technologyId, n.position]));
+                return (
+                  <div className="bg-slate-950 rounded-lg border border-slate-700 p-2">
+                    <svg viewBox={`${minX} ${minY} ${width} ${height}`} className="w-full" style={{ maxHeight: 480 }}>
+                      {techGraph.edges.map((edge) => {
+                        const from = positions.get(edge.from);
+                        const to = positions.get(edge.to);
+                        if (!from || !to) return null;
+                        return (
+                          <line
+                            key={`${edge.from}-${edge.to}`}
+                            x1={from.x}
+                            y1={from.y}
+                            x2={to.x}
+                            y2={to.y}
+                            stroke={edge.satisfied ? '#22d3ee' : '#475569'}
+                            strokeWidth={2}
+                            strokeDasharray={edge.satisfied ? undefined : '6 4'}
+                          />
+                        );
+                      })}
+                      {techGraph.nodes.map((node) => (
+                        <g
+                          key={node.technologyId}
+                          className="cursor-pointer"
+                          opacity={node.brightness}
+                          onClick={() => {
+                            const tech = technologies.find(t => t.id === node.technologyId);
+                            if (tech) setTechDetail({ isOpen: true, technology: tech });
+                          }}
+                        >
+                          <circle
+                            cx={node.position.x}
+                            cy={node.position.y}
+                            r={14 + node.tier * 2}
+                            fill={node.isPlayerInvented ? '#a855f7' : node.canUse ? '#0891b2' : '#334155'}
+                            stroke="#e2e8f0"
+                            strokeWidth={1}
+                          />
+                          <text x={node.position.x} y={node.position.y + 5} textAnchor="middle" fontSize={14}>
+                            {CATEGORY_ICONS[node.category?.toLowerCase()] || '🔬'}
+                          </text>
+                          <text x={node.position.x} y={node.position.y + 36 + node.tier * 2} textAnchor="middle" fontSize={11} fill="#cbd5e1">
+                            {node.name}
+                          </text>
+                        </g>
+                      ))}
+                    </svg>
+                    <div className="flex items-center gap-4 px-2 py-1 text-xs text-gray-400">
+                      <span><span className="text-purple-400">●</span> 我方发明</span>
+                      <span><span className="text-cyan-500">●</span> 可使用</span>
+                      <span><span className="text-slate-500">●</span> 未掌握</span>
+                      <span>实线: 前置已满足 · 虚线: 前置未满足</span>
+                    </div>
+                  </div>
+                );
+              })()
+            )}
+          </div>
+        )}
+        
         {/* Effects Tab */}
         {activeTab === 'effects' && (
           <div className="space-y-4">
@@ -894,6 +1325,262 @@ export function ResearchLab() {
           </div>
         )}
         
+        {/* Licenses Tab */}
+        {activeTab === 'licenses' && (
+          <div className="space-y-4">
+            {/* Incoming Requests */}
+            <div className="bg-slate-800 rounded-lg p-4 border border-slate-700">
+              <h4 className="text-sm font-medium text-yellow-400 mb-3">📥 收到的授权申请</h4>
+              {licenseOverview.incoming.length === 0 ? (
+                <p className="text-xs text-gray-500">暂无授权申请</p>
+              ) : (
+                <div className="space-y-2">
+                  {licenseOverview.incoming.map((req) => (
+                    <div key={req.id} className="bg-slate-700/50 rounded p-3 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="text-white">{companyName(req.requesterId)} → {req.technologyName}</span>
+                        <span className="text-xs text-gray-400">{LICENSE_STATUS_LABELS[req.status] ?? req.status}</span>
+                      </div>
+                      <div className="text-xs text-gray-400 mt-1">
+                        报价: 预付 {formatMoney(req.proposed.upfrontFee)} · 每单位 {formatMoney(req.proposed.royaltyPerUnit)}
+                        {req.counter && (
+                          <span className="text-yellow-400 ml-2">
+                            还价: 预付 {formatMoney(req.counter.upfrontFee)} · 每单位 {formatMoney(req.counter.royaltyPerUnit)}
+                          </span>
+                        )}
+                      </div>
+                      {req.status === 'pending' && (
+                        counterDraft?.requestId === req.id ? (
+                          <div className="mt-2 flex items-center gap-2">
+                            <input
+                              type="number"
+                              value={counterDraft.upfrontFee}
+                              onChange={(e) => { setCounterDraft({ ...counterDraft, upfrontFee: e.target.value }); }}
+                              className="w-28 px-2 py-1 bg-slate-900 border border-slate-600 rounded text-white text-xs"
+                              placeholder="预付授权费"
+                            />
+                            <input
+                              type="number"
+                              value={counterDraft.royaltyPerUnit}
+                              onChange={(e) => { setCounterDraft({ ...counterDraft, royaltyPerUnit: e.target.value }); }}
+                              className="w-24 px-2 py-1 bg-slate-900 border border-slate-600 rounded text-white text-xs"
+                              placeholder="每单位使用费"
+                            />
+                            <button
+                              onClick={handleSubmitCounter}
+                              disabled={isSubmitting}
+                              className="px-2 py-1 bg-yellow-600 hover:bg-yellow-500 disabled:bg-slate-600 text-white text-xs rounded"
+                            >
+                              发送还价
+                            </button>
+                            <button
+                              onClick={() => { setCounterDraft(null); }}
+                              className="px-2 py-1 bg-slate-600 hover:bg-slate-500 text-white text-xs rounded"
+                            >
+                              取消
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="mt-2 flex gap-2">
+                            <button
+                              onClick={() => runPatentAction((currentGameId) => api.respondLicense(currentGameId, req.id, 'approve'), '批准失败')}
+                              disabled={isSubmitting}
+                              className="px-2 py-1 bg-green-600 hover:bg-green-500 disabled:bg-slate-600 text-white text-xs rounded"
+                            >
+                              批准
+                            </button>
+                            <button
+                              onClick={() => {
+                                setCounterDraft({
+                                  requestId: req.id,
+                                  upfrontFee: String(Math.round(req.proposed.upfrontFee * 1.5)),
+                                  royaltyPerUnit: String(Math.round(req.proposed.royaltyPerUnit * 1.5 * 100) / 100),
+                                });
+                              }}
+                              disabled={isSubmitting}
+                              className="px-2 py-1 bg-yellow-600 hover:bg-yellow-500 disabled:bg-slate-600 text-white text-xs rounded"
+                            >
+                              还价
+                            </button>
+                            <button
+                              onClick={() => runPatentAction((currentGameId) => api.respondLicense(currentGameId, req.id, 'reject'), '拒绝失败')}
+                              disabled={isSubmitting}
+                              className="px-2 py-1 bg-red-600 hover:bg-red-500 disabled:bg-slate-600 text-white text-xs rounded"
+                            >
+                              拒绝
+                            </button>
+                          </div>
+                        )
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            
+            {/* Outgoing Requests */}
+            <div className="bg-slate-800 rounded-lg p-4 border border-slate-700">
+              <h4 className="text-sm font-medium text-blue-400 mb-3">📤 发出的授权申请</h4>
+              {licenseOverview.outgoing.length === 0 ? (
+                <p className="text-xs text-gray-500">在已发明技术中选择受专利保护的技术申请授权</p>
+              ) : (
+                <div className="space-y-2">
+                  {licenseOverview.outgoing.map((req) => (
+                    <div key={req.id} className="bg-slate-700/50 rounded p-3 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="text-white">{req.technologyName} ← {companyName(req.holderId)}</span>
+                        <span className="text-xs text-gray-400">{LICENSE_STATUS_LABELS[req.status] ?? req.status}</span>
+                      </div>
+                      <div className="text-xs text-gray-400 mt-1">
+                        报价: 预付 {formatMoney(req.proposed.upfrontFee)} · 每单位 {formatMoney(req.proposed.royaltyPerUnit)}
+                        {req.counter && (
+                          <span className="text-yellow-400 ml-2">
+                            还价: 预付 {formatMoney(req.counter.upfrontFee)} · 每单位 {formatMoney(req.counter.royaltyPerUnit)}
+                          </span>
+                        )}
+                      </div>
+                      {req.reason && <p className="text-xs text-red-400 mt-1">{req.reason}</p>}
+                      {(req.status === 'pending' || req.status === 'negotiating') && (
+                        <div className="mt-2 flex gap-2">
+                          {req.status === 'negotiating' && (
+                            <button
+                              onClick={() => runPatentAction((currentGameId) => api.acceptLicenseCounter(currentGameId, req.id), '接受还价失败')}
+                              disabled={isSubmitting}
+                              className="px-2 py-1 bg-green-600 hover:bg-green-500 disabled:bg-slate-600 text-white text-xs rounded"
+                            >
+                              接受还价
+                            </button>
+                          )}
+                          <button
+                            onClick={() => runPatentAction((currentGameId) => api.withdrawLicense(currentGameId, req.id), '撤回失败')}
+                            disabled={isSubmitting}
+                            className="px-2 py-1 bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 text-white text-xs rounded"
+                          >
+                            撤回
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            
+            {/* Active Licenses */}
+            <div className="bg-slate-800 rounded-lg p-4 border border-slate-700">
+              <h4 className="text-sm font-medium text-green-400 mb-3">✅ 生效的授权</h4>
+              {licenseOverview.licenses.length === 0 ? (
+                <p className="text-xs text-gray-500">暂无生效的授权</p>
+              ) : (
+                <div className="space-y-2">
+                  {licenseOverview.licenses.map((license) => {
+                    const isHolder = license.holderId === playerCompanyId;
+                    return (
+                      <div key={`${license.patentId}:${license.licenseeId}`} className="bg-slate-700/50 rounded p-3 text-sm flex items-center justify-between">
+                        <div>
+                          <span className="text-white">{license.technologyName}</span>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {isHolder ? `授权给 ${companyName(license.licenseeId)}` : `来自 ${companyName(license.holderId)}`}
+                            {' · '}每单位 {formatMoney(license.terms.royaltyPerUnit)}
+                          </p>
+                        </div>
+                        <span className={`text-xs ${isHolder ? 'text-green-400' : 'text-red-400'}`}>
+                          {isHolder ? '+' : '-'}{formatMoney(license.royaltiesPaid)}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+            
+            {/* Litigation */}
+            <div className="bg-slate-800 rounded-lg p-4 border border-slate-700">
+              <h4 className="text-sm font-medium text-red-400 mb-3">⚖️ 专利诉讼</h4>
+              {litigation.challenges.length === 0 && litigation.cases.length === 0 ? (
+                <p className="text-xs text-gray-500">暂无专利挑战或侵权案件</p>
+              ) : (
+                <div className="space-y-2">
+                  {litigation.challenges.map((challenge) => (
+                    <div key={challenge.id} className="bg-slate-700/50 rounded p-3 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="text-white">
+                          无效挑战: {challenge.technologyName}
+                          <span className="text-xs text-gray-400 ml-2">
+                            {companyName(challenge.challengerId)} → {companyName(challenge.holderId)}
+                          </span>
+                        </span>
+                        <span className="text-xs text-gray-400">{LITIGATION_STATUS_LABELS[challenge.status] ?? challenge.status}</span>
+                      </div>
+                      <div className="text-xs text-gray-400 mt-1">
+                        诉讼费 {formatMoney(challenge.cost)}
+                        {challenge.status === 'pending' && ` · Tick ${challenge.resolvesAt} 审结`}
+                        {challenge.priorArt && ` · 在先技术「${challenge.priorArt.technologyName}」相似度 ${(challenge.priorArt.similarity * 100).toFixed(0)}%`}
+                      </div>
+                    </div>
+                  ))}
+                  {litigation.cases.map((infringementCase) => (
+                    <div key={infringementCase.id} className="bg-slate-700/50 rounded p-3 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="text-white">
+                          侵权: {infringementCase.technologyName}
+                          <span className="text-xs text-gray-400 ml-2">
+                            {companyName(infringementCase.infringerId)} 侵犯 {companyName(infringementCase.holderId)}
+                          </span>
+                        </span>
+                        <span className="text-xs text-gray-400">{LITIGATION_STATUS_LABELS[infringementCase.status] ?? infringementCase.status}</span>
+                      </div>
+                      <div className="text-xs text-gray-400 mt-1">
+                        侵权产量 {infringementCase.infringingUnits.toFixed(0)}
+                        {infringementCase.remedy === 'injunction' && ' · 申请禁令'}
+                        {infringementCase.status === 'filed' && infringementCase.resolvesAt !== undefined && ` · Tick ${infringementCase.resolvesAt} 审结`}
+                        {infringementCase.damages !== undefined && ` · 判赔 ${formatMoney(infringementCase.damages)}`}
+                      </div>
+                      {infringementCase.reason && <p className="text-xs text-gray-500 mt-1">{infringementCase.reason}</p>}
+                      {infringementCase.status === 'detected' && infringementCase.holderId === playerCompanyId && (
+                        <div className="mt-2 flex gap-2">
+                          <button
+                            onClick={() => runPatentAction((currentGameId) => api.fileInfringementSuit(currentGameId, infringementCase.id, 'damages'), '起诉失败')}
+                            disabled={isSubmitting}
+                            className="px-2 py-1 bg-orange-600 hover:bg-orange-500 disabled:bg-slate-600 text-white text-xs rounded"
+                          >
+                            起诉索赔
+                          </button>
+                          <button
+                            onClick={() => runPatentAction((currentGameId) => api.fileInfringementSuit(currentGameId, infringementCase.id, 'injunction'), '起诉失败')}
+                            disabled={isSubmitting}
+                            className="px-2 py-1 bg-red-600 hover:bg-red-500 disabled:bg-slate-600 text-white text-xs rounded"
+                          >
+                            索赔并申请禁令
+                          </button>
+                          <button
+                            onClick={() => runPatentAction((currentGameId) => api.dropInfringementCase(currentGameId, infringementCase.id), '操作失败')}
+                            disabled={isSubmitting}
+                            className="px-2 py-1 bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 text-white text-xs rounded"
+                          >
+                            放弃
+                          </button>
+                        </div>
+                      )}
+                      {litigation.waivedCaseIds.includes(infringementCase.id) && infringementCase.holderId === playerCompanyId && (
+                        <div className="mt-2 flex gap-2">
+                          <button
+                            onClick={() => runPatentAction((currentGameId) => api.reopenInfringementCase(currentGameId, infringementCase.id), '操作失败')}
+                            disabled={isSubmitting}
+                            className="px-2 py-1 bg-orange-600 hover:bg-orange-500 disabled:bg-slate-600 text-white text-xs rounded"
+                          >
+                            重新追究
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+        
         {/* Technology Detail Modal */}
         {techDetail.isOpen && techDetail.technology && (
           <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50" onClick={() => setTechDetail({ isOpen: false, technology: null })}>
@@ -935,6 +1622,28 @@ export function ResearchLab() {
                 <p className="text-gray-400 text-sm">{techDetail.technology.description}</p>
               </div>
               
+              {/* Prerequisites */}
+              {techDetail.technology.prerequisites && techDetail.technology.prerequisites.length > 0 && (
+                <div className="mb-4">
+                  <h4 className="text-sm font-medium text-gray-300 mb-1">前置技术</h4>
+                  <div className="flex flex-wrap gap-1">
+                    {techDetail.technology.prerequisites.map((id) => {
+                      const prerequisite = technologies.find(t => t.id === id);
+                      return (
+                        <span
+                          key={id}
+                          className={`px-2 py-0.5 rounded text-xs ${
+                            prerequisite?.canUse ? 'bg-green-500/20 text-green-300' : 'bg-slate-700 text-gray-400'
+                          }`}
+                        >
+                          {prerequisite?.nameZh ?? id}
+                        </span>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+              
               {/* Unlocked Methods */}
               {techDetail.technology.unlockedMethods && techDetail.technology.unlockedMethods.length > 0 && (
                 <div className="mb-4">
@@ -1011,11 +1720,36 @@ export function ResearchLab() {
                 <div className="bg-yellow-500/10 border border-yellow-500/30 rounded p-3">
                   <div className="flex items-center gap-2 text-yellow-400 text-sm">
                     <span>📜</span>
-                    <span>专利保护中</span>
+                    <span>{patentStatusLabel(techDetail.technology.patentStatus)}</span>
                   </div>
                   <p className="text-gray-400 text-xs mt-1">
                     {techDetail.technology.isOwned ? '您拥有此技术的专利' : '需要获取授权才能使用'}
                   </p>
+                  {techDetail.technology.licenseTerms && (
+                    <p className="text-gray-400 text-xs mt-1">
+                      参考条件: 预付 {formatMoney(techDetail.technology.licenseTerms.upfrontFee)} · 每单位产出 {formatMoney(techDetail.technology.licenseTerms.royaltyPerUnit)}
+                      {techDetail.technology.isExclusive && ' · 独占授权'}
+                    </p>
+                  )}
+                  {!techDetail.technology.isOwned && !techDetail.technology.canUse && techDetail.technology.patentId && (
+                    <button
+                      onClick={() => handleRequestLicense(techDetail.technology)}
+                      disabled={isSubmitting}
+                      className="w-full mt-2 py-1.5 bg-yellow-600 hover:bg-yellow-500 disabled:bg-slate-600 text-white text-sm rounded transition-colors"
+                    >
+                      申请授权
+                    </button>
+                  )}
+                  {!techDetail.technology.isOwned && techDetail.technology.patentId
+                    && (techDetail.technology.patentStatus === 'Active' || techDetail.technology.patentStatus === 'Challenged') && (
+                    <button
+                      onClick={() => handleChallengePatent(techDetail.technology)}
+                      disabled={isSubmitting}
+                      className="w-full mt-2 py-1.5 bg-red-700 hover:bg-red-600 disabled:bg-slate-600 text-white text-sm rounded transition-colors"
+                    >
+                      ⚖️ 请求宣告专利无效
+                    </button>
+                  )}
                 </div>
               )}
               
@@ -0,0 +1,73 @@
+/**
+ * ScenarioPanel - 剧本目标进度
+ * 侧边栏展示胜利目标 / 失败条件的达成情况，剧本结束后显示结果
+ */
+
+import { useScenarioStatus, useCurrentTick } from '../../stores';
+import type { ScenarioConditionProgressPayload } from '../../services/websocket';
+import { DIFFICULTY_LABELS } from './ScenarioPicker';
+
+function ConditionRow({ condition, currentTick, kind }: {
+  condition: ScenarioConditionProgressPayload;
+  currentTick: number;
+  kind: 'victory' | 'defeat';
+}) {
+  const icon = kind === 'victory' ? (condition.met ? '✅' : '⬜') : (condition.met ? '❌' : '🛡️');
+  const ticksLeft = condition.byTick !== undefined ? condition.byTick - currentTick : undefined;
+
+  return (
+    <li className="flex items-start gap-1.5">
+      <span>{icon}</span>
+      <span className={`flex-1 ${condition.met && kind === 'victory' ? 'text-green-300' : 'text-gray-300'}`}>
+        {condition.description}
+        {kind === 'victory' && !condition.met && ticksLeft !== undefined && (
+          <span className={`ml-1 ${ticksLeft < 60 ? 'text-red-400' : 'text-gray-500'}`}>
+            （剩余 {Math.max(0, ticksLeft)} 天）
+          </span>
+        )}
+      </span>
+    </li>
+  );
+}
+
+export function ScenarioPanel() {
+  const status = useScenarioStatus();
+  const currentTick = useCurrentTick();
+
+  if (!status) return null;
+
+  const difficulty = DIFFICULTY_LABELS[status.difficulty] ?? DIFFICULTY_LABELS.normal;
+
+  return (
+    <div className="text-xs space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-300">📜 {status.name}</h3>
+        <span className={`text-[10px] px-1.5 py-0.5 rounded border ${difficulty.className}`}>{difficulty.label}</span>
+      </div>
+
+      {status.outcome !== 'in_progress' && (
+        <div className={`p-2 rounded border ${
+          status.outcome === 'victory'
+            ? 'bg-green-500/10 border-green-500/30 text-green-300'
+            : 'bg-red-500/10 border-red-500/30 text-red-300'
+        }`}>
+          {status.outcome === 'victory' ? '🏆 剧本胜利' : '💀 剧本失败'}
+          {status.outcomeReason && <span className="block text-gray-400 mt-0.5">{status.outcomeReason}</span>}
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {status.victory.map((condition, index) => (
+          <ConditionRow key={`v-${index}`} condition={condition} currentTick={currentTick} kind="victory" />
+        ))}
+      </ul>
+      {status.defeat.length > 0 && (
+        <ul className="space-y-1 pt-1 border-t border-cyan-500/10">
+          {status.defeat.map((condition, index) => (
+            <ConditionRow key={`d-${index}`} condition={condition} currentTick={currentTick} kind="defeat" />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
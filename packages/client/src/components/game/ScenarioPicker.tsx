@@ -0,0 +1,124 @@
+/**
+ * ScenarioPicker - 开局剧本选择
+ * 列出服务端提供的剧本（起始条件、目标、失败条件），不选择时为自由模式，可选择难度
+ */
+
+import { useEffect, useState } from 'react';
+import { Difficulty } from '@scc/shared';
+import { api } from '../../api';
+import type { ScenarioSummaryPayload } from '../../services/websocket';
+import { formatMoneyShort } from '../../utils/formatters';
+
+export const DIFFICULTY_LABELS: Record<string, { label: string; className: string }> = {
+  sandbox: { label: '沙盒', className: 'text-sky-300 bg-sky-500/10 border-sky-500/30' },
+  easy: { label: '简单', className: 'text-green-300 bg-green-500/10 border-green-500/30' },
+  normal: { label: '普通', className: 'text-cyan-300 bg-cyan-500/10 border-cyan-500/30' },
+  hard: { label: '困难', className: 'text-orange-300 bg-orange-500/10 border-orange-500/30' },
+  brutal: { label: '残酷', className: 'text-red-300 bg-red-500/10 border-red-500/30' },
+};
+
+interface ScenarioPickerProps {
+  /** 选中的剧本ID，null 表示自由模式 */
+  selectedId: string | null;
+  onSelect: (scenarioId: string | null) => void;
+  /** 自由模式的难度（剧本使用自身设定的难度） */
+  difficulty: Difficulty;
+  onDifficultyChange: (difficulty: Difficulty) => void;
+}
+
+export function ScenarioPicker({ selectedId, onSelect, difficulty, onDifficultyChange }: ScenarioPickerProps) {
+  const [scenarios, setScenarios] = useState<ScenarioSummaryPayload[]>([]);
+
+  useEffect(() => {
+    void api.getScenarios().then((result) => {
+      if (result.data?.success) {
+        setScenarios(result.data.data);
+      }
+    });
+  }, []);
+
+  const selected = scenarios.find((s) => s.id === selectedId);
+
+  return (
+    <div className="w-[32rem] max-w-full mx-auto text-left">
+      <div className="flex flex-wrap gap-2 justify-center">
+        <button
+          onClick={() => { onSelect(null); }}
+          className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+            selectedId === null
+              ? 'border-cyan-400 text-cyan-200 bg-cyan-500/20'
+              : 'border-slate-600 text-gray-400 hover:border-cyan-500/50'
+          }`}
+        >
+          🏙️ 自由模式
+        </button>
+        {scenarios.map((scenario) => {
+          const difficulty = DIFFICULTY_LABELS[scenario.difficulty] ?? DIFFICULTY_LABELS.normal;
+          return (
+            <button
+              key={scenario.id}
+              onClick={() => { onSelect(scenario.id); }}
+              className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                selectedId === scenario.id
+                  ? 'border-cyan-400 text-cyan-200 bg-cyan-500/20'
+                  : 'border-slate-600 text-gray-400 hover:border-cyan-500/50'
+              }`}
+            >
+              {scenario.nameZh}
+              <span className={`ml-2 text-[10px] px-1.5 py-0.5 rounded border ${difficulty.className}`}>
+                {difficulty.label}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedId === null && (
+        <div className="flex gap-1.5 justify-center mt-3">
+          {Object.values(Difficulty).map((level) => {
+            const label = DIFFICULTY_LABELS[level] ?? DIFFICULTY_LABELS.normal;
+            return (
+              <button
+                key={level}
+                onClick={() => { onDifficultyChange(level); }}
+                className={`text-xs px-2 py-1 rounded border transition-opacity ${label.className} ${
+                  difficulty === level ? 'opacity-100 ring-1 ring-current' : 'opacity-50 hover:opacity-80'
+                }`}
+              >
+                {label.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {selected && (
+        <div className="mt-4 p-3 rounded-lg bg-slate-800/70 border border-slate-700 text-xs space-y-2">
+          {selected.description && <p className="text-gray-300 leading-relaxed">{selected.description}</p>}
+          <div className="flex gap-4 text-gray-400">
+            <span>启动资金 {formatMoneyShort(selected.startingCash)}</span>
+            <span>AI 对手 {selected.aiCompanyCount} 家</span>
+          </div>
+          <div>
+            <div className="text-green-400 mb-1">🎯 胜利目标</div>
+            <ul className="space-y-0.5 text-gray-300">
+              {selected.objectives.map((objective) => (
+                <li key={objective}>· {objective}</li>
+              ))}
+            </ul>
+          </div>
+          {selected.defeatConditions.length > 0 && (
+            <div>
+              <div className="text-red-400 mb-1">💀 失败条件</div>
+              <ul className="space-y-0.5 text-gray-300">
+                {selected.defeatConditions.map((condition) => (
+                  <li key={condition}>· {condition}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,15 @@ import { useUISound } from '../../audio';
 // 设置标签类型
 type SettingsTab = 'audio' | 'llm';
 
+// LLM 后端类型
+type LLMProviderType = 'openai' | 'ollama' | 'replay';
+
+const PROVIDER_OPTIONS: { value: LLMProviderType; label: string; hint: string }[] = [
+  { value: 'openai', label: 'OpenAI 兼容 API', hint: '支持OpenAI官方API或兼容的第三方API（如中转站）' },
+  { value: 'ollama', label: '本地模型（Ollama / llama.cpp）', hint: '本地服务无需API Key，Base URL 如 http://localhost:11434/v1' },
+  { value: 'replay', label: '离线回放', hint: '只回放服务器已录制的响应，未录制的请求使用规则回退' },
+];
+
 interface SettingsModalProps {
   onClose: () => void;
   defaultTab?: SettingsTab;
@@ -18,6 +27,7 @@ interface SettingsModalProps {
 
 export function SettingsModal({ onClose, defaultTab = 'audio' }: SettingsModalProps) {
   const [activeTab, setActiveTab] = useState<SettingsTab>(defaultTab);
+  const [provider, setProvider] = useState<LLMProviderType>('openai');
   const [apiKey, setApiKey] = useState('');
   const [baseUrl, setBaseUrl] = useState('');
   const [model, setModel] = useState('');
@@ -44,6 +54,7 @@ export function SettingsModal({ onClose, defaultTab = 'audio' }: SettingsModalPr
       if (result.error) {
         setError(result.error);
       } else {
+        setProvider(result.data.provider || 'openai');
         setApiKey(result.data.apiKey || '');
         setBaseUrl(result.data.baseUrl || '');
         setModel(result.data.model || '');
@@ -60,7 +71,7 @@ export function SettingsModal({ onClose, defaultTab = 'audio' }: SettingsModalPr
     setError(null);
     setTestResult(null);
     try {
-      const config: { apiKey?: string; baseUrl?: string; model?: string } = {};
+      const config: { provider?: LLMProviderType; apiKey?: string; baseUrl?: string; model?: string } = { provider };
       
       // Only send non-empty values, and only send apiKey if it's not masked
       if (apiKey && !apiKey.includes('****')) {
@@ -79,6 +90,7 @@ export function SettingsModal({ onClose, defaultTab = 'audio' }: SettingsModalPr
       } else {
         setTestResult({ success: true, message: '配置已保存！' });
         // Update local state with returned config
+        setProvider(result.data.config.provider || 'openai');
         setApiKey(result.data.config.apiKey || '');
         setBaseUrl(result.data.config.baseUrl || '');
         setModel(result.data.config.model || '');
@@ -92,7 +104,7 @@ export function SettingsModal({ onClose, defaultTab = 'audio' }: SettingsModalPr
 
   // 构建临时配置（用于测试和获取模型，不保存）
   const buildTempConfig = () => {
-    const config: { apiKey?: string; baseUrl?: string; model?: string } = {};
+    const config: { provider?: LLMProviderType; apiKey?: string; baseUrl?: string; model?: string } = { provider };
     // 如果apiKey不是掩码格式，则使用当前输入的值
     if (apiKey && !apiKey.includes('****')) {
       config.apiKey = apiKey;
@@ -248,6 +260,25 @@ export function SettingsModal({ onClose, defaultTab = 'audio' }: SettingsModalPr
             </div>
           ) : (
             <>
+              {/* Provider */}
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  模型后端
+                </label>
+                <select
+                  value={provider}
+                  onChange={(e) => { setProvider(e.target.value as LLMProviderType); }}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                >
+                  {PROVIDER_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {PROVIDER_OPTIONS.find((option) => option.value === provider)?.hint}
+                </p>
+              </div>
+
               {/* API Key */}
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">
@@ -278,7 +309,7 @@ export function SettingsModal({ onClose, defaultTab = 'audio' }: SettingsModalPr
                   className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  支持OpenAI官方API或兼容的第三方API（如中转站）
+                  {provider === 'ollama' ? '本地服务地址（OpenAI 兼容接口）' : '支持OpenAI官方API或兼容的第三方API（如中转站）'}
                 </p>
               </div>
 
@@ -68,7 +68,7 @@ interface StockHolding {
 }
 
 interface StockMarketProps {
-  gameId: string;  // Reserved for future use
+  gameId: string;
   playerCompanyId: string;
 }
 
@@ -92,7 +92,7 @@ const statusLabels: Record<string, { label: string; color: string }> = {
   delisted: { label: '退市', color: 'bg-black' },
 };
 
-export function StockMarket({ gameId: _gameId, playerCompanyId }: StockMarketProps) {
+export function StockMarket({ gameId, playerCompanyId }: StockMarketProps) {
   const [stocks, setStocks] = useState<Stock[]>([]);
   const [marketState, setMarketState] = useState<MarketState | null>(null);
   const [holdings, setHoldings] = useState<StockHolding[]>([]);
@@ -118,8 +118,8 @@ export function StockMarket({ gameId: _gameId, playerCompanyId }: StockMarketPro
       setError(null);
 
       const [stocksResult, holdingsResult] = await Promise.all([
-        api.getStocks(),
-        api.getStockHoldings(playerCompanyId),
+        api.getStocks(gameId),
+        api.getStockHoldings(gameId, playerCompanyId),
       ]);
 
       if (stocksResult.error) {
@@ -140,7 +140,7 @@ export function StockMarket({ gameId: _gameId, playerCompanyId }: StockMarketPro
     } finally {
       setLoading(false);
     }
-  }, [playerCompanyId]);
+  }, [gameId, playerCompanyId]);
 
   useEffect(() => {
     loadStockData();
@@ -157,6 +157,7 @@ export function StockMarket({ gameId: _gameId, playerCompanyId }: StockMarketPro
     setTradeSubmitting(true);
     try {
       const result = await api.submitStockOrder(
+        gameId,
         playerCompanyId,
         selectedStock.companyId,
         tradeForm.orderType,
@@ -664,6 +665,7 @@ export function StockMarket({ gameId: _gameId, playerCompanyId }: StockMarketPro
   // 渲染订单管理标签
   const renderOrdersTab = () => (
     <OrderManagement
+      gameId={gameId}
       companyId={playerCompanyId}
       onOrderCancelled={loadStockData}
       className="h-full"
@@ -727,6 +729,7 @@ export function StockMarket({ gameId: _gameId, playerCompanyId }: StockMarketPro
         <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
           <div className="w-full max-w-4xl max-h-full overflow-auto">
             <StockDetailPanel
+              gameId={gameId}
               stockId={selectedStock.companyId}
               playerId={playerCompanyId}
               onClose={() => setShowDetailPanel(false)}
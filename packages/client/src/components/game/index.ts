@@ -8,6 +8,9 @@ export { ProductionCard } from './ProductionCard';
 export { NeuralFeed } from './NeuralFeed';
 export { BuildingShop } from './BuildingShop';
 export { FinancialReport } from './FinancialReport';
+export { DecisionEventModal } from './DecisionEventModal';
+export { ScenarioPicker } from './ScenarioPicker';
+export { ScenarioPanel } from './ScenarioPanel';
 export { CompetitorPanel } from './CompetitorPanel';
 export { ResearchLab } from './ResearchLab';
 export { IndustryPanel } from './IndustryPanel';
@@ -13,12 +13,14 @@ interface OrderWithStock extends StockOrder {
 }
 
 interface OrderManagementProps {
+  gameId: string;
   companyId: string;
   className?: string;
   onOrderCancelled?: () => void;
 }
 
 export const OrderManagement: React.FC<OrderManagementProps> = ({
+  gameId,
   companyId,
   className = '',
   onOrderCancelled,
@@ -30,7 +32,7 @@ export const OrderManagement: React.FC<OrderManagementProps> = ({
   // 加载订单
   const loadOrders = useCallback(async () => {
     try {
-      const response = await fetch(`/api/v1/stocks/orders/${companyId}`);
+      const response = await fetch(`/api/v1/stocks/orders/${companyId}?gameId=${gameId}`);
       if (response.ok) {
         const data = await response.json();
         if (data.success) {
@@ -42,7 +44,7 @@ export const OrderManagement: React.FC<OrderManagementProps> = ({
     } finally {
       setLoading(false);
     }
-  }, [companyId]);
+  }, [gameId, companyId]);
   
   useEffect(() => {
     loadOrders();
@@ -58,7 +60,7 @@ export const OrderManagement: React.FC<OrderManagementProps> = ({
     
     setCancelling(order.id);
     try {
-      const response = await fetch(`/api/v1/stocks/order/${order.stockId}/${order.id}`, {
+      const response = await fetch(`/api/v1/stocks/order/${order.stockId}/${order.id}?gameId=${gameId}`, {
         method: 'DELETE',
       });
       
@@ -23,6 +23,7 @@ interface MarketDepthData {
 }
 
 interface StockDetailPanelProps {
+  gameId: string;
   stockId: string;
   playerId: string;
   onClose?: () => void;
@@ -30,6 +31,7 @@ interface StockDetailPanelProps {
 }
 
 export const StockDetailPanel: React.FC<StockDetailPanelProps> = ({
+  gameId,
   stockId,
   playerId,
   onClose,
@@ -49,8 +51,8 @@ export const StockDetailPanel: React.FC<StockDetailPanelProps> = ({
   const loadData = useCallback(async () => {
     try {
       const [stockRes, depthRes] = await Promise.all([
-        fetch(`/api/v1/stocks/${stockId}`),
-        fetch(`/api/v1/stocks/${stockId}/depth?levels=5`),
+        fetch(`/api/v1/stocks/${stockId}?gameId=${gameId}`),
+        fetch(`/api/v1/stocks/${stockId}/depth?gameId=${gameId}&levels=5`),
       ]);
       
       if (stockRes.ok) {
@@ -78,7 +80,7 @@ export const StockDetailPanel: React.FC<StockDetailPanelProps> = ({
     } finally {
       setLoading(false);
     }
-  }, [stockId, limitPrice]);
+  }, [gameId, stockId, limitPrice]);
   
   useEffect(() => {
     loadData();
@@ -105,7 +107,7 @@ export const StockDetailPanel: React.FC<StockDetailPanelProps> = ({
         limitPrice: orderType === 'limit' && limitPrice !== '' ? Math.round(Number(limitPrice) * 100) : undefined,
       };
       
-      const response = await fetch('/api/v1/stocks/order', {
+      const response = await fetch(`/api/v1/stocks/order?gameId=${gameId}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(orderData),
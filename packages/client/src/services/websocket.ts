@@ -2,6 +2,8 @@
  * WebSocket Service for real-time game communication
  */
 
+import type { GameEvent } from '@scc/shared';
+
 export interface WSMessage {
   type: string;
   payload?: Record<string, unknown>;
@@ -22,6 +24,8 @@ export interface FinancialSummaryPayload {
   totalIncome: number;
   totalMaintenance: number;
   netProfit: number;
+  royaltyIncome: number;
+  royaltyExpense: number;
   buildingProfits: BuildingProfitPayload[];
 }
 
@@ -66,6 +70,21 @@ export interface MarketEventPayload {
   };
 }
 
+/** 研发事件更新（事件发生 / 追加资金的决定生效） */
+export interface ResearchEventUpdatePayload {
+  type: 'occurred' | 'resolved';
+  event: {
+    id: string;
+    projectId: string;
+    projectName: string;
+    type: string;
+    title: string;
+    description: string;
+    tick: number;
+  };
+  message: string;
+}
+
 /** 研发进度更新 */
 export interface ResearchUpdatePayload {
   completedProjects: string[];
@@ -74,6 +93,7 @@ export interface ResearchUpdatePayload {
     name: string;
     category: string;
   }>;
+  events?: ResearchEventUpdatePayload[];
 }
 
 /** 库存项目 */
@@ -106,6 +126,135 @@ export interface BuildingShortagePayload {
   }>;
 }
 
+/** 等待玩家选择的决策事件 */
+export interface PendingDecisionPayload {
+  event: GameEvent;
+  presentedTick: number;
+  /** 到期 tick，届时按默认选项处理 */
+  deadlineTick: number;
+  defaultOptionId: string;
+  /** 游戏是否已暂停等待选择 */
+  pauseGame: boolean;
+}
+
+/** 决策记录 */
+export interface DecisionRecordPayload {
+  eventId: string;
+  title: string;
+  optionId: string;
+  optionLabel: string;
+  tick: number;
+  timedOut: boolean;
+  cost: number;
+  effects: string[];
+  followUpEventId?: string;
+}
+
+/** 决策事件更新（出现 / 结算） */
+export interface DecisionEventPayload {
+  type: 'presented' | 'resolved';
+  eventId: string;
+  tick: number;
+  message: string;
+  decision?: PendingDecisionPayload;
+  record?: DecisionRecordPayload;
+}
+
+/** 剧本胜负条件进度 */
+export interface ScenarioConditionProgressPayload {
+  description: string;
+  met: boolean;
+  /** 当前数值（份额百分比 / 现金 / 建筑数 / tick） */
+  current: number;
+  byTick?: number;
+  achievedTick?: number;
+}
+
+/** 剧本状态（目标进度与胜负结果） */
+export interface ScenarioStatusPayload {
+  scenarioId: string;
+  name: string;
+  difficulty: string;
+  outcome: 'in_progress' | 'victory' | 'defeat';
+  outcomeTick?: number;
+  outcomeReason?: string;
+  victory: ScenarioConditionProgressPayload[];
+  defeat: ScenarioConditionProgressPayload[];
+}
+
+/** 剧本列表项 */
+export interface ScenarioSummaryPayload {
+  id: string;
+  name: string;
+  nameZh: string;
+  description: string;
+  difficulty: string;
+  startingCash: number;
+  aiCompanyCount: number;
+  objectives: string[];
+  defeatConditions: string[];
+}
+
+/** 劳动力市场单个阶层的状况 */
+export interface LaborTierStatusPayload {
+  popGroupId: string;
+  nameZh: string;
+  laborForce: number;
+  demand: number;
+  employed: number;
+  /** 当前工资（元/人/月） */
+  wage: number;
+  baseWage: number;
+  /** POP 收入倍率 */
+  incomeMultiplier: number;
+}
+
+/** 玩家建筑的用工情况 */
+export interface BuildingStaffingPayload {
+  buildingId: string;
+  buildingName: string;
+  popGroupId: string;
+  required: number;
+  employed: number;
+  staffingRatio: number;
+  dailyWages: number;
+}
+
+/** 进行中的挖角 */
+export interface PoachCampaignPayload {
+  companyId: string;
+  targetCompanyId: string;
+  startTick: number;
+  expiresAtTick: number;
+  remainingTicks: number;
+}
+
+/** 玩家电网状况 */
+export interface PowerGridStatusPayload {
+  tick: number;
+  /** 用电需求（每 tick） */
+  load: number;
+  supplied: number;
+  shortfall: number;
+  /** 自有电厂额定发电量（每 tick） */
+  capacity: number;
+  /** 电力库存 */
+  stored: number;
+  consumers: number;
+  blackoutBuildingIds: string[];
+}
+
+/** 建筑的用电 / 发电情况 */
+export interface PowerBuildingPayload {
+  buildingId: string;
+  buildingName: string;
+  status: string;
+  priority: 'high' | 'normal' | 'low';
+  draw: number;
+  supplied: number;
+  generation: number;
+}
+
 export interface TickPayload {
   gameId: string;
   tick: number;
@@ -142,6 +291,14 @@ export interface TickPayload {
   inventory?: InventorySnapshotPayload;
   /** 建筑短缺信息 */
   buildingShortages?: BuildingShortagePayload[];
+  /** 玩家决策事件 */
+  decisionEvents?: DecisionEventPayload[];
+  /** 剧本目标进度 */
+  scenarioUpdate?: ScenarioStatusPayload;
+  /** 劳动力市场状况（每次调整工资时发送） */
+  laborUpdate?: LaborTierStatusPayload[];
+  /** 电网负荷、发电能力和停电建筑 */
+  powerGridUpdate?: PowerGridStatusPayload;
 }
 
 type MessageHandler = (message: WSMessage) => void;
@@ -258,9 +415,10 @@ class GameWebSocket {
   
   /**
    * Switch building production method
+   * allowInfringement uses a patented method without a license (may be sued)
    */
-  switchMethod(buildingId: string, methodId: string): void {
-    this.send('switchMethod', { buildingId, methodId });
+  switchMethod(buildingId: string, methodId: string, allowInfringement = false): void {
+    this.send('switchMethod', { buildingId, methodId, allowInfringement });
   }
   
   /**
@@ -270,6 +428,13 @@ class GameWebSocket {
     this.send('purchaseBuilding', { buildingDefId });
   }
   
+  /**
+   * Choose an option of a decision event
+   */
+  respondToEvent(eventId: string, optionId: string): void {
+    this.send('respondToEvent', { eventId, optionId });
+  }
+  
   /**
    * Subscribe to message types
    */
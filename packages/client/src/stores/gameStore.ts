@@ -18,10 +18,21 @@ import {
   type MarketSummary,
   type GameEvent,
   CompanyType,
+  Difficulty,
   OperationalStatus,
 } from '@scc/shared';
 import { api } from '../api';
-import { gameWebSocket, type WSMessage, type TickPayload, type ResearchUpdatePayload } from '../services/websocket';
+import {
+  gameWebSocket,
+  type WSMessage,
+  type TickPayload,
+  type ResearchUpdatePayload,
+  type DecisionEventPayload,
+  type PendingDecisionPayload,
+  type ScenarioStatusPayload,
+  type LaborTierStatusPayload,
+  type PowerGridStatusPayload,
+} from '../services/websocket';
 
 /** 建筑收益明细 */
 export interface BuildingProfit {
@@ -53,6 +64,10 @@ export interface FinancialSummary {
   netProfit: number;
   /** 滚动平均净利润（按生产周期平滑） */
   avgNetProfit: number;
+  /** 专利使用费收入 */
+  royaltyIncome: number;
+  /** 专利使用费支出 */
+  royaltyExpense: number;
   buildingProfits: BuildingProfit[];
 }
 
@@ -159,6 +174,8 @@ export interface BuildingShortage {
 export interface ClientGameState {
   // Meta
   gameId: EntityId | null;
+  /** 本局难度 */
+  difficulty: Difficulty;
   isLoading: boolean;
   error: string | null;
   
@@ -206,6 +223,16 @@ export interface ClientGameState {
   
   // Events
   activeEvents: GameEvent[];
+  /** 等待玩家选择的决策事件 */
+  pendingDecisions: PendingDecisionPayload[];
+  /** 最近一次选择失败的原因 */
+  decisionError: string | null;
+  /** 剧本目标进度（自由模式为 null） */
+  scenarioStatus: ScenarioStatusPayload | null;
+  /** 劳动力市场各阶层状况 */
+  laborTiers: LaborTierStatusPayload[];
+  /** 玩家电网状况（没有用电和发电建筑时为 null） */
+  powerGrid: PowerGridStatusPayload | null;
   newsItems: Array<{ id: string; headline: string; timestamp: number; companyId?: string }>;
   
   // AI Assistant
@@ -254,6 +281,10 @@ export interface GameStoreActions {
   // Events
   addEvent: (event: GameEvent) => void;
   dismissEvent: (eventId: EntityId) => void;
+  applyDecisionUpdate: (update: DecisionEventPayload) => void;
+  respondToDecision: (eventId: EntityId, optionId: EntityId) => void;
+  /** 注入资金（仅沙盒难度） */
+  injectCash: (amount: number) => Promise<void>;
   addNewsItem: (headline: string) => void;
   
   // AI Assistant
@@ -275,6 +306,7 @@ type GameStore = ClientGameState & GameStoreActions;
 
 const initialState: ClientGameState = {
   gameId: null,
+  difficulty: Difficulty.Normal,
   isLoading: false,
   error: null,
   
@@ -308,6 +340,11 @@ const initialState: ClientGameState = {
   buildingShortages: [],
   
   activeEvents: [],
+  pendingDecisions: [],
+  decisionError: null,
+  scenarioStatus: null,
+  laborTiers: [],
+  powerGrid: null,
   newsItems: [],
   
   chatMessages: [
@@ -504,6 +541,27 @@ export const useGameStore = create<GameStore>()(
           });
         });
         
+        // 决策事件结算（玩家选择后广播给所有客户端）
+        gameWebSocket.on('decisionResolved', (msg: WSMessage) => {
+          const payload = msg.payload as unknown as DecisionEventPayload & { playerCash?: number };
+          get().applyDecisionUpdate(payload);
+          const playerCash = payload.playerCash;
+          if (playerCash !== undefined) {
+            set((state) => {
+              if (state.playerCompany) {
+                state.playerCompany.cash = playerCash;
+              }
+            });
+          }
+        });
+        
+        gameWebSocket.on('eventResponseResult', (msg: WSMessage) => {
+          const payload = msg.payload as { success: boolean; error?: string };
+          set((state) => {
+            state.decisionError = payload.success ? null : (payload.error ?? '选择失败');
+          });
+        });
+        
         // Fetch game state from server
         const gameResult = await api.getGame(gameId);
         
@@ -519,6 +577,7 @@ export const useGameStore = create<GameStore>()(
           state.gameSpeed = gameData.speed as GameSpeed;
           state.isPaused = gameData.isPaused;
           state.playerCompanyId = gameData.playerCompanyId;
+          state.difficulty = gameData.difficulty;
           // Use playerCash from server, fallback to default if not provided
           const serverCash = gameData.playerCash ?? 500000000;
           state.playerCompany = {
@@ -608,6 +667,32 @@ export const useGameStore = create<GameStore>()(
             });
           });
         }
+        
+        // Load pending decision events
+        const decisionsResult = await api.getDecisions(gameId);
+        if (decisionsResult.data) {
+          set((state) => {
+            state.pendingDecisions = decisionsResult.data.data.pending;
+          });
+        }
+        
+        // Load scenario objectives (free play has none)
+        const scenarioResult = await api.getGameScenario(gameId);
+        set((state) => {
+          state.scenarioStatus = scenarioResult.data?.data ?? null;
+        });
+        
+        // Load labor market status
+        const laborResult = await api.getLaborMarket(gameId);
+        set((state) => {
+          state.laborTiers = laborResult.data?.data.tiers ?? [];
+        });
+        
+        // Load power grid status
+        const powerResult = await api.getPowerGrid(gameId);
+        set((state) => {
+          state.powerGrid = powerResult.data?.data.status ?? null;
+        });
       } catch (error) {
         set((state) => {
           state.isLoading = false;
@@ -954,6 +1039,15 @@ export const useGameStore = create<GameStore>()(
               }
             }
           }
+          
+          // Research events (breakthroughs, setbacks, funding decisions)
+          for (const update of updates.events ?? []) {
+            state.newsItems.unshift({
+              id: `research-${update.event.id}-${update.type}`,
+              headline: update.message,
+              timestamp: payload.timestamp,
+            });
+          }
         }
         
         // Keep only last 30 news items
@@ -961,6 +1055,32 @@ export const useGameStore = create<GameStore>()(
           state.newsItems = state.newsItems.slice(0, 30);
         }
       });
+      
+      // Handle decision events (presented / resolved)
+      for (const update of payload.decisionEvents ?? []) {
+        get().applyDecisionUpdate(update);
+      }
+      
+      // Handle scenario objective progress
+      if (payload.scenarioUpdate) {
+        set((state) => {
+          state.scenarioStatus = payload.scenarioUpdate ?? null;
+        });
+      }
+      
+      // Handle labor market status (sent when wages are adjusted)
+      if (payload.laborUpdate) {
+        set((state) => {
+          state.laborTiers = payload.laborUpdate ?? [];
+        });
+      }
+      
+      // Handle power grid status
+      if (payload.powerGridUpdate) {
+        set((state) => {
+          state.powerGrid = payload.powerGridUpdate ?? null;
+        });
+      }
     },
     
     handleSpeedChange: (speed: number, isPaused: boolean) => {
@@ -1027,6 +1147,44 @@ export const useGameStore = create<GameStore>()(
       });
     },
     
+    applyDecisionUpdate: (update: DecisionEventPayload) => {
+      set((state) => {
+        if (update.type === 'presented' && update.decision) {
+          if (!state.pendingDecisions.some((d) => d.event.id === update.eventId)) {
+            state.pendingDecisions.push(update.decision);
+          }
+          return;
+        }
+        
+        if (!state.pendingDecisions.some((d) => d.event.id === update.eventId)) return;
+        state.pendingDecisions = state.pendingDecisions.filter((d) => d.event.id !== update.eventId);
+        state.decisionError = null;
+        state.newsItems.unshift({
+          id: `decision-${update.eventId}`,
+          headline: `🗳️ ${update.message}`,
+          timestamp: Date.now(),
+        });
+      });
+    },
+    
+    respondToDecision: (eventId: EntityId, optionId: EntityId) => {
+      gameWebSocket.respondToEvent(eventId, optionId);
+    },
+    
+    injectCash: async (amount: number) => {
+      const { gameId } = get();
+      if (!gameId) return;
+      
+      const result = await api.injectCash(gameId, amount);
+      if (result.data?.success) {
+        set((state) => {
+          if (state.playerCompany) {
+            state.playerCompany.cash = result.data.data.cash;
+          }
+        });
+      }
+    },
+    
     addNewsItem: (headline: string) => {
       set((state) => {
         state.newsItems.unshift({
@@ -1170,4 +1328,9 @@ export const useBuildingFinanceHistory = () => useGameStore((state) => state.bui
 export const useInventory = () => useGameStore((state) => state.inventory);
 export const useBuildingShortages = () => useGameStore((state) => state.buildingShortages);
 export const useEconomySelectedGoodsId = () => useGameStore((state) => state.economySelectedGoodsId);
-export const useNavigateToEconomyGoods = () => useGameStore((state) => state.navigateToEconomyGoods);
\ No newline at end of file
+export const useNavigateToEconomyGoods = () => useGameStore((state) => state.navigateToEconomyGoods);
+export const usePendingDecisions = () => useGameStore((state) => state.pendingDecisions);
+export const useScenarioStatus = () => useGameStore((state) => state.scenarioStatus);
+export const useLaborTiers = () => useGameStore((state) => state.laborTiers);
+export const usePowerGrid = () => useGameStore((state) => state.powerGrid);
+export const useDifficulty = () => useGameStore((state) => state.difficulty);
\ No newline at end of file
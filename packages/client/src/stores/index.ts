@@ -21,4 +21,9 @@ export {
   useBuildingShortages,
   useEconomySelectedGoodsId,
   useNavigateToEconomyGoods,
+  usePendingDecisions,
+  useScenarioStatus,
+  useLaborTiers,
+  usePowerGrid,
+  useDifficulty,
 } from './gameStore.js';
\ No newline at end of file
@@ -8,14 +8,19 @@ import cors from '@fastify/cors';
 import helmet from '@fastify/helmet';
 import rateLimit from '@fastify/rate-limit';
 import websocket from '@fastify/websocket';
-import { gameRoutes, chatRoutes, researchRoutes, settingsRoutes, stockRoutes, performanceRoutes } from './routes/index.js';
+import { gameRoutes, chatRoutes, researchRoutes, settingsRoutes, stockRoutes, performanceRoutes, saveRoutes, replayRoutes, bankingRoutes, takeoverRoutes, eventRoutes, scenarioRoutes, laborRoutes, powerRoutes } from './routes/index.js';
 import { websocketRoutes, initGameLoopBroadcast } from './routes/websocket.js';
 import { gameLoop } from './services/gameLoop.js';
+import { gameWorldFactory } from './services/gameWorld.js';
+import { disconnectDatabase } from './services/database.js';
 import { initializePriceWorkerPool, shutdownWorkerPools, getPriceWorkerPool } from './workers/index.js';
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3001;
 const HOST = process.env.HOST ?? '0.0.0.0';
 
+/** 路径中不含 gameId、但读写游戏世界服务的接口（需通过查询参数 gameId 指定游戏） */
+const WORLD_SCOPED_ROUTE_PREFIXES = ['/api/v1/stocks'];
+
 async function bootstrap() {
   const isDev = process.env.NODE_ENV === 'development';
   
@@ -68,6 +73,26 @@ async function bootstrap() {
     };
   });
 
+  // 带 gameId（路径参数或查询参数）的请求进入对应游戏世界，路由中的服务调用解析到该游戏的实例
+  // 路径中没有 gameId 的游戏世界接口必须通过查询参数指定，且游戏必须存在
+  app.addHook('preHandler', (request, reply, done) => {
+    const params = request.params as { gameId?: string } | undefined;
+    const query = request.query as { gameId?: string } | undefined;
+    const gameId = params?.gameId ?? query?.gameId;
+    const worldScoped = WORLD_SCOPED_ROUTE_PREFIXES.some(prefix => request.url.startsWith(prefix));
+
+    if (!gameId) {
+      if (worldScoped) {
+        reply.code(400).send({ success: false, error: '缺少 gameId 参数' });
+        return;
+      }
+    } else if (!gameWorldFactory.enter(gameId) && worldScoped) {
+      reply.code(404).send({ success: false, error: '游戏不存在' });
+      return;
+    }
+    done();
+  });
+
   // Register API routes
   await app.register(gameRoutes);
   await app.register(chatRoutes);
@@ -75,6 +100,14 @@ async function bootstrap() {
   await app.register(settingsRoutes);
   await app.register(stockRoutes);
   await app.register(performanceRoutes);
+  await app.register(saveRoutes);
+  await app.register(replayRoutes);
+  await app.register(bankingRoutes);
+  await app.register(takeoverRoutes);
+  await app.register(eventRoutes);
+  await app.register(scenarioRoutes);
+  await app.register(laborRoutes);
+  await app.register(powerRoutes);
   
   // Register WebSocket routes for game state sync
   await app.register(websocketRoutes);
@@ -104,6 +137,7 @@ async function bootstrap() {
       app.log.info(`Received ${signal}, shutting down...`);
       gameLoop.shutdown();
       await shutdownWorkerPools();
+      await disconnectDatabase();
       await app.close();
       process.exit(0);
     });
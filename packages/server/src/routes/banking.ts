@@ -0,0 +1,157 @@
+/**
+ * Banking API Routes
+ * 贷款、授信额度、信用评级与破产清算
+ */
+
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { gameLoop } from '../services/gameLoop.js';
+import { commandJournal } from '../services/commandJournal.js';
+import { inventoryManager } from '../services/inventoryManager.js';
+import { bankingService, DEFAULT_LOAN_TERM, type LoanResult } from '../services/bankingService.js';
+import { bankruptcyService } from '../services/bankruptcyService.js';
+
+const takeLoanSchema = z.object({
+  type: z.enum(['term', 'credit_line']),
+  /** 定期贷款：借款金额；授信额度：额度上限 */
+  amount: z.number().positive(),
+  /** 定期贷款期限（tick） */
+  termTicks: z.number().int().positive().optional(),
+});
+
+const loanAmountSchema = z.object({
+  amount: z.number().positive(),
+});
+
+export async function bankingRoutes(app: FastifyInstance) {
+  /**
+   * GET /api/v1/games/:gameId/banking
+   * 获取玩家的信用档案、贷款列表和当前报价
+   */
+  app.get('/api/v1/games/:gameId/banking', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    return reply.send({
+      success: true,
+      data: {
+        profile: bankingService.getProfile(game.playerCompanyId, game.currentTick),
+        quote: bankingService.getQuote(game.playerCompanyId, game.currentTick),
+        loans: bankingService.getLoans(game.playerCompanyId),
+      },
+    });
+  });
+
+  /**
+   * POST /api/v1/games/:gameId/loans
+   * 申请定期贷款或开立授信额度
+   */
+  app.post('/api/v1/games/:gameId/loans', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+    const body = takeLoanSchema.parse(request.body);
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    commandJournal.record(gameId, {
+      type: 'takeLoan',
+      loanType: body.type,
+      amount: body.amount,
+      ...(body.termTicks !== undefined ? { termTicks: body.termTicks } : {}),
+    });
+    const result = body.type === 'term'
+      ? bankingService.takeTermLoan(game.playerCompanyId, body.amount, body.termTicks ?? DEFAULT_LOAN_TERM, game.currentTick)
+      : bankingService.openCreditLine(game.playerCompanyId, body.amount, game.currentTick);
+
+    return sendLoanResult(reply, gameId, result, 201);
+  });
+
+  /**
+   * POST /api/v1/games/:gameId/loans/:loanId/draw
+   * 从授信额度提款
+   */
+  app.post('/api/v1/games/:gameId/loans/:loanId/draw', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, loanId } = request.params as { gameId: string; loanId: string };
+    const { amount } = loanAmountSchema.parse(request.body);
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    commandJournal.record(gameId, { type: 'drawCredit', loanId, amount });
+    const result = bankingService.drawCredit(loanId, game.playerCompanyId, amount, game.currentTick);
+
+    return sendLoanResult(reply, gameId, result);
+  });
+
+  /**
+   * POST /api/v1/games/:gameId/loans/:loanId/repay
+   * 提前还款
+   */
+  app.post('/api/v1/games/:gameId/loans/:loanId/repay', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, loanId } = request.params as { gameId: string; loanId: string };
+    const { amount } = loanAmountSchema.parse(request.body);
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    commandJournal.record(gameId, { type: 'repayLoan', loanId, amount });
+    const result = bankingService.repay(loanId, game.playerCompanyId, amount, game.currentTick);
+
+    return sendLoanResult(reply, gameId, result);
+  });
+
+  /**
+   * GET /api/v1/games/:gameId/bankruptcies
+   * 获取破产案件（重整中/已恢复/已清算）和最近的资产拍卖记录
+   */
+  app.get('/api/v1/games/:gameId/bankruptcies', async (request: FastifyRequest<{
+    Querystring: { limit?: string };
+  }>, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+    const limit = parseInt(request.query.limit ?? '50');
+
+    if (!gameLoop.getGame(gameId)) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    return reply.send({
+      success: true,
+      data: {
+        cases: bankruptcyService.getCases(),
+        auctions: bankruptcyService.getAuctions(limit),
+      },
+    });
+  });
+}
+
+/**
+ * 同步玩家现金并返回贷款操作结果
+ */
+function sendLoanResult(reply: FastifyReply, gameId: string, result: LoanResult, successCode = 200) {
+  if (!result.success) {
+    return reply.code(400).send({ success: false, error: result.error });
+  }
+
+  const game = gameLoop.getGame(gameId);
+  if (game) {
+    game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+  }
+
+  return reply.code(successCode).send({
+    success: true,
+    data: {
+      loan: result.loan,
+      playerCash: game?.playerCash,
+    },
+  });
+}
@@ -0,0 +1,95 @@
+/**
+ * Decision Event API Routes
+ * 玩家决策事件：查看待决事件、选择应对方案；查看持续中的事件效果
+ */
+
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { gameLoop } from '../services/gameLoop.js';
+import { commandJournal } from '../services/commandJournal.js';
+import { decisionEventService } from '../services/decisionEvents.js';
+import { eventEffectManager } from '../services/eventEffects.js';
+import { technologyEffectManager } from '../services/technologyEffectManager.js';
+
+const respondSchema = z.object({
+  optionId: z.string(),
+});
+
+export async function eventRoutes(app: FastifyInstance) {
+  /**
+   * GET /api/v1/games/:gameId/decisions
+   * 获取待选择的决策事件（含各选项未满足的条件）和最近的决策记录
+   */
+  app.get('/api/v1/games/:gameId/decisions', async (request: FastifyRequest<{
+    Querystring: { limit?: string };
+  }>, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+    const limit = parseInt(request.query.limit ?? '20');
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    const pending = decisionEventService.getPending().map(decision => ({
+      ...decision,
+      unmetRequirements: Object.fromEntries((decision.event.responseOptions ?? []).map(option => [
+        option.id,
+        decisionEventService.getUnmetRequirements(game, option),
+      ])),
+    }));
+
+    return reply.send({
+      success: true,
+      data: {
+        pending,
+        history: decisionEventService.getHistory(limit),
+      },
+    });
+  });
+
+  /**
+   * POST /api/v1/games/:gameId/decisions/:eventId/respond
+   * 选择决策事件的选项
+   */
+  app.post('/api/v1/games/:gameId/decisions/:eventId/respond', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, eventId } = request.params as { gameId: string; eventId: string };
+    const { optionId } = respondSchema.parse(request.body);
+
+    if (!gameLoop.getGame(gameId)) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    commandJournal.record(gameId, { type: 'respondToEvent', eventId, optionId });
+    const result = gameLoop.respondToDecision(gameId, eventId, optionId);
+
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.send({ success: true, data: result.update?.record });
+  });
+
+  /**
+   * GET /api/v1/games/:gameId/effects
+   * 获取持续中的事件效果和当前被禁止的生产方式
+   */
+  app.get('/api/v1/games/:gameId/effects', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    return reply.send({
+      success: true,
+      data: {
+        active: eventEffectManager.getActiveEffects().map(active => ({
+          ...active,
+          remainingTicks: active.expiresAtTick !== undefined ? Math.max(0, active.expiresAtTick - game.currentTick) : null,
+        })),
+        blockedMethods: technologyEffectManager.getBlockedMethods(),
+      },
+    });
+  });
+}
@@ -4,14 +4,25 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
+import { ContractStatus, ContractType, Difficulty, DIFFICULTY_PRESETS, GameSpeed } from '@scc/shared';
 import { gameLoop, type BuildingInstance } from '../services/gameLoop.js';
 import { economyManager } from '../services/economyManager.js';
 import { autoTradeManager } from '../services/autoTradeManager.js';
+import { saveGameService } from '../services/saveGameService.js';
+import { applyPlayerCommand, commandJournal } from '../services/commandJournal.js';
+import { contractService, type ContractProposal } from '../services/contractService.js';
+import { scenarioRegistry } from '../services/scenarios.js';
 
 // Request schemas
 const createGameSchema = z.object({
   name: z.string().min(1).max(100),
   playerCompanyName: z.string().min(1).max(100),
+  /** 随机种子，相同种子可复现同一局面 */
+  seed: z.number().int().min(0).max(0xffffffff).optional(),
+  /** 剧本ID（见 GET /api/v1/scenarios），不指定时为自由模式 */
+  scenarioId: z.string().optional(),
+  /** 难度，不指定时使用剧本设定的难度（自由模式为普通） */
+  difficulty: z.nativeEnum(Difficulty).optional(),
 });
 
 const updateBuildingMethodSchema = z.object({
@@ -19,28 +30,82 @@ const updateBuildingMethodSchema = z.object({
   methodId: z.string(),
 });
 
+const injectCashSchema = z.object({
+  amount: z.number().positive(),
+});
+
 const setGameSpeedSchema = z.object({
-  speed: z.number().min(0).max(4),
+  speed: z.nativeEnum(GameSpeed),
   isPaused: z.boolean().optional(),
 });
 
+const contractQuerySchema = z.object({
+  companyId: z.string().optional(),
+  status: z.nativeEnum(ContractStatus).optional(),
+});
+
+const createContractSchema = z.object({
+  sellerId: z.string(),
+  buyerId: z.string(),
+  goodsId: z.string(),
+  /** 每次交割数量 */
+  quantity: z.number().positive(),
+  pricePerUnit: z.number().positive(),
+  type: z.enum(['spot', 'long_term']),
+  /** 长期合同：交割间隔（tick） */
+  deliveryIntervalTicks: z.number().int().positive().optional(),
+  /** 长期合同：交割次数（未指定时由 durationTicks 推算） */
+  totalDeliveries: z.number().int().positive().optional(),
+  durationTicks: z.number().int().positive().optional(),
+});
+
 export async function gameRoutes(app: FastifyInstance) {
+  // Get difficulty presets
+  app.get('/api/v1/difficulties', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.send({
+      success: true,
+      data: Object.values(Difficulty).map(difficulty => ({ difficulty, ...DIFFICULTY_PRESETS[difficulty] })),
+    });
+  });
+
   // Create new game
   app.post('/api/v1/games', async (request: FastifyRequest, reply: FastifyReply) => {
     const body = createGameSchema.parse(request.body);
     
-    // TODO: Create game in database with Prisma
-    const game = {
-      id: `game-${Date.now()}`,
+    if (body.scenarioId !== undefined && !scenarioRegistry.get(body.scenarioId)) {
+      return reply.code(400).send({ success: false, error: `剧本不存在: ${body.scenarioId}` });
+    }
+    
+    const gameId = `game-${Date.now()}`;
+    const gameState = gameLoop.getOrCreateGame(gameId, 'player-company-1', {
       name: body.name,
-      currentTick: 0,
-      speed: 1,
-      isPaused: true,
+      playerCompanyName: body.playerCompanyName,
+      ...(body.seed !== undefined ? { seed: body.seed } : {}),
+      ...(body.scenarioId !== undefined ? { scenarioId: body.scenarioId } : {}),
+      ...(body.difficulty !== undefined ? { difficulty: body.difficulty } : {}),
+    });
+    
+    // 以游戏ID作为初始存档写入数据库；数据库不可用时游戏仍可在内存中运行
+    const saveResult = await saveGameService.saveGame(gameId, body.name, gameId);
+    if (!saveResult.success) {
+      console.warn(`[GameAPI] Game ${gameId} created but not persisted: ${saveResult.error}`);
+    }
+    
+    const game = {
+      id: gameState.id,
+      name: gameState.name,
+      currentTick: gameState.currentTick,
+      speed: gameState.speed,
+      isPaused: gameState.isPaused,
+      seed: gameState.seed,
+      scenarioId: gameState.scenarioId ?? null,
+      difficulty: gameState.difficulty,
+      persisted: saveResult.success,
       playerCompany: {
-        id: `company-${Date.now()}`,
+        id: gameState.playerCompanyId,
         name: body.playerCompanyName,
         type: 'player',
-        cash: 500000000,
+        cash: gameState.playerCash,
         debt: 0,
         creditRating: 'A',
         stockPrice: 10000,
@@ -65,10 +130,13 @@ export async function gameRoutes(app: FastifyInstance) {
     
     const game = {
       id: gameState.id,
-      name: 'Test Game',
+      name: gameState.name,
       currentTick: gameState.currentTick,
       speed: gameState.speed,
       isPaused: gameState.isPaused,
+      seed: gameState.seed,
+      scenarioId: gameState.scenarioId ?? null,
+      difficulty: gameState.difficulty,
       playerCompanyId: gameState.playerCompanyId,
       playerCash: gameState.playerCash,
       buildingCount: gameState.buildings.length,
@@ -92,16 +160,19 @@ export async function gameRoutes(app: FastifyInstance) {
     }
     
     // 根据 isPaused 参数决定操作
+    let speed: GameSpeed;
     if (body.isPaused === false) {
       // 取消暂停，开始游戏
-      gameLoop.setSpeed(gameId, body.speed as import('@scc/shared').GameSpeed);
+      speed = body.speed;
     } else if (body.isPaused === true || body.speed === 0) {
       // 暂停游戏
-      gameLoop.setSpeed(gameId, 0 as import('@scc/shared').GameSpeed);
+      speed = GameSpeed.Paused;
     } else {
       // 仅改变速度
-      gameLoop.setSpeed(gameId, body.speed as import('@scc/shared').GameSpeed);
+      speed = body.speed;
     }
+    commandJournal.record(gameId, { type: 'setSpeed', speed });
+    gameLoop.setSpeed(gameId, speed);
     
     // 获取更新后的状态
     const updatedState = gameLoop.getGame(gameId);
@@ -115,6 +186,23 @@ export async function gameRoutes(app: FastifyInstance) {
     });
   });
 
+  // 注入资金（仅沙盒难度，测试用）
+  app.post('/api/v1/games/:gameId/cash', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+    const { amount } = injectCashSchema.parse(request.body);
+    
+    if (!gameLoop.getGame(gameId)) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    
+    commandJournal.record(gameId, { type: 'injectCash', amount });
+    const result = gameLoop.injectCash(gameId, amount);
+    if (!result.success) {
+      return reply.code(403).send({ success: false, error: result.error });
+    }
+    return reply.send({ success: true, data: { cash: result.cash } });
+  });
+
   // Get all buildings for a game
   app.get('/api/v1/games/:gameId/buildings', async (request: FastifyRequest, reply: FastifyReply) => {
     const { gameId } = request.params as { gameId: string };
@@ -165,6 +253,11 @@ export async function gameRoutes(app: FastifyInstance) {
     }
     
     // 调用 gameLoop 的购买建筑方法
+    commandJournal.record(gameId, {
+      type: 'purchaseBuilding',
+      buildingDefId: body.buildingType,
+      ...(body.position ? { position: body.position } : {}),
+    });
     const result = gameLoop.purchaseBuilding(gameId, body.buildingType);
     
     if (!result.success) {
@@ -268,40 +361,75 @@ export async function gameRoutes(app: FastifyInstance) {
 
   // Get contracts
   app.get('/api/v1/games/:gameId/contracts', async (request: FastifyRequest, reply: FastifyReply) => {
-    const { gameId: _gameId } = request.params as { gameId: string };
-    const { companyId: _companyId } = request.query as { companyId?: string };
+    const { gameId } = request.params as { gameId: string };
+    const { companyId, status } = contractQuerySchema.parse(request.query);
     
-    // TODO: Fetch from database
-    const contracts: Array<{ id: string; status: string }> = [];
+    if (!gameLoop.getGame(gameId)) {
+      return reply.code(404).send({ error: '游戏不存在' });
+    }
+    
+    const contracts = contractService.getContracts(companyId, status);
     
     return reply.send({ contracts });
   });
 
-  // Create contract proposal
+  // Create contract proposal（玩家发起，对方为AI时由AI决定是否接受）
   app.post('/api/v1/games/:gameId/contracts', async (request: FastifyRequest, reply: FastifyReply) => {
-    const { gameId: _gameId } = request.params as { gameId: string };
-    
-    const contractSchema = z.object({
-      sellerId: z.string(),
-      buyerId: z.string(),
-      goodsId: z.string(),
-      quantity: z.number().positive(),
-      pricePerUnit: z.number().positive(),
-      type: z.enum(['spot', 'long_term']),
-      durationTicks: z.number().optional(),
-    });
+    const { gameId } = request.params as { gameId: string };
+    const body = createContractSchema.parse(request.body);
     
-    const body = contractSchema.parse(request.body);
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ error: '游戏不存在' });
+    }
+    if (body.buyerId !== gameState.playerCompanyId && body.sellerId !== gameState.playerCompanyId) {
+      return reply.code(400).send({ error: '玩家必须是合同一方' });
+    }
     
-    // TODO: Create contract, possibly involving AI negotiation
-    const contract = {
-      id: `contract-${Date.now()}`,
-      ...body,
-      status: 'pending',
-      createdAt: new Date().toISOString(),
+    const { deliveryIntervalTicks, durationTicks } = body;
+    const totalDeliveries = body.totalDeliveries
+      ?? (durationTicks && deliveryIntervalTicks ? Math.max(1, Math.floor(durationTicks / deliveryIntervalTicks)) : undefined);
+    const proposal: Omit<ContractProposal, 'proposerId'> = {
+      type: body.type === 'long_term' ? ContractType.LongTerm : ContractType.SpotMarket,
+      buyerId: body.buyerId,
+      sellerId: body.sellerId,
+      goodsId: body.goodsId,
+      quantity: body.quantity,
+      pricePerUnit: body.pricePerUnit,
+      ...(deliveryIntervalTicks !== undefined ? { deliveryIntervalTicks } : {}),
+      ...(totalDeliveries !== undefined ? { totalDeliveries } : {}),
     };
     
-    return reply.code(201).send(contract);
+    commandJournal.record(gameId, { type: 'proposeContract', proposal });
+    const result = contractService.proposeContract(
+      { ...proposal, proposerId: gameState.playerCompanyId },
+      gameState.currentTick
+    );
+    
+    if (!result.success) {
+      return reply.code(400).send({ error: result.error });
+    }
+    
+    return reply.code(201).send({ contract: result.contract });
+  });
+
+  // 提前解除合同（解约方支付违约金）
+  app.delete('/api/v1/games/:gameId/contracts/:contractId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, contractId } = request.params as { gameId: string; contractId: string };
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ error: '游戏不存在' });
+    }
+    
+    commandJournal.record(gameId, { type: 'cancelContract', contractId });
+    const result = contractService.cancelContract(contractId, gameState.playerCompanyId, gameState.currentTick);
+    
+    if (!result.success) {
+      return reply.code(400).send({ error: result.error });
+    }
+    
+    return reply.send({ contract: result.contract });
   });
 
   // ========== 经济系统API ==========
@@ -388,6 +516,7 @@ export async function gameRoutes(app: FastifyInstance) {
       return reply.code(404).send({ error: '游戏不存在' });
     }
     
+    commandJournal.record(gameId, { type: 'submitBuyOrder', ...body });
     const result = economyManager.playerSubmitBuyOrder(
       gameState.playerCompanyId,
       body.goodsId,
@@ -419,6 +548,7 @@ export async function gameRoutes(app: FastifyInstance) {
       return reply.code(404).send({ error: '游戏不存在' });
     }
     
+    commandJournal.record(gameId, { type: 'submitSellOrder', ...body });
     const result = economyManager.playerSubmitSellOrder(
       gameState.playerCompanyId,
       body.goodsId,
@@ -442,6 +572,7 @@ export async function gameRoutes(app: FastifyInstance) {
       return reply.code(404).send({ error: '游戏不存在' });
     }
     
+    commandJournal.record(gameId, { type: 'cancelOrder', orderId });
     const result = economyManager.playerCancelOrder(gameState.playerCompanyId, orderId);
     
     if (!result.success) {
@@ -532,6 +663,7 @@ export async function gameRoutes(app: FastifyInstance) {
       return reply.code(404).send({ error: '游戏不存在' });
     }
     
+    commandJournal.record(gameId, { type: 'setAutoTrade', enabled: body.enabled });
     autoTradeManager.setEnabled(gameState.playerCompanyId, body.enabled);
     const status = autoTradeManager.getStatus(gameState.playerCompanyId);
     
@@ -547,24 +679,9 @@ export async function gameRoutes(app: FastifyInstance) {
       return reply.code(404).send({ error: '游戏不存在' });
     }
     
-    // 转换建筑类型以匹配 BuildingInstance 接口
-    const buildings = gameState.buildings.map(b => ({
-      id: b.id,
-      definitionId: b.definitionId,
-      ownerId: gameState.playerCompanyId,
-      activeMethodIds: { process: b.currentMethodId } as Record<string, string>,
-      inputInventory: [],
-      outputInventory: [],
-      status: b.status,
-      efficiency: b.efficiency,
-      productionProgress: b.productionProgress,
-    }));
-    
-    autoTradeManager.autoConfigureFromBuildings(
-      gameState.playerCompanyId,
-      buildings as unknown as import('@scc/shared').BuildingInstance[],
-      gameState as unknown as import('@scc/shared').GameState
-    );
+    // 按玩家建筑的当前生产方式配置（与回放共用同一实现）
+    commandJournal.record(gameId, { type: 'autoConfigureTrade' });
+    applyPlayerCommand(gameId, { type: 'autoConfigureTrade' });
     
     const status = autoTradeManager.getStatus(gameState.playerCompanyId);
     return reply.send({ success: true, status });
@@ -620,6 +737,7 @@ export async function gameRoutes(app: FastifyInstance) {
       }
     }
     
+    commandJournal.record(gameId, { type: 'updateAutoTradeGoods', goodsId, config: cleanConfig });
     autoTradeManager.updateGoodsConfig(gameState.playerCompanyId, goodsId, cleanConfig);
     const status = autoTradeManager.getStatus(gameState.playerCompanyId);
     
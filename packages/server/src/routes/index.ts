@@ -7,4 +7,12 @@ export { chatRoutes } from './chat.js';
 export { researchRoutes } from './research.js';
 export { settingsRoutes } from './settings.js';
 export { stockRoutes } from './stock.js';
-export { performanceRoutes } from './performance.js';
\ No newline at end of file
+export { performanceRoutes } from './performance.js';
+export { saveRoutes } from './saves.js';
+export { replayRoutes } from './replay.js';
+export { bankingRoutes } from './banking.js';
+export { takeoverRoutes } from './takeover.js';
+export { eventRoutes } from './events.js';
+export { scenarioRoutes } from './scenarios.js';
+export { laborRoutes } from './labor.js';
+export { powerRoutes } from './power.js';
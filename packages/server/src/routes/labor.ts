@@ -0,0 +1,43 @@
+/**
+ * Labor Market API Routes
+ * 劳动力市场：各阶层劳动力、工资和就业；玩家建筑的用工情况；进行中的挖角
+ */
+
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { gameLoop } from '../services/gameLoop.js';
+import { laborMarket } from '../services/laborMarket.js';
+
+export async function laborRoutes(app: FastifyInstance) {
+  /**
+   * GET /api/v1/games/:gameId/labor
+   * 获取劳动力市场状况和玩家建筑的用工情况
+   */
+  app.get('/api/v1/games/:gameId/labor', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    const buildingNames = new Map(game.buildings.map(building => [building.id, building.name]));
+    const staffing = laborMarket.getCompanyStaffing(game.playerCompanyId).map(entry => ({
+      ...entry,
+      buildingName: buildingNames.get(entry.buildingId) ?? entry.buildingId,
+      staffingRatio: laborMarket.getStaffingRatio(entry.buildingId),
+      dailyWages: laborMarket.getDailyWages(entry.buildingId),
+    }));
+
+    return reply.send({
+      success: true,
+      data: {
+        tiers: laborMarket.getTierStatuses(),
+        staffing,
+        campaigns: laborMarket.getActiveCampaigns().map(campaign => ({
+          ...campaign,
+          remainingTicks: Math.max(0, campaign.expiresAtTick - game.currentTick),
+        })),
+      },
+    });
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Power Grid API Routes
+ * 电网：负荷、发电能力和电力库存；各建筑的用电量和供电优先级
+ */
+
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { gameLoop } from '../services/gameLoop.js';
+import { commandJournal } from '../services/commandJournal.js';
+import { powerGrid, getPowerDraw, getGenerationCapacity } from '../services/powerGrid.js';
+
+const prioritySchema = z.object({
+  priority: z.enum(['high', 'normal', 'low']),
+});
+
+export async function powerRoutes(app: FastifyInstance) {
+  /**
+   * GET /api/v1/games/:gameId/power
+   * 获取电网状况和玩家建筑的用电情况
+   */
+  app.get('/api/v1/games/:gameId/power', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    const buildings = game.buildings
+      .map(building => ({
+        buildingId: building.id,
+        buildingName: building.name,
+        status: building.status,
+        priority: building.powerPriority ?? 'normal',
+        draw: getPowerDraw(building),
+        supplied: powerGrid.getSuppliedPower(game.playerCompanyId, building.id),
+        generation: getGenerationCapacity(building),
+      }))
+      .filter(entry => entry.draw > 0 || entry.generation > 0);
+
+    return reply.send({
+      success: true,
+      data: {
+        status: powerGrid.getStatus(game.playerCompanyId),
+        buildings,
+      },
+    });
+  });
+
+  /**
+   * PUT /api/v1/games/:gameId/buildings/:buildingId/power-priority
+   * 设置建筑的供电优先级（电力不足时低优先级先停电）
+   */
+  app.put('/api/v1/games/:gameId/buildings/:buildingId/power-priority', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, buildingId } = request.params as { gameId: string; buildingId: string };
+    const { priority } = prioritySchema.parse(request.body);
+
+    if (!gameLoop.getGame(gameId)) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    commandJournal.record(gameId, { type: 'setPowerPriority', buildingId, priority });
+    const result = gameLoop.setPowerPriority(gameId, buildingId, priority);
+
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.send({ success: true, data: { buildingId, priority } });
+  });
+}
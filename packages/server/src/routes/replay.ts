@@ -0,0 +1,51 @@
+/**
+ * Replay API Routes
+ * 玩家指令日志与回放文件导出
+ */
+
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { gameLoop } from '../services/gameLoop.js';
+import { commandJournal } from '../services/commandJournal.js';
+
+export async function replayRoutes(app: FastifyInstance) {
+  /**
+   * GET /api/v1/games/:gameId/journal
+   * 获取玩家指令日志
+   */
+  app.get('/api/v1/games/:gameId/journal', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    return reply.send({
+      success: true,
+      data: {
+        gameId,
+        seed: game.seed,
+        currentTick: game.currentTick,
+        entries: commandJournal.getEntries(gameId),
+      },
+    });
+  });
+
+  /**
+   * GET /api/v1/games/:gameId/replay
+   * 导出回放文件（使用 scripts/replay.ts 无界面重放）
+   */
+  app.get('/api/v1/games/:gameId/replay', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+
+    const result = commandJournal.exportReplay(gameId);
+    if (!result.replay) {
+      const code = result.error === '游戏不存在' ? 404 : 409;
+      return reply.code(code).send({ success: false, error: result.error });
+    }
+
+    return reply
+      .header('Content-Disposition', `attachment; filename="replay-${gameId}-${result.replay.totalTicks}.json"`)
+      .send(result.replay);
+  });
+}
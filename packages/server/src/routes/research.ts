@@ -4,9 +4,14 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { researchService } from '../services/researchService.js';
+import { researchService, type ResearchProject } from '../services/researchService.js';
 import { gameLoop } from '../services/gameLoop.js';
 import { technologyEffectManager } from '../services/technologyEffectManager.js';
+import { patentLicensing } from '../services/patentLicensing.js';
+import { patentLitigation } from '../services/patentLitigation.js';
+import { commandJournal } from '../services/commandJournal.js';
+import { inventoryManager } from '../services/inventoryManager.js';
+import { researchEvents } from '../services/researchEvents.js';
 
 // Request schemas
 const createConceptSchema = z.object({
@@ -25,6 +30,37 @@ const investFundsSchema = z.object({
   amount: z.number().positive(),
 });
 
+/**
+ * 玩家公司的研发项目（AI 公司的项目不能通过 API 查看或操作）
+ */
+function getPlayerProject(projectId: string, playerCompanyId: string): ResearchProject | undefined {
+  const project = researchService.getProject(projectId);
+  return project?.companyId === playerCompanyId ? project : undefined;
+}
+
+const licenseRequestSchema = z.object({
+  proposedFee: z.number().min(0).optional(),
+  proposedRoyalty: z.number().min(0).optional(),
+});
+
+const licenseResponseSchema = z.object({
+  decision: z.enum(['approve', 'reject', 'counter']),
+  upfrontFee: z.number().min(0).optional(),
+  royaltyPerUnit: z.number().min(0).optional(),
+});
+
+const researchEventResponseSchema = z.object({
+  accept: z.boolean(),
+});
+
+const setPrerequisitesSchema = z.object({
+  prerequisiteIds: z.array(z.string()).max(10),
+});
+
+const fileSuitSchema = z.object({
+  remedy: z.enum(['damages', 'injunction']),
+});
+
 export async function researchRoutes(app: FastifyInstance) {
   // ====================================
   // 研发项目管理
@@ -41,6 +77,12 @@ export async function researchRoutes(app: FastifyInstance) {
     // 获取游戏状态以确定玩家公司ID
     const gameState = gameLoop.getOrCreateGame(gameId, 'player-company-1');
     
+    commandJournal.record(gameId, {
+      type: 'createResearchConcept',
+      name: body.name,
+      description: body.description,
+      constraints: body.constraints ?? [],
+    });
     const project = researchService.createConcept({
       companyId: gameState.playerCompanyId,
       name: body.name,
@@ -70,20 +112,32 @@ export async function researchRoutes(app: FastifyInstance) {
     const body = evaluateConceptSchema.parse(request.body);
     
     const gameState = gameLoop.getOrCreateGame(gameId, 'player-company-1');
+    if (!getPlayerProject(projectId, gameState.playerCompanyId)) {
+      return reply.code(404).send({ success: false, error: '项目不存在' });
+    }
     
-    const result = await researchService.evaluateConcept(projectId, {
+    const companyContext = {
       existingTechnologies: body.existingTechnologies ?? [],
       cash: body.cash ?? gameState.playerCash,
       researchCapacity: body.researchCapacity ?? 1,
-    });
+    };
+    const result = await researchService.evaluateConcept(projectId, companyContext, gameState.currentTick);
     
-    if (!result.success) {
+    if (!result.success || !result.feasibility || !result.prerequisiteAssessment) {
       return reply.code(400).send({
         success: false,
         error: result.error,
       });
     }
     
+    // 评估结果在 LLM 返回时才写入项目，此时记录结果，重放时在同一 tick 直接写入
+    commandJournal.record(gameId, {
+      type: 'evaluateResearch',
+      projectId,
+      feasibility: result.feasibility,
+      prerequisiteAssessment: result.prerequisiteAssessment,
+    });
+    
     app.log.info({ gameId, projectId, feasibility: result.feasibility?.score }, 'Research concept evaluated');
     
     return reply.send({
@@ -100,7 +154,11 @@ export async function researchRoutes(app: FastifyInstance) {
     const { gameId, projectId } = request.params as { gameId: string; projectId: string };
     
     const gameState = gameLoop.getOrCreateGame(gameId, 'player-company-1');
+    if (!getPlayerProject(projectId, gameState.playerCompanyId)) {
+      return reply.code(404).send({ success: false, error: '项目不存在' });
+    }
     
+    commandJournal.record(gameId, { type: 'startResearch', projectId });
     const success = researchService.startResearch(projectId, gameState.currentTick);
     
     if (!success) {
@@ -129,8 +187,7 @@ export async function researchRoutes(app: FastifyInstance) {
     const gameState = gameLoop.getOrCreateGame(gameId, 'player-company-1');
     
     // 获取项目状态，检查投资是否超过目标
-    const state = researchService.getState();
-    const project = state.projects.get(projectId);
+    const project = getPlayerProject(projectId, gameState.playerCompanyId);
     
     if (!project) {
       return reply.code(400).send({
@@ -159,6 +216,8 @@ export async function researchRoutes(app: FastifyInstance) {
       });
     }
     
+    commandJournal.record(gameId, { type: 'investResearch', projectId, amount: actualAmount });
+    
     // 先扣除玩家资金
     const deducted = gameLoop.deductPlayerCash(gameId, actualAmount);
     if (!deducted) {
@@ -198,6 +257,12 @@ export async function researchRoutes(app: FastifyInstance) {
   app.post('/api/v1/games/:gameId/research/projects/:projectId/cancel', async (request: FastifyRequest, reply: FastifyReply) => {
     const { gameId, projectId } = request.params as { gameId: string; projectId: string };
     
+    const gameState = gameLoop.getOrCreateGame(gameId, 'player-company-1');
+    if (!getPlayerProject(projectId, gameState.playerCompanyId)) {
+      return reply.code(404).send({ success: false, error: '项目不存在' });
+    }
+    
+    commandJournal.record(gameId, { type: 'cancelResearch', projectId });
     const success = researchService.cancelProject(projectId);
     
     if (!success) {
@@ -226,29 +291,34 @@ export async function researchRoutes(app: FastifyInstance) {
     const projects = researchService.getProjectsByCompany(gameState.playerCompanyId);
     
     return reply.send({
-      projects: projects.map(p => ({
-        id: p.id,
-        concept: {
-          name: p.concept.name,
-          description: p.concept.description,
-          originalPrompt: p.concept.originalPrompt,
-        },
-        status: String(p.status).toLowerCase(), // Ensure lowercase status
-        progress: p.progress,
-        investedFunds: p.investedFunds,
-        targetCost: p.targetCost,
-        startedAt: p.startedAt,
-        completedAt: p.completedAt,
-        feasibility: p.feasibility ? {
-          score: p.feasibility.score,
-          riskLevel: p.feasibility.riskLevel,
-          estimatedCost: p.feasibility.estimatedCost,
-          scientistComment: p.feasibility.scientistComment,
-          prerequisites: p.feasibility.prerequisites,
-          risks: p.feasibility.risks,
-          keywordAnalysis: p.feasibility.keywordAnalysis,
-        } : null,
-      })),
+      projects: projects.map(p => {
+        const assessment = researchService.reassessPrerequisites(p, gameState.currentTick);
+        return {
+          id: p.id,
+          concept: {
+            name: p.concept.name,
+            description: p.concept.description,
+            originalPrompt: p.concept.originalPrompt,
+          },
+          status: p.status.toLowerCase(), // Ensure lowercase status
+          progress: p.progress,
+          investedFunds: p.investedFunds,
+          targetCost: p.targetCost,
+          startedAt: p.startedAt,
+          completedAt: p.completedAt,
+          feasibility: p.feasibility ? {
+            score: p.feasibility.score,
+            riskLevel: p.feasibility.riskLevel,
+            estimatedCost: p.feasibility.estimatedCost,
+            scientistComment: p.feasibility.scientistComment,
+            prerequisites: p.feasibility.prerequisites,
+            risks: p.feasibility.risks,
+            keywordAnalysis: p.feasibility.keywordAnalysis,
+          } : null,
+          prerequisiteStatus: assessment?.prerequisites ?? [],
+          successChance: researchService.getSuccessChance(p, gameState.currentTick),
+        };
+      }),
       count: projects.length,
     });
   });
@@ -258,10 +328,10 @@ export async function researchRoutes(app: FastifyInstance) {
    * GET /api/v1/games/:gameId/research/projects/:projectId
    */
   app.get('/api/v1/games/:gameId/research/projects/:projectId', async (request: FastifyRequest, reply: FastifyReply) => {
-    const { gameId: _gameId, projectId } = request.params as { gameId: string; projectId: string };
+    const { gameId, projectId } = request.params as { gameId: string; projectId: string };
     
-    const state = researchService.getState();
-    const project = state.projects.get(projectId);
+    const gameState = gameLoop.getOrCreateGame(gameId, 'player-company-1');
+    const project = getPlayerProject(projectId, gameState.playerCompanyId);
     
     if (!project) {
       return reply.code(404).send({
@@ -287,6 +357,49 @@ export async function researchRoutes(app: FastifyInstance) {
     });
   });
 
+  /**
+   * 获取玩家研发项目的事件（待决定追加资金的在前）
+   * GET /api/v1/games/:gameId/research/events
+   */
+  app.get('/api/v1/games/:gameId/research/events', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    
+    return reply.send({
+      success: true,
+      events: researchEvents.getEvents(gameState.playerCompanyId),
+    });
+  });
+
+  /**
+   * 答复研发事件：是否追加资金
+   * POST /api/v1/games/:gameId/research/events/:eventId/respond
+   */
+  app.post('/api/v1/games/:gameId/research/events/:eventId/respond', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, eventId } = request.params as { gameId: string; eventId: string };
+    const body = researchEventResponseSchema.parse(request.body);
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    
+    commandJournal.record(gameId, { type: 'respondResearchEvent', eventId, accept: body.accept });
+    const result = researchEvents.respond(gameState.playerCompanyId, eventId, body.accept, gameState.currentTick);
+    gameState.playerCash = inventoryManager.getCash(gameState.playerCompanyId);
+    
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    
+    app.log.info({ gameId, eventId, accept: body.accept }, 'Research event answered');
+    return reply.send({ success: true, event: result.update?.event, message: result.update?.message });
+  });
+
   // ====================================
   // 技术管理
   // ====================================
@@ -305,6 +418,7 @@ export async function researchRoutes(app: FastifyInstance) {
       technologies: technologies.map(t => {
         // Only show revealed side effects
         const revealedSideEffects = t.sideEffects?.filter(se => se.revealed) ?? [];
+        const patent = researchService.getPatentForTechnology(t.id);
         
         return {
           id: t.id,
@@ -317,7 +431,12 @@ export async function researchRoutes(app: FastifyInstance) {
           isOwned: t.patentHolderId === gameState.playerCompanyId,
           canUse: researchService.canUseTechnology(t.id, gameState.playerCompanyId, gameState.currentTick),
           sideEffectCount: t.sideEffects?.length ?? 0,
+          prerequisites: t.prerequisites,
           patentHolderId: t.patentHolderId,
+          patentId: patent?.id,
+          patentStatus: patent?.status,
+          isExclusive: patent?.isExclusive ?? false,
+          licenseTerms: patent ? patentLicensing.getDefaultTerms(patent) : undefined,
           unlockedMethods: t.unlockedMethods ?? [],
           globalModifiers: t.globalModifiers ?? [],
           sideEffects: revealedSideEffects.map(se => ({
@@ -367,6 +486,7 @@ export async function researchRoutes(app: FastifyInstance) {
         tier: technology.tier,
         isOwned: technology.patentHolderId === gameState.playerCompanyId,
         canUse: researchService.canUseTechnology(techId, gameState.playerCompanyId, gameState.currentTick),
+        prerequisites: technology.prerequisites,
         unlockedMethods: technology.unlockedMethods,
         globalModifiers: technology.globalModifiers,
         sideEffects: revealedSideEffects.map(se => ({
@@ -383,6 +503,47 @@ export async function researchRoutes(app: FastifyInstance) {
     });
   });
 
+  /**
+   * 设置技术的前置技术（科技树调整）
+   * PUT /api/v1/games/:gameId/research/technologies/:techId/prerequisites
+   */
+  app.put('/api/v1/games/:gameId/research/technologies/:techId/prerequisites', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, techId } = request.params as { gameId: string; techId: string };
+    const body = setPrerequisitesSchema.parse(request.body);
+    
+    if (!gameLoop.getGame(gameId)) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    
+    commandJournal.record(gameId, { type: 'setTechPrerequisites', technologyId: techId, prerequisiteIds: body.prerequisiteIds });
+    const result = researchService.setPrerequisites(techId, body.prerequisiteIds);
+    
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    
+    app.log.info({ gameId, techId, prerequisiteIds: body.prerequisiteIds }, 'Technology prerequisites updated');
+    return reply.send({ success: true, prerequisites: researchService.getTechnology(techId)?.prerequisites ?? [] });
+  });
+
+  /**
+   * 获取玩家公司视角的科技星图（节点按类别和层级布局，连线为前置关系）
+   * GET /api/v1/games/:gameId/research/graph
+   */
+  app.get('/api/v1/games/:gameId/research/graph', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    
+    return reply.send({
+      success: true,
+      ...researchService.getTechGraph(gameState.playerCompanyId, gameState.currentTick),
+    });
+  });
+
   // ====================================
   // 专利管理
   // ====================================
@@ -406,70 +567,270 @@ export async function researchRoutes(app: FastifyInstance) {
       grantedAt: p.grantedAt,
       expiresAt: p.expiresAt,
       licenseFee: p.licenseFee,
+      isExclusive: p.isExclusive,
       licenseeCount: p.licensees.length,
+      licenseTerms: patentLicensing.getDefaultTerms(p),
+      challengeCost: patentLitigation.getChallengeCost(p),
+      challengerCount: p.challengedBy?.length ?? 0,
     }));
     
     return reply.send({ patents });
   });
 
   /**
-   * 请求专利授权
+   * 申请专利授权（AI 持有的专利立即得到答复，玩家持有的专利由玩家答复）
    * POST /api/v1/games/:gameId/research/patents/:patentId/license
    */
   app.post('/api/v1/games/:gameId/research/patents/:patentId/license', async (request: FastifyRequest, reply: FastifyReply) => {
     const { gameId, patentId } = request.params as { gameId: string; patentId: string };
+    const { proposedFee, proposedRoyalty } = licenseRequestSchema.parse(request.body ?? {});
     
-    const gameState = gameLoop.getOrCreateGame(gameId, 'player-company-1');
-    const state = researchService.getState();
-    const patent = state.patents.get(patentId);
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
     
-    if (!patent) {
-      return reply.code(404).send({
-        success: false,
-        error: '专利不存在',
-      });
+    commandJournal.record(gameId, {
+      type: 'requestLicense',
+      patentId,
+      ...(proposedFee !== undefined ? { upfrontFee: proposedFee } : {}),
+      ...(proposedRoyalty !== undefined ? { royaltyPerUnit: proposedRoyalty } : {}),
+    });
+    const result = patentLicensing.requestLicense(gameState.playerCompanyId, patentId, gameState.currentTick, {
+      upfrontFee: proposedFee,
+      royaltyPerUnit: proposedRoyalty,
+    });
+    gameState.playerCash = inventoryManager.getCash(gameState.playerCompanyId);
+    
+    if (!result.success || !result.request) {
+      return reply.code(400).send({ success: false, error: result.error });
     }
     
-    // 检查是否已经拥有授权
-    if (patent.holderId === gameState.playerCompanyId || 
-        patent.licensees.includes(gameState.playerCompanyId)) {
-      return reply.code(400).send({
-        success: false,
-        error: '您已拥有此专利或授权',
-      });
+    app.log.info({ gameId, patentId, status: result.request.status }, 'Patent license requested');
+    
+    return reply.send({
+      success: true,
+      requestId: result.request.id,
+      patentId,
+      status: result.request.status,
+      message: result.events?.[result.events.length - 1]?.message ?? '',
+      request: result.request,
+    });
+  });
+
+  /**
+   * 获取玩家相关的授权申请（收到的 / 发出的）和生效的授权
+   * GET /api/v1/games/:gameId/research/licenses
+   */
+  app.get('/api/v1/games/:gameId/research/licenses', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
     }
     
-    // 检查资金
-    if (gameState.playerCash < patent.licenseFee) {
-      return reply.code(400).send({
-        success: false,
-        error: '资金不足以支付授权费',
-      });
+    const playerId = gameState.playerCompanyId;
+    const requests = patentLicensing.getRequests(playerId);
+    
+    return reply.send({
+      success: true,
+      incoming: requests.filter(r => r.holderId === playerId),
+      outgoing: requests.filter(r => r.requesterId === playerId),
+      licenses: patentLicensing.getLicenses(playerId),
+    });
+  });
+
+  /**
+   * 答复收到的授权申请（批准 / 拒绝 / 还价）
+   * POST /api/v1/games/:gameId/research/licenses/:requestId/respond
+   */
+  app.post('/api/v1/games/:gameId/research/licenses/:requestId/respond', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, requestId } = request.params as { gameId: string; requestId: string };
+    const { decision, upfrontFee, royaltyPerUnit } = licenseResponseSchema.parse(request.body);
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
     }
     
-    // 扣除授权费
-    // Note: 资金扣除将在后续版本中通过gameLoop实现
-    // gameLoop.deductPlayerCash(gameId, patent.licenseFee);
+    commandJournal.record(gameId, {
+      type: 'respondLicense',
+      requestId,
+      decision,
+      ...(upfrontFee !== undefined ? { upfrontFee } : {}),
+      ...(royaltyPerUnit !== undefined ? { royaltyPerUnit } : {}),
+    });
+    const result = patentLicensing.respond(gameState.playerCompanyId, requestId, decision, gameState.currentTick, {
+      upfrontFee,
+      royaltyPerUnit,
+    });
+    gameState.playerCash = inventoryManager.getCash(gameState.playerCompanyId);
     
-    // 授予授权
-    const success = researchService.grantLicense(patentId, gameState.playerCompanyId);
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.send({ success: true, request: result.request, events: result.events });
+  });
+
+  /**
+   * 接受持有人的还价
+   * POST /api/v1/games/:gameId/research/licenses/:requestId/accept
+   */
+  app.post('/api/v1/games/:gameId/research/licenses/:requestId/accept', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, requestId } = request.params as { gameId: string; requestId: string };
     
-    if (!success) {
-      return reply.code(400).send({
-        success: false,
-        error: '无法获取授权',
-      });
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    
+    commandJournal.record(gameId, { type: 'acceptLicenseCounter', requestId });
+    const result = patentLicensing.acceptCounter(gameState.playerCompanyId, requestId, gameState.currentTick);
+    gameState.playerCash = inventoryManager.getCash(gameState.playerCompanyId);
+    
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.send({ success: true, request: result.request, events: result.events });
+  });
+
+  /**
+   * 撤回发出的授权申请
+   * POST /api/v1/games/:gameId/research/licenses/:requestId/withdraw
+   */
+  app.post('/api/v1/games/:gameId/research/licenses/:requestId/withdraw', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, requestId } = request.params as { gameId: string; requestId: string };
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
     }
     
-    app.log.info({ gameId, patentId, fee: patent.licenseFee }, 'Patent license granted');
+    commandJournal.record(gameId, { type: 'withdrawLicense', requestId });
+    const result = patentLicensing.withdraw(gameState.playerCompanyId, requestId, gameState.currentTick);
     
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.send({ success: true, request: result.request });
+  });
+
+  // ====================================
+  // 专利诉讼
+  // ====================================
+
+  /**
+   * 发起专利无效挑战（支付诉讼费，审理结束时按在先技术判定）
+   * POST /api/v1/games/:gameId/research/patents/:patentId/challenge
+   */
+  app.post('/api/v1/games/:gameId/research/patents/:patentId/challenge', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, patentId } = request.params as { gameId: string; patentId: string };
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    
+    commandJournal.record(gameId, { type: 'challengePatent', patentId });
+    const result = patentLitigation.challengePatent(gameState.playerCompanyId, patentId, gameState.currentTick);
+    gameState.playerCash = inventoryManager.getCash(gameState.playerCompanyId);
+    
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    
+    app.log.info({ gameId, patentId, cost: result.challenge?.cost }, 'Patent challenge filed');
+    return reply.send({ success: true, challenge: result.challenge });
+  });
+
+  /**
+   * 获取玩家相关的专利挑战、侵权案件和针对玩家的禁令
+   * GET /api/v1/games/:gameId/research/litigation
+   */
+  app.get('/api/v1/games/:gameId/research/litigation', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    
+    const playerId = gameState.playerCompanyId;
     return reply.send({
       success: true,
-      message: '专利授权成功',
-      licenseFee: patent.licenseFee,
+      challenges: patentLitigation.getChallenges(playerId),
+      cases: patentLitigation.getCases(playerId),
+      injunctions: patentLitigation.getInjunctions(playerId),
+      waivers: patentLitigation.getWaivers(playerId),
     });
   });
 
+  /**
+   * 对已发现的侵权提起诉讼（赔偿 / 赔偿并申请禁令）
+   * POST /api/v1/games/:gameId/research/litigation/:caseId/file
+   */
+  app.post('/api/v1/games/:gameId/research/litigation/:caseId/file', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, caseId } = request.params as { gameId: string; caseId: string };
+    const { remedy } = fileSuitSchema.parse(request.body);
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    
+    commandJournal.record(gameId, { type: 'fileInfringementSuit', caseId, remedy });
+    const result = patentLitigation.fileSuit(gameState.playerCompanyId, caseId, remedy, gameState.currentTick);
+    gameState.playerCash = inventoryManager.getCash(gameState.playerCompanyId);
+    
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.send({ success: true, case: result.infringementCase, events: result.events });
+  });
+
+  /**
+   * 放弃追究已发现的侵权
+   * POST /api/v1/games/:gameId/research/litigation/:caseId/drop
+   */
+  app.post('/api/v1/games/:gameId/research/litigation/:caseId/drop', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, caseId } = request.params as { gameId: string; caseId: string };
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    
+    commandJournal.record(gameId, { type: 'dropInfringementCase', caseId });
+    const result = patentLitigation.dropCase(gameState.playerCompanyId, caseId, gameState.currentTick);
+    
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.send({ success: true, case: result.infringementCase });
+  });
+
+  /**
+   * 撤回放弃或赔偿判决后的默许，重新追究该公司使用专利
+   * POST /api/v1/games/:gameId/research/litigation/:caseId/reopen
+   */
+  app.post('/api/v1/games/:gameId/research/litigation/:caseId/reopen', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, caseId } = request.params as { gameId: string; caseId: string };
+    
+    const gameState = gameLoop.getGame(gameId);
+    if (!gameState) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    
+    commandJournal.record(gameId, { type: 'reopenInfringementCase', caseId });
+    const result = patentLitigation.reopenCase(gameState.playerCompanyId, caseId, gameState.currentTick);
+    
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.send({ success: true, case: result.infringementCase });
+  });
+
   // ====================================
   // 技术效果管理
   // ====================================
@@ -481,11 +842,11 @@ export async function researchRoutes(app: FastifyInstance) {
   app.get('/api/v1/games/:gameId/research/effects/summary', async (request: FastifyRequest, reply: FastifyReply) => {
     const { gameId } = request.params as { gameId: string };
     
-    // 确保游戏存在
-    gameLoop.getOrCreateGame(gameId, 'player-company-1');
+    const gameState = gameLoop.getOrCreateGame(gameId, 'player-company-1');
     
-    const summary = technologyEffectManager.getEffectsSummary();
-    const activeTechnologies = technologyEffectManager.getActiveTechnologies();
+    // 只统计玩家公司的技术（AI 公司的技术只对其自身建筑生效）
+    const summary = technologyEffectManager.getEffectsSummary(gameState.playerCompanyId);
+    const activeTechnologies = technologyEffectManager.getTechnologiesByCompany(gameState.playerCompanyId);
     
     return reply.send({
       success: true,
@@ -512,10 +873,9 @@ export async function researchRoutes(app: FastifyInstance) {
   app.get('/api/v1/games/:gameId/research/effects/building/:buildingId', async (request: FastifyRequest, reply: FastifyReply) => {
     const { gameId, buildingId } = request.params as { gameId: string; buildingId: string };
     
-    // 确保游戏存在
-    gameLoop.getOrCreateGame(gameId, 'player-company-1');
+    const gameState = gameLoop.getOrCreateGame(gameId, 'player-company-1');
     
-    const modifiers = technologyEffectManager.getBuildingModifiers(buildingId);
+    const modifiers = technologyEffectManager.getBuildingModifiers(gameState.playerCompanyId, buildingId);
     const unlockedMethods = technologyEffectManager.getAvailableMethods(buildingId);
     
     return reply.send({
@@ -533,6 +893,7 @@ export async function researchRoutes(app: FastifyInstance) {
         nameZh: m.nameZh,
         description: m.description,
         isFromTech: technologyEffectManager.isMethodUnlockedByTech(buildingId, m.id),
+        isBlocked: technologyEffectManager.isMethodBlocked(m.id),
       })),
     });
   });
@@ -0,0 +1,114 @@
+/**
+ * Save Game API Routes
+ * 存档相关API路由：列出、保存、读取、删除
+ */
+
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { saveGameService } from '../services/saveGameService.js';
+
+// Request schemas
+const saveGameSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  /** 覆盖已有存档 */
+  saveId: z.string().optional(),
+});
+
+const loadGameSchema = z.object({
+  /** 读档后使用的游戏ID，默认沿用存档时的ID */
+  gameId: z.string().min(1).optional(),
+});
+
+export async function saveRoutes(app: FastifyInstance) {
+  /**
+   * GET /api/v1/saves
+   * 列出所有存档
+   */
+  app.get('/api/v1/saves', async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const saves = await saveGameService.listSaves();
+      return await reply.send({ success: true, data: saves });
+    } catch (error) {
+      console.error('[SaveAPI] Error listing saves:', error);
+      return reply.code(500).send({ success: false, error: '获取存档列表失败' });
+    }
+  });
+
+  /**
+   * GET /api/v1/saves/:saveId
+   * 获取存档元数据
+   */
+  app.get('/api/v1/saves/:saveId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { saveId } = request.params as { saveId: string };
+
+    try {
+      const meta = await saveGameService.getSaveMeta(saveId);
+      if (!meta) {
+        return await reply.code(404).send({ success: false, error: '存档不存在' });
+      }
+      return await reply.send({ success: true, data: meta });
+    } catch (error) {
+      console.error('[SaveAPI] Error getting save:', error);
+      return reply.code(500).send({ success: false, error: '获取存档失败' });
+    }
+  });
+
+  /**
+   * POST /api/v1/games/:gameId/saves
+   * 保存运行中的游戏
+   */
+  app.post('/api/v1/games/:gameId/saves', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+    const body = saveGameSchema.parse(request.body ?? {});
+
+    const result = await saveGameService.saveGame(gameId, body.name, body.saveId);
+    if (!result.success) {
+      const code = result.error === '游戏不存在' ? 404 : 500;
+      return reply.code(code).send({ success: false, error: result.error });
+    }
+
+    return reply.code(201).send({ success: true, data: result.meta });
+  });
+
+  /**
+   * POST /api/v1/saves/:saveId/load
+   * 读取存档，恢复为运行中的游戏（暂停状态）
+   */
+  app.post('/api/v1/saves/:saveId/load', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { saveId } = request.params as { saveId: string };
+    const body = loadGameSchema.parse(request.body ?? {});
+
+    const result = await saveGameService.loadGame(saveId, body.gameId);
+    if (!result.success) {
+      const code = result.error === '存档不存在' ? 404 : 400;
+      return reply.code(code).send({ success: false, error: result.error });
+    }
+
+    return reply.send({
+      success: true,
+      data: {
+        gameId: result.gameId,
+        currentTick: result.currentTick,
+      },
+    });
+  });
+
+  /**
+   * DELETE /api/v1/saves/:saveId
+   * 删除存档
+   */
+  app.delete('/api/v1/saves/:saveId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { saveId } = request.params as { saveId: string };
+
+    try {
+      const deleted = await saveGameService.deleteSave(saveId);
+      if (!deleted) {
+        return await reply.code(404).send({ success: false, error: '存档不存在' });
+      }
+      return await reply.send({ success: true });
+    } catch (error) {
+      console.error('[SaveAPI] Error deleting save:', error);
+      return reply.code(500).send({ success: false, error: '删除存档失败' });
+    }
+  });
+}
@@ -0,0 +1,58 @@
+/**
+ * Scenario API Routes
+ * 剧本列表与本局剧本进度；创建游戏时通过 POST /api/v1/games 的 scenarioId 选择剧本
+ */
+
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { gameLoop } from '../services/gameLoop.js';
+import { scenarioRegistry, scenarioService, describeCondition } from '../services/scenarios.js';
+
+export async function scenarioRoutes(app: FastifyInstance) {
+  /**
+   * GET /api/v1/scenarios
+   * 获取可选剧本列表
+   */
+  app.get('/api/v1/scenarios', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.send({ success: true, data: scenarioRegistry.list() });
+  });
+
+  /**
+   * GET /api/v1/scenarios/:scenarioId
+   * 获取剧本详情（含事件日程和胜负条件）
+   */
+  app.get('/api/v1/scenarios/:scenarioId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { scenarioId } = request.params as { scenarioId: string };
+
+    const scenario = scenarioRegistry.get(scenarioId);
+    if (!scenario) {
+      return reply.code(404).send({ success: false, error: '剧本不存在' });
+    }
+
+    return reply.send({
+      success: true,
+      data: {
+        ...scenario,
+        objectives: scenario.victory.map(describeCondition),
+        defeatConditions: scenario.defeat.map(describeCondition),
+      },
+    });
+  });
+
+  /**
+   * GET /api/v1/games/:gameId/scenario
+   * 获取本局剧本进度，自由模式返回 null
+   */
+  app.get('/api/v1/games/:gameId/scenario', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    return reply.send({
+      success: true,
+      data: scenarioService.getStatus(game),
+    });
+  });
+}
@@ -1,15 +1,46 @@
 /**
- * Settings routes - LLM API configuration
+ * Settings routes - LLM API configuration, budgets, usage and prompt templates
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { llmService, type LLMConfig } from '../services/llm.js';
+import { llmService, type LLMConfigUpdate } from '../services/llm.js';
+import { gameLoop } from '../services/gameLoop.js';
+import { promptSelection, promptTemplateRegistry, PROMPT_TEMPLATE_IDS, type PromptTemplateId } from '../services/promptTemplates.js';
+
+const featureBudgetSchema = z.object({
+  /** 单局 token 上限，0 表示不限 */
+  maxTokens: z.number().int().min(0),
+  /** 每分钟调用次数上限，0 表示不限 */
+  maxCallsPerMinute: z.number().int().min(0),
+}).partial();
+
+const budgetSchema = z.object({
+  maxTokensPerGame: z.number().int().min(0),
+  features: z.object({
+    research: featureBudgetSchema,
+    ai_strategy: featureBudgetSchema,
+    market_events: featureBudgetSchema,
+    chat: featureBudgetSchema,
+  }).partial(),
+  /** 每千 token 单价（美元） */
+  pricing: z.object({
+    promptPer1K: z.number().min(0),
+    completionPer1K: z.number().min(0),
+  }).partial(),
+}).partial();
+
+const promptVersionSchema = z.object({
+  version: z.string().min(1),
+});
 
 const llmConfigSchema = z.object({
+  /** 后端：openai（含兼容中转站）、ollama（本地服务）、replay（离线回放录制响应） */
+  provider: z.enum(['openai', 'ollama', 'replay']).optional(),
   apiKey: z.string().optional(),
   baseUrl: z.string().url().optional(),
   model: z.string().optional(),
+  budget: budgetSchema.optional(),
 });
 
 export async function settingsRoutes(app: FastifyInstance) {
@@ -20,9 +51,11 @@ export async function settingsRoutes(app: FastifyInstance) {
     const config = llmService.getConfig();
     // 返回配置，但隐藏完整的API Key
     return reply.send({
+      provider: config.provider,
       apiKey: config.apiKeyMasked, // 只返回掩码后的key
       baseUrl: config.baseUrl,
       model: config.model,
+      budget: config.budget,
     });
   });
 
@@ -34,16 +67,18 @@ export async function settingsRoutes(app: FastifyInstance) {
       const body = llmConfigSchema.parse(request.body);
       
       // 更新配置
-      llmService.updateConfig(body as Partial<LLMConfig>);
+      llmService.updateConfig(body as LLMConfigUpdate);
       
       // 返回更新后的配置
       const newConfig = llmService.getConfig();
       return reply.send({
         success: true,
         config: {
+          provider: newConfig.provider,
           apiKey: newConfig.apiKeyMasked,
           baseUrl: newConfig.baseUrl,
           model: newConfig.model,
+          budget: newConfig.budget,
         },
       });
     } catch (error) {
@@ -77,7 +112,7 @@ export async function settingsRoutes(app: FastifyInstance) {
   app.post('/api/v1/settings/llm/test-temp', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const body = llmConfigSchema.parse(request.body);
-      const result = await llmService.testConnectionWithConfig(body as Partial<LLMConfig>);
+      const result = await llmService.testConnectionWithConfig(body as LLMConfigUpdate);
       return reply.send(result);
     } catch (error) {
       console.error('[Settings] LLM temp test error:', error);
@@ -97,7 +132,7 @@ export async function settingsRoutes(app: FastifyInstance) {
   app.post('/api/v1/settings/llm/models-temp', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const body = llmConfigSchema.parse(request.body);
-      const result = await llmService.getAvailableModelsWithConfig(body as Partial<LLMConfig>);
+      const result = await llmService.getAvailableModelsWithConfig(body as LLMConfigUpdate);
       return reply.send(result);
     } catch (error) {
       console.error('[Settings] Get temp models error:', error);
@@ -128,4 +163,65 @@ export async function settingsRoutes(app: FastifyInstance) {
       });
     }
   });
-}
\ No newline at end of file
+
+  /**
+   * GET /api/v1/games/:gameId/llm/usage - 获取本局LLM用量报告（按功能统计调用、token、费用和剩余预算）
+   */
+  app.get('/api/v1/games/:gameId/llm/usage', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+
+    if (!gameLoop.getGame(gameId)) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    return reply.send({
+      success: true,
+      data: {
+        gameId,
+        enabled: llmService.isEnabled(),
+        ...llmService.getUsageReport(),
+      },
+    });
+  });
+
+  /**
+   * GET /api/v1/settings/llm/prompts - 获取提示词模板及其全部版本
+   */
+  app.get('/api/v1/settings/llm/prompts', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.send({ success: true, data: promptTemplateRegistry.list() });
+  });
+
+  /**
+   * GET /api/v1/games/:gameId/llm/prompts - 获取本局使用的提示词模板版本
+   */
+  app.get('/api/v1/games/:gameId/llm/prompts', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+
+    if (!gameLoop.getGame(gameId)) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    return reply.send({ success: true, data: promptSelection.getSelections() });
+  });
+
+  /**
+   * PUT /api/v1/games/:gameId/llm/prompts/:templateId - 切换本局某个提示词模板的版本
+   */
+  app.put('/api/v1/games/:gameId/llm/prompts/:templateId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, templateId } = request.params as { gameId: string; templateId: string };
+    const { version } = promptVersionSchema.parse(request.body);
+
+    if (!gameLoop.getGame(gameId)) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+    if (!PROMPT_TEMPLATE_IDS.includes(templateId as PromptTemplateId)) {
+      return reply.code(404).send({ success: false, error: '提示词模板不存在' });
+    }
+
+    const result = promptSelection.select(templateId as PromptTemplateId, version);
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.send({ success: true, data: promptSelection.getSelections() });
+  });
+}
@@ -5,8 +5,20 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { stockMarketService } from '../services/stockMarket.js';
+import { gameLoop } from '../services/gameLoop.js';
+import { commandJournal } from '../services/commandJournal.js';
 import { StockOrderType, StockOrderSide } from '@scc/shared';
 
+/** 请求体中的订单类型是否有效 */
+function isStockOrderType(value: string): value is StockOrderType {
+  return Object.values<string>(StockOrderType).includes(value);
+}
+
+/** 请求体中的买卖方向是否有效 */
+function isStockOrderSide(value: string): value is StockOrderSide {
+  return Object.values<string>(StockOrderSide).includes(value);
+}
+
 export async function stockRoutes(app: FastifyInstance) {
   /**
    * GET /api/v1/stocks
@@ -235,6 +247,7 @@ export async function stockRoutes(app: FastifyInstance) {
    * 提交股票订单
    */
   app.post('/api/v1/stocks/order', async (request: FastifyRequest<{
+    Querystring: { gameId: string };
     Body: {
       companyId: string;
       stockId: string;
@@ -255,14 +268,14 @@ export async function stockRoutes(app: FastifyInstance) {
         });
       }
       
-      if (!Object.values(StockOrderType).includes(orderType as StockOrderType)) {
+      if (!isStockOrderType(orderType)) {
         return reply.code(400).send({
           success: false,
           error: 'Invalid order type',
         });
       }
       
-      if (!Object.values(StockOrderSide).includes(side as StockOrderSide)) {
+      if (!isStockOrderSide(side)) {
         return reply.code(400).send({
           success: false,
           error: 'Invalid order side',
@@ -276,12 +289,30 @@ export async function stockRoutes(app: FastifyInstance) {
         });
       }
       
+      const { gameId } = request.query;
+      const game = gameLoop.getGame(gameId);
+      if (!game) {
+        return await reply.code(404).send({ success: false, error: '游戏不存在' });
+      }
+      if (companyId !== game.playerCompanyId) {
+        return await reply.code(403).send({ success: false, error: '只能为玩家公司下单' });
+      }
+      
+      commandJournal.record(gameId, {
+        type: 'submitStockOrder',
+        stockId,
+        orderType,
+        side,
+        quantity,
+        ...(limitPrice !== undefined ? { limitPrice } : {}),
+      });
+      
       // 提交订单
       const result = stockMarketService.submitOrder({
         companyId,
         stockId,
-        orderType: orderType as StockOrderType,
-        side: side as StockOrderSide,
+        orderType,
+        side,
         quantity,
         limitPrice,
       });
@@ -346,10 +377,22 @@ export async function stockRoutes(app: FastifyInstance) {
    */
   app.delete('/api/v1/stocks/order/:stockId/:orderId', async (request: FastifyRequest<{
     Params: { stockId: string; orderId: string };
+    Querystring: { gameId: string };
   }>, reply: FastifyReply) => {
     try {
       const { stockId, orderId } = request.params;
+      const { gameId } = request.query;
       
+      const game = gameLoop.getGame(gameId);
+      if (!game) {
+        return await reply.code(404).send({ success: false, error: '游戏不存在' });
+      }
+      // 只能撤销玩家公司的挂单
+      if (!stockMarketService.getOrdersByCompany(game.playerCompanyId).some(order => order.id === orderId)) {
+        return await reply.code(404).send({ success: false, error: '订单不存在' });
+      }
+      
+      commandJournal.record(gameId, { type: 'cancelStockOrder', stockId, orderId });
       const success = stockMarketService.cancelOrder(stockId, orderId);
       
       if (success) {
@@ -377,6 +420,7 @@ export async function stockRoutes(app: FastifyInstance) {
    * 发起收购要约
    */
   app.post('/api/v1/stocks/takeover', async (request: FastifyRequest<{
+    Querystring: { gameId: string };
     Body: {
       acquirerId: string;
       targetId: string;
@@ -394,15 +438,27 @@ export async function stockRoutes(app: FastifyInstance) {
         });
       }
       
-      // TODO: 获取当前tick
-      const currentTick = 0;
+      const { gameId } = request.query;
+      const game = gameLoop.getGame(gameId);
+      if (!game) {
+        return await reply.code(404).send({ success: false, error: '游戏不存在' });
+      }
+      if (acquirerId !== game.playerCompanyId) {
+        return await reply.code(403).send({ success: false, error: '只能以玩家公司发起收购' });
+      }
       
+      commandJournal.record(gameId, {
+        type: 'initiateTakeover',
+        targetId,
+        offerPrice,
+        ...(rationale ? { rationale } : {}),
+      });
       const result = stockMarketService.initiateTakeover(
         acquirerId,
         targetId,
         offerPrice,
         rationale || '战略收购',
-        currentTick
+        game.currentTick
       );
       
       if (result.success) {
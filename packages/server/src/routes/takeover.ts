@@ -0,0 +1,176 @@
+/**
+ * Takeover API Routes
+ * 要约收购、股份承诺与子公司管理
+ */
+
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { TakeoverMode } from '@scc/shared';
+import { gameLoop } from '../services/gameLoop.js';
+import { commandJournal } from '../services/commandJournal.js';
+import { aiCompanyManager } from '../services/aiCompanyManager.js';
+import { stockMarketService } from '../services/stockMarket.js';
+import { takeoverService } from '../services/takeoverService.js';
+
+const initiateTakeoverSchema = z.object({
+  targetId: z.string(),
+  /** 每股要约价 */
+  offerPrice: z.number().positive(),
+  /** 整合方式：控股（默认）或吸收合并 */
+  mode: z.nativeEnum(TakeoverMode).default(TakeoverMode.Subsidiary),
+  rationale: z.string().optional(),
+});
+
+const pledgeSharesSchema = z.object({
+  /** 承诺出售的股数，0 表示撤回承诺 */
+  shares: z.number().int().min(0),
+});
+
+const directProductionSchema = z.object({
+  methodId: z.string(),
+});
+
+export async function takeoverRoutes(app: FastifyInstance) {
+  /**
+   * GET /api/v1/games/:gameId/takeovers
+   * 获取与玩家相关的收购要约（含承诺明细）和最近的收购结果
+   */
+  app.get('/api/v1/games/:gameId/takeovers', async (request: FastifyRequest<{
+    Querystring: { limit?: string };
+  }>, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+    const limit = parseInt(request.query.limit ?? '50');
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    // 玩家作为收购方、目标公司，或持有目标公司股份的要约
+    const bids = stockMarketService.getTakeoverBids().filter(bid =>
+      bid.acquirerId === game.playerCompanyId
+      || bid.targetId === game.playerCompanyId
+      || stockMarketService.getShareholding(game.playerCompanyId, bid.targetId)
+    );
+
+    return reply.send({
+      success: true,
+      data: {
+        bids: bids.map(bid => ({ ...bid, pledges: stockMarketService.getPledges(bid.id) })),
+        history: takeoverService.getHistory(limit),
+      },
+    });
+  });
+
+  /**
+   * POST /api/v1/games/:gameId/takeovers
+   * 玩家发起要约收购（需已持有目标公司30%以上股份）
+   */
+  app.post('/api/v1/games/:gameId/takeovers', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+    const body = initiateTakeoverSchema.parse(request.body);
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    commandJournal.record(gameId, {
+      type: 'initiateTakeover',
+      targetId: body.targetId,
+      offerPrice: body.offerPrice,
+      mode: body.mode,
+      ...(body.rationale !== undefined ? { rationale: body.rationale } : {}),
+    });
+    const result = stockMarketService.initiateTakeover(
+      game.playerCompanyId,
+      body.targetId,
+      body.offerPrice,
+      body.rationale ?? '战略收购',
+      game.currentTick,
+      body.mode
+    );
+
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.code(201).send({ success: true, data: result.bid });
+  });
+
+  /**
+   * POST /api/v1/games/:gameId/takeovers/:bidId/pledge
+   * 玩家以持有的目标公司股份响应要约（按要约价出售）
+   */
+  app.post('/api/v1/games/:gameId/takeovers/:bidId/pledge', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, bidId } = request.params as { gameId: string; bidId: string };
+    const { shares } = pledgeSharesSchema.parse(request.body);
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    commandJournal.record(gameId, { type: 'pledgeShares', bidId, shares });
+    const result = stockMarketService.pledgeShares(bidId, game.playerCompanyId, shares);
+
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.send({
+      success: true,
+      data: { ...result.bid, pledges: stockMarketService.getPledges(bidId) },
+    });
+  });
+
+  /**
+   * GET /api/v1/games/:gameId/subsidiaries
+   * 获取玩家的子公司及其建筑
+   */
+  app.get('/api/v1/games/:gameId/subsidiaries', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId } = request.params as { gameId: string };
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    const subsidiaries = takeoverService.getSubsidiaries(game.playerCompanyId).map(subsidiary => {
+      const company = aiCompanyManager.getCompany(subsidiary.subsidiaryId);
+      return {
+        ...subsidiary,
+        cash: company?.cash ?? 0,
+        buildings: company?.buildings ?? [],
+      };
+    });
+
+    return reply.send({
+      success: true,
+      data: {
+        subsidiaries,
+        relationships: takeoverService.getRelationships(game.playerCompanyId),
+      },
+    });
+  });
+
+  /**
+   * POST /api/v1/games/:gameId/subsidiaries/:subsidiaryId/buildings/:buildingId/method
+   * 指挥子公司建筑切换生产方式
+   */
+  app.post('/api/v1/games/:gameId/subsidiaries/:subsidiaryId/buildings/:buildingId/method', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { gameId, subsidiaryId, buildingId } = request.params as { gameId: string; subsidiaryId: string; buildingId: string };
+    const { methodId } = directProductionSchema.parse(request.body);
+
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return reply.code(404).send({ success: false, error: '游戏不存在' });
+    }
+
+    commandJournal.record(gameId, { type: 'directSubsidiary', subsidiaryId, buildingId, methodId });
+    const result = takeoverService.directProduction(game.playerCompanyId, subsidiaryId, buildingId, methodId);
+
+    if (!result.success) {
+      return reply.code(400).send({ success: false, error: result.error });
+    }
+    return reply.send({ success: true });
+  });
+}
@@ -8,8 +8,12 @@
 
 import { FastifyInstance, FastifyRequest } from 'fastify';
 import type { WebSocket as WSWebSocket } from '@fastify/websocket';
+import { z } from 'zod';
+import { GameSpeed } from '@scc/shared';
 import { gameLoop, TickUpdate } from '../services/gameLoop.js';
 import { deltaStateManager } from '../services/deltaStateManager.js';
+import { gameWorldFactory } from '../services/gameWorld.js';
+import { commandJournal } from '../services/commandJournal.js';
 
 interface WSClient {
   socket: WSWebSocket;
@@ -47,6 +51,7 @@ export async function websocketRoutes(app: FastifyInstance) {
         currentTick: game.currentTick,
         speed: game.speed,
         isPaused: game.isPaused,
+        seed: game.seed,
         playerCash: game.playerCash,
         buildingCount: game.buildings.length,
       },
@@ -54,121 +59,158 @@ export async function websocketRoutes(app: FastifyInstance) {
     
     // Handle incoming messages
     socket.on('message', (data: Buffer) => {
-      try {
-        const message = JSON.parse(data.toString()) as {
-          type: string;
-          payload?: Record<string, unknown>;
-        };
+      // 玩家操作在该游戏的世界中执行
+      gameWorldFactory.run(gameId, () => {
+        try {
+          const message = JSON.parse(data.toString()) as {
+            type: string;
+            payload?: Record<string, unknown>;
+          };
         
-        console.log(`[WS] Received:`, message);
+          console.log(`[WS] Received:`, message);
         
-        switch (message.type) {
-          case 'setSpeed': {
-            const speed = (message.payload?.speed as number) ?? 1;
-            console.log(`[WS] setSpeed called: speed=${speed}`);
-            gameLoop.setSpeed(gameId, speed as 0 | 1 | 2 | 4);
-            break;
-          }
+          switch (message.type) {
+            case 'setSpeed': {
+              const parsed = z.nativeEnum(GameSpeed).safeParse(message.payload?.speed ?? GameSpeed.Slow);
+              if (!parsed.success) break;
+              const speed = parsed.data;
+              console.log(`[WS] setSpeed called: speed=${speed}`);
+              commandJournal.record(gameId, { type: 'setSpeed', speed });
+              gameLoop.setSpeed(gameId, speed);
+              break;
+            }
           
-          case 'togglePause': {
-            console.log(`[WS] togglePause called`);
-            const isPaused = gameLoop.togglePause(gameId);
-            const gameState = gameLoop.getGame(gameId);
-            console.log(`[WS] After togglePause: isPaused=${isPaused}, speed=${gameState?.speed}`);
-            broadcast(gameId, {
-              type: 'pauseChange',
-              payload: {
-                isPaused,
-                speed: gameState?.speed ?? 0,
-              },
-            });
-            break;
-          }
+            case 'togglePause': {
+              console.log(`[WS] togglePause called`);
+              const isPaused = gameLoop.togglePause(gameId);
+              const gameState = gameLoop.getGame(gameId);
+              console.log(`[WS] After togglePause: isPaused=${isPaused}, speed=${gameState?.speed}`);
+              broadcast(gameId, {
+                type: 'pauseChange',
+                payload: {
+                  isPaused,
+                  speed: gameState?.speed ?? 0,
+                },
+              });
+              break;
+            }
+          
+            case 'purchaseBuilding': {
+              // 支持两种参数名: buildingDefId (新) 或 buildingId (旧)
+              const buildingDefId = (message.payload?.buildingDefId ?? message.payload?.buildingId) as string;
+              if (buildingDefId) {
+                commandJournal.record(gameId, { type: 'purchaseBuilding', buildingDefId });
+                const result = gameLoop.purchaseBuilding(gameId, buildingDefId);
+                socket.send(JSON.stringify({
+                  type: 'purchaseResult',
+                  payload: result,
+                }));
+              
+                if (result.success) {
+                  // Broadcast building update to all clients
+                  broadcast(gameId, {
+                    type: 'buildingAdded',
+                    payload: {
+                      building: result.building,
+                      playerCash: result.newCash,
+                    },
+                  });
+                }
+              }
+              break;
+            }
           
-          case 'purchaseBuilding': {
-            // 支持两种参数名: buildingDefId (新) 或 buildingId (旧)
-            const buildingDefId = (message.payload?.buildingDefId ?? message.payload?.buildingId) as string;
-            if (buildingDefId) {
-              const result = gameLoop.purchaseBuilding(gameId, buildingDefId);
+            case 'getBuildings': {
+              const buildings = gameLoop.getBuildings(gameId);
+              const cash = gameLoop.getPlayerCash(gameId);
               socket.send(JSON.stringify({
-                type: 'purchaseResult',
-                payload: result,
+                type: 'buildingsData',
+                payload: {
+                  buildings,
+                  playerCash: cash,
+                },
               }));
-              
-              if (result.success) {
-                // Broadcast building update to all clients
+              break;
+            }
+          
+            case 'resetGame': {
+              commandJournal.record(gameId, { type: 'resetGame' });
+              const newGame = gameLoop.resetGame(gameId);
+              if (newGame) {
+                // Broadcast reset to all clients
                 broadcast(gameId, {
-                  type: 'buildingAdded',
+                  type: 'gameReset',
                   payload: {
-                    building: result.building,
-                    playerCash: result.newCash,
+                    gameId: newGame.id,
+                    currentTick: newGame.currentTick,
+                    speed: newGame.speed,
+                    isPaused: newGame.isPaused,
+                    playerCash: newGame.playerCash,
                   },
                 });
               }
+              break;
             }
-            break;
-          }
           
-          case 'getBuildings': {
-            const buildings = gameLoop.getBuildings(gameId);
-            const cash = gameLoop.getPlayerCash(gameId);
-            socket.send(JSON.stringify({
-              type: 'buildingsData',
-              payload: {
-                buildings,
-                playerCash: cash,
-              },
-            }));
-            break;
-          }
-          
-          case 'resetGame': {
-            const newGame = gameLoop.resetGame(gameId);
-            if (newGame) {
-              // Broadcast reset to all clients
-              broadcast(gameId, {
-                type: 'gameReset',
-                payload: {
-                  gameId: newGame.id,
-                  currentTick: newGame.currentTick,
-                  speed: newGame.speed,
-                  isPaused: newGame.isPaused,
-                  playerCash: newGame.playerCash,
-                },
-              });
+            case 'switchMethod': {
+              const buildingId = message.payload?.buildingId as string;
+              const methodId = message.payload?.methodId as string;
+              const allowInfringement = message.payload?.allowInfringement === true;
+              if (buildingId && methodId) {
+                commandJournal.record(gameId, {
+                  type: 'switchMethod',
+                  buildingId,
+                  methodId,
+                  ...(allowInfringement ? { allowInfringement } : {}),
+                });
+                const result = gameLoop.switchBuildingMethod(gameId, buildingId, methodId, allowInfringement);
+                socket.send(JSON.stringify({
+                  type: 'switchMethodResult',
+                  payload: { ...result, buildingId, methodId },
+                }));
+              
+                if (result.success) {
+                  // Broadcast method change to all clients
+                  broadcast(gameId, {
+                    type: 'methodChanged',
+                    payload: { buildingId, methodId },
+                  });
+                }
+              }
+              break;
             }
-            break;
-          }
           
-          case 'switchMethod': {
-            const buildingId = message.payload?.buildingId as string;
-            const methodId = message.payload?.methodId as string;
-            if (buildingId && methodId) {
-              const result = gameLoop.switchBuildingMethod(gameId, buildingId, methodId);
-              socket.send(JSON.stringify({
-                type: 'switchMethodResult',
-                payload: { ...result, buildingId, methodId },
-              }));
+            case 'respondToEvent': {
+              const eventId = message.payload?.eventId as string;
+              const optionId = message.payload?.optionId as string;
+              if (eventId && optionId) {
+                commandJournal.record(gameId, { type: 'respondToEvent', eventId, optionId });
+                const result = gameLoop.respondToDecision(gameId, eventId, optionId);
+                socket.send(JSON.stringify({
+                  type: 'eventResponseResult',
+                  payload: { success: result.success, error: result.error, eventId, optionId },
+                }));
               
-              if (result.success) {
-                // Broadcast method change to all clients
-                broadcast(gameId, {
-                  type: 'methodChanged',
-                  payload: { buildingId, methodId },
-                });
+                if (result.success && result.update) {
+                  // 所有客户端关闭该事件的决策窗口
+                  broadcast(gameId, {
+                    type: 'decisionResolved',
+                    payload: { ...result.update, playerCash: gameLoop.getPlayerCash(gameId) },
+                  });
+                }
               }
+              break;
             }
-            break;
-          }
           
-          case 'ping': {
-            socket.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
-            break;
+            case 'ping': {
+              socket.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
+              break;
+            }
           }
+        } catch (error) {
+          console.error('[WS] Error parsing message:', error);
         }
-      } catch (error) {
-        console.error('[WS] Error parsing message:', error);
-      }
+      });
     });
     
     // Handle disconnect
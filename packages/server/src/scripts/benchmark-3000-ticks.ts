@@ -52,6 +52,8 @@ class GameLoopBenchmark extends EventEmitter {
   private metrics: TickMetrics[] = [];
   private startMemory: number = 0;
   private peakMemory: number = 0;
+  /** 累积模拟计算的结果，避免计算被当作死代码 */
+  private sink = 0;
   
   constructor() {
     super();
@@ -159,6 +161,7 @@ class GameLoopBenchmark extends EventEmitter {
         // 模拟产出计算
         const output = Math.random() * 100;
         const cost = Math.random() * 50;
+        this.sink += output - cost;
       }
     }
   }
@@ -178,6 +181,7 @@ class GameLoopBenchmark extends EventEmitter {
       
       // 模拟策略选择
       const decision = Math.random() > 0.5 ? 'expand' : 'conserve';
+      this.sink += decision === 'expand' ? variance : -variance;
     }
   }
   
@@ -266,6 +270,7 @@ class GameLoopBenchmark extends EventEmitter {
       ...eventData,
       prices: Object.fromEntries(eventData.prices),
     });
+    this.sink += serialized.length;
   }
   
   /**
@@ -63,7 +63,7 @@ async function runFullSimulationBenchmark(config: BenchmarkConfig = DEFAULT_CONF
   let isWarmup = true;
   
   // 监听tick事件
-  const tickHandler = (update: TickUpdate) => {
+  const tickHandler = (_update: TickUpdate) => {
     tickCount++;
     
     // 收集性能采样数据
@@ -0,0 +1,109 @@
+/**
+ * 提示词模板离线评估
+ *
+ * 用录制的请求上下文跑一个模板的多个版本，按线上 schema 校验/规范化逻辑统计解析失败率和字段修正率
+ * 运行方式: npx tsx packages/server/src/scripts/eval-prompts.ts <模板ID> [选项]
+ *
+ * 模板ID: strategy | tech_evaluation | tech_effects | market_events | decision_event
+ *
+ * 选项:
+ *   --versions v1,v2     要对比的版本（默认全部）
+ *   --contexts <path>    上下文 JSONL 文件（默认 <录制目录>/contexts/<模板ID>.jsonl）
+ *   --limit <n>          最多评估的上下文数
+ *   --provider <type>    覆盖后端：openai | ollama | replay（默认当前 LLM 配置）
+ *   --out <path>         写出完整报告（JSON）
+ *   --verbose            显示服务日志
+ *
+ * 录制上下文：以 LLM_RECORD_FIXTURES=true 运行游戏
+ */
+
+import { writeFile } from 'fs/promises';
+import { PROMPT_TEMPLATE_IDS, type PromptTemplateId } from '../services/promptTemplates.js';
+import { LLM_PROVIDER_TYPES, type LLMProviderType } from '../services/llmProvider.js';
+import { llmService } from '../services/llm.js';
+import { loadRecordedContexts, promptEvaluator } from '../services/promptEvaluator.js';
+
+const print = console.log.bind(console);
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const templateId = args[0] as PromptTemplateId | undefined;
+  if (!templateId || !PROMPT_TEMPLATE_IDS.includes(templateId)) {
+    print(`用法: eval-prompts.ts <${PROMPT_TEMPLATE_IDS.join('|')}> [--versions v1,v2] [--contexts path] [--limit n] [--provider type] [--out path] [--verbose]`);
+    return 2;
+  }
+
+  const providerType = getArg(args, '--provider') as LLMProviderType | undefined;
+  if (providerType && !LLM_PROVIDER_TYPES.includes(providerType)) {
+    print(`不支持的后端: ${providerType}`);
+    return 2;
+  }
+
+  const limit = getArg(args, '--limit');
+  const contexts = loadRecordedContexts(templateId, getArg(args, '--contexts'))
+    .slice(0, limit ? Number(limit) : undefined);
+  if (contexts.length === 0) {
+    print('没有可用的请求上下文，请先以 LLM_RECORD_FIXTURES=true 运行游戏录制');
+    return 2;
+  }
+
+  // 服务日志非常多，默认关闭
+  if (!args.includes('--verbose')) {
+    console.log = () => undefined;
+  }
+
+  const versions = getArg(args, '--versions')?.split(',').map(version => version.trim());
+  print(`🧪 评估 ${templateId}: ${contexts.length} 个上下文, 版本 ${versions?.join(', ') ?? '全部'}`);
+
+  const report = await promptEvaluator.evaluate({
+    templateId,
+    contexts,
+    ...(versions ? { versions } : {}),
+    ...(providerType ? { provider: llmService.createProvider({ provider: providerType }) } : {}),
+  });
+
+  print(`\n模型: ${report.model}`);
+  print('版本      评估   跳过   解析失败率   字段修正率   tokens');
+  for (const score of report.versions) {
+    print([
+      score.version.padEnd(8),
+      String(score.evaluated).padStart(6),
+      String(score.skipped).padStart(6),
+      percent(score.parseFailureRate).padStart(12),
+      percent(score.issueRate).padStart(12),
+      String(score.totalTokens).padStart(8),
+    ].join(' '));
+    const topIssues = Object.entries(score.issueCounts).sort(([, a], [, b]) => b - a).slice(0, 5);
+    if (topIssues.length > 0) {
+      print(`          修正最多: ${topIssues.map(([issue, count]) => `${issue} ×${count}`).join(', ')}`);
+    }
+    const topFailures = Object.entries(score.failureCounts).sort(([, a], [, b]) => b - a).slice(0, 5);
+    if (topFailures.length > 0) {
+      print(`          校验失败: ${topFailures.map(([issue, count]) => `${issue} ×${count}`).join(', ')}`);
+    }
+  }
+
+  const out = getArg(args, '--out');
+  if (out) {
+    await writeFile(out, JSON.stringify(report, null, 2));
+    print(`\n📄 ${out}`);
+  }
+
+  return report.versions.every(score => score.evaluated === 0) ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch((error: unknown) => {
+    console.error('评估出错:', error);
+    process.exit(2);
+  });
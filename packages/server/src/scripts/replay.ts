@@ -0,0 +1,62 @@
+/**
+ * 无界面回放
+ *
+ * 在全新的游戏中重放回放文件（GET /api/v1/games/:gameId/replay 导出），报告与记录的分歧
+ * 运行方式: npx tsx packages/server/src/scripts/replay.ts <replay.json> [--report <report.json>]
+ * 退出码: 0 = 一致, 1 = 出现分歧, 2 = 回放失败
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import type { ReplayFile } from '../services/commandJournal.js';
+import { replayRunner } from '../services/replayRunner.js';
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const replayPath = args[0];
+  const reportIndex = args.indexOf('--report');
+  const reportPath = reportIndex >= 0 ? args[reportIndex + 1] : undefined;
+
+  if (!replayPath) {
+    console.error('用法: replay.ts <replay.json> [--report <report.json>]');
+    return 2;
+  }
+
+  const replay = JSON.parse(await readFile(replayPath, 'utf-8')) as ReplayFile;
+  const report = await replayRunner.run(replay);
+
+  if (reportPath) {
+    await writeFile(reportPath, JSON.stringify(report, null, 2));
+  }
+
+  console.log('\n' + '='.repeat(70));
+  console.log('🎬 回放结果');
+  console.log('='.repeat(70));
+
+  if (!report.success) {
+    console.log(`❌ 回放失败: ${report.error}`);
+    return 2;
+  }
+
+  console.log(`游戏: ${replay.name} (${replay.gameId}), 种子: ${replay.seed}`);
+  console.log(`推进 tick: ${report.ticksSimulated}, 执行指令: ${report.commandsApplied}, 比对校验点: ${report.checkpointsCompared}`);
+  console.log(`最终 tick: ${report.finalTick}, 玩家现金: ${report.finalPlayerCash}`);
+
+  const { divergence } = report;
+  if (!divergence) {
+    console.log('✅ 与记录完全一致');
+    return 0;
+  }
+
+  console.log(`⚠️ 在 tick ${divergence.tick} 出现分歧（最后一致: ${divergence.lastMatchingTick ?? '无'}）`);
+  console.log(`   不一致字段: ${divergence.fields.join(', ')}`);
+  console.log(`   记录: ${JSON.stringify(divergence.expected)}`);
+  console.log(`   重放: ${JSON.stringify(divergence.actual)}`);
+  return 1;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch((error: unknown) => {
+    console.error('回放出错:', error);
+    process.exit(2);
+  });
@@ -0,0 +1,152 @@
+/**
+ * 无界面模拟（数值平衡用）
+ *
+ * 不启动服务器，按策略文件全速运行游戏，输出价格、AI公司、POPs满足度、股价时间序列
+ * 运行方式: npx tsx packages/server/src/scripts/simulate.ts <strategy.json> [选项]
+ *
+ * 选项:
+ *   --ticks <n>          覆盖策略中的 tick 数
+ *   --seed <n>           覆盖策略中的随机种子
+ *   --scenario <id>      覆盖策略中的剧本（scenarios/ 目录）
+ *   --difficulty <level> 覆盖策略中的难度（sandbox / easy / normal / hard / brutal）
+ *   --interval <n>       覆盖采样间隔
+ *   --format csv|json    输出格式（默认 csv）
+ *   --out <path>         csv: 输出目录；json: 输出文件（默认 simulation-<名称>-<种子>）
+ *   --verbose            显示游戏服务日志
+ *
+ * csv 输出: prices.csv / companies.csv / pops.csv / stocks.csv，每行一个采样 tick
+ * 策略文件示例见 scripts/strategies/
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  simulationRunner,
+  parseSimulationStrategy,
+  type SimulationResult,
+  type SimulationSample,
+} from '../services/simulationRunner.js';
+
+const print = console.log.bind(console);
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * 生成宽表 CSV：tick + 每个序列一列
+ */
+function toCsv(samples: SimulationSample[], extract: (sample: SimulationSample) => Record<string, number>): string {
+  const columns = new Set<string>();
+  const rows = samples.map(sample => {
+    const values = extract(sample);
+    Object.keys(values).forEach(key => columns.add(key));
+    return { tick: sample.tick, values };
+  });
+
+  const header = ['tick', ...columns];
+  const lines = rows.map(row => [
+    row.tick,
+    ...Array.from(columns, column => row.values[column] ?? ''),
+  ].join(','));
+
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+async function writeCsv(result: SimulationResult, dir: string): Promise<string[]> {
+  await mkdir(dir, { recursive: true });
+
+  const files: Record<string, string> = {
+    'prices.csv': toCsv(result.samples, sample => sample.prices),
+    'companies.csv': toCsv(result.samples, sample => {
+      const values: Record<string, number> = {
+        'player.cash': sample.playerCash,
+        'player.buildings': sample.playerBuildingCount,
+      };
+      for (const [companyId, company] of Object.entries(sample.companies)) {
+        values[`${companyId}.cash`] = company.cash;
+        values[`${companyId}.buildings`] = company.buildingCount;
+      }
+      return values;
+    }),
+    'pops.csv': toCsv(result.samples, sample => {
+      const values: Record<string, number> = {};
+      for (const [popGroupId, satisfaction] of Object.entries(sample.popsSatisfaction)) {
+        for (const [needGroupId, value] of Object.entries(satisfaction)) {
+          values[`${popGroupId}.${needGroupId}`] = value;
+        }
+      }
+      return values;
+    }),
+    'stocks.csv': toCsv(result.samples, sample => sample.stockPrices),
+  };
+
+  for (const [name, content] of Object.entries(files)) {
+    await writeFile(join(dir, name), content);
+  }
+  return Object.keys(files).map(name => join(dir, name));
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const strategyPath = args[0];
+  if (!strategyPath || strategyPath.startsWith('--')) {
+    print('用法: simulate.ts <strategy.json> [--ticks n] [--seed n] [--scenario id] [--difficulty level] [--interval n] [--format csv|json] [--out path] [--verbose]');
+    return 2;
+  }
+
+  const raw = JSON.parse(await readFile(strategyPath, 'utf-8')) as Record<string, unknown>;
+  const ticks = getArg(args, '--ticks');
+  const seed = getArg(args, '--seed');
+  const interval = getArg(args, '--interval');
+  const scenarioId = getArg(args, '--scenario');
+  const difficulty = getArg(args, '--difficulty');
+  const strategy = parseSimulationStrategy({
+    ...raw,
+    ...(ticks ? { ticks: Number(ticks) } : {}),
+    ...(seed ? { seed: Number(seed) } : {}),
+    ...(interval ? { sampleInterval: Number(interval) } : {}),
+    ...(scenarioId ? { scenarioId } : {}),
+    ...(difficulty ? { difficulty } : {}),
+  });
+
+  const format = getArg(args, '--format') ?? 'csv';
+  if (format !== 'csv' && format !== 'json') {
+    print(`不支持的输出格式: ${format}`);
+    return 2;
+  }
+
+  // 游戏服务日志非常多，默认关闭
+  if (!args.includes('--verbose')) {
+    console.log = () => undefined;
+  }
+
+  print(`🎮 模拟 "${strategy.name}": ${strategy.ticks} ticks, 采样间隔 ${strategy.sampleInterval}, 动作 ${strategy.actions.length} 条`);
+
+  let lastReported = 0;
+  const result = await simulationRunner.run(strategy, (tick, total) => {
+    if (tick - lastReported >= total / 10 || tick === total) {
+      lastReported = tick;
+      print(`   ⏱️ ${tick}/${total}`);
+    }
+  });
+
+  const out = getArg(args, '--out') ?? `simulation-${strategy.name}-${result.seed}${format === 'json' ? '.json' : ''}`;
+  const files = format === 'json'
+    ? (await writeFile(out, JSON.stringify(result, null, 2)), [out])
+    : await writeCsv(result, out);
+
+  print(`✅ 完成: 种子 ${result.seed}, 耗时 ${(result.durationMs / 1000).toFixed(1)}s, 执行指令 ${result.commandsApplied} 条, 采样 ${result.samples.length} 次`);
+  for (const file of files) {
+    print(`   📄 ${file}`);
+  }
+  return 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch((error: unknown) => {
+    console.error('模拟出错:', error);
+    process.exit(2);
+  });
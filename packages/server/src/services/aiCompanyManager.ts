@@ -3,6 +3,9 @@
  * 负责AI公司的初始化、决策和行动执行
  *
  * 商战系统：AI公司使用 inventoryManager 管理库存，通过 marketOrderBook 提交真实订单
+ *
+ * 技术竞赛：AI公司按研发偏好围绕战略优先行业发起研发项目，用现金投入研发资金，
+ * 研发成功后获得专利，技术修饰符作用于自己的建筑
  */
 
 import {
@@ -11,18 +14,35 @@ import {
   type AICompanyConfig,
   AIPersonality,
   CompanyType,
+  InteractionType,
   getGoodsDefinition,
   getConstructionTime,
   getConstructionMaterials,
   getBuildingDef,
   calculateConstructionCost,
+  type ProductionMethodData,
 } from '@scc/shared';
 import type { BuildingInstance, SupplyDemandData } from './gameLoop.js';
 import { llmService, type StrategicPlan } from './llm.js';
 import { inventoryManager } from './inventoryManager.js';
 import { marketOrderBook } from './marketOrderBook.js';
 import { priceDiscoveryService } from './priceDiscovery.js';
+import { bankingService, CREDIT_RATINGS, DEFAULT_LOAN_TERM } from './bankingService.js';
+import { bankruptcyService } from './bankruptcyService.js';
+import { takeoverService } from './takeoverService.js';
+import { technologyEffectManager } from './technologyEffectManager.js';
+import { difficultySettings } from './difficulty.js';
+import { laborMarket, POACH_WAGE_PREMIUM } from './laborMarket.js';
+import { patentLicensing } from './patentLicensing.js';
+import { ELECTRICITY_GOODS_ID, getPowerDraw } from './powerGrid.js';
+import { patentLitigation } from './patentLitigation.js';
+import { researchService, type ResearchProject } from './researchService.js';
 import { GOODS_DATA } from '@scc/shared';
+import { rng } from './rng.js';
+import { worldScoped } from './worldContext.js';
+
+// 1 tick = 1 day, 1 month = 30 days = 30 ticks
+const TICKS_PER_MONTH = 30;
 
 /** AI公司状态 */
 export interface AICompanyState {
@@ -73,7 +93,15 @@ export interface AIGoal {
 /** AI交互记录 */
 export interface AIInteractionRecord {
   tick: number;
-  type: 'negotiation' | 'price_war' | 'supply_block' | 'cooperation' | 'media_attack';
+  type:
+    | 'negotiation'
+    | 'price_war'
+    | 'supply_block'
+    | 'cooperation'
+    | 'media_attack'
+    | InteractionType.ContractSigned
+    | InteractionType.ContractBreached
+    | InteractionType.TalentPoaching;
   description: string;
   outcome: 'positive' | 'negative' | 'neutral';
   trustChange: number;
@@ -82,7 +110,7 @@ export interface AIInteractionRecord {
 /** AI动作记录 */
 export interface AIActionRecord {
   tick: number;
-  type: 'purchase_building' | 'switch_method' | 'price_change' | 'media_campaign' | 'stockpile' | 'market_order';
+  type: 'purchase_building' | 'switch_method' | 'price_change' | 'media_campaign' | 'stockpile' | 'market_order' | 'take_loan' | 'poach_employee';
   description: string;
   targetId?: string;
   cost?: number;
@@ -102,7 +130,7 @@ export interface PlayerBehaviorAnalysis {
 export interface CompetitionEvent {
   id: string;
   tick: number;
-  type: 'price_war_start' | 'supply_block' | 'market_entry' | 'expansion' | 'media_attack' | 'strategy_change';
+  type: 'price_war_start' | 'supply_block' | 'market_entry' | 'expansion' | 'media_attack' | 'strategy_change' | 'talent_poaching' | 'tech_breakthrough';
   companyId: string;
   companyName: string;
   title: string;
@@ -120,8 +148,74 @@ export interface GameContext {
   supplyDemand: Map<string, SupplyDemandData>;
   playerBuildings: BuildingInstance[];
   playerCash: number;
+  playerCompanyId: string;
+}
+
+/** AI研发概念 */
+interface AIResearchConcept {
+  name: string;
+  description: string;
 }
 
+/**
+ * 各行业的研发路线（按先后排列，描述中的技术关键词决定前置技术，见 techTree.ts）
+ * 行业与战略计划的 priorityIndustry 对应
+ */
+const AI_RESEARCH_ROADMAPS: Record<string, AIResearchConcept[]> = {
+  steel: [
+    { name: '高强度合金冶炼', description: '开发新型合金材料配方，提高钢材强度并降低冶炼能耗' },
+    { name: '自动化轧钢产线', description: '以自动化控制改造轧钢产线，提升产能利用率' },
+    { name: '纳米涂层防腐钢', description: '在钢材表面应用纳米材料涂层，延长使用寿命' },
+  ],
+  energy: [
+    { name: '高效太阳能组件', description: '提高太阳能电池板的光电转换效率，降低发电成本' },
+    { name: '电网级储能电池', description: '研发大容量储能电池系统，平抑电力供需波动' },
+    { name: '氢能燃料电池', description: '突破氢能燃料电池的寿命和成本瓶颈，推动清洁能源替代' },
+  ],
+  semiconductor: [
+    { name: '先进半导体工艺', description: '改进半导体晶圆制程，提升良品率和晶体管密度' },
+    { name: '高性能计算芯片', description: '设计面向数据中心的高性能芯片架构' },
+    { name: '极紫外光刻', description: '自主研发极紫外光刻设备，突破先进制程封锁' },
+    { name: '神经网络加速器', description: '研发专用于神经网络推理的 AI 加速芯片' },
+  ],
+  chemicals: [
+    { name: '绿色化学催化', description: '开发环保型化学催化剂，减少副产物和排放' },
+    { name: '可降解塑料', description: '以生物基原料合成可降解塑料，替代传统石化产品' },
+    { name: '固态电解质', description: '合成固态电池电解质材料，提升电池安全性和能量密度' },
+  ],
+  food: [
+    { name: '智能农业自动化', description: '以自动化设备和传感器管理种植过程，提高单产' },
+    { name: '基因育种', description: '利用生物基因技术培育高产抗病作物品种' },
+  ],
+  retail: [
+    { name: '仓储机器人', description: '引入自动化仓储机器人，降低物流分拣成本' },
+    { name: 'AI 需求预测', description: '以 AI 模型预测消费需求，减少库存积压' },
+  ],
+};
+
+/** 建筑子类别所属的研发行业（零售类建筑统一为 retail） */
+const SUBCATEGORY_RESEARCH_INDUSTRY: Record<string, string> = {
+  '矿产开采': 'steel',
+  '金属冶炼': 'steel',
+  '建筑材料': 'steel',
+  '机械制造': 'steel',
+  '汽车制造': 'steel',
+  '能源开采': 'energy',
+  '能源设施': 'energy',
+  '新能源制造': 'energy',
+  '电子材料': 'semiconductor',
+  '半导体制造': 'semiconductor',
+  '电子制造': 'semiconductor',
+  '数字基础设施': 'semiconductor',
+  '石油化工': 'chemicals',
+  '化学工业': 'chemicals',
+  '轻工业': 'chemicals',
+  '农林业': 'food',
+  '农业生产': 'food',
+  '畜牧业': 'food',
+  '食品工业': 'food',
+};
+
 /**
  * AI公司管理器
  */
@@ -134,6 +228,9 @@ export class AICompanyManager {
   private asyncEventQueue: CompetitionEvent[] = [];
   private asyncNewsQueue: Array<{ companyId: string; headline: string }> = [];
   
+  /** 最近一次处理的tick：异步回调完成时用它代替 await 前捕获的 context.currentTick */
+  private lastProcessedTick = 0;
+  
   /** 性能优化：分批处理AI公司，每tick只处理一部分 */
   private readonly BATCH_SIZE = 10; // 每tick处理10个公司（增加以提高市场活跃度）
   private currentBatchIndex = 0;
@@ -141,14 +238,47 @@ export class AICompanyManager {
   /** 性能优化：每公司最大建筑数限制（有聚合因子后可提高） */
   private readonly MAX_BUILDINGS_PER_COMPANY = 30;
   
+  /** 风险偏好低于此值的公司不借贷 */
+  private readonly MIN_RISK_TOLERANCE_TO_BORROW = 0.3;
+  
+  /** 评级低于此档时利率过高，不借贷 */
+  private readonly WORST_RATING_TO_BORROW = 'BBB';
+  
+  /** 发起攻击时选择挖角的概率（玩家公司有员工时） */
+  private readonly POACH_PROBABILITY = 0.3;
+  
+  /** 每次决策发起研发项目的概率（乘以研发偏好，创新者加倍） */
+  private readonly RESEARCH_START_PROBABILITY = 0.15;
+  
+  /** 同时进行的研发项目上限（创新者可同时推进更多项目） */
+  private readonly MAX_RESEARCH_PROJECTS = 1;
+  private readonly INNOVATOR_MAX_RESEARCH_PROJECTS = 2;
+  
+  /** 研发预算中用于可行性评估的比例 */
+  private readonly RESEARCH_BUDGET_SHARE = 0.3;
+  
+  /** 每次决策追加的研发资金占研发预算的比例 */
+  private readonly RESEARCH_FUNDING_SHARE = 0.05;
+  
+  /** 建设新建筑前需要预留的运营成本（维护费 + 工资）天数 */
+  private readonly EXPANSION_RUNNING_COST_TICKS = 90;
+  
   /**
    * 初始化AI公司
    * 使用 inventoryManager 管理库存，实现真实的市场参与
+   * @param companyIds 参与本局的AI公司（剧本设定），不指定时加载全部 AI_COMPANIES_CONFIG
    */
-  initializeCompanies(currentTick: number = 0): Map<string, AICompanyState> {
+  initializeCompanies(currentTick = 0, companyIds?: readonly string[]): Map<string, AICompanyState> {
     this.companies.clear();
+    this.lastProcessedTick = currentTick;
+    
+    const roster = companyIds
+      ? AI_COMPANIES_CONFIG.filter(config => companyIds.includes(config.id))
+      : AI_COMPANIES_CONFIG;
     
-    for (const config of AI_COMPANIES_CONFIG) {
+    for (const baseConfig of roster) {
+      // 攻击性、风险偏好、决策间隔按难度调整
+      const config = difficultySettings.getAIConfig(baseConfig.id) ?? baseConfig;
       const company = this.createCompanyFromConfig(config);
       this.companies.set(config.id, company);
       
@@ -204,6 +334,12 @@ export class AICompanyManager {
       }
     }
     
+    // 电网用电（30天库存）
+    const powerLoad = this.getPowerLoad(company);
+    if (powerLoad > 0) {
+      inputNeeds.set(ELECTRICITY_GOODS_ID, (inputNeeds.get(ELECTRICITY_GOODS_ID) ?? 0) + powerLoad * 30);
+    }
+    
     // 给予初始原料库存
     for (const [goodsId, quantity] of inputNeeds) {
       inventoryManager.addGoods(config.id, goodsId, quantity, 0, currentTick, 'initial_stock');
@@ -269,15 +405,15 @@ export class AICompanyManager {
       const defaultMethodId = defaultSlot?.defaultMethodId ?? defaultSlot?.methods[0]?.id ?? '';
       
       const building: BuildingInstance = {
-        id: `${config.id}-building-${buildings.length}-${Date.now()}`,
+        id: `${config.id}-building-${buildings.length}-${rng.nextId(6)}`,
         definitionId: buildingDefId,
         name: def.nameZh,
         position: {
           x: 500 + buildings.length * 150,
-          y: 100 + Math.random() * 200,
+          y: 100 + rng.next() * 200,
         },
-        efficiency: 0.9 + Math.random() * 0.1, // 90-100%效率
-        utilization: 0.8 + Math.random() * 0.2, // 80-100%利用率
+        efficiency: 0.9 + rng.next() * 0.1, // 90-100%效率
+        utilization: 0.8 + rng.next() * 0.2, // 80-100%利用率
         status: 'running',
         productionProgress: 0,
         currentMethodId: defaultMethodId,
@@ -333,6 +469,53 @@ export class AICompanyManager {
     return this.companies.get(id);
   }
   
+  /**
+   * 移除AI公司（破产清算、被吸收合并后调用）
+   */
+  removeCompany(id: string, reason = '已清算退出市场'): AICompanyState | undefined {
+    const company = this.companies.get(id);
+    if (!company) return undefined;
+    
+    this.companies.delete(id);
+    this.decisionThrottles.delete(id);
+    this.currentBatchIndex = 0;
+    console.log(`[AIManager] ${company.name} ${reason}`);
+    return company;
+  }
+  
+  /**
+   * AI公司能否再接收建筑（破产拍卖竞拍资格、吸收合并）
+   */
+  canAcquireBuilding(id: string, count = 1): boolean {
+    const company = this.companies.get(id);
+    return !!company && company.buildings.length + count <= this.MAX_BUILDINGS_PER_COMPANY;
+  }
+  
+  /**
+   * 移除建筑（破产重整期间变卖资产）
+   */
+  removeBuilding(id: string, buildingId: string): BuildingInstance | undefined {
+    const company = this.companies.get(id);
+    const index = company?.buildings.findIndex(b => b.id === buildingId) ?? -1;
+    if (!company || index < 0) return undefined;
+    return company.buildings.splice(index, 1)[0];
+  }
+  
+  /**
+   * 接收拍得的建筑（保留建造/生产进度，重新分配ID）
+   */
+  acquireBuilding(id: string, building: BuildingInstance): BuildingInstance | null {
+    const company = this.companies.get(id);
+    if (!company || company.buildings.length >= this.MAX_BUILDINGS_PER_COMPANY) return null;
+    
+    const acquired: BuildingInstance = {
+      ...structuredClone(building),
+      id: `${company.id}-building-${company.buildings.length}-${rng.nextId(6)}`,
+    };
+    company.buildings.push(acquired);
+    return acquired;
+  }
+  
   /** 性能优化：决策节流，每公司15-35 tick决策一次（进一步提高性能） */
   private decisionThrottles: Map<string, number> = new Map();
   private readonly DECISION_INTERVAL_MIN = 15;  // 从10改为15
@@ -361,6 +544,8 @@ export class AICompanyManager {
     events: CompetitionEvent[];
     news: Array<{ companyId: string; headline: string }>;
   } {
+    this.lastProcessedTick = context.currentTick;
+    
     // 将上一轮异步生成的事件合并进来
     this.pendingEvents = [...this.asyncEventQueue];
     this.pendingNews = [...this.asyncNewsQueue];
@@ -388,10 +573,13 @@ export class AICompanyManager {
       const company = companiesArray[i];
       if (!company) continue;
       
+      // 子公司由母公司指挥，不再独立制定战略和决策，只继续生产和交易
+      const isSubsidiary = takeoverService.isSubsidiary(company.id);
+      
       // 检查是否需要刷新战略（LLM大决策）- 所有公司都检查
       // 只有在还没有刷新过战略时才检查，以错开各公司的API调用
       const ticksSinceStrategy = context.currentTick - company.lastStrategyTick;
-      if (!strategyRefreshed && ticksSinceStrategy >= company.strategyRefreshInterval) {
+      if (!isSubsidiary && !strategyRefreshed && ticksSinceStrategy >= company.strategyRefreshInterval) {
         console.log(`[AIManager] ${company.name} 触发战略刷新 (tick=${context.currentTick}, 上次=${company.lastStrategyTick}, 间隔=${company.strategyRefreshInterval})`);
         this.refreshStrategicPlan(company, context);
         company.lastStrategyTick = context.currentTick;
@@ -399,12 +587,13 @@ export class AICompanyManager {
       }
       
       // 【性能优化】限制每tick处理的决策数量
-      if (decisionsThisTick < this.MAX_DECISIONS_PER_TICK) {
+      if (!isSubsidiary && decisionsThisTick < this.MAX_DECISIONS_PER_TICK) {
         // 检查决策节流
         const lastDecisionTick = this.decisionThrottles.get(company.id) || 0;
         // 计算该公司的决策间隔（基于公司ID哈希，分散决策时机）
         const companyHash = company.id.charCodeAt(company.id.length - 1) || 0;
-        const decisionInterval = this.DECISION_INTERVAL_MIN + (companyHash % (this.DECISION_INTERVAL_MAX - this.DECISION_INTERVAL_MIN + 1));
+        const baseInterval = this.DECISION_INTERVAL_MIN + (companyHash % (this.DECISION_INTERVAL_MAX - this.DECISION_INTERVAL_MIN + 1));
+        const decisionInterval = Math.max(1, Math.round(baseInterval * difficultySettings.getPreset().aiDecisionIntervalMultiplier));
         
         if (context.currentTick - lastDecisionTick >= decisionInterval) {
           // 【性能优化】已达建筑上限的公司使用快速路径
@@ -451,10 +640,8 @@ export class AICompanyManager {
         const slot = def.productionSlots[0];
         if (!slot || slot.methods.length < 2) continue;
         
-        // 切换到下一个方法
-        const currentIndex = slot.methods.findIndex(m => m.id === building.currentMethodId);
-        const nextIndex = (currentIndex + 1) % slot.methods.length;
-        const nextMethod = slot.methods[nextIndex];
+        // 切换到扣除工资后利润更高的方法
+        const nextMethod = findMoreProfitableMethod(building, slot.methods, context.marketPrices);
         if (nextMethod) {
           building.currentMethodId = nextMethod.id;
           // 减少日志输出
@@ -462,6 +649,11 @@ export class AICompanyManager {
         break; // 每次只处理一个建筑
       }
     }
+    
+    const config = difficultySettings.getAIConfig(company.id);
+    if (config) {
+      this.processResearch(company, context, config);
+    }
   }
   
   /** 性能优化：订单提交节流 - 记录每个公司上次提交订单的tick */
@@ -485,7 +677,7 @@ export class AICompanyManager {
    * - 这确保初始库存和之前生产的商品都能被出售
    */
   private processMarketOrders(company: AICompanyState, context: GameContext): void {
-    const config = AI_COMPANIES_CONFIG.find(c => c.id === company.id);
+    const config = difficultySettings.getAIConfig(company.id);
     if (!config) return;
     
     const inventory = inventoryManager.getInventory(company.id);
@@ -502,6 +694,12 @@ export class AICompanyManager {
     const buyNeeds = new Map<string, number>();  // goodsId -> totalAmount
     const sellNeeds = new Map<string, number>(); // goodsId -> totalAmount
     
+    // 电网用电优先采购（含停电建筑，否则停电后买不到电无法恢复），目标库存7天
+    const powerLoad = this.getPowerLoad(company);
+    if (powerLoad > 0) {
+      buyNeeds.set(ELECTRICITY_GOODS_ID, powerLoad * 7);
+    }
+    
     // 分析需要买入的原料和可以卖出的产品（基于running状态的建筑）
     for (const building of company.buildings) {
       const def = BUILDINGS_DATA.find(b => b.id === building.definitionId);
@@ -552,7 +750,7 @@ export class AICompanyManager {
     // 处理卖出订单（合并后）
     for (const [goodsId] of sellNeeds) {
       if (ordersSubmitted >= this.MAX_ORDERS_PER_TICK) break;
-      if (this.processSellOrderBatched(company, config, goodsId, context)) {
+      if (this.processSellOrderBatched(company, goodsId, context)) {
         ordersSubmitted++;
       }
     }
@@ -567,6 +765,15 @@ export class AICompanyManager {
     }
   }
   
+  /**
+   * 公司接入电网的建筑（运行中和停电中）每 tick 的用电量
+   */
+  private getPowerLoad(company: AICompanyState): number {
+    return company.buildings
+      .filter(building => building.status === 'running' || building.status === 'no_power')
+      .reduce((sum, building) => sum + getPowerDraw(building), 0);
+  }
+  
   /**
    * 处理原料采购订单（批量优化版）
    * @returns 是否成功提交了订单
@@ -621,7 +828,6 @@ export class AICompanyManager {
    */
   private processSellOrderBatched(
     company: AICompanyState,
-    config: AICompanyConfig,
     goodsId: string,
     context: GameContext
   ): boolean {
@@ -646,12 +852,16 @@ export class AICompanyManager {
     } else {
       reserveStock = available * 0.1; // 只保留10%
     }
+    // 自有电厂的电力先留足7天电网用电
+    if (goodsId === ELECTRICITY_GOODS_ID) {
+      reserveStock += this.getPowerLoad(company) * 7;
+    }
     
     const sellableQuantity = available - reserveStock;
     
     // 降低最小可卖数量阈值到1（从10降低）
     if (sellableQuantity > 1) {
-      const sellPrice = this.calculateSellPrice(company, config, goodsId, context);
+      const sellPrice = this.calculateSellPrice(company, goodsId, context);
       // 每次卖出80%的可卖量（从70%提高）
       const sellQuantity = Math.max(1, sellableQuantity * 0.8);
       
@@ -682,7 +892,7 @@ export class AICompanyManager {
     const marketPrice = priceDiscoveryService.getPrice(goodsId);
     
     // 添加微小随机波动 0~2%（始终正向）
-    const randomFactor = 1.0 + Math.random() * 0.02;
+    const randomFactor = 1.0 + rng.next() * 0.02;
     
     // 根据人格调整买入策略（全部在市价之上，确保能成交）
     switch (company.personality) {
@@ -692,20 +902,20 @@ export class AICompanyManager {
         
       case AIPersonality.OldMoney:
         // 保守：略高于市价买入（+0%~+3%）
-        return marketPrice * (1.0 + Math.random() * 0.03) * randomFactor;
+        return marketPrice * (1.0 + rng.next() * 0.03) * randomFactor;
         
       case AIPersonality.TrendSurfer:
         // 跟风：市价或略高（+1%~+4%）
-        return marketPrice * (1.01 + Math.random() * 0.03) * randomFactor;
+        return marketPrice * (1.01 + rng.next() * 0.03) * randomFactor;
         
       case AIPersonality.CostLeader:
         // 成本导向：接近市价（+0%~+2%）
-        return marketPrice * (1.0 + Math.random() * 0.02) * randomFactor;
+        return marketPrice * (1.0 + rng.next() * 0.02) * randomFactor;
         
       case AIPersonality.Innovator:
       default:
         // 平衡策略：市价或略高（+0%~+3%）
-        return marketPrice * (1.0 + Math.random() * 0.03) * randomFactor;
+        return marketPrice * (1.0 + rng.next() * 0.03) * randomFactor;
     }
   }
   
@@ -715,7 +925,6 @@ export class AICompanyManager {
    */
   private calculateSellPrice(
     company: AICompanyState,
-    config: AICompanyConfig,
     goodsId: string,
     context: GameContext
   ): number {
@@ -725,33 +934,33 @@ export class AICompanyManager {
     const playerThreat = this.analyzePlayerThreat(company, goodsId, context);
     
     // 添加微小随机波动 -1%~0%（始终负向或零）
-    const randomFactor = 0.99 + Math.random() * 0.01;
+    const randomFactor = 0.99 + rng.next() * 0.01;
     
     // 根据人格调整卖出策略（大部分在市价之下，确保能成交）
     switch (company.personality) {
       case AIPersonality.Monopolist:
         // 激进：如果有玩家威胁则降价打压（-5%~-2%），否则接近市价（-2%~+1%）
         if (playerThreat > 0.5) {
-          return marketPrice * (0.95 + Math.random() * 0.03) * randomFactor; // 价格战
+          return marketPrice * (0.95 + rng.next() * 0.03) * randomFactor; // 价格战
         }
-        return marketPrice * (0.98 + Math.random() * 0.03) * randomFactor;
+        return marketPrice * (0.98 + rng.next() * 0.03) * randomFactor;
         
       case AIPersonality.OldMoney:
         // 保守：接近市价（-1%~+2%）
-        return marketPrice * (0.99 + Math.random() * 0.03) * randomFactor;
+        return marketPrice * (0.99 + rng.next() * 0.03) * randomFactor;
         
       case AIPersonality.TrendSurfer:
         // 跟风：略低于市价（-3%~0%）
-        return marketPrice * (0.97 + Math.random() * 0.03) * randomFactor;
+        return marketPrice * (0.97 + rng.next() * 0.03) * randomFactor;
         
       case AIPersonality.CostLeader:
         // 低价策略：低于市价（-5%~-2%）
-        return marketPrice * (0.95 + Math.random() * 0.03) * randomFactor;
+        return marketPrice * (0.95 + rng.next() * 0.03) * randomFactor;
         
       case AIPersonality.Innovator:
       default:
         // 平衡策略：接近市价（-2%~+1%）
-        return marketPrice * (0.98 + Math.random() * 0.03) * randomFactor;
+        return marketPrice * (0.98 + rng.next() * 0.03) * randomFactor;
     }
   }
   
@@ -823,7 +1032,7 @@ export class AICompanyManager {
   private async refreshStrategicPlan(company: AICompanyState, context: GameContext): Promise<void> {
     console.log(`[AIManager] 开始为 ${company.name} 生成战略计划...`);
     
-    const config = AI_COMPANIES_CONFIG.find((c: AICompanyConfig) => c.id === company.id);
+    const config = difficultySettings.getAIConfig(company.id);
     if (!config) {
       console.log(`[AIManager] 未找到 ${company.name} 的配置，跳过`);
       return;
@@ -884,7 +1093,7 @@ export class AICompanyManager {
       
       // 生成战略刷新事件（每次LLM调用都记录）- 放入异步队列
       this.asyncEventQueue.push({
-        id: `strategy-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id: `strategy-${rng.nextId(9)}`,
         tick: context.currentTick,
         type: 'strategy_change',
         companyId: company.id,
@@ -924,7 +1133,7 @@ export class AICompanyManager {
    * 处理AI公司决策
    */
   private processCompanyDecision(company: AICompanyState, context: GameContext): void {
-    const config = AI_COMPANIES_CONFIG.find((c: AICompanyConfig) => c.id === company.id);
+    const config = difficultySettings.getAIConfig(company.id);
     if (!config) {
       console.log(`[AIManager] ${company.name} 未找到配置，跳过决策`);
       return;
@@ -944,6 +1153,173 @@ export class AICompanyManager {
     } else {
       console.log(`[AIManager] ${company.name} 无可执行动作`);
     }
+    
+    this.processResearch(company, context, config);
+  }
+  
+  /**
+   * AI研发：为进行中的项目追加资金，并按研发偏好发起新项目
+   * 重整期内不投入研发
+   */
+  private processResearch(company: AICompanyState, context: GameContext, config: AICompanyConfig): void {
+    if (bankruptcyService.isRestructuring(company.id)) return;
+    
+    const projects = researchService.getProjectsByCompany(company.id);
+    const inProgress = projects.filter(p => ['planning', 'active'].includes(p.status.toLowerCase()));
+    
+    for (const project of inProgress) {
+      this.fundResearchProject(company, project, context, config);
+    }
+    
+    const isInnovator = company.personality === AIPersonality.Innovator;
+    const maxProjects = isInnovator ? this.INNOVATOR_MAX_RESEARCH_PROJECTS : this.MAX_RESEARCH_PROJECTS;
+    if (inProgress.length >= maxProjects) return;
+    
+    const startProbability = this.RESEARCH_START_PROBABILITY * config.rdPreference * (isInnovator ? 2 : 1);
+    if (rng.next() >= startProbability) return;
+    if (this.getResearchBudget(company, context.currentTick, config) <= 0) return;
+    
+    const concept = this.selectResearchConcept(company, projects);
+    if (concept) {
+      this.launchResearchProject(company, concept, context, config).catch((error: unknown) => {
+        console.error(`[AIManager] ${company.name} 启动研发「${concept.name}」失败:`, error);
+      });
+    }
+  }
+  
+  /**
+   * 选择研发概念：沿研发路线选择第一个还没有研发过（或已失败）的项目
+   * 只研发公司已有建筑的行业：战略优先行业在其中时优先，否则按建筑规模从大到小；没有对应行业时不研发
+   */
+  private selectResearchConcept(company: AICompanyState, projects: ResearchProject[]): AIResearchConcept | null {
+    const ownedIndustries = this.getResearchIndustries(company);
+    const priority = company.strategicPlan?.priorityIndustry;
+    const industries = priority && ownedIndustries.includes(priority)
+      ? [priority, ...ownedIndustries.filter(industry => industry !== priority)]
+      : ownedIndustries;
+    
+    const attempted = new Set(
+      projects
+        .filter(p => !['failed', 'cancelled'].includes(p.status.toLowerCase()))
+        .map(p => p.concept.name)
+    );
+    for (const industry of industries) {
+      const concept = AI_RESEARCH_ROADMAPS[industry]?.find(candidate => !attempted.has(candidate.name));
+      if (concept) return concept;
+    }
+    return null;
+  }
+  
+  /**
+   * 公司建筑所属的研发行业（按等效工厂数从多到少）
+   */
+  private getResearchIndustries(company: AICompanyState): string[] {
+    const weights = new Map<string, number>();
+    for (const building of company.buildings) {
+      const def = BUILDINGS_DATA.find(b => b.id === building.definitionId);
+      if (!def) continue;
+      const industry = def.category === 'retail' ? 'retail' : SUBCATEGORY_RESEARCH_INDUSTRY[def.subcategory];
+      if (!industry) continue;
+      weights.set(industry, (weights.get(industry) ?? 0) + (building.aggregatedCount ?? 1));
+    }
+    return Array.from(weights.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([industry]) => industry);
+  }
+  
+  /**
+   * 研发预算：超出运营储备（见 BankruptcyService.getOperatingReserve）的现金 × 研发偏好
+   * 现金接近无力偿债门槛时为 0，停止研发投入
+   */
+  private getResearchBudget(company: AICompanyState, currentTick: number, config: AICompanyConfig): number {
+    const reserve = bankruptcyService.getOperatingReserve(company.id, company.buildings, currentTick);
+    return Math.max(0, inventoryManager.getCash(company.id) - reserve) * config.rdPreference;
+  }
+  
+  /**
+   * 创建并评估研发项目（异步），预计成本超出研发预算时放弃
+   */
+  private async launchResearchProject(
+    company: AICompanyState,
+    concept: AIResearchConcept,
+    context: GameContext,
+    config: AICompanyConfig
+  ): Promise<void> {
+    const project = researchService.createConcept({
+      companyId: company.id,
+      name: concept.name,
+      description: concept.description,
+    });
+    
+    const result = await researchService.evaluateConcept(project.id, {
+      existingTechnologies: researchService.getTechnologiesByCompany(company.id).map(t => t.nameZh),
+      cash: this.getResearchBudget(company, context.currentTick, config) * this.RESEARCH_BUDGET_SHARE,
+      researchCapacity: company.buildings.length,
+    }, context.currentTick);
+    
+    // 评估期间公司可能已被清算、现金和tick已变化，按最新tick和现金重新计算预算
+    const currentTick = this.lastProcessedTick;
+    if (!this.companies.has(company.id)) {
+      researchService.cancelProject(project.id);
+      return;
+    }
+    if (!result.success || project.targetCost > this.getResearchBudget(company, currentTick, config)) {
+      researchService.cancelProject(project.id);
+      console.log(`[AIManager] ${company.name} 放弃研发「${concept.name}」: ${result.error ?? `预计成本 ${Math.floor(project.targetCost)} 过高`}`);
+      return;
+    }
+    
+    researchService.startResearch(project.id, currentTick);
+    console.log(`[AIManager] ${company.name} 启动研发「${concept.name}」, 预计成本=${Math.floor(project.targetCost)}`);
+    
+    this.asyncNewsQueue.push({
+      companyId: company.id,
+      headline: `${company.name}启动「${concept.name}」研发项目`,
+    });
+  }
+  
+  /**
+   * 从研发预算中为研发项目追加资金（不超过剩余所需）
+   */
+  private fundResearchProject(
+    company: AICompanyState,
+    project: ResearchProject,
+    context: GameContext,
+    config: AICompanyConfig
+  ): void {
+    if (project.status.toLowerCase() !== 'active') return;
+    
+    const remaining = project.targetCost - project.investedFunds;
+    const amount = Math.min(remaining, this.getResearchBudget(company, context.currentTick, config) * this.RESEARCH_FUNDING_SHARE);
+    if (amount <= 0) return;
+    
+    inventoryManager.deductCash(company.id, amount, context.currentTick, 'research');
+    researchService.investFunds(project.id, amount);
+    company.cash = inventoryManager.getCash(company.id);
+  }
+  
+  /**
+   * 通报AI公司研发成功的新技术（研发异步完成，进入下一轮的事件和新闻）
+   */
+  announceTechnology(companyId: string, technologyName: string, currentTick: number): void {
+    const company = this.companies.get(companyId);
+    if (!company) return;
+    
+    this.asyncEventQueue.push({
+      id: `event-${rng.nextId(9)}`,
+      tick: currentTick,
+      type: 'tech_breakthrough',
+      companyId: company.id,
+      companyName: company.name,
+      title: `${company.name}技术突破`,
+      description: `${company.name}研发出「${technologyName}」并取得专利，其工厂将获得技术加成；使用相关生产方式需要获得授权。`,
+      severity: 'major',
+    });
+    
+    this.asyncNewsQueue.push({
+      companyId: company.id,
+      headline: `🔬 ${company.name}发布新技术「${technologyName}」`,
+    });
   }
   
   /**
@@ -1037,7 +1413,7 @@ export class AICompanyManager {
   private selectGoalFromPersonality(company: AICompanyState, context: GameContext): AIGoal {
     switch (company.personality) {
       case AIPersonality.Monopolist:
-        if (Math.random() < 0.6) {
+        if (rng.next() < 0.6) {
           return {
             type: 'increase_market_share',
             priority: 10,
@@ -1091,6 +1467,11 @@ export class AICompanyManager {
     const goal = company.currentGoal;
     if (!goal) return null;
     
+    // 重整期内只做防守，不扩张、不借贷
+    if (bankruptcyService.isRestructuring(company.id)) {
+      return this.selectDefenseAction(company, context);
+    }
+    
     // 计算可用预算
     const availableBudget = company.cash * config.riskTolerance;
     
@@ -1098,11 +1479,14 @@ export class AICompanyManager {
     
     switch (goal.type) {
       case 'expand_production':
-        action = this.selectExpansionAction(company, context, availableBudget);
+        // 现金不足以扩张时考虑贷款
+        action = this.selectExpansionAction(company, context, availableBudget)
+          ?? this.selectFinancingAction(company, context, config);
         break;
         
       case 'increase_market_share':
-        action = this.selectMarketShareAction(company, context, availableBudget);
+        action = this.selectMarketShareAction(company, context, availableBudget)
+          ?? this.selectFinancingAction(company, context, config);
         break;
         
       case 'attack_competitor':
@@ -1132,6 +1516,36 @@ export class AICompanyManager {
     return action;
   }
   
+  /**
+   * 选择融资动作：想扩张但现金不足时向银行申请定期贷款
+   * 借款额按风险偏好取可借额度的一部分，保守或评级较差的公司不借
+   */
+  private selectFinancingAction(
+    company: AICompanyState,
+    context: GameContext,
+    config: AICompanyConfig
+  ): AIActionRecord | null {
+    if (config.riskTolerance < this.MIN_RISK_TOLERANCE_TO_BORROW) return null;
+    if (company.buildings.length >= this.MAX_BUILDINGS_PER_COMPANY) return null;
+    
+    const quote = bankingService.getQuote(company.id, context.currentTick);
+    if (CREDIT_RATINGS.indexOf(quote.rating) > CREDIT_RATINGS.indexOf(this.WORST_RATING_TO_BORROW)) {
+      return null;
+    }
+    
+    // 单笔贷款不超过现有现金，避免杠杆一次加满
+    const amount = Math.floor(Math.min(quote.borrowingCapacity * config.riskTolerance * 0.5, company.cash));
+    // 额度太小不值得借
+    if (amount < company.cash * 0.2) return null;
+    
+    return {
+      tick: context.currentTick,
+      type: 'take_loan',
+      description: `银行贷款${(amount / 10000).toFixed(0)}万用于扩张（评级${quote.rating}，年利率${quote.termRate.toFixed(1)}%）`,
+      cost: amount,
+    };
+  }
+  
   /**
    * 分析市场缺口 - 找出供应不足的商品及对应工厂（带缓存）
    */
@@ -1207,7 +1621,7 @@ export class AICompanyManager {
     
     // 【优化1】提高最低预算阈值，确保AI有足够资金扩张
     // 如果原始预算太低但公司现金充足，使用更高的预算
-    const config = AI_COMPANIES_CONFIG.find(c => c.id === company.id);
+    const config = difficultySettings.getAIConfig(company.id);
     let effectiveBudget = budget;
     
     if (config) {
@@ -1237,8 +1651,16 @@ export class AICompanyManager {
       return { building: b, realCost: costResult.totalCost };
     });
     
+    // 建成后的维护费和工资也要负担得起：扣除建设成本后，现金仍需覆盖现有的运营储备和新建筑的运营成本
+    const spareCash = company.cash - bankruptcyService.getOperatingReserve(company.id, company.buildings, context.currentTick);
+    const getRunningCost = (b: typeof BUILDINGS_DATA[number]): number => {
+      const method = b.productionSlots[0]?.methods[0];
+      const dailyWages = method ? laborMarket.estimateDailyWages(b.id, method) : 0;
+      return (b.maintenanceCost / TICKS_PER_MONTH + dailyWages) * this.EXPANSION_RUNNING_COST_TICKS;
+    };
+    
     const affordableBuildings = buildingsWithCosts
-      .filter(item => item.realCost <= effectiveBudget)
+      .filter(item => item.realCost <= effectiveBudget && item.realCost + getRunningCost(item.building) <= spareCash)
       .map(item => ({ ...item.building, _realCost: item.realCost }));
     
     if (affordableBuildings.length === 0) {
@@ -1276,7 +1698,7 @@ export class AICompanyManager {
       );
       
       if (strategicBuildings.length > 0) {
-        const selected = strategicBuildings[Math.floor(Math.random() * strategicBuildings.length)] as (typeof strategicBuildings[number] & { _realCost?: number }) | undefined;
+        const selected = strategicBuildings[rng.nextInt(strategicBuildings.length)] as (typeof strategicBuildings[number] & { _realCost?: number }) | undefined;
         if (selected) {
           const realCost = selected._realCost ?? selected.baseCost;
           return {
@@ -1349,7 +1771,7 @@ export class AICompanyManager {
     // 选择得分最高的建筑（有20%随机性避免所有AI都选同一个）
     const topCount = Math.max(1, Math.floor(scoredCandidates.length * 0.3));
     const topCandidates = scoredCandidates.slice(0, topCount);
-    const selectedItem = topCandidates[Math.floor(Math.random() * topCandidates.length)];
+    const selectedItem = topCandidates[rng.nextInt(topCandidates.length)];
     
     if (!selectedItem) return null;
     
@@ -1400,7 +1822,18 @@ export class AICompanyManager {
     budget: number
   ): AIActionRecord | null {
     // 只有高攻击性的公司才会主动攻击（概率检查）
-    if (Math.random() > config.aggressiveness) return null;
+    if (rng.next() > config.aggressiveness) return null;
+    
+    // 高薪挖角玩家公司的员工
+    if (context.playerCompanyId && rng.next() < this.POACH_PROBABILITY &&
+        laborMarket.getEmployeeCount(context.playerCompanyId) > 0) {
+      return {
+        tick: context.currentTick,
+        type: 'poach_employee',
+        description: '高薪挖角竞争对手员工',
+        targetId: context.playerCompanyId,
+      };
+    }
     
     // 分析玩家的依赖
     const playerDependencies = this.analyzePlayerDependencies(context);
@@ -1504,7 +1937,7 @@ export class AICompanyManager {
         break;
         
       case 'switch_method':
-        this.executeSwitchMethod(company, action);
+        this.executeSwitchMethod(company, action, context);
         break;
         
       case 'media_campaign':
@@ -1514,6 +1947,14 @@ export class AICompanyManager {
       case 'stockpile':
         this.executeStockpile(company, action, context);
         break;
+        
+      case 'take_loan':
+        this.executeTakeLoan(company, action, context);
+        break;
+        
+      case 'poach_employee':
+        this.executePoachEmployee(company, action, context);
+        break;
     }
     
     // 记录动作
@@ -1630,15 +2071,15 @@ export class AICompanyManager {
     const actualConstructionTime = hasAllMaterials ? constructionTime : Math.ceil(constructionTime * 1.5);
     
     const newBuilding: BuildingInstance = {
-      id: `${company.id}-building-${company.buildings.length}-${Date.now()}`,
+      id: `${company.id}-building-${company.buildings.length}-${rng.nextId(6)}`,
       definitionId: action.targetId,
       name: def.nameZh,
       position: {
         x: 500 + company.buildings.length * 150,
-        y: 100 + Math.random() * 200,
+        y: 100 + rng.next() * 200,
       },
-      efficiency: 0.9 + Math.random() * 0.1,
-      utilization: 0.8 + Math.random() * 0.2,
+      efficiency: 0.9 + rng.next() * 0.1,
+      utilization: 0.8 + rng.next() * 0.2,
       status: 'under_construction', // 建造中状态
       productionProgress: 0,
       currentMethodId: defaultMethodId,
@@ -1658,7 +2099,7 @@ export class AICompanyManager {
     
     // 生成竞争事件
     this.pendingEvents.push({
-      id: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: `event-${rng.nextId(9)}`,
       tick: context.currentTick,
       type: 'expansion',
       companyId: company.id,
@@ -1674,7 +2115,7 @@ export class AICompanyManager {
   /**
    * 执行切换生产方式
    */
-  private executeSwitchMethod(company: AICompanyState, action: AIActionRecord): void {
+  private executeSwitchMethod(company: AICompanyState, action: AIActionRecord, context: GameContext): void {
     if (!action.targetId) return;
     
     const building = company.buildings.find(b => b.id === action.targetId);
@@ -1686,14 +2127,11 @@ export class AICompanyManager {
     const slot = def.productionSlots[0];
     if (!slot || slot.methods.length < 2) return;
     
-    // 切换到下一个方法
-    const currentIndex = slot.methods.findIndex(m => m.id === building.currentMethodId);
-    const nextIndex = (currentIndex + 1) % slot.methods.length;
-    const nextMethod = slot.methods[nextIndex];
-    if (nextMethod) {
-      building.currentMethodId = nextMethod.id;
-    }
+    // 切换到扣除工资后利润更高的方法
+    const nextMethod = findMoreProfitableMethod(building, slot.methods, context.marketPrices);
+    if (!nextMethod) return;
     
+    building.currentMethodId = nextMethod.id;
     console.log(`[AIManager] ${company.name} 切换了 ${building.name} 的生产方式`);
   }
   
@@ -1718,6 +2156,82 @@ export class AICompanyManager {
     console.log(`[AIManager] ${company.name} 发起媒体攻势`);
   }
   
+  /**
+   * 执行贷款
+   */
+  private executeTakeLoan(
+    company: AICompanyState,
+    action: AIActionRecord,
+    context: GameContext
+  ): void {
+    if (!action.cost) return;
+    
+    const result = bankingService.takeTermLoan(company.id, action.cost, DEFAULT_LOAN_TERM, context.currentTick);
+    if (!result.success) {
+      console.log(`[AIManager] ${company.name} 贷款被拒: ${result.error}`);
+      return;
+    }
+    
+    this.pendingNews.push({
+      companyId: company.id,
+      headline: `${company.name}获得${(action.cost / 100_000_000).toFixed(1)}亿元银行贷款，扩张在即`,
+    });
+  }
+  
+  /**
+   * 执行挖角
+   * 挖角期间工资溢价优先招工，并带走目标公司一部分员工；签约奖金为一个月工资
+   */
+  private executePoachEmployee(
+    company: AICompanyState,
+    action: AIActionRecord,
+    context: GameContext
+  ): void {
+    if (!action.targetId) return;
+    
+    const result = laborMarket.poach(company.id, action.targetId, context.currentTick);
+    if (!result.success) {
+      console.log(`[AIManager] ${company.name} 挖角失败: ${result.error}`);
+      return;
+    }
+    
+    const workers = result.workers ?? 0;
+    const signingBonus = result.signingBonus ?? 0;
+    inventoryManager.deductCash(company.id, signingBonus, context.currentTick, 'poaching');
+    company.cash = inventoryManager.getCash(company.id);
+    action.cost = signingBonus;
+    
+    // 生成竞争事件
+    this.pendingEvents.push({
+      id: `event-${rng.nextId(9)}`,
+      tick: context.currentTick,
+      type: 'talent_poaching',
+      companyId: company.id,
+      companyName: company.name,
+      title: `${company.name}高薪挖角`,
+      description: `${company.name}以高出市场${Math.round(POACH_WAGE_PREMIUM * 100)}%的工资挖走约${workers}名员工，相关工厂需要时间重新招聘。`,
+      severity: 'moderate',
+    });
+    
+    this.pendingNews.push({
+      companyId: company.id,
+      headline: `${company.name}开出高薪抢人，行业用工竞争加剧`,
+    });
+    
+    if (action.targetId === context.playerCompanyId) {
+      this.adjustPlayerRelationship(
+        company.id,
+        -5,
+        10,
+        `${company.name}挖走约${workers}名员工`,
+        context.currentTick,
+        InteractionType.TalentPoaching
+      );
+    }
+    
+    console.log(`[AIManager] ${company.name} 挖角 ${action.targetId}，约 ${workers} 人`);
+  }
+  
   /**
    * 执行囤积
    */
@@ -1732,7 +2246,7 @@ export class AICompanyManager {
     
     // 生成竞争事件
     this.pendingEvents.push({
-      id: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: `event-${rng.nextId(9)}`,
       tick: context.currentTick,
       type: 'supply_block',
       companyId: company.id,
@@ -1757,8 +2271,6 @@ export class AICompanyManager {
    * 产量和消耗都会乘以聚合因子
    */
   private processCompanyProduction(company: AICompanyState, context: GameContext): void {
-    // 1 tick = 1 day, 1 month = 30 days = 30 ticks
-    const TICKS_PER_MONTH = 30;
     const inventory = inventoryManager.getInventory(company.id);
     if (!inventory) return;
     
@@ -1797,23 +2309,38 @@ export class AICompanyManager {
       // 只有 running 状态的建筑才能生产
       if (building.status !== 'running') continue;
       
+      // 当前生产方式（包括获得授权的专利生产方式）
       const slot = def.productionSlots[0];
-      const method = slot?.methods.find(m => m.id === building.currentMethodId) ?? slot?.methods[0];
+      const method = technologyEffectManager.resolveMethod(def.id, building.currentMethodId);
       if (!method) continue;
       
       // 获取聚合因子
       const aggregatedCount = building.aggregatedCount ?? 1;
       
-      // 扣除维护成本 × 聚合因子
-      const maintenanceCost = (def.maintenanceCost / TICKS_PER_MONTH) * aggregatedCount;
+      // 自有技术和事件效果（效率、产量、原料、运营成本）
+      const modifiers = technologyEffectManager.getBuildingModifiers(company.id, building.definitionId, def.category);
+      
+      // 扣除维护成本 × 聚合因子，以及工资
+      const maintenanceCost = (def.maintenanceCost / TICKS_PER_MONTH) * modifiers.costMultiplier * aggregatedCount
+        + laborMarket.getDailyWages(building.id);
       inventoryManager.deductCash(company.id, maintenanceCost, context.currentTick, 'maintenance');
       
-      // 检查是否有足够原料（需求量 × 聚合因子）
+      // 生产方式被事件禁止时停产，并换用未被禁止的生产方式
+      if (technologyEffectManager.isMethodBlocked(method.id)) {
+        const alternative = slot ? findNextAllowedMethod(slot.methods, method.id) : undefined;
+        if (alternative) {
+          building.currentMethodId = alternative.id;
+          building.productionProgress = 0;
+        }
+        continue;
+      }
+      
+      // 检查是否有足够原料（需求量 × 原料修饰符 × 聚合因子）
       let canProduce = true;
       for (const input of method.recipe.inputs) {
         const stock = inventory.stocks[input.goodsId];
         const available = stock ? stock.quantity - stock.reservedForProduction - stock.reservedForSale : 0;
-        const requiredAmount = input.amount * aggregatedCount;
+        const requiredAmount = input.amount * modifiers.inputMultiplier * aggregatedCount;
         if (available < requiredAmount) {
           canProduce = false;
           break;
@@ -1826,24 +2353,31 @@ export class AICompanyManager {
         continue;
       }
       
-      // 推进生产进度
-      building.productionProgress += building.efficiency * building.utilization;
+      // 推进生产进度（人手不足时按在岗比例减速）
+      building.productionProgress += building.efficiency * building.utilization * modifiers.efficiencyMultiplier * laborMarket.getStaffingRatio(building.id);
       
       // 完成生产周期
       if (building.productionProgress >= method.recipe.ticksRequired) {
         building.productionProgress -= method.recipe.ticksRequired;
         
-        // 消耗原料 × 聚合因子
+        // 消耗原料 × 原料修饰符 × 聚合因子
         for (const input of method.recipe.inputs) {
-          inventoryManager.consumeGoods(company.id, input.goodsId, input.amount * aggregatedCount, context.currentTick, 'production');
+          inventoryManager.consumeGoods(company.id, input.goodsId, input.amount * modifiers.inputMultiplier * aggregatedCount, context.currentTick, 'production');
         }
         
         // 产出成品 × 聚合因子
+        let producedUnits = 0;
         for (const output of method.recipe.outputs) {
           const price = context.marketPrices.get(output.goodsId) ?? getGoodsDefinition(output.goodsId)?.basePrice ?? 1000;
-          inventoryManager.addGoods(company.id, output.goodsId, output.amount * aggregatedCount, price, context.currentTick, 'production');
+          const amount = output.amount * modifiers.outputMultiplier * aggregatedCount;
+          inventoryManager.addGoods(company.id, output.goodsId, amount, price, context.currentTick, 'production');
+          producedUnits += amount;
         }
         
+        // 使用授权专利的生产方式按产量支付专利使用费；无权使用时记为侵权产量
+        patentLicensing.chargeRoyalty(company.id, method.id, producedUnits, context.currentTick);
+        patentLitigation.recordProduction(company.id, method.id, producedUnits, context.currentTick);
+        
         // 恢复利用率
         building.utilization = Math.min(1, building.utilization + 0.05);
       }
@@ -1855,26 +2389,7 @@ export class AICompanyManager {
       company.cash = latestInventory.cash;
     }
     
-    // 防止破产（AI公司获得救济）- 根据公司规模给予更多救济金
-    if (company.cash < 0) {
-      // 根据公司建筑数量和聚合因子计算救济金
-      // 建筑越多、规模越大的公司需要更多资金维持运营
-      let bailoutAmount = 100_000_000; // 基础1亿
-      
-      // 根据建筑数量增加（每个建筑额外2000万）
-      bailoutAmount += company.buildings.length * 20_000_000;
-      
-      // 根据聚合因子增加（大公司需要更多资金）
-      const maxAggregation = Math.max(1, ...company.buildings.map(b => b.aggregatedCount ?? 1));
-      bailoutAmount += (maxAggregation - 1) * 30_000_000; // 每级聚合额外3000万
-      
-      // 上限3亿
-      bailoutAmount = Math.min(bailoutAmount, 300_000_000);
-      
-      inventoryManager.addCash(company.id, bailoutAmount, context.currentTick, 'bailout');
-      company.cash = bailoutAmount;
-      console.log(`[AIManager] ${company.name} 获得救济金 ${(bailoutAmount / 1_000_000).toFixed(0)}M`);
-    }
+    // 现金不足时不再发放救济金，由 bankruptcyService 判定重整或清算
   }
   
   /**
@@ -1932,7 +2447,8 @@ export class AICompanyManager {
     trustChange: number,
     hostilityChange: number,
     reason: string,
-    tick: number
+    tick: number,
+    type: AIInteractionRecord['type'] = 'negotiation'
   ): void {
     const company = this.companies.get(companyId);
     if (!company) return;
@@ -1949,7 +2465,7 @@ export class AICompanyManager {
     
     company.relationshipWithPlayer.history.push({
       tick,
-      type: 'negotiation',
+      type,
       description: reason,
       outcome: trustChange > 0 ? 'positive' : trustChange < 0 ? 'negative' : 'neutral',
       trustChange,
@@ -1961,7 +2477,102 @@ export class AICompanyManager {
         company.relationshipWithPlayer.history.slice(-50);
     }
   }
+  
+  /**
+   * 导出AI公司状态（用于存档）
+   * 库存与现金由 inventoryManager 单独导出
+   */
+  exportState(): AICompanySnapshot[] {
+    return Array.from(this.companies.values()).map(company => {
+      const { marketShares, ...rest } = company;
+      return {
+        ...structuredClone(rest),
+        marketShares: Array.from(marketShares.entries()),
+      };
+    });
+  }
+  
+  /**
+   * 从存档恢复AI公司状态
+   * 不会重新注册库存，调用前需先恢复 inventoryManager
+   */
+  importState(snapshots: AICompanySnapshot[]): void {
+    this.companies.clear();
+    this.pendingEvents = [];
+    this.pendingNews = [];
+    this.asyncEventQueue = [];
+    this.asyncNewsQueue = [];
+    this.decisionThrottles.clear();
+    this.orderThrottles.clear();
+    this.marketAnalysisCache = null;
+    this.currentBatchIndex = 0;
+    
+    for (const snapshot of snapshots) {
+      this.companies.set(snapshot.id, {
+        ...structuredClone(snapshot),
+        marketShares: new Map(snapshot.marketShares),
+      });
+    }
+    
+    console.log(`[AIManager] 从存档恢复 ${this.companies.size} 家AI公司`);
+  }
 }
 
-// 导出单例
-export const aiCompanyManager = new AICompanyManager();
\ No newline at end of file
+/**
+ * 按顺序找下一个未被事件禁止的生产方式（不含当前方式）
+ */
+function findNextAllowedMethod(methods: ProductionMethodData[], currentMethodId: string): ProductionMethodData | undefined {
+  const currentIndex = methods.findIndex(m => m.id === currentMethodId);
+  for (let offset = 1; offset < methods.length; offset++) {
+    const method = methods[(currentIndex + offset + methods.length) % methods.length];
+    if (method && !technologyEffectManager.isMethodBlocked(method.id)) {
+      return method;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 生产方式每 tick 的毛利：产出价值 - 原料成本（按市场价，无报价时用基准价），再扣除工资
+ */
+function getMethodMargin(building: BuildingInstance, method: ProductionMethodData, marketPrices: Map<string, number>): number {
+  const valueOf = (goodsId: string, amount: number): number =>
+    (marketPrices.get(goodsId) ?? GOODS_DATA.find(g => g.id === goodsId)?.basePrice ?? 0) * amount;
+  const outputValue = method.recipe.outputs.reduce((sum, output) => sum + valueOf(output.goodsId, output.amount), 0);
+  const inputCost = method.recipe.inputs.reduce((sum, input) => sum + valueOf(input.goodsId, input.amount), 0);
+  const aggregatedCount = building.aggregatedCount ?? 1;
+  return (outputValue - inputCost) * aggregatedCount / Math.max(1, method.recipe.ticksRequired)
+    - laborMarket.estimateDailyWages(building.definitionId, method, aggregatedCount);
+}
+
+/**
+ * 找扣除工资后毛利高于当前方式的、未被事件禁止的生产方式（取毛利最高者）
+ */
+function findMoreProfitableMethod(
+  building: BuildingInstance,
+  methods: ProductionMethodData[],
+  marketPrices: Map<string, number>
+): ProductionMethodData | undefined {
+  const current = methods.find(m => m.id === building.currentMethodId);
+  let best: ProductionMethodData | undefined;
+  let bestMargin = current && !technologyEffectManager.isMethodBlocked(current.id)
+    ? getMethodMargin(building, current, marketPrices)
+    : -Infinity;
+  for (const method of methods) {
+    if (method.id === building.currentMethodId || technologyEffectManager.isMethodBlocked(method.id)) continue;
+    const margin = getMethodMargin(building, method, marketPrices);
+    if (margin > bestMargin) {
+      best = method;
+      bestMargin = margin;
+    }
+  }
+  return best;
+}
+
+/** AI公司存档数据（Map 字段转换为数组） */
+export type AICompanySnapshot = Omit<AICompanyState, 'marketShares'> & {
+  marketShares: [string, number][];
+};
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const aiCompanyManager = worldScoped('aiCompanyManager');
\ No newline at end of file
@@ -15,10 +15,14 @@ import type {
 import {
   StockOrderType as OrderType,
   StockOrderSide as OrderSide,
+  StockStatus,
   AI_COMPANIES_CONFIG,
 } from '@scc/shared';
 import { stockMarketService } from './stockMarket.js';
 import { inventoryManager } from './inventoryManager.js';
+import { takeoverService } from './takeoverService.js';
+import { rng } from './rng.js';
+import { worldScoped } from './worldContext.js';
 
 /**
  * AI交易策略类型
@@ -124,10 +128,14 @@ export class AIStockTradingService {
   /** 交易冷却时间的随机偏移（避免所有AI同时交易） */
   private tradingOffsets: Map<EntityId, number> = new Map();
   
-  constructor() {
-    // 为每个AI公司设置随机交易偏移
+  /**
+   * 初始化：为每个AI公司设置随机交易偏移
+   * 偏移取自游戏的种子随机数，需在种子设定后调用
+   */
+  initialize(): void {
+    this.lastTradeTick.clear();
     for (const config of AI_COMPANIES_CONFIG) {
-      this.tradingOffsets.set(config.id, Math.floor(Math.random() * 10));
+      this.tradingOffsets.set(config.id, rng.nextInt(10));
     }
   }
   
@@ -149,6 +157,11 @@ export class AIStockTradingService {
     const shouldLog = currentTick % 100 === 0;
     
     for (const config of AI_COMPANIES_CONFIG) {
+      // 未参与本局、已破产清算/被合并（退市）的公司和子公司不再独立交易
+      const ownStock = stocks.find(s => s.companyId === config.id);
+      if (!ownStock || ownStock.status === StockStatus.Delisted) continue;
+      if (takeoverService.isSubsidiary(config.id)) continue;
+      
       const strategy = getStrategyForPersonality(config.personality);
       const offset = this.tradingOffsets.get(config.id) ?? 0;
       
@@ -245,8 +258,8 @@ export class AIStockTradingService {
     
     // 遍历所有股票，评估交易机会
     for (const stock of stocks) {
-      // 不交易自己公司的股票
-      if (stock.companyId === companyId) continue;
+      // 不交易自己公司和已退市的股票
+      if (stock.companyId === companyId || stock.status === StockStatus.Delisted) continue;
       
       // 获取公司估值
       const valuation = stockMarketService.calculateValuation(stock.companyId);
@@ -296,7 +309,7 @@ export class AIStockTradingService {
     _totalAssets: Money
   ): AITradingDecision | null {
     // 随机因素（增加市场不确定性）
-    const randomFactor = Math.random();
+    const randomFactor = rng.next();
     
     // 提高交易意愿概率，让市场更活跃
     // 基础概率60% + 策略调整（最高90%）
@@ -409,7 +422,7 @@ export class AIStockTradingService {
       
       // 设置限价（比当前价高一点，确保能成交）
       // 提高溢价范围，更容易成交
-      limitPrice = Math.round(stock.currentPrice * (1 + 0.02 + Math.random() * 0.03));
+      limitPrice = Math.round(stock.currentPrice * (1 + 0.02 + rng.next() * 0.03));
     } else if (shouldSell) {
       // 卖出数量：持仓的一定比例
       const tradeRatio = strategy.maxTradeRatio * 2; // 增加交易比例
@@ -423,7 +436,7 @@ export class AIStockTradingService {
       
       // 设置限价（比当前价低一点，确保能成交）
       // 提高折价范围，更容易成交
-      limitPrice = Math.round(stock.currentPrice * (1 - 0.02 - Math.random() * 0.03));
+      limitPrice = Math.round(stock.currentPrice * (1 - 0.02 - rng.next() * 0.03));
     }
     
     // 降低最小交易量限制
@@ -447,14 +460,11 @@ export class AIStockTradingService {
    * 重置状态
    */
   reset(): void {
-    this.lastTradeTick.clear();
     // 重新设置随机偏移
-    for (const config of AI_COMPANIES_CONFIG) {
-      this.tradingOffsets.set(config.id, Math.floor(Math.random() * 10));
-    }
+    this.initialize();
     console.log('[AIStockTrading] Reset complete');
   }
 }
 
-// 单例导出
-export const aiStockTradingService = new AIStockTradingService();
\ No newline at end of file
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const aiStockTradingService = worldScoped('aiStockTradingService');
\ No newline at end of file
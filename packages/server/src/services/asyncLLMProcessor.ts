@@ -7,6 +7,7 @@
  * 3. 请求合并 - 相似请求可以合并处理
  * 4. 失败重试 - 自动重试失败的请求
  * 5. 结果缓存 - 避免重复请求
+ * 6. 输出校验统计 - 汇总 LLMService 结构化输出的校验失败和修复重试
  */
 
 import { LLMService, llmService } from './llm.js';
@@ -14,8 +15,10 @@ import type {
   ChatContext,
   MarketAnalysisRequest,
   StrategicAnalysisRequest,
-  StrategicPlan
+  StrategicPlan,
+  StructuredOutputEvent
 } from './llm.js';
+import type { LLMSchemaName, LLMValidationErrorKind } from './llmSchemas.js';
 
 /** 请求优先级 */
 export enum LLMPriority {
@@ -56,6 +59,18 @@ interface ProcessorConfig {
   cacheExpiry: number;         // 缓存过期时间(ms)
 }
 
+/** 单个输出规格的校验统计 */
+interface ValidationStats {
+  /** 首次即通过 */
+  valid: number;
+  /** 修复重试后通过 */
+  repaired: number;
+  /** 修复重试后仍失败（已回退） */
+  failed: number;
+  /** 最近一次校验错误 */
+  lastError: { kind: LLMValidationErrorKind; issues: string[]; at: number } | null;
+}
+
 /** 处理器统计 */
 interface ProcessorStats {
   totalRequests: number;
@@ -65,6 +80,11 @@ interface ProcessorStats {
   currentQueueSize: number;
   activeRequests: number;
   averageLatency: number;
+  /** 结构化输出校验失败（修复后仍失败）次数 */
+  validationErrors: number;
+  /** 修复重试后通过的次数 */
+  repairedResponses: number;
+  validationBySchema: Partial<Record<LLMSchemaName, ValidationStats>>;
 }
 
 /**
@@ -82,6 +102,9 @@ export class AsyncLLMProcessor {
     currentQueueSize: 0,
     activeRequests: 0,
     averageLatency: 0,
+    validationErrors: 0,
+    repairedResponses: 0,
+    validationBySchema: {},
   };
   private latencies: number[] = [];
   private processing = false;
@@ -97,6 +120,10 @@ export class AsyncLLMProcessor {
   constructor(private llm: LLMService = llmService) {
     // 定期清理过期缓存
     setInterval(() => this.cleanupCache(), 60000);
+    // 统计结构化输出校验结果（包括绕过队列的直接调用）
+    this.llm.on('structuredOutput', (event: StructuredOutputEvent) => {
+      this.recordValidation(event);
+    });
   }
 
   /**
@@ -320,6 +347,22 @@ export class AsyncLLMProcessor {
       this.latencies.reduce((a, b) => a + b, 0) / this.latencies.length;
   }
 
+  /**
+   * 记录结构化输出校验结果
+   */
+  private recordValidation(event: StructuredOutputEvent): void {
+    const stats = this.stats.validationBySchema[event.schema] ??= { valid: 0, repaired: 0, failed: 0, lastError: null };
+    stats[event.outcome]++;
+    if (event.kind) {
+      stats.lastError = { kind: event.kind, issues: event.issues, at: Date.now() };
+    }
+    if (event.outcome === 'repaired') {
+      this.stats.repairedResponses++;
+    } else if (event.outcome === 'failed') {
+      this.stats.validationErrors++;
+    }
+  }
+
   /**
    * 清理过期缓存
    */
@@ -336,7 +379,7 @@ export class AsyncLLMProcessor {
    * 获取处理器统计信息
    */
   getStats(): ProcessorStats {
-    return { ...this.stats };
+    return { ...this.stats, validationBySchema: structuredClone(this.stats.validationBySchema) };
   }
 
   /**
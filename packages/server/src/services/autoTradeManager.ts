@@ -15,6 +15,7 @@ import { economyManager } from './economyManager.js';
 import { inventoryManager } from './inventoryManager.js';
 import { priceDiscoveryService } from './priceDiscovery.js';
 import { marketOrderBook } from './marketOrderBook.js';
+import { worldScoped } from './worldContext.js';
 
 // ============ 类型定义 ============
 
@@ -128,7 +129,7 @@ function createDefaultGoodsConfig(goodsId: string): GoodsAutoTradeConfig {
   };
 }
 
-class AutoTradeManager {
+export class AutoTradeManager {
   /** 每个公司的配置 */
   private configs: Map<string, AutoTradeConfig> = new Map();
   
@@ -766,7 +767,43 @@ class AutoTradeManager {
     
     console.log(`[AutoTrade] ${companyId} 已根据建筑重新配置 ${Object.keys(config.goodsConfigs).length} 种商品`);
   }
+
+  /**
+   * 导出自动交易配置（用于存档）
+   * 挂单不随存档保存，读档后由下一轮处理重新提交
+   */
+  exportState(): AutoTradeSnapshot {
+    return {
+      configs: structuredClone(Array.from(this.configs.entries())),
+      lastProcessTick: Array.from(this.lastProcessTick.entries()),
+    };
+  }
+
+  /**
+   * 从存档恢复自动交易配置
+   */
+  importState(snapshot: AutoTradeSnapshot): void {
+    this.configs.clear();
+    this.activeOrders.clear();
+    this.lastProcessTick.clear();
+    this.recentActions.clear();
+
+    for (const [companyId, config] of structuredClone(snapshot.configs)) {
+      this.configs.set(companyId, config);
+      this.activeOrders.set(companyId, []);
+      this.recentActions.set(companyId, []);
+    }
+    for (const [companyId, tick] of snapshot.lastProcessTick) {
+      this.lastProcessTick.set(companyId, tick);
+    }
+  }
+}
+
+/** 自动交易存档数据 */
+export interface AutoTradeSnapshot {
+  configs: [string, AutoTradeConfig][];
+  lastProcessTick: [string, number][];
 }
 
-// 单例导出
-export const autoTradeManager = new AutoTradeManager();
\ No newline at end of file
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const autoTradeManager = worldScoped('autoTradeManager');
\ No newline at end of file
@@ -0,0 +1,657 @@
+/**
+ * Banking Service - 银行贷款与信用评级
+ * 玩家和AI公司可以申请定期贷款和授信额度，作为增发股票之外的融资方式
+ *
+ * - 利率 = 基准利率 + 信用评级利差（授信额度另加溢价），按年利率每 tick 计息（1 tick = 1天）
+ * - 每个还款周期收取利息，定期贷款同时按剩余期数等额偿还本金
+ * - 现金不足时记为逾期并罚息，连续逾期达到上限即违约，评级降为 D
+ * - 违约贷款不再按期收款，但继续按罚息后的利率计息，直到重整期内还清或清算时结清
+ * - 评级按杠杆率（负债 / 资产）和经营现金流定期调整，可借额度随评级变化
+ */
+
+import { EventEmitter } from 'events';
+import type { Company } from '@scc/shared';
+import { inventoryManager } from './inventoryManager.js';
+import { priceDiscoveryService } from './priceDiscovery.js';
+import { aiCompanyManager } from './aiCompanyManager.js';
+import { bankruptcyService } from './bankruptcyService.js';
+import { worldScoped } from './worldContext.js';
+
+/** 信用评级（AAA 最好，D 为违约） */
+export type CreditRating = Company['creditRating'];
+
+/** 评级从高到低 */
+export const CREDIT_RATINGS: readonly CreditRating[] = ['AAA', 'AA', 'A', 'BBB', 'BB', 'B', 'CCC', 'D'];
+
+/** 基准年利率（%） */
+const BASE_ANNUAL_RATE = 4;
+
+/** 各评级的利差（%） */
+const RATING_SPREAD: Record<CreditRating, number> = {
+  AAA: 0.5,
+  AA: 1,
+  A: 1.5,
+  BBB: 2.5,
+  BB: 4,
+  B: 6,
+  CCC: 10,
+  D: 20,
+};
+
+/** 各评级允许的最大负债 / 资产比例 */
+const MAX_LEVERAGE: Record<CreditRating, number> = {
+  AAA: 1.5,
+  AA: 1.2,
+  A: 1,
+  BBB: 0.8,
+  BB: 0.6,
+  B: 0.4,
+  CCC: 0.2,
+  D: 0,
+};
+
+/** 授信额度的利率溢价（%） */
+const CREDIT_LINE_PREMIUM = 1;
+
+/** 还款周期（tick） */
+const PAYMENT_INTERVAL = 30;
+
+/** 定期贷款默认期限（tick） */
+export const DEFAULT_LOAN_TERM = 360;
+
+/** 每次逾期增加的罚息（%） */
+const LATE_RATE_PENALTY = 2;
+
+/** 连续逾期次数上限，达到后违约 */
+const MAX_MISSED_PAYMENTS = 3;
+
+/** 违约记录影响评级的时长（tick），期间评级不高于 CCC */
+const DEFAULT_MEMORY_TICKS = 360;
+
+/** 评级周期内现金流出占资产的比例超过此值降一级 */
+const CASH_BURN_WARNING = 0.05;
+
+/** 评级周期内现金流出占资产的比例超过此值降两级 */
+const CASH_BURN_SEVERE = 0.15;
+
+/** 一年的 tick 数 */
+const TICKS_PER_YEAR = 365;
+
+/**
+ * 贷款
+ */
+export interface Loan {
+  id: string;
+  companyId: string;
+  type: 'term' | 'credit_line';
+  /** 定期贷款：原始本金；授信额度：额度上限 */
+  principal: number;
+  /** 未偿本金 */
+  balance: number;
+  /** 年利率（%），逾期后上浮 */
+  annualRate: number;
+  /** 应计未付利息 */
+  accruedInterest: number;
+  originatedTick: number;
+  nextPaymentTick: number;
+  /** 定期贷款到期 tick */
+  maturityTick?: number;
+  missedPayments: number;
+  /** written_off: 破产清算后未能收回的部分核销 */
+  status: 'active' | 'repaid' | 'defaulted' | 'written_off';
+}
+
+/**
+ * 公司信用档案
+ */
+export interface CreditProfile {
+  companyId: string;
+  rating: CreditRating;
+  /** 最近一次评级时的资产估值（现金 + 库存 + 建筑） */
+  totalAssets: number;
+  /** 最近一次评级时的杠杆率（负债 / 资产） */
+  leverage: number;
+  /** 最近一个评级周期的经营现金流（剔除借款和还款） */
+  operatingCashFlow: number;
+  lastRatedTick: number;
+  /** 最近一次违约的 tick */
+  defaultedAtTick?: number;
+  /** 本评级周期统计 */
+  periodStartCash: number;
+  periodBorrowed: number;
+  periodDebtService: number;
+}
+
+/**
+ * 银行事件（还款、逾期、违约、评级变化）
+ */
+export interface BankingEvent {
+  type: 'payment' | 'missed_payment' | 'default' | 'rating_change';
+  companyId: string;
+  loanId?: string;
+  amount?: number;
+  rating?: CreditRating;
+  tick: number;
+  message: string;
+}
+
+/**
+ * 银行操作结果
+ */
+export interface LoanResult {
+  success: boolean;
+  loan?: Loan;
+  error?: string;
+}
+
+/**
+ * 贷款报价
+ */
+export interface LoanQuote {
+  rating: CreditRating;
+  termRate: number;
+  creditLineRate: number;
+  /** 当前还可借的金额 */
+  borrowingCapacity: number;
+  totalDebt: number;
+}
+
+/**
+ * 银行存档数据
+ */
+export interface BankingSnapshotState {
+  loans: Loan[];
+  profiles: CreditProfile[];
+  loanCounter: number;
+}
+
+/**
+ * 银行服务
+ * 每个游戏世界一个实例
+ */
+export class BankingService extends EventEmitter {
+  private loans = new Map<string, Loan>();
+  private profiles = new Map<string, CreditProfile>();
+
+  /** 贷款编号计数器 */
+  private loanCounter = 0;
+
+  /**
+   * 申请定期贷款
+   * 按剩余期数等额还本，利息每期结清
+   */
+  takeTermLoan(companyId: string, amount: number, termTicks: number, currentTick: number): LoanResult {
+    const check = this.checkBorrowing(companyId, amount, currentTick);
+    if (check) {
+      return { success: false, error: check };
+    }
+
+    const profile = this.getProfile(companyId, currentTick);
+    const loan: Loan = {
+      id: `loan-${++this.loanCounter}`,
+      companyId,
+      type: 'term',
+      principal: amount,
+      balance: amount,
+      annualRate: BASE_ANNUAL_RATE + RATING_SPREAD[profile.rating],
+      accruedInterest: 0,
+      originatedTick: currentTick,
+      nextPaymentTick: currentTick + PAYMENT_INTERVAL,
+      maturityTick: currentTick + Math.max(PAYMENT_INTERVAL, termTicks),
+      missedPayments: 0,
+      status: 'active',
+    };
+
+    this.loans.set(loan.id, loan);
+    inventoryManager.addCash(companyId, amount, currentTick, 'loan');
+    profile.periodBorrowed += amount;
+    this.syncAICash(companyId);
+
+    console.log(`[Banking] ${companyId} took term loan ${loan.id}: ${amount} @ ${loan.annualRate}% (${profile.rating})`);
+    return { success: true, loan };
+  }
+
+  /**
+   * 开立授信额度（开立时不放款，按需提取）
+   */
+  openCreditLine(companyId: string, limit: number, currentTick: number): LoanResult {
+    const check = this.checkBorrowing(companyId, limit, currentTick);
+    if (check) {
+      return { success: false, error: check };
+    }
+
+    const profile = this.getProfile(companyId, currentTick);
+    const loan: Loan = {
+      id: `loan-${++this.loanCounter}`,
+      companyId,
+      type: 'credit_line',
+      principal: limit,
+      balance: 0,
+      annualRate: BASE_ANNUAL_RATE + RATING_SPREAD[profile.rating] + CREDIT_LINE_PREMIUM,
+      accruedInterest: 0,
+      originatedTick: currentTick,
+      nextPaymentTick: currentTick + PAYMENT_INTERVAL,
+      missedPayments: 0,
+      status: 'active',
+    };
+
+    this.loans.set(loan.id, loan);
+    console.log(`[Banking] ${companyId} opened credit line ${loan.id}: limit ${limit} @ ${loan.annualRate}%`);
+    return { success: true, loan };
+  }
+
+  /**
+   * 从授信额度中提款
+   */
+  drawCredit(loanId: string, companyId: string, amount: number, currentTick: number): LoanResult {
+    const loan = this.loans.get(loanId);
+    if (loan?.companyId !== companyId || loan.type !== 'credit_line') {
+      return { success: false, error: '授信额度不存在' };
+    }
+    if (loan.status !== 'active') {
+      return { success: false, error: '授信额度已关闭' };
+    }
+    if (loan.missedPayments > 0) {
+      return { success: false, error: '存在逾期，授信额度已冻结' };
+    }
+    if (amount <= 0 || loan.balance + amount > loan.principal) {
+      return { success: false, error: '超出授信额度' };
+    }
+
+    loan.balance += amount;
+    inventoryManager.addCash(companyId, amount, currentTick, 'credit_draw');
+    this.getProfile(companyId, currentTick).periodBorrowed += amount;
+    this.syncAICash(companyId);
+    return { success: true, loan };
+  }
+
+  /**
+   * 提前偿还（先还利息，再还本金）
+   */
+  repay(loanId: string, companyId: string, amount: number, currentTick: number): LoanResult {
+    const loan = this.loans.get(loanId);
+    if (loan?.companyId !== companyId) {
+      return { success: false, error: '贷款不存在' };
+    }
+    if (loan.status === 'repaid' || loan.status === 'written_off') {
+      return { success: false, error: '贷款已结清' };
+    }
+
+    const outstanding = loan.balance + loan.accruedInterest;
+    const payment = Math.min(amount, outstanding);
+    if (payment <= 0) {
+      return { success: false, error: '还款金额必须大于0' };
+    }
+
+    const result = inventoryManager.deductCash(companyId, payment, currentTick, 'loan_repayment');
+    if (!result.success) {
+      return { success: false, error: result.error ?? '现金不足' };
+    }
+
+    this.applyPayment(loan, payment);
+    this.getProfile(companyId, currentTick).periodDebtService += payment;
+    this.syncAICash(companyId);
+    return { success: true, loan };
+  }
+
+  /**
+   * 计息和收取到期还款（每tick调用）
+   */
+  processTick(currentTick: number): BankingEvent[] {
+    const events: BankingEvent[] = [];
+
+    for (const loan of this.loans.values()) {
+      if (loan.status !== 'active' && loan.status !== 'defaulted') continue;
+
+      loan.accruedInterest += loan.balance * loan.annualRate / 100 / TICKS_PER_YEAR;
+
+      if (loan.status === 'active' && currentTick >= loan.nextPaymentTick) {
+        const event = this.collectPayment(loan, currentTick);
+        if (event) events.push(event);
+      }
+    }
+
+    for (const event of events) {
+      this.emit('bankingEvent', event);
+    }
+    return events;
+  }
+
+  /**
+   * 收取一期还款
+   */
+  private collectPayment(loan: Loan, currentTick: number): BankingEvent | null {
+    const principalDue = loan.type === 'term' && loan.maturityTick !== undefined
+      ? loan.balance / (Math.max(0, Math.floor((loan.maturityTick - currentTick) / PAYMENT_INTERVAL)) + 1)
+      : 0;
+    const amountDue = loan.accruedInterest + principalDue;
+    loan.nextPaymentTick = currentTick + PAYMENT_INTERVAL;
+
+    if (amountDue <= 0) return null;
+
+    const profile = this.getProfile(loan.companyId, currentTick);
+    if (inventoryManager.getCash(loan.companyId) >= amountDue) {
+      inventoryManager.deductCash(loan.companyId, amountDue, currentTick, 'loan_repayment');
+      this.applyPayment(loan, amountDue);
+      loan.missedPayments = 0;
+      profile.periodDebtService += amountDue;
+      this.syncAICash(loan.companyId);
+
+      return {
+        type: 'payment',
+        companyId: loan.companyId,
+        loanId: loan.id,
+        amount: amountDue,
+        tick: currentTick,
+        message: `贷款 ${loan.id} 还款 ${Math.round(amountDue)}`,
+      };
+    }
+
+    loan.missedPayments++;
+    loan.annualRate += LATE_RATE_PENALTY;
+
+    if (loan.missedPayments < MAX_MISSED_PAYMENTS) {
+      return {
+        type: 'missed_payment',
+        companyId: loan.companyId,
+        loanId: loan.id,
+        amount: amountDue,
+        tick: currentTick,
+        message: `贷款 ${loan.id} 逾期（第 ${loan.missedPayments} 次），利率上调至 ${loan.annualRate.toFixed(1)}%`,
+      };
+    }
+
+    // 违约：该公司所有贷款一并违约，评级降为 D
+    for (const other of this.loans.values()) {
+      if (other.companyId === loan.companyId && other.status === 'active') {
+        other.status = 'defaulted';
+      }
+    }
+    profile.rating = 'D';
+    profile.defaultedAtTick = currentTick;
+    console.log(`[Banking] ${loan.companyId} defaulted on ${loan.id}`);
+
+    return {
+      type: 'default',
+      companyId: loan.companyId,
+      loanId: loan.id,
+      amount: loan.balance + loan.accruedInterest,
+      rating: 'D',
+      tick: currentTick,
+      message: `贷款 ${loan.id} 连续逾期 ${MAX_MISSED_PAYMENTS} 次，已违约`,
+    };
+  }
+
+  /**
+   * 还款冲抵：先利息后本金
+   */
+  private applyPayment(loan: Loan, payment: number): void {
+    const interestPart = Math.min(payment, loan.accruedInterest);
+    loan.accruedInterest -= interestPart;
+    loan.balance = Math.max(0, loan.balance - (payment - interestPart));
+
+    // 授信额度在正常状态下可以还清后继续使用，违约后还清即结清
+    if ((loan.type === 'term' || loan.status === 'defaulted') && loan.balance < 0.01 && loan.accruedInterest < 0.01) {
+      loan.balance = 0;
+      loan.accruedInterest = 0;
+      loan.status = 'repaid';
+    }
+  }
+
+  /**
+   * 破产清算：用公司剩余现金按顺序偿还贷款，未能收回的部分核销
+   * @returns 收回金额和核销金额
+   */
+  settleLiquidation(companyId: string, currentTick: number): { recovered: number; writtenOff: number } {
+    let recovered = 0;
+    let writtenOff = 0;
+
+    for (const loan of this.getLoans(companyId)) {
+      if (loan.status === 'repaid' || loan.status === 'written_off') continue;
+
+      const outstanding = loan.balance + loan.accruedInterest;
+      const payment = Math.min(outstanding, Math.max(0, inventoryManager.getCash(companyId)));
+      if (payment > 0) {
+        inventoryManager.deductCash(companyId, payment, currentTick, 'liquidation_repayment');
+        recovered += payment;
+      }
+
+      writtenOff += outstanding - payment;
+      loan.balance = 0;
+      loan.accruedInterest = 0;
+      loan.status = payment >= outstanding ? 'repaid' : 'written_off';
+    }
+
+    this.syncAICash(companyId);
+    console.log(`[Banking] ${companyId} liquidation settled: recovered ${Math.round(recovered)}, written off ${Math.round(writtenOff)}`);
+    return { recovered, writtenOff };
+  }
+
+  /**
+   * 吸收合并：被合并方的未结清贷款由收购方承接，被合并方的信用档案作废
+   */
+  assumeLoans(companyId: string, acquirerId: string): number {
+    let assumed = 0;
+    for (const loan of this.getLoans(companyId)) {
+      if (loan.status === 'repaid' || loan.status === 'written_off') continue;
+      loan.companyId = acquirerId;
+      assumed++;
+    }
+    this.profiles.delete(companyId);
+    return assumed;
+  }
+
+  /**
+   * 重新评级（低频调用）
+   * @param buildingValues 公司ID -> 建筑估值（由 GameLoop 按当前建造成本计算）
+   */
+  updateRatings(currentTick: number, buildingValues: Map<string, number>): BankingEvent[] {
+    const events: BankingEvent[] = [];
+    const companyIds = new Set([...buildingValues.keys(), ...this.profiles.keys()]);
+
+    for (const companyId of companyIds) {
+      if (!inventoryManager.getInventory(companyId)) continue;
+
+      const profile = this.getProfile(companyId, currentTick);
+      const previous = profile.rating;
+      const cash = inventoryManager.getCash(companyId);
+
+      profile.totalAssets = Math.max(0, cash) + this.getInventoryValue(companyId) + (buildingValues.get(companyId) ?? 0);
+      profile.leverage = this.getTotalDebt(companyId) / Math.max(1, profile.totalAssets);
+      profile.operatingCashFlow = cash - profile.periodStartCash - profile.periodBorrowed + profile.periodDebtService;
+      profile.rating = this.calculateRating(profile, currentTick);
+      profile.lastRatedTick = currentTick;
+      profile.periodStartCash = cash;
+      profile.periodBorrowed = 0;
+      profile.periodDebtService = 0;
+
+      if (profile.rating !== previous) {
+        events.push({
+          type: 'rating_change',
+          companyId,
+          rating: profile.rating,
+          tick: currentTick,
+          message: `${companyId} 信用评级 ${previous} → ${profile.rating}`,
+        });
+      }
+    }
+
+    for (const event of events) {
+      this.emit('bankingEvent', event);
+    }
+    return events;
+  }
+
+  /**
+   * 评级：杠杆越高、现金流越差、逾期越多，评级越低
+   */
+  private calculateRating(profile: CreditProfile, currentTick: number): CreditRating {
+    const { companyId, leverage, operatingCashFlow, totalAssets } = profile;
+
+    if (this.getLoans(companyId).some(loan => loan.status === 'defaulted')) {
+      return 'D';
+    }
+
+    let notches = leverage < 0.1 ? 0 : leverage < 0.25 ? 1 : leverage < 0.5 ? 2 : leverage < 0.75 ? 3 : leverage < 1 ? 4 : 5;
+    // 现金流出占资产比例较大时降级（小幅波动不影响评级）
+    const burnRatio = -operatingCashFlow / Math.max(1, totalAssets);
+    notches += burnRatio > CASH_BURN_SEVERE ? 2 : burnRatio > CASH_BURN_WARNING ? 1 : 0;
+    notches += Math.min(2, this.getLoans(companyId).filter(loan => loan.missedPayments > 0).length);
+
+    // 违约记录期内评级不高于 CCC
+    if (profile.defaultedAtTick !== undefined && currentTick - profile.defaultedAtTick < DEFAULT_MEMORY_TICKS) {
+      notches = Math.max(notches, CREDIT_RATINGS.indexOf('CCC'));
+    }
+
+    return CREDIT_RATINGS[Math.min(notches, CREDIT_RATINGS.indexOf('CCC'))] ?? 'CCC';
+  }
+
+  /**
+   * 检查能否借款
+   * @returns 拒绝原因，可借时返回 null
+   */
+  private checkBorrowing(companyId: string, amount: number, currentTick: number): string | null {
+    if (!inventoryManager.getInventory(companyId)) {
+      return '公司不存在';
+    }
+    if (amount <= 0) {
+      return '金额必须大于0';
+    }
+
+    const profile = this.getProfile(companyId, currentTick);
+    if (profile.rating === 'D') {
+      return '信用评级为 D，银行拒绝放款';
+    }
+    if (bankruptcyService.isRestructuring(companyId)) {
+      return '公司处于破产重整期，银行拒绝放款';
+    }
+    if (amount > this.getBorrowingCapacity(companyId, currentTick)) {
+      return `超出可借额度（评级 ${profile.rating}）`;
+    }
+    return null;
+  }
+
+  /**
+   * 获取信用档案，不存在时按现金和库存初评
+   */
+  getProfile(companyId: string, currentTick: number): CreditProfile {
+    let profile = this.profiles.get(companyId);
+    if (!profile) {
+      const cash = inventoryManager.getCash(companyId);
+      const totalAssets = Math.max(0, cash) + this.getInventoryValue(companyId);
+      profile = {
+        companyId,
+        rating: 'BBB',
+        totalAssets,
+        leverage: 0,
+        operatingCashFlow: 0,
+        lastRatedTick: currentTick,
+        periodStartCash: cash,
+        periodBorrowed: 0,
+        periodDebtService: 0,
+      };
+      profile.rating = this.calculateRating(profile, currentTick);
+      this.profiles.set(companyId, profile);
+    }
+    return profile;
+  }
+
+  /**
+   * 当前还可借的金额（已开立授信额度的未用部分计入负债）
+   */
+  getBorrowingCapacity(companyId: string, currentTick: number): number {
+    const profile = this.getProfile(companyId, currentTick);
+    const committed = this.getLoans(companyId)
+      .filter(loan => loan.status !== 'repaid' && loan.status !== 'written_off')
+      .reduce((sum, loan) => sum + (loan.type === 'credit_line' ? Math.max(loan.principal, loan.balance) : loan.balance), 0);
+    return Math.max(0, profile.totalAssets * MAX_LEVERAGE[profile.rating] - committed);
+  }
+
+  /**
+   * 贷款报价
+   */
+  getQuote(companyId: string, currentTick: number): LoanQuote {
+    const profile = this.getProfile(companyId, currentTick);
+    return {
+      rating: profile.rating,
+      termRate: BASE_ANNUAL_RATE + RATING_SPREAD[profile.rating],
+      creditLineRate: BASE_ANNUAL_RATE + RATING_SPREAD[profile.rating] + CREDIT_LINE_PREMIUM,
+      borrowingCapacity: this.getBorrowingCapacity(companyId, currentTick),
+      totalDebt: this.getTotalDebt(companyId),
+    };
+  }
+
+  /**
+   * 公司总负债（未偿本金 + 应计利息）
+   */
+  getTotalDebt(companyId: string): number {
+    return this.getLoans(companyId)
+      .filter(loan => loan.status !== 'repaid' && loan.status !== 'written_off')
+      .reduce((sum, loan) => sum + loan.balance + loan.accruedInterest, 0);
+  }
+
+  /**
+   * 未来一段时间内应付的贷款本息（按当前利率和还款计划估算）
+   * 违约贷款按全部未偿本息计算
+   */
+  getScheduledDebtService(companyId: string, currentTick: number, ticks: number): number {
+    return this.getLoans(companyId)
+      .filter(loan => loan.status === 'active' || loan.status === 'defaulted')
+      .reduce((sum, loan) => {
+        const interest = loan.accruedInterest + loan.balance * loan.annualRate / 100 / TICKS_PER_YEAR * ticks;
+        let principal = 0;
+        if (loan.status === 'defaulted') {
+          principal = loan.balance;
+        } else if (loan.type === 'term' && loan.maturityTick !== undefined) {
+          principal = loan.balance * Math.min(1, ticks / Math.max(1, loan.maturityTick - currentTick));
+        }
+        return sum + interest + principal;
+      }, 0);
+  }
+
+  getLoans(companyId?: string): Loan[] {
+    return Array.from(this.loans.values()).filter(loan => !companyId || loan.companyId === companyId);
+  }
+
+  getLoan(loanId: string): Loan | undefined {
+    return this.loans.get(loanId);
+  }
+
+  private getInventoryValue(companyId: string): number {
+    return inventoryManager.getInventorySnapshot(companyId, priceDiscoveryService.getAllPrices())?.totalValue ?? 0;
+  }
+
+  /**
+   * 同步AI公司现金
+   */
+  private syncAICash(companyId: string): void {
+    const company = aiCompanyManager.getCompany(companyId);
+    if (company) {
+      company.cash = inventoryManager.getCash(companyId);
+    }
+  }
+
+  /**
+   * 导出银行状态（用于存档）
+   */
+  exportState(): BankingSnapshotState {
+    return {
+      loans: Array.from(this.loans.values()).map(loan => ({ ...loan })),
+      profiles: Array.from(this.profiles.values()).map(profile => ({ ...profile })),
+      loanCounter: this.loanCounter,
+    };
+  }
+
+  /**
+   * 从存档恢复银行状态
+   */
+  importState(state: BankingSnapshotState): void {
+    this.loans = new Map(state.loans.map(loan => [loan.id, { ...loan }]));
+    this.profiles = new Map(state.profiles.map(profile => [profile.companyId, { ...profile }]));
+    this.loanCounter = state.loanCounter;
+    console.log(`[Banking] Restored ${this.loans.size} loans, ${this.profiles.size} credit profiles`);
+  }
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const bankingService = worldScoped('bankingService');
@@ -0,0 +1,588 @@
+/**
+ * Bankruptcy Service - 破产重整与清算
+ * 处理资不抵债的玩家和AI公司
+ *
+ * - 偿付能力检查：贷款违约，或现金不足以支付一个月的建筑维护费，即判定为无力偿债
+ * - 无力偿债后进入重整期：不能借款，AI只做防守；重整期内自动用现金偿还违约贷款，恢复偿付能力即退出重整
+ * - 重整期内AI公司变卖资产自救：每次检查拍卖一座维护费最高的建筑，流拍则停工，不再产生维护费和工资
+ * - 重整期结束仍未恢复时按净资产（现金 + 建筑拍卖估值 - 负债）判断：净资产足以覆盖运营门槛的只是暂时缺少现金，
+ *   延长重整期；资不抵债才清算：建筑和库存拍卖给其他公司，所得偿还银行贷款（不足部分核销），
+ *   合同终止，股票退市、股东权益清零，母子公司关系解除；AI公司退出市场，玩家破产时游戏暂停（见 GameLoop）
+ * - 难度预设关闭破产时（沙盒）跳过玩家
+ */
+
+import { EventEmitter } from 'events';
+import {
+  BUILDINGS_DATA,
+  GOODS_DATA,
+  calculateConstructionCost,
+  getBuilding,
+} from '@scc/shared';
+import type { BuildingInstance, GameState } from './gameLoop.js';
+import { inventoryManager } from './inventoryManager.js';
+import { marketOrderBook } from './marketOrderBook.js';
+import { aiCompanyManager } from './aiCompanyManager.js';
+import { bankingService } from './bankingService.js';
+import { contractService } from './contractService.js';
+import { stockMarketService } from './stockMarket.js';
+import { takeoverService } from './takeoverService.js';
+import { difficultySettings } from './difficulty.js';
+import { laborMarket } from './laborMarket.js';
+import { rng } from './rng.js';
+import { worldScoped } from './worldContext.js';
+
+/** 重整宽限期（tick） */
+const RESTRUCTURING_GRACE_TICKS = 90;
+
+/** 净资产足以覆盖债务时重整期最多延长的次数，之后仍无力偿债则清算 */
+const MAX_RESTRUCTURING_EXTENSIONS = 2;
+
+/** 无建筑公司的最低运营现金 */
+const MIN_OPERATING_CASH = 1_000_000;
+
+/** 建筑维护费按月计，1 tick = 1天 */
+const TICKS_PER_MONTH = 30;
+
+/** 建筑拍卖起拍价 = 当前建造成本 × 此折扣 */
+const BUILDING_RESERVE_RATIO = 0.4;
+
+/** 在建建筑额外折价 */
+const UNFINISHED_BUILDING_DISCOUNT = 0.5;
+
+/** 库存拍卖价 = 市价 × 此折扣 */
+const INVENTORY_AUCTION_RATIO = 0.6;
+
+/** 竞拍方单笔出价不超过其现金的比例 */
+const MAX_BID_CASH_RATIO = 0.5;
+
+/** 保留的拍卖记录数 */
+const MAX_AUCTION_RECORDS = 200;
+
+/**
+ * 破产案件
+ */
+export interface BankruptcyCase {
+  companyId: string;
+  companyName: string;
+  isPlayer: boolean;
+  status: 'restructuring' | 'recovered' | 'liquidated';
+  reason: 'loan_default' | 'cash_shortfall';
+  insolventSinceTick: number;
+  graceEndsTick: number;
+  /** 重整期已延长次数（延长后玩家也被强制变卖资产） */
+  extensions: number;
+  resolvedTick?: number;
+  /** 清算所得（拍卖收入） */
+  auctionProceeds?: number;
+  /** 银行收回 / 核销金额 */
+  debtRecovered?: number;
+  debtWrittenOff?: number;
+}
+
+/**
+ * 拍卖成交记录
+ */
+export interface AuctionRecord {
+  tick: number;
+  sellerId: string;
+  assetType: 'building' | 'goods';
+  /** 建筑定义ID 或 商品ID */
+  assetId: string;
+  assetName: string;
+  quantity: number;
+  /** 成交价，流拍时为0 */
+  price: number;
+  /** 买方，流拍时为 null */
+  buyerId: string | null;
+}
+
+/**
+ * 破产事件
+ */
+export interface BankruptcyEvent {
+  type: 'insolvent' | 'extended' | 'recovered' | 'liquidated';
+  companyId: string;
+  companyName: string;
+  tick: number;
+  message: string;
+  /** 清算事件：拍卖成交记录 */
+  auctions?: AuctionRecord[];
+}
+
+/**
+ * 破产存档数据
+ */
+export interface BankruptcySnapshotState {
+  cases: BankruptcyCase[];
+  auctions: AuctionRecord[];
+}
+
+/**
+ * 破产服务
+ * 每个游戏世界一个实例
+ */
+export class BankruptcyService extends EventEmitter {
+  private cases = new Map<string, BankruptcyCase>();
+  private auctions: AuctionRecord[] = [];
+
+  /**
+   * 检查所有公司的偿付能力，推进重整和清算
+   */
+  processTick(game: GameState, currentTick: number): BankruptcyEvent[] {
+    const events: BankruptcyEvent[] = [];
+    const playerName = inventoryManager.getInventory(game.playerCompanyId)?.companyName ?? '玩家公司';
+    const marketPrices = toPriceRecord(game);
+
+    const companies: { id: string; name: string; buildings: BuildingInstance[]; isPlayer: boolean }[] = [
+      { id: game.playerCompanyId, name: playerName, buildings: game.buildings, isPlayer: true },
+      ...Array.from(aiCompanyManager.getCompanies().values(), company => ({
+        id: company.id,
+        name: company.name,
+        buildings: company.buildings,
+        isPlayer: false,
+      })),
+    ];
+
+    for (const company of companies) {
+      // 沙盒难度下玩家不会破产
+      if (company.isPlayer && !difficultySettings.getPreset().bankruptcyEnabled) continue;
+
+      const existing = this.cases.get(company.id);
+      if (existing?.status === 'liquidated') continue;
+
+      if (existing?.status === 'restructuring') {
+        // AI 整个重整期都在变卖资产，玩家在重整期延长后被强制变卖
+        if (!company.isPlayer || existing.extensions > 0) {
+          this.divest(company.id, company.buildings, company.isPlayer, marketPrices, currentTick);
+        }
+        this.repayDefaultedLoans(company.id, currentTick);
+      }
+
+      const reason = this.assessSolvency(company.id, company.buildings);
+
+      if (existing?.status === 'restructuring') {
+        if (!reason) {
+          existing.status = 'recovered';
+          existing.resolvedTick = currentTick;
+          if (!company.isPlayer) {
+            this.resumeIdledBuildings(company.buildings);
+          }
+          events.push(this.createEvent('recovered', existing, currentTick, `${company.name} 恢复偿付能力，结束破产重整`));
+        } else if (currentTick >= existing.graceEndsTick) {
+          if (existing.extensions < MAX_RESTRUCTURING_EXTENSIONS
+              && this.getNetAssets(company.id, company.buildings, marketPrices) >= getMinimumOperatingCash(company.buildings)) {
+            existing.extensions++;
+            existing.graceEndsTick = currentTick + RESTRUCTURING_GRACE_TICKS;
+            console.log(`[Bankruptcy] ${company.name} 净资产足以覆盖债务，重整期第 ${existing.extensions} 次延长至 tick ${existing.graceEndsTick}`);
+            events.push(this.createEvent('extended', existing, currentTick,
+              `${company.name} 净资产足以覆盖债务，破产重整期延长 ${RESTRUCTURING_GRACE_TICKS} 天，期间强制变卖资产`));
+          } else {
+            events.push(this.liquidate(game, existing, company.buildings, currentTick));
+          }
+        }
+        continue;
+      }
+
+      if (reason) {
+        const bankruptcyCase: BankruptcyCase = {
+          companyId: company.id,
+          companyName: company.name,
+          isPlayer: company.isPlayer,
+          status: 'restructuring',
+          reason,
+          insolventSinceTick: currentTick,
+          graceEndsTick: currentTick + RESTRUCTURING_GRACE_TICKS,
+          extensions: 0,
+        };
+        this.cases.set(company.id, bankruptcyCase);
+        const why = reason === 'loan_default' ? '贷款违约' : '现金无法覆盖运营成本';
+        events.push(this.createEvent('insolvent', bankruptcyCase, currentTick,
+          `${company.name} 无力偿债（${why}），进入 ${RESTRUCTURING_GRACE_TICKS} 天破产重整期`));
+      }
+    }
+
+    for (const event of events) {
+      this.emit('bankruptcyEvent', event);
+    }
+    return events;
+  }
+
+  /**
+   * 偿付能力检查
+   * @returns 无力偿债的原因，有偿付能力时返回 null
+   */
+  private assessSolvency(companyId: string, buildings: BuildingInstance[]): BankruptcyCase['reason'] | null {
+    if (bankingService.getLoans(companyId).some(loan => loan.status === 'defaulted')) {
+      return 'loan_default';
+    }
+
+    if (inventoryManager.getCash(companyId) < getMinimumOperatingCash(buildings)) {
+      return 'cash_shortfall';
+    }
+    return null;
+  }
+
+  /**
+   * 保持偿付能力所需的现金：无力偿债门槛，加上重整宽限期内预计的建筑维护费、工资和贷款本息
+   * 研发等可选支出只能动用超出这部分的现金
+   */
+  getOperatingReserve(companyId: string, buildings: BuildingInstance[], currentTick: number): number {
+    const dailyCosts = buildings.reduce((sum, building) => {
+      const def = BUILDINGS_DATA.find(b => b.id === building.definitionId);
+      return sum + (def?.maintenanceCost ?? 0) / TICKS_PER_MONTH * (building.aggregatedCount ?? 1)
+        + laborMarket.getDailyWages(building.id);
+    }, 0);
+
+    return getMinimumOperatingCash(buildings)
+      + dailyCosts * RESTRUCTURING_GRACE_TICKS
+      + bankingService.getScheduledDebtService(companyId, currentTick, RESTRUCTURING_GRACE_TICKS);
+  }
+
+  /**
+   * 净资产：现金 + 建筑拍卖估值（起拍价） - 银行负债
+   */
+  getNetAssets(companyId: string, buildings: BuildingInstance[], marketPrices: Record<string, number>): number {
+    const buildingValue = buildings.reduce((sum, building) => sum + getReservePrice(building, marketPrices), 0);
+    return inventoryManager.getCash(companyId) + buildingValue - bankingService.getTotalDebt(companyId);
+  }
+
+  /**
+   * 重整期内变卖资产：现金不足以偿还违约贷款和维持运营时，拍卖维护费最高的一座建筑，
+   * AI 公司流拍时让维护费最高的运行中建筑停工（玩家的建筑不强制停工）
+   */
+  private divest(
+    companyId: string,
+    buildings: BuildingInstance[],
+    isPlayer: boolean,
+    marketPrices: Record<string, number>,
+    currentTick: number
+  ): void {
+    const defaultedDebt = bankingService.getLoans(companyId)
+      .filter(loan => loan.status === 'defaulted')
+      .reduce((sum, loan) => sum + loan.balance + loan.accruedInterest, 0);
+    if (inventoryManager.getCash(companyId) >= getMinimumOperatingCash(buildings) + defaultedDebt) return;
+
+    const byMaintenance = [...buildings].sort((a, b) => getMonthlyMaintenance([b]) - getMonthlyMaintenance([a]));
+    const building = byMaintenance[0];
+    if (!building) return;
+
+    const record = this.auctionBuilding(companyId, building, marketPrices, currentTick);
+    if (record.buyerId) {
+      if (isPlayer) {
+        buildings.splice(buildings.indexOf(building), 1);
+      } else {
+        aiCompanyManager.removeBuilding(companyId, building.id);
+      }
+      this.recordAuctions([record]);
+      console.log(`[Bankruptcy] ${companyId} 重整期变卖 ${building.name}，所得 ${Math.round(record.price)}`);
+      return;
+    }
+    if (isPlayer) return;
+
+    const running = byMaintenance.find(b => b.status === 'running');
+    if (running) {
+      running.status = 'paused';
+      console.log(`[Bankruptcy] ${companyId} 重整期停工 ${running.name}`);
+    }
+  }
+
+  /**
+   * 结束重整后恢复变卖资产时停工的建筑
+   */
+  private resumeIdledBuildings(buildings: BuildingInstance[]): void {
+    for (const building of buildings) {
+      if (building.status === 'paused') {
+        building.status = 'running';
+      }
+    }
+  }
+
+  /**
+   * 重整期内用现金偿还违约贷款
+   */
+  private repayDefaultedLoans(companyId: string, currentTick: number): void {
+    for (const loan of bankingService.getLoans(companyId)) {
+      if (loan.status !== 'defaulted') continue;
+
+      const outstanding = loan.balance + loan.accruedInterest;
+      if (inventoryManager.getCash(companyId) >= outstanding) {
+        bankingService.repay(loan.id, companyId, outstanding, currentTick);
+      }
+    }
+  }
+
+  /**
+   * 清算：拍卖资产、偿还债务、终止合同、退市
+   */
+  private liquidate(
+    game: GameState,
+    bankruptcyCase: BankruptcyCase,
+    buildings: BuildingInstance[],
+    currentTick: number
+  ): BankruptcyEvent {
+    const { companyId } = bankruptcyCase;
+    const marketPrices = toPriceRecord(game);
+
+    // 撤销商品市场挂单，终止合同
+    for (const order of marketOrderBook.getCompanyActiveOrders(companyId)) {
+      marketOrderBook.cancelOrder(order.id, currentTick);
+    }
+    contractService.terminateForBankruptcy(companyId, currentTick);
+
+    const records: AuctionRecord[] = [];
+    for (const building of buildings) {
+      records.push(this.auctionBuilding(companyId, building, marketPrices, currentTick));
+    }
+    for (const [goodsId, quantity] of inventoryManager.clearAllGoods(companyId, currentTick)) {
+      records.push(this.auctionGoods(companyId, goodsId, quantity, game.marketPrices.get(goodsId) ?? 0, currentTick));
+    }
+
+    const proceeds = records.reduce((sum, record) => sum + record.price, 0);
+    const { recovered, writtenOff } = bankingService.settleLiquidation(companyId, currentTick);
+
+    // 剩余资金用于清算费用，股东权益清零
+    const residual = inventoryManager.getCash(companyId);
+    if (residual > 0) {
+      inventoryManager.deductCash(companyId, residual, currentTick, 'liquidation');
+    }
+    stockMarketService.delistStock(companyId, currentTick);
+    takeoverService.detach(companyId);
+
+    if (bankruptcyCase.isPlayer) {
+      game.buildings = [];
+      game.playerCash = 0;
+    } else {
+      aiCompanyManager.removeCompany(companyId);
+    }
+
+    bankruptcyCase.status = 'liquidated';
+    bankruptcyCase.resolvedTick = currentTick;
+    bankruptcyCase.auctionProceeds = proceeds;
+    bankruptcyCase.debtRecovered = recovered;
+    bankruptcyCase.debtWrittenOff = writtenOff;
+
+    this.recordAuctions(records);
+
+    console.log(`[Bankruptcy] ${bankruptcyCase.companyName} liquidated: ${records.length} lots, proceeds ${Math.round(proceeds)}, written off ${Math.round(writtenOff)}`);
+
+    return {
+      ...this.createEvent('liquidated', bankruptcyCase, currentTick,
+        `${bankruptcyCase.companyName} 破产清算：拍卖所得 ${(proceeds / 10000).toFixed(0)} 万，股票退市`),
+      auctions: records,
+    };
+  }
+
+  /**
+   * 拍卖建筑：有资格的AI公司按风险偏好出价，价高者得
+   */
+  private auctionBuilding(
+    sellerId: string,
+    building: BuildingInstance,
+    marketPrices: Record<string, number>,
+    currentTick: number
+  ): AuctionRecord {
+    const reservePrice = getReservePrice(building, marketPrices);
+
+    let best: { buyerId: string; price: number } | null = null;
+    for (const bidderId of this.getBidders(sellerId)) {
+      if (!aiCompanyManager.canAcquireBuilding(bidderId)) continue;
+
+      const riskTolerance = difficultySettings.getAIConfig(bidderId)?.riskTolerance ?? 0.5;
+      const bid = reservePrice * (1 + rng.next() * riskTolerance * 0.5);
+      if (bid > inventoryManager.getCash(bidderId) * MAX_BID_CASH_RATIO) continue;
+      if (!this.canCarryBuilding(bidderId, building, bid, currentTick)) continue;
+      if (!best || bid > best.price) {
+        best = { buyerId: bidderId, price: bid };
+      }
+    }
+
+    const record: AuctionRecord = {
+      tick: currentTick,
+      sellerId,
+      assetType: 'building',
+      assetId: building.definitionId,
+      assetName: building.name,
+      quantity: building.aggregatedCount ?? 1,
+      price: 0,
+      buyerId: null,
+    };
+
+    if (best && aiCompanyManager.acquireBuilding(best.buyerId, building)) {
+      this.transferCash(best.buyerId, sellerId, best.price, currentTick);
+      record.price = best.price;
+      record.buyerId = best.buyerId;
+    }
+    return record;
+  }
+
+  /**
+   * 竞拍方支付出价后，剩余现金仍需覆盖接手该建筑后的运营储备（维护费、工资和贷款本息），
+   * 避免竞拍方因扩张过度而陷入无力偿债
+   */
+  private canCarryBuilding(bidderId: string, building: BuildingInstance, bid: number, currentTick: number): boolean {
+    const bidder = aiCompanyManager.getCompany(bidderId);
+    if (!bidder) return false;
+    const reserve = this.getOperatingReserve(bidderId, [...bidder.buildings, building], currentTick);
+    return inventoryManager.getCash(bidderId) - bid >= reserve;
+  }
+
+  /**
+   * 拍卖库存：现金最多的竞拍方按折扣价整批买下（资金不足时买下能负担的部分）
+   */
+  private auctionGoods(
+    sellerId: string,
+    goodsId: string,
+    quantity: number,
+    marketPrice: number,
+    currentTick: number
+  ): AuctionRecord {
+    const unitPrice = marketPrice * INVENTORY_AUCTION_RATIO;
+    const record: AuctionRecord = {
+      tick: currentTick,
+      sellerId,
+      assetType: 'goods',
+      assetId: goodsId,
+      assetName: GOODS_DATA.find(g => g.id === goodsId)?.nameZh ?? goodsId,
+      quantity,
+      price: 0,
+      buyerId: null,
+    };
+    if (unitPrice <= 0) return record;
+
+    const buyerId = this.getBidders(sellerId)
+      .sort((a, b) => inventoryManager.getCash(b) - inventoryManager.getCash(a))[0];
+    if (!buyerId) return record;
+
+    const affordable = Math.min(quantity, Math.floor(inventoryManager.getCash(buyerId) * MAX_BID_CASH_RATIO / unitPrice));
+    if (affordable <= 0) return record;
+
+    inventoryManager.addGoods(buyerId, goodsId, affordable, unitPrice, currentTick, 'auction');
+    this.transferCash(buyerId, sellerId, affordable * unitPrice, currentTick);
+    record.quantity = affordable;
+    record.price = affordable * unitPrice;
+    record.buyerId = buyerId;
+    return record;
+  }
+
+  /**
+   * 竞拍方：未处于重整/清算的AI公司
+   */
+  private getBidders(sellerId: string): string[] {
+    return Array.from(aiCompanyManager.getCompanies().keys())
+      .filter(id => id !== sellerId && !this.isRestructuring(id));
+  }
+
+  private transferCash(fromId: string, toId: string, amount: number, currentTick: number): void {
+    inventoryManager.deductCash(fromId, amount, currentTick, 'auction_purchase');
+    inventoryManager.addCash(toId, amount, currentTick, 'auction_sale');
+    for (const companyId of [fromId, toId]) {
+      const company = aiCompanyManager.getCompany(companyId);
+      if (company) {
+        company.cash = inventoryManager.getCash(companyId);
+      }
+    }
+  }
+
+  private recordAuctions(records: AuctionRecord[]): void {
+    this.auctions.push(...records);
+    if (this.auctions.length > MAX_AUCTION_RECORDS) {
+      this.auctions = this.auctions.slice(-MAX_AUCTION_RECORDS);
+    }
+  }
+
+  private createEvent(
+    type: BankruptcyEvent['type'],
+    bankruptcyCase: BankruptcyCase,
+    tick: number,
+    message: string
+  ): BankruptcyEvent {
+    return {
+      type,
+      companyId: bankruptcyCase.companyId,
+      companyName: bankruptcyCase.companyName,
+      tick,
+      message,
+    };
+  }
+
+  /**
+   * 是否处于破产重整期
+   */
+  isRestructuring(companyId: string): boolean {
+    return this.cases.get(companyId)?.status === 'restructuring';
+  }
+
+  /**
+   * 是否已破产清算
+   */
+  isLiquidated(companyId: string): boolean {
+    return this.cases.get(companyId)?.status === 'liquidated';
+  }
+
+  getCase(companyId: string): BankruptcyCase | undefined {
+    return this.cases.get(companyId);
+  }
+
+  getCases(): BankruptcyCase[] {
+    return Array.from(this.cases.values());
+  }
+
+  getAuctions(limit = 50): AuctionRecord[] {
+    return this.auctions.slice(-limit);
+  }
+
+  /**
+   * 导出破产状态（用于存档）
+   */
+  exportState(): BankruptcySnapshotState {
+    return {
+      cases: Array.from(this.cases.values()).map(bankruptcyCase => ({ ...bankruptcyCase })),
+      auctions: this.auctions.map(record => ({ ...record })),
+    };
+  }
+
+  /**
+   * 从存档恢复破产状态
+   */
+  importState(state: BankruptcySnapshotState): void {
+    this.cases = new Map(state.cases.map(bankruptcyCase => [bankruptcyCase.companyId, { ...bankruptcyCase }]));
+    this.auctions = state.auctions.map(record => ({ ...record }));
+    console.log(`[Bankruptcy] Restored ${this.cases.size} bankruptcy cases`);
+  }
+}
+
+/**
+ * 无力偿债门槛：一个月的建筑维护费，无建筑时为最低运营现金
+ */
+function getMinimumOperatingCash(buildings: BuildingInstance[]): number {
+  return Math.max(getMonthlyMaintenance(buildings), MIN_OPERATING_CASH);
+}
+
+function getMonthlyMaintenance(buildings: BuildingInstance[]): number {
+  return buildings.reduce((sum, building) => {
+    const def = BUILDINGS_DATA.find(b => b.id === building.definitionId);
+    return sum + (def?.maintenanceCost ?? 0) * (building.aggregatedCount ?? 1);
+  }, 0);
+}
+
+/**
+ * 建筑拍卖起拍价：当前建造成本 × 折扣（在建建筑额外折价）
+ */
+function getReservePrice(building: BuildingInstance, marketPrices: Record<string, number>): number {
+  const def = BUILDINGS_DATA.find(b => b.id === building.definitionId) ?? getBuilding(building.definitionId);
+  const constructionCost = def ? calculateConstructionCost(def, marketPrices).totalCost : 0;
+  const unfinished = building.status === 'under_construction' || building.status === 'waiting_materials';
+  return constructionCost * (building.aggregatedCount ?? 1) * BUILDING_RESERVE_RATIO
+    * (unfinished ? UNFINISHED_BUILDING_DISCOUNT : 1);
+}
+
+function toPriceRecord(game: GameState): Record<string, number> {
+  const marketPrices: Record<string, number> = {};
+  for (const [goodsId, price] of game.marketPrices) {
+    marketPrices[goodsId] = price;
+  }
+  return marketPrices;
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const bankruptcyService = worldScoped('bankruptcyService');
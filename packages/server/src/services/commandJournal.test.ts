@@ -0,0 +1,102 @@
+/**
+ * 指令日志回放测试：按路由的方式记录并执行指令（含研发评估结果），导出回放后重放应与原局一致
+ */
+
+import { randomUUID } from 'crypto';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { applyPlayerCommand, commandJournal, type PlayerCommand } from './commandJournal.js';
+import { gameLoop } from './gameLoop.js';
+import { gameWorldFactory } from './gameWorld.js';
+import { llmService } from './llm.js';
+import { replayRunner } from './replayRunner.js';
+import { researchService } from './researchService.js';
+
+const PLAYER_COMPANY_ID = 'player-company-1';
+
+/** 断言值存在并收窄类型 */
+function defined<T>(value: T | null | undefined): T {
+  expect(value).toBeDefined();
+  expect(value).not.toBeNull();
+  return value as T;
+}
+
+/** 与路由一致：先记录再执行 */
+function issue(gameId: string, command: PlayerCommand): void {
+  commandJournal.record(gameId, command);
+  applyPlayerCommand(gameId, command);
+}
+
+/** 与实时运行和回放一致：tick 之间让出事件循环 */
+async function advance(gameId: string, ticks: number): Promise<void> {
+  for (let i = 0; i < ticks; i++) {
+    gameLoop.advanceTick(gameId);
+    await new Promise<void>(resolve => setImmediate(resolve));
+  }
+}
+
+describe('CommandJournal', () => {
+  const gameIds: string[] = [];
+
+  beforeAll(() => {
+    llmService.updateConfig({ enabled: false });
+  });
+
+  afterEach(() => {
+    for (const gameId of gameIds.splice(0)) {
+      gameLoop.destroyGame(gameId);
+      commandJournal.clear(gameId);
+    }
+  });
+
+  it('replays a recorded journal including research evaluations', async () => {
+    const gameId = `journal-test-${randomUUID()}`;
+    gameIds.push(gameId);
+    gameLoop.getOrCreateGame(gameId, PLAYER_COMPANY_ID, { name: 'journal-test', seed: 20250101 });
+
+    issue(gameId, { type: 'purchaseBuilding', buildingDefId: 'iron-mine' });
+    await advance(gameId, 5);
+
+    issue(gameId, {
+      type: 'createResearchConcept',
+      name: '高效选矿工艺',
+      description: '通过自动化分选提高铁矿石的开采效率',
+      constraints: [],
+    });
+    const projectId = gameWorldFactory.run(gameId, () => defined(researchService.getProjectsByCompany(PLAYER_COMPANY_ID)[0]).id);
+
+    // 与路由一致：评估完成后记录评估结果
+    const game = defined(gameLoop.getGame(gameId));
+    const evaluation = await gameWorldFactory.run(gameId, () => researchService.evaluateConcept(projectId, {
+      existingTechnologies: [],
+      cash: game.playerCash,
+      researchCapacity: 1,
+    }, game.currentTick));
+    expect(evaluation.success).toBe(true);
+    commandJournal.record(gameId, {
+      type: 'evaluateResearch',
+      projectId,
+      feasibility: defined(evaluation.feasibility),
+      prerequisiteAssessment: defined(evaluation.prerequisiteAssessment),
+    });
+    await advance(gameId, 3);
+
+    issue(gameId, { type: 'startResearch', projectId });
+    issue(gameId, { type: 'investResearch', projectId, amount: 100_000 });
+    await advance(gameId, 40);
+
+    const project = gameWorldFactory.run(gameId, () => researchService.getProject(projectId));
+    expect(project?.feasibility).toBeDefined();
+    expect(project?.status.toLowerCase()).toBe('active');
+
+    const exported = commandJournal.exportReplay(gameId);
+    expect(exported.success).toBe(true);
+
+    const replay = defined(exported.replay);
+    const report = await replayRunner.run(replay);
+    expect(report.success).toBe(true);
+    expect(report.commandsApplied).toBe(replay.entries.length);
+    expect(report.checkpointsCompared).toBeGreaterThan(0);
+    expect(report.divergence).toBeUndefined();
+    expect(report.matched).toBe(true);
+  }, 300_000);
+});
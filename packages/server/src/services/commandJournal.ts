@@ -0,0 +1,555 @@
+/**
+ * Command Journal - 玩家指令日志
+ * 记录玩家的每条指令及其生效时的 tick，可导出为回放文件，由 replayRunner 无界面重放
+ *
+ * 重放依赖确定性模拟（相同种子 + 相同指令序列 => 相同的 TickUpdate 序列），
+ * 日志同时定期记录状态校验点，重放时逐个比对以定位分歧
+ */
+
+import { createHash } from 'crypto';
+import {
+  TakeoverMode,
+  type BuildingInstance as SharedBuildingInstance,
+  type Difficulty,
+  type GameSpeed,
+  type GameState as SharedGameState,
+  type StockOrderSide,
+  type StockOrderType,
+} from '@scc/shared';
+import { gameLoop, type TickUpdate } from './gameLoop.js';
+import { gameWorldFactory } from './gameWorld.js';
+import { inventoryManager } from './inventoryManager.js';
+import { economyManager } from './economyManager.js';
+import { contractService, type ContractProposal } from './contractService.js';
+import { bankingService, DEFAULT_LOAN_TERM } from './bankingService.js';
+import { stockMarketService } from './stockMarket.js';
+import { takeoverService } from './takeoverService.js';
+import { patentLicensing } from './patentLicensing.js';
+import { patentLitigation, type InfringementRemedy } from './patentLitigation.js';
+import { researchService, type FeasibilityEvaluation, type PrerequisiteAssessment } from './researchService.js';
+import { researchEvents } from './researchEvents.js';
+import { autoTradeManager } from './autoTradeManager.js';
+import type { PowerPriority } from './powerGrid.js';
+
+/** 回放文件格式版本（结构变化时递增） */
+export const REPLAY_FORMAT_VERSION = '2';
+
+/** 状态校验点间隔（tick） */
+export const CHECKPOINT_INTERVAL = 10;
+
+/**
+ * 玩家指令
+ */
+export type PlayerCommand =
+  | { type: 'purchaseBuilding'; buildingDefId: string; position?: { x: number; y: number } }
+  | { type: 'switchMethod'; buildingId: string; methodId: string; allowInfringement?: boolean }
+  | { type: 'setPowerPriority'; buildingId: string; priority: PowerPriority }
+  | { type: 'setSpeed'; speed: GameSpeed }
+  | { type: 'resetGame' }
+  | { type: 'submitBuyOrder'; goodsId: string; quantity: number; maxPrice: number }
+  | { type: 'submitSellOrder'; goodsId: string; quantity: number; minPrice: number }
+  | { type: 'cancelOrder'; orderId: string }
+  | { type: 'proposeContract'; proposal: Omit<ContractProposal, 'proposerId'>; agreed?: boolean }
+  | { type: 'cancelContract'; contractId: string }
+  | { type: 'takeLoan'; loanType: 'term' | 'credit_line'; amount: number; termTicks?: number }
+  | { type: 'drawCredit'; loanId: string; amount: number }
+  | { type: 'repayLoan'; loanId: string; amount: number }
+  | { type: 'initiateTakeover'; targetId: string; offerPrice: number; mode?: TakeoverMode; rationale?: string }
+  | { type: 'pledgeShares'; bidId: string; shares: number }
+  | { type: 'directSubsidiary'; subsidiaryId: string; buildingId: string; methodId: string }
+  | { type: 'respondToEvent'; eventId: string; optionId: string }
+  | { type: 'requestLicense'; patentId: string; upfrontFee?: number; royaltyPerUnit?: number }
+  | { type: 'respondLicense'; requestId: string; decision: 'approve' | 'reject' | 'counter'; upfrontFee?: number; royaltyPerUnit?: number }
+  | { type: 'acceptLicenseCounter'; requestId: string }
+  | { type: 'withdrawLicense'; requestId: string }
+  | { type: 'challengePatent'; patentId: string }
+  | { type: 'fileInfringementSuit'; caseId: string; remedy: InfringementRemedy }
+  | { type: 'dropInfringementCase'; caseId: string }
+  | { type: 'reopenInfringementCase'; caseId: string }
+  | { type: 'setTechPrerequisites'; technologyId: string; prerequisiteIds: string[] }
+  | { type: 'respondResearchEvent'; eventId: string; accept: boolean }
+  | { type: 'createResearchConcept'; name: string; description: string; constraints: string[] }
+  | { type: 'evaluateResearch'; projectId: string; feasibility: FeasibilityEvaluation; prerequisiteAssessment: PrerequisiteAssessment }
+  | { type: 'startResearch'; projectId: string }
+  | { type: 'investResearch'; projectId: string; amount: number }
+  | { type: 'cancelResearch'; projectId: string }
+  | { type: 'submitStockOrder'; stockId: string; orderType: StockOrderType; side: StockOrderSide; quantity: number; limitPrice?: number }
+  | { type: 'cancelStockOrder'; stockId: string; orderId: string }
+  | { type: 'setAutoTrade'; enabled: boolean }
+  | { type: 'autoConfigureTrade' }
+  | { type: 'updateAutoTradeGoods'; goodsId: string; config: AutoTradeGoodsUpdate }
+  | { type: 'injectCash'; amount: number };
+
+/**
+ * 自动交易商品配置的修改（只含要修改的字段）
+ */
+export interface AutoTradeGoodsUpdate {
+  autoBuy?: Record<string, boolean | number>;
+  autoSell?: Record<string, boolean | number>;
+}
+
+/**
+ * 日志条目
+ */
+export interface JournalEntry {
+  /** 序号（从0开始） */
+  seq: number;
+  /** 指令执行时已完成的 tick 数，重放时在推进下一个 tick 之前执行 */
+  tick: number;
+  command: PlayerCommand;
+}
+
+/**
+ * 状态校验点
+ */
+export interface StateCheckpoint {
+  tick: number;
+  /** TickUpdate 的摘要（不含 gameId） */
+  digest: string;
+  playerCash: number;
+  buildingCount: number;
+}
+
+/**
+ * 回放文件
+ */
+export interface ReplayFile {
+  version: string;
+  gameId: string;
+  name: string;
+  seed: number;
+  /** 本局使用的剧本 */
+  scenarioId?: string;
+  /** 难度（旧回放文件没有，按剧本设定 / 普通难度重放） */
+  difficulty?: Difficulty;
+  playerCompanyId: string;
+  playerCompanyName: string;
+  recordedAt: number;
+  /** 记录期间推进的 tick 总数（含重置前的 tick） */
+  totalTicks: number;
+  entries: JournalEntry[];
+  checkpoints: StateCheckpoint[];
+}
+
+/**
+ * 单个游戏的日志
+ */
+interface GameJournal {
+  entries: JournalEntry[];
+  checkpoints: StateCheckpoint[];
+  totalTicks: number;
+  /** 读档得到的游戏缺少读档前的指令，无法从头重放 */
+  restoredAtTick: number | null;
+}
+
+/**
+ * 无界面执行玩家指令（回放、模拟脚本）
+ * 速度控制不影响模拟结果，此处忽略（避免启动实时循环）
+ */
+export function applyPlayerCommand(gameId: string, command: PlayerCommand): void {
+  switch (command.type) {
+    case 'purchaseBuilding': {
+      const result = gameLoop.purchaseBuilding(gameId, command.buildingDefId);
+      if (result.building && command.position) {
+        result.building.position = command.position;
+      }
+      break;
+    }
+
+    case 'switchMethod':
+      gameLoop.switchBuildingMethod(gameId, command.buildingId, command.methodId, command.allowInfringement ?? false);
+      break;
+
+    case 'setPowerPriority':
+      gameLoop.setPowerPriority(gameId, command.buildingId, command.priority);
+      break;
+
+    case 'setSpeed':
+      break;
+
+    case 'resetGame':
+      gameLoop.resetGame(gameId);
+      break;
+
+    case 'submitBuyOrder':
+    case 'submitSellOrder':
+    case 'cancelOrder': {
+      const game = gameLoop.getGame(gameId);
+      if (!game) break;
+
+      gameWorldFactory.run(gameId, () => {
+        if (command.type === 'submitBuyOrder') {
+          economyManager.playerSubmitBuyOrder(game.playerCompanyId, command.goodsId, command.quantity, command.maxPrice);
+        } else if (command.type === 'submitSellOrder') {
+          economyManager.playerSubmitSellOrder(game.playerCompanyId, command.goodsId, command.quantity, command.minPrice);
+        } else {
+          economyManager.playerCancelOrder(game.playerCompanyId, command.orderId);
+        }
+      });
+      break;
+    }
+
+    case 'proposeContract':
+    case 'cancelContract': {
+      const game = gameLoop.getGame(gameId);
+      if (!game) break;
+
+      gameWorldFactory.run(gameId, () => {
+        if (command.type === 'proposeContract') {
+          contractService.proposeContract(
+            { ...command.proposal, proposerId: game.playerCompanyId },
+            game.currentTick,
+            command.agreed ?? false
+          );
+        } else {
+          contractService.cancelContract(command.contractId, game.playerCompanyId, game.currentTick);
+        }
+      });
+      break;
+    }
+
+    case 'takeLoan':
+    case 'drawCredit':
+    case 'repayLoan': {
+      const game = gameLoop.getGame(gameId);
+      if (!game) break;
+
+      gameWorldFactory.run(gameId, () => {
+        if (command.type === 'takeLoan') {
+          if (command.loanType === 'term') {
+            bankingService.takeTermLoan(game.playerCompanyId, command.amount, command.termTicks ?? DEFAULT_LOAN_TERM, game.currentTick);
+          } else {
+            bankingService.openCreditLine(game.playerCompanyId, command.amount, game.currentTick);
+          }
+        } else if (command.type === 'drawCredit') {
+          bankingService.drawCredit(command.loanId, game.playerCompanyId, command.amount, game.currentTick);
+        } else {
+          bankingService.repay(command.loanId, game.playerCompanyId, command.amount, game.currentTick);
+        }
+        game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+      });
+      break;
+    }
+
+    case 'initiateTakeover':
+    case 'pledgeShares':
+    case 'directSubsidiary': {
+      const game = gameLoop.getGame(gameId);
+      if (!game) break;
+
+      gameWorldFactory.run(gameId, () => {
+        if (command.type === 'initiateTakeover') {
+          stockMarketService.initiateTakeover(
+            game.playerCompanyId,
+            command.targetId,
+            command.offerPrice,
+            command.rationale ?? '战略收购',
+            game.currentTick,
+            command.mode ?? TakeoverMode.Subsidiary
+          );
+        } else if (command.type === 'pledgeShares') {
+          stockMarketService.pledgeShares(command.bidId, game.playerCompanyId, command.shares);
+        } else {
+          takeoverService.directProduction(game.playerCompanyId, command.subsidiaryId, command.buildingId, command.methodId);
+        }
+      });
+      break;
+    }
+
+    case 'respondToEvent':
+      gameLoop.respondToDecision(gameId, command.eventId, command.optionId);
+      break;
+
+    case 'injectCash':
+      gameLoop.injectCash(gameId, command.amount);
+      break;
+
+    case 'requestLicense':
+    case 'respondLicense':
+    case 'acceptLicenseCounter':
+    case 'withdrawLicense': {
+      const game = gameLoop.getGame(gameId);
+      if (!game) break;
+
+      gameWorldFactory.run(gameId, () => {
+        const terms = command.type === 'requestLicense' || command.type === 'respondLicense'
+          ? { upfrontFee: command.upfrontFee, royaltyPerUnit: command.royaltyPerUnit }
+          : {};
+        if (command.type === 'requestLicense') {
+          patentLicensing.requestLicense(game.playerCompanyId, command.patentId, game.currentTick, terms);
+        } else if (command.type === 'respondLicense') {
+          patentLicensing.respond(game.playerCompanyId, command.requestId, command.decision, game.currentTick, terms);
+        } else if (command.type === 'acceptLicenseCounter') {
+          patentLicensing.acceptCounter(game.playerCompanyId, command.requestId, game.currentTick);
+        } else {
+          patentLicensing.withdraw(game.playerCompanyId, command.requestId, game.currentTick);
+        }
+        game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+      });
+      break;
+    }
+
+    case 'challengePatent':
+    case 'fileInfringementSuit':
+    case 'dropInfringementCase':
+    case 'reopenInfringementCase': {
+      const game = gameLoop.getGame(gameId);
+      if (!game) break;
+
+      gameWorldFactory.run(gameId, () => {
+        if (command.type === 'challengePatent') {
+          patentLitigation.challengePatent(game.playerCompanyId, command.patentId, game.currentTick);
+        } else if (command.type === 'fileInfringementSuit') {
+          patentLitigation.fileSuit(game.playerCompanyId, command.caseId, command.remedy, game.currentTick);
+        } else if (command.type === 'dropInfringementCase') {
+          patentLitigation.dropCase(game.playerCompanyId, command.caseId, game.currentTick);
+        } else {
+          patentLitigation.reopenCase(game.playerCompanyId, command.caseId, game.currentTick);
+        }
+        game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+      });
+      break;
+    }
+
+    case 'setTechPrerequisites':
+      gameWorldFactory.run(gameId, () => {
+        researchService.setPrerequisites(command.technologyId, command.prerequisiteIds);
+      });
+      break;
+
+    case 'respondResearchEvent': {
+      const game = gameLoop.getGame(gameId);
+      if (!game) break;
+
+      gameWorldFactory.run(gameId, () => {
+        researchEvents.respond(game.playerCompanyId, command.eventId, command.accept, game.currentTick);
+        game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+      });
+      break;
+    }
+
+    case 'createResearchConcept':
+    case 'evaluateResearch':
+    case 'startResearch':
+    case 'investResearch':
+    case 'cancelResearch': {
+      const game = gameLoop.getGame(gameId);
+      if (!game) break;
+
+      gameWorldFactory.run(gameId, () => {
+        if (command.type === 'createResearchConcept') {
+          researchService.createConcept({
+            companyId: game.playerCompanyId,
+            name: command.name,
+            description: command.description,
+            constraints: command.constraints,
+          });
+        } else if (command.type === 'evaluateResearch') {
+          // 日志记录的是评估完成时的结果，直接写入，不再调用 LLM
+          researchService.applyEvaluation(command.projectId, command.feasibility, command.prerequisiteAssessment);
+        } else if (command.type === 'startResearch') {
+          researchService.startResearch(command.projectId, game.currentTick);
+        } else if (command.type === 'investResearch') {
+          if (gameLoop.deductPlayerCash(gameId, command.amount) && !researchService.investFunds(command.projectId, command.amount)) {
+            gameLoop.addPlayerCash(gameId, command.amount);
+          }
+        } else {
+          researchService.cancelProject(command.projectId);
+        }
+      });
+      break;
+    }
+
+    case 'submitStockOrder':
+    case 'cancelStockOrder': {
+      const game = gameLoop.getGame(gameId);
+      if (!game) break;
+
+      gameWorldFactory.run(gameId, () => {
+        if (command.type === 'submitStockOrder') {
+          stockMarketService.submitOrder({
+            companyId: game.playerCompanyId,
+            stockId: command.stockId,
+            orderType: command.orderType,
+            side: command.side,
+            quantity: command.quantity,
+            limitPrice: command.limitPrice,
+          });
+        } else {
+          stockMarketService.cancelOrder(command.stockId, command.orderId);
+        }
+      });
+      break;
+    }
+
+    case 'setAutoTrade':
+    case 'autoConfigureTrade':
+    case 'updateAutoTradeGoods': {
+      const game = gameLoop.getGame(gameId);
+      if (!game) break;
+
+      gameWorldFactory.run(gameId, () => {
+        if (command.type === 'setAutoTrade') {
+          autoTradeManager.setEnabled(game.playerCompanyId, command.enabled);
+        } else if (command.type === 'updateAutoTradeGoods') {
+          autoTradeManager.updateGoodsConfig(game.playerCompanyId, command.goodsId, command.config);
+        } else {
+          // 转换为自动交易使用的建筑结构（按当前生产方式配置采购和销售）
+          const buildings = game.buildings.map(b => ({
+            id: b.id,
+            definitionId: b.definitionId,
+            ownerId: game.playerCompanyId,
+            activeMethodIds: { process: b.currentMethodId },
+            inputInventory: [],
+            outputInventory: [],
+            status: b.status,
+            efficiency: b.efficiency,
+            productionProgress: b.productionProgress,
+          }));
+          autoTradeManager.autoConfigureFromBuildings(
+            game.playerCompanyId,
+            buildings as unknown as SharedBuildingInstance[],
+            game as unknown as SharedGameState
+          );
+        }
+      });
+      break;
+    }
+  }
+}
+
+/**
+ * 指令日志服务
+ */
+export class CommandJournalService {
+  private journals = new Map<string, GameJournal>();
+
+  constructor() {
+    gameLoop.on('tick', (update: TickUpdate) => {
+      this.onTick(update);
+    });
+    gameLoop.on('gameRestored', (data: { gameId: string; tick: number }) => {
+      this.journals.set(data.gameId, this.createJournal(data.tick));
+    });
+  }
+
+  /**
+   * 记录玩家指令（在执行指令之前调用）
+   */
+  record(gameId: string, command: PlayerCommand): void {
+    const game = gameLoop.getGame(gameId);
+    if (!game) return;
+
+    const journal = this.getJournal(gameId, game.currentTick);
+    journal.entries.push({
+      seq: journal.entries.length,
+      tick: game.currentTick,
+      command: structuredClone(command),
+    });
+  }
+
+  /**
+   * 获取指令列表
+   */
+  getEntries(gameId: string): JournalEntry[] {
+    return this.journals.get(gameId)?.entries ?? [];
+  }
+
+  /**
+   * 获取状态校验点
+   */
+  getCheckpoints(gameId: string): StateCheckpoint[] {
+    return this.journals.get(gameId)?.checkpoints ?? [];
+  }
+
+  /**
+   * 导出回放文件
+   */
+  exportReplay(gameId: string): { success: boolean; replay?: ReplayFile; error?: string } {
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      return { success: false, error: '游戏不存在' };
+    }
+
+    const journal = this.getJournal(gameId, game.currentTick);
+    if (journal.restoredAtTick !== null) {
+      return { success: false, error: `游戏读档自 tick ${journal.restoredAtTick}，缺少之前的指令，无法重放` };
+    }
+
+    const playerCompanyName = gameWorldFactory.run(gameId,
+      () => inventoryManager.getInventory(game.playerCompanyId)?.companyName
+    );
+
+    return {
+      success: true,
+      replay: {
+        version: REPLAY_FORMAT_VERSION,
+        gameId,
+        name: game.name,
+        seed: game.seed,
+        ...(game.scenarioId !== undefined ? { scenarioId: game.scenarioId } : {}),
+        difficulty: game.difficulty,
+        playerCompanyId: game.playerCompanyId,
+        playerCompanyName: playerCompanyName ?? '玩家公司',
+        recordedAt: Date.now(),
+        totalTicks: journal.totalTicks,
+        entries: structuredClone(journal.entries),
+        checkpoints: structuredClone(journal.checkpoints),
+      },
+    };
+  }
+
+  /**
+   * 清除游戏日志
+   */
+  clear(gameId: string): void {
+    this.journals.delete(gameId);
+  }
+
+  /**
+   * 每 tick 计数，并按间隔记录校验点
+   */
+  private onTick(update: TickUpdate): void {
+    const journal = this.getJournal(update.gameId, update.tick - 1);
+    journal.totalTicks++;
+
+    if (journal.totalTicks % CHECKPOINT_INTERVAL !== 0) return;
+
+    const digest = createHash('sha1')
+      .update(JSON.stringify({ ...update, gameId: '' }))
+      .digest('hex')
+      .slice(0, 16);
+
+    journal.checkpoints.push({
+      tick: update.tick,
+      digest,
+      playerCash: update.playerCash ?? 0,
+      buildingCount: update.buildingCount ?? 0,
+    });
+  }
+
+  /**
+   * 获取游戏日志，不存在时创建
+   * @param currentTick 游戏当前已完成的 tick 数；大于0说明游戏并非从头记录
+   */
+  private getJournal(gameId: string, currentTick: number): GameJournal {
+    let journal = this.journals.get(gameId);
+    if (!journal) {
+      journal = this.createJournal(currentTick > 0 ? currentTick : null);
+      this.journals.set(gameId, journal);
+    }
+    return journal;
+  }
+
+  private createJournal(restoredAtTick: number | null): GameJournal {
+    return {
+      entries: [],
+      checkpoints: [],
+      totalTicks: 0,
+      restoredAtTick,
+    };
+  }
+}
+
+// 导出单例
+export const commandJournal = new CommandJournalService();
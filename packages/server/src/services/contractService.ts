@@ -0,0 +1,547 @@
+/**
+ * Contract Service - B2B供货合同
+ * 公司之间签订现货/长期供货合同，由 tick 循环按计划交割
+ *
+ * 交割规则：
+ * - 到期时卖方可用库存 → 买方库存，买方现金 → 卖方现金（经 inventoryManager，与市场成交走同一路径）
+ * - 卖方缺货或买方现金不足记为一次延误，过错方按交割金额支付延迟罚金，下一 tick 重试
+ * - 连续延误达到上限时合同违约终止，过错方支付违约金
+ * - 签约、违约、履约完成会写入AI公司与玩家的关系记录
+ */
+
+import { EventEmitter } from 'events';
+import {
+  CompanyType,
+  ContractStatus,
+  ContractType,
+  InteractionType,
+  QualityLevel,
+  tickToGameTimestamp,
+  type Contract,
+} from '@scc/shared';
+import { inventoryManager } from './inventoryManager.js';
+import { priceDiscoveryService } from './priceDiscovery.js';
+import { aiCompanyManager, type AIInteractionRecord } from './aiCompanyManager.js';
+import { worldScoped } from './worldContext.js';
+
+/** 长期合同默认交割间隔（tick） */
+const DEFAULT_DELIVERY_INTERVAL = 10;
+
+/** 长期合同默认交割次数 */
+const DEFAULT_TOTAL_DELIVERIES = 10;
+
+/** 默认延迟罚金（占单次交割金额的百分比） */
+const DEFAULT_LATE_PENALTY_PERCENT = 10;
+
+/** 默认违约金（占合同总金额的比例） */
+const DEFAULT_BREAK_PENALTY_RATIO = 0.2;
+
+/** 连续延误次数上限，达到后合同违约 */
+const MAX_CONSECUTIVE_MISSES = 3;
+
+/** AI接受合同时可容忍的价格偏离（相对市场价） */
+const AI_PRICE_TOLERANCE = 0.1;
+
+/** AI对玩家信任低于该值时拒绝签约 */
+const AI_MIN_TRUST_TO_SIGN = -50;
+
+/** 关系影响：签约 / 履约完成 / 对方违约 / 己方违约 */
+const TRUST_CHANGE = {
+  SIGNED: 3,
+  COMPLETED: 5,
+  BREACHED_BY_PLAYER: -20,
+  BREACHED_BY_AI: -5,
+} as const;
+
+/**
+ * 服务端合同记录（在共享 Contract 基础上增加调度状态）
+ */
+export interface ContractRecord extends Contract {
+  /** 签约 tick */
+  signedTick: number;
+  /** 下一次交割 tick */
+  nextDeliveryTick: number;
+  /** 连续延误次数 */
+  consecutiveMisses: number;
+  /** 累计罚金（过错方支付给守约方） */
+  penaltiesPaid: number;
+  /** 违约/解约方公司ID */
+  breachedBy?: string;
+}
+
+/**
+ * 合同提案
+ */
+export interface ContractProposal {
+  type: ContractType.SpotMarket | ContractType.LongTerm;
+  /** 发起方（需为买方或卖方） */
+  proposerId: string;
+  buyerId: string;
+  sellerId: string;
+  goodsId: string;
+  /** 每次交割数量 */
+  quantity: number;
+  pricePerUnit: number;
+  /** 长期合同：交割间隔（tick） */
+  deliveryIntervalTicks?: number;
+  /** 长期合同：交割次数 */
+  totalDeliveries?: number;
+}
+
+/**
+ * 合同操作结果
+ */
+export interface ContractResult {
+  success: boolean;
+  contract?: ContractRecord;
+  error?: string;
+}
+
+/**
+ * 合同事件（交割、延误、违约、完成）
+ */
+export interface ContractEvent {
+  contractId: string;
+  type: 'delivered' | 'missed' | 'breached' | 'completed' | 'cancelled';
+  tick: number;
+  buyerId: string;
+  sellerId: string;
+  goodsId: string;
+  quantity: number;
+  /** 交割金额或罚金 */
+  amount: number;
+  /** 过错方（延误、违约、解约） */
+  faultyPartyId?: string;
+  message: string;
+}
+
+/**
+ * 合同存档数据
+ */
+export interface ContractSnapshotState {
+  contracts: ContractRecord[];
+  contractCounter: number;
+}
+
+/**
+ * 合同服务
+ * 每个游戏世界一个实例
+ */
+export class ContractService extends EventEmitter {
+  private contracts = new Map<string, ContractRecord>();
+
+  /** 合同编号计数器（不使用随机数，保证回放一致） */
+  private contractCounter = 0;
+
+  /**
+   * 发起并签订合同
+   * 对方为AI公司时按价格和信任度决定是否接受；谈判达成的条款（agreed）不再评估
+   */
+  proposeContract(proposal: ContractProposal, currentTick: number, agreed = false): ContractResult {
+    const { buyerId, sellerId, proposerId } = proposal;
+
+    if (buyerId === sellerId) {
+      return { success: false, error: '买方和卖方不能相同' };
+    }
+    if (proposerId !== buyerId && proposerId !== sellerId) {
+      return { success: false, error: '发起方必须是合同一方' };
+    }
+    if (!inventoryManager.getInventory(buyerId)) {
+      return { success: false, error: '买方公司不存在' };
+    }
+    if (!inventoryManager.getInventory(sellerId)) {
+      return { success: false, error: '卖方公司不存在' };
+    }
+    if (proposal.quantity <= 0 || proposal.pricePerUnit <= 0) {
+      return { success: false, error: '数量和价格必须大于0' };
+    }
+
+    const isLongTerm = proposal.type === ContractType.LongTerm;
+    const deliveryIntervalTicks = isLongTerm ? (proposal.deliveryIntervalTicks ?? DEFAULT_DELIVERY_INTERVAL) : 1;
+    const totalDeliveries = isLongTerm ? (proposal.totalDeliveries ?? DEFAULT_TOTAL_DELIVERIES) : 1;
+    const totalValue = proposal.quantity * proposal.pricePerUnit * totalDeliveries;
+
+    const counterpartyId = proposerId === buyerId ? sellerId : buyerId;
+    const rejection = agreed ? null : this.evaluateForAI(counterpartyId, proposal);
+    if (rejection) {
+      return { success: false, error: rejection };
+    }
+
+    const contract: ContractRecord = {
+      id: `contract-${++this.contractCounter}`,
+      type: proposal.type,
+      buyerId,
+      sellerId,
+      goodsId: proposal.goodsId,
+      pricePerUnit: proposal.pricePerUnit,
+      quantityPerDelivery: proposal.quantity,
+      minQuality: QualityLevel.Standard,
+      ...(isLongTerm ? { deliveryIntervalTicks, totalDeliveries } : {}),
+      completedDeliveries: 0,
+      latePenaltyPercent: DEFAULT_LATE_PENALTY_PERCENT,
+      qualityPenaltyPercent: 0,
+      breakPenalty: Math.round(totalValue * DEFAULT_BREAK_PENALTY_RATIO),
+      status: ContractStatus.Active,
+      negotiatedAt: tickToGameTimestamp(currentTick),
+      startsAt: tickToGameTimestamp(currentTick + 1),
+      expiresAt: tickToGameTimestamp(currentTick + deliveryIntervalTicks * totalDeliveries),
+      signedTick: currentTick,
+      nextDeliveryTick: currentTick + 1,
+      consecutiveMisses: 0,
+      penaltiesPaid: 0,
+    };
+
+    this.contracts.set(contract.id, contract);
+    this.recordInteraction(contract, InteractionType.ContractSigned, null, currentTick,
+      `签订${isLongTerm ? '长期' : '现货'}合同: ${contract.goodsId} ×${contract.quantityPerDelivery}`);
+
+    console.log(`[ContractService] ${contract.id} signed: ${sellerId} -> ${buyerId}, ${contract.goodsId} ×${contract.quantityPerDelivery} @ ${contract.pricePerUnit} (${totalDeliveries} deliveries)`);
+    this.emit('contractSigned', contract);
+
+    return { success: true, contract };
+  }
+
+  /**
+   * 提前解约
+   * 解约方向对方支付违约金
+   */
+  cancelContract(contractId: string, companyId: string, currentTick: number): ContractResult {
+    const contract = this.contracts.get(contractId);
+    if (!contract) {
+      return { success: false, error: '合同不存在' };
+    }
+    if (contract.buyerId !== companyId && contract.sellerId !== companyId) {
+      return { success: false, error: '无权解除该合同' };
+    }
+    if (contract.status !== ContractStatus.Active) {
+      return { success: false, error: '合同不在执行中' };
+    }
+
+    const counterpartyId = companyId === contract.buyerId ? contract.sellerId : contract.buyerId;
+    const paid = this.payPenalty(contract, companyId, counterpartyId, contract.breakPenalty, currentTick);
+
+    contract.status = ContractStatus.Cancelled;
+    contract.breachedBy = companyId;
+    this.recordInteraction(contract, InteractionType.ContractBreached, companyId, currentTick,
+      `提前解除合同 ${contract.id}`);
+
+    this.emit('contractEvent', this.createEvent(contract, 'cancelled', currentTick, 0, paid, companyId,
+      `合同 ${contract.id} 被提前解除，违约金 ${paid}`));
+
+    return { success: true, contract };
+  }
+
+  /**
+   * 公司破产清算时终止其全部执行中的合同（破产方无力支付违约金）
+   */
+  terminateForBankruptcy(companyId: string, currentTick: number): ContractEvent[] {
+    const events: ContractEvent[] = [];
+
+    for (const contract of this.getContracts(companyId, ContractStatus.Active)) {
+      contract.status = ContractStatus.Breached;
+      contract.breachedBy = companyId;
+      this.recordInteraction(contract, InteractionType.ContractBreached, companyId, currentTick,
+        `合同 ${contract.id} 因破产清算终止`);
+
+      const event = this.createEvent(contract, 'breached', currentTick, 0, 0, companyId,
+        `合同 ${contract.id} 因 ${companyId} 破产清算而终止`);
+      this.emit('contractEvent', event);
+      events.push(event);
+    }
+
+    return events;
+  }
+
+  /**
+   * 吸收合并：被合并方的执行中合同由收购方承继
+   * 与收购方之间的合同成为内部交易，直接结束（不计违约金）
+   */
+  transferForMerger(companyId: string, acquirerId: string, currentTick: number): ContractEvent[] {
+    const events: ContractEvent[] = [];
+
+    for (const contract of this.getContracts(companyId, ContractStatus.Active)) {
+      if (contract.buyerId === acquirerId || contract.sellerId === acquirerId) {
+        contract.status = ContractStatus.Completed;
+        const event = this.createEvent(contract, 'completed', currentTick, 0, 0, undefined,
+          `合同 ${contract.id} 因双方合并而结束`);
+        this.emit('contractEvent', event);
+        events.push(event);
+        continue;
+      }
+
+      if (contract.buyerId === companyId) {
+        contract.buyerId = acquirerId;
+      } else {
+        contract.sellerId = acquirerId;
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * 处理到期交割（每tick调用）
+   */
+  processTick(currentTick: number): ContractEvent[] {
+    const events: ContractEvent[] = [];
+
+    for (const contract of this.contracts.values()) {
+      if (contract.status !== ContractStatus.Active || contract.nextDeliveryTick > currentTick) {
+        continue;
+      }
+      events.push(...this.processDelivery(contract, currentTick));
+    }
+
+    for (const event of events) {
+      this.emit('contractEvent', event);
+    }
+    return events;
+  }
+
+  /**
+   * 执行一次交割
+   */
+  private processDelivery(contract: ContractRecord, currentTick: number): ContractEvent[] {
+    const { buyerId, sellerId, goodsId, quantityPerDelivery: quantity, pricePerUnit } = contract;
+    const value = quantity * pricePerUnit;
+
+    // 卖方缺货优先判定为卖方过错
+    let faultyPartyId: string | null = null;
+    if (inventoryManager.getAvailableQuantity(sellerId, goodsId) < quantity) {
+      faultyPartyId = sellerId;
+    } else if (inventoryManager.getCash(buyerId) < value) {
+      faultyPartyId = buyerId;
+    }
+
+    if (faultyPartyId) {
+      return this.handleMissedDelivery(contract, faultyPartyId, value, currentTick);
+    }
+
+    // 与市场成交相同：卖方预留 → 完成销售 → 买方完成采购
+    inventoryManager.reserveForSale(sellerId, goodsId, quantity, currentTick);
+    inventoryManager.completeSale(sellerId, goodsId, quantity, pricePerUnit, currentTick, contract.id);
+    inventoryManager.completePurchase(buyerId, goodsId, quantity, pricePerUnit, currentTick, contract.id);
+    this.syncAICash(buyerId, sellerId);
+
+    contract.completedDeliveries++;
+    contract.consecutiveMisses = 0;
+    contract.nextDeliveryTick = currentTick + (contract.deliveryIntervalTicks ?? 1);
+
+    const events = [this.createEvent(contract, 'delivered', currentTick, quantity, value, undefined,
+      `合同 ${contract.id} 交割 ${goodsId} ×${quantity}`)];
+
+    if (contract.completedDeliveries >= (contract.totalDeliveries ?? 1)) {
+      contract.status = ContractStatus.Completed;
+      this.recordInteraction(contract, 'cooperation', null, currentTick, `合同 ${contract.id} 履约完成`);
+      events.push(this.createEvent(contract, 'completed', currentTick, 0, 0, undefined,
+        `合同 ${contract.id} 履约完成`));
+    }
+
+    return events;
+  }
+
+  /**
+   * 处理延误：收取延迟罚金，连续延误达到上限则违约
+   */
+  private handleMissedDelivery(
+    contract: ContractRecord,
+    faultyPartyId: string,
+    value: number,
+    currentTick: number
+  ): ContractEvent[] {
+    const counterpartyId = faultyPartyId === contract.sellerId ? contract.buyerId : contract.sellerId;
+    const reason = faultyPartyId === contract.sellerId ? '卖方库存不足' : '买方现金不足';
+
+    contract.consecutiveMisses++;
+    const latePenalty = Math.round(value * contract.latePenaltyPercent / 100);
+    const paid = this.payPenalty(contract, faultyPartyId, counterpartyId, latePenalty, currentTick);
+
+    if (contract.consecutiveMisses < MAX_CONSECUTIVE_MISSES) {
+      contract.nextDeliveryTick = currentTick + 1;
+      return [this.createEvent(contract, 'missed', currentTick, 0, paid, faultyPartyId,
+        `合同 ${contract.id} 交割延误（${reason}），罚金 ${paid}`)];
+    }
+
+    const breakPaid = this.payPenalty(contract, faultyPartyId, counterpartyId, contract.breakPenalty, currentTick);
+    contract.status = ContractStatus.Breached;
+    contract.breachedBy = faultyPartyId;
+    this.recordInteraction(contract, InteractionType.ContractBreached, faultyPartyId, currentTick,
+      `合同 ${contract.id} 违约（${reason}）`);
+
+    console.log(`[ContractService] ${contract.id} breached by ${faultyPartyId}: ${reason}`);
+
+    return [this.createEvent(contract, 'breached', currentTick, 0, paid + breakPaid, faultyPartyId,
+      `合同 ${contract.id} 违约（${reason}），违约金 ${breakPaid}`)];
+  }
+
+  /**
+   * 过错方向守约方支付罚金（现金不足时支付全部现金）
+   * @returns 实际支付金额
+   */
+  private payPenalty(
+    contract: ContractRecord,
+    fromId: string,
+    toId: string,
+    amount: number,
+    currentTick: number
+  ): number {
+    const paid = Math.max(0, Math.min(amount, inventoryManager.getCash(fromId)));
+    if (paid <= 0) return 0;
+
+    inventoryManager.deductCash(fromId, paid, currentTick, 'contract_penalty');
+    inventoryManager.addCash(toId, paid, currentTick, 'contract_penalty');
+    this.syncAICash(fromId, toId);
+    contract.penaltiesPaid += paid;
+    return paid;
+  }
+
+  /**
+   * AI公司评估合同提案
+   * @returns 拒绝原因，接受时返回 null
+   */
+  private evaluateForAI(companyId: string, proposal: ContractProposal): string | null {
+    const company = aiCompanyManager.getCompany(companyId);
+    if (!company) return null;
+
+    const trust = company.relationshipWithPlayer.trust;
+    if (trust < AI_MIN_TRUST_TO_SIGN) {
+      return `${company.name} 拒绝与你签约（信任度过低）`;
+    }
+
+    // 信任度越高，对价格越宽容
+    const tolerance = AI_PRICE_TOLERANCE * (1 + trust / 100);
+    const marketPrice = priceDiscoveryService.getPrice(proposal.goodsId);
+
+    if (companyId === proposal.sellerId) {
+      if (proposal.pricePerUnit < marketPrice * (1 - tolerance)) {
+        return `${company.name} 认为报价过低`;
+      }
+      if (inventoryManager.getAvailableQuantity(companyId, proposal.goodsId) < proposal.quantity) {
+        return `${company.name} 库存不足，无法供货`;
+      }
+    } else {
+      if (proposal.pricePerUnit > marketPrice * (1 + tolerance)) {
+        return `${company.name} 认为报价过高`;
+      }
+      if (inventoryManager.getCash(companyId) < proposal.quantity * proposal.pricePerUnit) {
+        return `${company.name} 资金不足`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 记录合同相关的关系变化（仅玩家与AI公司之间）
+   * @param faultyPartyId 违约方，签约/完成时为 null
+   */
+  private recordInteraction(
+    contract: ContractRecord,
+    type: AIInteractionRecord['type'],
+    faultyPartyId: string | null,
+    currentTick: number,
+    description: string
+  ): void {
+    const parties = [contract.buyerId, contract.sellerId];
+    const playerId = parties.find(id => inventoryManager.getInventory(id)?.companyType === CompanyType.Player);
+    if (!playerId) return;
+
+    const aiCompanyId = parties.find(id => id !== playerId);
+    if (!aiCompanyId || !aiCompanyManager.getCompany(aiCompanyId)) return;
+
+    let trustChange: number;
+    let hostilityChange = 0;
+    if (faultyPartyId === playerId) {
+      trustChange = TRUST_CHANGE.BREACHED_BY_PLAYER;
+      hostilityChange = -TRUST_CHANGE.BREACHED_BY_PLAYER / 2;
+    } else if (faultyPartyId) {
+      trustChange = TRUST_CHANGE.BREACHED_BY_AI;
+    } else if (type === InteractionType.ContractSigned) {
+      trustChange = TRUST_CHANGE.SIGNED;
+    } else {
+      trustChange = TRUST_CHANGE.COMPLETED;
+      hostilityChange = -1;
+    }
+
+    aiCompanyManager.adjustPlayerRelationship(aiCompanyId, trustChange, hostilityChange, description, currentTick, type);
+  }
+
+  /**
+   * 交割后同步AI公司现金
+   */
+  private syncAICash(...companyIds: string[]): void {
+    for (const companyId of companyIds) {
+      const company = aiCompanyManager.getCompany(companyId);
+      if (company) {
+        company.cash = inventoryManager.getCash(companyId);
+      }
+    }
+  }
+
+  private createEvent(
+    contract: ContractRecord,
+    type: ContractEvent['type'],
+    tick: number,
+    quantity: number,
+    amount: number,
+    faultyPartyId: string | undefined,
+    message: string
+  ): ContractEvent {
+    return {
+      contractId: contract.id,
+      type,
+      tick,
+      buyerId: contract.buyerId,
+      sellerId: contract.sellerId,
+      goodsId: contract.goodsId,
+      quantity,
+      amount,
+      ...(faultyPartyId ? { faultyPartyId } : {}),
+      message,
+    };
+  }
+
+  /**
+   * 获取合同（可按公司和状态过滤）
+   */
+  getContracts(companyId?: string, status?: ContractStatus): ContractRecord[] {
+    return Array.from(this.contracts.values()).filter(contract =>
+      (!companyId || contract.buyerId === companyId || contract.sellerId === companyId) &&
+      (!status || contract.status === status)
+    );
+  }
+
+  getContract(contractId: string): ContractRecord | undefined {
+    return this.contracts.get(contractId);
+  }
+
+  /**
+   * 重置
+   */
+  reset(): void {
+    this.contracts.clear();
+    this.contractCounter = 0;
+  }
+
+  /**
+   * 导出合同状态（用于存档）
+   */
+  exportState(): ContractSnapshotState {
+    return {
+      contracts: Array.from(this.contracts.values()).map(contract => structuredClone(contract)),
+      contractCounter: this.contractCounter,
+    };
+  }
+
+  /**
+   * 从存档恢复合同状态
+   */
+  importState(state: ContractSnapshotState): void {
+    this.contracts = new Map(state.contracts.map(contract => [contract.id, structuredClone(contract)]));
+    this.contractCounter = state.contractCounter;
+    console.log(`[ContractService] Restored ${this.contracts.size} contracts`);
+  }
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const contractService = worldScoped('contractService');
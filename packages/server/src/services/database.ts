@@ -0,0 +1,16 @@
+/**
+ * Database - Prisma 客户端
+ * 连接串来自环境变量 DATABASE_URL（见 .env.example）
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+// 单例导出
+export const prisma = new PrismaClient();
+
+/**
+ * 断开数据库连接（服务器关闭时调用）
+ */
+export async function disconnectDatabase(): Promise<void> {
+  await prisma.$disconnect();
+}
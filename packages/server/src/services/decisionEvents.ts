@@ -0,0 +1,797 @@
+/**
+ * Decision Events - 玩家决策事件
+ *
+ * 需要玩家选择应对方案的事件（GameEvent.requiresResponse）：
+ * - 来源：LLM 生成；LLM 未启用或超出预算时使用内置事件模板（按游戏种子随机，离线可用）
+ * - 事件出现后等待玩家通过 WebSocket / REST 选择一个选项，超过期限按默认选项处理
+ * - critical 级别的事件出现时实时循环暂停，选择后恢复（见 GameLoop）
+ * - 选项可带现金成本和前置条件，选择后由 eventEffects.ts 结算选项效果
+ * - 选项带 llmFollowUp 时生成连锁事件（triggeredByEventId 指向本事件）；内置模板的连锁事件在离线时也会出现
+ *
+ * 选项前置条件（requirements）格式：
+ * - cash:<金额>          现金不少于该金额（分）
+ * - buildings:<数量>     建筑数不少于该数量
+ * - building:<建筑ID>    拥有该类建筑
+ */
+
+import {
+  BUILDINGS_DATA,
+  EventCategory,
+  EventEffectType,
+  EventSeverity,
+  tickToGameTimestamp,
+  type EventEffect,
+  type EventResponseOption,
+  type GameEvent,
+} from '@scc/shared';
+import type { GameState } from './gameLoop.js';
+import { llmService, type DecisionEventRequest, type GeneratedDecisionEvent } from './llm.js';
+import { eventEffectManager } from './eventEffects.js';
+import { inventoryManager } from './inventoryManager.js';
+import { aiCompanyManager } from './aiCompanyManager.js';
+import { rng } from './rng.js';
+import { worldScoped } from './worldContext.js';
+
+/** 决策期限（tick），超时按默认选项处理 */
+const DECISION_DEADLINE_TICKS = 30;
+
+/** 同时存在（待出现 + 待选择）的决策事件上限 */
+const MAX_OPEN_DECISIONS = 2;
+
+/** 生成后到出现的延迟（tick） */
+const PRESENT_DELAY_TICKS = 5;
+
+/** 连锁事件在选择后出现的延迟（tick） */
+const FOLLOW_UP_DELAY_TICKS = 10;
+
+/** 保留的决策记录数 */
+const MAX_DECISION_RECORDS = 100;
+
+/**
+ * 等待玩家选择的决策事件
+ */
+export interface PendingDecision {
+  event: GameEvent;
+  presentedTick: number;
+  /** 到期 tick，届时按默认选项处理 */
+  deadlineTick: number;
+  defaultOptionId: string;
+  /** 是否暂停实时循环等待选择 */
+  pauseGame: boolean;
+  /** 离线时各选项触发的内置连锁事件（选项ID -> 模板ID） */
+  followUps?: Record<string, string>;
+}
+
+/**
+ * 已生成、尚未出现的决策事件
+ */
+export interface QueuedDecision extends Omit<PendingDecision, 'presentedTick' | 'deadlineTick'> {
+  presentAtTick: number;
+}
+
+/**
+ * 决策记录
+ */
+export interface DecisionRecord {
+  eventId: string;
+  title: string;
+  optionId: string;
+  optionLabel: string;
+  tick: number;
+  /** 是否超时按默认选项处理 */
+  timedOut: boolean;
+  cost: number;
+  /** 效果结算说明 */
+  effects: string[];
+  /** 触发的连锁事件 */
+  followUpEventId?: string;
+}
+
+/**
+ * 决策事件更新（随 TickUpdate 推送）
+ */
+export interface DecisionEventUpdate {
+  type: 'presented' | 'resolved';
+  eventId: string;
+  tick: number;
+  message: string;
+  /** presented：事件详情 */
+  decision?: PendingDecision;
+  /** resolved：选择结果 */
+  record?: DecisionRecord;
+}
+
+/**
+ * 选择结果
+ */
+export interface DecisionResult {
+  success: boolean;
+  error?: string;
+  update?: DecisionEventUpdate;
+}
+
+/**
+ * 决策事件存档数据
+ */
+export interface DecisionSnapshotState {
+  queued: QueuedDecision[];
+  pending: PendingDecision[];
+  history: DecisionRecord[];
+  nextSequence: number;
+}
+
+// ============================================
+// 内置事件模板
+// ============================================
+
+/** 内置事件选项 */
+interface BuiltinDecisionOption extends EventResponseOption {
+  /** 选择该项后出现的内置连锁事件 */
+  followUpTemplateId?: string;
+}
+
+/** 内置事件内容 */
+interface BuiltinDecisionDraft {
+  title: string;
+  headline: string;
+  content: string;
+  category: EventCategory;
+  severity: EventSeverity;
+  options: BuiltinDecisionOption[];
+  defaultOptionId: string;
+}
+
+/** 内置事件模板 */
+interface BuiltinDecisionTemplate {
+  id: string;
+  /** 只作为连锁事件出现 */
+  chainOnly?: boolean;
+  /** 生成事件内容，当前局面不适用时返回 null */
+  create(game: GameState): BuiltinDecisionDraft | null;
+}
+
+function goodsEffect(type: EventEffectType, goodsId: string, multiplier: number): EventEffect {
+  const parameter = type === EventEffectType.PriceModifier ? 'price' : type === EventEffectType.SupplyModifier ? 'supply' : 'demand';
+  return { type, targetType: 'goods', targetId: goodsId, parameter, value: multiplier, isMultiplier: true, permanent: true };
+}
+
+function cashEffect(type: EventEffectType.FineImposed | EventEffectType.SubsidyGrant, amount: number): EventEffect {
+  return { type, targetType: 'company', parameter: 'cash', value: amount, isMultiplier: false, permanent: true };
+}
+
+function reputationEffect(trustChange: number, companyId?: string): EventEffect {
+  return {
+    type: EventEffectType.ReputationChange,
+    targetType: 'company',
+    ...(companyId !== undefined ? { targetId: companyId } : {}),
+    parameter: 'trust',
+    value: trustChange,
+    isMultiplier: false,
+    permanent: true,
+  };
+}
+
+const BUILTIN_TEMPLATES: BuiltinDecisionTemplate[] = [
+  {
+    id: 'environmental_inspection',
+    create: game => game.buildings.length === 0 ? null : {
+      title: '环保督查组进驻',
+      headline: '省环保督查组抽查工业园区，多家企业被要求限期整改',
+      content: '督查组在例行抽查中发现你的工厂排放记录不完整，要求立即配合现场检查。',
+      category: EventCategory.Environmental,
+      severity: EventSeverity.Warning,
+      options: [
+        {
+          id: 'comply',
+          label: '配合整改',
+          description: '投入5万元完善排放设施，行业口碑小幅提升',
+          cost: 5_000_000,
+          effects: [reputationEffect(3)],
+        },
+        {
+          id: 'refuse',
+          label: '拒绝检查',
+          description: '拒不配合将被处以20万元罚款，同行也会看轻你',
+          effects: [cashEffect(EventEffectType.FineImposed, 20_000_000), reputationEffect(-5)],
+        },
+        {
+          id: 'lobby',
+          label: '疏通关系',
+          description: '花10万元找人说情，可能就此了结，也可能被媒体曝光',
+          cost: 10_000_000,
+          requirements: ['cash:50000000'],
+          effects: [],
+          llmFollowUp: '督查组对玩家的游说作何反应，游说是否被媒体曝光',
+          followUpTemplateId: 'lobbying_exposed',
+        },
+      ],
+      defaultOptionId: 'comply',
+    },
+  },
+  {
+    id: 'lobbying_exposed',
+    chainOnly: true,
+    create: () => ({
+      title: '游说丑闻曝光',
+      headline: '知情人爆料：某企业试图疏通环保督查',
+      content: '你疏通督查组的消息被媒体曝光，舆论哗然，必须马上表态。',
+      category: EventCategory.Political,
+      severity: EventSeverity.Critical,
+      options: [
+        {
+          id: 'apologize',
+          label: '公开道歉',
+          description: '承认错误并接受15万元罚款，声誉损失有限',
+          effects: [cashEffect(EventEffectType.FineImposed, 15_000_000), reputationEffect(-3)],
+        },
+        {
+          id: 'deny',
+          label: '否认到底',
+          description: '不交罚款，但同行对你的信任大幅下降',
+          effects: [reputationEffect(-15)],
+        },
+      ],
+      defaultOptionId: 'apologize',
+    }),
+  },
+  {
+    id: 'industry_subsidy',
+    create: game => game.buildings.length === 0 ? null : {
+      title: '产业扶持政策申报',
+      headline: '市政府发布新一轮产业扶持计划，规模企业可申请专项补贴',
+      content: '拥有3座以上建筑的企业可申报专项补贴，申报需要支付2万元的材料和审计费用。',
+      category: EventCategory.Political,
+      severity: EventSeverity.Opportunity,
+      options: [
+        {
+          id: 'apply',
+          label: '提交申报',
+          description: '支付2万元申报费，获得30万元补贴',
+          cost: 2_000_000,
+          requirements: ['buildings:3'],
+          effects: [cashEffect(EventEffectType.SubsidyGrant, 30_000_000)],
+        },
+        {
+          id: 'skip',
+          label: '暂不申报',
+          description: '不参与本轮申报',
+          effects: [],
+        },
+      ],
+      defaultOptionId: 'skip',
+    },
+  },
+  {
+    id: 'supplier_strike',
+    create: () => {
+      const goodsId = rng.pick(['coal', 'iron-ore', 'copper-ore', 'crude-oil']) ?? 'coal';
+      return {
+        title: '上游工人罢工',
+        headline: `${goodsId} 主产区工人罢工，供应面临中断`,
+        content: `${goodsId} 主要产区的工人要求加薪并停工，行业协会希望大企业出资参与调解。`,
+        category: EventCategory.Social,
+        severity: EventSeverity.Warning,
+        options: [
+          {
+            id: 'mediate',
+            label: '出资调解',
+            description: '出资8万元促成复工，供应不受影响，同行心存感激',
+            cost: 8_000_000,
+            effects: [reputationEffect(3)],
+          },
+          {
+            id: 'wait',
+            label: '静观其变',
+            description: `罢工持续，${goodsId} 供给减少30%，价格上涨15%`,
+            effects: [
+              goodsEffect(EventEffectType.SupplyModifier, goodsId, 0.7),
+              goodsEffect(EventEffectType.PriceModifier, goodsId, 1.15),
+            ],
+          },
+        ],
+        defaultOptionId: 'wait',
+      };
+    },
+  },
+  {
+    id: 'rival_partnership',
+    create: () => {
+      const company = rng.pick(Array.from(aiCompanyManager.getCompanies().values()));
+      if (!company) return null;
+      return {
+        title: '竞争对手寻求合作',
+        headline: `${company.name} 释放合作信号`,
+        content: `${company.name} 希望与你签署合作备忘录，共同应对市场波动。`,
+        category: EventCategory.Corporate,
+        severity: EventSeverity.Opportunity,
+        options: [
+          {
+            id: 'accept',
+            label: '签署备忘录',
+            description: `与 ${company.name} 的关系大幅改善`,
+            effects: [reputationEffect(15, company.id)],
+            llmFollowUp: `${company.name} 在合作备忘录基础上提出进一步的合资或供货要求`,
+          },
+          {
+            id: 'decline',
+            label: '婉言谢绝',
+            description: `${company.name} 会有些失望`,
+            effects: [reputationEffect(-5, company.id)],
+          },
+        ],
+        defaultOptionId: 'decline',
+      };
+    },
+  },
+  {
+    id: 'demand_surge',
+    create: () => {
+      const goodsId = rng.pick(['smartphone', 'packaged-food', 'electric-vehicle', 'beverages']) ?? 'packaged-food';
+      return {
+        title: '消费热潮',
+        headline: `社交媒体带火 ${goodsId}，消费者排队抢购`,
+        content: `${goodsId} 意外走红，营销机构建议趁热加大投放。`,
+        category: EventCategory.Market,
+        severity: EventSeverity.Opportunity,
+        options: [
+          {
+            id: 'promote',
+            label: '加大营销投入',
+            description: `投入6万元营销，${goodsId} 需求提升25%`,
+            cost: 6_000_000,
+            effects: [goodsEffect(EventEffectType.DemandModifier, goodsId, 1.25)],
+          },
+          {
+            id: 'hold',
+            label: '顺其自然',
+            description: `${goodsId} 需求自然提升10%`,
+            effects: [goodsEffect(EventEffectType.DemandModifier, goodsId, 1.1)],
+          },
+        ],
+        defaultOptionId: 'hold',
+      };
+    },
+  },
+];
+
+const BUILTIN_TEMPLATE_MAP = new Map(BUILTIN_TEMPLATES.map(template => [template.id, template]));
+
+/**
+ * LLM 生成的效果转为 EventEffect（比例转为倍率，金额由元转为分）
+ */
+function toEventEffect(effect: GeneratedDecisionEvent['options'][number]['effects'][number]): EventEffect {
+  switch (effect.type) {
+    case 'price_modifier':
+      return goodsEffect(EventEffectType.PriceModifier, effect.target ?? '', 1 + effect.value);
+    case 'supply_modifier':
+      return goodsEffect(EventEffectType.SupplyModifier, effect.target ?? '', 1 + effect.value);
+    case 'demand_modifier':
+      return goodsEffect(EventEffectType.DemandModifier, effect.target ?? '', 1 + effect.value);
+    case 'fine_imposed':
+      return cashEffect(EventEffectType.FineImposed, Math.round(effect.value * 100));
+    case 'subsidy_grant':
+      return cashEffect(EventEffectType.SubsidyGrant, Math.round(effect.value * 100));
+    case 'reputation_change':
+      return reputationEffect(effect.value, effect.target);
+  }
+}
+
+/**
+ * 决策事件服务
+ * 每个游戏世界一个实例
+ */
+export class DecisionEventService {
+  private queued: QueuedDecision[] = [];
+  private pending = new Map<string, PendingDecision>();
+  private history: DecisionRecord[] = [];
+  private nextSequence = 1;
+  /** 进行中的 LLM 生成数（不存档） */
+  private generating = 0;
+
+  /**
+   * 生成一个新的决策事件（定期调用）
+   * LLM 可用时异步生成，否则立即从内置模板中随机选择
+   */
+  generate(game: GameState, currentTick: number): void {
+    if (this.generating > 0 || this.queued.length + this.pending.size >= MAX_OPEN_DECISIONS) {
+      return;
+    }
+
+    const presentAtTick = currentTick + PRESENT_DELAY_TICKS;
+    if (llmService.isFeatureAvailable('market_events')) {
+      this.generateWithLLM(this.buildRequest(game, currentTick), this.reserveEventId(), presentAtTick, game.playerCompanyId);
+      return;
+    }
+
+    // 随机选择模板；当前局面不适用（如没有AI公司）时换一个
+    const candidates = BUILTIN_TEMPLATES.filter(template => !template.chainOnly);
+    while (candidates.length > 0) {
+      const index = rng.nextInt(candidates.length);
+      const draft = candidates.splice(index, 1)[0]?.create(game);
+      if (draft) {
+        this.enqueueBuiltin(game, draft, this.reserveEventId(), presentAtTick);
+        return;
+      }
+    }
+  }
+
+  /**
+   * 推进决策事件：到期的事件按默认选项处理，到时间的事件出现
+   */
+  processTick(game: GameState, currentTick: number): DecisionEventUpdate[] {
+    const updates: DecisionEventUpdate[] = [];
+
+    for (const decision of Array.from(this.pending.values())) {
+      if (currentTick >= decision.deadlineTick) {
+        const result = this.resolve(game, decision, this.chooseTimeoutOption(game, decision), currentTick, true);
+        if (result.update) updates.push(result.update);
+      }
+    }
+
+    const due = this.queued.filter(queued => queued.presentAtTick <= currentTick);
+    this.queued = this.queued.filter(queued => queued.presentAtTick > currentTick);
+    for (const { presentAtTick: _presentAtTick, ...queued } of due) {
+      const decision: PendingDecision = {
+        ...queued,
+        event: { ...queued.event, triggeredAt: tickToGameTimestamp(currentTick) },
+        presentedTick: currentTick,
+        deadlineTick: currentTick + DECISION_DEADLINE_TICKS,
+      };
+      this.pending.set(decision.event.id, decision);
+      console.log(`[DecisionEvents] Presented ${decision.event.title} (${decision.event.id}), deadline tick ${decision.deadlineTick}`);
+      updates.push({
+        type: 'presented',
+        eventId: decision.event.id,
+        tick: currentTick,
+        message: `需要决策：${decision.event.title}`,
+        decision: structuredClone(decision),
+      });
+    }
+
+    return updates;
+  }
+
+  /**
+   * 玩家选择选项
+   */
+  respond(game: GameState, eventId: string, optionId: string, currentTick: number): DecisionResult {
+    const decision = this.pending.get(eventId);
+    if (!decision) {
+      return { success: false, error: '事件不存在或已处理' };
+    }
+    const option = decision.event.responseOptions?.find(o => o.id === optionId);
+    if (!option) {
+      return { success: false, error: '选项不存在' };
+    }
+
+    const unmet = this.getUnmetRequirements(game, option);
+    if (unmet.length > 0) {
+      return { success: false, error: `不满足条件：${unmet.join('，')}` };
+    }
+    if ((option.cost ?? 0) > inventoryManager.getCash(game.playerCompanyId)) {
+      return { success: false, error: '现金不足' };
+    }
+
+    return this.resolve(game, decision, option, currentTick, false);
+  }
+
+  /**
+   * 选项未满足的前置条件（说明文字）
+   */
+  getUnmetRequirements(game: GameState, option: EventResponseOption): string[] {
+    const unmet: string[] = [];
+    for (const requirement of option.requirements ?? []) {
+      const [kind, arg = ''] = requirement.split(':');
+      switch (kind) {
+        case 'cash':
+          if (inventoryManager.getCash(game.playerCompanyId) < Number(arg)) {
+            unmet.push(`现金不少于 ¥${(Number(arg) / 100).toLocaleString()}`);
+          }
+          break;
+        case 'buildings':
+          if (game.buildings.length < Number(arg)) {
+            unmet.push(`拥有至少 ${arg} 座建筑`);
+          }
+          break;
+        case 'building':
+          if (!game.buildings.some(building => building.definitionId === arg)) {
+            unmet.push(`拥有 ${BUILDINGS_DATA.find(def => def.id === arg)?.nameZh ?? arg}`);
+          }
+          break;
+        default:
+          unmet.push(`未知条件 ${requirement}`);
+      }
+    }
+    return unmet;
+  }
+
+  /**
+   * 是否有需要暂停游戏等待选择的事件
+   */
+  hasPausingDecision(): boolean {
+    return Array.from(this.pending.values()).some(decision => decision.pauseGame);
+  }
+
+  getPending(): PendingDecision[] {
+    return Array.from(this.pending.values());
+  }
+
+  getHistory(limit = 20): DecisionRecord[] {
+    return this.history.slice(-limit);
+  }
+
+  /**
+   * 结算选项：扣除成本、应用效果、触发连锁事件
+   */
+  private resolve(
+    game: GameState,
+    decision: PendingDecision,
+    option: EventResponseOption | undefined,
+    currentTick: number,
+    timedOut: boolean
+  ): DecisionResult {
+    const event = decision.event;
+    this.pending.delete(event.id);
+
+    const cost = option?.cost ?? 0;
+    if (option && cost > 0) {
+      inventoryManager.deductCash(game.playerCompanyId, cost, currentTick, `event_choice:${event.id}`);
+      game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+    }
+
+    const applied = option
+      ? eventEffectManager.applyEffects(option.effects, { game, currentTick, source: event.title })
+      : [];
+
+    const record: DecisionRecord = {
+      eventId: event.id,
+      title: event.title,
+      optionId: option?.id ?? '',
+      optionLabel: option?.label ?? '无可用选项',
+      tick: currentTick,
+      timedOut,
+      cost,
+      effects: applied.map(result => result.description),
+    };
+
+    if (option) {
+      const followUpEventId = this.scheduleFollowUp(game, decision, option, currentTick);
+      if (followUpEventId) {
+        record.followUpEventId = followUpEventId;
+      }
+    }
+
+    this.history.push(record);
+    if (this.history.length > MAX_DECISION_RECORDS) {
+      this.history.splice(0, this.history.length - MAX_DECISION_RECORDS);
+    }
+
+    const message = timedOut
+      ? `${event.title}：未及时决策，按「${record.optionLabel}」处理`
+      : `${event.title}：选择了「${record.optionLabel}」`;
+    console.log(`[DecisionEvents] ${message}`);
+
+    return {
+      success: true,
+      update: { type: 'resolved', eventId: event.id, tick: currentTick, message, record: { ...record } },
+    };
+  }
+
+  /**
+   * 超时选项：默认选项，不满足条件或付不起时取第一个可选的选项
+   */
+  private chooseTimeoutOption(game: GameState, decision: PendingDecision): EventResponseOption | undefined {
+    const options = decision.event.responseOptions ?? [];
+    const cash = inventoryManager.getCash(game.playerCompanyId);
+    const feasible = (option: EventResponseOption) =>
+      (option.cost ?? 0) <= cash && this.getUnmetRequirements(game, option).length === 0;
+
+    const defaultOption = options.find(option => option.id === decision.defaultOptionId);
+    return defaultOption && feasible(defaultOption) ? defaultOption : options.find(feasible);
+  }
+
+  /**
+   * 安排连锁事件，返回其事件ID
+   * 选项带 llmFollowUp 且 LLM 可用时由 LLM 生成，否则使用内置连锁模板
+   */
+  private scheduleFollowUp(
+    game: GameState,
+    decision: PendingDecision,
+    option: EventResponseOption,
+    currentTick: number
+  ): string | undefined {
+    const presentAtTick = currentTick + FOLLOW_UP_DELAY_TICKS;
+
+    if (option.llmFollowUp && llmService.isFeatureAvailable('market_events')) {
+      const eventId = this.reserveEventId();
+      this.generateWithLLM({
+        ...this.buildRequest(game, currentTick),
+        followUp: { parentTitle: decision.event.title, choice: option.label, prompt: option.llmFollowUp },
+      }, eventId, presentAtTick, game.playerCompanyId, decision.event.id);
+      return eventId;
+    }
+
+    const draft = BUILTIN_TEMPLATE_MAP.get(decision.followUps?.[option.id] ?? '')?.create(game);
+    if (draft) {
+      const eventId = this.reserveEventId();
+      this.enqueueBuiltin(game, draft, eventId, presentAtTick, decision.event.id);
+      return eventId;
+    }
+    return undefined;
+  }
+
+  /**
+   * 按内置模板生成的内容创建事件并排队
+   */
+  private enqueueBuiltin(
+    game: GameState,
+    draft: BuiltinDecisionDraft,
+    eventId: string,
+    presentAtTick: number,
+    triggeredByEventId?: string
+  ): void {
+    const followUps: Record<string, string> = {};
+    const options = draft.options.map(({ followUpTemplateId, ...option }) => {
+      if (followUpTemplateId) followUps[option.id] = followUpTemplateId;
+      return option;
+    });
+
+    this.enqueue({
+      event: this.createEvent(game.playerCompanyId, eventId, presentAtTick, {
+        title: draft.title,
+        headline: draft.headline,
+        content: draft.content,
+        category: draft.category,
+        severity: draft.severity,
+        responseOptions: options,
+        isLLMGenerated: false,
+        ...(triggeredByEventId ? { triggeredByEventId } : {}),
+      }),
+      presentAtTick,
+      defaultOptionId: draft.defaultOptionId,
+      pauseGame: draft.severity === EventSeverity.Critical,
+      ...(Object.keys(followUps).length > 0 ? { followUps } : {}),
+    });
+  }
+
+  /**
+   * 异步调用 LLM 生成事件，成功后排队
+   */
+  private generateWithLLM(
+    request: DecisionEventRequest,
+    eventId: string,
+    presentAtTick: number,
+    playerCompanyId: string,
+    triggeredByEventId?: string
+  ): void {
+    this.generating++;
+    void llmService.generateDecisionEvent(request)
+      .then(generated => {
+        if (!generated) {
+          console.log(`[DecisionEvents] LLM produced no decision event for ${eventId}`);
+          return;
+        }
+        const options: EventResponseOption[] = generated.options.map((option, index) => ({
+          id: `option-${index + 1}`,
+          label: option.label,
+          description: option.description,
+          ...(option.cost > 0 ? { cost: Math.round(option.cost * 100) } : {}),
+          effects: option.effects.map(toEventEffect),
+          ...(option.followUp ? { llmFollowUp: option.followUp } : {}),
+        }));
+        this.enqueue({
+          event: this.createEvent(playerCompanyId, eventId, presentAtTick, {
+            title: generated.title,
+            headline: generated.headline,
+            content: generated.description,
+            category: generated.category,
+            severity: generated.severity,
+            responseOptions: options,
+            isLLMGenerated: true,
+            ...(triggeredByEventId ? { triggeredByEventId } : {}),
+            ...(request.followUp ? { prompt: request.followUp.prompt } : {}),
+          }),
+          presentAtTick,
+          defaultOptionId: options[generated.defaultOption]?.id ?? options[0]?.id ?? '',
+          pauseGame: generated.severity === EventSeverity.Critical,
+        });
+      })
+      .finally(() => {
+        this.generating--;
+      });
+  }
+
+  private enqueue(queued: QueuedDecision): void {
+    this.queued.push(queued);
+    console.log(`[DecisionEvents] Queued ${queued.event.title} (${queued.event.id}) for tick ${queued.presentAtTick}`);
+  }
+
+  private reserveEventId(): string {
+    return `decision-${this.nextSequence++}`;
+  }
+
+  private createEvent(
+    playerCompanyId: string,
+    eventId: string,
+    presentAtTick: number,
+    content: Pick<GameEvent, 'title' | 'headline' | 'content' | 'category' | 'severity' | 'responseOptions' | 'isLLMGenerated'>
+      & { triggeredByEventId?: string; prompt?: string }
+  ): GameEvent {
+    const { triggeredByEventId, prompt, ...fields } = content;
+    return {
+      id: eventId,
+      ...fields,
+      titleZh: fields.title,
+      generationContext: {
+        trigger: triggeredByEventId ? 'player_action' : 'random',
+        relevantEntities: [playerCompanyId],
+        marketConditions: {},
+        ...(prompt ? { prompt } : {}),
+      },
+      triggeredAt: tickToGameTimestamp(presentAtTick),
+      effects: [],
+      requiresResponse: true,
+      visibleToCompanies: [playerCompanyId],
+      discoveredBy: [],
+      ...(triggeredByEventId ? { triggeredByEventId } : {}),
+    };
+  }
+
+  /**
+   * LLM 生成请求（玩家概况、市场状况、竞争对手）
+   */
+  private buildRequest(game: GameState, currentTick: number): DecisionEventRequest {
+    const industries = new Set<string>();
+    for (const building of game.buildings) {
+      const category = BUILDINGS_DATA.find(def => def.id === building.definitionId)?.category;
+      if (category) industries.add(category);
+    }
+
+    const marketConditions: string[] = [];
+    for (const [goodsId, data] of game.supplyDemand) {
+      const ratio = data.supply > 0 ? data.demand / data.supply : 2;
+      if (ratio > 1.5) {
+        marketConditions.push(`${goodsId}供不应求`);
+      } else if (ratio < 0.6) {
+        marketConditions.push(`${goodsId}供过于求`);
+      }
+    }
+
+    return {
+      currentTick,
+      playerCash: inventoryManager.getCash(game.playerCompanyId),
+      buildingCount: game.buildings.length,
+      playerIndustries: Array.from(industries),
+      marketConditions: marketConditions.slice(0, 3).join(', ') || '市场平稳',
+      companies: Array.from(aiCompanyManager.getCompanies().values(), company => ({ id: company.id, name: company.name })),
+    };
+  }
+
+  /**
+   * 导出决策事件状态（用于存档）
+   */
+  exportState(): DecisionSnapshotState {
+    return structuredClone({
+      queued: this.queued,
+      pending: Array.from(this.pending.values()),
+      history: this.history,
+      nextSequence: this.nextSequence,
+    });
+  }
+
+  /**
+   * 从存档恢复决策事件状态
+   */
+  importState(state: DecisionSnapshotState): void {
+    const restored = structuredClone(state);
+    this.queued = restored.queued;
+    this.pending = new Map(restored.pending.map(decision => [decision.event.id, decision]));
+    this.history = restored.history;
+    this.nextSequence = restored.nextSequence;
+    this.generating = 0;
+    console.log(`[DecisionEvents] Restored ${this.pending.size} pending and ${this.queued.length} queued decisions`);
+  }
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const decisionEventService = worldScoped('decisionEventService');
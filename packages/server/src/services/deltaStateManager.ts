@@ -66,6 +66,12 @@ export interface DeltaUpdate {
   /** 市场事件（只在有事件时发送） */
   marketEvents?: TickUpdate['marketEvents'];
   
+  /** 玩家决策事件（只在有事件出现或结算时发送） */
+  decisionEvents?: TickUpdate['decisionEvents'];
+  
+  /** 剧本进度（检查胜负条件时发送） */
+  scenarioUpdate?: TickUpdate['scenarioUpdate'];
+  
   /** 经济系统统计（定期发送） */
   economyStats?: TickUpdate['economyStats'];
 }
@@ -166,6 +172,8 @@ export class DeltaStateManager {
     if (update.buildingShortages && update.buildingShortages.length > 0) delta.buildingShortages = update.buildingShortages;
     if (update.tickVolumes) delta.tickVolumes = update.tickVolumes;
     if (update.marketEvents && update.marketEvents.length > 0) delta.marketEvents = update.marketEvents;
+    if (update.decisionEvents && update.decisionEvents.length > 0) delta.decisionEvents = update.decisionEvents;
+    if (update.scenarioUpdate) delta.scenarioUpdate = update.scenarioUpdate;
     if (update.economyStats) delta.economyStats = update.economyStats;
     
     return delta;
@@ -232,7 +240,8 @@ export class DeltaStateManager {
     // 研发更新
     if (update.researchUpdates && 
         (update.researchUpdates.completedProjects.length > 0 || 
-         update.researchUpdates.newTechnologies.length > 0)) {
+         update.researchUpdates.newTechnologies.length > 0 ||
+         update.researchUpdates.events.length > 0)) {
       delta.researchUpdates = update.researchUpdates;
     }
     
@@ -263,6 +272,16 @@ export class DeltaStateManager {
       delta.marketEvents = update.marketEvents;
     }
     
+    // 玩家决策事件
+    if (update.decisionEvents && update.decisionEvents.length > 0) {
+      delta.decisionEvents = update.decisionEvents;
+    }
+    
+    // 剧本进度
+    if (update.scenarioUpdate) {
+      delta.scenarioUpdate = update.scenarioUpdate;
+    }
+    
     // AI公司状态（每10个tick检查一次变化）
     if (update.tick % 10 === 0 && update.aiCompanies) {
       const hasAIChange = update.aiCompanies.some(ai => {
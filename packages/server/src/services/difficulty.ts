@@ -0,0 +1,138 @@
+/**
+ * Difficulty Settings - 难度设置
+ *
+ * 难度预设（DIFFICULTY_PRESETS，见 @scc/shared）按倍率调整现有的模拟参数：
+ * - AI：攻击性、风险偏好、决策间隔（AICompanyManager 通过 getAIConfig 读取调整后的配置）
+ * - 玩家：自由模式启动资金（GameLoop 建局时）、建造人工费和工期
+ * - 市场事件：按权重重新抽取严重程度，效果幅度随之缩放
+ * - 股市：随机噪声幅度（StockMarketService.calculateNoiseImpact）
+ * - 沙盒：玩家不会破产（BankruptcyService），允许直接注入资金
+ *
+ * 难度记录在 GameState 中随存档保存；每个游戏世界一个实例，由 GameLoop 在建局 / 读档时设置
+ */
+
+import {
+  AI_COMPANIES_CONFIG,
+  DIFFICULTY_PRESETS,
+  Difficulty,
+  EventEffectType,
+  type AICompanyConfig,
+  type DifficultyPreset,
+  type MarketEventSeverity,
+} from '@scc/shared';
+import { MARKET_EVENT_SEVERITIES } from './llmSchemas.js';
+import type { MarketEventGenerated } from './gameLoop.js';
+import { rng } from './rng.js';
+import { worldScoped } from './worldContext.js';
+
+/** 各严重程度的效果幅度（相对值，用于重新抽取严重程度后缩放效果） */
+const SEVERITY_SCALE: Record<MarketEventSeverity, number> = {
+  minor: 0.5,
+  moderate: 1,
+  major: 1.5,
+  critical: 2,
+};
+
+/** 市场事件价格 / 供给变化的上限（与提示词约定一致） */
+const MAX_MARKET_CHANGE = 0.3;
+
+/**
+ * 难度设置
+ * 每个游戏世界一个实例
+ */
+export class DifficultySettings {
+  private difficulty: Difficulty = Difficulty.Normal;
+  private aiConfigs = new Map<string, AICompanyConfig>();
+
+  /**
+   * 设置难度（必须先于 AI 公司初始化）
+   */
+  setDifficulty(difficulty: Difficulty): void {
+    this.difficulty = difficulty;
+    this.aiConfigs.clear();
+
+    const preset = this.getPreset();
+    for (const config of AI_COMPANIES_CONFIG) {
+      this.aiConfigs.set(config.id, {
+        ...config,
+        aggressiveness: Math.min(1, config.aggressiveness * preset.aiAggressionMultiplier),
+        riskTolerance: Math.min(1, config.riskTolerance * preset.aiRiskToleranceMultiplier),
+        decisionInterval: Math.max(1, Math.round(config.decisionInterval * preset.aiDecisionIntervalMultiplier)),
+      });
+    }
+    console.log(`[Difficulty] ${difficulty}`);
+  }
+
+  getDifficulty(): Difficulty {
+    return this.difficulty;
+  }
+
+  getPreset(): DifficultyPreset {
+    return DIFFICULTY_PRESETS[this.difficulty];
+  }
+
+  /**
+   * 按难度调整后的 AI 公司配置
+   */
+  getAIConfig(companyId: string): AICompanyConfig | undefined {
+    return this.aiConfigs.get(companyId) ?? AI_COMPANIES_CONFIG.find(config => config.id === companyId);
+  }
+
+  /**
+   * 玩家建造人工费
+   */
+  scaleConstructionCost(cost: number): number {
+    return Math.round(cost * this.getPreset().constructionCostMultiplier);
+  }
+
+  /**
+   * 玩家建造工期（至少 1 tick）
+   */
+  scaleConstructionTime(ticks: number): number {
+    return Math.max(1, Math.round(ticks * this.getPreset().constructionTimeMultiplier));
+  }
+
+  /**
+   * 按难度重新抽取市场事件的严重程度，价格 / 供给变化和机制效果按幅度比例缩放
+   * 预设没有权重时原样返回
+   */
+  rebalanceMarketEvent(event: MarketEventGenerated): MarketEventGenerated {
+    const weights = this.getPreset().eventSeverityWeights;
+    if (!weights) return event;
+
+    const severity = this.rollSeverity(weights);
+    if (severity === event.severity) return event;
+    const scale = SEVERITY_SCALE[severity] / SEVERITY_SCALE[event.severity];
+
+    const scaleChanges = (changes: Record<string, number>): Record<string, number> =>
+      Object.fromEntries(Object.entries(changes).map(([goodsId, change]) => [
+        goodsId,
+        Math.max(-MAX_MARKET_CHANGE, Math.min(MAX_MARKET_CHANGE, change * scale)),
+      ]));
+
+    const effects: MarketEventGenerated['effects'] = {};
+    if (event.effects.priceChanges) effects.priceChanges = scaleChanges(event.effects.priceChanges);
+    if (event.effects.supplyChanges) effects.supplyChanges = scaleChanges(event.effects.supplyChanges);
+    if (event.effects.modifiers) {
+      effects.modifiers = event.effects.modifiers.map(modifier => {
+        const limit = modifier.type === EventEffectType.DemandModifier ? 0.3 : 0.5;
+        return { ...modifier, value: Math.max(-limit, Math.min(limit, modifier.value * scale)) };
+      });
+    }
+
+    return { ...event, severity, effects };
+  }
+
+  private rollSeverity(weights: Record<MarketEventSeverity, number>): MarketEventSeverity {
+    const total = MARKET_EVENT_SEVERITIES.reduce((sum, severity) => sum + weights[severity], 0);
+    let roll = rng.next() * total;
+    for (const severity of MARKET_EVENT_SEVERITIES) {
+      roll -= weights[severity];
+      if (roll < 0) return severity;
+    }
+    return 'moderate';
+  }
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const difficultySettings = worldScoped('difficultySettings');
@@ -11,9 +11,10 @@ import { GOODS_DATA } from '@scc/shared';
 import { inventoryManager } from './inventoryManager.js';
 import { marketOrderBook } from './marketOrderBook.js';
 import { matchingEngine, type MarketShareData, type CompanyShare } from './matchingEngine.js';
-import { priceDiscoveryService } from './priceDiscovery.js';
+import { priceDiscoveryService, type GoodsPriceState } from './priceDiscovery.js';
 import { aiCompanyManager } from './aiCompanyManager.js';
 import { popsConsumptionManager } from './popsConsumption.js';
+import { worldScoped } from './worldContext.js';
 
 // 重新导出类型供外部使用
 export type { MarketShareData, CompanyShare };
@@ -40,7 +41,16 @@ interface AICompanyStats {
 }
 
 /**
- * 经济系统管理器 - 单例
+ * 经济系统存档数据
+ */
+export interface EconomySnapshotState {
+  currentTick: number;
+  prices: GoodsPriceState[];
+  popsSatisfaction: Record<string, Record<string, number>>;
+}
+
+/**
+ * 经济系统管理器 - 每个游戏世界一个实例
  */
 export class EconomyManager extends EventEmitter {
   private initialized: boolean = false;
@@ -86,6 +96,7 @@ export class EconomyManager extends EventEmitter {
       supplyDemand: new Map(), // AI公司不需要这个，使用 priceDiscoveryService
       playerBuildings: [],     // 玩家建筑信息由 gameLoop 传递
       playerCash: 0,           // 玩家现金由 gameLoop 传递
+      playerCompanyId: '',     // 玩家公司由 gameLoop 传递
     };
   }
   
@@ -438,7 +449,36 @@ export class EconomyManager extends EventEmitter {
     
     console.log('[EconomyManager] Economic system reset');
   }
+  
+  /**
+   * 导出经济系统状态（用于存档）
+   * 库存由 inventoryManager 单独导出；挂单和撮合缓存属于瞬时状态，不保存
+   */
+  exportState(): EconomySnapshotState {
+    return {
+      currentTick: this.currentTick,
+      prices: priceDiscoveryService.exportState(),
+      popsSatisfaction: popsConsumptionManager.exportSatisfaction(),
+    };
+  }
+  
+  /**
+   * 从存档恢复经济系统状态
+   * 调用前需先恢复 inventoryManager 和 aiCompanyManager
+   */
+  importState(state: EconomySnapshotState): void {
+    marketOrderBook.reset();
+    matchingEngine.reset();
+    priceDiscoveryService.importState(state.prices);
+    popsConsumptionManager.importSatisfaction(state.popsSatisfaction);
+    
+    this.currentTick = state.currentTick;
+    this.lastStats = null;
+    this.initialized = true;
+    
+    console.log(`[EconomyManager] Economic system restored at tick ${state.currentTick}`);
+  }
 }
 
-// 单例实例
-export const economyManager = new EconomyManager();
\ No newline at end of file
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const economyManager = worldScoped('economyManager');
\ No newline at end of file
@@ -0,0 +1,412 @@
+/**
+ * Event Effects - 事件效果结算
+ *
+ * 把 GameEvent / EventResponseOption / 市场事件中的 EventEffect 应用到对应的子系统：
+ * - price_modifier / supply_modifier / demand_modifier：作用于 targetId 商品（isMultiplier 时 value 为倍率，否则为增量），
+ *   价格按基准价的上下限收敛，供需量不低于 100
+ * - fine_imposed / subsidy_grant：通过 inventoryManager 从 targetId 公司（默认玩家）扣除 / 发放 value 现金；罚款超过现金时扣至为零
+ * - reputation_change：调整 targetId AI公司（未指定时为全部AI公司）对玩家的信任度，value 为变化量
+ * - tech_block / tech_unlock：通过 technologyEffectManager 禁止 / 豁免 targetId 生产方式
+ * - resource_discovery / resource_depletion：提高 / 降低开采类建筑的产量，targetId 为资源商品或开采建筑
+ * - regulation_change：改变 targetId 建筑或建筑类别（未指定时为全部建筑）的运营成本
+ * - tax_change：改变全部建筑的运营成本
+ * 产量和成本类效果的 value 在 isMultiplier 时为倍率，否则为变化比例（0.2 = +20%）
+ *
+ * 非永久且带 durationTicks 的效果到期后回滚：商品效果按生效时的倍率除回，修饰符、禁令和豁免撤销。
+ * 现金和信任度变化是一次性的，不回滚；tag_injection / tag_removal 暂无对应系统，记为未应用。
+ */
+
+import {
+  BUILDINGS_DATA,
+  EventEffectType,
+  GOODS_DATA,
+  ECONOMY_CONSTANTS,
+  type EventEffect,
+} from '@scc/shared';
+import type { GameState } from './gameLoop.js';
+import { inventoryManager } from './inventoryManager.js';
+import { aiCompanyManager } from './aiCompanyManager.js';
+import { technologyEffectManager, type TechnologyModifier } from './technologyEffectManager.js';
+import { worldScoped } from './worldContext.js';
+
+const GOODS_BASE_PRICES = new Map(GOODS_DATA.map(g => [g.id, g.basePrice]));
+
+/** 所有建筑定义中的生产方式ID */
+const PRODUCTION_METHOD_IDS = new Set(BUILDINGS_DATA.flatMap(b => b.productionSlots.flatMap(s => s.methods.map(m => m.id))));
+
+/** 建筑类别 */
+const BUILDING_CATEGORIES = new Set<string>(BUILDINGS_DATA.map(b => b.category));
+
+/** 开采类建筑 */
+const EXTRACTION_BUILDINGS = BUILDINGS_DATA.filter(b => b.category === 'extraction');
+
+/** 供需量下限 */
+const MIN_SUPPLY_DEMAND = 100;
+
+/** 产量 / 成本倍率范围 */
+const MIN_MODIFIER_RATIO = 0.1;
+const MAX_MODIFIER_RATIO = 3;
+
+/**
+ * 效果结算上下文
+ */
+export interface EventEffectContext {
+  game: GameState;
+  currentTick: number;
+  /** 效果来源（日志、资金流水和关系记录的原因） */
+  source: string;
+}
+
+/**
+ * 单个效果的结算结果
+ */
+export interface AppliedEventEffect {
+  effect: EventEffect;
+  applied: boolean;
+  description: string;
+  /** 需要到期回滚或读档时重新登记的效果ID */
+  activeEffectId?: string;
+}
+
+/**
+ * 持续中的效果
+ */
+export interface ActiveEventEffect {
+  id: string;
+  effect: EventEffect;
+  source: string;
+  appliedTick: number;
+  /** 到期 tick，永久效果没有 */
+  expiresAtTick?: number;
+  /** 商品效果实际生效的倍率（回滚时除回） */
+  appliedRatio?: number;
+  description: string;
+}
+
+/**
+ * 到期回滚的效果
+ */
+export interface ExpiredEventEffect {
+  id: string;
+  source: string;
+  description: string;
+}
+
+/**
+ * 事件效果存档数据
+ */
+export interface EventEffectSnapshotState {
+  active: ActiveEventEffect[];
+  nextSequence: number;
+}
+
+/**
+ * 事件效果管理器
+ * 每个游戏世界一个实例
+ */
+export class EventEffectManager {
+  private active = new Map<string, ActiveEventEffect>();
+  private nextSequence = 1;
+
+  /**
+   * 按顺序结算一组效果
+   */
+  applyEffects(effects: EventEffect[], context: EventEffectContext): AppliedEventEffect[] {
+    return effects.map(effect => this.applyEffect(effect, context));
+  }
+
+  /**
+   * 结算单个效果
+   */
+  applyEffect(effect: EventEffect, context: EventEffectContext): AppliedEventEffect {
+    const expiresAtTick = !effect.permanent && effect.durationTicks !== undefined && effect.durationTicks > 0
+      ? context.currentTick + effect.durationTicks
+      : undefined;
+    const duration = expiresAtTick !== undefined ? `，持续 ${effect.durationTicks} 天` : '';
+
+    const result = (applied: boolean, description: string): AppliedEventEffect => {
+      console.log(`[EventEffects] ${context.source}: ${description}${applied ? '' : '（未应用）'}`);
+      return { effect, applied, description };
+    };
+
+    // 需要回滚或读档时重新登记的效果
+    const track = (description: string, appliedRatio?: number): AppliedEventEffect => {
+      const id = `effect-${this.nextSequence++}`;
+      this.active.set(id, {
+        id,
+        effect: structuredClone(effect),
+        source: context.source,
+        appliedTick: context.currentTick,
+        ...(expiresAtTick !== undefined ? { expiresAtTick } : {}),
+        ...(appliedRatio !== undefined ? { appliedRatio } : {}),
+        description,
+      });
+      this.register(id, effect);
+      return { ...result(true, `${description}${duration}`), activeEffectId: id };
+    };
+
+    switch (effect.type) {
+      case EventEffectType.PriceModifier:
+      case EventEffectType.SupplyModifier:
+      case EventEffectType.DemandModifier: {
+        const change = this.applyGoodsChange(context.game, effect, current => modify(current, effect));
+        if (!change) {
+          return result(false, `未知商品 ${effect.targetId ?? '(未指定)'}`);
+        }
+        return expiresAtTick !== undefined && change.ratio !== 1
+          ? track(change.description, change.ratio)
+          : result(true, change.description);
+      }
+
+      case EventEffectType.FineImposed: {
+        const companyId = effect.targetId ?? context.game.playerCompanyId;
+        const amount = Math.min(Math.round(Math.abs(effect.value)), inventoryManager.getCash(companyId));
+        const deducted = amount > 0 && inventoryManager.deductCash(companyId, amount, context.currentTick, `event_fine:${context.source}`).success;
+        syncPlayerCash(context.game, companyId);
+        return result(deducted, `${companyId} 被罚款 ${amount}`);
+      }
+
+      case EventEffectType.SubsidyGrant: {
+        const companyId = effect.targetId ?? context.game.playerCompanyId;
+        const amount = Math.round(Math.abs(effect.value));
+        const granted = amount > 0 && inventoryManager.addCash(companyId, amount, context.currentTick, `event_subsidy:${context.source}`).success;
+        syncPlayerCash(context.game, companyId);
+        return result(granted, `${companyId} 获得补贴 ${amount}`);
+      }
+
+      case EventEffectType.ReputationChange: {
+        const companies = effect.targetId !== undefined
+          ? [effect.targetId].filter(id => aiCompanyManager.getCompanies().has(id))
+          : Array.from(aiCompanyManager.getCompanies().keys());
+        if (companies.length === 0) {
+          return result(false, `未知公司 ${effect.targetId ?? '(无AI公司)'}`);
+        }
+        const trustChange = Math.round(effect.value);
+        for (const companyId of companies) {
+          aiCompanyManager.adjustPlayerRelationship(companyId, trustChange, -trustChange / 2, context.source, context.currentTick);
+        }
+        return result(true, `${companies.length} 家公司对玩家信任度 ${trustChange >= 0 ? '+' : ''}${trustChange}`);
+      }
+
+      case EventEffectType.TechBlock:
+      case EventEffectType.TechUnlock: {
+        if (effect.targetId === undefined || !PRODUCTION_METHOD_IDS.has(effect.targetId)) {
+          return result(false, `未知生产方式 ${effect.targetId ?? '(未指定)'}`);
+        }
+        return track(`生产方式 ${effect.targetId} ${effect.type === EventEffectType.TechBlock ? '被禁止' : '获得豁免'}`);
+      }
+
+      case EventEffectType.ResourceDiscovery:
+      case EventEffectType.ResourceDepletion: {
+        const buildingIds = resolveExtractionBuildings(effect.targetId);
+        if (buildingIds.length === 0) {
+          return result(false, `没有开采 ${effect.targetId ?? '(未指定)'} 的建筑`);
+        }
+        const ratio = resourceRatio(effect);
+        return track(`${buildingIds.join('、')} 产量 ×${ratio.toFixed(2)}`);
+      }
+
+      case EventEffectType.RegulationChange:
+      case EventEffectType.TaxChange: {
+        const target = effect.type === EventEffectType.TaxChange ? undefined : effect.targetId;
+        if (target !== undefined && !BUILDING_CATEGORIES.has(target) && !BUILDINGS_DATA.some(b => b.id === target)) {
+          return result(false, `未知建筑 ${target}`);
+        }
+        return track(`${target ?? '全部建筑'} 运营成本 ×${modifierRatio(effect).toFixed(2)}`);
+      }
+
+      default:
+        return result(false, `暂不支持的效果类型 ${effect.type}`);
+    }
+  }
+
+  /**
+   * 回滚到期的效果（每 tick 调用）
+   */
+  processTick(game: GameState, currentTick: number): ExpiredEventEffect[] {
+    const expired: ExpiredEventEffect[] = [];
+
+    for (const active of Array.from(this.active.values())) {
+      if (active.expiresAtTick === undefined || currentTick < active.expiresAtTick) continue;
+
+      this.active.delete(active.id);
+      this.unregister(active.id, active.effect);
+
+      let description = `${active.description} 已结束`;
+      if (active.appliedRatio !== undefined) {
+        const ratio = active.appliedRatio;
+        const change = this.applyGoodsChange(game, active.effect, current => current / ratio);
+        description = change ? `${active.source} 的影响结束：${change.description}` : description;
+      }
+
+      console.log(`[EventEffects] Expired ${active.id} (${active.source}): ${description}`);
+      expired.push({ id: active.id, source: active.source, description });
+    }
+
+    return expired;
+  }
+
+  /**
+   * 获取持续中的效果
+   */
+  getActiveEffects(): ActiveEventEffect[] {
+    return Array.from(this.active.values());
+  }
+
+  /**
+   * 导出状态（用于存档）
+   */
+  exportState(): EventEffectSnapshotState {
+    return {
+      active: structuredClone(this.getActiveEffects()),
+      nextSequence: this.nextSequence,
+    };
+  }
+
+  /**
+   * 从存档恢复，重新登记修饰符、禁令和豁免
+   * 需在 technologyEffectManager 恢复之后调用（其恢复会清空事件修饰符）
+   */
+  importState(state: EventEffectSnapshotState): void {
+    this.active = new Map(structuredClone(state.active).map(active => [active.id, active]));
+    this.nextSequence = state.nextSequence;
+    for (const active of this.active.values()) {
+      this.register(active.id, active.effect);
+    }
+  }
+
+  /**
+   * 在 technologyEffectManager 中登记效果
+   */
+  private register(id: string, effect: EventEffect): void {
+    switch (effect.type) {
+      case EventEffectType.TechBlock:
+        technologyEffectManager.blockMethod(effect.targetId ?? '', id);
+        break;
+      case EventEffectType.TechUnlock:
+        technologyEffectManager.exemptMethod(effect.targetId ?? '', id);
+        break;
+      case EventEffectType.ResourceDiscovery:
+      case EventEffectType.ResourceDepletion: {
+        const value = resourceRatio(effect) - 1;
+        technologyEffectManager.addEventModifiers(id, resolveExtractionBuildings(effect.targetId).map((buildingId): TechnologyModifier => ({
+          targetType: 'building',
+          targetId: buildingId,
+          modifierType: 'output_increase',
+          value,
+          isMultiplier: true,
+        })));
+        break;
+      }
+      case EventEffectType.RegulationChange:
+      case EventEffectType.TaxChange: {
+        const target = effect.type === EventEffectType.TaxChange ? undefined : effect.targetId;
+        technologyEffectManager.addEventModifiers(id, [{
+          targetType: target !== undefined ? 'building' : 'global',
+          targetId: target,
+          modifierType: 'cost_reduction',
+          value: 1 - modifierRatio(effect),
+          isMultiplier: true,
+        }]);
+        break;
+      }
+    }
+  }
+
+  /**
+   * 撤销效果在 technologyEffectManager 中的登记
+   */
+  private unregister(id: string, effect: EventEffect): void {
+    switch (effect.type) {
+      case EventEffectType.TechBlock:
+        technologyEffectManager.unblockMethod(effect.targetId ?? '', id);
+        break;
+      case EventEffectType.TechUnlock:
+        technologyEffectManager.removeMethodExemption(effect.targetId ?? '', id);
+        break;
+      default:
+        technologyEffectManager.removeEventModifiers(id);
+    }
+  }
+
+  /**
+   * 修改商品价格或供需量，返回实际生效的倍率
+   */
+  private applyGoodsChange(
+    game: GameState,
+    effect: EventEffect,
+    compute: (current: number) => number
+  ): { ratio: number; description: string } | null {
+    const goodsId = effect.targetId;
+    if (goodsId === undefined) return null;
+
+    if (effect.type === EventEffectType.PriceModifier) {
+      const currentPrice = game.marketPrices.get(goodsId);
+      if (currentPrice === undefined || currentPrice <= 0) return null;
+      const basePrice = GOODS_BASE_PRICES.get(goodsId) ?? currentPrice;
+      const newPrice = Math.round(Math.max(
+        basePrice * ECONOMY_CONSTANTS.MIN_PRICE_MULTIPLIER,
+        Math.min(basePrice * ECONOMY_CONSTANTS.MAX_PRICE_MULTIPLIER, compute(currentPrice))
+      ));
+      game.marketPrices.set(goodsId, newPrice);
+      return { ratio: newPrice / currentPrice, description: `${goodsId} 价格 ${currentPrice} -> ${newPrice}` };
+    }
+
+    const data = game.supplyDemand.get(goodsId);
+    if (!data) return null;
+    const field = effect.type === EventEffectType.SupplyModifier ? 'supply' : 'demand';
+    const before = data[field];
+    data[field] = Math.max(MIN_SUPPLY_DEMAND, compute(before));
+    return {
+      ratio: before > 0 ? data[field] / before : 1,
+      description: `${goodsId} ${field === 'supply' ? '供给' : '需求'} ${Math.round(before)} -> ${Math.round(data[field])}`,
+    };
+  }
+}
+
+/**
+ * 按倍率或增量修改数值
+ */
+function modify(current: number, effect: EventEffect): number {
+  return effect.isMultiplier ? current * effect.value : current + effect.value;
+}
+
+/**
+ * 产量 / 成本类效果的倍率
+ */
+function modifierRatio(effect: EventEffect): number {
+  const ratio = effect.isMultiplier ? effect.value : 1 + effect.value;
+  return Math.max(MIN_MODIFIER_RATIO, Math.min(MAX_MODIFIER_RATIO, ratio));
+}
+
+/**
+ * 资源效果的产量倍率：发现只会提高，枯竭只会降低
+ */
+function resourceRatio(effect: EventEffect): number {
+  const change = Math.abs(modifierRatio(effect) - 1);
+  const ratio = effect.type === EventEffectType.ResourceDiscovery ? 1 + change : 1 - change;
+  return Math.max(MIN_MODIFIER_RATIO, ratio);
+}
+
+/**
+ * 资源效果作用的开采建筑：targetId 为开采建筑ID或其产出的商品ID
+ */
+function resolveExtractionBuildings(targetId: string | undefined): string[] {
+  if (targetId === undefined) return [];
+  if (EXTRACTION_BUILDINGS.some(b => b.id === targetId)) return [targetId];
+  return EXTRACTION_BUILDINGS
+    .filter(b => b.productionSlots.some(slot => slot.methods.some(m => m.recipe.outputs.some(o => o.goodsId === targetId))))
+    .map(b => b.id);
+}
+
+/**
+ * 玩家现金变化后同步到游戏状态
+ */
+function syncPlayerCash(game: GameState, companyId: string): void {
+  if (companyId === game.playerCompanyId) {
+    game.playerCash = inventoryManager.getCash(companyId);
+  }
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const eventEffectManager = worldScoped('eventEffectManager');
@@ -28,10 +28,16 @@ import {
   getConstructionTime,
   getConstructionMaterials,
   calculateConstructionCost,
+  tickToGameTimestamp,
+  EventEffectType,
+  Difficulty,
+  DIFFICULTY_PRESETS,
   type BuildingDef,
+  type EventEffect,
+  type ProductionRecipe,
 } from '@scc/shared';
 import { aiCompanyManager, type CompetitionEvent } from './aiCompanyManager.js';
-import { llmService } from './llm.js';
+import { llmService, type GeneratedMarketEvent } from './llm.js';
 import { researchService } from './researchService.js';
 import { technologyEffectManager } from './technologyEffectManager.js';
 import { economyManager } from './economyManager.js';
@@ -41,13 +47,33 @@ import { marketOrderBook } from './marketOrderBook.js';
 import { matchingEngine } from './matchingEngine.js';
 import { stockMarketService } from './stockMarket.js';
 import { aiStockTradingService } from './aiStockTrading.js';
+import { contractService, type ContractEvent } from './contractService.js';
+import { bankingService, type BankingEvent } from './bankingService.js';
+import { bankruptcyService, type BankruptcyEvent } from './bankruptcyService.js';
+import { takeoverService, type TakeoverEvent } from './takeoverService.js';
+import { decisionEventService, type DecisionEventUpdate, type DecisionResult } from './decisionEvents.js';
+import { eventEffectManager } from './eventEffects.js';
+import { scenarioRegistry, scenarioService, DEFAULT_STARTING_CASH, type ScenarioDefinition, type ScenarioStatus } from './scenarios.js';
+import { difficultySettings } from './difficulty.js';
+import { laborMarket, type LaborEmployer, type LaborTierStatus } from './laborMarket.js';
+import { popsConsumptionManager } from './popsConsumption.js';
+import { patentLicensing, type LicenseEvent } from './patentLicensing.js';
+import { patentLitigation, type LitigationEvent } from './patentLitigation.js';
+import { researchEvents, type ResearchEventUpdate } from './researchEvents.js';
+import { powerGrid, getPowerDraw, ELECTRICITY_GOODS_ID, POWER_PRIORITIES, type PowerChange, type PowerGridStatus, type PowerPriority } from './powerGrid.js';
 import { tickSchedulerFactory, TICK_FREQUENCY } from './tickScheduler.js';
+import { gameWorldFactory } from './gameWorld.js';
+import { rng } from './rng.js';
+import { createSeed } from '../utils/SeededRandom.js';
 import { getPriceWorkerPool } from '../workers/index.js';
 import { performanceProfiler } from './performanceProfiler.js';
 
 // 创建商品价格查询表
 const GOODS_BASE_PRICES = new Map(GOODS_DATA.map(g => [g.id, g.basePrice]));
 
+/** 电力库存低于多少 tick 的用电量时自动采购 */
+const POWER_RESERVE_TICKS = 5;
+
 /** 供需数据结构 */
 export interface SupplyDemandData {
   /** 当前供给量（单位/tick） */
@@ -80,6 +106,8 @@ export interface BuildingInstance {
   constructionTimeRequired?: number;
   /** 建造所需材料清单（等待材料状态时使用） */
   requiredConstructionMaterials?: Array<{ goodsId: string; amount: number }>;
+  /** 供电优先级（电力不足时低优先级先停电），默认 normal */
+  powerPriority?: PowerPriority;
 }
 
 /** 价格历史记录（扩展版：包含OHLC和成交量） */
@@ -102,6 +130,8 @@ export interface PriceHistoryEntry {
 
 export interface GameState {
   id: string;
+  /** 游戏名称（存档列表显示用） */
+  name: string;
   currentTick: GameTick;
   speed: GameSpeed;
   isPaused: boolean;
@@ -113,6 +143,26 @@ export interface GameState {
   /** 供需追踪数据 */
   supplyDemand: Map<string, SupplyDemandData>;
   lastUpdate: number;
+  /** 随机种子（相同种子 + 相同玩家输入 => 相同的 tick 序列） */
+  seed: number;
+  /** 本局使用的剧本（见 scenarios.ts），自由模式没有 */
+  scenarioId?: string;
+  /** 难度（见 difficulty.ts） */
+  difficulty: Difficulty;
+}
+
+/**
+ * 创建游戏选项
+ */
+export interface CreateGameOptions {
+  name?: string;
+  playerCompanyName?: string;
+  /** 随机种子，不指定时随机生成 */
+  seed?: number;
+  /** 剧本ID，不指定时为自由模式 */
+  scenarioId?: string;
+  /** 难度，不指定时使用剧本设定的难度（自由模式为普通） */
+  difficulty?: Difficulty;
 }
 
 export interface BuildingProfit {
@@ -143,6 +193,10 @@ export interface FinancialSummary {
   netProfit: number;
   /** 滚动平均净利润（按生产周期平滑） */
   avgNetProfit: number;
+  /** 专利使用费收入（被授权人按产量支付） */
+  royaltyIncome: number;
+  /** 专利使用费支出（使用授权专利生产时支付） */
+  royaltyExpense: number;
   buildingProfits: BuildingProfit[];
 }
 
@@ -154,10 +208,9 @@ export interface MarketEventGenerated {
   severity: 'minor' | 'moderate' | 'major' | 'critical';
   title: string;
   description: string;
-  effects: {
-    priceChanges?: Record<string, number>;
-    supplyChanges?: Record<string, number>;
-  };
+  /** 持续天数，到期后效果回滚；没有时为永久 */
+  durationTicks?: number;
+  effects: GeneratedMarketEvent['effects'];
 }
 
 /** 库存项目 */
@@ -230,9 +283,27 @@ export interface TickUpdate {
       name: string;
       category: string;
     }>;
+    /** 玩家研发项目的事件和决策结果 */
+    events: ResearchEventUpdate[];
   } | undefined;
   /** 经济系统交易记录 */
   trades?: TradeRecord[] | undefined;
+  /** 本 tick 的合同交割、延误、违约 */
+  contractEvents?: ContractEvent[] | undefined;
+  /** 本 tick 的贷款还款、逾期、违约和评级变化 */
+  bankingEvents?: BankingEvent[] | undefined;
+  /** 本 tick 的破产重整、恢复和清算 */
+  bankruptcyEvents?: BankruptcyEvent[] | undefined;
+  /** 本 tick 结束的收购要约（控股、吸收合并、失败） */
+  takeoverEvents?: TakeoverEvent[] | undefined;
+  /** 本 tick 出现和结算（含超时）的玩家决策事件 */
+  decisionEvents?: DecisionEventUpdate[] | undefined;
+  /** 剧本进度（检查胜负条件的 tick 发送） */
+  scenarioUpdate?: ScenarioStatus | undefined;
+  /** 劳动力市场状况（调整工资的 tick 发送） */
+  laborUpdate?: LaborTierStatus[] | undefined;
+  /** 玩家电网负荷、发电能力和停电建筑 */
+  powerGridUpdate?: PowerGridStatus | undefined;
   /** 经济系统统计 */
   economyStats?: {
     totalNPCCompanies: number;
@@ -281,6 +352,27 @@ export interface TickUpdate {
   }> | undefined;
 }
 
+/**
+ * 可序列化的游戏状态（Map 字段转换为条目数组，用于存档）
+ */
+export interface SerializedGameState extends Omit<GameState, 'marketPrices' | 'priceHistory' | 'supplyDemand'> {
+  marketPrices: [string, number][];
+  priceHistory: [string, PriceHistoryEntry[]][];
+  supplyDemand: [string, SupplyDemandData][];
+}
+
+/**
+ * 购买建筑结果
+ */
+export interface PurchaseBuildingResult {
+  success: boolean;
+  building?: BuildingInstance;
+  error?: string;
+  newCash?: number;
+  materialsConsumed?: { goodsId: string; amount: number }[];
+  missingMaterials?: { goodsId: string; needed: number; available: number }[];
+}
+
 /** 建筑收益历史记录（用于计算滚动平均） */
 interface BuildingProfitHistory {
   /** 最近N个周期的净利润 */
@@ -324,8 +416,11 @@ export class GameLoop extends EventEmitter {
   private workerFailCount = 0;
   
   // 自动采购订单追踪 - 防止重复提交
-  // Key: `${buildingId}-${goodsId}`, Value: orderId
-  private pendingPurchaseOrders: Map<string, string> = new Map();
+  // gameId -> (Key: `${buildingId}-${goodsId}`, Value: orderId)
+  private pendingPurchaseOrders = new Map<string, Map<string, string>>();
+  
+  // 因 critical 决策事件暂停、选择后自动恢复的游戏（玩家手动暂停/恢复后不再自动恢复）
+  private decisionPausedGames = new Set<string>();
   
   constructor() {
     super();
@@ -333,11 +428,28 @@ export class GameLoop extends EventEmitter {
   
   /**
    * Create or get a game instance
+   * 指定剧本时按剧本设定开局资金、AI公司、POP人口、赠送建筑和库存
    */
-  getOrCreateGame(gameId: string, playerCompanyId: string = 'player-company-1'): GameState {
+  getOrCreateGame(
+    gameId: string,
+    playerCompanyId = 'player-company-1',
+    options: CreateGameOptions = {}
+  ): GameState {
     let game = this.games.get(gameId);
     
     if (!game) {
+      let scenario: ScenarioDefinition | undefined;
+      if (options.scenarioId !== undefined) {
+        scenario = scenarioRegistry.get(options.scenarioId);
+        if (!scenario) {
+          throw new Error(`Unknown scenario: ${options.scenarioId}`);
+        }
+      }
+      const difficulty = options.difficulty ?? scenario?.difficulty ?? Difficulty.Normal;
+      // 剧本的启动资金已按其难度设计，只有自由模式按难度调整
+      const startingCash = scenario?.startingCash
+        ?? Math.round(DEFAULT_STARTING_CASH * DIFFICULTY_PRESETS[difficulty].startingCashMultiplier);
+      
       // 从 GOODS_DATA 自动初始化所有商品的市场价格
       // 使用商品定义中的 basePrice 作为初始价格
       const initialPrices = new Map<string, number>();
@@ -364,64 +476,95 @@ export class GameLoop extends EventEmitter {
       
       game = {
         id: gameId,
+        name: options.name ?? gameId,
         currentTick: 0,
         speed: 1 as GameSpeed,
         isPaused: true,
         playerCompanyId,
-        playerCash: 500000000, // 5百万初始资金
-        buildings: [], // 从空白开始
+        playerCash: startingCash,
+        buildings: [], // 从空白开始（剧本赠送的建筑在下方添加）
         marketPrices: initialPrices,
         priceHistory,
         supplyDemand,
         lastUpdate: Date.now(),
+        seed: options.seed ?? createSeed(),
+        ...(scenario ? { scenarioId: scenario.id } : {}),
+        difficulty,
       };
       this.games.set(gameId, game);
+      const seed = game.seed;
+      const newGame = game;
+      
+      // 为该游戏创建独立的服务实例，以下初始化都作用于该游戏世界
+      gameWorldFactory.run(gameId, () => {
+        // 设定随机种子（必须先于任何会消耗随机数的初始化）
+        rng.setSeed(seed);
+        console.log(`[GameLoop] Random seed: ${seed}`);
+      
+        // 初始化注册表（商品、建筑、产业链）
+        initializeRegistries();
+        console.log('[GameLoop] Registries initialized');
+      
+        // 难度预设（AI 参数在公司初始化时按难度调整）
+        difficultySettings.setDifficulty(difficulty);
+      
+        // 初始化AI公司（剧本可限定参与的公司）
+        aiCompanyManager.initializeCompanies(0, scenario?.aiCompanies);
+        console.log('[GameLoop] AI companies initialized');
+      
+        // 初始化研发服务
+        researchService.initialize();
+        console.log('[GameLoop] Research service initialized');
+      
+        // 初始化技术效果管理器
+        technologyEffectManager.initialize();
+        console.log('[GameLoop] Technology effect manager initialized');
+      
+        // 初始化玩家公司库存
+        inventoryManager.initializeCompany(
+          playerCompanyId,
+          options.playerCompanyName ?? '玩家公司',
+          CompanyType.Player,
+          startingCash,
+          0
+        );
+        console.log('[GameLoop] Player inventory initialized');
       
-      // 初始化注册表（商品、建筑、产业链）
-      initializeRegistries();
-      console.log('[GameLoop] Registries initialized');
+        // 剧本设定POP人口（须在经济系统初始化消费者之前）
+        if (scenario) {
+          scenarioService.start(scenario);
+        }
       
-      // 初始化AI公司
-      aiCompanyManager.initializeCompanies();
-      console.log('[GameLoop] AI companies initialized');
+        // ===== 注册增量撮合回调 =====
+        // 将 marketOrderBook 与 matchingEngine 连接起来
+        // 每当有新订单提交时，通知撮合引擎优先处理该商品
+        marketOrderBook.setNewOrderCallback((goodsId, orderId) => {
+          matchingEngine.markNewOrder(goodsId, orderId);
+        });
+        console.log('[GameLoop] Incremental matching callback registered');
       
-      // 初始化研发服务
-      researchService.initialize();
-      console.log('[GameLoop] Research service initialized');
+        // 初始化经济系统
+        economyManager.initialize(0);
+        console.log('[GameLoop] Economy system initialized');
       
-      // 初始化技术效果管理器
-      technologyEffectManager.initialize();
-      console.log('[GameLoop] Technology effect manager initialized');
+        // 初始化自动交易管理器
+        autoTradeManager.initialize(playerCompanyId);
+        console.log('[GameLoop] Auto trade manager initialized');
       
-      // 初始化玩家公司库存
-      inventoryManager.initializeCompany(
-        playerCompanyId,
-        '玩家公司',
-        CompanyType.Player,
-        500000000, // 5百万初始资金
-        0
-      );
-      console.log('[GameLoop] Player inventory initialized');
+        // 初始化股票市场
+        stockMarketService.initialize(playerCompanyId, 0);
+        aiStockTradingService.initialize();
+        console.log('[GameLoop] Stock market initialized');
       
-      // ===== 注册增量撮合回调 =====
-      // 将 marketOrderBook 与 matchingEngine 连接起来
-      // 每当有新订单提交时，通知撮合引擎优先处理该商品
-      marketOrderBook.setNewOrderCallback((goodsId, orderId) => {
-        matchingEngine.markNewOrder(goodsId, orderId);
+        // 剧本赠送的库存和建筑
+        if (scenario) {
+          this.grantScenarioStart(newGame, scenario);
+          console.log(`[GameLoop] Scenario ${scenario.id} applied`);
+        }
       });
-      console.log('[GameLoop] Incremental matching callback registered');
-      
-      // 初始化经济系统
-      economyManager.initialize(0);
-      console.log('[GameLoop] Economy system initialized');
       
-      // 初始化自动交易管理器
-      autoTradeManager.initialize(playerCompanyId);
-      console.log('[GameLoop] Auto trade manager initialized');
-      
-      // 初始化股票市场
-      stockMarketService.initialize(playerCompanyId, 0);
-      console.log('[GameLoop] Stock market initialized');
+      // 请求钩子在游戏创建前找不到对应世界，让当前请求的后续服务调用进入新游戏的世界
+      gameWorldFactory.enter(gameId);
     }
     
     return game;
@@ -443,6 +586,7 @@ export class GameLoop extends EventEmitter {
     
     game.speed = speed;
     game.isPaused = speed === 0;
+    this.decisionPausedGames.delete(gameId);
     
     // Restart the interval with new speed
     this.stopGameLoop(gameId);
@@ -460,6 +604,7 @@ export class GameLoop extends EventEmitter {
     const game = this.games.get(gameId);
     if (!game) return false;
     
+    this.decisionPausedGames.delete(gameId);
     if (game.isPaused) {
       // Resume with previous speed or default to 1
       game.isPaused = false;
@@ -503,8 +648,10 @@ export class GameLoop extends EventEmitter {
       const tickInterval = this.BASE_TICK_MS / currentGame.speed;
       const startTime = Date.now();
       
-      // 执行 tick
-      this.processTick(gameId);
+      // 执行 tick（在该游戏的世界中）
+      gameWorldFactory.run(gameId, () => {
+        this.processTick(gameId);
+      });
       
       // 计算实际执行时间
       const elapsed = Date.now() - startTime;
@@ -540,6 +687,62 @@ export class GameLoop extends EventEmitter {
     }
   }
   
+  /**
+   * 玩家选择决策事件的选项
+   * 因 critical 决策事件暂停的游戏在没有其他需要暂停等待的事件后自动恢复
+   */
+  respondToDecision(gameId: string, eventId: string, optionId: string): DecisionResult {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { success: false, error: '游戏不存在' };
+    }
+    
+    return gameWorldFactory.run(gameId, () => {
+      const result = decisionEventService.respond(game, eventId, optionId, game.currentTick);
+      if (result.success && this.decisionPausedGames.has(gameId) && !decisionEventService.hasPausingDecision()) {
+        this.decisionPausedGames.delete(gameId);
+        if (game.isPaused) {
+          this.togglePause(gameId);
+        }
+      }
+      return result;
+    });
+  }
+  
+  /**
+   * 直接注入资金（仅允许注资的难度，即沙盒，测试用）
+   */
+  injectCash(gameId: string, amount: number): { success: boolean; cash?: number; error?: string } {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { success: false, error: '游戏不存在' };
+    }
+    
+    return gameWorldFactory.run(gameId, () => {
+      if (!difficultySettings.getPreset().allowCashInjection) {
+        return { success: false, error: '当前难度不允许注入资金' };
+      }
+      
+      const result = inventoryManager.addCash(game.playerCompanyId, amount, game.currentTick, 'cash-injection');
+      if (!result.success) {
+        return { success: false, error: result.error ?? '注资失败' };
+      }
+      game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+      console.log(`[GameLoop] Cash injected: ${amount} (game ${gameId})`);
+      return { success: true, cash: game.playerCash };
+    });
+  }
+  
+  /**
+   * Purchase a building - 在该游戏的世界中执行建造流程
+   */
+  purchaseBuilding(gameId: string, buildingDefId: string): PurchaseBuildingResult {
+    if (!this.games.has(gameId)) {
+      return { success: false, error: '游戏不存在' };
+    }
+    return gameWorldFactory.run(gameId, () => this.executePurchaseBuilding(gameId, buildingDefId));
+  }
+  
   /**
    * Purchase a building
    * 支持从 BUILDINGS_DATA 和 BUILDING_DEFINITIONS 两个数据源查找建筑
@@ -551,7 +754,7 @@ export class GameLoop extends EventEmitter {
    * 4. 创建"建造中"状态的建筑
    * 5. 每tick推进建造进度，完成后转为运营状态
    */
-  purchaseBuilding(gameId: string, buildingDefId: string): { success: boolean; building?: BuildingInstance; error?: string; newCash?: number; materialsConsumed?: Array<{ goodsId: string; amount: number }>; missingMaterials?: Array<{ goodsId: string; needed: number; available: number }> } {
+  private executePurchaseBuilding(gameId: string, buildingDefId: string): PurchaseBuildingResult {
     const game = this.games.get(gameId);
     if (!game) {
       return { success: false, error: '游戏不存在' };
@@ -580,7 +783,7 @@ export class GameLoop extends EventEmitter {
     
     // 计算真实建造成本（材料费 + 人工费）
     const costResult = calculateConstructionCost(buildingDef as BuildingDef, marketPrices);
-    const laborCost = costResult.laborCost; // 人工成本必须先付
+    const laborCost = difficultySettings.scaleConstructionCost(costResult.laborCost); // 人工成本必须先付（随难度调整）
     
     // 检查资金是否足够支付人工成本
     if (currentCash < laborCost) {
@@ -588,8 +791,8 @@ export class GameLoop extends EventEmitter {
     }
     
     // ===== 建造系统：检查建造材料（不再阻止购买，只记录缺失） =====
-    const constructionMaterials = getConstructionMaterials(buildingDef as BuildingDef);
-    const constructionTime = getConstructionTime(buildingDef as BuildingDef);
+    const constructionMaterials = getConstructionMaterials(buildingDef);
+    const constructionTime = difficultySettings.scaleConstructionTime(getConstructionTime(buildingDef));
     const missingMaterials: Array<{ goodsId: string; needed: number; available: number }> = [];
     
     for (const material of constructionMaterials) {
@@ -649,7 +852,7 @@ export class GameLoop extends EventEmitter {
     
     // Create building instance
     const building: BuildingInstance = {
-      id: `building-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: `building-${rng.nextId(9)}`,
       definitionId: buildingDefId,
       name: buildingDef.nameZh,
       position: {
@@ -679,51 +882,7 @@ export class GameLoop extends EventEmitter {
     // 获取当前生产方式的配方
     const currentMethod = defaultSlot?.methods.find(m => m.id === defaultMethodId) ?? defaultSlot?.methods[0];
     if (currentMethod && currentMethod.recipe) {
-      const recipe = currentMethod.recipe;
-      // ticksRequired 在这里未直接使用，阈值计算在下方直接使用 recipe.ticksRequired
-      
-      // 为每个输入商品配置自动采购
-      // 重要修复：使用基于生产周期的库存目标，而非日消耗量
-      // 这避免了高价值原料导致的巨额采购成本
-      for (const input of recipe.inputs) {
-        // 每个生产周期的消耗量
-        const cycleConsumption = input.amount;
-        // 触发阈值：低于10个周期的原料时开始采购（提前采购）
-        const triggerThreshold = Math.max(1, Math.ceil(cycleConsumption * 10));
-        // 目标库存：保持50个周期的原料（足够生产很长一段时间）
-        const targetStock = Math.ceil(cycleConsumption * 50);
-        
-        autoTradeManager.updateGoodsConfig(game.playerCompanyId, input.goodsId, {
-          autoBuy: {
-            enabled: true,
-            triggerThreshold: triggerThreshold,
-            targetStock: targetStock,
-            maxPriceMultiplier: 1.15,                           // 提高最高溢价到15%，更容易成交
-          },
-        });
-        console.log(`[GameLoop] 自动配置采购: ${input.goodsId} (周期消耗: ${cycleConsumption}, 阈值: ${triggerThreshold}, 目标: ${targetStock})`);
-      }
-      
-      // 为每个输出商品配置自动销售
-      // 关键修复：大幅降低触发阈值，让产品一旦产出就立即销售
-      for (const output of recipe.outputs) {
-        // 每个生产周期的产量
-        const cycleProduction = output.amount;
-        // 触发阈值：只要有1个周期的产量就开始卖
-        const triggerThreshold = Math.max(1, Math.ceil(cycleProduction * 0.5));
-        // 保留库存：几乎不保留，让产品快速流通
-        const reserveStock = Math.max(0, Math.ceil(cycleProduction * 0.1));
-        
-        autoTradeManager.updateGoodsConfig(game.playerCompanyId, output.goodsId, {
-          autoSell: {
-            enabled: true,
-            triggerThreshold: triggerThreshold,   // 有半个周期产量就卖
-            reserveStock: reserveStock,           // 几乎不保留
-            minPriceMultiplier: 0.85,             // 最低折价15%，更容易成交
-          },
-        });
-        console.log(`[GameLoop] 自动配置销售: ${output.goodsId} (阈值: ${triggerThreshold}, 保留: ${reserveStock})`);
-      }
+      this.configureProductionAutoTrade(game, currentMethod.recipe);
     }
     
     // ===== 为建造材料配置自动采购（如果处于等待材料状态）=====
@@ -779,6 +938,96 @@ export class GameLoop extends EventEmitter {
     return result;
   }
   
+  /**
+   * 按生产配方为玩家配置自动采购（投入）和自动销售（产出）
+   */
+  private configureProductionAutoTrade(game: GameState, recipe: ProductionRecipe): void {
+    // 为每个输入商品配置自动采购
+    // 重要修复：使用基于生产周期的库存目标，而非日消耗量
+    // 这避免了高价值原料导致的巨额采购成本
+    for (const input of recipe.inputs) {
+      // 每个生产周期的消耗量
+      const cycleConsumption = input.amount;
+      // 触发阈值：低于10个周期的原料时开始采购（提前采购）
+      const triggerThreshold = Math.max(1, Math.ceil(cycleConsumption * 10));
+      // 目标库存：保持50个周期的原料（足够生产很长一段时间）
+      const targetStock = Math.ceil(cycleConsumption * 50);
+      
+      autoTradeManager.updateGoodsConfig(game.playerCompanyId, input.goodsId, {
+        autoBuy: {
+          enabled: true,
+          triggerThreshold: triggerThreshold,
+          targetStock: targetStock,
+          maxPriceMultiplier: 1.15,                           // 提高最高溢价到15%，更容易成交
+        },
+      });
+      console.log(`[GameLoop] 自动配置采购: ${input.goodsId} (周期消耗: ${cycleConsumption}, 阈值: ${triggerThreshold}, 目标: ${targetStock})`);
+    }
+    
+    // 为每个输出商品配置自动销售
+    // 关键修复：大幅降低触发阈值，让产品一旦产出就立即销售
+    for (const output of recipe.outputs) {
+      // 每个生产周期的产量
+      const cycleProduction = output.amount;
+      // 触发阈值：只要有1个周期的产量就开始卖
+      const triggerThreshold = Math.max(1, Math.ceil(cycleProduction * 0.5));
+      // 保留库存：几乎不保留，让产品快速流通
+      const reserveStock = Math.max(0, Math.ceil(cycleProduction * 0.1));
+      
+      autoTradeManager.updateGoodsConfig(game.playerCompanyId, output.goodsId, {
+        autoSell: {
+          enabled: true,
+          triggerThreshold: triggerThreshold,   // 有半个周期产量就卖
+          reserveStock: reserveStock,           // 几乎不保留
+          minPriceMultiplier: 0.85,             // 最低折价15%，更容易成交
+        },
+      });
+      console.log(`[GameLoop] 自动配置销售: ${output.goodsId} (阈值: ${triggerThreshold}, 保留: ${reserveStock})`);
+    }
+  }
+  
+  /**
+   * 发放剧本开局的库存和建筑
+   * 赠送的建筑直接处于运营状态，不收建造费用，按默认生产方式配置自动交易
+   */
+  private grantScenarioStart(game: GameState, scenario: ScenarioDefinition): void {
+    for (const [goodsId, quantity] of Object.entries(scenario.startingInventory)) {
+      const basePrice = GOODS_DATA.find(g => g.id === goodsId)?.basePrice ?? 0;
+      inventoryManager.addGoods(game.playerCompanyId, goodsId, quantity, basePrice, 0, 'scenario_start');
+    }
+    
+    for (const { definitionId, count } of scenario.startingBuildings) {
+      const buildingDef = BUILDINGS_DATA.find(b => b.id === definitionId);
+      if (!buildingDef) continue;
+      
+      const defaultSlot = buildingDef.productionSlots[0];
+      const defaultMethodId = defaultSlot?.defaultMethodId ?? defaultSlot?.methods[0]?.id ?? '';
+      
+      for (let i = 0; i < count; i++) {
+        game.buildings.push({
+          id: `building-${rng.nextId(9)}`,
+          definitionId,
+          name: buildingDef.nameZh,
+          position: {
+            x: 100 + (game.buildings.length % 5) * 150,
+            y: 100 + Math.floor(game.buildings.length / 5) * 120,
+          },
+          efficiency: 1.0,
+          utilization: 1.0,
+          status: 'running',
+          productionProgress: 0,
+          currentMethodId: defaultMethodId,
+          aggregatedCount: 1,
+        });
+      }
+      
+      const method = defaultSlot?.methods.find(m => m.id === defaultMethodId) ?? defaultSlot?.methods[0];
+      if (method?.recipe) {
+        this.configureProductionAutoTrade(game, method.recipe);
+      }
+    }
+  }
+  
   /**
    * Get buildings for a game
    */
@@ -825,8 +1074,9 @@ export class GameLoop extends EventEmitter {
   
   /**
    * Switch a building's production method
+   * allowInfringement 时可以不经授权强行使用受专利保护的生产方式（会被记为侵权）
    */
-  switchBuildingMethod(gameId: string, buildingId: string, methodId: string): { success: boolean; error?: string } {
+  switchBuildingMethod(gameId: string, buildingId: string, methodId: string, allowInfringement = false): { success: boolean; error?: string } {
     const game = this.games.get(gameId);
     if (!game) {
       return { success: false, error: '游戏不存在' };
@@ -843,11 +1093,22 @@ export class GameLoop extends EventEmitter {
       return { success: false, error: '建筑定义不存在' };
     }
     
-    const slot = def.productionSlots[0];
-    const validMethod = slot?.methods.find(m => m.id === methodId);
+    // 技术解锁的生产方式受专利保护，需要是持有人或获得授权
+    const validMethod = gameWorldFactory.run(gameId, () => technologyEffectManager.getAvailableMethods(def.id))
+      .find(m => m.id === methodId);
     if (!validMethod) {
       return { success: false, error: '生产方式不存在' };
     }
+    if (gameWorldFactory.run(gameId, () => technologyEffectManager.isMethodBlocked(methodId))) {
+      return { success: false, error: '该生产方式已被禁止' };
+    }
+    const canUse = gameWorldFactory.run(gameId, () => researchService.canUseMethod(methodId, game.playerCompanyId, game.currentTick));
+    if (!canUse && gameWorldFactory.run(gameId, () => patentLitigation.isEnjoined(game.playerCompanyId, methodId, game.currentTick))) {
+      return { success: false, error: '法院禁令：不得使用该专利生产方式' };
+    }
+    if (!canUse && !allowInfringement) {
+      return { success: false, error: '该生产方式受专利保护，需要先获得授权' };
+    }
     
     // 更新生产方式
     building.currentMethodId = methodId;
@@ -859,6 +1120,29 @@ export class GameLoop extends EventEmitter {
     return { success: true };
   }
   
+  /**
+   * Set a building's power priority (brownouts cut low priority buildings first)
+   */
+  setPowerPriority(gameId: string, buildingId: string, priority: PowerPriority): { success: boolean; error?: string } {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { success: false, error: '游戏不存在' };
+    }
+    
+    const building = game.buildings.find(b => b.id === buildingId);
+    if (!building) {
+      return { success: false, error: '建筑不存在' };
+    }
+    if (!POWER_PRIORITIES.includes(priority)) {
+      return { success: false, error: '供电优先级无效' };
+    }
+    
+    building.powerPriority = priority;
+    console.log(`[GameLoop] Building ${building.name} power priority: ${priority}`);
+    
+    return { success: true };
+  }
+  
   /**
    * Get price history for a specific goods
    */
@@ -893,6 +1177,16 @@ export class GameLoop extends EventEmitter {
     return game.marketPrices.get(goodsId) ?? GOODS_BASE_PRICES.get(goodsId) ?? 1000;
   }
   
+  /**
+   * 同步推进一个 tick（无界面运行：回放、模拟脚本）
+   * 游戏需处于暂停状态，否则会与实时循环同时推进
+   */
+  advanceTick(gameId: string): void {
+    gameWorldFactory.run(gameId, () => {
+      this.processTick(gameId);
+    });
+  }
+  
   /**
    * Process a single game tick
    *
@@ -932,6 +1226,32 @@ export class GameLoop extends EventEmitter {
     game.currentTick++;
     game.lastUpdate = tickStartTime;
     
+    // ===== 高频操作：劳动力分配（每tick，先于AI和玩家生产）=====
+    let laborUpdate: LaborTierStatus[] | undefined;
+    if (scheduler.shouldExecute(game.currentTick, 'LABOR_ALLOCATION')) {
+      const employers: LaborEmployer[] = [{ companyId: game.playerCompanyId, buildings: game.buildings }];
+      for (const [companyId, company] of aiCompanyManager.getCompanies()) {
+        employers.push({ companyId, buildings: company.buildings });
+      }
+      laborMarket.update(game.currentTick, employers);
+      
+      // ===== 中频操作：工资调整 =====
+      if (scheduler.shouldExecute(game.currentTick, 'WAGE_ADJUSTMENT')) {
+        laborMarket.adjustWages();
+        laborUpdate = laborMarket.getTierStatuses();
+      }
+      
+      // 工资总额反馈为POP收入
+      popsConsumptionManager.setIncomeMultipliers(laborMarket.getIncomeMultipliers());
+    }
+    
+    // ===== 高频操作：AI公司电网供电（每tick，先于AI生产）=====
+    if (scheduler.shouldExecute(game.currentTick, 'POWER_DISTRIBUTION')) {
+      for (const [companyId, company] of aiCompanyManager.getCompanies()) {
+        powerGrid.distribute(companyId, company.buildings, game.currentTick);
+      }
+    }
+    
     // ===== 高频操作：订单撮合和价格发现（每tick）=====
     performanceProfiler.startPhase('economyUpdate');
     const economyResult = this.processHighFrequencyOperations(game, scheduler);
@@ -948,6 +1268,28 @@ export class GameLoop extends EventEmitter {
       game.playerCash = playerInventory.cash;
     }
     
+    // ===== 高频操作：玩家电网供电（每tick，先于玩家生产）=====
+    let powerGridUpdate: PowerGridStatus | undefined;
+    let powerChanges: PowerChange[] = [];
+    if (scheduler.shouldExecute(game.currentTick, 'POWER_DISTRIBUTION')) {
+      const gridResult = powerGrid.distribute(game.playerCompanyId, game.buildings, game.currentTick);
+      powerChanges = gridResult.changes;
+      if (gridResult.status.load > 0 || gridResult.status.capacity > 0) {
+        powerGridUpdate = gridResult.status;
+      }
+      
+      // 电力库存不足 POWER_RESERVE_TICKS 的用量时自动采购
+      const reserveTarget = gridResult.status.load * POWER_RESERVE_TICKS;
+      const consumer = game.buildings.find(b => (b.status === 'running' || b.status === 'no_power') && getPowerDraw(b) > 0);
+      if (consumer && gridResult.status.stored < reserveTarget) {
+        this.autoPurchaseMaterials(game, consumer, [{
+          goodsId: ELECTRICITY_GOODS_ID,
+          needed: reserveTarget,
+          available: gridResult.status.stored,
+        }]);
+      }
+    }
+    
     // ===== 高频操作：建筑生产（每tick）=====
     performanceProfiler.startPhase('buildingProduction');
     const { totalIncome, totalInputCost, totalMaintenance, buildingProfits } =
@@ -959,7 +1301,46 @@ export class GameLoop extends EventEmitter {
       this.logBuildingDiagnostics(game);
     }
     
-    const netProfit = totalIncome - totalInputCost - totalMaintenance;
+    // ===== 高频操作：合同交割（每tick）=====
+    let contractEvents: ContractEvent[] = [];
+    if (scheduler.shouldExecute(game.currentTick, 'CONTRACT_DELIVERY')) {
+      contractEvents = contractService.processTick(game.currentTick);
+      if (contractEvents.length > 0) {
+        game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+      }
+    }
+    
+    // ===== 高频操作：贷款计息与还款（每tick）=====
+    const bankingEvents: BankingEvent[] = [];
+    if (scheduler.shouldExecute(game.currentTick, 'LOAN_SERVICING')) {
+      bankingEvents.push(...bankingService.processTick(game.currentTick));
+    }
+    
+    // ===== 低频操作：信用评级 =====
+    if (scheduler.shouldExecute(game.currentTick, 'CREDIT_RATING')) {
+      bankingEvents.push(...bankingService.updateRatings(game.currentTick, this.estimateBuildingValues(game)));
+    }
+    if (bankingEvents.length > 0) {
+      game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+    }
+    
+    // ===== 中频操作：偿付能力检查（破产重整/清算）=====
+    let bankruptcyEvents: BankruptcyEvent[] = [];
+    if (scheduler.shouldExecute(game.currentTick, 'SOLVENCY_CHECK')) {
+      bankruptcyEvents = bankruptcyService.processTick(game, game.currentTick);
+      if (bankruptcyEvents.length > 0) {
+        game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+      }
+      // 玩家公司被清算，游戏暂停
+      if (bankruptcyEvents.some(e => e.companyId === game.playerCompanyId && e.type === 'liquidated')) {
+        game.isPaused = true;
+        this.emit('pauseChange', { gameId, isPaused: true, speed: game.speed });
+      }
+    }
+    
+    // 专利使用费在生产时结算（见 patentLicensing.ts），这里汇总本 tick 的收支
+    const royalties = patentLicensing.collectRoyalties(game.playerCompanyId);
+    const netProfit = totalIncome - totalInputCost - totalMaintenance + royalties.income - royalties.expense;
     
     // 计算总体滚动平均净利润
     const avgNetProfit = buildingProfits.reduce((sum, bp) => sum + bp.avgNet, 0);
@@ -971,6 +1352,8 @@ export class GameLoop extends EventEmitter {
       totalMaintenance,
       netProfit,
       avgNetProfit,
+      royaltyIncome: royalties.income,
+      royaltyExpense: royalties.expense,
       buildingProfits,
     };
     
@@ -1022,7 +1405,7 @@ export class GameLoop extends EventEmitter {
         }
         
         // 添加小幅随机波动（模拟市场噪音）
-        const noise = (Math.random() - 0.5) * 0.01;
+        const noise = (rng.next() - 0.5) * 0.01;
         newPrice *= (1 + noise);
         
         // 限制价格范围
@@ -1043,7 +1426,7 @@ export class GameLoop extends EventEmitter {
         data.lastPrice = newPrice;
       } else {
         // 没有供需数据时保持小幅随机波动
-        const changePercent = (Math.random() - 0.5) * 0.02;
+        const changePercent = (rng.next() - 0.5) * 0.02;
         change = Math.round(price * changePercent);
         newPrice = Math.max(1, price + change);
       }
@@ -1124,6 +1507,7 @@ export class GameLoop extends EventEmitter {
         supplyDemand: game.supplyDemand,
         playerBuildings: game.buildings,
         playerCash: game.playerCash,
+        playerCompanyId: game.playerCompanyId,
       };
       
       aiResult = aiCompanyManager.processTick(aiContext);
@@ -1136,8 +1520,7 @@ export class GameLoop extends EventEmitter {
           const def = BUILDINGS_DATA.find(b => b.id === building.definitionId);
           if (!def) continue;
           
-          const slot = def.productionSlots[0];
-          const method = slot?.methods.find(m => m.id === building.currentMethodId) ?? slot?.methods[0];
+          const method = technologyEffectManager.resolveMethod(def.id, building.currentMethodId);
           if (!method) continue;
           
           // 检查是否完成生产周期
@@ -1156,6 +1539,7 @@ export class GameLoop extends EventEmitter {
     }
     
     // ===== 中频操作：股票市场 =====
+    let takeoverEvents: TakeoverEvent[] = [];
     if (scheduler.shouldExecute(game.currentTick, 'STOCK_MARKET_UPDATE')) {
       performanceProfiler.startPhase('stockMarket');
       // 收集公司财务数据用于股价计算
@@ -1181,7 +1565,12 @@ export class GameLoop extends EventEmitter {
       }
       
       // 更新股票市场（撮合订单、更新股价）
-      stockMarketService.processTick(game.currentTick, companyFinancials);
+      const stockUpdate = stockMarketService.processTick(game.currentTick, companyFinancials);
+      
+      // 结束的收购要约：成功的完成控股/吸收合并
+      if (stockUpdate.takeoverUpdates) {
+        takeoverEvents = takeoverService.processTakeoverUpdates(game, stockUpdate.takeoverUpdates, game.currentTick);
+      }
       performanceProfiler.endPhase('stockMarket');
     }
     
@@ -1193,15 +1582,17 @@ export class GameLoop extends EventEmitter {
       }
     }
     
-    // ===== 中频操作：研发进度 =====
+    // ===== 中频操作：研发事件和研发进度 =====
     let completedProjects: string[] = [];
     const newTechnologies: Array<{ id: string; name: string; category: string }> = [];
+    let researchEventUpdates: ResearchEventUpdate[] = [];
     if (scheduler.shouldExecute(game.currentTick, 'RESEARCH_PROGRESS')) {
+      researchEventUpdates = researchEvents.processTick(game.currentTick, game.playerCompanyId);
       completedProjects = researchService.progressResearch(game.currentTick);
       
       // 处理完成的研发项目（异步，不阻塞tick）
       if (completedProjects.length > 0) {
-        this.processCompletedResearch(completedProjects, game.currentTick, newTechnologies);
+        void this.processCompletedResearch(completedProjects, game.currentTick, game.playerCompanyId, newTechnologies);
       }
     }
     
@@ -1210,6 +1601,24 @@ export class GameLoop extends EventEmitter {
       researchService.checkPatentExpiry(game.currentTick);
     }
     
+    // ===== 中频操作：专利授权申请（答复超时、AI 提出申请）=====
+    let licenseEvents: LicenseEvent[] = [];
+    if (scheduler.shouldExecute(game.currentTick, 'LICENSE_NEGOTIATION')) {
+      licenseEvents = patentLicensing.processTick(game.currentTick);
+      if (licenseEvents.length > 0) {
+        game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+      }
+    }
+    
+    // ===== 中频操作：专利挑战和侵权诉讼审理 =====
+    let litigationEvents: LitigationEvent[] = [];
+    if (scheduler.shouldExecute(game.currentTick, 'PATENT_LITIGATION')) {
+      litigationEvents = patentLitigation.processTick(game.currentTick, game.playerCompanyId, game.buildings);
+      if (litigationEvents.length > 0) {
+        game.playerCash = inventoryManager.getCash(game.playerCompanyId);
+      }
+    }
+    
     // Generate random events occasionally
     const events: Array<{ id: string; type: string; message: string }> = [];
     
@@ -1229,10 +1638,87 @@ export class GameLoop extends EventEmitter {
       }
     }
     
+    // 玩家相关的合同延误/违约/完成作为事件
+    for (const event of contractEvents) {
+      const involvesPlayer = event.buyerId === game.playerCompanyId || event.sellerId === game.playerCompanyId;
+      if (involvesPlayer && event.type !== 'delivered') {
+        events.push({
+          id: `contract-${event.contractId}-${event.type}-${event.tick}`,
+          type: 'contract',
+          message: event.message,
+        });
+      }
+    }
+    
+    // 玩家的逾期/违约/评级变化作为事件
+    for (const event of bankingEvents) {
+      if (event.companyId === game.playerCompanyId && event.type !== 'payment') {
+        events.push({
+          id: `banking-${event.loanId ?? 'rating'}-${event.type}-${event.tick}`,
+          type: 'banking',
+          message: event.message,
+        });
+      }
+    }
+    
+    // 涉及玩家的专利授权申请作为事件
+    for (const event of licenseEvents) {
+      if (event.request.holderId === game.playerCompanyId || event.request.requesterId === game.playerCompanyId) {
+        events.push({
+          id: `license-${event.request.id}-${event.type}`,
+          type: 'patent_license',
+          message: event.message,
+        });
+      }
+    }
+    
+    // 玩家相关的专利挑战和侵权诉讼作为事件
+    for (const [index, event] of litigationEvents.entries()) {
+      if (event.parties.includes(game.playerCompanyId)) {
+        events.push({
+          id: `litigation-${game.currentTick}-${index}`,
+          type: 'patent_litigation',
+          message: event.message,
+        });
+      }
+    }
+    
+    // 拉闸限电和恢复供电作为事件
+    for (const type of ['blackout', 'restored'] as const) {
+      const changed = powerChanges.filter(change => change.type === type);
+      if (changed.length === 0) continue;
+      const names = changed.map(change => change.buildingName).join('、');
+      events.push({
+        id: `power-${type}-${game.currentTick}`,
+        type: 'power',
+        message: type === 'blackout'
+          ? `⚡ 电力不足，${changed.length} 座建筑停电：${names}`
+          : `💡 恢复供电：${names}`,
+      });
+    }
+    
+    // 破产重整和清算作为事件（涉及所有公司）
+    for (const event of bankruptcyEvents) {
+      events.push({
+        id: `bankruptcy-${event.companyId}-${event.type}-${event.tick}`,
+        type: 'bankruptcy',
+        message: event.message,
+      });
+    }
+    
+    // 收购结果作为事件（涉及所有公司）
+    for (const event of takeoverEvents) {
+      events.push({
+        id: `takeover-${event.bidId}-${event.type}`,
+        type: 'takeover',
+        message: event.message,
+      });
+    }
+    
     // 添加AI新闻作为事件
     for (const news of aiResult.news) {
       events.push({
-        id: `ai-news-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+        id: `ai-news-${rng.nextId(5)}`,
         type: 'ai_activity',
         message: news.headline,
       });
@@ -1258,6 +1744,23 @@ export class GameLoop extends EventEmitter {
     }
     this.scheduledMarketEvents.set(gameId, remainingScheduled);
     
+    // 剧本事件日程和胜负条件
+    const scenarioResult = scenarioService.processTick(game, scheduler.shouldExecute(game.currentTick, 'SCENARIO_CHECK'));
+    triggeredEvents.push(...scenarioResult.events);
+    if (scenarioResult.concluded && scenarioResult.status) {
+      const { outcome, outcomeReason } = scenarioResult.status;
+      events.push({
+        id: `scenario-${outcome}-${game.currentTick}`,
+        type: 'scenario',
+        message: `${outcome === 'victory' ? '剧本胜利' : '剧本失败'}：${outcomeReason ?? ''}`,
+      });
+      // 分出胜负时暂停实时循环（玩家可继续游戏）
+      if (this.intervals.has(gameId)) {
+        game.isPaused = true;
+        this.emit('pauseChange', { gameId, isPaused: true, speed: game.speed });
+      }
+    }
+    
     // 收集异步生成的市场事件（兼容老逻辑）
     const pendingEvents = [...(this.pendingMarketEvents.get(gameId) ?? []), ...triggeredEvents];
     this.pendingMarketEvents.set(gameId, []);
@@ -1269,6 +1772,27 @@ export class GameLoop extends EventEmitter {
       // 市场事件通过 marketEvents 字段单独发送
     }
     
+    // 到期的事件效果回滚
+    for (const expired of eventEffectManager.processTick(game, game.currentTick)) {
+      events.push({
+        id: `event-effect-${expired.id}-expired`,
+        type: 'event_effect',
+        message: expired.description,
+      });
+    }
+    
+    // ===== 玩家决策事件 =====
+    if (scheduler.shouldExecute(game.currentTick, 'DECISION_EVENT_GENERATION')) {
+      decisionEventService.generate(game, game.currentTick);
+    }
+    const decisionEvents = decisionEventService.processTick(game, game.currentTick);
+    // critical 决策事件出现时暂停实时循环等待选择（无头回放不暂停）
+    if (this.intervals.has(gameId) && decisionEvents.some(update => update.decision?.pauseGame)) {
+      game.isPaused = true;
+      this.decisionPausedGames.add(gameId);
+      this.emit('pauseChange', { gameId, isPaused: true, speed: game.speed });
+    }
+    
     // ===== 增量更新优化：只发送变化的价格 =====
     const lastPrices = this.lastSentPrices.get(gameId) ?? new Map<string, number>();
     const isFullSnapshotTick = game.currentTick % this.FULL_SNAPSHOT_INTERVAL === 0 || game.currentTick === 1;
@@ -1371,12 +1895,12 @@ export class GameLoop extends EventEmitter {
         continue; // 等待材料的建筑不需要检查生产原料
       }
       
-      const slot = def.productionSlots[0];
-      const method = slot?.methods.find(m => m.id === building.currentMethodId) ?? slot?.methods[0];
+      const method = technologyEffectManager.resolveMethod(def.id, building.currentMethodId);
       if (!method) continue;
       
       // 获取技术效果修饰符
       const techModifiers = technologyEffectManager.getBuildingModifiers(
+        game.playerCompanyId,
         building.definitionId,
         def.category
       );
@@ -1467,7 +1991,7 @@ export class GameLoop extends EventEmitter {
     const update: TickUpdate = {
       gameId,
       tick: game.currentTick,
-      timestamp: game.lastUpdate,
+      timestamp: tickToGameTimestamp(game.currentTick),
       playerCash: game.playerCash,
       buildingCount: game.buildings.length,
       financials,
@@ -1481,10 +2005,18 @@ export class GameLoop extends EventEmitter {
       ...(aiResult.events.length > 0 ? { competitionEvents: aiResult.events } : {}),
       ...(aiResult.news.length > 0 ? { aiNews: aiResult.news } : {}),
       ...(pendingEvents.length > 0 ? { marketEvents: pendingEvents } : {}),
-      ...((completedProjects.length > 0 || newTechnologies.length > 0) ? {
-        researchUpdates: { completedProjects, newTechnologies }
+      ...((completedProjects.length > 0 || newTechnologies.length > 0 || researchEventUpdates.length > 0) ? {
+        researchUpdates: { completedProjects, newTechnologies, events: researchEventUpdates }
       } : {}),
       ...(economyResult.trades.length > 0 ? { trades: economyResult.trades } : {}),
+      ...(contractEvents.length > 0 ? { contractEvents } : {}),
+      ...(bankingEvents.length > 0 ? { bankingEvents } : {}),
+      ...(bankruptcyEvents.length > 0 ? { bankruptcyEvents } : {}),
+      ...(takeoverEvents.length > 0 ? { takeoverEvents } : {}),
+      ...(decisionEvents.length > 0 ? { decisionEvents } : {}),
+      ...(scenarioResult.status ? { scenarioUpdate: scenarioResult.status } : {}),
+      ...(laborUpdate ? { laborUpdate } : {}),
+      ...(powerGridUpdate ? { powerGridUpdate } : {}),
       economyStats: {
         totalNPCCompanies: economyResult.stats.totalNPCCompanies,
         totalActiveOrders: economyResult.stats.totalActiveOrders,
@@ -1510,29 +2042,36 @@ export class GameLoop extends EventEmitter {
   
   /**
    * 处理完成的研发项目（异步）
+   * 技术效果归属于项目所属公司；AI 公司的发明以新闻通报
    */
   private async processCompletedResearch(
     projectIds: string[],
     currentTick: number,
+    playerCompanyId: string,
     newTechnologies: Array<{ id: string; name: string; category: string }>
   ): Promise<void> {
     for (const projectId of projectIds) {
       try {
+        const ownerId = researchService.getProject(projectId)?.companyId ?? playerCompanyId;
         const result = await researchService.completeResearch(projectId, currentTick);
         if (result.success && result.technology) {
-          newTechnologies.push({
-            id: result.technology.id,
-            name: result.technology.nameZh,
-            category: result.technology.category as string,
-          });
-          console.log(`[GameLoop] New technology invented: ${result.technology.nameZh}`);
+          if (ownerId === playerCompanyId) {
+            newTechnologies.push({
+              id: result.technology.id,
+              name: result.technology.nameZh,
+              category: result.technology.category,
+            });
+          } else {
+            aiCompanyManager.announceTechnology(ownerId, result.technology.nameZh, currentTick);
+          }
+          console.log(`[GameLoop] New technology invented by ${ownerId}: ${result.technology.nameZh}`);
           
-          // 激活技术效果
+          // 激活技术效果（只对所属公司的建筑生效）
           const tech = result.technology;
           technologyEffectManager.activateTechnology(
             tech.id,
             tech.nameZh,
-            'player', // 玩家公司
+            ownerId,
             tech.globalModifiers ?? [],
             tech.productionMethodUnlocks ?? [],
             currentTick
@@ -1680,10 +2219,8 @@ export class GameLoop extends EventEmitter {
         }
       }
       
-      // 获取当前生产方式
-      const slot = def.productionSlots[0];
-      const method = slot?.methods.find(m => m.id === building.currentMethodId)
-                   ?? slot?.methods[0];
+      // 获取当前生产方式（包括技术解锁的）
+      const method = technologyEffectManager.resolveMethod(def.id, building.currentMethodId);
       
       if (!method) continue;
       
@@ -1691,6 +2228,7 @@ export class GameLoop extends EventEmitter {
       
       // 获取技术效果修饰符
       const techModifiers = technologyEffectManager.getBuildingModifiers(
+        game.playerCompanyId,
         building.definitionId,
         def.category
       );
@@ -1708,7 +2246,10 @@ export class GameLoop extends EventEmitter {
       } else if (building.status === 'paused' || building.status === 'waiting_materials') {
         maintenanceMultiplier = 0.25;
       }
-      const buildingMaintenance = (def.maintenanceCost / TICKS_PER_MONTH) * techModifiers.costMultiplier * maintenanceMultiplier * aggregatedCount;
+      // 工资（在岗员工 × 当前工资，见 laborMarket.ts）计入运营成本
+      const buildingWages = laborMarket.getDailyWages(building.id);
+      const buildingMaintenance = (def.maintenanceCost / TICKS_PER_MONTH) * techModifiers.costMultiplier * maintenanceMultiplier * aggregatedCount
+        + buildingWages;
       totalMaintenance += buildingMaintenance;
       
       let buildingIncome = 0;
@@ -1719,7 +2260,7 @@ export class GameLoop extends EventEmitter {
       if (building.status === 'waiting_materials') {
         // 获取建造所需材料
         const constructionMaterials = building.requiredConstructionMaterials ?? getConstructionMaterials(def);
-        const constructionTime = getConstructionTime(def);
+        const constructionTime = difficultySettings.scaleConstructionTime(getConstructionTime(def));
         
         // 检查材料是否齐全，同时收集缺失材料
         let hasAllMaterials = true;
@@ -1807,8 +2348,11 @@ export class GameLoop extends EventEmitter {
         continue; // 跳过生产逻辑
       }
       
+      // 生产方式被事件禁止时停产（维护费照常）
+      const methodBlocked = technologyEffectManager.isMethodBlocked(method.id);
+      
       // 只有 running 状态的建筑才进行生产
-      if (building.status === 'running') {
+      if (building.status === 'running' && !methodBlocked) {
         // === 诊断日志：running状态建筑的生产处理 ===
         if (shouldLogDiagnostics) {
           console.log(`[BuildingProduction] 🏭 ${building.name} 进入生产处理`);
@@ -1837,8 +2381,9 @@ export class GameLoop extends EventEmitter {
           building.status = 'no_input';
           this.autoPurchaseMaterials(game, building, missingInputsCheck);
         } else {
-          // 原料充足，推进生产进度
-          const effectiveEfficiency = building.efficiency * building.utilization * techModifiers.efficiencyMultiplier;
+          // 原料充足，推进生产进度（人手不足时按在岗比例减速）
+          const effectiveEfficiency = building.efficiency * building.utilization * techModifiers.efficiencyMultiplier
+            * laborMarket.getStaffingRatio(building.id);
           building.productionProgress += effectiveEfficiency;
           
           // 检查是否完成了一个生产周期
@@ -1877,6 +2422,7 @@ export class GameLoop extends EventEmitter {
               }
               
               // 添加产出到库存 × 聚合因子
+              let producedUnits = 0;
               for (const output of recipe.outputs) {
                 const price = this.getPrice(game, output.goodsId);
                 const adjustedAmount = output.amount * techModifiers.outputMultiplier * aggregatedCount;
@@ -1894,12 +2440,18 @@ export class GameLoop extends EventEmitter {
                   `production-${building.id}`
                 );
                 buildingIncome += adjustedAmount * price;
+                producedUnits += adjustedAmount;
                 this.addSupply(game, output.goodsId, adjustedAmount);
                 
                 // === 诊断日志：确认库存更新 ===
                 const newQty = inventoryManager.getAvailableQuantity(game.playerCompanyId, output.goodsId);
                 console.log(`[BuildingProduction] 📊 库存更新后: ${output.goodsId} = ${newQty.toFixed(1)}`);
               }
+              
+              // 使用授权专利的生产方式按产量向持有人支付使用费（计入财务摘要的专利使用费支出）；
+              // 无权使用时记为侵权产量
+              patentLicensing.chargeRoyalty(game.playerCompanyId, method.id, producedUnits, game.currentTick);
+              patentLitigation.recordProduction(game.playerCompanyId, method.id, producedUnits, game.currentTick);
             } else {
               building.status = 'no_input';
               produced = false;
@@ -1933,6 +2485,9 @@ export class GameLoop extends EventEmitter {
       }
       // paused 状态不做处理
       
+      // 电费（本 tick 供电量 × 电价）计入原料成本
+      buildingInputCost += powerGrid.getSuppliedPower(game.playerCompanyId, building.id) * this.getPrice(game, ELECTRICITY_GOODS_ID);
+      
       totalIncome += buildingIncome;
       totalInputCost += buildingInputCost;
       
@@ -1972,7 +2527,7 @@ export class GameLoop extends EventEmitter {
       
       buildingProfits.push({
         buildingId: building.id,
-        name: building.name,
+        name: methodBlocked ? `${building.name} (生产方式被禁止)` : building.name,
         income: buildingIncome,
         inputCost: buildingInputCost,
         maintenance: buildingMaintenance,
@@ -2004,6 +2559,33 @@ export class GameLoop extends EventEmitter {
   /**
    * 低频操作：建筑状态诊断日志
    */
+  /**
+   * 按当前建造成本估算玩家和AI公司的建筑价值（用于信用评级）
+   */
+  private estimateBuildingValues(game: GameState): Map<string, number> {
+    const marketPrices: Record<string, number> = {};
+    for (const [goodsId, price] of game.marketPrices) {
+      marketPrices[goodsId] = price;
+    }
+    
+    const costCache = new Map<string, number>();
+    const valueOf = (buildings: BuildingInstance[]): number => buildings.reduce((sum, building) => {
+      let cost = costCache.get(building.definitionId);
+      if (cost === undefined) {
+        const def = BUILDINGS_DATA.find(b => b.id === building.definitionId) ?? getBuilding(building.definitionId);
+        cost = def ? calculateConstructionCost(def, marketPrices).totalCost : 0;
+        costCache.set(building.definitionId, cost);
+      }
+      return sum + cost * (building.aggregatedCount ?? 1);
+    }, 0);
+    
+    const values = new Map<string, number>([[game.playerCompanyId, valueOf(game.buildings)]]);
+    for (const [companyId, company] of aiCompanyManager.getCompanies()) {
+      values.set(companyId, valueOf(company.buildings));
+    }
+    return values;
+  }
+  
   private logBuildingDiagnostics(game: GameState): void {
     console.log(`[GameLoop] 玩家建筑诊断 (tick=${game.currentTick}):`);
     for (const building of game.buildings) {
@@ -2061,7 +2643,7 @@ export class GameLoop extends EventEmitter {
       const cyclicMultiplier = 1 + Math.sin(phase) * amplitude;
       
       // 添加小幅随机噪声 (±10%)
-      const noise = 0.9 + Math.random() * 0.2;
+      const noise = 0.9 + rng.next() * 0.2;
       
       // 最终需求 = 基础需求 × 周期波动 × 随机噪声 × 频率补偿
       const demand = baseDemand * cyclicMultiplier * noise * frequencyMultiplier;
@@ -2111,7 +2693,7 @@ export class GameLoop extends EventEmitter {
     for (const [goodsId, baseDemand] of Object.entries(BASE_CONSUMER_DEMAND)) {
       const phase = (game.currentTick + phaseOffset) / cycleLength * Math.PI * 2;
       const cyclicMultiplier = 1 + Math.sin(phase) * amplitude;
-      const noise = 0.9 + Math.random() * 0.2;
+      const noise = 0.9 + rng.next() * 0.2;
       const demand = baseDemand * cyclicMultiplier * noise;
       this.addDemand(game, goodsId, demand);
       phaseOffset += cycleLength / Object.keys(BASE_CONSUMER_DEMAND).length;
@@ -2169,6 +2751,7 @@ export class GameLoop extends EventEmitter {
     // 资金安全阈值：单次采购不超过可用资金的30%
     const MAX_SPEND_RATIO = 0.3;
     const maxSpendPerOrder = playerInventory.cash * MAX_SPEND_RATIO;
+    const pendingOrders = this.getPendingPurchaseOrders(game.id);
     
     // 计算每个缺少的原料需要购买多少
     for (const missing of missingInputs) {
@@ -2179,7 +2762,7 @@ export class GameLoop extends EventEmitter {
       const trackingKey = `${building.id}-${missing.goodsId}`;
       
       // 检查是否已有未成交的采购订单
-      const existingOrderId = this.pendingPurchaseOrders.get(trackingKey);
+      const existingOrderId = pendingOrders.get(trackingKey);
       if (existingOrderId) {
         // 检查订单是否仍然有效
         const existingOrder = marketOrderBook.getOrder(existingOrderId);
@@ -2188,7 +2771,7 @@ export class GameLoop extends EventEmitter {
           continue;
         } else {
           // 订单已完成/过期/取消，清理追踪
-          this.pendingPurchaseOrders.delete(trackingKey);
+          pendingOrders.delete(trackingKey);
         }
       }
       
@@ -2230,7 +2813,7 @@ export class GameLoop extends EventEmitter {
       
       if (result.success && result.order) {
         // 记录订单ID以追踪
-        this.pendingPurchaseOrders.set(trackingKey, result.order.id);
+        pendingOrders.set(trackingKey, result.order.id);
         console.log(`[GameLoop] 自动采购: ${building.name} 购买 ${purchaseAmount.toFixed(0)} ${missing.goodsId} @ ${maxPrice.toFixed(0)} (限价${(purchaseAmount / desiredPurchaseAmount * 100).toFixed(0)}%)`);
       }
     }
@@ -2259,6 +2842,7 @@ export class GameLoop extends EventEmitter {
     
     const MAX_SPEND_RATIO = 0.3;
     const maxSpendPerOrder = playerInventory.cash * MAX_SPEND_RATIO;
+    const pendingOrders = this.getPendingPurchaseOrders(game.id);
     
     for (const missing of missingMaterials) {
       const shortage = missing.needed - missing.available;
@@ -2268,13 +2852,13 @@ export class GameLoop extends EventEmitter {
       const trackingKey = `construction-${building.id}-${missing.goodsId}`;
       
       // 检查是否已有未成交的采购订单
-      const existingOrderId = this.pendingPurchaseOrders.get(trackingKey);
+      const existingOrderId = pendingOrders.get(trackingKey);
       if (existingOrderId) {
         const existingOrder = marketOrderBook.getOrder(existingOrderId);
         if (existingOrder && (existingOrder.status === 'open' || existingOrder.status === 'partial')) {
           continue;
         } else {
-          this.pendingPurchaseOrders.delete(trackingKey);
+          pendingOrders.delete(trackingKey);
         }
       }
       
@@ -2302,7 +2886,7 @@ export class GameLoop extends EventEmitter {
       );
       
       if (result.success && result.order) {
-        this.pendingPurchaseOrders.set(trackingKey, result.order.id);
+        pendingOrders.set(trackingKey, result.order.id);
         console.log(`[GameLoop] 建造材料采购: ${building.name} 购买 ${purchaseAmount} ${missing.goodsId} @ ${maxPrice.toFixed(0)}`);
       }
     }
@@ -2336,20 +2920,26 @@ export class GameLoop extends EventEmitter {
     // Stop the current loop
     this.stopGameLoop(gameId);
     
+    // 保留游戏名称、玩家公司名称、随机种子和剧本（重置后重放同一局面）
+    const playerCompanyName = gameWorldFactory.run(gameId,
+      () => inventoryManager.getInventory(existingGame.playerCompanyId)?.companyName
+    );
+    
     // Delete the old game
     this.games.delete(gameId);
+    this.clearGameCaches(gameId);
     
-    // 重置经济系统
-    economyManager.reset();
-    
-    // 重置股票市场
-    stockMarketService.reset();
-    
-    // 重置AI股票交易服务
-    aiStockTradingService.reset();
+    // 丢弃旧的游戏世界（经济系统、股市、AI公司等全部服务实例）
+    gameWorldFactory.removeWorld(gameId);
     
     // Create a fresh game
-    const newGame = this.getOrCreateGame(gameId, existingGame.playerCompanyId);
+    const newGame = this.getOrCreateGame(gameId, existingGame.playerCompanyId, {
+      name: existingGame.name,
+      seed: existingGame.seed,
+      ...(playerCompanyName ? { playerCompanyName } : {}),
+      ...(existingGame.scenarioId !== undefined ? { scenarioId: existingGame.scenarioId } : {}),
+      difficulty: existingGame.difficulty,
+    });
     
     console.log(`[GameLoop] Game ${gameId} has been reset`);
     
@@ -2358,12 +2948,91 @@ export class GameLoop extends EventEmitter {
     return newGame;
   }
   
+  /**
+   * 序列化游戏状态（用于存档）
+   */
+  serializeGame(gameId: string): SerializedGameState | undefined {
+    const game = this.games.get(gameId);
+    if (!game) return undefined;
+    
+    return structuredClone({
+      ...game,
+      marketPrices: Array.from(game.marketPrices.entries()),
+      priceHistory: Array.from(game.priceHistory.entries()),
+      supplyDemand: Array.from(game.supplyDemand.entries()),
+    });
+  }
+  
+  /**
+   * 从存档恢复游戏
+   * 各服务状态需由调用方（saveGameService）在该游戏世界中先行恢复；恢复后的游戏处于暂停状态
+   */
+  restoreGame(serialized: SerializedGameState): GameState {
+    const gameId = serialized.id;
+    
+    this.stopGameLoop(gameId);
+    this.clearGameCaches(gameId);
+    
+    const state = structuredClone(serialized);
+    const game: GameState = {
+      ...state,
+      isPaused: true,
+      marketPrices: new Map(state.marketPrices),
+      priceHistory: new Map(state.priceHistory),
+      supplyDemand: new Map(state.supplyDemand),
+      lastUpdate: Date.now(),
+    };
+    this.games.set(gameId, game);
+    
+    gameWorldFactory.run(gameId, () => {
+      initializeRegistries();
+      difficultySettings.setDifficulty(game.difficulty);
+      marketOrderBook.setNewOrderCallback((goodsId, orderId) => {
+        matchingEngine.markNewOrder(goodsId, orderId);
+      });
+      aiStockTradingService.reset();
+    });
+    
+    console.log(`[GameLoop] Game ${gameId} restored at tick ${game.currentTick}`);
+    this.emit('gameReset', { gameId });
+    this.emit('gameRestored', { gameId, tick: game.currentTick });
+    
+    return game;
+  }
+  
   /**
    * Clean up when a game is no longer needed
    */
   destroyGame(gameId: string): void {
     this.stopGameLoop(gameId);
     this.games.delete(gameId);
+    this.clearGameCaches(gameId);
+    gameWorldFactory.removeWorld(gameId);
+    tickSchedulerFactory.removeScheduler(gameId);
+  }
+  
+  /**
+   * 清理按游戏ID缓存的循环内部数据
+   */
+  private clearGameCaches(gameId: string): void {
+    this.lastSentPrices.delete(gameId);
+    this.buildingProfitHistory.delete(gameId);
+    this.scheduledMarketEvents.delete(gameId);
+    this.pendingMarketEvents.delete(gameId);
+    this.pendingPurchaseOrders.delete(gameId);
+    this.decisionPausedGames.delete(gameId);
+  }
+  
+  /**
+   * 获取游戏的自动采购订单追踪表
+   */
+  private getPendingPurchaseOrders(gameId: string): Map<string, string> {
+    let orders = this.pendingPurchaseOrders.get(gameId);
+    if (!orders) {
+      orders = new Map();
+      this.pendingPurchaseOrders.set(gameId, orders);
+    }
+    return orders;
   }
   
   /**
@@ -2417,22 +3086,25 @@ export class GameLoop extends EventEmitter {
           if (eventResult.effects.supplyChanges) {
             effects.supplyChanges = eventResult.effects.supplyChanges;
           }
+          if (eventResult.effects.modifiers) {
+            effects.modifiers = eventResult.effects.modifiers;
+          }
           
           // 在200 tick内随机分布触发时间
-          const randomOffset = Math.floor(Math.random() * this.marketEventGenerationInterval);
+          const randomOffset = rng.nextInt(this.marketEventGenerationInterval);
           const triggerTick = game.currentTick + 10 + randomOffset; // 至少等10 tick后触发
           
-          // Generate a more unique ID using crypto
-          const uniqueId = crypto.randomUUID();
-          const marketEvent: MarketEventGenerated = {
-            id: `market-event-${uniqueId}`,
+          // 严重程度按难度重新抽取
+          const marketEvent = difficultySettings.rebalanceMarketEvent({
+            id: `market-event-${rng.nextId(12)}`,
             tick: triggerTick,
             type: eventResult.type as MarketEventGenerated['type'],
             severity: eventResult.severity as MarketEventGenerated['severity'],
             title: eventResult.title,
             description: eventResult.description,
+            ...(eventResult.durationTicks !== undefined ? { durationTicks: eventResult.durationTicks } : {}),
             effects,
-          };
+          });
           
           scheduled.push({ event: marketEvent, triggerTick });
           console.log(`[GameLoop] 市场事件预定: ${marketEvent.title} (tick=${triggerTick}, ${marketEvent.severity})`);
@@ -2496,39 +3168,49 @@ export class GameLoop extends EventEmitter {
   
   /**
    * 应用市场事件效果
+   * 价格、供给变化和机制效果统一转换为 EventEffect，由 eventEffectManager 结算；带持续时间的事件到期后回滚
    */
   private applyMarketEventEffects(game: GameState, event: MarketEventGenerated): void {
-    // 应用价格变化
-    if (event.effects.priceChanges) {
-      for (const [goodsId, changePercent] of Object.entries(event.effects.priceChanges)) {
-        const currentPrice = game.marketPrices.get(goodsId);
-        if (currentPrice !== undefined) {
-          const newPrice = Math.round(currentPrice * (1 + changePercent));
-          const basePrice = GOODS_BASE_PRICES.get(goodsId) ?? currentPrice;
-          const minMultiplier = ECONOMY_CONSTANTS?.MIN_PRICE_MULTIPLIER ?? 0.2;
-          const maxMultiplier = ECONOMY_CONSTANTS?.MAX_PRICE_MULTIPLIER ?? 5;
-          
-          // 限制价格范围
-          const clampedPrice = Math.max(
-            basePrice * minMultiplier,
-            Math.min(basePrice * maxMultiplier, newPrice)
-          );
-          game.marketPrices.set(goodsId, clampedPrice);
-          console.log(`[GameLoop] 事件影响: ${goodsId} 价格 ${currentPrice} -> ${clampedPrice} (${changePercent > 0 ? '+' : ''}${(changePercent * 100).toFixed(1)}%)`);
-        }
-      }
-    }
+    const duration = event.durationTicks !== undefined
+      ? { permanent: false, durationTicks: event.durationTicks }
+      : { permanent: true };
+    const goodsEffect = (type: EventEffectType, goodsId: string, changePercent: number): EventEffect => ({
+      type,
+      targetType: 'goods',
+      targetId: goodsId,
+      parameter: type === EventEffectType.PriceModifier ? 'price' : type === EventEffectType.SupplyModifier ? 'supply' : 'demand',
+      value: 1 + changePercent,
+      isMultiplier: true,
+      ...duration,
+    });
     
-    // 应用供给变化
-    if (event.effects.supplyChanges) {
-      for (const [goodsId, changePercent] of Object.entries(event.effects.supplyChanges)) {
-        const data = game.supplyDemand.get(goodsId);
-        if (data) {
-          data.supply = Math.max(100, data.supply * (1 + changePercent));
-          console.log(`[GameLoop] 事件影响: ${goodsId} 供给变化 ${(changePercent * 100).toFixed(1)}%`);
+    const effects: EventEffect[] = [
+      ...Object.entries(event.effects.priceChanges ?? {}).map(([goodsId, change]) => goodsEffect(EventEffectType.PriceModifier, goodsId, change)),
+      ...Object.entries(event.effects.supplyChanges ?? {}).map(([goodsId, change]) => goodsEffect(EventEffectType.SupplyModifier, goodsId, change)),
+    ];
+    
+    for (const modifier of event.effects.modifiers ?? []) {
+      if (modifier.type === EventEffectType.DemandModifier) {
+        if (modifier.target !== undefined) {
+          effects.push(goodsEffect(EventEffectType.DemandModifier, modifier.target, modifier.value));
         }
+        continue;
       }
+      const type = modifier.type;
+      effects.push({
+        type,
+        targetType: type === EventEffectType.TechBlock || type === EventEffectType.TechUnlock
+          ? 'technology'
+          : type === EventEffectType.TaxChange ? 'global' : 'building',
+        ...(modifier.target !== undefined ? { targetId: modifier.target } : {}),
+        parameter: type === EventEffectType.TechBlock || type === EventEffectType.TechUnlock ? 'method' : 'modifier',
+        value: modifier.value,
+        isMultiplier: false,
+        ...duration,
+      });
     }
+    
+    eventEffectManager.applyEffects(effects, { game, currentTick: game.currentTick, source: event.title });
   }
 
   /**
@@ -0,0 +1,153 @@
+/**
+ * Game World - 游戏世界容器
+ * 每个游戏拥有一套独立的模拟服务实例，游戏之间互不影响
+ *
+ * 生命周期：
+ * - GameLoop.getOrCreateGame 创建世界
+ * - GameLoop.resetGame / destroyGame 销毁世界
+ */
+
+import { EventEmitter } from 'events';
+import { InventoryManager } from './inventoryManager.js';
+import { MarketOrderBook } from './marketOrderBook.js';
+import { MatchingEngine } from './matchingEngine.js';
+import { PriceDiscoveryService } from './priceDiscovery.js';
+import { POPsConsumptionManager } from './popsConsumption.js';
+import { EconomyManager } from './economyManager.js';
+import { AICompanyManager } from './aiCompanyManager.js';
+import { AutoTradeManager } from './autoTradeManager.js';
+import { StockMarketService } from './stockMarket.js';
+import { AIStockTradingService } from './aiStockTrading.js';
+import { ResearchService } from './researchService.js';
+import { TechnologyEffectManager } from './technologyEffectManager.js';
+import { ContractService } from './contractService.js';
+import { NegotiationService } from './negotiationService.js';
+import { BankingService } from './bankingService.js';
+import { BankruptcyService } from './bankruptcyService.js';
+import { TakeoverService } from './takeoverService.js';
+import { DecisionEventService } from './decisionEvents.js';
+import { EventEffectManager } from './eventEffects.js';
+import { ScenarioService } from './scenarios.js';
+import { DifficultySettings } from './difficulty.js';
+import { LaborMarket } from './laborMarket.js';
+import { PowerGrid } from './powerGrid.js';
+import { PatentLicensing } from './patentLicensing.js';
+import { PatentLitigation } from './patentLitigation.js';
+import { ResearchEventService } from './researchEvents.js';
+import { LLMUsageTracker } from './llmUsage.js';
+import { PromptSelection } from './promptTemplates.js';
+import { SeededRandom } from '../utils/SeededRandom.js';
+import {
+  enterWorld,
+  runWithWorld,
+  type WorldServices,
+} from './worldContext.js';
+
+/**
+ * 游戏世界 - 持有单个游戏的全部服务实例
+ */
+export class GameWorld implements WorldServices {
+  /** 种子在游戏创建/读档时设定（GameLoop.getOrCreateGame / saveGameService） */
+  readonly rng = new SeededRandom();
+  readonly inventoryManager = new InventoryManager();
+  readonly marketOrderBook = new MarketOrderBook();
+  readonly matchingEngine = new MatchingEngine();
+  readonly priceDiscoveryService = new PriceDiscoveryService();
+  readonly popsConsumptionManager = new POPsConsumptionManager();
+  readonly economyManager = new EconomyManager();
+  readonly aiCompanyManager = new AICompanyManager();
+  readonly autoTradeManager = new AutoTradeManager();
+  readonly stockMarketService = new StockMarketService();
+  readonly aiStockTradingService = new AIStockTradingService();
+  readonly researchService = new ResearchService();
+  readonly technologyEffectManager = new TechnologyEffectManager();
+  readonly contractService = new ContractService();
+  readonly negotiationService = new NegotiationService();
+  readonly bankingService = new BankingService();
+  readonly bankruptcyService = new BankruptcyService();
+  readonly takeoverService = new TakeoverService();
+  readonly decisionEventService = new DecisionEventService();
+  readonly eventEffectManager = new EventEffectManager();
+  readonly scenarioService = new ScenarioService();
+  readonly difficultySettings = new DifficultySettings();
+  readonly laborMarket = new LaborMarket();
+  readonly powerGrid = new PowerGrid();
+  readonly patentLicensing = new PatentLicensing();
+  readonly patentLitigation = new PatentLitigation();
+  readonly researchEvents = new ResearchEventService();
+  readonly llmUsageTracker = new LLMUsageTracker();
+  readonly promptSelection = new PromptSelection();
+
+  constructor(readonly gameId: string) {}
+
+  /**
+   * 释放世界：移除所有事件监听
+   */
+  dispose(): void {
+    for (const service of Object.values(this)) {
+      if (service instanceof EventEmitter) {
+        service.removeAllListeners();
+      }
+    }
+  }
+}
+
+/**
+ * 世界工厂 - 为每个游戏创建世界
+ */
+class GameWorldFactory {
+  private worlds = new Map<string, GameWorld>();
+
+  /**
+   * 获取游戏世界，不存在时创建
+   */
+  getWorld(gameId: string): GameWorld {
+    let world = this.worlds.get(gameId);
+    if (!world) {
+      world = new GameWorld(gameId);
+      this.worlds.set(gameId, world);
+      console.log(`[GameWorld] Created world for game ${gameId}`);
+    }
+    return world;
+  }
+
+  hasWorld(gameId: string): boolean {
+    return this.worlds.has(gameId);
+  }
+
+  /**
+   * 销毁游戏世界
+   */
+  removeWorld(gameId: string): void {
+    const world = this.worlds.get(gameId);
+    if (!world) return;
+
+    world.dispose();
+    this.worlds.delete(gameId);
+    console.log(`[GameWorld] Removed world for game ${gameId}`);
+  }
+
+  /**
+   * 在游戏世界中执行（世界不存在时创建）
+   */
+  run<T>(gameId: string, fn: () => T): T {
+    return runWithWorld(this.getWorld(gameId), fn);
+  }
+
+  /**
+   * 让当前请求进入已存在的游戏世界
+   * @returns 是否找到了对应世界
+   */
+  enter(gameId: string): boolean {
+    const world = this.worlds.get(gameId);
+    if (!world) return false;
+    enterWorld(world);
+    return true;
+  }
+
+  getWorldIds(): string[] {
+    return Array.from(this.worlds.keys());
+  }
+}
+
+export const gameWorldFactory = new GameWorldFactory();
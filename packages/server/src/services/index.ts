@@ -10,7 +10,37 @@ export type {
   NegotiationContext,
   StrategicPlan,
   StrategicAnalysisRequest,
+  NegotiationResult,
+  StructuredOutputEvent,
+  DecisionEventRequest,
+  GeneratedDecisionEvent,
 } from './llm.js';
+export {
+  createLLMProvider,
+  OpenAICompatibleProvider,
+  FixtureProvider,
+  LLMFixtureMissingError,
+} from './llmProvider.js';
+export type {
+  LLMProvider,
+  LLMProviderType,
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMUsage,
+} from './llmProvider.js';
+export { LLMUsageTracker, llmUsageTracker, LLMBudgetExceededError, LLM_FEATURES } from './llmUsage.js';
+export type {
+  LLMFeature,
+  LLMBudgetConfig,
+  LLMFeatureBudget,
+  LLMUsageReport,
+} from './llmUsage.js';
+export { LLMValidationError, parseStructuredOutput } from './llmSchemas.js';
+export type { LLMSchemaName, StructuredOutputSpec } from './llmSchemas.js';
+export { PromptTemplateRegistry, promptTemplateRegistry, PromptSelection, promptSelection } from './promptTemplates.js';
+export type { PromptTemplate, PromptTemplateId, RenderedPrompt } from './promptTemplates.js';
+export { PromptEvaluator, promptEvaluator, loadRecordedContexts } from './promptEvaluator.js';
+export type { PromptEvaluationReport, PromptVersionScore } from './promptEvaluator.js';
 
 export { AICompanyManager, aiCompanyManager } from './aiCompanyManager.js';
 export type {
@@ -25,9 +55,11 @@ export type {
 export { ResearchService, researchService } from './researchService.js';
 export type {
   ResearchState,
+  ResearchProject,
   CreateResearchRequest,
   EvaluationResult,
   TechnologyResult,
+  ResearchEventEffect,
 } from './researchService.js';
 
 export { gameLoop } from './gameLoop.js';
@@ -39,8 +71,158 @@ export type {
   BuildingProfit,
   FinancialSummary,
   TickUpdate,
+  SerializedGameState,
+  PurchaseBuildingResult,
 } from './gameLoop.js';
 
+export { GameWorld, gameWorldFactory } from './gameWorld.js';
+export { getCurrentWorld, runWithWorld } from './worldContext.js';
+export type { WorldServices, WorldServiceKey } from './worldContext.js';
+
+export { ContractService, contractService } from './contractService.js';
+export type {
+  ContractRecord,
+  ContractProposal,
+  ContractResult,
+  ContractEvent,
+  ContractSnapshotState,
+} from './contractService.js';
+
+export { NegotiationService, negotiationService } from './negotiationService.js';
+
+export { BankingService, bankingService, CREDIT_RATINGS, DEFAULT_LOAN_TERM } from './bankingService.js';
+
+export { BankruptcyService, bankruptcyService } from './bankruptcyService.js';
+export type {
+  BankruptcyCase,
+  AuctionRecord,
+  BankruptcyEvent,
+  BankruptcySnapshotState,
+} from './bankruptcyService.js';
+
+export { TakeoverService, takeoverService } from './takeoverService.js';
+export type {
+  Subsidiary,
+  TakeoverEvent,
+  DirectProductionResult,
+  TakeoverSnapshotState,
+} from './takeoverService.js';
+export { DecisionEventService, decisionEventService } from './decisionEvents.js';
+export type {
+  PendingDecision,
+  QueuedDecision,
+  DecisionRecord,
+  DecisionEventUpdate,
+  DecisionResult,
+  DecisionSnapshotState,
+} from './decisionEvents.js';
+
+export { EventEffectManager, eventEffectManager } from './eventEffects.js';
+export type {
+  EventEffectContext,
+  AppliedEventEffect,
+  ActiveEventEffect,
+  ExpiredEventEffect,
+  EventEffectSnapshotState,
+} from './eventEffects.js';
+
+export {
+  ScenarioRegistry,
+  scenarioRegistry,
+  ScenarioService,
+  scenarioService,
+  parseScenario,
+  describeCondition,
+  SCENARIOS_DIR,
+} from './scenarios.js';
+export type {
+  ScenarioDefinition,
+  ScenarioCondition,
+  ScenarioOutcome,
+  ScenarioSummary,
+  ScenarioConditionProgress,
+  ScenarioStatus,
+  ScenarioTickResult,
+  ScenarioSnapshotState,
+} from './scenarios.js';
+
+export { DifficultySettings, difficultySettings } from './difficulty.js';
+
+export { LaborMarket, laborMarket, POACH_WAGE_PREMIUM, POACH_DURATION, POACH_SHARE } from './laborMarket.js';
+export type {
+  LaborEmployer,
+  BuildingStaffing,
+  LaborTierStatus,
+  PoachCampaign,
+  PoachResult,
+  LaborMarketSnapshotState,
+} from './laborMarket.js';
+
+export {
+  PowerGrid,
+  powerGrid,
+  getPowerDraw,
+  getGenerationCapacity,
+  ELECTRICITY_GOODS_ID,
+  POWER_PRIORITIES,
+} from './powerGrid.js';
+export type { PowerPriority, PowerGridStatus, PowerChange } from './powerGrid.js';
+
+export { PatentLicensing, patentLicensing, LICENSE_REQUEST_TIMEOUT } from './patentLicensing.js';
+export type {
+  LicenseTerms,
+  LicenseProposal,
+  LicenseRequestRecord,
+  PatentLicense,
+  LicenseEvent,
+  LicenseResult,
+  RoyaltyTotals,
+  PatentLicensingSnapshotState,
+} from './patentLicensing.js';
+
+export { PatentLitigation, patentLitigation, CHALLENGE_DURATION, CASE_DURATION } from './patentLitigation.js';
+export type {
+  PatentChallengeStatus,
+  PatentChallenge,
+  InfringementRemedy,
+  InfringementCaseStatus,
+  InfringementCase,
+  Injunction,
+  InfringementWaiver,
+  LitigationEvent,
+  LitigationResult,
+  PatentLitigationSnapshotState,
+} from './patentLitigation.js';
+
+export { ResearchEventService, researchEvents } from './researchEvents.js';
+export type {
+  ResearchDecisionChoice,
+  ResearchEventDecision,
+  ResearchEventRecord,
+  ResearchEventUpdate,
+  ResearchDecisionResult,
+  ResearchEventsSnapshotState,
+} from './researchEvents.js';
+
+export type {
+  CreditRating,
+  Loan,
+  CreditProfile,
+  BankingEvent,
+  LoanResult,
+  LoanQuote,
+  BankingSnapshotState,
+} from './bankingService.js';
+export type {
+  NegotiationSession,
+  NegotiationTerms,
+  NegotiationTurnResult,
+  NegotiationSnapshotState,
+} from './negotiationService.js';
+
+export { SaveGameService, saveGameService, SAVE_FORMAT_VERSION } from './saveGameService.js';
+export type { SaveGameSnapshot, SaveResult, LoadResult } from './saveGameService.js';
+
 export { TechnologyEffectManager, technologyEffectManager } from './technologyEffectManager.js';
 export type {
   TechnologyModifier,
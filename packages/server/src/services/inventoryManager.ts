@@ -6,6 +6,7 @@
 import { EventEmitter } from 'events';
 import type { GoodsStock, CompanyInventory, InventoryChange } from '@scc/shared';
 import { CompanyType, GOODS_DATA } from '@scc/shared';
+import { worldScoped } from './worldContext.js';
 
 /**
  * 库存变更结果
@@ -17,7 +18,7 @@ export interface InventoryResult {
 }
 
 /**
- * 库存管理器 - 单例
+ * 库存管理器 - 每个游戏世界一个实例
  */
 export class InventoryManager extends EventEmitter {
   /** 所有公司的库存 Map<companyId, CompanyInventory> */
@@ -530,6 +531,30 @@ export class InventoryManager extends EventEmitter {
     return history.slice(-limit);
   }
   
+  /**
+   * 清空公司的全部商品库存（含销售和生产预留，破产清算时调用）
+   * @returns 清出的商品及数量
+   */
+  clearAllGoods(companyId: string, currentTick: number, reason = 'liquidation'): Map<string, number> {
+    const cleared = new Map<string, number>();
+    const inventory = this.inventories.get(companyId);
+    if (!inventory) return cleared;
+    
+    for (const [goodsId, stock] of Object.entries(inventory.stocks)) {
+      const total = stock.quantity + stock.reservedForSale + stock.reservedForProduction;
+      if (total <= 0) continue;
+      
+      stock.quantity = 0;
+      stock.reservedForSale = 0;
+      stock.reservedForProduction = 0;
+      stock.lastUpdateTick = currentTick;
+      this.recordChange(companyId, goodsId, 'consume', -total, reason, currentTick);
+      cleared.set(goodsId, total);
+    }
+    
+    return cleared;
+  }
+  
   /**
    * 重置所有库存
    */
@@ -538,7 +563,44 @@ export class InventoryManager extends EventEmitter {
     this.changeHistory = [];
     console.log('[InventoryManager] Reset all inventories');
   }
+
+  /**
+   * 导出库存状态（用于存档）
+   */
+  exportState(): InventorySnapshotState {
+    return {
+      inventories: Array.from(this.inventories.values()).map(inv => structuredClone(inv)),
+    };
+  }
+
+  /**
+   * 从存档恢复库存状态
+   * 挂单不随存档保存，因此预留数量会归还到可用库存
+   */
+  importState(state: InventorySnapshotState): void {
+    this.inventories.clear();
+    this.changeHistory = [];
+
+    for (const saved of state.inventories) {
+      const inventory = structuredClone(saved);
+      for (const stock of Object.values(inventory.stocks)) {
+        stock.quantity += stock.reservedForSale + stock.reservedForProduction;
+        stock.reservedForSale = 0;
+        stock.reservedForProduction = 0;
+      }
+      this.inventories.set(inventory.companyId, inventory);
+    }
+
+    console.log(`[InventoryManager] Restored ${this.inventories.size} inventories`);
+  }
+}
+
+/**
+ * 库存存档数据
+ */
+export interface InventorySnapshotState {
+  inventories: CompanyInventory[];
 }
 
-// 单例实例
-export const inventoryManager = new InventoryManager();
\ No newline at end of file
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const inventoryManager = worldScoped('inventoryManager');
\ No newline at end of file
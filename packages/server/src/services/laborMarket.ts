@@ -0,0 +1,402 @@
+/**
+ * Labor Market - 劳动力市场
+ *
+ * 工人来自 POP 阶层（popsConfig.ts）：
+ * - 工薪阶层：普通工厂、矿山、农场和零售
+ * - 中产阶级：半导体、电子、新能源等技术密集型建筑（技术工人）
+ * 富裕阶层不参与劳动力市场
+ *
+ * 每 tick 按建筑生产方式的 laborRequired × 聚合因子计算用工需求，
+ * 出价高的公司（挖角期间有工资溢价）优先招满，同档公司按需求比例分配。
+ * 人手不足的建筑按在岗比例降低生产速度；工资计入建筑运营成本。
+ *
+ * 工资随劳动力市场紧张程度定期调整，各阶层的工资总额反馈为 POP 收入倍率
+ * （POPsConsumptionManager.setIncomeMultipliers），影响消费预算。
+ *
+ * 挖角：公司在一段时间内提高工资溢价，并带走目标公司一部分员工，
+ * 目标公司的在岗上限随时间逐步恢复（重新招聘）
+ */
+
+import { POP_GROUPS, WORKING_CLASS, MIDDLE_CLASS, BUILDINGS_DATA } from '@scc/shared';
+import type { BuildingInstance } from './gameLoop.js';
+import { popsConsumptionManager } from './popsConsumption.js';
+import { technologyEffectManager } from './technologyEffectManager.js';
+import { worldScoped } from './worldContext.js';
+
+/** 模拟的工业部门就业人口占各阶层人口的比例（其余人口在未建模的行业就业） */
+const INDUSTRIAL_LABOR_SHARE: Record<string, number> = {
+  [WORKING_CLASS.id]: 0.015,
+  [MIDDLE_CLASS.id]: 0.01,
+};
+
+/** 雇用中产阶级（技术工人）的建筑子类别，其余建筑雇用工薪阶层 */
+const SKILLED_SUBCATEGORIES = new Set(['半导体制造', '电子制造', '电子材料', '新能源制造', '数字基础设施']);
+
+/** POP 月收入以分计，工资以元结算 */
+const CENTS_PER_YUAN = 100;
+
+const TICKS_PER_MONTH = 30;
+
+/** 正常的劳动力市场紧张程度（需求 / 劳动力），此时工资等于基准工资 */
+const NORMAL_TIGHTNESS = 0.75;
+
+/** 紧张程度每偏离 1，目标工资偏离基准的比例 */
+const WAGE_ELASTICITY = 2;
+
+/** 工资相对基准工资的范围 */
+const MIN_WAGE_RATIO = 0.7;
+const MAX_WAGE_RATIO = 2;
+
+/** 每次调整向目标工资靠拢的比例 */
+const WAGE_ADJUSTMENT_SPEED = 0.1;
+
+/** POP 收入中来自工业部门工资的比例（只有这部分随就业和工资变化） */
+const WAGE_INCOME_SHARE = 0.2;
+
+/** POP 收入倍率范围 */
+const MIN_INCOME_MULTIPLIER = 0.8;
+const MAX_INCOME_MULTIPLIER = 1.2;
+
+/** 挖角期间挖角方的工资溢价 */
+export const POACH_WAGE_PREMIUM = 0.25;
+
+/** 挖角持续时间（ticks），目标公司在此期间逐步重新招满 */
+export const POACH_DURATION = 60;
+
+/** 挖角带走的目标公司员工比例 */
+export const POACH_SHARE = 0.15;
+
+/** 不招工的建筑状态（建造期间的人工已计入建造费用） */
+const IDLE_STATUSES: ReadonlySet<BuildingInstance['status']> = new Set(['under_construction', 'waiting_materials', 'paused']);
+
+/** 雇主：公司及其建筑 */
+export interface LaborEmployer {
+  companyId: string;
+  buildings: BuildingInstance[];
+}
+
+/** 单个建筑的用工情况 */
+export interface BuildingStaffing {
+  buildingId: string;
+  companyId: string;
+  popGroupId: string;
+  required: number;
+  employed: number;
+}
+
+/** 单个阶层的劳动力市场状况 */
+export interface LaborTierStatus {
+  popGroupId: string;
+  nameZh: string;
+  laborForce: number;
+  demand: number;
+  employed: number;
+  /** 当前工资（元/人/月） */
+  wage: number;
+  baseWage: number;
+  /** POP 收入倍率 */
+  incomeMultiplier: number;
+}
+
+/** 进行中的挖角 */
+export interface PoachCampaign {
+  companyId: string;
+  targetCompanyId: string;
+  startTick: number;
+  expiresAtTick: number;
+}
+
+/** 挖角结果 */
+export interface PoachResult {
+  success: boolean;
+  /** 被挖走的员工数 */
+  workers?: number;
+  /** 签约奖金（一个月工资） */
+  signingBonus?: number;
+  error?: string;
+}
+
+/** 劳动力市场存档状态（用工情况每 tick 重新计算，不需要保存） */
+export interface LaborMarketSnapshotState {
+  wages: Record<string, number>;
+  campaigns: PoachCampaign[];
+}
+
+/**
+ * 劳动力市场
+ * 每个游戏世界一个实例
+ */
+export class LaborMarket {
+  /** POPGroup ID -> 当前工资（元/人/月） */
+  private wages = new Map<string, number>();
+  /** 建筑ID -> 用工情况 */
+  private staffing = new Map<string, BuildingStaffing>();
+  private campaigns: PoachCampaign[] = [];
+  private currentTick = 0;
+
+  /**
+   * 重新分配劳动力（每 tick，先于生产）
+   */
+  update(currentTick: number, employers: LaborEmployer[]): void {
+    this.currentTick = currentTick;
+    this.campaigns = this.campaigns.filter(campaign => campaign.expiresAtTick > currentTick);
+    this.staffing.clear();
+
+    const demandsByTier = new Map<string, { staffing: BuildingStaffing; premium: number; cap: number }[]>();
+    for (const employer of employers) {
+      const premium = this.getWagePremium(employer.companyId);
+      const cap = this.getStaffingCap(employer.companyId);
+
+      for (const building of employer.buildings) {
+        if (IDLE_STATUSES.has(building.status)) continue;
+        const required = getLaborRequired(building);
+        if (required <= 0) continue;
+
+        const popGroupId = getLaborTier(building.definitionId);
+        const demands = demandsByTier.get(popGroupId) ?? [];
+        demands.push({
+          staffing: { buildingId: building.id, companyId: employer.companyId, popGroupId, required, employed: 0 },
+          premium,
+          cap,
+        });
+        demandsByTier.set(popGroupId, demands);
+      }
+    }
+
+    for (const [popGroupId, demands] of demandsByTier) {
+      let remaining = this.getLaborForce(popGroupId);
+
+      // 出价高的公司优先招满，同档按需求比例分配
+      const premiums = [...new Set(demands.map(demand => demand.premium))].sort((a, b) => b - a);
+      for (const premium of premiums) {
+        const group = demands.filter(demand => demand.premium === premium);
+        const groupDemand = group.reduce((sum, demand) => sum + demand.staffing.required * demand.cap, 0);
+        const fill = groupDemand > 0 ? Math.min(1, remaining / groupDemand) : 0;
+
+        for (const demand of group) {
+          demand.staffing.employed = demand.staffing.required * demand.cap * fill;
+          remaining -= demand.staffing.employed;
+          this.staffing.set(demand.staffing.buildingId, demand.staffing);
+        }
+      }
+    }
+  }
+
+  /**
+   * 按劳动力市场紧张程度调整工资
+   */
+  adjustWages(): void {
+    for (const status of this.getTierStatuses()) {
+      const tightness = status.laborForce > 0 ? status.demand / status.laborForce : 0;
+      const targetRatio = Math.max(MIN_WAGE_RATIO, Math.min(MAX_WAGE_RATIO,
+        1 + WAGE_ELASTICITY * (tightness - NORMAL_TIGHTNESS)
+      ));
+      const wage = status.wage + (status.baseWage * targetRatio - status.wage) * WAGE_ADJUSTMENT_SPEED;
+      this.wages.set(status.popGroupId, wage);
+    }
+  }
+
+  /**
+   * 建筑在岗比例（0-1），未登记的建筑视为满员
+   */
+  getStaffingRatio(buildingId: string): number {
+    const staffing = this.staffing.get(buildingId);
+    if (!staffing || staffing.required <= 0) return 1;
+    return staffing.employed / staffing.required;
+  }
+
+  /**
+   * 建筑每 tick 的工资支出（元）
+   */
+  getDailyWages(buildingId: string): number {
+    const staffing = this.staffing.get(buildingId);
+    if (!staffing) return 0;
+    const wage = this.getWage(staffing.popGroupId) * (1 + this.getWagePremium(staffing.companyId));
+    return (staffing.employed * wage) / TICKS_PER_MONTH;
+  }
+
+  /**
+   * 按当前工资估算建筑满员时每 tick 的工资支出（元），用于建设和切换生产方式前的成本评估
+   */
+  estimateDailyWages(definitionId: string, method: { laborRequired?: number }, aggregatedCount = 1): number {
+    const wage = this.getWage(getLaborTier(definitionId));
+    return ((method.laborRequired ?? 0) * aggregatedCount * wage) / TICKS_PER_MONTH;
+  }
+
+  /**
+   * 当前工资（元/人/月）
+   */
+  getWage(popGroupId: string): number {
+    return this.wages.get(popGroupId) ?? getBaseWage(popGroupId);
+  }
+
+  /**
+   * 各阶层劳动力市场状况
+   */
+  getTierStatuses(): LaborTierStatus[] {
+    return LABOR_TIERS.map(popGroup => {
+      let demand = 0;
+      let employed = 0;
+      for (const staffing of this.staffing.values()) {
+        if (staffing.popGroupId !== popGroup.id) continue;
+        demand += staffing.required;
+        employed += staffing.employed;
+      }
+
+      const laborForce = this.getLaborForce(popGroup.id);
+      const wage = this.getWage(popGroup.id);
+      const baseWage = getBaseWage(popGroup.id);
+      const referenceWageBill = laborForce * NORMAL_TIGHTNESS * baseWage;
+      const wageRatio = referenceWageBill > 0 ? (employed * wage) / referenceWageBill : 1;
+      const incomeMultiplier = Math.max(MIN_INCOME_MULTIPLIER, Math.min(MAX_INCOME_MULTIPLIER,
+        1 - WAGE_INCOME_SHARE + WAGE_INCOME_SHARE * wageRatio
+      ));
+
+      return {
+        popGroupId: popGroup.id,
+        nameZh: popGroup.nameZh,
+        laborForce,
+        demand,
+        employed,
+        wage,
+        baseWage,
+        incomeMultiplier,
+      };
+    });
+  }
+
+  /**
+   * 各阶层 POP 收入倍率（POPGroup ID -> 倍率）
+   */
+  getIncomeMultipliers(): Record<string, number> {
+    return Object.fromEntries(this.getTierStatuses().map(status => [status.popGroupId, status.incomeMultiplier]));
+  }
+
+  /**
+   * 公司各建筑的用工情况
+   */
+  getCompanyStaffing(companyId: string): BuildingStaffing[] {
+    return Array.from(this.staffing.values())
+      .filter(staffing => staffing.companyId === companyId)
+      .map(staffing => ({ ...staffing }));
+  }
+
+  /**
+   * 公司在岗员工总数
+   */
+  getEmployeeCount(companyId: string): number {
+    let total = 0;
+    for (const staffing of this.staffing.values()) {
+      if (staffing.companyId === companyId) total += staffing.employed;
+    }
+    return total;
+  }
+
+  /**
+   * 进行中的挖角
+   */
+  getActiveCampaigns(): PoachCampaign[] {
+    return this.campaigns.map(campaign => ({ ...campaign }));
+  }
+
+  /**
+   * 挖角：提高工资溢价并带走目标公司一部分员工
+   * 签约奖金（一个月工资）由调用方支付
+   */
+  poach(companyId: string, targetCompanyId: string, currentTick: number): PoachResult {
+    if (companyId === targetCompanyId) {
+      return { success: false, error: '不能挖自己公司的员工' };
+    }
+    if (this.campaigns.some(campaign => campaign.companyId === companyId && campaign.targetCompanyId === targetCompanyId)) {
+      return { success: false, error: '挖角正在进行中' };
+    }
+
+    let workers = 0;
+    let signingBonus = 0;
+    for (const staffing of this.staffing.values()) {
+      if (staffing.companyId !== targetCompanyId) continue;
+      const poached = staffing.employed * POACH_SHARE;
+      workers += poached;
+      signingBonus += poached * this.getWage(staffing.popGroupId);
+    }
+    if (workers < 1) {
+      return { success: false, error: '目标公司没有可挖的员工' };
+    }
+
+    this.campaigns.push({
+      companyId,
+      targetCompanyId,
+      startTick: currentTick,
+      expiresAtTick: currentTick + POACH_DURATION,
+    });
+    console.log(`[LaborMarket] ${companyId} 从 ${targetCompanyId} 挖走约 ${Math.round(workers)} 名员工`);
+
+    return { success: true, workers: Math.round(workers), signingBonus };
+  }
+
+  /**
+   * 导出劳动力市场状态（用于存档）
+   */
+  exportState(): LaborMarketSnapshotState {
+    return {
+      wages: Object.fromEntries(this.wages),
+      campaigns: this.campaigns.map(campaign => ({ ...campaign })),
+    };
+  }
+
+  /**
+   * 从存档恢复劳动力市场状态
+   */
+  importState(state: LaborMarketSnapshotState): void {
+    this.wages = new Map(Object.entries(state.wages));
+    this.campaigns = state.campaigns.map(campaign => ({ ...campaign }));
+    this.staffing.clear();
+    console.log(`[LaborMarket] Restored wages for ${this.wages.size} POP groups, ${this.campaigns.length} poaching campaigns`);
+  }
+
+  private getLaborForce(popGroupId: string): number {
+    const popGroup = LABOR_TIERS.find(group => group.id === popGroupId);
+    if (!popGroup) return 0;
+    return popsConsumptionManager.getPopulation(popGroup) * (INDUSTRIAL_LABOR_SHARE[popGroupId] ?? 0);
+  }
+
+  /** 挖角期间挖角方的工资溢价 */
+  private getWagePremium(companyId: string): number {
+    return this.campaigns.some(campaign => campaign.companyId === companyId) ? POACH_WAGE_PREMIUM : 0;
+  }
+
+  /** 被挖角公司的在岗上限，随挖角进行逐步恢复 */
+  private getStaffingCap(companyId: string): number {
+    let cap = 1;
+    for (const campaign of this.campaigns) {
+      if (campaign.targetCompanyId !== companyId) continue;
+      const remaining = (campaign.expiresAtTick - this.currentTick) / POACH_DURATION;
+      cap -= POACH_SHARE * Math.max(0, Math.min(1, remaining));
+    }
+    return Math.max(0, cap);
+  }
+}
+
+/** 参与劳动力市场的 POP 阶层 */
+const LABOR_TIERS = POP_GROUPS.filter(popGroup => INDUSTRIAL_LABOR_SHARE[popGroup.id] !== undefined);
+
+/** 基准工资（元/人/月），取 POP 月收入 */
+function getBaseWage(popGroupId: string): number {
+  const popGroup = POP_GROUPS.find(group => group.id === popGroupId);
+  return popGroup ? popGroup.monthlyIncome / CENTS_PER_YUAN : 0;
+}
+
+/** 建筑雇用的 POP 阶层 */
+function getLaborTier(definitionId: string): string {
+  const def = BUILDINGS_DATA.find(b => b.id === definitionId);
+  return def && SKILLED_SUBCATEGORIES.has(def.subcategory) ? MIDDLE_CLASS.id : WORKING_CLASS.id;
+}
+
+/** 建筑当前生产方式（含技术解锁的方式）的用工需求 × 聚合因子 */
+function getLaborRequired(building: BuildingInstance): number {
+  const method = technologyEffectManager.resolveMethod(building.definitionId, building.currentMethodId);
+  return (method?.laborRequired ?? 0) * (building.aggregatedCount ?? 1);
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const laborMarket = worldScoped('laborMarket');
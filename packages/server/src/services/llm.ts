@@ -1,32 +1,115 @@
 /**
  * LLM Service - OpenAI integration for game AI
- * 支持 OpenAI 官方 API 和第三方兼容 API（如中转站）
+ * 支持 OpenAI 官方 API、第三方兼容 API（如中转站）、本地 Ollama/llama.cpp 服务和离线录制回放
+ * 具体后端见 llmProvider.ts
  */
 
-import OpenAI from 'openai';
+import { EventEmitter } from 'events';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import {
+  createLLMProvider,
+  isProviderConfigured,
+  LLMFixtureMissingError,
+  LLM_PROVIDER_TYPES,
+  type LLMCompletionRequest,
+  type LLMCompletionResponse,
+  type LLMProvider,
+  type LLMProviderType,
+  type LLMUsage,
+} from './llmProvider.js';
+import {
+  DEFAULT_LLM_BUDGET,
+  LLMBudgetExceededError,
+  llmUsageTracker,
+  mergeBudgetConfig,
+  type LLMBudgetConfig,
+  type LLMBudgetConfigPatch,
+  type LLMFeature,
+  type LLMUsageReport,
+} from './llmUsage.js';
+import {
+  buildPromptVariables,
+  promptSelection,
+  promptTemplateRegistry,
+  renderPromptTemplate,
+  type PromptContextMap,
+  type PromptTemplateId,
+  type RenderedPrompt,
+} from './promptTemplates.js';
+import { EventEffectType, GOODS_DATA } from '@scc/shared';
+import {
+  decisionEventOutput,
+  LLMValidationError,
+  marketAnalysisOutput,
+  marketEventsOutput,
+  negotiationMetadataOutput,
+  NEGOTIATION_METADATA_MARKER,
+  parseStructuredOutput,
+  strategicPlanOutput,
+  techEffectsOutput,
+  technologyEvaluationOutput,
+  type LLMSchemaName,
+  type DecisionEventOutput,
+  type LLMValidationErrorKind,
+  type MarketEventModifierType,
+  type MarketEventOutput,
+  type NegotiationMetadataOutput,
+  type StrategicPlanOutput,
+  type StructuredOutputSpec,
+  type TechEffectsOutput,
+  type TechnologyEvaluationOutput,
+} from './llmSchemas.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 /** LLM配置接口 */
 export interface LLMConfig {
+  provider: LLMProviderType;
   apiKey: string;
   baseUrl: string;
   model: string;
+  /** 用量预算（每局生效） */
+  budget: LLMBudgetConfig;
 }
 
+/** 配置更新（预算支持局部更新） */
+export type LLMConfigUpdate = Partial<Omit<LLMConfig, 'budget'>> & {
+  enabled?: boolean;
+  budget?: LLMBudgetConfigPatch;
+};
+
 // 配置文件路径 - 存储在服务器数据目录
 const CONFIG_FILE_PATH = path.join(__dirname, '../../data/llm-config.json');
 
+/** 录制/回放文件目录（提示词哈希 -> 响应） */
+export const FIXTURES_DIR = process.env.LLM_FIXTURES_DIR ?? path.join(__dirname, '../../data/llm-fixtures');
+
+/** 在线后端的响应是否录制到 FIXTURES_DIR */
+const RECORD_FIXTURES = process.env.LLM_RECORD_FIXTURES === 'true';
+
 /** 从环境变量加载默认配置 */
 function getDefaultConfig(): LLMConfig {
+  const envProvider = process.env.LLM_PROVIDER as LLMProviderType | undefined;
+  const provider = envProvider && LLM_PROVIDER_TYPES.includes(envProvider) ? envProvider : 'openai';
+
+  if (provider === 'ollama') {
+    return {
+      provider,
+      apiKey: '',
+      baseUrl: `${process.env.OLLAMA_BASE_URL ?? 'http://localhost:11434'}/v1`,
+      model: process.env.OLLAMA_MODEL ?? 'llama3',
+      budget: mergeBudgetConfig(DEFAULT_LLM_BUDGET, undefined),
+    };
+  }
   return {
+    provider,
     apiKey: process.env.OPENAI_API_KEY ?? '',
     baseUrl: process.env.OPENAI_BASE_URL ?? 'https://api.openai.com/v1',
     model: process.env.OPENAI_MODEL ?? 'gpt-4o-mini',
+    budget: mergeBudgetConfig(DEFAULT_LLM_BUDGET, undefined),
   };
 }
 
@@ -35,9 +118,15 @@ function loadConfig(): LLMConfig {
   try {
     if (fs.existsSync(CONFIG_FILE_PATH)) {
       const content = fs.readFileSync(CONFIG_FILE_PATH, 'utf-8');
-      const savedConfig = JSON.parse(content) as LLMConfig;
+      // 旧版配置文件没有 provider、budget 字段，缺失的字段取环境变量默认值
+      const savedConfig = JSON.parse(content) as Partial<LLMConfig>;
+      const defaults = getDefaultConfig();
       console.log('[LLM] Loaded config from file');
-      return savedConfig;
+      return {
+        ...defaults,
+        ...savedConfig,
+        budget: mergeBudgetConfig(defaults.budget, savedConfig.budget),
+      };
     }
   } catch (error) {
     console.warn('[LLM] Failed to load config file, using defaults:', error);
@@ -64,8 +153,8 @@ function saveConfig(config: LLMConfig): void {
 // 当前运行时配置
 let currentConfig = loadConfig();
 
-/** LLM是否启用（API Key有效时启用）*/
-let llmEnabled = !!(currentConfig.apiKey && currentConfig.apiKey.length > 10);
+/** LLM是否启用（OpenAI 后端需要有效的 API Key，本地和回放后端始终可用）*/
+let llmEnabled = isProviderConfigured(currentConfig.provider, currentConfig.apiKey);
 
 /** API调用连续失败次数 */
 let consecutiveFailures = 0;
@@ -79,15 +168,73 @@ const AUTO_DISABLE_COOLDOWN = 10 * 60 * 1000;
 /** 上次自动禁用的时间 */
 let lastAutoDisableTime = 0;
 
-// 创建 OpenAI 客户端
-let openai = new OpenAI({
-  apiKey: currentConfig.apiKey || 'sk-placeholder',
-  baseURL: currentConfig.baseUrl,
-});
+/** 决策事件的罚款、补贴和选项成本上限（占玩家现金的比例） */
+const DECISION_MAX_CASH_RATIO = 0.2;
+
+/** 决策事件商品效果可用的商品 */
+const DECISION_GOODS_IDS = new Set(GOODS_DATA.map(goods => goods.id));
+
+/** 每个市场事件最多的机制效果数 */
+const MARKET_EVENT_MAX_MODIFIERS = 2;
+
+/** 市场事件持续天数范围 */
+const MARKET_EVENT_MIN_DURATION = 10;
+const MARKET_EVENT_MAX_DURATION = 365;
+
+/**
+ * 后端未返回用量时按字符数估算 token（约 4 字符 / token）
+ */
+function estimateUsage(request: LLMCompletionRequest, content: string): LLMUsage {
+  const promptChars = request.messages.reduce((sum, message) => sum + message.content.length, 0);
+  const promptTokens = Math.ceil(promptChars / 4);
+  const completionTokens = Math.ceil(content.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * 追加一条请求上下文到 FIXTURES_DIR/contexts/<模板ID>.jsonl
+ */
+function recordPromptContext(id: PromptTemplateId, context: unknown): void {
+  try {
+    const dir = path.join(FIXTURES_DIR, 'contexts');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.appendFileSync(path.join(dir, `${id}.jsonl`), JSON.stringify(context) + '\n');
+  } catch (error) {
+    console.warn('[LLM] Failed to record prompt context:', error);
+  }
+}
 
+/** 排序：常用模型优先 */
+function sortModels(models: string[]): string[] {
+  const priorityModels = ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo', 'claude', 'gemini', 'llama', 'qwen'];
+  return [...models].sort((a, b) => {
+    const aPriority = priorityModels.findIndex(p => a.toLowerCase().includes(p));
+    const bPriority = priorityModels.findIndex(p => b.toLowerCase().includes(p));
+    if (aPriority >= 0 && bPriority >= 0) return aPriority - bPriority;
+    if (aPriority >= 0) return -1;
+    if (bPriority >= 0) return 1;
+    return a.localeCompare(b);
+  });
+}
+
+/** 按配置创建后端 */
+function buildProvider(config: LLMConfig): LLMProvider {
+  return createLLMProvider({
+    provider: config.provider,
+    apiKey: config.apiKey,
+    baseUrl: config.baseUrl,
+    fixturesDir: FIXTURES_DIR,
+    recordFixtures: RECORD_FIXTURES,
+  });
+}
+
+// 创建后端
+let provider = buildProvider(currentConfig);
+
+console.log(`[LLM] Initializing provider: ${currentConfig.provider}${RECORD_FIXTURES ? ' (recording fixtures)' : ''}`);
 console.log(`[LLM] Initializing with base URL: ${currentConfig.baseUrl}`);
 console.log(`[LLM] Using model: ${currentConfig.model}`);
-console.log(`[LLM] LLM enabled: ${llmEnabled} (API Key ${currentConfig.apiKey ? 'provided' : 'missing'})`);
+console.log(`[LLM] LLM enabled: ${llmEnabled}${currentConfig.provider === 'openai' ? ` (API Key ${currentConfig.apiKey ? 'provided' : 'missing'})` : ''}`);
 
 export interface ChatContext {
   gameId: string;
@@ -121,6 +268,22 @@ export interface NegotiationContext {
   };
   sellerPersonality: string;
   relationshipHistory: string[];
+  /** 卖方对买方的信任度（-100 到 100） */
+  trustWithPlayer: number;
+  /** 卖方对买方的敌意（0 到 100） */
+  hostilityToPlayer: number;
+}
+
+/** 谈判回复 */
+export interface NegotiationResult {
+  response: string;
+  decision: NegotiationMetadataOutput['decision'];
+  counterOffer?: {
+    quantity?: number;
+    pricePerUnit?: number;
+    duration?: number;
+  };
+  emotionalState: NegotiationMetadataOutput['emotionalState'];
 }
 
 /** AI公司战略计划 */
@@ -161,10 +324,119 @@ export interface StrategicAnalysisRequest {
   };
 }
 
+/** 研发可行性评估结果 */
+export interface TechnologyEvaluationResult {
+  feasibility: number;
+  estimatedCost: number;
+  estimatedTicks: number;
+  risks: string[];
+  potentialEffects: string[];
+  sideEffects: string[];
+}
+
+/** 市场事件批量生成请求 */
+export interface MarketEventsBatchRequest {
+  currentTick: number;
+  marketConditions: string;
+  playerDominance: Record<string, number>;
+  eventCount: number;
+}
+
+/** LLM生成的市场事件 */
+export interface GeneratedMarketEvent {
+  type: MarketEventOutput['type'];
+  severity: MarketEventOutput['severity'];
+  title: string;
+  description: string;
+  /** 持续天数，到期后效果回滚；没有时为永久 */
+  durationTicks?: number;
+  effects: {
+    priceChanges?: Record<string, number>;
+    supplyChanges?: Record<string, number>;
+    /** 机制效果（禁止生产方式、资源产量、运营成本等），value 为变化比例 */
+    modifiers?: {
+      type: MarketEventModifierType;
+      target?: string;
+      value: number;
+    }[];
+  };
+}
+
+/** 玩家决策事件生成请求 */
+export interface DecisionEventRequest {
+  currentTick: number;
+  /** 玩家现金（分） */
+  playerCash: number;
+  buildingCount: number;
+  playerIndustries: string[];
+  marketConditions: string;
+  /** 可作为效果目标的AI公司 */
+  companies: { id: string; name: string }[];
+  /** 连锁事件：上一个事件、玩家的选择和该选项的后续事件提示 */
+  followUp?: {
+    parentTitle: string;
+    choice: string;
+    prompt: string;
+  };
+}
+
+/** LLM生成的玩家决策事件（金额单位为元） */
+export interface GeneratedDecisionEvent {
+  title: string;
+  headline: string;
+  description: string;
+  category: DecisionEventOutput['category'];
+  severity: DecisionEventOutput['severity'];
+  options: {
+    label: string;
+    description: string;
+    cost: number;
+    effects: {
+      type: DecisionEventOutput['options'][number]['effects'][number]['type'];
+      target?: string;
+      value: number;
+    }[];
+    followUp?: string;
+  }[];
+  defaultOption: number;
+}
+
+/**
+ * 结构化响应解析结果
+ * issues 记录被游戏规则收敛或丢弃的字段（用于离线评估各模板版本的输出质量）
+ */
+export interface PromptParseResult<T> {
+  value: T;
+  issues: string[];
+}
+
+/** 通过校验的结构化输出 */
+interface StructuredOutput<T> {
+  value: T;
+  /** 最终采用的原始响应 */
+  content: string;
+  /** 是否经过一次修复重试 */
+  repaired: boolean;
+}
+
+/**
+ * 结构化输出校验事件（LLMService 'structuredOutput' 事件，asyncLLMProcessor 统计用）
+ * - valid：首次响应即通过校验
+ * - repaired：首次失败，修复重试后通过
+ * - failed：修复重试后仍失败，调用方走规则回退
+ */
+export interface StructuredOutputEvent {
+  schema: LLMSchemaName;
+  outcome: 'valid' | 'repaired' | 'failed';
+  /** 最近一次失败的类型和明细（valid 时为空） */
+  kind?: LLMValidationErrorKind;
+  issues: string[];
+}
+
 /**
  * LLM Service class for all AI-related operations
  */
-export class LLMService {
+export class LLMService extends EventEmitter {
   /**
    * 检查LLM是否启用
    */
@@ -185,7 +457,7 @@ export class LLMService {
    * 手动启用LLM
    */
   enable(): void {
-    if (currentConfig.apiKey && currentConfig.apiKey.length > 10) {
+    if (isProviderConfigured(currentConfig.provider, currentConfig.apiKey)) {
       llmEnabled = true;
       consecutiveFailures = 0;
       lastAutoDisableTime = 0;
@@ -221,6 +493,10 @@ export class LLMService {
    * 记录API调用失败，如果连续失败超过阈值则自动禁用
    */
   private recordFailure(error: Error): void {
+    // 回放未命中、预算耗尽、输出校验失败不是后端故障，不计入失败次数
+    if (error instanceof LLMFixtureMissingError || error instanceof LLMBudgetExceededError ||
+        error instanceof LLMValidationError) return;
+    
     consecutiveFailures++;
     
     // 检查是否是认证错误（401）
@@ -257,14 +533,128 @@ export class LLMService {
     return true;
   }
 
+  /**
+   * 功能当前是否可以调用LLM（已启用且未超出本局预算）
+   */
+  isFeatureAvailable(feature: LLMFeature): boolean {
+    return llmEnabled && llmUsageTracker.checkBudget(feature, currentConfig.budget) === null;
+  }
+
+  /**
+   * 当前游戏的用量报告
+   */
+  getUsageReport(): LLMUsageReport {
+    return llmUsageTracker.getReport(currentConfig.budget);
+  }
+
+  /**
+   * 发起补全请求并计入当前游戏的用量
+   * 超出预算时抛出 LLMBudgetExceededError，由调用方走规则回退
+   */
+  private async complete(feature: LLMFeature, request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const denial = llmUsageTracker.acquire(feature, currentConfig.budget);
+    if (denial) {
+      throw new LLMBudgetExceededError(feature, denial);
+    }
+
+    const response = await provider.complete(request);
+    llmUsageTracker.record(feature, response.usage ?? estimateUsage(request, response.content), currentConfig.budget.pricing);
+    return response;
+  }
+
+  /**
+   * 按当前游戏选择的版本渲染提示词
+   * 录制模式下同时记录请求上下文，供离线评估（promptEvaluator）重放
+   */
+  private renderPrompt<K extends PromptTemplateId>(id: K, context: PromptContextMap[K]): RenderedPrompt {
+    const template = promptTemplateRegistry.get(id, promptSelection.getVersion(id));
+    if (RECORD_FIXTURES) {
+      recordPromptContext(id, context);
+    }
+    return renderPromptTemplate(template, buildPromptVariables(id, context));
+  }
+
+  /**
+   * 渲染后的提示词转为补全请求
+   */
+  private promptRequest(prompt: RenderedPrompt): LLMCompletionRequest {
+    return {
+      model: this.defaultModel,
+      messages: prompt.messages,
+      maxTokens: prompt.maxTokens,
+      temperature: prompt.temperature,
+      ...(prompt.responseFormat ? { responseFormat: prompt.responseFormat } : {}),
+    };
+  }
+
+  /**
+   * 发起补全请求并按输出规格校验
+   * 校验失败时把原响应和错误明细追加到对话中重试一次，仍失败则抛出 LLMValidationError
+   * 每次调用的校验结果通过 'structuredOutput' 事件上报
+   */
+  private async completeStructured<T>(
+    feature: LLMFeature,
+    request: LLMCompletionRequest,
+    spec: StructuredOutputSpec<T>
+  ): Promise<StructuredOutput<T>> {
+    const first = await this.complete(feature, request);
+    let firstError: LLMValidationError;
+    try {
+      const value = parseStructuredOutput(spec, first.content);
+      this.emitStructuredOutput({ schema: spec.name, outcome: 'valid', issues: [] });
+      return { value, content: first.content, repaired: false };
+    } catch (error) {
+      if (!(error instanceof LLMValidationError)) throw error;
+      firstError = error;
+    }
+
+    console.log(`[LLM] ${spec.name} output invalid (${firstError.kind}), retrying with repair prompt: ${firstError.issues.slice(0, 3).join('; ')}`);
+
+    const retry = await this.complete(feature, {
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content: first.content },
+        { role: 'user', content: this.buildRepairPrompt(firstError) },
+      ],
+    });
+    try {
+      const value = parseStructuredOutput(spec, retry.content);
+      this.emitStructuredOutput({ schema: spec.name, outcome: 'repaired', kind: firstError.kind, issues: firstError.issues });
+      return { value, content: retry.content, repaired: true };
+    } catch (error) {
+      if (error instanceof LLMValidationError) {
+        this.emitStructuredOutput({ schema: spec.name, outcome: 'failed', kind: error.kind, issues: error.issues });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 修复重试的提示（列出校验错误，要求按原格式重新输出）
+   */
+  private buildRepairPrompt(error: LLMValidationError): string {
+    const reason = error.kind === 'json' ? '不是合法的 JSON' : '不符合要求的字段格式';
+    return `你上一次的输出${reason}：
+${error.issues.slice(0, 10).map(issue => `- ${issue}`).join('\n')}
+
+请修正以上问题，按原要求的格式重新输出完整结果，不要包含任何解释。`;
+  }
+
+  private emitStructuredOutput(event: StructuredOutputEvent): void {
+    this.emit('structuredOutput', event);
+  }
+
   /**
    * 获取当前配置（隐藏API Key的大部分内容）
    */
   getConfig(): LLMConfig & { apiKeyMasked: string; enabled: boolean } {
     return {
+      provider: currentConfig.provider,
       apiKey: currentConfig.apiKey,
       baseUrl: currentConfig.baseUrl,
       model: currentConfig.model,
+      budget: currentConfig.budget,
       apiKeyMasked: this.maskApiKey(currentConfig.apiKey),
       enabled: llmEnabled,
     };
@@ -273,8 +663,11 @@ export class LLMService {
   /**
    * 更新配置
    */
-  updateConfig(newConfig: Partial<LLMConfig & { enabled?: boolean }>): void {
+  updateConfig(newConfig: LLMConfigUpdate): void {
     // 合并配置
+    if (newConfig.provider !== undefined) {
+      currentConfig.provider = newConfig.provider;
+    }
     if (newConfig.apiKey !== undefined) {
       currentConfig.apiKey = newConfig.apiKey;
     }
@@ -284,25 +677,25 @@ export class LLMService {
     if (newConfig.model !== undefined) {
       currentConfig.model = newConfig.model;
     }
+    if (newConfig.budget !== undefined) {
+      currentConfig.budget = mergeBudgetConfig(currentConfig.budget, newConfig.budget);
+    }
     
     // 更新启用状态
     if (newConfig.enabled !== undefined) {
       llmEnabled = newConfig.enabled;
     } else {
-      // 根据API Key自动更新启用状态
-      llmEnabled = !!(currentConfig.apiKey && currentConfig.apiKey.length > 10);
+      // 根据后端和API Key自动更新启用状态
+      llmEnabled = isProviderConfigured(currentConfig.provider, currentConfig.apiKey);
     }
 
-    // 重新创建 OpenAI 客户端
-    openai = new OpenAI({
-      apiKey: currentConfig.apiKey || 'sk-placeholder',
-      baseURL: currentConfig.baseUrl,
-    });
+    // 重新创建后端
+    provider = buildProvider(currentConfig);
 
     // 保存到文件
     saveConfig(currentConfig);
 
-    console.log(`[LLM] Config updated - baseUrl: ${currentConfig.baseUrl}, model: ${currentConfig.model}, enabled: ${llmEnabled}`);
+    console.log(`[LLM] Config updated - provider: ${currentConfig.provider}, baseUrl: ${currentConfig.baseUrl}, model: ${currentConfig.model}, enabled: ${llmEnabled}`);
   }
 
   /**
@@ -315,17 +708,17 @@ export class LLMService {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
       
-      const response = await openai.chat.completions.create({
+      const response = await provider.complete({
         model: currentConfig.model,
         messages: [{ role: 'user', content: 'Hi' }],
-        max_tokens: 5,
-      }, {
+        maxTokens: 5,
+        temperature: 0,
         signal: controller.signal,
       });
       
       clearTimeout(timeoutId);
 
-      const content = response.choices[0]?.message?.content ?? '';
+      const content = response.content;
       return {
         success: true,
         message: `连接成功！模型响应: "${content.substring(0, 50)}"`,
@@ -349,39 +742,34 @@ export class LLMService {
   /**
    * 使用临时配置测试连接（不保存配置）
    */
-  async testConnectionWithConfig(tempConfig: Partial<LLMConfig>): Promise<{ success: boolean; message: string; model?: string }> {
+  async testConnectionWithConfig(tempConfig: Partial<Omit<LLMConfig, 'budget'>>): Promise<{ success: boolean; message: string; model?: string }> {
     const timeoutMs = 15000;
     
     // 合并临时配置
-    const testApiKey = tempConfig.apiKey || currentConfig.apiKey;
-    const testBaseUrl = tempConfig.baseUrl || currentConfig.baseUrl;
-    const testModel = tempConfig.model || currentConfig.model;
+    const testConfig = this.mergeTempConfig(tempConfig);
     
-    if (!testApiKey) {
+    if (!isProviderConfigured(testConfig.provider, testConfig.apiKey)) {
       return { success: false, message: '请提供 API Key' };
     }
     
-    // 创建临时客户端
-    const tempClient = new OpenAI({
-      apiKey: testApiKey,
-      baseURL: testBaseUrl,
-    });
+    // 创建临时后端
+    const tempProvider = buildProvider(testConfig);
     
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
       
-      const response = await tempClient.chat.completions.create({
-        model: testModel,
+      const response = await tempProvider.complete({
+        model: testConfig.model,
         messages: [{ role: 'user', content: 'Hi' }],
-        max_tokens: 5,
-      }, {
+        maxTokens: 5,
+        temperature: 0,
         signal: controller.signal,
       });
       
       clearTimeout(timeoutId);
 
-      const content = response.choices[0]?.message?.content ?? '';
+      const content = response.content;
       return {
         success: true,
         message: `连接成功！模型响应: "${content.substring(0, 50)}"`,
@@ -412,32 +800,13 @@ export class LLMService {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
       
-      const response = await openai.models.list({
-        signal: controller.signal,
-      } as any);
+      const models = await provider.listModels(controller.signal);
       
       clearTimeout(timeoutId);
       
-      // 提取模型ID列表
-      const models: string[] = [];
-      for await (const model of response) {
-        models.push(model.id);
-      }
-      
-      // 排序：常用模型优先
-      const priorityModels = ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo', 'claude', 'gemini'];
-      models.sort((a, b) => {
-        const aPriority = priorityModels.findIndex(p => a.toLowerCase().includes(p));
-        const bPriority = priorityModels.findIndex(p => b.toLowerCase().includes(p));
-        if (aPriority >= 0 && bPriority >= 0) return aPriority - bPriority;
-        if (aPriority >= 0) return -1;
-        if (bPriority >= 0) return 1;
-        return a.localeCompare(b);
-      });
-      
       return {
         success: true,
-        models,
+        models: sortModels(models),
       };
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
@@ -459,53 +828,30 @@ export class LLMService {
   /**
    * 使用临时配置获取模型列表（不保存配置）
    */
-  async getAvailableModelsWithConfig(tempConfig: Partial<LLMConfig>): Promise<{ success: boolean; models: string[]; message?: string }> {
+  async getAvailableModelsWithConfig(tempConfig: Partial<Omit<LLMConfig, 'budget'>>): Promise<{ success: boolean; models: string[]; message?: string }> {
     const timeoutMs = 10000;
     
     // 合并临时配置
-    const testApiKey = tempConfig.apiKey || currentConfig.apiKey;
-    const testBaseUrl = tempConfig.baseUrl || currentConfig.baseUrl;
+    const testConfig = this.mergeTempConfig(tempConfig);
     
-    if (!testApiKey) {
+    if (!isProviderConfigured(testConfig.provider, testConfig.apiKey)) {
       return { success: false, models: [], message: '请提供 API Key' };
     }
     
-    // 创建临时客户端
-    const tempClient = new OpenAI({
-      apiKey: testApiKey,
-      baseURL: testBaseUrl,
-    });
+    // 创建临时后端
+    const tempProvider = buildProvider(testConfig);
     
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
       
-      const response = await tempClient.models.list({
-        signal: controller.signal,
-      } as any);
+      const models = await tempProvider.listModels(controller.signal);
       
       clearTimeout(timeoutId);
       
-      // 提取模型ID列表
-      const models: string[] = [];
-      for await (const model of response) {
-        models.push(model.id);
-      }
-      
-      // 排序：常用模型优先
-      const priorityModels = ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo', 'claude', 'gemini'];
-      models.sort((a, b) => {
-        const aPriority = priorityModels.findIndex(p => a.toLowerCase().includes(p));
-        const bPriority = priorityModels.findIndex(p => b.toLowerCase().includes(p));
-        if (aPriority >= 0 && bPriority >= 0) return aPriority - bPriority;
-        if (aPriority >= 0) return -1;
-        if (bPriority >= 0) return 1;
-        return a.localeCompare(b);
-      });
-      
       return {
         success: true,
-        models,
+        models: sortModels(models),
       };
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
@@ -524,6 +870,26 @@ export class LLMService {
     }
   }
 
+  /**
+   * 按当前配置（可临时覆盖）创建独立的后端，不计入游戏用量（离线评估用）
+   */
+  createProvider(overrides: Partial<Omit<LLMConfig, 'budget'>> = {}): LLMProvider {
+    return buildProvider(this.mergeTempConfig(overrides));
+  }
+
+  /**
+   * 临时配置与当前配置合并（未提供的字段沿用当前配置）
+   */
+  private mergeTempConfig(tempConfig: Partial<Omit<LLMConfig, 'budget'>>): LLMConfig {
+    return {
+      provider: tempConfig.provider ?? currentConfig.provider,
+      apiKey: tempConfig.apiKey ?? currentConfig.apiKey,
+      baseUrl: tempConfig.baseUrl ?? currentConfig.baseUrl,
+      model: tempConfig.model ?? currentConfig.model,
+      budget: currentConfig.budget,
+    };
+  }
+
   /**
    * 掩码API Key
    */
@@ -543,18 +909,18 @@ export class LLMService {
     const systemPrompt = this.buildAssistantPrompt(context);
     
     try {
-      const response = await openai.chat.completions.create({
+      const response = await this.complete('chat', {
         model: this.defaultModel,
         messages: [
           { role: 'system', content: systemPrompt },
           ...(context.history ?? []),
           { role: 'user', content: message },
         ],
-        max_tokens: 2000,
+        maxTokens: 2000,
         temperature: 0.7,
       });
 
-      return response.choices[0]?.message?.content ?? '抱歉，我无法生成回复。';
+      return response.content || '抱歉，我无法生成回复。';
     } catch (error) {
       console.error('LLM chat error:', error);
       return this.generateFallbackResponse(message, context);
@@ -588,16 +954,15 @@ export class LLMService {
 }`;
 
     try {
-      const response = await openai.chat.completions.create({
+      const { value } = await this.completeStructured('chat', {
         model: this.defaultModel,
         messages: [{ role: 'user', content: prompt }],
-        max_tokens: 1500,
+        maxTokens: 1500,
         temperature: 0.5,
-        response_format: { type: 'json_object' },
-      });
+        responseFormat: 'json_object',
+      }, marketAnalysisOutput);
 
-      const content = response.choices[0]?.message?.content ?? '{}';
-      return JSON.parse(content);
+      return value;
     } catch (error) {
       console.error('Market analysis error:', error);
       return {
@@ -610,62 +975,65 @@ export class LLMService {
 
   /**
    * Evaluate technology research proposal
+   * 研发功能不可用（未配置 LLM 或超出预算）时直接使用规则评估，不发起请求
    */
-  async evaluateTechnology(request: TechnologyEvaluationRequest): Promise<{
-    feasibility: number;
-    estimatedCost: number;
-    estimatedTicks: number;
-    risks: string[];
-    potentialEffects: string[];
-    sideEffects: string[];
-  }> {
-    const prompt = `作为未来供应链游戏中的首席科学家，请评估这个研发提案：
-
-研发请求: "${request.prompt}"
-现有技术: ${request.currentTech.join(', ')}
-可用预算: ¥${request.budget}
-公司概况: ${request.companyProfile}
-
-请从以下角度评估：
-1. 可行性（0-1）
-2. 预估成本（元）
-3. 研发周期（游戏刻度，1刻度=1天）
-4. 潜在风险
-5. 对生产/市场的预期影响
-6. 可能在后期出现的隐藏副作用（发挥创意，保持现实）
+  async evaluateTechnology(request: TechnologyEvaluationRequest): Promise<TechnologyEvaluationResult> {
+    if (!this.isFeatureAvailable('research')) {
+      return this.getDefaultTechnologyEvaluation(request);
+    }
 
-请用中文回复，使用JSON格式:
-{
-  "feasibility": 0.7,
-  "estimatedCost": 50000000,
-  "estimatedTicks": 30,
-  "risks": ["..."],
-  "potentialEffects": ["..."],
-  "sideEffects": ["..."]
-}`;
+    const prompt = this.renderPrompt('tech_evaluation', request);
 
     try {
-      const response = await openai.chat.completions.create({
-        model: this.defaultModel,
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: 1500,
-        temperature: 0.7,
-        response_format: { type: 'json_object' },
-      });
-
-      const content = response.choices[0]?.message?.content ?? '{}';
-      return JSON.parse(content);
+      const { value } = await this.completeStructured('research', this.promptRequest(prompt), technologyEvaluationOutput);
+      return this.normalizeTechnologyEvaluation(value).value;
     } catch (error) {
       console.error('Technology evaluation error:', error);
-      return {
-        feasibility: 0.5,
-        estimatedCost: request.budget * 0.8,
-        estimatedTicks: 30,
-        risks: ['市场接受度不确定', '技术挑战'],
-        potentialEffects: ['解锁新的生产方式'],
-        sideEffects: ['长期影响未知'],
-      };
+      return this.getDefaultTechnologyEvaluation(request);
+    }
+  }
+
+  /**
+   * 解析研发评估响应（校验失败抛出 LLMValidationError）
+   */
+  parseTechnologyEvaluation(content: string): PromptParseResult<TechnologyEvaluationResult> {
+    return this.normalizeTechnologyEvaluation(parseStructuredOutput(technologyEvaluationOutput, content));
+  }
+
+  /**
+   * 研发评估结果（schema 已约束取值范围，只需过滤空条目）
+   */
+  private normalizeTechnologyEvaluation(output: TechnologyEvaluationOutput): PromptParseResult<TechnologyEvaluationResult> {
+    const nonEmpty = (items: string[]) => items.map(item => item.trim()).filter(item => item.length > 0);
+    const value: TechnologyEvaluationResult = {
+      feasibility: output.feasibility,
+      estimatedCost: output.estimatedCost,
+      estimatedTicks: Math.round(output.estimatedTicks),
+      risks: nonEmpty(output.risks),
+      potentialEffects: nonEmpty(output.potentialEffects),
+      sideEffects: nonEmpty(output.sideEffects),
+    };
+
+    const issues: string[] = [];
+    if (value.estimatedTicks !== output.estimatedTicks) issues.push('estimatedTicks:rounded');
+    for (const key of ['risks', 'potentialEffects', 'sideEffects'] as const) {
+      if (value[key].length < output[key].length) issues.push(`${key}:empty`);
     }
+    return { value, issues };
+  }
+
+  /**
+   * 默认研发评估（LLM失败时使用）
+   */
+  private getDefaultTechnologyEvaluation(request: TechnologyEvaluationRequest): TechnologyEvaluationResult {
+    return {
+      feasibility: 0.5,
+      estimatedCost: request.budget * 0.8,
+      estimatedTicks: 30,
+      risks: ['市场接受度不确定', '技术挑战'],
+      potentialEffects: ['解锁新的生产方式'],
+      sideEffects: ['长期影响未知'],
+    };
   }
 
   /**
@@ -675,16 +1043,7 @@ export class LLMService {
     playerMessage: string,
     context: NegotiationContext,
     history: Array<{ role: 'user' | 'assistant'; content: string }>
-  ): Promise<{
-    response: string;
-    decision: 'accept' | 'reject' | 'counter' | 'continue';
-    counterOffer?: {
-      quantity?: number;
-      pricePerUnit?: number;
-      duration?: number;
-    };
-    emotionalState: 'friendly' | 'neutral' | 'hostile' | 'suspicious';
-  }> {
+  ): Promise<NegotiationResult> {
     const personalityPrompts: Record<string, string> = {
       monopolist: '你是一个激进、贪婪的商业巨头，追求市场垄断。你喜欢挤压竞争对手，很少给出公平交易。你尊重强者，鄙视弱者。',
       trend_surfer: '你是一个时髦、冲动的CEO，喜欢追逐市场热点。你容易被新机会吸引，可能很快改变主意。你重视创新形象。',
@@ -701,6 +1060,7 @@ ${personalityPrompts[context.sellerPersonality] ?? personalityPrompts.old_money}
 - 买方提议: ${context.proposedTerms.quantity} 单位，单价 ¥${context.proposedTerms.pricePerUnit}
 ${context.proposedTerms.duration ? `- 合同期限: ${context.proposedTerms.duration} 刻度` : ''}
 - 你们的合作历史: ${context.relationshipHistory.length > 0 ? context.relationshipHistory.join('; ') : '无历史交易'}
+- 你对买方的信任度: ${context.trustWithPlayer}（-100 到 100），敌意: ${context.hostilityToPlayer}（0 到 100）
 
 回应买方的消息。你必须:
 1. 保持角色性格
@@ -716,68 +1076,45 @@ ${context.proposedTerms.duration ? `- 合同期限: ${context.proposedTerms.dura
   "emotionalState": "friendly|neutral|hostile|suspicious"
 }`;
 
-    try {
-      const response = await openai.chat.completions.create({
-        model: this.defaultModel,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...history,
-          { role: 'user', content: playerMessage },
-        ],
-        max_tokens: 1500,
-        temperature: 0.8,
-      });
+    const request: LLMCompletionRequest = {
+      model: this.defaultModel,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...history,
+        { role: 'user', content: playerMessage },
+      ],
+      maxTokens: 1500,
+      temperature: 0.8,
+    };
 
-      const fullResponse = response.choices[0]?.message?.content ?? '';
-      
-      // Parse response and metadata
-      const metadataMatch = fullResponse.match(/---METADATA---\s*(\{[\s\S]*\})/);
-      let decision: 'accept' | 'reject' | 'counter' | 'continue' = 'continue';
-      let counterOffer: { quantity?: number; pricePerUnit?: number; duration?: number } | undefined;
-      let emotionalState: 'friendly' | 'neutral' | 'hostile' | 'suspicious' = 'neutral';
+    try {
+      const { value: metadata, content } = await this.completeStructured('chat', request, negotiationMetadataOutput);
       
-      if (metadataMatch && metadataMatch[1]) {
-        try {
-          const parsed = JSON.parse(metadataMatch[1]) as {
-            decision?: string;
-            counterOffer?: { quantity?: number; pricePerUnit?: number; duration?: number };
-            emotionalState?: string;
-          };
-          if (parsed.decision === 'accept' || parsed.decision === 'reject' ||
-              parsed.decision === 'counter' || parsed.decision === 'continue') {
-            decision = parsed.decision;
-          }
-          if (parsed.counterOffer) {
-            counterOffer = parsed.counterOffer;
-          }
-          if (parsed.emotionalState === 'friendly' || parsed.emotionalState === 'neutral' ||
-              parsed.emotionalState === 'hostile' || parsed.emotionalState === 'suspicious') {
-            emotionalState = parsed.emotionalState;
-          }
-        } catch {
-          // Use default metadata
-        }
-      }
-
-      const textResponse = fullResponse.replace(/---METADATA---[\s\S]*$/, '').trim();
-
-      const result: {
-        response: string;
-        decision: 'accept' | 'reject' | 'counter' | 'continue';
-        counterOffer?: { quantity?: number; pricePerUnit?: number; duration?: number };
-        emotionalState: 'friendly' | 'neutral' | 'hostile' | 'suspicious';
-      } = {
-        response: textResponse || '让我考虑一下这个提案...',
-        decision,
-        emotionalState,
+      const result: NegotiationResult = {
+        response: this.stripNegotiationMetadata(content) || '让我考虑一下这个提案...',
+        decision: metadata.decision,
+        emotionalState: metadata.emotionalState,
       };
       
-      if (counterOffer) {
+      // 只保留模型实际给出的条款（模板中的 null 占位视为未提出）
+      const counterOffer: NonNullable<NegotiationResult['counterOffer']> = {};
+      if (metadata.counterOffer?.quantity != null) counterOffer.quantity = metadata.counterOffer.quantity;
+      if (metadata.counterOffer?.pricePerUnit != null) counterOffer.pricePerUnit = metadata.counterOffer.pricePerUnit;
+      if (metadata.counterOffer?.duration != null) counterOffer.duration = metadata.counterOffer.duration;
+      if (Object.keys(counterOffer).length > 0) {
         result.counterOffer = counterOffer;
       }
       
       return result;
     } catch (error) {
+      // 元数据修复后仍不合法：保留回复正文，决策按继续谈判处理
+      if (error instanceof LLMValidationError) {
+        const text = this.stripNegotiationMetadata(error.content);
+        if (text) {
+          console.warn(`[LLM] Negotiation metadata invalid, continuing without decision: ${error.issues.slice(0, 3).join('; ')}`);
+          return { response: text, decision: 'continue', emotionalState: 'neutral' };
+        }
+      }
       console.error('Negotiation error:', error);
       return {
         response: '我需要一些时间考虑这个提案。我们稍后继续讨论吧。',
@@ -787,6 +1124,14 @@ ${context.proposedTerms.duration ? `- 合同期限: ${context.proposedTerms.dura
     }
   }
 
+  /**
+   * 谈判回复正文（去掉元数据块）
+   */
+  private stripNegotiationMetadata(content: string): string {
+    const index = content.indexOf(NEGOTIATION_METADATA_MARKER);
+    return (index >= 0 ? content.slice(0, index) : content).trim();
+  }
+
   /**
    * Generate strategic plan for AI company (大决策)
    * 这个方法只在每100 tick调用一次，用于制定战略方向
@@ -800,56 +1145,16 @@ ${context.proposedTerms.duration ? `- 合同期限: ${context.proposedTerms.dura
       return this.getDefaultStrategicPlan(request);
     }
     
-    // 极简prompt，确保LLM能完整返回JSON
-    const industries = request.ownedIndustries.slice(0, 2).join(',') || 'none';
-    const playerInd = request.playerIndustries.slice(0, 2).join(',') || 'none';
-    const cashM = Math.floor(request.currentCash / 1000000);
-    
-    // 使用非常简短的prompt
-    const prompt = `You are AI strategist for "${request.companyName}".
-Company: ${cashM}M cash, ${request.buildingCount} buildings, industries: ${industries}
-Competitor: ${request.playerBuildingCount} buildings, industries: ${playerInd}
-Personality hint: ${request.personality.substring(0, 30)}
-
-Return ONLY a single line JSON (no markdown, no explanation):
-{"priorityIndustry":"steel","secondaryIndustry":"energy","marketStance":"neutral","targetPlayer":false,"investmentFocus":"expand_capacity","riskLevel":0.5,"reasoning":"short reason"}
-
-Choose priorityIndustry from: steel, energy, semiconductor, chemicals, food, retail
-Choose marketStance from: aggressive, defensive, neutral
-Choose investmentFocus from: expand_capacity, reduce_cost, diversify`;
+    const prompt = this.renderPrompt('strategy', request);
 
     try {
-      console.log(`[LLM] Generating strategic plan for ${request.companyName}...`);
+      console.log(`[LLM] Generating strategic plan for ${request.companyName} (prompt ${prompt.version})...`);
       
-      const response = await openai.chat.completions.create({
-        model: this.defaultModel,
-        messages: [
-          { role: 'system', content: 'You are a JSON generator. Return only valid JSON, no markdown, no explanation.' },
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: 1000,
-        temperature: 0.3,
-      });
-
-      const content = response.choices[0]?.message?.content ?? '{}';
-      console.log(`[LLM] Raw response for ${request.companyName}:`, content.substring(0, 200));
+      const { value: output, repaired } = await this.completeStructured('ai_strategy', this.promptRequest(prompt), strategicPlanOutput);
       
-      // 尝试提取JSON（有时候LLM会返回带有额外文本的JSON）
-      const jsonContent = this.extractJSON(content);
-      const parsed = JSON.parse(jsonContent) as Partial<StrategicPlan>;
+      const { value: plan } = this.normalizeStrategicPlan(output);
       
-      const plan = {
-        priorityIndustry: parsed.priorityIndustry ?? 'steel',
-        secondaryIndustry: parsed.secondaryIndustry ?? 'energy',
-        marketStance: this.validateMarketStance(parsed.marketStance),
-        targetPlayer: parsed.targetPlayer ?? false,
-        investmentFocus: this.validateInvestmentFocus(parsed.investmentFocus),
-        riskLevel: Math.max(0, Math.min(1, parsed.riskLevel ?? 0.5)),
-        reasoning: parsed.reasoning ?? '维持稳定发展',
-        generatedAt: Date.now(),
-      };
-      
-      console.log(`[LLM] Strategic plan generated for ${request.companyName}:`, {
+      console.log(`[LLM] Strategic plan generated for ${request.companyName}${repaired ? ' (repaired)' : ''}:`, {
         priorityIndustry: plan.priorityIndustry,
         marketStance: plan.marketStance,
         reasoning: plan.reasoning.substring(0, 50),
@@ -860,6 +1165,17 @@ Choose investmentFocus from: expand_capacity, reduce_cost, diversify`;
       
       return plan;
     } catch (error) {
+      // 预算耗尽：静默回退
+      if (error instanceof LLMBudgetExceededError) {
+        return this.getDefaultStrategicPlan(request);
+      }
+      
+      // 修复重试后仍不合法：后端本身正常，只回退本次战略
+      if (error instanceof LLMValidationError) {
+        console.warn(`[LLM] Strategic plan for ${request.companyName} failed validation, using personality-based plan: ${error.issues.slice(0, 3).join('; ')}`);
+        return this.getDefaultStrategicPlan(request);
+      }
+      
       // 记录失败（可能触发自动禁用）
       this.recordFailure(error instanceof Error ? error : new Error(String(error)));
       
@@ -871,144 +1187,22 @@ Choose investmentFocus from: expand_capacity, reduce_cost, diversify`;
   }
 
   /**
-   * 尝试从可能包含额外文本或截断的内容中提取和修复JSON
+   * 解析战略规划响应（校验失败抛出 LLMValidationError）
    */
-  private extractJSON(content: string): string {
-    let trimmed = content.trim();
-    
-    // 移除可能的markdown标记
-    if (trimmed.startsWith('```json')) {
-      trimmed = trimmed.slice(7);
-    }
-    if (trimmed.startsWith('```')) {
-      trimmed = trimmed.slice(3);
-    }
-    if (trimmed.endsWith('```')) {
-      trimmed = trimmed.slice(0, -3);
-    }
-    trimmed = trimmed.trim();
-    
-    // 如果内容不以{开头，尝试找到JSON对象
-    if (!trimmed.startsWith('{')) {
-      const jsonMatch = content.match(/\{[\s\S]*\}?/);
-      if (jsonMatch) {
-        trimmed = jsonMatch[0];
-      } else {
-        return '{}';
-      }
-    }
-    
-    // 尝试直接解析，如果成功就返回
-    try {
-      JSON.parse(trimmed);
-      return trimmed;
-    } catch {
-      // 继续尝试修复
-    }
-    
-    // 尝试修复截断的JSON
-    // 1. 如果字符串在值中间被截断，尝试补全引号
-    let fixed = trimmed;
-    
-    // 统计未闭合的括号
-    let braceCount = 0;
-    let inString = false;
-    let lastChar = '';
-    
-    for (let i = 0; i < fixed.length; i++) {
-      const char = fixed[i] ?? '';
-      if (char === '"' && lastChar !== '\\') {
-        inString = !inString;
-      }
-      if (!inString) {
-        if (char === '{') braceCount++;
-        if (char === '}') braceCount--;
-      }
-      lastChar = char;
-    }
-    
-    // 如果在字符串中截断，添加闭合引号
-    if (inString) {
-      fixed += '"';
-    }
-    
-    // 添加缺少的闭合括号
-    while (braceCount > 0) {
-      fixed += '}';
-      braceCount--;
-    }
-    
-    // 再次尝试解析
-    try {
-      JSON.parse(fixed);
-      return fixed;
-    } catch {
-      // 尝试更激进的修复：截断到最后一个完整的键值对
-      const lastValidPos = this.findLastValidJsonPosition(trimmed);
-      if (lastValidPos > 0) {
-        const truncated = trimmed.slice(0, lastValidPos) + '}';
-        try {
-          JSON.parse(truncated);
-          return truncated;
-        } catch {
-          // 放弃，返回空对象
-        }
-      }
-    }
-    
-    return '{}';
-  }
-  
-  /**
-   * 找到最后一个可能有效的JSON结束位置
-   */
-  private findLastValidJsonPosition(content: string): number {
-    // 找到最后一个完整的键值对结束位置
-    // 模式: "key":value, 或 "key":value}
-    const patterns = [
-      /,\s*"[^"]+"\s*:\s*(?:"[^"]*"|[\d.]+|true|false|null|\{[^{}]*\}|\[[^\[\]]*\])\s*$/,
-      /\{\s*"[^"]+"\s*:\s*(?:"[^"]*"|[\d.]+|true|false|null|\{[^{}]*\}|\[[^\[\]]*\])\s*$/,
-    ];
-    
-    for (const pattern of patterns) {
-      const match = content.match(pattern);
-      if (match && match.index !== undefined) {
-        return match.index + match[0].length;
-      }
-    }
-    
-    // 尝试找到最后一个完整的值
-    const lastCompleteValue = content.lastIndexOf('",');
-    if (lastCompleteValue > 0) {
-      return lastCompleteValue + 2;
-    }
-    
-    const lastCompleteNumber = content.match(/.*?(\d+\.?\d*),/);
-    if (lastCompleteNumber) {
-      return lastCompleteNumber[0].length;
-    }
-    
-    return -1;
-  }
-
-  /**
-   * 验证市场立场
-   */
-  private validateMarketStance(stance: string | undefined): 'aggressive' | 'defensive' | 'neutral' {
-    if (stance === 'aggressive' || stance === 'defensive' || stance === 'neutral') {
-      return stance;
-    }
-    return 'neutral';
+  parseStrategicPlan(content: string): PromptParseResult<StrategicPlan> {
+    return this.normalizeStrategicPlan(parseStructuredOutput(strategicPlanOutput, content));
   }
 
   /**
-   * 验证投资重点
+   * 战略规划结果（风险承受度收敛到 0-1）
    */
-  private validateInvestmentFocus(focus: string | undefined): 'expand_capacity' | 'reduce_cost' | 'diversify' {
-    if (focus === 'expand_capacity' || focus === 'reduce_cost' || focus === 'diversify') {
-      return focus;
-    }
-    return 'expand_capacity';
+  private normalizeStrategicPlan(output: StrategicPlanOutput): PromptParseResult<StrategicPlan> {
+    const plan: StrategicPlan = {
+      ...output,
+      riskLevel: Math.max(0, Math.min(1, output.riskLevel)),
+      generatedAt: Date.now(),
+    };
+    return { value: plan, issues: plan.riskLevel !== output.riskLevel ? ['riskLevel:clamped'] : [] };
   }
 
   /**
@@ -1057,170 +1251,190 @@ Choose investmentFocus from: expand_capacity, reduce_cost, diversify`;
    * 批量生成市场事件（一次调用生成3个事件）
    * 用于减少API调用次数并使事件更自然分布
    */
-  async generateMarketEventsBatch(gameState: {
-    currentTick: number;
-    marketConditions: string;
-    playerDominance: Record<string, number>;
-    eventCount: number;
-  }): Promise<Array<{
-    type: string;
-    severity: 'minor' | 'moderate' | 'major' | 'critical';
-    title: string;
-    description: string;
-    effects: {
-      priceChanges?: Record<string, number>;
-      supplyChanges?: Record<string, number>;
-    };
-  }>> {
-    const goods = ['steel', 'coal', 'copper', 'electricity', 'chips', 'oil', 'food', 'natural_gas'];
-    
-    const prompt = `Generate ${gameState.eventCount} different market events for a supply chain simulation game.
-Current tick: ${gameState.currentTick}
-Market conditions: ${gameState.marketConditions}
-
-Return ONLY a valid JSON array with ${gameState.eventCount} events (no markdown, no explanation):
-[
-  {"type":"regulation","severity":"moderate","title":"简短中文标题1","description":"简短中文描述1","effects":{"priceChanges":{"steel":0.15}}},
-  {"type":"disaster","severity":"major","title":"简短中文标题2","description":"简短中文描述2","effects":{"priceChanges":{"coal":-0.2}}},
-  {"type":"social","severity":"minor","title":"简短中文标题3","description":"简短中文描述3","effects":{"priceChanges":{"food":0.1}}}
-]
-
-Rules:
-- Types: market_shift, regulation, disaster, technology, social
-- Severity: minor, moderate, major, critical
-- PriceChanges values: -0.3 to 0.3 (percent change, not absolute)
-- Goods: ${goods.join(', ')}
-- Each event should affect different goods
-- Make events realistic and interesting for gameplay`;
+  async generateMarketEventsBatch(gameState: MarketEventsBatchRequest): Promise<GeneratedMarketEvent[]> {
+    const prompt = this.renderPrompt('market_events', gameState);
 
     try {
       console.log(`[LLM] Generating ${gameState.eventCount} market events batch...`);
       
-      const response = await openai.chat.completions.create({
-        model: this.defaultModel,
-        messages: [
-          { role: 'system', content: 'You are a JSON generator. Return only valid JSON arrays, no markdown, no explanation.' },
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: 1000,
-        temperature: 0.8,
-      });
-
-      const content = response.choices[0]?.message?.content ?? '[]';
-      console.log(`[LLM] Raw batch response:`, content.substring(0, 300));
-      
-      // 尝试提取和修复JSON数组
-      const jsonContent = this.extractJSONArray(content);
-      const parsed = JSON.parse(jsonContent);
-      
-      if (!Array.isArray(parsed)) {
-        console.log('[LLM] Response is not an array, wrapping');
-        return parsed.type ? [parsed] : [];
-      }
+      const { value: output } = await this.completeStructured('market_events', this.promptRequest(prompt), marketEventsOutput);
       
-      // 过滤掉无效事件
-      const validEvents = parsed.filter((event: { type?: string; severity?: string; title?: string }) =>
-        event && event.type && event.severity && event.title
-      );
+      const { value: events } = this.normalizeMarketEvents(output);
       
-      console.log(`[LLM] Generated ${validEvents.length} valid events`);
-      return validEvents;
+      console.log(`[LLM] Generated ${events.length} valid events`);
+      return events;
     } catch (error) {
-      console.error('[LLM] Batch event generation error:', error);
+      if (!(error instanceof LLMBudgetExceededError)) {
+        console.error('[LLM] Batch event generation error:', error);
+      }
       return [];
     }
   }
-  
+
   /**
-   * 从内容中提取JSON数组，处理截断情况
+   * 解析市场事件响应（校验失败抛出 LLMValidationError）
    */
-  private extractJSONArray(content: string): string {
-    let trimmed = content.trim();
-    
-    // 移除可能的markdown标记
-    if (trimmed.startsWith('```json')) {
-      trimmed = trimmed.slice(7);
-    }
-    if (trimmed.startsWith('```')) {
-      trimmed = trimmed.slice(3);
-    }
-    if (trimmed.endsWith('```')) {
-      trimmed = trimmed.slice(0, -3);
-    }
-    trimmed = trimmed.trim();
-    
-    // 如果不以[开头，尝试找到数组
-    if (!trimmed.startsWith('[')) {
-      const arrayMatch = trimmed.match(/\[[\s\S]*/);
-      if (arrayMatch) {
-        trimmed = arrayMatch[0];
-      } else {
-        return '[]';
+  parseMarketEvents(content: string): PromptParseResult<GeneratedMarketEvent[]> {
+    return this.normalizeMarketEvents(parseStructuredOutput(marketEventsOutput, content));
+  }
+
+  /**
+   * 市场事件结果（去掉空的效果字段，持续时间和机制效果收敛到游戏允许的范围）
+   */
+  private normalizeMarketEvents(output: MarketEventOutput[]): PromptParseResult<GeneratedMarketEvent[]> {
+    const issues: string[] = [];
+    const events = output.map((event): GeneratedMarketEvent => {
+      const effects: GeneratedMarketEvent['effects'] = {};
+      if (event.effects.priceChanges) effects.priceChanges = event.effects.priceChanges;
+      if (event.effects.supplyChanges) effects.supplyChanges = event.effects.supplyChanges;
+
+      const modifiers = (event.effects.modifiers ?? []).slice(0, MARKET_EVENT_MAX_MODIFIERS);
+      if ((event.effects.modifiers?.length ?? 0) > modifiers.length) issues.push('modifiers:too_many');
+      if (modifiers.length > 0) {
+        effects.modifiers = modifiers.map(modifier => {
+          const limit = modifier.type === EventEffectType.DemandModifier ? 0.3 : 0.5;
+          const value = Math.max(-limit, Math.min(limit, modifier.value));
+          if (value !== modifier.value) issues.push('modifiers:value_clamped');
+          return { type: modifier.type, value, ...(modifier.target !== undefined ? { target: modifier.target } : {}) };
+        });
+      }
+
+      let durationTicks = event.durationTicks;
+      if (durationTicks !== undefined) {
+        const clamped = Math.max(MARKET_EVENT_MIN_DURATION, Math.min(MARKET_EVENT_MAX_DURATION, durationTicks));
+        if (clamped !== durationTicks) issues.push('duration:clamped');
+        durationTicks = clamped;
       }
+
+      return {
+        type: event.type,
+        severity: event.severity,
+        title: event.title,
+        description: event.description,
+        ...(durationTicks !== undefined ? { durationTicks } : {}),
+        effects,
+      };
+    });
+    if (events.length === 0) issues.push('events:empty');
+    return { value: events, issues };
+  }
+
+  /**
+   * 生成玩家决策事件（也用于连锁事件）
+   * 预算耗尽、后端出错或修复重试后仍不合法时返回 null，由调用方回退内置事件
+   */
+  async generateDecisionEvent(request: DecisionEventRequest): Promise<GeneratedDecisionEvent | null> {
+    if (!this.shouldAttemptApiCall()) {
+      return null;
     }
-    
-    // 先尝试直接解析
+
+    const prompt = this.renderPrompt('decision_event', request);
+
     try {
-      JSON.parse(trimmed);
-      return trimmed;
-    } catch {
-      // 需要修复
-    }
-    
-    // 尝试找到已完成的对象并提取
-    const completedObjects: string[] = [];
-    let depth = 0;
-    let objectStart = -1;
-    let inString = false;
-    let lastChar = '';
-    let inArray = false;
-    
-    for (let i = 0; i < trimmed.length; i++) {
-      const char = trimmed[i] ?? '';
-      
-      if (char === '"' && lastChar !== '\\') {
-        inString = !inString;
+      console.log(`[LLM] Generating decision event${request.followUp ? ` (follow-up of ${request.followUp.parentTitle})` : ''}...`);
+
+      const { value: output } = await this.completeStructured('market_events', this.promptRequest(prompt), decisionEventOutput);
+      const { value: event, issues } = this.normalizeDecisionEvent(output, request);
+
+      if (issues.length > 0) {
+        console.log(`[LLM] Decision event adjusted: ${issues.join(', ')}`);
       }
-      
-      if (!inString) {
-        if (char === '[' && !inArray) {
-          inArray = true;
-        } else if (char === '{') {
-          if (depth === 0) {
-            objectStart = i;
-          }
-          depth++;
-        } else if (char === '}') {
-          depth--;
-          if (depth === 0 && objectStart >= 0) {
-            // 提取完整的对象
-            const objStr = trimmed.slice(objectStart, i + 1);
-            try {
-              JSON.parse(objStr);
-              completedObjects.push(objStr);
-            } catch {
-              // 对象不完整，跳过
+      this.recordSuccess();
+      return event;
+    } catch (error) {
+      if (error instanceof LLMBudgetExceededError) {
+        return null;
+      }
+      if (error instanceof LLMValidationError) {
+        console.warn(`[LLM] Decision event failed validation: ${error.issues.slice(0, 3).join('; ')}`);
+        return null;
+      }
+      this.recordFailure(error instanceof Error ? error : new Error(String(error)));
+      console.error('[LLM] Decision event generation error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 解析玩家决策事件响应（校验失败抛出 LLMValidationError）
+   */
+  parseDecisionEvent(content: string, request: DecisionEventRequest): PromptParseResult<GeneratedDecisionEvent> {
+    return this.normalizeDecisionEvent(parseStructuredOutput(decisionEventOutput, content), request);
+  }
+
+  /**
+   * 决策事件结果（按游戏规则收敛）
+   * - 商品效果丢弃未知商品，变化比例收敛到 ±30%
+   * - 罚款、补贴和选项成本不超过玩家现金的 20%
+   * - 信任度变化收敛到 ±20，未知公司改为影响所有竞争对手
+   * - 默认选项越界时取第一个选项
+   */
+  private normalizeDecisionEvent(output: DecisionEventOutput, request: DecisionEventRequest): PromptParseResult<GeneratedDecisionEvent> {
+    const issues = new Set<string>();
+    const maxAmount = Math.floor(request.playerCash / 100 * DECISION_MAX_CASH_RATIO);
+    const companyIds = new Set(request.companies.map(company => company.id));
+    const clamp = (value: number, min: number, max: number, issue: string): number => {
+      const clamped = Math.max(min, Math.min(max, value));
+      if (clamped !== value) issues.add(issue);
+      return clamped;
+    };
+
+    const options = output.options.map(option => {
+      const effects: GeneratedDecisionEvent['options'][number]['effects'] = [];
+      for (const effect of option.effects) {
+        switch (effect.type) {
+          case 'price_modifier':
+          case 'supply_modifier':
+          case 'demand_modifier':
+            if (effect.target === undefined || !DECISION_GOODS_IDS.has(effect.target)) {
+              issues.add('effects:unknown_goods');
+              continue;
             }
-            objectStart = -1;
+            effects.push({ type: effect.type, target: effect.target, value: clamp(effect.value, -0.3, 0.3, 'effects:change_clamped') });
+            break;
+          case 'fine_imposed':
+          case 'subsidy_grant':
+            effects.push({ type: effect.type, value: clamp(Math.abs(effect.value), 0, maxAmount, 'effects:amount_clamped') });
+            break;
+          case 'reputation_change': {
+            const value = clamp(effect.value, -20, 20, 'effects:reputation_clamped');
+            if (effect.target !== undefined && !companyIds.has(effect.target)) {
+              issues.add('effects:unknown_company');
+              effects.push({ type: effect.type, value });
+            } else {
+              effects.push({ type: effect.type, ...(effect.target !== undefined ? { target: effect.target } : {}), value });
+            }
+            break;
           }
         }
       }
-      lastChar = char;
-    }
-    
-    // 如果找到了完整的对象，构建数组
-    if (completedObjects.length > 0) {
-      const result = '[' + completedObjects.join(',') + ']';
-      try {
-        JSON.parse(result);
-        console.log(`[LLM] Recovered ${completedObjects.length} complete objects from truncated array`);
-        return result;
-      } catch {
-        // 返回空数组
-      }
+      return {
+        label: option.label,
+        description: option.description,
+        cost: clamp(option.cost ?? 0, 0, maxAmount, 'options:cost_clamped'),
+        effects,
+        ...(option.followUp ? { followUp: option.followUp } : {}),
+      };
+    });
+
+    let defaultOption = output.defaultOption ?? 0;
+    if (defaultOption >= options.length) {
+      issues.add('defaultOption:out_of_range');
+      defaultOption = 0;
     }
-    
-    return '[]';
+
+    return {
+      value: {
+        title: output.title,
+        headline: output.headline ?? output.title,
+        description: output.description,
+        category: output.category,
+        severity: output.severity,
+        options,
+        defaultOption,
+      },
+      issues: Array.from(issues),
+    };
   }
 
   /**
@@ -1273,83 +1487,21 @@ Rules:
   /**
    * 生成技术效果（全局修饰符和生产方式解锁）
    * 根据研发概念生成有意义的游戏效果
+   * 研发功能不可用时直接使用按 tier 的默认效果，不发起请求
    */
   async generateTechnologyEffects(request: TechEffectGenerationRequest): Promise<TechEffectGenerationResponse> {
-    const prompt = `你是一个游戏设计师，需要为供应链模拟游戏《供应链指挥官：算法都市》生成技术效果。
-
-研发概念：
-- 名称：${request.conceptName}
-- 描述：${request.conceptDescription}
-- 类别：${request.category}
-- 等级：${request.tier}/5
-
-可以解锁生产方式的建筑ID列表：
-${request.existingBuildings.slice(0, 10).join(', ')}
-
-请生成合理的技术效果，返回JSON格式（不要markdown）：
-{
-  "globalModifiers": [
-    {
-      "type": "efficiency_boost" 或 "cost_reduction" 或 "output_increase" 或 "input_reduction",
-      "target": "all" 或 具体建筑类别(extraction/processing/manufacturing/service),
-      "value": 0.05到0.30之间的数值,
-      "description": "效果的中文描述"
-    }
-  ],
-  "productionMethodUnlocks": [
-    {
-      "buildingId": "适用的建筑ID（从上面列表选择）",
-      "method": {
-        "id": "唯一ID（英文小写加连字符）",
-        "name": "英文名",
-        "nameZh": "中文名",
-        "description": "方法描述",
-        "recipe": {
-          "inputs": [{"goodsId": "商品ID", "amount": 数量}],
-          "outputs": [{"goodsId": "商品ID", "amount": 数量}],
-          "ticksRequired": 1到5
-        },
-        "laborRequired": 50到300,
-        "powerRequired": 50到500,
-        "efficiency": 1.0到2.0
-      }
+    if (!this.isFeatureAvailable('research')) {
+      return this.getDefaultTechEffects(request);
     }
-  ]
-}
 
-规则：
-1. tier越高效果越强（tier 1: 5-10%, tier 5: 25-30%）
-2. 效果应与概念描述的领域相关
-3. 至少生成1个全局修饰符
-4. 如果概念与特定建筑相关，可生成对应的生产方式解锁
-5. 生产方式的recipe要合理（可用商品ID：iron-ore, steel, copper, electricity, coal, chemicals, computing-power等）
-6. 不要生成超过2个全局修饰符和1个生产方式解锁`;
+    const prompt = this.renderPrompt('tech_effects', request);
 
     try {
       console.log(`[LLM] Generating technology effects for: ${request.conceptName}`);
       
-      const response = await openai.chat.completions.create({
-        model: this.defaultModel,
-        messages: [
-          { role: 'system', content: 'You are a JSON generator. Return only valid JSON, no markdown, no explanation.' },
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: 1500,
-        temperature: 0.7,
-      });
-
-      const content = response.choices[0]?.message?.content ?? '{}';
-      console.log(`[LLM] Raw tech effects response:`, content.substring(0, 300));
-      
-      // 提取JSON
-      const jsonContent = this.extractJSON(content);
-      const parsed = JSON.parse(jsonContent) as Partial<TechEffectGenerationResponse>;
+      const { value: output } = await this.completeStructured('research', this.promptRequest(prompt), techEffectsOutput);
       
-      // 验证和规范化响应
-      const result: TechEffectGenerationResponse = {
-        globalModifiers: this.normalizeGlobalModifiers(parsed.globalModifiers ?? [], request.tier),
-        productionMethodUnlocks: this.normalizeProductionMethods(parsed.productionMethodUnlocks ?? [], request.existingBuildings),
-      };
+      const { value: result } = this.normalizeTechnologyEffects(output, request);
       
       console.log(`[LLM] Generated ${result.globalModifiers.length} modifiers and ${result.productionMethodUnlocks.length} method unlocks`);
       return result;
@@ -1361,66 +1513,79 @@ ${request.existingBuildings.slice(0, 10).join(', ')}
   }
 
   /**
-   * 规范化全局修饰符
+   * 解析技术效果响应（校验失败抛出 LLMValidationError）
+   */
+  parseTechnologyEffects(content: string, request: TechEffectGenerationRequest): PromptParseResult<TechEffectGenerationResponse> {
+    return this.normalizeTechnologyEffects(parseStructuredOutput(techEffectsOutput, content), request);
+  }
+
+  /**
+   * 技术效果结果
+   * 修饰符由 normalizeGlobalModifiers 按 tier 收敛，生产方式由 normalizeProductionMethods 过滤
+   */
+  private normalizeTechnologyEffects(
+    output: TechEffectsOutput,
+    request: TechEffectGenerationRequest
+  ): PromptParseResult<TechEffectGenerationResponse> {
+    const result: TechEffectGenerationResponse = {
+      globalModifiers: this.normalizeGlobalModifiers(output.globalModifiers, request.tier),
+      productionMethodUnlocks: this.normalizeProductionMethods(output.productionMethodUnlocks, request.existingBuildings),
+    };
+    
+    const issues: string[] = [];
+    if (output.globalModifiers.length > result.globalModifiers.length) {
+      issues.push(`globalModifiers:dropped:${output.globalModifiers.length - result.globalModifiers.length}`);
+    }
+    const clamped = result.globalModifiers.filter((m, index) => output.globalModifiers[index]?.value !== m.value).length;
+    if (clamped > 0) issues.push(`globalModifiers:clamped:${clamped}`);
+    const droppedUnlocks = Math.min(output.productionMethodUnlocks.length, 1) - result.productionMethodUnlocks.length;
+    if (droppedUnlocks > 0) issues.push(`productionMethodUnlocks:dropped:${droppedUnlocks}`);
+    
+    return { value: result, issues };
+  }
+
+  /**
+   * 规范化全局修饰符（按 tier 收敛数值，最多2个）
    */
   private normalizeGlobalModifiers(
-    modifiers: TechEffectModifier[],
+    modifiers: TechEffectsOutput['globalModifiers'],
     tier: number
   ): TechEffectModifier[] {
-    const validTypes = ['efficiency_boost', 'cost_reduction', 'output_increase', 'input_reduction'];
-    const validTargets = ['all', 'extraction', 'processing', 'manufacturing', 'service', 'agriculture', 'retail'];
-    
     // 根据tier计算合理的效果范围
     const minValue = 0.05 + (tier - 1) * 0.03;
     const maxValue = 0.10 + (tier - 1) * 0.05;
     
-    const normalized = modifiers
-      .filter(m => m && m.type && m.target)
+    return modifiers
       .map(m => ({
-        type: validTypes.includes(m.type) ? m.type : 'efficiency_boost',
-        target: validTargets.includes(m.target) ? m.target : 'all',
-        value: Math.max(minValue, Math.min(maxValue, m.value ?? minValue)),
+        type: m.type,
+        target: m.target,
+        value: Math.max(minValue, Math.min(maxValue, m.value)),
         description: m.description ?? `提升${m.type === 'efficiency_boost' ? '效率' : '产出'}`,
       }))
       .slice(0, 2); // 最多2个修饰符
-    
-    // 确保至少有1个修饰符
-    if (normalized.length === 0) {
-      normalized.push({
-        type: 'efficiency_boost',
-        target: 'all',
-        value: minValue,
-        description: `技术升级带来${Math.round(minValue * 100)}%效率提升`,
-      });
-    }
-    
-    return normalized;
   }
 
   /**
-   * 规范化生产方式解锁
+   * 规范化生产方式解锁（只保留已有建筑，数值收敛到合理范围，最多1个）
    */
   private normalizeProductionMethods(
-    unlocks: TechEffectMethodUnlock[],
+    unlocks: TechEffectsOutput['productionMethodUnlocks'],
     existingBuildings: string[]
   ): TechEffectMethodUnlock[] {
     return unlocks
-      .filter(u => u && u.buildingId && existingBuildings.includes(u.buildingId) && u.method)
+      .filter(u => existingBuildings.includes(u.buildingId))
       .map(u => ({
         buildingId: u.buildingId,
         method: {
-          id: u.method.id ?? `tech-method-${Date.now()}`,
-          name: u.method.name ?? 'Technology Enhanced',
-          nameZh: u.method.nameZh ?? '技术增强',
-          description: u.method.description ?? '技术研发解锁的新方法',
+          ...u.method,
           recipe: {
-            inputs: Array.isArray(u.method.recipe?.inputs) ? u.method.recipe.inputs : [],
-            outputs: Array.isArray(u.method.recipe?.outputs) ? u.method.recipe.outputs : [],
-            ticksRequired: Math.max(1, Math.min(10, u.method.recipe?.ticksRequired ?? 2)),
+            inputs: u.method.recipe.inputs,
+            outputs: u.method.recipe.outputs,
+            ticksRequired: Math.max(1, Math.min(10, Math.round(u.method.recipe.ticksRequired))),
           },
-          laborRequired: Math.max(10, Math.min(500, u.method.laborRequired ?? 100)),
-          powerRequired: Math.max(10, Math.min(1000, u.method.powerRequired ?? 100)),
-          efficiency: Math.max(1.0, Math.min(2.5, u.method.efficiency ?? 1.2)),
+          laborRequired: Math.max(10, Math.min(500, u.method.laborRequired)),
+          powerRequired: Math.max(10, Math.min(1000, u.method.powerRequired)),
+          efficiency: Math.max(1.0, Math.min(2.5, u.method.efficiency)),
         },
       }))
       .slice(0, 1); // 最多1个生产方式解锁
@@ -0,0 +1,239 @@
+/**
+ * LLM Provider - 大模型调用后端抽象
+ * LLMService 只通过 LLMProvider 接口发起补全请求，具体后端可替换：
+ *
+ * - openai：OpenAI 官方 API 及第三方兼容 API（中转站、Gemini 兼容层）
+ * - ollama：本地 OpenAI 兼容 HTTP 服务（Ollama、llama.cpp server 等），无需 API Key
+ * - replay：从磁盘录制文件回放响应（提示词哈希 -> 响应），离线运行，CI 使用
+ *
+ * 录制：LLM_RECORD_FIXTURES=true 时在线后端的每次成功响应都会写入录制目录，供 replay 使用
+ */
+
+import OpenAI from 'openai';
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+/** 后端类型 */
+export type LLMProviderType = 'openai' | 'ollama' | 'replay';
+
+export const LLM_PROVIDER_TYPES: readonly LLMProviderType[] = ['openai', 'ollama', 'replay'];
+
+/** 对话消息 */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/** 补全请求 */
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+  /** 要求返回 JSON 对象（后端支持时启用 JSON 模式） */
+  responseFormat?: 'json_object';
+  signal?: AbortSignal;
+}
+
+/** Token 用量 */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/** 补全响应 */
+export interface LLMCompletionResponse {
+  content: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+/**
+ * 大模型后端
+ */
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+  listModels(signal?: AbortSignal): Promise<string[]>;
+}
+
+/**
+ * 回放模式下找不到录制的响应
+ */
+export class LLMFixtureMissingError extends Error {
+  constructor(readonly hash: string) {
+    super(`No recorded LLM response for prompt hash ${hash}`);
+    this.name = 'LLMFixtureMissingError';
+  }
+}
+
+/**
+ * OpenAI 兼容后端（OpenAI、中转站、Ollama、llama.cpp server）
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly type: 'openai' | 'ollama',
+    apiKey: string,
+    baseUrl: string
+  ) {
+    // 本地服务不校验 API Key，但 SDK 要求非空
+    this.client = new OpenAI({
+      apiKey: apiKey || 'sk-placeholder',
+      baseURL: baseUrl,
+    });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.responseFormat ? { response_format: { type: request.responseFormat } } : {}),
+    }, request.signal ? { signal: request.signal } : undefined);
+
+    return {
+      content: response.choices[0]?.message.content ?? '',
+      model: response.model,
+      ...(response.usage ? {
+        usage: {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+        },
+      } : {}),
+    };
+  }
+
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    const response = await this.client.models.list({ signal });
+    const models: string[] = [];
+    for await (const model of response) {
+      models.push(model.id);
+    }
+    return models;
+  }
+}
+
+/**
+ * 录制文件内容（每个提示词哈希一个文件）
+ */
+interface LLMFixture {
+  hash: string;
+  request: Pick<LLMCompletionRequest, 'messages' | 'responseFormat'>;
+  response: LLMCompletionResponse;
+  recordedAt: string;
+}
+
+/**
+ * 计算提示词哈希
+ * 只取消息和输出格式：换模型、调整温度或长度上限不会使录制失效
+ */
+export function hashPrompt(request: Pick<LLMCompletionRequest, 'messages' | 'responseFormat'>): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ messages: request.messages, responseFormat: request.responseFormat ?? null }))
+    .digest('hex');
+}
+
+/**
+ * 录制/回放后端
+ * - replay：只读录制文件，未命中时抛出 LLMFixtureMissingError（调用方走 fallback）
+ * - record：请求转发给在线后端，成功响应写入录制目录
+ */
+export class FixtureProvider implements LLMProvider {
+  constructor(
+    private readonly fixturesDir: string,
+    private readonly upstream: LLMProvider | null = null
+  ) {}
+
+  /** 录制时报告在线后端的类型 */
+  get type(): LLMProviderType {
+    return this.upstream?.type ?? 'replay';
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const hash = hashPrompt(request);
+    const filePath = path.join(this.fixturesDir, `${hash}.json`);
+
+    if (!this.upstream) {
+      if (!fs.existsSync(filePath)) {
+        throw new LLMFixtureMissingError(hash);
+      }
+      const fixture = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as LLMFixture;
+      return fixture.response;
+    }
+
+    const response = await this.upstream.complete(request);
+    const fixture: LLMFixture = {
+      hash,
+      request: {
+        messages: request.messages,
+        ...(request.responseFormat ? { responseFormat: request.responseFormat } : {}),
+      },
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    fs.mkdirSync(this.fixturesDir, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2));
+    return response;
+  }
+
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    if (this.upstream) {
+      return this.upstream.listModels(signal);
+    }
+    const models = new Set<string>();
+    for (const file of this.listFixtureFiles()) {
+      const fixture = JSON.parse(fs.readFileSync(path.join(this.fixturesDir, file), 'utf-8')) as LLMFixture;
+      models.add(fixture.response.model);
+    }
+    return Array.from(models);
+  }
+
+  /**
+   * 已录制的响应数量
+   */
+  countFixtures(): number {
+    return this.listFixtureFiles().length;
+  }
+
+  private listFixtureFiles(): string[] {
+    if (!fs.existsSync(this.fixturesDir)) return [];
+    return fs.readdirSync(this.fixturesDir).filter(file => file.endsWith('.json'));
+  }
+}
+
+/**
+ * 后端创建参数
+ */
+export interface LLMProviderOptions {
+  provider: LLMProviderType;
+  apiKey: string;
+  baseUrl: string;
+  fixturesDir: string;
+  /** 在线后端的响应是否写入录制目录 */
+  recordFixtures: boolean;
+}
+
+/**
+ * 按配置创建后端
+ */
+export function createLLMProvider(options: LLMProviderOptions): LLMProvider {
+  if (options.provider === 'replay') {
+    return new FixtureProvider(options.fixturesDir);
+  }
+
+  const live = new OpenAICompatibleProvider(options.provider, options.apiKey, options.baseUrl);
+  return options.recordFixtures ? new FixtureProvider(options.fixturesDir, live) : live;
+}
+
+/**
+ * 后端是否可用（只有 OpenAI 需要 API Key）
+ */
+export function isProviderConfigured(provider: LLMProviderType, apiKey: string): boolean {
+  return provider !== 'openai' || apiKey.length > 10;
+}
@@ -0,0 +1,326 @@
+/**
+ * LLM Schemas - 大模型结构化输出的 zod 校验
+ *
+ * 每个需要结构化结果的 LLM 功能声明一个输出规格（schema + 可选的内容截取方式）：
+ * - 响应先去掉 markdown 代码块再按 JSON 解析，然后用 schema 校验
+ * - 校验失败抛出 LLMValidationError（kind=json 为 JSON 本身不合法，kind=schema 为字段不符合约定）
+ * - LLMService 校验失败时带上错误明细重试一次（自动修复），仍失败才走规则回退
+ *
+ * 这里只约束结构和枚举；按游戏规则收敛数值（修饰符幅度、风险度等）仍由 LLMService 负责。
+ * 玩家助手对话（chat）为自由文本，不做结构化校验。
+ */
+
+import { z } from 'zod';
+import { EventCategory, EventEffectType, EventSeverity } from '@scc/shared';
+
+/** 输出规格名（用于指标统计和日志） */
+export type LLMSchemaName =
+  | 'strategic_plan'
+  | 'technology_evaluation'
+  | 'tech_effects'
+  | 'market_events'
+  | 'market_analysis'
+  | 'negotiation_metadata'
+  | 'decision_event';
+
+/** 校验失败类型 */
+export type LLMValidationErrorKind = 'json' | 'schema';
+
+/**
+ * 结构化输出校验失败
+ */
+export class LLMValidationError extends Error {
+  constructor(
+    readonly schema: LLMSchemaName,
+    readonly kind: LLMValidationErrorKind,
+    readonly issues: string[],
+    readonly content: string
+  ) {
+    super(`LLM output failed ${schema} validation (${kind}): ${issues.join('; ')}`);
+    this.name = 'LLMValidationError';
+  }
+}
+
+/**
+ * 结构化输出规格
+ */
+export interface StructuredOutputSpec<T> {
+  name: LLMSchemaName;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  /** 从响应中截取 JSON 部分，返回 null 表示缺失（默认取整段响应） */
+  extract?: (content: string) => string | null;
+}
+
+/** markdown 代码块包裹 */
+const CODE_FENCE = /^```(?:json)?\s*([\s\S]*?)\s*```$/;
+
+/**
+ * 解析并校验结构化输出
+ */
+export function parseStructuredOutput<T>(spec: StructuredOutputSpec<T>, content: string): T {
+  const extracted = spec.extract ? spec.extract(content) : content;
+  if (extracted === null || extracted.trim().length === 0) {
+    throw new LLMValidationError(spec.name, 'json', ['响应中没有 JSON 内容'], content);
+  }
+
+  const trimmed = extracted.trim();
+  const unfenced = CODE_FENCE.exec(trimmed)?.[1] ?? trimmed;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(unfenced);
+  } catch (error) {
+    throw new LLMValidationError(spec.name, 'json', [error instanceof Error ? error.message : String(error)], content);
+  }
+
+  const result = spec.schema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    throw new LLMValidationError(spec.name, 'schema', issues, content);
+  }
+  return result.data;
+}
+
+// ============================================
+// AI战略规划
+// ============================================
+
+export const MARKET_STANCES = ['aggressive', 'defensive', 'neutral'] as const;
+export const INVESTMENT_FOCUSES = ['expand_capacity', 'reduce_cost', 'diversify'] as const;
+
+const strategicPlanSchema = z.object({
+  priorityIndustry: z.string().min(1),
+  secondaryIndustry: z.string().min(1),
+  marketStance: z.enum(MARKET_STANCES),
+  targetPlayer: z.boolean(),
+  investmentFocus: z.enum(INVESTMENT_FOCUSES),
+  riskLevel: z.number(),
+  reasoning: z.string(),
+});
+
+export type StrategicPlanOutput = z.infer<typeof strategicPlanSchema>;
+
+export const strategicPlanOutput: StructuredOutputSpec<StrategicPlanOutput> = {
+  name: 'strategic_plan',
+  schema: strategicPlanSchema,
+};
+
+// ============================================
+// 研发可行性评估
+// ============================================
+
+const technologyEvaluationSchema = z.object({
+  feasibility: z.number().min(0).max(1),
+  estimatedCost: z.number().nonnegative(),
+  estimatedTicks: z.number().positive(),
+  risks: z.array(z.string()),
+  potentialEffects: z.array(z.string()),
+  sideEffects: z.array(z.string()),
+});
+
+export type TechnologyEvaluationOutput = z.infer<typeof technologyEvaluationSchema>;
+
+export const technologyEvaluationOutput: StructuredOutputSpec<TechnologyEvaluationOutput> = {
+  name: 'technology_evaluation',
+  schema: technologyEvaluationSchema,
+};
+
+// ============================================
+// 技术效果
+// ============================================
+
+export const TECH_EFFECT_TYPES = ['efficiency_boost', 'cost_reduction', 'output_increase', 'input_reduction'] as const;
+export const TECH_EFFECT_TARGETS = ['all', 'extraction', 'processing', 'manufacturing', 'service', 'agriculture', 'retail'] as const;
+
+const goodsAmountSchema = z.object({
+  goodsId: z.string().min(1),
+  amount: z.number().positive(),
+});
+
+const techEffectsSchema = z.object({
+  globalModifiers: z.array(z.object({
+    type: z.enum(TECH_EFFECT_TYPES),
+    target: z.enum(TECH_EFFECT_TARGETS),
+    value: z.number(),
+    description: z.string().optional(),
+  })).min(1),
+  productionMethodUnlocks: z.array(z.object({
+    buildingId: z.string().min(1),
+    method: z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      nameZh: z.string(),
+      description: z.string(),
+      recipe: z.object({
+        inputs: z.array(goodsAmountSchema),
+        outputs: z.array(goodsAmountSchema),
+        ticksRequired: z.number(),
+      }),
+      laborRequired: z.number(),
+      powerRequired: z.number(),
+      efficiency: z.number(),
+    }),
+  })).default([]),
+});
+
+export type TechEffectsOutput = z.infer<typeof techEffectsSchema>;
+
+export const techEffectsOutput: StructuredOutputSpec<TechEffectsOutput> = {
+  name: 'tech_effects',
+  schema: techEffectsSchema,
+};
+
+// ============================================
+// 市场事件
+// ============================================
+
+export const MARKET_EVENT_TYPES = ['market_shift', 'regulation', 'disaster', 'technology', 'social'] as const;
+export const MARKET_EVENT_SEVERITIES = ['minor', 'moderate', 'major', 'critical'] as const;
+/** 市场事件可带的机制效果（见 eventEffects.ts） */
+export const MARKET_EVENT_MODIFIER_TYPES = [
+  EventEffectType.TechBlock,
+  EventEffectType.TechUnlock,
+  EventEffectType.ResourceDiscovery,
+  EventEffectType.ResourceDepletion,
+  EventEffectType.RegulationChange,
+  EventEffectType.TaxChange,
+  EventEffectType.DemandModifier,
+] as const;
+export type MarketEventModifierType = typeof MARKET_EVENT_MODIFIER_TYPES[number];
+
+export const marketEventSchema = z.object({
+  type: z.enum(MARKET_EVENT_TYPES),
+  severity: z.enum(MARKET_EVENT_SEVERITIES),
+  title: z.string().min(1),
+  description: z.string(),
+  /** 持续天数，到期后效果回滚；省略为永久 */
+  durationTicks: z.number().int().positive().optional(),
+  effects: z.object({
+    priceChanges: z.record(z.number()).optional(),
+    supplyChanges: z.record(z.number()).optional(),
+    modifiers: z.array(z.object({
+      type: z.enum(MARKET_EVENT_MODIFIER_TYPES),
+      /** 生产方式ID、建筑ID或商品ID */
+      target: z.string().optional(),
+      value: z.number().default(0),
+    })).optional(),
+  }).default({}),
+});
+
+/** JSON 模式只能返回对象，事件列表包在 events 字段中；旧版模板直接返回数组 */
+const marketEventsSchema = z.union([
+  z.array(marketEventSchema),
+  z.object({ events: z.array(marketEventSchema) }).transform(wrapper => wrapper.events),
+]);
+
+export type MarketEventOutput = z.infer<typeof marketEventSchema>;
+
+export const marketEventsOutput: StructuredOutputSpec<MarketEventOutput[]> = {
+  name: 'market_events',
+  schema: marketEventsSchema,
+};
+
+// ============================================
+// 市场分析
+// ============================================
+
+const marketAnalysisSchema = z.object({
+  summary: z.string().min(1),
+  trends: z.array(z.object({
+    goodsId: z.string().min(1),
+    trend: z.enum(['rising', 'falling', 'stable']),
+    confidence: z.number().min(0).max(1),
+  })),
+  recommendations: z.array(z.string()),
+});
+
+export type MarketAnalysisOutput = z.infer<typeof marketAnalysisSchema>;
+
+export const marketAnalysisOutput: StructuredOutputSpec<MarketAnalysisOutput> = {
+  name: 'market_analysis',
+  schema: marketAnalysisSchema,
+};
+
+// ============================================
+// 谈判元数据
+// ============================================
+
+/** 谈判回复正文与元数据的分隔符 */
+export const NEGOTIATION_METADATA_MARKER = '---METADATA---';
+
+const negotiationMetadataSchema = z.object({
+  decision: z.enum(['accept', 'reject', 'counter', 'continue']),
+  counterOffer: z.object({
+    quantity: z.number().positive().nullish(),
+    pricePerUnit: z.number().positive().nullish(),
+    duration: z.number().positive().nullish(),
+  }).nullish(),
+  emotionalState: z.enum(['friendly', 'neutral', 'hostile', 'suspicious']),
+});
+
+export type NegotiationMetadataOutput = z.infer<typeof negotiationMetadataSchema>;
+
+export const negotiationMetadataOutput: StructuredOutputSpec<NegotiationMetadataOutput> = {
+  name: 'negotiation_metadata',
+  schema: negotiationMetadataSchema,
+  extract: content => {
+    const index = content.indexOf(NEGOTIATION_METADATA_MARKER);
+    return index >= 0 ? content.slice(index + NEGOTIATION_METADATA_MARKER.length) : null;
+  },
+};
+
+// ============================================
+// 玩家决策事件
+// ============================================
+
+/** 决策选项可用的效果类型（eventEffects.ts 能结算的部分） */
+export const DECISION_EFFECT_TYPES = [
+  'price_modifier', 'supply_modifier', 'demand_modifier', 'fine_imposed', 'subsidy_grant', 'reputation_change',
+] as const;
+export const DECISION_EVENT_CATEGORIES = [
+  EventCategory.Market,
+  EventCategory.Political,
+  EventCategory.Technology,
+  EventCategory.Social,
+  EventCategory.Environmental,
+  EventCategory.Corporate,
+] as const;
+export const DECISION_EVENT_SEVERITIES = [
+  EventSeverity.Info,
+  EventSeverity.Warning,
+  EventSeverity.Critical,
+  EventSeverity.Opportunity,
+] as const;
+
+const decisionEventSchema = z.object({
+  title: z.string().min(1),
+  headline: z.string().optional(),
+  description: z.string().min(1),
+  category: z.enum(DECISION_EVENT_CATEGORIES),
+  severity: z.enum(DECISION_EVENT_SEVERITIES),
+  options: z.array(z.object({
+    label: z.string().min(1),
+    description: z.string(),
+    /** 选择成本（元） */
+    cost: z.number().nonnegative().optional(),
+    effects: z.array(z.object({
+      type: z.enum(DECISION_EFFECT_TYPES),
+      /** 商品ID或公司ID */
+      target: z.string().min(1).optional(),
+      value: z.number(),
+    })).default([]),
+    /** 后续事件的提示（选择后生成连锁事件） */
+    followUp: z.string().optional(),
+  })).min(2).max(4),
+  /** 超时未选择时采用的选项序号 */
+  defaultOption: z.number().int().nonnegative().optional(),
+});
+
+export type DecisionEventOutput = z.infer<typeof decisionEventSchema>;
+
+export const decisionEventOutput: StructuredOutputSpec<DecisionEventOutput> = {
+  name: 'decision_event',
+  schema: decisionEventSchema,
+};
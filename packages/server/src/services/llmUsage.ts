@@ -0,0 +1,277 @@
+/**
+ * LLM Usage Tracker - 大模型用量统计与预算控制
+ *
+ * 每个游戏按功能记录调用次数、token 用量和估算费用：
+ * - research：研发可行性评估、技术效果生成
+ * - ai_strategy：AI公司战略规划
+ * - market_events：市场事件生成
+ * - chat：玩家助手对话、市场分析、谈判
+ *
+ * 预算（单局 token 上限、功能 token 上限、功能每分钟调用上限）由 LLMService 配置统一下发，
+ * 超出预算时 LLMService 不再发起请求，直接走各功能原有的规则回退。
+ */
+
+import type { GameSession } from '@scc/shared';
+import { worldScoped } from './worldContext.js';
+import type { LLMUsage } from './llmProvider.js';
+
+/** 计费功能 */
+export type LLMFeature = 'research' | 'ai_strategy' | 'market_events' | 'chat';
+
+export const LLM_FEATURES: readonly LLMFeature[] = ['research', 'ai_strategy', 'market_events', 'chat'];
+
+/** 单个功能的预算（0 表示不限） */
+export interface LLMFeatureBudget {
+  /** 单局 token 上限 */
+  maxTokens: number;
+  /** 每分钟调用次数上限 */
+  maxCallsPerMinute: number;
+}
+
+/** 每千 token 单价（美元） */
+export interface LLMPricing {
+  promptPer1K: number;
+  completionPer1K: number;
+}
+
+/** 预算配置 */
+export interface LLMBudgetConfig {
+  /** 单局 token 上限（0 表示不限） */
+  maxTokensPerGame: number;
+  features: Record<LLMFeature, LLMFeatureBudget>;
+  pricing: LLMPricing;
+}
+
+/** 预算配置的局部更新 */
+export interface LLMBudgetConfigPatch {
+  maxTokensPerGame?: number;
+  features?: Partial<Record<LLMFeature, Partial<LLMFeatureBudget>>>;
+  pricing?: Partial<LLMPricing>;
+}
+
+/** 拒绝原因 */
+export type LLMBudgetDenial = 'game_tokens' | 'feature_tokens' | 'rate_limit';
+
+/** 默认预算：单局 200 万 token，后台功能限频，价格按 gpt-4o-mini */
+export const DEFAULT_LLM_BUDGET: LLMBudgetConfig = {
+  maxTokensPerGame: 2_000_000,
+  features: {
+    research: { maxTokens: 0, maxCallsPerMinute: 10 },
+    ai_strategy: { maxTokens: 1_000_000, maxCallsPerMinute: 12 },
+    market_events: { maxTokens: 200_000, maxCallsPerMinute: 2 },
+    chat: { maxTokens: 0, maxCallsPerMinute: 30 },
+  },
+  pricing: { promptPer1K: 0.00015, completionPer1K: 0.0006 },
+};
+
+/** 限频窗口 */
+const RATE_WINDOW_MS = 60_000;
+
+/**
+ * 合并预算配置（未提供的字段沿用 base）
+ */
+export function mergeBudgetConfig(base: LLMBudgetConfig, patch: LLMBudgetConfigPatch | undefined): LLMBudgetConfig {
+  const features = { ...base.features };
+  for (const feature of LLM_FEATURES) {
+    const override = patch?.features?.[feature];
+    if (override) {
+      features[feature] = { ...features[feature], ...override };
+    }
+  }
+  return {
+    maxTokensPerGame: patch?.maxTokensPerGame ?? base.maxTokensPerGame,
+    features,
+    pricing: { ...base.pricing, ...patch?.pricing },
+  };
+}
+
+/**
+ * 预算耗尽或触发限频
+ */
+export class LLMBudgetExceededError extends Error {
+  constructor(readonly feature: LLMFeature, readonly reason: LLMBudgetDenial) {
+    super(`LLM budget exceeded for ${feature}: ${reason}`);
+    this.name = 'LLMBudgetExceededError';
+  }
+}
+
+/** 单个功能的累计用量 */
+export interface LLMFeatureUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** 估算费用（美元） */
+  estimatedCost: number;
+  /** 因预算或限频被拒绝的调用次数 */
+  deniedCalls: number;
+  lastDeniedReason: LLMBudgetDenial | null;
+}
+
+/** 用量报告中的单个功能 */
+export interface LLMFeatureReport extends LLMFeatureUsage {
+  feature: LLMFeature;
+  budget: LLMFeatureBudget;
+  callsLastMinute: number;
+  /** 剩余 token（功能上限与单局上限取小，null 表示不限） */
+  remainingTokens: number | null;
+  /** 当前是否会被拒绝 */
+  exhausted: boolean;
+}
+
+/** 单局用量报告 */
+export interface LLMUsageReport extends Pick<GameSession, 'llmCallsThisSession' | 'llmTokensUsed'> {
+  estimatedCost: number;
+  maxTokensPerGame: number;
+  remainingTokens: number | null;
+  deniedCalls: number;
+  features: LLMFeatureReport[];
+}
+
+function createEmptyUsage(): LLMFeatureUsage {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    estimatedCost: 0,
+    deniedCalls: 0,
+    lastDeniedReason: null,
+  };
+}
+
+/**
+ * 用量统计（按游戏隔离）
+ */
+export class LLMUsageTracker {
+  private usage = new Map<LLMFeature, LLMFeatureUsage>();
+
+  /** 各功能最近一分钟内的调用时间戳（墙钟时间，限频用） */
+  private recentCalls = new Map<LLMFeature, number[]>();
+
+  /**
+   * 检查预算，返回拒绝原因（null 表示可以调用）
+   */
+  checkBudget(feature: LLMFeature, budget: LLMBudgetConfig, now = Date.now()): LLMBudgetDenial | null {
+    if (budget.maxTokensPerGame > 0 && this.getTotalTokens() >= budget.maxTokensPerGame) {
+      return 'game_tokens';
+    }
+    const featureBudget = budget.features[feature];
+    if (featureBudget.maxTokens > 0 && this.getUsage(feature).totalTokens >= featureBudget.maxTokens) {
+      return 'feature_tokens';
+    }
+    if (featureBudget.maxCallsPerMinute > 0 && this.countRecentCalls(feature, now) >= featureBudget.maxCallsPerMinute) {
+      return 'rate_limit';
+    }
+    return null;
+  }
+
+  /**
+   * 申请一次调用：预算内登记调用时间并返回 null，否则记录拒绝并返回原因
+   * 并发请求在返回前不计 token，单局上限可能被在途请求略微超出
+   */
+  acquire(feature: LLMFeature, budget: LLMBudgetConfig, now = Date.now()): LLMBudgetDenial | null {
+    const denial = this.checkBudget(feature, budget, now);
+    if (denial) {
+      const usage = this.getOrCreateUsage(feature);
+      if (usage.lastDeniedReason !== denial) {
+        console.log(`[LLMUsage] ${feature} calls suspended: ${denial}`);
+      }
+      usage.deniedCalls++;
+      usage.lastDeniedReason = denial;
+      return denial;
+    }
+
+    const calls = this.recentCalls.get(feature) ?? [];
+    calls.push(now);
+    this.recentCalls.set(feature, calls);
+    return null;
+  }
+
+  /**
+   * 记录一次完成的调用
+   */
+  record(feature: LLMFeature, tokens: LLMUsage, pricing: LLMPricing): void {
+    const usage = this.getOrCreateUsage(feature);
+    usage.calls++;
+    usage.promptTokens += tokens.promptTokens;
+    usage.completionTokens += tokens.completionTokens;
+    usage.totalTokens += tokens.totalTokens;
+    usage.estimatedCost += (tokens.promptTokens * pricing.promptPer1K + tokens.completionTokens * pricing.completionPer1K) / 1000;
+    usage.lastDeniedReason = null;
+  }
+
+  getUsage(feature: LLMFeature): LLMFeatureUsage {
+    return { ...(this.usage.get(feature) ?? createEmptyUsage()) };
+  }
+
+  getTotalTokens(): number {
+    let total = 0;
+    for (const usage of this.usage.values()) {
+      total += usage.totalTokens;
+    }
+    return total;
+  }
+
+  /**
+   * 生成用量报告
+   */
+  getReport(budget: LLMBudgetConfig, now = Date.now()): LLMUsageReport {
+    const totalTokens = this.getTotalTokens();
+    const gameRemaining = budget.maxTokensPerGame > 0 ? Math.max(0, budget.maxTokensPerGame - totalTokens) : null;
+
+    const features = LLM_FEATURES.map((feature): LLMFeatureReport => {
+      const usage = this.getUsage(feature);
+      const featureBudget = budget.features[feature];
+      const featureRemaining = featureBudget.maxTokens > 0 ? Math.max(0, featureBudget.maxTokens - usage.totalTokens) : null;
+      return {
+        feature,
+        ...usage,
+        budget: { ...featureBudget },
+        callsLastMinute: this.countRecentCalls(feature, now),
+        remainingTokens: featureRemaining === null ? gameRemaining
+          : gameRemaining === null ? featureRemaining
+          : Math.min(featureRemaining, gameRemaining),
+        exhausted: this.checkBudget(feature, budget, now) !== null,
+      };
+    });
+
+    return {
+      llmCallsThisSession: features.reduce((sum, f) => sum + f.calls, 0),
+      llmTokensUsed: totalTokens,
+      estimatedCost: features.reduce((sum, f) => sum + f.estimatedCost, 0),
+      maxTokensPerGame: budget.maxTokensPerGame,
+      remainingTokens: gameRemaining,
+      deniedCalls: features.reduce((sum, f) => sum + f.deniedCalls, 0),
+      features,
+    };
+  }
+
+  reset(): void {
+    this.usage.clear();
+    this.recentCalls.clear();
+  }
+
+  private getOrCreateUsage(feature: LLMFeature): LLMFeatureUsage {
+    let usage = this.usage.get(feature);
+    if (!usage) {
+      usage = createEmptyUsage();
+      this.usage.set(feature, usage);
+    }
+    return usage;
+  }
+
+  /**
+   * 统计最近一分钟的调用次数（顺带清理过期时间戳）
+   */
+  private countRecentCalls(feature: LLMFeature, now: number): number {
+    const calls = this.recentCalls.get(feature);
+    if (!calls) return 0;
+    const recent = calls.filter(time => now - time < RATE_WINDOW_MS);
+    this.recentCalls.set(feature, recent);
+    return recent.length;
+  }
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const llmUsageTracker = worldScoped('llmUsageTracker');
@@ -17,6 +17,7 @@ import type {
   MarketDepth,
 } from '@scc/shared';
 import { GOODS_DATA } from '@scc/shared';
+import { worldScoped } from './worldContext.js';
 
 /**
  * 二分查找插入位置（买单：价格降序）
@@ -69,7 +70,7 @@ interface OptimizedOrderBook extends GoodsOrderBook {
 }
 
 /**
- * 订单簿管理器 - 单例
+ * 订单簿管理器 - 每个游戏世界一个实例
  */
 export class MarketOrderBook extends EventEmitter {
   /** 订单簿 Map<goodsId, OptimizedOrderBook> */
@@ -124,11 +125,11 @@ export class MarketOrderBook extends EventEmitter {
   }
   
   /**
-   * 生成唯一订单ID
+   * 生成唯一订单ID（计数器按游戏世界独立，不依赖系统时间以保证可复现）
    */
   private generateOrderId(): string {
     this.orderIdCounter++;
-    return `order-${Date.now()}-${this.orderIdCounter}`;
+    return `order-${this.orderIdCounter}`;
   }
   
   /**
@@ -827,18 +828,6 @@ export class MarketOrderBook extends EventEmitter {
     return Array.from(this.activeGoodsSet);
   }
   
-  /**
-   * 刷新活跃商品缓存（在清理订单后调用）
-   */
-  private refreshActiveGoodsCache(): void {
-    this.activeGoodsSet.clear();
-    for (const [goodsId, orderBook] of this.orderBooks) {
-      if (orderBook.activeBuyCount > 0 || orderBook.activeSellCount > 0) {
-        this.activeGoodsSet.add(goodsId);
-      }
-    }
-  }
-  
   /**
    * 获取公司的所有订单
    */
@@ -906,5 +895,5 @@ export class MarketOrderBook extends EventEmitter {
   }
 }
 
-// 单例实例
-export const marketOrderBook = new MarketOrderBook();
\ No newline at end of file
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const marketOrderBook = worldScoped('marketOrderBook');
\ No newline at end of file
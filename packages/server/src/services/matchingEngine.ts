@@ -5,9 +5,10 @@
 
 import { EventEmitter } from 'events';
 import type { TradeRecord, MarketOrder } from '@scc/shared';
-import { GOODS_DATA } from '@scc/shared';
+import { tickToGameTimestamp } from '@scc/shared';
 import { marketOrderBook } from './marketOrderBook.js';
 import { inventoryManager } from './inventoryManager.js';
+import { worldScoped } from './worldContext.js';
 
 /**
  * 单个公司的市场份额数据
@@ -33,7 +34,7 @@ export interface MarketShareData {
 }
 
 /**
- * 撮合引擎 - 单例
+ * 撮合引擎 - 每个游戏世界一个实例
  *
  * 性能优化：
  * - 使用 lastTradePriceCache 缓存最后交易价格，避免每次遍历历史
@@ -73,11 +74,11 @@ export class MatchingEngine extends EventEmitter {
   }
   
   /**
-   * 生成唯一交易ID
+   * 生成唯一交易ID（计数器按游戏世界独立，不依赖系统时间以保证可复现）
    */
   private generateTradeId(): string {
     this.tradeIdCounter++;
-    return `trade-${Date.now()}-${this.tradeIdCounter}`;
+    return `trade-${this.tradeIdCounter}`;
   }
   
   /**
@@ -162,7 +163,7 @@ export class MatchingEngine extends EventEmitter {
       pricePerUnit: price,
       totalValue,
       tick: currentTick,
-      timestamp: Date.now(),
+      timestamp: tickToGameTimestamp(currentTick),
     };
     
     // 5. 记录交易
@@ -285,7 +286,7 @@ export class MatchingEngine extends EventEmitter {
   /**
    * 标记商品有新订单（由 marketOrderBook 调用）
    */
-  markNewOrder(goodsId: string, orderId: string): void {
+  markNewOrder(goodsId: string, _orderId: string): void {
     this.goodsWithNewOrders.add(goodsId);
     // 新订单不在已处理集合中
   }
@@ -618,5 +619,5 @@ export class MatchingEngine extends EventEmitter {
   }
 }
 
-// 单例实例
-export const matchingEngine = new MatchingEngine();
\ No newline at end of file
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const matchingEngine = worldScoped('matchingEngine');
\ No newline at end of file
@@ -0,0 +1,494 @@
+/**
+ * Negotiation Service - 合同谈判
+ * 玩家（买方）与AI公司（卖方）就供货条款进行多轮谈判，会话历史按游戏保存并随存档持久化
+ *
+ * - LLM 启用时由 LLM 扮演对方CEO（性格、信任度、敌意、合作历史来自 aiCompanyManager）
+ * - LLM 未启用时使用基于成本的规则谈判：以库存平均成本（不低于机会成本）为底，按性格确定目标利润，逐轮让步
+ * - 无论哪种方式，低于成本底价的"接受"都会被改为还价
+ * - 达成一致后签订有约束力的合同（contractService）
+ */
+
+import {
+  AIPersonality,
+  ContractType,
+  tickToGameTimestamp,
+  type NegotiationMessage,
+} from '@scc/shared';
+import { llmService } from './llm.js';
+import { aiCompanyManager, type AICompanyState } from './aiCompanyManager.js';
+import { inventoryManager } from './inventoryManager.js';
+import { priceDiscoveryService } from './priceDiscovery.js';
+import { contractService, type ContractProposal, type ContractResult } from './contractService.js';
+import { worldScoped } from './worldContext.js';
+
+/** 各性格的目标利润率（相对成本） */
+const PERSONALITY_TARGET_MARGIN: Record<AIPersonality, number> = {
+  [AIPersonality.Monopolist]: 0.5,
+  [AIPersonality.TrendSurfer]: 0.3,
+  [AIPersonality.OldMoney]: 0.35,
+  [AIPersonality.Innovator]: 0.3,
+  [AIPersonality.CostLeader]: 0.15,
+};
+
+/** 最低利润率（底价） */
+const MIN_MARGIN = 0.05;
+
+/** 机会成本：市场价的该比例（库存成本低于此值时以此为成本，AI不会远低于市场价出货） */
+const OPPORTUNITY_COST_RATIO = 0.8;
+
+/** 最多谈判轮数，超过后只接受不低于底价的报价 */
+const MAX_ROUNDS = 5;
+
+/** 低于该信任度或高于该敌意时拒绝谈判 */
+const MIN_TRUST_TO_NEGOTIATE = -50;
+const MAX_HOSTILITY_TO_NEGOTIATE = 80;
+
+/** 谈判达成的长期合同交割间隔（tick） */
+const NEGOTIATED_DELIVERY_INTERVAL = 10;
+
+/** 保留的关系历史条数（作为 LLM 上下文） */
+const RELATIONSHIP_HISTORY_LIMIT = 5;
+
+/**
+ * 谈判条款
+ */
+export interface NegotiationTerms {
+  quantity: number;
+  pricePerUnit: number;
+  /** 合同期限（tick），指定时为长期合同 */
+  duration?: number;
+}
+
+export type NegotiationDecision = 'accept' | 'reject' | 'counter' | 'continue';
+export type NegotiationEmotion = 'friendly' | 'neutral' | 'hostile' | 'suspicious';
+
+/**
+ * 谈判会话
+ */
+export interface NegotiationSession {
+  id: string;
+  /** 对方AI公司（卖方） */
+  companyId: string;
+  /** 玩家公司（买方） */
+  playerCompanyId: string;
+  goodsId: string;
+  status: 'open' | 'agreed' | 'failed';
+  rounds: number;
+  /** 玩家最近一次报价 */
+  playerTerms?: NegotiationTerms;
+  /** AI最近一次还价 */
+  counterOffer?: NegotiationTerms;
+  /** 达成一致的条款 */
+  agreedTerms?: NegotiationTerms;
+  emotionalState: NegotiationEmotion;
+  messages: NegotiationMessage[];
+  contractId?: string;
+  createdTick: number;
+  updatedTick: number;
+}
+
+/**
+ * 单轮谈判结果
+ */
+export interface NegotiationTurnResult {
+  success: boolean;
+  error?: string;
+  session?: NegotiationSession;
+  response?: string;
+  decision?: NegotiationDecision;
+  counterOffer?: NegotiationTerms;
+  emotionalState?: NegotiationEmotion;
+}
+
+/**
+ * 谈判存档数据
+ */
+export interface NegotiationSnapshotState {
+  sessions: NegotiationSession[];
+  sessionCounter: number;
+}
+
+/**
+ * AI一方的回应
+ */
+interface NegotiationResponse {
+  response: string;
+  decision: NegotiationDecision;
+  counterOffer?: NegotiationTerms;
+  emotionalState: NegotiationEmotion;
+}
+
+/** 规则谈判的回复模板 */
+const RULE_RESPONSES: Record<AIPersonality, { accept: string; counter: string; reject: string }> = {
+  [AIPersonality.Monopolist]: {
+    accept: '成交。记住，是我给了你这个机会。',
+    counter: '这个价格是在浪费我的时间。',
+    reject: '我们没什么可谈的了。',
+  },
+  [AIPersonality.TrendSurfer]: {
+    accept: '太棒了，就这么定了！',
+    counter: '有意思，不过还差一点。',
+    reject: '抱歉，我已经有更好的机会了。',
+  },
+  [AIPersonality.OldMoney]: {
+    accept: '很好，希望这是长期合作的开始。',
+    counter: '这个价格不足以体现我们的品质。',
+    reject: '恕我直言，这样的交易有损我们的声誉。',
+  },
+  [AIPersonality.Innovator]: {
+    accept: '不错，我们一起往前走。',
+    counter: '我们的投入远不止这个数。',
+    reject: '我看不到这笔交易的未来。',
+  },
+  [AIPersonality.CostLeader]: {
+    accept: '数字合理，成交。',
+    counter: '我算过了，这个价格覆盖不了成本加合理利润。',
+    reject: '这个数字永远算不过来。',
+  },
+};
+
+/**
+ * 谈判服务
+ * 每个游戏世界一个实例
+ */
+export class NegotiationService {
+  private sessions = new Map<string, NegotiationSession>();
+
+  /** 会话编号计数器 */
+  private sessionCounter = 0;
+
+  /**
+   * 获取会话，不存在或已结束时为指定AI公司和商品新建会话
+   */
+  getOrOpenSession(
+    playerCompanyId: string,
+    companyId: string,
+    goodsId: string,
+    currentTick: number,
+    sessionId?: string
+  ): { session?: NegotiationSession; error?: string } {
+    if (sessionId) {
+      const existing = this.sessions.get(sessionId);
+      if (!existing) {
+        return { error: '谈判会话不存在' };
+      }
+      if (existing.companyId !== companyId || existing.goodsId !== goodsId) {
+        return { error: '谈判会话与对方公司或商品不符' };
+      }
+      if (existing.status === 'open') {
+        return { session: existing };
+      }
+    }
+
+    if (!aiCompanyManager.getCompany(companyId)) {
+      return { error: '只能与AI公司谈判' };
+    }
+
+    const session: NegotiationSession = {
+      id: `negotiation-${++this.sessionCounter}`,
+      companyId,
+      playerCompanyId,
+      goodsId,
+      status: 'open',
+      rounds: 0,
+      emotionalState: 'neutral',
+      messages: [],
+      createdTick: currentTick,
+      updatedTick: currentTick,
+    };
+    this.sessions.set(session.id, session);
+    return { session };
+  }
+
+  /**
+   * 玩家发送一轮报价
+   */
+  async sendMessage(
+    sessionId: string,
+    message: string,
+    terms: NegotiationTerms,
+    currentTick: number
+  ): Promise<NegotiationTurnResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return { success: false, error: '谈判会话不存在' };
+    }
+    if (session.status !== 'open') {
+      return { success: false, error: '谈判已结束' };
+    }
+
+    const company = aiCompanyManager.getCompany(session.companyId);
+    if (!company) {
+      return { success: false, error: '对方公司不存在' };
+    }
+
+    session.rounds++;
+    session.playerTerms = terms;
+    this.appendMessage(session, session.playerCompanyId, message, currentTick, terms);
+
+    const response = llmService.isFeatureAvailable('chat')
+      ? await this.negotiateWithLLM(session, company, message, terms)
+      : this.negotiateByRules(session, company, terms);
+
+    session.emotionalState = response.emotionalState;
+    session.updatedTick = currentTick;
+
+    if (response.decision === 'accept') {
+      session.agreedTerms = terms;
+      delete session.counterOffer;
+    } else if (response.decision === 'reject') {
+      session.status = 'failed';
+      delete session.counterOffer;
+    } else if (response.counterOffer) {
+      session.counterOffer = response.counterOffer;
+    }
+
+    this.appendMessage(session, company.id, response.response, currentTick, response.counterOffer);
+    console.log(`[Negotiation] ${session.id} round ${session.rounds} with ${company.name}: ${response.decision}`);
+
+    return {
+      success: true,
+      session,
+      response: response.response,
+      decision: response.decision,
+      ...(response.counterOffer ? { counterOffer: response.counterOffer } : {}),
+      emotionalState: response.emotionalState,
+    };
+  }
+
+  /**
+   * 玩家接受AI的最新还价
+   */
+  acceptCounterOffer(sessionId: string, currentTick: number): { session?: NegotiationSession; error?: string } {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return { error: '谈判会话不存在' };
+    }
+    if (session.status !== 'open' || !session.counterOffer) {
+      return { error: '没有可接受的还价' };
+    }
+
+    session.agreedTerms = session.counterOffer;
+    delete session.counterOffer;
+    session.updatedTick = currentTick;
+    this.appendMessage(session, session.playerCompanyId, '接受还价', currentTick, session.agreedTerms);
+    return { session };
+  }
+
+  /**
+   * 达成一致的条款对应的合同提案（签约前用于记录指令日志）
+   */
+  getAgreementProposal(sessionId: string): Omit<ContractProposal, 'proposerId'> | undefined {
+    const session = this.sessions.get(sessionId);
+    const terms = session?.agreedTerms;
+    if (session?.status !== 'open' || !terms) return undefined;
+
+    const base = {
+      buyerId: session.playerCompanyId,
+      sellerId: session.companyId,
+      goodsId: session.goodsId,
+      quantity: terms.quantity,
+      pricePerUnit: terms.pricePerUnit,
+    };
+
+    if (!terms.duration) {
+      return { ...base, type: ContractType.SpotMarket };
+    }
+    return {
+      ...base,
+      type: ContractType.LongTerm,
+      deliveryIntervalTicks: NEGOTIATED_DELIVERY_INTERVAL,
+      totalDeliveries: Math.max(1, Math.floor(terms.duration / NEGOTIATED_DELIVERY_INTERVAL)),
+    };
+  }
+
+  /**
+   * 将达成一致的条款签为合同
+   */
+  finalizeAgreement(sessionId: string, currentTick: number): ContractResult {
+    const session = this.sessions.get(sessionId);
+    const proposal = this.getAgreementProposal(sessionId);
+    if (!session || !proposal) {
+      return { success: false, error: '谈判尚未达成一致' };
+    }
+
+    const result = contractService.proposeContract(
+      { ...proposal, proposerId: session.playerCompanyId },
+      currentTick,
+      true
+    );
+
+    if (result.contract) {
+      session.status = 'agreed';
+      session.contractId = result.contract.id;
+    } else {
+      delete session.agreedTerms;
+    }
+    return result;
+  }
+
+  /**
+   * 由 LLM 扮演对方CEO
+   */
+  private async negotiateWithLLM(
+    session: NegotiationSession,
+    company: AICompanyState,
+    message: string,
+    terms: NegotiationTerms
+  ): Promise<NegotiationResponse> {
+    const history = session.messages.slice(0, -1).map(msg => ({
+      role: msg.senderId === session.playerCompanyId ? 'user' as const : 'assistant' as const,
+      content: msg.message,
+    }));
+
+    const result = await llmService.negotiate(message, {
+      buyerId: session.playerCompanyId,
+      sellerId: company.id,
+      goodsType: session.goodsId,
+      proposedTerms: terms,
+      sellerPersonality: company.personality,
+      relationshipHistory: company.relationshipWithPlayer.history
+        .slice(-RELATIONSHIP_HISTORY_LIMIT)
+        .map(record => record.description),
+      trustWithPlayer: company.relationshipWithPlayer.trust,
+      hostilityToPlayer: company.relationshipWithPlayer.hostility,
+    }, history);
+
+    // LLM 只决定语气和方向，价格不得低于成本底价
+    const { ask, floor } = this.getPriceRange(session, company);
+    const counterPrice = result.counterOffer?.pricePerUnit;
+    const counterOffer: NegotiationTerms = {
+      quantity: typeof result.counterOffer?.quantity === 'number' ? result.counterOffer.quantity : terms.quantity,
+      pricePerUnit: Math.round(typeof counterPrice === 'number' ? Math.max(counterPrice, floor) : ask),
+      ...(terms.duration ? { duration: terms.duration } : {}),
+    };
+
+    if (result.decision === 'accept' && terms.pricePerUnit < floor) {
+      return { response: result.response, decision: 'counter', counterOffer, emotionalState: result.emotionalState };
+    }
+    if (result.decision === 'counter') {
+      return { response: result.response, decision: 'counter', counterOffer, emotionalState: result.emotionalState };
+    }
+    return { response: result.response, decision: result.decision, emotionalState: result.emotionalState };
+  }
+
+  /**
+   * 基于成本的规则谈判（LLM 未启用时）
+   */
+  private negotiateByRules(
+    session: NegotiationSession,
+    company: AICompanyState,
+    terms: NegotiationTerms
+  ): NegotiationResponse {
+    const templates = RULE_RESPONSES[company.personality];
+    const { trust, hostility } = company.relationshipWithPlayer;
+
+    if (trust < MIN_TRUST_TO_NEGOTIATE || hostility >= MAX_HOSTILITY_TO_NEGOTIATE) {
+      return { response: templates.reject, decision: 'reject', emotionalState: 'hostile' };
+    }
+
+    const available = Math.floor(inventoryManager.getAvailableQuantity(company.id, session.goodsId));
+    if (available <= 0) {
+      return { response: `${templates.reject}（目前没有 ${session.goodsId} 可供出售）`, decision: 'reject', emotionalState: 'neutral' };
+    }
+
+    const { ask, floor } = this.getPriceRange(session, company);
+    const quantity = Math.min(terms.quantity, available);
+    const emotionalState: NegotiationEmotion = trust < 0
+      ? 'suspicious'
+      : terms.pricePerUnit < floor * 0.7 ? 'hostile' : terms.pricePerUnit >= ask * 0.9 ? 'friendly' : 'neutral';
+
+    const priceAcceptable = terms.pricePerUnit >= ask || (session.rounds >= MAX_ROUNDS && terms.pricePerUnit >= floor);
+    if (priceAcceptable && quantity === terms.quantity) {
+      return { response: templates.accept, decision: 'accept', emotionalState };
+    }
+
+    if (session.rounds > MAX_ROUNDS) {
+      return { response: templates.reject, decision: 'reject', emotionalState };
+    }
+
+    const counterOffer: NegotiationTerms = {
+      quantity,
+      pricePerUnit: Math.round(priceAcceptable ? terms.pricePerUnit : ask),
+      ...(terms.duration ? { duration: terms.duration } : {}),
+    };
+    const quantityNote = quantity < terms.quantity ? `我们最多能提供 ${quantity} 单位。` : '';
+    return {
+      response: `${templates.counter}${quantityNote}单价 ¥${counterOffer.pricePerUnit}，这是我的报价。`,
+      decision: 'counter',
+      counterOffer,
+      emotionalState,
+    };
+  }
+
+  /**
+   * 计算本轮要价和底价
+   * 成本 = max(库存平均成本, 市场价 × 机会成本比例)
+   * 底价 = 成本 × (1 + 最低利润率)；要价从目标利润逐轮向底价让步，信任度越高让得越多
+   */
+  private getPriceRange(session: NegotiationSession, company: AICompanyState): { ask: number; floor: number } {
+    const avgCost = inventoryManager.getGoodsStock(company.id, session.goodsId)?.avgCost ?? 0;
+    const costBasis = Math.max(avgCost, priceDiscoveryService.getPrice(session.goodsId) * OPPORTUNITY_COST_RATIO);
+
+    const trustFactor = 1 - company.relationshipWithPlayer.trust / 200;
+    const target = costBasis * (1 + PERSONALITY_TARGET_MARGIN[company.personality] * trustFactor);
+    const floor = costBasis * (1 + MIN_MARGIN);
+    const concession = Math.min(1, Math.max(0, session.rounds - 1) / (MAX_ROUNDS - 1));
+
+    return { ask: Math.max(floor, target - (target - floor) * concession), floor };
+  }
+
+  private appendMessage(
+    session: NegotiationSession,
+    senderId: string,
+    message: string,
+    currentTick: number,
+    terms?: NegotiationTerms
+  ): void {
+    session.messages.push({
+      senderId,
+      message,
+      timestamp: tickToGameTimestamp(currentTick),
+      ...(terms ? {
+        proposedTerms: {
+          quantityPerDelivery: terms.quantity,
+          pricePerUnit: terms.pricePerUnit,
+          ...(terms.duration ? { totalDeliveries: Math.max(1, Math.floor(terms.duration / NEGOTIATED_DELIVERY_INTERVAL)) } : {}),
+        },
+      } : {}),
+    });
+  }
+
+  /**
+   * 获取谈判会话（可按AI公司过滤）
+   */
+  getSessions(companyId?: string): NegotiationSession[] {
+    return Array.from(this.sessions.values()).filter(session => !companyId || session.companyId === companyId);
+  }
+
+  getSession(sessionId: string): NegotiationSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * 导出谈判状态（用于存档）
+   */
+  exportState(): NegotiationSnapshotState {
+    return {
+      sessions: Array.from(this.sessions.values()).map(session => structuredClone(session)),
+      sessionCounter: this.sessionCounter,
+    };
+  }
+
+  /**
+   * 从存档恢复谈判状态
+   */
+  importState(state: NegotiationSnapshotState): void {
+    this.sessions = new Map(state.sessions.map(session => [session.id, structuredClone(session)]));
+    this.sessionCounter = state.sessionCounter;
+    console.log(`[Negotiation] Restored ${this.sessions.size} negotiation sessions`);
+  }
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const negotiationService = worldScoped('negotiationService');
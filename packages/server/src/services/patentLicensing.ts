@@ -0,0 +1,580 @@
+/**
+ * Patent Licensing - 专利授权市场
+ *
+ * 公司可以向专利持有人申请授权（可附报价），持有人批准、拒绝或还价：
+ * - 玩家持有的专利：申请进入待处理列表，由玩家答复，超时未答复视为拒绝
+ * - AI 持有的专利：按性格立即答复（垄断者倾向拒绝，加价幅度随性格不同；敌意越高越容易拒绝）
+ * - 还价后由申请人接受或撤回；AI 申请人在授权费和使用费可承受时接受
+ *
+ * 批准后申请人一次性支付授权费，此后被授权人的建筑每使用专利生产方式产出一单位商品，
+ * 自动向持有人支付一笔专利使用费（GameLoop / AICompanyManager 生产时调用 chargeRoyalty）
+ *
+ * AI 公司定期为自己拥有相应建筑的他人专利提出授权申请，获得授权后立即改用专利生产方式
+ */
+
+import { GOODS_DATA, LicenseRequestStatus, AIPersonality } from '@scc/shared';
+import { researchService, type Patent } from './researchService.js';
+import { inventoryManager } from './inventoryManager.js';
+import { aiCompanyManager, type AICompanyState } from './aiCompanyManager.js';
+import { rng } from './rng.js';
+import { worldScoped } from './worldContext.js';
+
+/** 默认专利使用费占产出商品基准价格的比例 */
+const DEFAULT_ROYALTY_SHARE = 0.05;
+
+/** 玩家答复授权申请的期限（ticks） */
+export const LICENSE_REQUEST_TIMEOUT = 60;
+
+/** 报价低于要价的这个比例时，AI 持有人直接拒绝而不还价 */
+const COUNTER_THRESHOLD = 0.5;
+
+/** AI 每次检查时为每项可用专利提出申请的概率 */
+const AI_REQUEST_CHANCE = 0.1;
+
+/** AI 愿意支付的授权费上限（占现金比例） */
+const AI_MAX_FEE_SHARE = 0.1;
+
+/** AI 愿意支付的专利使用费上限（占产出商品基准价格比例） */
+const AI_MAX_ROYALTY_SHARE = 0.15;
+
+/** 保留的已结束申请数量 */
+const MAX_HISTORY = 100;
+
+/** AI 持有人的授权态度：拒绝概率和在默认条件上的加价 */
+const LICENSING_STANCE: Record<AIPersonality, { refuseChance: number; markup: number }> = {
+  [AIPersonality.Monopolist]: { refuseChance: 0.5, markup: 1.0 },
+  [AIPersonality.Innovator]: { refuseChance: 0.1, markup: 0.5 },
+  [AIPersonality.OldMoney]: { refuseChance: 0.2, markup: 0.3 },
+  [AIPersonality.TrendSurfer]: { refuseChance: 0.1, markup: 0.2 },
+  [AIPersonality.CostLeader]: { refuseChance: 0.2, markup: 0.2 },
+};
+
+/** 授权条件 */
+export interface LicenseTerms {
+  /** 一次性授权费 */
+  upfrontFee: number;
+  /** 每单位产出的专利使用费 */
+  royaltyPerUnit: number;
+}
+
+/** 报价 / 还价（未给出的条件按默认条件或对方报价） */
+export interface LicenseProposal {
+  upfrontFee?: number | undefined;
+  royaltyPerUnit?: number | undefined;
+}
+
+/** 授权申请 */
+export interface LicenseRequestRecord {
+  id: string;
+  patentId: string;
+  technologyId: string;
+  technologyName: string;
+  holderId: string;
+  requesterId: string;
+  /** 申请人报价 */
+  proposed: LicenseTerms;
+  /** 持有人还价 */
+  counter?: LicenseTerms;
+  status: LicenseRequestStatus;
+  createdAt: number;
+  respondedAt?: number;
+  /** 拒绝 / 撤回原因 */
+  reason?: string;
+}
+
+/** 生效的专利授权 */
+export interface PatentLicense {
+  patentId: string;
+  technologyName: string;
+  holderId: string;
+  licenseeId: string;
+  terms: LicenseTerms;
+  grantedAt: number;
+  /** 累计支付的专利使用费 */
+  royaltiesPaid: number;
+}
+
+/** 授权申请的状态变化 */
+export interface LicenseEvent {
+  type: 'requested' | 'approved' | 'rejected' | 'countered' | 'withdrawn';
+  request: LicenseRequestRecord;
+  tick: number;
+  message: string;
+}
+
+/** 授权操作结果 */
+export interface LicenseResult {
+  success: boolean;
+  request?: LicenseRequestRecord;
+  events?: LicenseEvent[];
+  error?: string;
+}
+
+/** 专利使用费收支 */
+export interface RoyaltyTotals {
+  income: number;
+  expense: number;
+}
+
+/** 专利授权存档数据 */
+export interface PatentLicensingSnapshotState {
+  requests: LicenseRequestRecord[];
+  licenses: PatentLicense[];
+}
+
+/**
+ * 专利授权市场
+ * 每个游戏世界一个实例
+ */
+export class PatentLicensing {
+  private requests = new Map<string, LicenseRequestRecord>();
+  /** `${patentId}:${licenseeId}` -> 授权 */
+  private licenses = new Map<string, PatentLicense>();
+  /** 上次 collectRoyalties 以来各公司的专利使用费收支 */
+  private royaltyTotals = new Map<string, RoyaltyTotals>();
+
+  /**
+   * 申请专利授权
+   * 持有人是 AI 时立即答复
+   */
+  requestLicense(requesterId: string, patentId: string, currentTick: number, proposal: LicenseProposal = {}): LicenseResult {
+    const patent = researchService.getPatent(patentId);
+    if (!patent || !researchService.isPatentActive(patent, currentTick)) {
+      return { success: false, error: '专利不存在或已失效' };
+    }
+    if (patent.holderId === requesterId || patent.licensees.includes(requesterId)) {
+      return { success: false, error: '已拥有此专利或授权' };
+    }
+    if (patent.isExclusive && patent.licensees.length > 0) {
+      return { success: false, error: '独占专利已授权给其他公司' };
+    }
+    const open = Array.from(this.requests.values()).some(r =>
+      r.patentId === patentId && r.requesterId === requesterId && isOpen(r));
+    if (open) {
+      return { success: false, error: '已有进行中的授权申请' };
+    }
+
+    const defaults = this.getDefaultTerms(patent);
+    const technology = researchService.getTechnology(patent.technologyId);
+    const request: LicenseRequestRecord = {
+      id: `license-${rng.nextId(12)}`,
+      patentId,
+      technologyId: patent.technologyId,
+      technologyName: technology?.nameZh ?? patent.technologyId,
+      holderId: patent.holderId,
+      requesterId,
+      proposed: {
+        upfrontFee: Math.max(0, proposal.upfrontFee ?? defaults.upfrontFee),
+        royaltyPerUnit: Math.max(0, proposal.royaltyPerUnit ?? defaults.royaltyPerUnit),
+      },
+      status: LicenseRequestStatus.Pending,
+      createdAt: currentTick,
+    };
+    this.requests.set(request.id, request);
+
+    const events: LicenseEvent[] = [this.createEvent('requested', request, currentTick,
+      `${companyName(requesterId)} 申请授权专利「${request.technologyName}」`)];
+
+    const aiHolder = aiCompanyManager.getCompany(patent.holderId);
+    if (aiHolder) {
+      events.push(this.aiHolderRespond(aiHolder, request, patent, currentTick));
+    }
+
+    this.pruneHistory();
+    return { success: true, request, events };
+  }
+
+  /**
+   * 持有人答复授权申请：按申请人报价批准、拒绝或还价
+   */
+  respond(
+    holderId: string,
+    requestId: string,
+    decision: 'approve' | 'reject' | 'counter',
+    currentTick: number,
+    counter: LicenseProposal = {}
+  ): LicenseResult {
+    const request = this.requests.get(requestId);
+    if (request?.holderId !== holderId) {
+      return { success: false, error: '授权申请不存在' };
+    }
+    if (request.status !== LicenseRequestStatus.Pending) {
+      return { success: false, error: '该申请不在待答复状态' };
+    }
+
+    let event: LicenseEvent;
+    if (decision === 'approve') {
+      const granted = this.grant(request, request.proposed, currentTick);
+      if ('error' in granted) return { success: false, error: granted.error };
+      event = granted.event;
+    } else if (decision === 'reject') {
+      event = this.reject(request, '持有人拒绝授权', currentTick);
+    } else {
+      event = this.counter(request, {
+        upfrontFee: Math.max(0, counter.upfrontFee ?? request.proposed.upfrontFee),
+        royaltyPerUnit: Math.max(0, counter.royaltyPerUnit ?? request.proposed.royaltyPerUnit),
+      }, currentTick);
+    }
+
+    const events = [event];
+    // AI 申请人立即决定是否接受还价
+    const aiRequester = aiCompanyManager.getCompany(request.requesterId);
+    if (decision === 'counter' && request.counter && aiRequester) {
+      events.push(this.aiRequesterConsiderCounter(aiRequester, request, request.counter, currentTick));
+    }
+    return { success: true, request, events };
+  }
+
+  /**
+   * 申请人接受还价
+   */
+  acceptCounter(requesterId: string, requestId: string, currentTick: number): LicenseResult {
+    const request = this.requests.get(requestId);
+    if (request?.requesterId !== requesterId) {
+      return { success: false, error: '授权申请不存在' };
+    }
+    if (request.status !== LicenseRequestStatus.Negotiating || !request.counter) {
+      return { success: false, error: '该申请没有待接受的还价' };
+    }
+    const granted = this.grant(request, request.counter, currentTick);
+    if ('error' in granted) return { success: false, error: granted.error };
+    return { success: true, request, events: [granted.event] };
+  }
+
+  /**
+   * 申请人撤回申请
+   */
+  withdraw(requesterId: string, requestId: string, currentTick: number): LicenseResult {
+    const request = this.requests.get(requestId);
+    if (request?.requesterId !== requesterId) {
+      return { success: false, error: '授权申请不存在' };
+    }
+    if (!isOpen(request)) {
+      return { success: false, error: '该申请已结束' };
+    }
+    request.status = LicenseRequestStatus.Withdrawn;
+    request.respondedAt = currentTick;
+    request.reason = '申请人撤回';
+    const event = this.createEvent('withdrawn', request, currentTick,
+      `${companyName(requesterId)} 撤回了专利「${request.technologyName}」的授权申请`);
+    return { success: true, request, events: [event] };
+  }
+
+  /**
+   * 定期处理：玩家超时未答复的申请视为拒绝；AI 为可用的他人专利提出申请
+   */
+  processTick(currentTick: number): LicenseEvent[] {
+    const events: LicenseEvent[] = [];
+
+    for (const request of this.requests.values()) {
+      if (request.status === LicenseRequestStatus.Pending && currentTick - request.createdAt >= LICENSE_REQUEST_TIMEOUT) {
+        events.push(this.reject(request, '超时未答复', currentTick));
+      }
+    }
+
+    for (const patent of researchService.getState().patents.values()) {
+      if (!researchService.isPatentActive(patent, currentTick)) continue;
+      if (patent.isExclusive && patent.licensees.length > 0) continue;
+      const buildingIds = this.getUnlockedBuildingIds(patent);
+
+      for (const company of aiCompanyManager.getCompanies().values()) {
+        if (company.id === patent.holderId || patent.licensees.includes(company.id)) continue;
+        if (!company.buildings.some(b => buildingIds.has(b.definitionId))) continue;
+        if (rng.next() >= AI_REQUEST_CHANCE) continue;
+
+        // 报价为默认条件的 70%~100%
+        const defaults = this.getDefaultTerms(patent);
+        const share = 0.7 + rng.next() * 0.3;
+        if (defaults.upfrontFee * share > company.cash * AI_MAX_FEE_SHARE) continue;
+        const result = this.requestLicense(company.id, patent.id, currentTick, {
+          upfrontFee: Math.round(defaults.upfrontFee * share),
+          royaltyPerUnit: roundFee(defaults.royaltyPerUnit * share),
+        });
+        if (result.success) {
+          events.push(...(result.events ?? []));
+        }
+      }
+    }
+
+    this.pruneHistory();
+    return events;
+  }
+
+  /**
+   * 被授权人使用专利生产方式产出商品时支付专利使用费
+   * @returns 实际支付的金额（持有人自用或没有授权时为 0）
+   */
+  chargeRoyalty(companyId: string, methodId: string, units: number, currentTick: number): number {
+    const patent = researchService.getPatentForMethod(methodId);
+    if (!patent || patent.holderId === companyId || !researchService.isPatentActive(patent, currentTick)) return 0;
+    const license = this.licenses.get(licenseKey(patent.id, companyId));
+    if (!license || license.terms.royaltyPerUnit <= 0) return 0;
+
+    const amount = Math.min(units * license.terms.royaltyPerUnit, inventoryManager.getCash(companyId));
+    if (amount <= 0) return 0;
+
+    inventoryManager.deductCash(companyId, amount, currentTick, 'patent_royalty');
+    inventoryManager.addCash(license.holderId, amount, currentTick, 'patent_royalty');
+    license.royaltiesPaid += amount;
+    this.getTotals(companyId).expense += amount;
+    this.getTotals(license.holderId).income += amount;
+    return amount;
+  }
+
+  /**
+   * 取出上次调用以来公司的专利使用费收支
+   */
+  collectRoyalties(companyId: string): RoyaltyTotals {
+    const totals = this.royaltyTotals.get(companyId) ?? { income: 0, expense: 0 };
+    this.royaltyTotals.delete(companyId);
+    return totals;
+  }
+
+  /**
+   * 专利的默认授权条件：授权费为专利登记的授权费，使用费按产出商品基准价格计算
+   */
+  getDefaultTerms(patent: Patent): LicenseTerms {
+    return {
+      upfrontFee: patent.licenseFee,
+      royaltyPerUnit: roundFee(getOutputBasePrice(patent.technologyId) * DEFAULT_ROYALTY_SHARE),
+    };
+  }
+
+  /**
+   * 与公司有关的授权申请（作为持有人或申请人），新的在前
+   */
+  getRequests(companyId: string): LicenseRequestRecord[] {
+    return Array.from(this.requests.values())
+      .filter(r => r.holderId === companyId || r.requesterId === companyId)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * 与公司有关的授权（作为持有人或被授权人）
+   */
+  getLicenses(companyId: string): PatentLicense[] {
+    return Array.from(this.licenses.values())
+      .filter(l => l.holderId === companyId || l.licenseeId === companyId);
+  }
+
+  /**
+   * 导出状态（用于存档）
+   */
+  exportState(): PatentLicensingSnapshotState {
+    return structuredClone({
+      requests: Array.from(this.requests.values()),
+      licenses: Array.from(this.licenses.values()),
+    });
+  }
+
+  /**
+   * 从存档恢复状态
+   */
+  importState(state: PatentLicensingSnapshotState): void {
+    const restored = structuredClone(state);
+    this.requests = new Map(restored.requests.map(r => [r.id, r]));
+    this.licenses = new Map(restored.licenses.map(l => [licenseKey(l.patentId, l.licenseeId), l]));
+    this.royaltyTotals.clear();
+  }
+
+  /**
+   * 批准授权：申请人支付授权费，登记被授权人；AI 被授权人改用专利生产方式
+   */
+  private grant(request: LicenseRequestRecord, terms: LicenseTerms, currentTick: number): { event: LicenseEvent } | { error: string } {
+    const patent = researchService.getPatent(request.patentId);
+    if (!patent || !researchService.isPatentActive(patent, currentTick)) {
+      return { error: '专利不存在或已失效' };
+    }
+    if (patent.isExclusive && patent.licensees.some(id => id !== request.requesterId)) {
+      return { error: '独占专利已授权给其他公司' };
+    }
+    if (inventoryManager.getCash(request.requesterId) < terms.upfrontFee) {
+      return { error: '资金不足以支付授权费' };
+    }
+
+    if (terms.upfrontFee > 0) {
+      inventoryManager.deductCash(request.requesterId, terms.upfrontFee, currentTick, 'patent_license');
+      inventoryManager.addCash(request.holderId, terms.upfrontFee, currentTick, 'patent_license');
+    }
+    researchService.grantLicense(request.patentId, request.requesterId);
+    this.licenses.set(licenseKey(request.patentId, request.requesterId), {
+      patentId: request.patentId,
+      technologyName: request.technologyName,
+      holderId: request.holderId,
+      licenseeId: request.requesterId,
+      terms: { ...terms },
+      grantedAt: currentTick,
+      royaltiesPaid: 0,
+    });
+
+    request.status = LicenseRequestStatus.Approved;
+    request.respondedAt = currentTick;
+
+    if (aiCompanyManager.getCompany(request.requesterId)) {
+      this.adoptLicensedMethods(request.requesterId, patent);
+    }
+
+    console.log(`[PatentLicensing] ${request.requesterId} 获得专利 ${request.patentId} 授权：授权费 ${terms.upfrontFee}，使用费 ${terms.royaltyPerUnit}/单位`);
+    return {
+      event: this.createEvent('approved', request, currentTick,
+        `${companyName(request.holderId)} 将专利「${request.technologyName}」授权给 ${companyName(request.requesterId)}`
+        + `（授权费 ${formatFee(terms.upfrontFee)}，使用费 ${formatFee(terms.royaltyPerUnit)}/单位）`),
+    };
+  }
+
+  private reject(request: LicenseRequestRecord, reason: string, currentTick: number): LicenseEvent {
+    request.status = LicenseRequestStatus.Rejected;
+    request.respondedAt = currentTick;
+    request.reason = reason;
+    return this.createEvent('rejected', request, currentTick,
+      `专利「${request.technologyName}」的授权申请被拒绝：${reason}`);
+  }
+
+  private counter(request: LicenseRequestRecord, terms: LicenseTerms, currentTick: number): LicenseEvent {
+    request.status = LicenseRequestStatus.Negotiating;
+    request.respondedAt = currentTick;
+    request.counter = terms;
+    return this.createEvent('countered', request, currentTick,
+      `${companyName(request.holderId)} 对专利「${request.technologyName}」还价：`
+      + `授权费 ${formatFee(terms.upfrontFee)}，使用费 ${formatFee(terms.royaltyPerUnit)}/单位`);
+  }
+
+  /**
+   * AI 持有人按性格答复：可能直接拒绝；报价达到要价则批准，差距不大则按要价还价
+   */
+  private aiHolderRespond(holder: AICompanyState, request: LicenseRequestRecord, patent: Patent, currentTick: number): LicenseEvent {
+    const stance = LICENSING_STANCE[holder.personality];
+    // 对玩家的敌意越高越容易拒绝
+    const hostility = aiCompanyManager.getCompany(request.requesterId) ? 0 : holder.relationshipWithPlayer.hostility / 200;
+    if (rng.next() < stance.refuseChance + hostility) {
+      return this.reject(request, `${holder.name} 不愿授权`, currentTick);
+    }
+
+    const defaults = this.getDefaultTerms(patent);
+    const asking: LicenseTerms = {
+      upfrontFee: Math.round(defaults.upfrontFee * (1 + stance.markup)),
+      royaltyPerUnit: roundFee(defaults.royaltyPerUnit * (1 + stance.markup)),
+    };
+    const offerRatio = Math.min(
+      ratio(request.proposed.upfrontFee, asking.upfrontFee),
+      ratio(request.proposed.royaltyPerUnit, asking.royaltyPerUnit),
+    );
+
+    if (offerRatio >= 1) {
+      const granted = this.grant(request, request.proposed, currentTick);
+      return 'error' in granted ? this.reject(request, granted.error, currentTick) : granted.event;
+    }
+    if (offerRatio >= COUNTER_THRESHOLD) {
+      return this.counter(request, asking, currentTick);
+    }
+    return this.reject(request, '报价过低', currentTick);
+  }
+
+  /**
+   * AI 申请人在授权费和使用费可承受时接受还价，否则撤回
+   */
+  private aiRequesterConsiderCounter(
+    requester: AICompanyState,
+    request: LicenseRequestRecord,
+    counter: LicenseTerms,
+    currentTick: number
+  ): LicenseEvent {
+    const basePrice = getOutputBasePrice(request.technologyId);
+
+    const affordable = counter.upfrontFee <= requester.cash * AI_MAX_FEE_SHARE
+      && counter.royaltyPerUnit <= basePrice * AI_MAX_ROYALTY_SHARE;
+    if (affordable) {
+      const granted = this.grant(request, counter, currentTick);
+      if ('event' in granted) return granted.event;
+    }
+
+    request.status = LicenseRequestStatus.Withdrawn;
+    request.respondedAt = currentTick;
+    request.reason = '申请人无法接受还价';
+    return this.createEvent('withdrawn', request, currentTick,
+      `${requester.name} 放弃了专利「${request.technologyName}」的授权`);
+  }
+
+  /**
+   * AI 被授权人把对应建筑切换到专利生产方式
+   */
+  private adoptLicensedMethods(companyId: string, patent: Patent): void {
+    const company = aiCompanyManager.getCompany(companyId);
+    const unlocks = researchService.getTechnology(patent.technologyId)?.productionMethodUnlocks ?? [];
+    if (!company) return;
+
+    for (const unlock of unlocks) {
+      for (const building of company.buildings) {
+        if (building.definitionId === unlock.buildingId && building.currentMethodId !== unlock.method.id) {
+          building.currentMethodId = unlock.method.id;
+          building.productionProgress = 0;
+        }
+      }
+    }
+  }
+
+  private getUnlockedBuildingIds(patent: Patent): Set<string> {
+    const unlocks = researchService.getTechnology(patent.technologyId)?.productionMethodUnlocks ?? [];
+    return new Set(unlocks.map(unlock => unlock.buildingId));
+  }
+
+  private getTotals(companyId: string): RoyaltyTotals {
+    let totals = this.royaltyTotals.get(companyId);
+    if (!totals) {
+      totals = { income: 0, expense: 0 };
+      this.royaltyTotals.set(companyId, totals);
+    }
+    return totals;
+  }
+
+  private createEvent(type: LicenseEvent['type'], request: LicenseRequestRecord, tick: number, message: string): LicenseEvent {
+    return { type, request: { ...request }, tick, message };
+  }
+
+  /**
+   * 只保留最近的已结束申请
+   */
+  private pruneHistory(): void {
+    const closed = Array.from(this.requests.values())
+      .filter(r => !isOpen(r))
+      .sort((a, b) => (a.respondedAt ?? a.createdAt) - (b.respondedAt ?? b.createdAt));
+    for (const request of closed.slice(0, Math.max(0, closed.length - MAX_HISTORY))) {
+      this.requests.delete(request.id);
+    }
+  }
+}
+
+/** 技术解锁的（第一个）生产方式主产品的基准价格 */
+function getOutputBasePrice(technologyId: string): number {
+  const technology = researchService.getTechnology(technologyId);
+  const outputId = technology?.productionMethodUnlocks?.[0]?.method.recipe.outputs[0]?.goodsId;
+  return GOODS_DATA.find(g => g.id === outputId)?.basePrice ?? 0;
+}
+
+function isOpen(request: LicenseRequestRecord): boolean {
+  return request.status === LicenseRequestStatus.Pending || request.status === LicenseRequestStatus.Negotiating;
+}
+
+function licenseKey(patentId: string, licenseeId: string): string {
+  return `${patentId}:${licenseeId}`;
+}
+
+function ratio(offered: number, asking: number): number {
+  return asking > 0 ? offered / asking : 1;
+}
+
+/** 使用费保留两位小数 */
+function roundFee(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatFee(value: number): string {
+  return `¥${value.toLocaleString('zh-CN', { maximumFractionDigits: 2 })}`;
+}
+
+function companyName(companyId: string): string {
+  return aiCompanyManager.getCompany(companyId)?.name ?? '玩家公司';
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const patentLicensing = worldScoped('patentLicensing');
@@ -0,0 +1,674 @@
+/**
+ * Patent Litigation - 专利挑战与侵权诉讼
+ *
+ * 专利无效挑战：公司支付诉讼费向他人专利发起挑战，专利进入挑战状态（审理期间仍受保护），
+ * 审理结束时按在先技术的关键词相似度（ResearchService.findPriorArt）决定宣告无效的概率；
+ * 维持有效时挑战方还要承担持有人的部分诉讼费用
+ *
+ * 侵权检测：公司的建筑使用受专利保护、但按 canUseTechnology 无权使用的生产方式产出时，
+ * 记录侵权产量（GameLoop / AICompanyManager 生产时调用 recordProduction）并立案：
+ * - AI 持有人立即起诉，攻击性高的申请禁令
+ * - 玩家持有人收到侵权通知后选择起诉（赔偿 / 禁令）或放弃，超时视为放弃
+ * 判决时专利仍有效则持有人胜诉：侵权方按侵权产量赔偿（默认使用费的数倍加授权费），
+ * 禁令还会强制侵权建筑改回默认生产方式，之后不得再强行使用该专利
+ *
+ * 持有人放弃追究（含超时）或只判赔偿后视为默许该公司继续使用，不再重复立案和通知，
+ * 直到持有人重新追究（reopenCase）
+ *
+ * 攻击性高的 AI 把诉讼当作竞争手段：挑战竞争对手挡路的专利、被起诉时反诉专利无效，
+ * 攻击性极高的 AI 甚至会不经授权直接使用他人专利
+ */
+
+import { BUILDINGS_DATA } from '@scc/shared';
+import type { BuildingInstance } from './gameLoop.js';
+import { researchService, type Patent } from './researchService.js';
+import { patentLicensing } from './patentLicensing.js';
+import { inventoryManager } from './inventoryManager.js';
+import { aiCompanyManager } from './aiCompanyManager.js';
+import { difficultySettings } from './difficulty.js';
+import { rng } from './rng.js';
+import { worldScoped } from './worldContext.js';
+
+/** 专利挑战的基础诉讼费（另加专利登记的授权费） */
+const CHALLENGE_BASE_COST = 50000;
+
+/** 专利挑战的审理时间（ticks） */
+export const CHALLENGE_DURATION = 30;
+
+/** 挑战失败时挑战方承担的持有人诉讼费用（占诉讼费比例） */
+const CHALLENGE_LOSER_COST_SHARE = 0.5;
+
+/** 宣告无效的基础概率和随在先技术相似度的增量、上限 */
+const INVALIDATION_BASE_CHANCE = 0.1;
+const INVALIDATION_SIMILARITY_WEIGHT = 0.8;
+const INVALIDATION_MAX_CHANCE = 0.9;
+
+/** 侵权诉讼的审理时间（ticks） */
+export const CASE_DURATION = 20;
+
+/** 玩家处理侵权通知的期限（ticks） */
+const DETECTED_CASE_TIMEOUT = 60;
+
+/** 侵权赔偿为默认使用费的倍数 */
+const DAMAGES_MULTIPLIER = 3;
+
+/** AI 发起专利挑战的攻击性门槛、每次检查的概率系数和诉讼费上限（占现金比例） */
+const AI_CHALLENGE_AGGRESSIVENESS = 0.6;
+const AI_CHALLENGE_CHANCE = 0.05;
+const AI_MAX_CHALLENGE_COST_SHARE = 0.05;
+
+/** AI 被起诉时反诉专利无效的攻击性门槛 */
+const AI_COUNTER_CHALLENGE_AGGRESSIVENESS = 0.4;
+
+/** AI 持有人申请禁令的攻击性门槛 */
+const AI_INJUNCTION_AGGRESSIVENESS = 0.6;
+
+/** AI 不经授权直接使用他人专利的攻击性门槛和每次检查的概率 */
+const AI_INFRINGE_AGGRESSIVENESS = 0.8;
+const AI_INFRINGE_CHANCE = 0.02;
+
+/** 保留的已结束挑战和案件数量 */
+const MAX_HISTORY = 100;
+
+/** 专利挑战状态 */
+export type PatentChallengeStatus = 'pending' | 'upheld' | 'invalidated';
+
+/** 专利无效挑战 */
+export interface PatentChallenge {
+  id: string;
+  patentId: string;
+  technologyName: string;
+  holderId: string;
+  challengerId: string;
+  /** 挑战方支付的诉讼费 */
+  cost: number;
+  filedAt: number;
+  resolvesAt: number;
+  status: PatentChallengeStatus;
+  /** 审理认定的最相近在先技术 */
+  priorArt?: { technologyName: string; similarity: number };
+  resolvedAt?: number;
+}
+
+/** 侵权救济：赔偿 / 赔偿并禁令 */
+export type InfringementRemedy = 'damages' | 'injunction';
+
+/** 侵权案件状态：已发现（待持有人决定）/ 审理中 / 持有人胜诉 / 驳回 / 持有人放弃 */
+export type InfringementCaseStatus = 'detected' | 'filed' | 'won' | 'dismissed' | 'dropped';
+
+/** 侵权案件 */
+export interface InfringementCase {
+  id: string;
+  patentId: string;
+  technologyName: string;
+  holderId: string;
+  infringerId: string;
+  remedy: InfringementRemedy;
+  status: InfringementCaseStatus;
+  /** 累计侵权产量（立案后继续侵权的产量也计入） */
+  infringingUnits: number;
+  detectedAt: number;
+  filedAt?: number;
+  resolvesAt?: number;
+  /** 判决赔偿（实际支付以侵权方现金为限） */
+  damages?: number;
+  resolvedAt?: number;
+  reason?: string;
+}
+
+/** 禁令 */
+export interface Injunction {
+  patentId: string;
+  companyId: string;
+  issuedAt: number;
+}
+
+/** 默许：持有人放弃追究或胜诉只判赔偿后，不再对该公司使用该专利立案 */
+export interface InfringementWaiver {
+  patentId: string;
+  holderId: string;
+  companyId: string;
+  /** 放弃或判决的案件 */
+  caseId: string;
+  waivedAt: number;
+}
+
+/** 诉讼事件 */
+export interface LitigationEvent {
+  type: 'challenge_filed' | 'challenge_resolved' | 'infringement_detected' | 'case_filed' | 'case_resolved';
+  /** 当事方 */
+  parties: string[];
+  tick: number;
+  message: string;
+}
+
+/** 诉讼操作结果 */
+export interface LitigationResult {
+  success: boolean;
+  challenge?: PatentChallenge;
+  infringementCase?: InfringementCase;
+  events?: LitigationEvent[];
+  error?: string;
+}
+
+/** 专利诉讼存档数据 */
+export interface PatentLitigationSnapshotState {
+  challenges: PatentChallenge[];
+  cases: InfringementCase[];
+  injunctions: Injunction[];
+  waivers: InfringementWaiver[];
+}
+
+/**
+ * 专利诉讼
+ * 每个游戏世界一个实例
+ */
+export class PatentLitigation {
+  private challenges = new Map<string, PatentChallenge>();
+  private cases = new Map<string, InfringementCase>();
+  /** `${patentId}:${companyId}` -> 禁令 */
+  private injunctions = new Map<string, Injunction>();
+  /** `${patentId}:${companyId}` -> 默许 */
+  private waivers = new Map<string, InfringementWaiver>();
+  /** recordProduction 产生、尚未被 processTick 取走的事件 */
+  private pendingEvents: LitigationEvent[] = [];
+
+  /**
+   * 发起专利无效挑战
+   */
+  challengePatent(challengerId: string, patentId: string, currentTick: number): LitigationResult {
+    const patent = researchService.getPatent(patentId);
+    if (!patent || !researchService.isPatentActive(patent, currentTick)) {
+      return { success: false, error: '专利不存在或已失效' };
+    }
+    if (patent.holderId === challengerId) {
+      return { success: false, error: '不能挑战自己的专利' };
+    }
+    if (this.hasPendingChallenge(patentId, challengerId)) {
+      return { success: false, error: '已在挑战该专利' };
+    }
+
+    const cost = this.getChallengeCost(patent);
+    if (inventoryManager.getCash(challengerId) < cost) {
+      return { success: false, error: '资金不足以支付诉讼费' };
+    }
+
+    inventoryManager.deductCash(challengerId, cost, currentTick, 'patent_challenge');
+    researchService.markPatentChallenged(patentId, challengerId);
+
+    const challenge: PatentChallenge = {
+      id: `challenge-${rng.nextId(12)}`,
+      patentId,
+      technologyName: technologyName(patent),
+      holderId: patent.holderId,
+      challengerId,
+      cost,
+      filedAt: currentTick,
+      resolvesAt: currentTick + CHALLENGE_DURATION,
+      status: 'pending',
+    };
+    this.challenges.set(challenge.id, challenge);
+
+    console.log(`[PatentLitigation] ${challengerId} 挑战专利 ${patentId}，诉讼费 ${cost}`);
+    return {
+      success: true,
+      challenge,
+      events: [{
+        type: 'challenge_filed',
+        parties: [challengerId, patent.holderId],
+        tick: currentTick,
+        message: `⚖️ ${companyName(challengerId)} 请求宣告 ${companyName(patent.holderId)} 的专利「${challenge.technologyName}」无效`,
+      }],
+    };
+  }
+
+  /**
+   * 挑战专利的诉讼费
+   */
+  getChallengeCost(patent: Patent): number {
+    return CHALLENGE_BASE_COST + patent.licenseFee;
+  }
+
+  /**
+   * 记录公司使用生产方式的产量；无权使用受保护的生产方式时记为侵权
+   */
+  recordProduction(companyId: string, methodId: string, units: number, currentTick: number): void {
+    if (units <= 0) return;
+    const patent = researchService.getPatentForMethod(methodId);
+    if (!patent || patent.holderId === companyId || !researchService.isPatentActive(patent, currentTick)) return;
+    if (researchService.canUseTechnology(patent.technologyId, companyId, currentTick)) return;
+    if (this.waivers.has(patentPairKey(patent.id, companyId))) return;
+
+    const open = Array.from(this.cases.values()).find(c =>
+      c.patentId === patent.id && c.infringerId === companyId && (c.status === 'detected' || c.status === 'filed'));
+    if (open) {
+      open.infringingUnits += units;
+      return;
+    }
+
+    const infringementCase: InfringementCase = {
+      id: `case-${rng.nextId(12)}`,
+      patentId: patent.id,
+      technologyName: technologyName(patent),
+      holderId: patent.holderId,
+      infringerId: companyId,
+      remedy: 'damages',
+      status: 'detected',
+      infringingUnits: units,
+      detectedAt: currentTick,
+    };
+    this.cases.set(infringementCase.id, infringementCase);
+    console.log(`[PatentLitigation] 发现侵权：${companyId} 使用专利 ${patent.id}`);
+
+    this.pendingEvents.push({
+      type: 'infringement_detected',
+      parties: [patent.holderId, companyId],
+      tick: currentTick,
+      message: `🔍 发现 ${companyName(companyId)} 未经授权使用专利「${infringementCase.technologyName}」`,
+    });
+
+    // AI 持有人立即起诉，攻击性高的申请禁令
+    const holder = aiCompanyManager.getCompany(patent.holderId);
+    if (holder) {
+      const remedy = aggressiveness(holder.id) >= AI_INJUNCTION_AGGRESSIVENESS ? 'injunction' : 'damages';
+      this.pendingEvents.push(...this.file(infringementCase, remedy, currentTick));
+    }
+  }
+
+  /**
+   * 持有人对已发现的侵权提起诉讼
+   */
+  fileSuit(holderId: string, caseId: string, remedy: InfringementRemedy, currentTick: number): LitigationResult {
+    const infringementCase = this.cases.get(caseId);
+    if (infringementCase?.holderId !== holderId) {
+      return { success: false, error: '侵权案件不存在' };
+    }
+    if (infringementCase.status !== 'detected') {
+      return { success: false, error: '该案件已起诉或已结束' };
+    }
+    return { success: true, infringementCase, events: this.file(infringementCase, remedy, currentTick) };
+  }
+
+  /**
+   * 持有人放弃追究已发现的侵权
+   */
+  dropCase(holderId: string, caseId: string, currentTick: number): LitigationResult {
+    const infringementCase = this.cases.get(caseId);
+    if (infringementCase?.holderId !== holderId) {
+      return { success: false, error: '侵权案件不存在' };
+    }
+    if (infringementCase.status !== 'detected') {
+      return { success: false, error: '该案件已起诉或已结束' };
+    }
+    this.close(infringementCase, 'dropped', currentTick, '持有人放弃追究');
+    return { success: true, infringementCase };
+  }
+
+  /**
+   * 持有人撤回默许，重新追究公司使用专利（之后的侵权产量重新立案）
+   * @param caseId 放弃或判决赔偿的案件
+   */
+  reopenCase(holderId: string, caseId: string, currentTick: number): LitigationResult {
+    const waiver = Array.from(this.waivers.values()).find(w => w.caseId === caseId && w.holderId === holderId);
+    if (!waiver) {
+      return { success: false, error: '该案件没有可撤回的默许' };
+    }
+    this.waivers.delete(patentPairKey(waiver.patentId, waiver.companyId));
+
+    console.log(`[PatentLitigation] ${holderId} 在 tick ${currentTick} 重新追究 ${waiver.companyId} 使用专利 ${waiver.patentId}`);
+    const infringementCase = this.cases.get(caseId);
+    return infringementCase ? { success: true, infringementCase } : { success: true };
+  }
+
+  /**
+   * 公司是否被禁令禁止使用某生产方式（专利失效后禁令随之失效）
+   */
+  isEnjoined(companyId: string, methodId: string, currentTick: number): boolean {
+    const patent = researchService.getPatentForMethod(methodId);
+    return !!patent
+      && this.injunctions.has(patentPairKey(patent.id, companyId))
+      && researchService.isPatentActive(patent, currentTick);
+  }
+
+  /**
+   * 定期处理：审结到期的挑战和案件，处理玩家超时未决定的侵权通知，AI 发起挑战或直接侵权
+   * @param playerCompanyId 玩家公司（禁令需要改回玩家建筑的生产方式）
+   */
+  processTick(currentTick: number, playerCompanyId: string, playerBuildings: BuildingInstance[]): LitigationEvent[] {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+
+    for (const challenge of this.challenges.values()) {
+      if (challenge.status === 'pending' && currentTick >= challenge.resolvesAt) {
+        events.push(this.resolveChallenge(challenge, currentTick));
+      }
+    }
+
+    for (const infringementCase of this.cases.values()) {
+      if (infringementCase.status === 'filed' && currentTick >= (infringementCase.resolvesAt ?? currentTick)) {
+        events.push(this.resolveCase(infringementCase, currentTick, playerCompanyId, playerBuildings));
+      } else if (infringementCase.status === 'detected' && currentTick - infringementCase.detectedAt >= DETECTED_CASE_TIMEOUT) {
+        this.close(infringementCase, 'dropped', currentTick, '超时未起诉');
+      }
+    }
+
+    events.push(...this.aiUseLitigation(currentTick));
+
+    this.pruneHistory();
+    return events;
+  }
+
+  /**
+   * 与公司有关的专利挑战（作为挑战方或持有人），新的在前
+   */
+  getChallenges(companyId: string): PatentChallenge[] {
+    return Array.from(this.challenges.values())
+      .filter(c => c.holderId === companyId || c.challengerId === companyId)
+      .sort((a, b) => b.filedAt - a.filedAt);
+  }
+
+  /**
+   * 与公司有关的侵权案件（作为持有人或侵权方），新的在前
+   */
+  getCases(companyId: string): InfringementCase[] {
+    return Array.from(this.cases.values())
+      .filter(c => c.holderId === companyId || c.infringerId === companyId)
+      .sort((a, b) => b.detectedAt - a.detectedAt);
+  }
+
+  /**
+   * 针对公司的禁令
+   */
+  getInjunctions(companyId: string): Injunction[] {
+    return Array.from(this.injunctions.values()).filter(i => i.companyId === companyId);
+  }
+
+  /**
+   * 与公司有关的默许（作为持有人或被默许方）
+   */
+  getWaivers(companyId: string): InfringementWaiver[] {
+    return Array.from(this.waivers.values()).filter(w => w.holderId === companyId || w.companyId === companyId);
+  }
+
+  /**
+   * 导出状态（用于存档）
+   */
+  exportState(): PatentLitigationSnapshotState {
+    return structuredClone({
+      challenges: Array.from(this.challenges.values()),
+      cases: Array.from(this.cases.values()),
+      injunctions: Array.from(this.injunctions.values()),
+      waivers: Array.from(this.waivers.values()),
+    });
+  }
+
+  /**
+   * 从存档恢复状态
+   */
+  importState(state: PatentLitigationSnapshotState): void {
+    const restored = structuredClone(state);
+    this.challenges = new Map(restored.challenges.map(c => [c.id, c]));
+    this.cases = new Map(restored.cases.map(c => [c.id, c]));
+    this.injunctions = new Map(restored.injunctions.map(i => [patentPairKey(i.patentId, i.companyId), i]));
+    this.waivers = new Map(restored.waivers.map(w => [patentPairKey(w.patentId, w.companyId), w]));
+    this.pendingEvents = [];
+  }
+
+  /**
+   * 立案：进入审理；AI 被告按攻击性反诉专利无效
+   */
+  private file(infringementCase: InfringementCase, remedy: InfringementRemedy, currentTick: number): LitigationEvent[] {
+    infringementCase.status = 'filed';
+    infringementCase.remedy = remedy;
+    infringementCase.filedAt = currentTick;
+    infringementCase.resolvesAt = currentTick + CASE_DURATION;
+
+    const events: LitigationEvent[] = [{
+      type: 'case_filed',
+      parties: [infringementCase.holderId, infringementCase.infringerId],
+      tick: currentTick,
+      message: `⚖️ ${companyName(infringementCase.holderId)} 起诉 ${companyName(infringementCase.infringerId)} 侵犯专利「${infringementCase.technologyName}」`
+        + (remedy === 'injunction' ? '，并申请禁令' : ''),
+    }];
+
+    const defendant = aiCompanyManager.getCompany(infringementCase.infringerId);
+    if (defendant && aggressiveness(defendant.id) >= AI_COUNTER_CHALLENGE_AGGRESSIVENESS
+        && !this.hasPendingChallenge(infringementCase.patentId, defendant.id)) {
+      const counter = this.challengePatent(defendant.id, infringementCase.patentId, currentTick);
+      events.push(...(counter.events ?? []));
+    }
+    return events;
+  }
+
+  /**
+   * 审结挑战：按在先技术相似度决定是否宣告无效
+   */
+  private resolveChallenge(challenge: PatentChallenge, currentTick: number): LitigationEvent {
+    const priorArt = researchService.findPriorArt(challenge.patentId);
+    const similarity = priorArt?.similarity ?? 0;
+    const chance = Math.min(INVALIDATION_MAX_CHANCE, INVALIDATION_BASE_CHANCE + similarity * INVALIDATION_SIMILARITY_WEIGHT);
+    const invalidated = rng.next() < chance;
+
+    researchService.resolvePatentChallenge(challenge.patentId, challenge.challengerId, invalidated);
+    challenge.status = invalidated ? 'invalidated' : 'upheld';
+    challenge.resolvedAt = currentTick;
+    if (priorArt) {
+      challenge.priorArt = { technologyName: priorArt.technologyName, similarity: priorArt.similarity };
+    }
+
+    const parties = [challenge.challengerId, challenge.holderId];
+    if (invalidated) {
+      // 专利失效，未审结的侵权案件一并驳回，禁令随之失效
+      for (const infringementCase of this.cases.values()) {
+        if (infringementCase.patentId === challenge.patentId
+            && (infringementCase.status === 'detected' || infringementCase.status === 'filed')) {
+          this.close(infringementCase, 'dismissed', currentTick, '专利已被宣告无效');
+        }
+      }
+      for (const [key, injunction] of this.injunctions) {
+        if (injunction.patentId === challenge.patentId) this.injunctions.delete(key);
+      }
+      for (const [key, waiver] of this.waivers) {
+        if (waiver.patentId === challenge.patentId) this.waivers.delete(key);
+      }
+
+      console.log(`[PatentLitigation] 专利 ${challenge.patentId} 被宣告无效`);
+      return {
+        type: 'challenge_resolved',
+        parties,
+        tick: currentTick,
+        message: `⚖️ 专利「${challenge.technologyName}」被宣告无效`
+          + (priorArt ? `（在先技术「${priorArt.technologyName}」）` : ''),
+      };
+    }
+
+    // 维持有效：挑战方承担持有人的部分诉讼费用
+    const legalCosts = Math.min(Math.round(challenge.cost * CHALLENGE_LOSER_COST_SHARE), inventoryManager.getCash(challenge.challengerId));
+    if (legalCosts > 0) {
+      inventoryManager.deductCash(challenge.challengerId, legalCosts, currentTick, 'patent_challenge');
+      inventoryManager.addCash(challenge.holderId, legalCosts, currentTick, 'patent_challenge');
+    }
+    return {
+      type: 'challenge_resolved',
+      parties,
+      tick: currentTick,
+      message: `⚖️ ${companyName(challenge.challengerId)} 对专利「${challenge.technologyName}」的挑战失败，专利维持有效`,
+    };
+  }
+
+  /**
+   * 审结侵权案件：专利仍有效则持有人胜诉，侵权方赔偿；申请了禁令的还要改回默认生产方式
+   */
+  private resolveCase(
+    infringementCase: InfringementCase,
+    currentTick: number,
+    playerCompanyId: string,
+    playerBuildings: BuildingInstance[]
+  ): LitigationEvent {
+    const parties = [infringementCase.holderId, infringementCase.infringerId];
+    const patent = researchService.getPatent(infringementCase.patentId);
+    if (!patent || !researchService.isPatentActive(patent, currentTick)) {
+      this.close(infringementCase, 'dismissed', currentTick, '专利已失效');
+      return {
+        type: 'case_resolved',
+        parties,
+        tick: currentTick,
+        message: `⚖️ 专利「${infringementCase.technologyName}」已失效，侵权诉讼被驳回`,
+      };
+    }
+
+    const terms = patentLicensing.getDefaultTerms(patent);
+    const damages = Math.round(terms.upfrontFee + infringementCase.infringingUnits * terms.royaltyPerUnit * DAMAGES_MULTIPLIER);
+    const paid = Math.min(damages, inventoryManager.getCash(infringementCase.infringerId));
+    if (paid > 0) {
+      inventoryManager.deductCash(infringementCase.infringerId, paid, currentTick, 'patent_damages');
+      inventoryManager.addCash(infringementCase.holderId, paid, currentTick, 'patent_damages');
+    }
+    infringementCase.damages = damages;
+    this.close(infringementCase, 'won', currentTick);
+
+    let message = `⚖️ ${companyName(infringementCase.infringerId)} 侵犯专利「${infringementCase.technologyName}」成立，赔偿 ¥${paid.toLocaleString('zh-CN')}`;
+    if (infringementCase.remedy === 'injunction') {
+      this.injunctions.set(patentPairKey(patent.id, infringementCase.infringerId), {
+        patentId: patent.id,
+        companyId: infringementCase.infringerId,
+        issuedAt: currentTick,
+      });
+      const buildings = infringementCase.infringerId === playerCompanyId
+        ? playerBuildings
+        : aiCompanyManager.getCompany(infringementCase.infringerId)?.buildings ?? [];
+      const reverted = this.revertPatentedMethods(patent, buildings);
+      message += `，法院发布禁令（${reverted} 座建筑改回默认生产方式）`;
+    } else {
+      // 只判赔偿：赔偿已含授权费，继续使用视为默许
+      this.waive(infringementCase, currentTick);
+    }
+
+    console.log(`[PatentLitigation] 案件 ${infringementCase.id} 持有人胜诉，赔偿 ${paid}/${damages}`);
+    return { type: 'case_resolved', parties, tick: currentTick, message };
+  }
+
+  /**
+   * AI 用诉讼作为竞争手段：挑战挡路的他人专利；攻击性极高的直接使用他人专利
+   */
+  private aiUseLitigation(currentTick: number): LitigationEvent[] {
+    const events: LitigationEvent[] = [];
+
+    for (const patent of researchService.getState().patents.values()) {
+      if (!researchService.isPatentActive(patent, currentTick)) continue;
+      const unlocks = researchService.getTechnology(patent.technologyId)?.productionMethodUnlocks ?? [];
+      if (unlocks.length === 0) continue;
+
+      for (const company of aiCompanyManager.getCompanies().values()) {
+        if (company.id === patent.holderId) continue;
+        if (researchService.canUseTechnology(patent.technologyId, company.id, currentTick)) continue;
+        const affected = company.buildings.filter(b => unlocks.some(unlock => unlock.buildingId === b.definitionId));
+        if (affected.length === 0) continue;
+
+        const level = aggressiveness(company.id);
+        if (level >= AI_CHALLENGE_AGGRESSIVENESS
+            && !this.hasPendingChallenge(patent.id, company.id)
+            && this.getChallengeCost(patent) <= company.cash * AI_MAX_CHALLENGE_COST_SHARE
+            && rng.next() < AI_CHALLENGE_CHANCE * level) {
+          const result = this.challengePatent(company.id, patent.id, currentTick);
+          events.push(...(result.events ?? []));
+          continue;
+        }
+
+        if (level >= AI_INFRINGE_AGGRESSIVENESS
+            && !this.injunctions.has(patentPairKey(patent.id, company.id))
+            && rng.next() < AI_INFRINGE_CHANCE) {
+          for (const building of affected) {
+            const unlock = unlocks.find(u => u.buildingId === building.definitionId);
+            if (!unlock) continue;
+            building.currentMethodId = unlock.method.id;
+            building.productionProgress = 0;
+          }
+          console.log(`[PatentLitigation] ${company.name} 未经授权使用专利 ${patent.id}`);
+        }
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * 把使用专利生产方式的建筑改回默认生产方式
+   * @returns 改回的建筑数
+   */
+  private revertPatentedMethods(patent: Patent, buildings: BuildingInstance[]): number {
+    const methodIds = new Set((researchService.getTechnology(patent.technologyId)?.productionMethodUnlocks ?? [])
+      .map(unlock => unlock.method.id));
+    let reverted = 0;
+
+    for (const building of buildings) {
+      if (!methodIds.has(building.currentMethodId)) continue;
+      const defaultMethod = BUILDINGS_DATA.find(b => b.id === building.definitionId)?.productionSlots[0]?.methods[0];
+      if (!defaultMethod) continue;
+      building.currentMethodId = defaultMethod.id;
+      building.productionProgress = 0;
+      reverted++;
+    }
+    return reverted;
+  }
+
+  private close(infringementCase: InfringementCase, status: InfringementCaseStatus, currentTick: number, reason?: string): void {
+    infringementCase.status = status;
+    infringementCase.resolvedAt = currentTick;
+    if (reason) infringementCase.reason = reason;
+    if (status === 'dropped') this.waive(infringementCase, currentTick);
+  }
+
+  private waive(infringementCase: InfringementCase, currentTick: number): void {
+    this.waivers.set(patentPairKey(infringementCase.patentId, infringementCase.infringerId), {
+      patentId: infringementCase.patentId,
+      holderId: infringementCase.holderId,
+      companyId: infringementCase.infringerId,
+      caseId: infringementCase.id,
+      waivedAt: currentTick,
+    });
+  }
+
+  private hasPendingChallenge(patentId: string, challengerId: string): boolean {
+    return Array.from(this.challenges.values())
+      .some(c => c.patentId === patentId && c.challengerId === challengerId && c.status === 'pending');
+  }
+
+  /**
+   * 只保留最近的已结束挑战和案件
+   */
+  private pruneHistory(): void {
+    const closedChallenges = Array.from(this.challenges.values())
+      .filter(c => c.status !== 'pending')
+      .sort((a, b) => (a.resolvedAt ?? a.filedAt) - (b.resolvedAt ?? b.filedAt));
+    for (const challenge of closedChallenges.slice(0, Math.max(0, closedChallenges.length - MAX_HISTORY))) {
+      this.challenges.delete(challenge.id);
+    }
+
+    const closedCases = Array.from(this.cases.values())
+      .filter(c => c.status !== 'detected' && c.status !== 'filed')
+      .sort((a, b) => (a.resolvedAt ?? a.detectedAt) - (b.resolvedAt ?? b.detectedAt));
+    for (const infringementCase of closedCases.slice(0, Math.max(0, closedCases.length - MAX_HISTORY))) {
+      this.cases.delete(infringementCase.id);
+    }
+  }
+}
+
+function aggressiveness(companyId: string): number {
+  return difficultySettings.getAIConfig(companyId)?.aggressiveness ?? 0;
+}
+
+function technologyName(patent: Patent): string {
+  return researchService.getTechnology(patent.technologyId)?.nameZh ?? patent.technologyId;
+}
+
+function companyName(companyId: string): string {
+  return aiCompanyManager.getCompany(companyId)?.name ?? '玩家公司';
+}
+
+function patentPairKey(patentId: string, companyId: string): string {
+  return `${patentId}:${companyId}`;
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const patentLitigation = worldScoped('patentLitigation');
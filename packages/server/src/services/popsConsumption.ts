@@ -25,6 +25,7 @@ import {
 import { priceDiscoveryService } from './priceDiscovery.js';
 import { marketOrderBook } from './marketOrderBook.js';
 import { inventoryManager } from './inventoryManager.js';
+import { worldScoped } from './worldContext.js';
 
 /**
  * POPs消费服务配置
@@ -67,6 +68,12 @@ export class POPsConsumptionManager extends EventEmitter {
   /** 每个POPGroup的当前满足度 */
   private satisfaction: Map<string, Record<string, number>> = new Map();
   
+  /** 人口覆盖（剧本设定，reset 后保留），未覆盖的POPGroup使用 POP_GROUPS 中的默认人口 */
+  private populationOverrides = new Map<string, number>();
+  
+  /** 收入倍率（劳动力市场的就业和工资反馈，每tick由 GameLoop 设置），未设置的POPGroup为1 */
+  private incomeMultipliers = new Map<string, number>();
+  
   /** 上次处理tick */
   private lastProcessTick: number = -10; // 初始值设为负数，确保首次立即处理
   
@@ -96,7 +103,7 @@ export class POPsConsumptionManager extends EventEmitter {
       // 为每个POPGroup初始化虚拟消费者公司
       // 初始现金 = 日均收入 * 7（一周的储蓄）
       const consumerId = `pop-${popGroup.id}`;
-      const dailyIncome = (popGroup.population * popGroup.monthlyIncome) / 30;
+      const dailyIncome = (this.getPopulation(popGroup) * this.getMonthlyIncome(popGroup)) / 30;
       const initialCash = dailyIncome * 7;
       
       inventoryManager.initializeCompany(
@@ -114,6 +121,36 @@ export class POPsConsumptionManager extends EventEmitter {
     console.log('[POPsConsumption] Initialized');
   }
   
+  /**
+   * 设置各POPGroup的人口（覆盖 POP_GROUPS 默认值）
+   * @param populations POPGroup ID -> 人口
+   */
+  setPopulationOverrides(populations: Record<string, number>): void {
+    this.populationOverrides = new Map(Object.entries(populations));
+  }
+  
+  /**
+   * 获取POPGroup的当前人口
+   */
+  getPopulation(popGroup: POPGroupConfig): number {
+    return this.populationOverrides.get(popGroup.id) ?? popGroup.population;
+  }
+  
+  /**
+   * 设置各POPGroup的收入倍率
+   * @param multipliers POPGroup ID -> 倍率
+   */
+  setIncomeMultipliers(multipliers: Record<string, number>): void {
+    this.incomeMultipliers = new Map(Object.entries(multipliers));
+  }
+  
+  /**
+   * 获取POPGroup的当前人均月收入（基础收入 × 劳动力市场收入倍率）
+   */
+  getMonthlyIncome(popGroup: POPGroupConfig): number {
+    return popGroup.monthlyIncome * (this.incomeMultipliers.get(popGroup.id) ?? 1);
+  }
+  
   /**
    * 每tick更新
    */
@@ -155,7 +192,7 @@ export class POPsConsumptionManager extends EventEmitter {
   private replenishConsumerCash(currentTick: number): void {
     for (const popGroup of POP_GROUPS) {
       const consumerId = `pop-${popGroup.id}`;
-      const dailyIncome = (popGroup.population * popGroup.monthlyIncome) / 30;
+      const dailyIncome = (this.getPopulation(popGroup) * this.getMonthlyIncome(popGroup)) / 30;
       
       // 添加每日收入
       inventoryManager.addCash(consumerId, dailyIncome, currentTick, 'daily_income');
@@ -188,7 +225,7 @@ export class POPsConsumptionManager extends EventEmitter {
     const decisions: ConsumptionDecision[] = [];
     
     // 计算每日预算 (月预算 / 30)
-    const dailyBudget = (popGroup.population * popGroup.monthlyIncome) / 30;
+    const dailyBudget = (this.getPopulation(popGroup) * this.getMonthlyIncome(popGroup)) / 30;
     
     // 按需求组优先级排序
     const sortedNeedGroups = [...NEED_GROUPS].sort((a, b) => a.priority - b.priority);
@@ -291,7 +328,7 @@ export class POPsConsumptionManager extends EventEmitter {
       // 根据人口规模和效用确定购买数量
       // 效用高的商品购买更多
       const utilityFactor = scored.baseUtility / 100;
-      const populationFactor = popGroup.population / 100000;
+      const populationFactor = this.getPopulation(popGroup) / 100000;
       
       // 计算理论需求量
       const theoreticalQuantity = Math.floor(affordableQuantity * utilityFactor * populationFactor * 10);
@@ -527,7 +564,7 @@ export class POPsConsumptionManager extends EventEmitter {
     const forecast: Record<string, number> = {};
     
     for (const popGroup of POP_GROUPS) {
-      const dailyBudget = (popGroup.population * popGroup.monthlyIncome) / 30;
+      const dailyBudget = (this.getPopulation(popGroup) * this.getMonthlyIncome(popGroup)) / 30;
       
       for (const needGroup of NEED_GROUPS) {
         const budgetRatio = popGroup.needBudgets[needGroup.id] ?? 0;
@@ -559,7 +596,28 @@ export class POPsConsumptionManager extends EventEmitter {
     this.initialized = false;
     console.log('[POPsConsumption] Reset');
   }
+  
+  /**
+   * 导出满足度（用于存档）
+   */
+  exportSatisfaction(): Record<string, Record<string, number>> {
+    return Object.fromEntries(
+      Array.from(this.satisfaction.entries()).map(([popGroupId, needs]) => [popGroupId, { ...needs }])
+    );
+  }
+  
+  /**
+   * 从存档恢复满足度
+   * 消费者公司库存由 inventoryManager 恢复，initialize 会跳过已存在的公司
+   */
+  importSatisfaction(satisfaction: Record<string, Record<string, number>>): void {
+    this.reset();
+    this.initialize();
+    for (const [popGroupId, needs] of Object.entries(satisfaction)) {
+      this.satisfaction.set(popGroupId, { ...needs });
+    }
+  }
 }
 
-// 单例导出
-export const popsConsumptionManager = new POPsConsumptionManager();
\ No newline at end of file
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const popsConsumptionManager = worldScoped('popsConsumptionManager');
\ No newline at end of file
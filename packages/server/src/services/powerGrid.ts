@@ -0,0 +1,173 @@
+/**
+ * Power Grid - 电网
+ *
+ * 运行中的建筑每 tick 按生产方式的 powerRequired × 聚合因子用电，
+ * 电力来自公司库存中的 electricity（自有电厂的产出或市场采购）。
+ * 配方本身已消耗电力的建筑（如数据中心、电解铝）不再重复计算。
+ *
+ * 库存电力不足时拉闸限电：按供电优先级（high → normal → low，同级保持建筑顺序）
+ * 依次供电，供不上的建筑进入 no_power 状态停产；恢复供电后自动回到 running。
+ *
+ * 玩家和 AI 公司各自接入电网，只用自己库存中的电力
+ */
+
+import type { BuildingInstance } from './gameLoop.js';
+import { inventoryManager } from './inventoryManager.js';
+import { technologyEffectManager } from './technologyEffectManager.js';
+import { worldScoped } from './worldContext.js';
+
+export const ELECTRICITY_GOODS_ID = 'electricity';
+
+/** powerRequired 每单位每 tick 消耗的电力（electricity 商品单位） */
+const ELECTRICITY_PER_POWER_UNIT = 0.1;
+
+/** 供电优先级 */
+export type PowerPriority = 'high' | 'normal' | 'low';
+
+export const POWER_PRIORITIES: readonly PowerPriority[] = ['high', 'normal', 'low'];
+
+/** 接入电网的建筑状态（其余状态不用电） */
+const GRID_STATUSES: ReadonlySet<BuildingInstance['status']> = new Set(['running', 'no_power']);
+
+/** 电网状况 */
+export interface PowerGridStatus {
+  tick: number;
+  /** 本 tick 用电需求 */
+  load: number;
+  /** 本 tick 实际供电 */
+  supplied: number;
+  /** 供电缺口 */
+  shortfall: number;
+  /** 自有电厂额定发电量（每 tick） */
+  capacity: number;
+  /** 供电后的电力库存 */
+  stored: number;
+  /** 用电建筑数 */
+  consumers: number;
+  /** 停电建筑 */
+  blackoutBuildingIds: string[];
+}
+
+/** 供电状态变化 */
+export interface PowerChange {
+  buildingId: string;
+  buildingName: string;
+  type: 'blackout' | 'restored';
+}
+
+/**
+ * 电网
+ * 每个游戏世界一个实例
+ */
+export class PowerGrid {
+  /** 各公司最近一次供电的电网状况 */
+  private statuses = new Map<string, PowerGridStatus>();
+  /** 各公司本 tick 各建筑的供电量 */
+  private supplied = new Map<string, Map<string, number>>();
+
+  /**
+   * 按优先级给公司的建筑供电并消耗该公司的库存电力
+   * 供不上的建筑切换为 no_power，恢复供电的切换回 running
+   */
+  distribute(companyId: string, buildings: BuildingInstance[], tick: number): { status: PowerGridStatus; changes: PowerChange[] } {
+    const suppliedByBuilding = new Map<string, number>();
+    this.supplied.set(companyId, suppliedByBuilding);
+    const changes: PowerChange[] = [];
+
+    const consumers = buildings
+      .filter(building => GRID_STATUSES.has(building.status) && getPowerDraw(building) > 0)
+      .sort((a, b) => POWER_PRIORITIES.indexOf(a.powerPriority ?? 'normal') - POWER_PRIORITIES.indexOf(b.powerPriority ?? 'normal'));
+
+    let available = inventoryManager.getAvailableQuantity(companyId, ELECTRICITY_GOODS_ID);
+    let load = 0;
+    let supplied = 0;
+    const blackoutBuildingIds: string[] = [];
+
+    // 大用电户供不上时，继续尝试给后面用电少的建筑供电
+    for (const building of consumers) {
+      const draw = getPowerDraw(building);
+      load += draw;
+
+      if (available >= draw) {
+        available -= draw;
+        supplied += draw;
+        suppliedByBuilding.set(building.id, draw);
+        if (building.status === 'no_power') {
+          building.status = 'running';
+          changes.push({ buildingId: building.id, buildingName: building.name, type: 'restored' });
+        }
+      } else {
+        blackoutBuildingIds.push(building.id);
+        if (building.status === 'running') {
+          building.status = 'no_power';
+          changes.push({ buildingId: building.id, buildingName: building.name, type: 'blackout' });
+        }
+      }
+    }
+
+    if (supplied > 0) {
+      inventoryManager.consumeGoods(companyId, ELECTRICITY_GOODS_ID, supplied, tick, 'power-grid');
+    }
+
+    const status: PowerGridStatus = {
+      tick,
+      load,
+      supplied,
+      shortfall: load - supplied,
+      capacity: buildings.reduce((sum, building) => sum + getGenerationCapacity(building), 0),
+      stored: inventoryManager.getAvailableQuantity(companyId, ELECTRICITY_GOODS_ID),
+      consumers: consumers.length,
+      blackoutBuildingIds,
+    };
+    this.statuses.set(companyId, status);
+
+    if (changes.length > 0) {
+      const blackouts = changes.filter(change => change.type === 'blackout').length;
+      console.log(`[PowerGrid] ${companyId} 负荷 ${load.toFixed(0)}，供电 ${supplied.toFixed(0)}：${blackouts} 座停电，${changes.length - blackouts} 座恢复`);
+    }
+
+    return { status, changes };
+  }
+
+  /**
+   * 公司最近一次供电的电网状况
+   */
+  getStatus(companyId: string): PowerGridStatus | null {
+    return this.statuses.get(companyId) ?? null;
+  }
+
+  /**
+   * 本 tick 给公司建筑的供电量（未供电为 0）
+   */
+  getSuppliedPower(companyId: string, buildingId: string): number {
+    return this.supplied.get(companyId)?.get(buildingId) ?? 0;
+  }
+}
+
+/** 当前生产方式（含技术解锁的方式）的生产配方和用电需求 */
+function getMethod(building: BuildingInstance) {
+  return technologyEffectManager.resolveMethod(building.definitionId, building.currentMethodId);
+}
+
+/**
+ * 建筑每 tick 的用电量（配方已消耗电力的建筑为 0）
+ */
+export function getPowerDraw(building: BuildingInstance): number {
+  const method = getMethod(building);
+  if (!method || method.recipe.inputs.some(input => input.goodsId === ELECTRICITY_GOODS_ID)) return 0;
+  return method.powerRequired * ELECTRICITY_PER_POWER_UNIT * (building.aggregatedCount ?? 1);
+}
+
+/**
+ * 电厂每 tick 的额定发电量（建造中的电厂为 0）
+ */
+export function getGenerationCapacity(building: BuildingInstance): number {
+  if (building.status === 'under_construction' || building.status === 'waiting_materials') return 0;
+  const method = getMethod(building);
+  const output = method?.recipe.outputs.find(o => o.goodsId === ELECTRICITY_GOODS_ID);
+  if (!method || !output) return 0;
+  return output.amount / method.recipe.ticksRequired * building.efficiency * (building.aggregatedCount ?? 1);
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const powerGrid = worldScoped('powerGrid');
@@ -8,8 +8,9 @@ import { GOODS_DATA } from '@scc/shared';
 import type { PriceHistoryPoint, MarketDepth } from '@scc/shared';
 import { matchingEngine } from './matchingEngine.js';
 import { marketOrderBook } from './marketOrderBook.js';
+import { worldScoped } from './worldContext.js';
 
-interface GoodsPriceState {
+export interface GoodsPriceState {
   /** 商品ID */
   goodsId: string;
   /** 当前市场价格 */
@@ -29,7 +30,7 @@ interface GoodsPriceState {
 }
 
 /**
- * 价格发现服务 - 单例
+ * 价格发现服务 - 每个游戏世界一个实例
  *
  * 性能优化：
  * - 延迟清理价格历史，减少 slice 操作频率
@@ -42,8 +43,6 @@ export class PriceDiscoveryService extends EventEmitter {
   private readonly MAX_HISTORY_POINTS = 1000;
   /** 历史记录清理阈值（超过此值才触发清理） */
   private readonly CLEANUP_THRESHOLD = 1200;
-  /** 最大价格波动比例（每tick） - 降低到2%防止价格暴涨 */
-  private readonly MAX_PRICE_CHANGE = 0.02; // 2% per tick (was 10%)
   /** 价格最高为基准价的5倍 */
   private readonly MAX_PRICE_MULTIPLIER = 5.0;
   /** 价格最低为基准价的20% */
@@ -126,72 +125,6 @@ export class PriceDiscoveryService extends EventEmitter {
     state.lastUpdateTick = currentTick;
   }
   
-  /**
-   * 计算价格
-   * 使用多种信号加权平均
-   */
-  private calculatePrice(state: GoodsPriceState, depth: MarketDepth): number {
-    const signals: { price: number; weight: number }[] = [];
-    
-    // 信号1: 最近成交价（权重最高）
-    if (state.lastTradePrice !== null) {
-      signals.push({ price: state.lastTradePrice, weight: 0.5 });
-    }
-    
-    // 信号2: 买卖价中间价
-    if (state.bestBid !== null && state.bestAsk !== null) {
-      const midPrice = (state.bestBid + state.bestAsk) / 2;
-      signals.push({ price: midPrice, weight: 0.3 });
-    } else if (state.bestBid !== null) {
-      // 只有买单，价格略高于最高买价
-      signals.push({ price: state.bestBid * 1.05, weight: 0.2 });
-    } else if (state.bestAsk !== null) {
-      // 只有卖单，价格略低于最低卖价
-      signals.push({ price: state.bestAsk * 0.95, weight: 0.2 });
-    }
-    
-    // 信号3: 供需压力
-    const supplyPressure = this.calculateSupplyPressure(depth);
-    const pressureAdjustedPrice = state.currentPrice * (1 + supplyPressure * 0.05);
-    signals.push({ price: pressureAdjustedPrice, weight: 0.1 });
-    
-    // 信号4: 当前价格惯性
-    signals.push({ price: state.currentPrice, weight: 0.1 });
-    
-    // 信号5: 基准价格回归（当价格偏离过大时增加权重）
-    // 这可以防止价格无限偏离基准价
-    const deviation = Math.abs(state.currentPrice - state.basePrice) / state.basePrice;
-    const regressionWeight = Math.min(0.3, deviation * 0.1); // 偏离越大，回归权重越高
-    signals.push({ price: state.basePrice, weight: 0.05 + regressionWeight });
-    
-    // 加权平均
-    if (signals.length === 0) {
-      return state.currentPrice;
-    }
-    
-    const totalWeight = signals.reduce((sum, s) => sum + s.weight, 0);
-    const weightedSum = signals.reduce((sum, s) => sum + s.price * s.weight, 0);
-    
-    return weightedSum / totalWeight;
-  }
-  
-  /**
-   * 计算供需压力
-   * 返回 -1 到 1 之间的值，正值表示需求大于供给（价格应上涨）
-   */
-  private calculateSupplyPressure(depth: MarketDepth): number {
-    if (depth.totalBuyVolume === 0 && depth.totalSellVolume === 0) {
-      return 0;
-    }
-    
-    // 使用买卖量差异计算压力
-    const totalVolume = depth.totalBuyVolume + depth.totalSellVolume;
-    if (totalVolume === 0) return 0;
-    
-    const pressure = (depth.totalBuyVolume - depth.totalSellVolume) / totalVolume;
-    return Math.max(-1, Math.min(1, pressure));
-  }
-  
   /**
    * 记录价格历史点
    *
@@ -381,7 +314,28 @@ export class PriceDiscoveryService extends EventEmitter {
     }
     return state.basePrice;
   }
+  
+  /**
+   * 导出价格状态（用于存档）
+   */
+  exportState(): GoodsPriceState[] {
+    return Array.from(this.priceStates.values()).map(state => structuredClone(state));
+  }
+  
+  /**
+   * 从存档恢复价格状态
+   * 存档中不存在的商品保持基准价格
+   */
+  importState(states: GoodsPriceState[]): void {
+    this.priceStates.clear();
+    this.initializePrices();
+    for (const state of states) {
+      if (this.priceStates.has(state.goodsId)) {
+        this.priceStates.set(state.goodsId, structuredClone(state));
+      }
+    }
+  }
 }
 
-// 单例实例
-export const priceDiscoveryService = new PriceDiscoveryService();
\ No newline at end of file
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const priceDiscoveryService = worldScoped('priceDiscoveryService');
\ No newline at end of file
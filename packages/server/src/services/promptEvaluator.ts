@@ -0,0 +1,206 @@
+/**
+ * Prompt Evaluator - 提示词模板离线评估
+ *
+ * 用录制的请求上下文（LLM_RECORD_FIXTURES=true 时写入 <录制目录>/contexts/<模板ID>.jsonl）
+ * 逐个渲染指定版本的模板并调用后端，用 LLMService 中与线上相同的 schema 校验和规范化逻辑检查输出：
+ * - parseFailure：JSON 不合法或未通过 schema 校验（线上会触发一次修复重试）
+ * - issues：通过校验但有字段被游戏规则收敛或丢弃
+ * - skipped：后端无响应（如 replay 模式下该版本没有录制）
+ *
+ * 同一批上下文跑多个版本即可对比各版本的解析失败率；只评估首次响应，不做修复重试
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { llmService, FIXTURES_DIR } from './llm.js';
+import { LLMValidationError } from './llmSchemas.js';
+import { LLMFixtureMissingError, type LLMProvider } from './llmProvider.js';
+import {
+  buildPromptVariables,
+  promptTemplateRegistry,
+  renderPromptTemplate,
+  type PromptContextMap,
+  type PromptTemplateId,
+} from './promptTemplates.js';
+
+/** 单个上下文的评估结果 */
+export interface PromptEvaluationSample {
+  index: number;
+  outcome: 'ok' | 'issues' | 'parse_failure' | 'skipped';
+  issues: string[];
+  error?: string;
+  tokens: number;
+}
+
+/** 单个版本的评估汇总 */
+export interface PromptVersionScore {
+  version: string;
+  evaluated: number;
+  skipped: number;
+  parseFailures: number;
+  /** 有字段被修正的响应数 */
+  withIssues: number;
+  /** 解析失败率（不计 skipped） */
+  parseFailureRate: number;
+  /** 字段修正率（不计 skipped） */
+  issueRate: number;
+  /** 各字段被修正的次数 */
+  issueCounts: Record<string, number>;
+  /** 各校验错误出现的次数 */
+  failureCounts: Record<string, number>;
+  totalTokens: number;
+  samples: PromptEvaluationSample[];
+}
+
+/** 评估报告 */
+export interface PromptEvaluationReport {
+  templateId: PromptTemplateId;
+  contexts: number;
+  model: string;
+  versions: PromptVersionScore[];
+}
+
+/** 评估参数 */
+export interface PromptEvaluationOptions {
+  templateId: PromptTemplateId;
+  /** 要对比的版本，默认该模板的全部版本 */
+  versions?: string[];
+  contexts: unknown[];
+  /** 默认使用当前 LLM 配置的后端 */
+  provider?: LLMProvider;
+  model?: string;
+}
+
+/**
+ * 读取录制的请求上下文（JSONL，每行一个）
+ */
+export function loadRecordedContexts(templateId: PromptTemplateId, file?: string): unknown[] {
+  const filePath = file ?? path.join(FIXTURES_DIR, 'contexts', `${templateId}.jsonl`);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  return fs.readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .map(line => JSON.parse(line) as unknown);
+}
+
+/**
+ * 提示词评估器
+ */
+export class PromptEvaluator {
+  async evaluate(options: PromptEvaluationOptions): Promise<PromptEvaluationReport> {
+    const { templateId, contexts } = options;
+    const provider = options.provider ?? llmService.createProvider();
+    const model = options.model ?? llmService.getConfig().model;
+    const versions = options.versions ?? promptTemplateRegistry.getVersions(templateId);
+
+    const scores: PromptVersionScore[] = [];
+    for (const version of versions) {
+      if (!promptTemplateRegistry.hasVersion(templateId, version)) {
+        throw new Error(`Unknown prompt version ${templateId}@${version}`);
+      }
+      const template = promptTemplateRegistry.get(templateId, version);
+
+      const samples: PromptEvaluationSample[] = [];
+      for (const [index, context] of contexts.entries()) {
+        const prompt = renderPromptTemplate(template, buildPromptVariables(templateId, context as PromptContextMap[typeof templateId]));
+        samples.push(await this.evaluateSample(index, templateId, context, provider, {
+          model,
+          messages: prompt.messages,
+          maxTokens: prompt.maxTokens,
+          temperature: prompt.temperature,
+          ...(prompt.responseFormat ? { responseFormat: prompt.responseFormat } : {}),
+        }));
+      }
+
+      scores.push(this.score(version, samples));
+      console.log(`[PromptEvaluator] ${templateId}@${version}: ${samples.length} contexts evaluated`);
+    }
+
+    return { templateId, contexts: contexts.length, model, versions: scores };
+  }
+
+  private async evaluateSample(
+    index: number,
+    templateId: PromptTemplateId,
+    context: unknown,
+    provider: LLMProvider,
+    request: Parameters<LLMProvider['complete']>[0]
+  ): Promise<PromptEvaluationSample> {
+    let content: string;
+    let tokens = 0;
+    try {
+      const response = await provider.complete(request);
+      content = response.content;
+      tokens = response.usage?.totalTokens ?? 0;
+    } catch (error) {
+      return {
+        index,
+        outcome: 'skipped',
+        issues: [],
+        error: error instanceof LLMFixtureMissingError ? 'no recorded response' : String(error),
+        tokens,
+      };
+    }
+
+    try {
+      const issues = this.parse(templateId, content, context);
+      return { index, outcome: issues.length > 0 ? 'issues' : 'ok', issues, tokens };
+    } catch (error) {
+      if (error instanceof LLMValidationError) {
+        return { index, outcome: 'parse_failure', issues: error.issues, error: error.kind, tokens };
+      }
+      return { index, outcome: 'parse_failure', issues: [], error: String(error), tokens };
+    }
+  }
+
+  /**
+   * 用线上校验和规范化逻辑解析响应，返回被修正的字段（校验失败抛出 LLMValidationError）
+   */
+  private parse(templateId: PromptTemplateId, content: string, context: unknown): string[] {
+    switch (templateId) {
+      case 'strategy':
+        return llmService.parseStrategicPlan(content).issues;
+      case 'tech_evaluation':
+        return llmService.parseTechnologyEvaluation(content).issues;
+      case 'tech_effects':
+        return llmService.parseTechnologyEffects(content, context as PromptContextMap['tech_effects']).issues;
+      case 'market_events':
+        return llmService.parseMarketEvents(content).issues;
+      case 'decision_event':
+        return llmService.parseDecisionEvent(content, context as PromptContextMap['decision_event']).issues;
+    }
+  }
+
+  private score(version: string, samples: PromptEvaluationSample[]): PromptVersionScore {
+    const evaluated = samples.filter(sample => sample.outcome !== 'skipped');
+    const parseFailures = evaluated.filter(sample => sample.outcome === 'parse_failure').length;
+    const withIssues = evaluated.filter(sample => sample.outcome === 'issues').length;
+
+    const issueCounts: Record<string, number> = {};
+    const failureCounts: Record<string, number> = {};
+    for (const sample of evaluated) {
+      const counts = sample.outcome === 'parse_failure' ? failureCounts : issueCounts;
+      for (const issue of sample.issues) {
+        counts[issue] = (counts[issue] ?? 0) + 1;
+      }
+    }
+
+    return {
+      version,
+      evaluated: evaluated.length,
+      skipped: samples.length - evaluated.length,
+      parseFailures,
+      withIssues,
+      parseFailureRate: evaluated.length > 0 ? parseFailures / evaluated.length : 0,
+      issueRate: evaluated.length > 0 ? withIssues / evaluated.length : 0,
+      issueCounts,
+      failureCounts,
+      totalTokens: samples.reduce((sum, sample) => sum + sample.tokens, 0),
+      samples,
+    };
+  }
+}
+
+export const promptEvaluator = new PromptEvaluator();
@@ -0,0 +1,685 @@
+/**
+ * Prompt Templates - 提示词模板注册表
+ *
+ * LLMService 的结构化生成（AI战略、研发评估、技术效果、市场事件、玩家决策事件）不再内联提示词，
+ * 而是从注册表按 模板ID + 版本 取模板，用 {{变量}} 渲染：
+ * - 同一模板ID的所有版本共用一套变量（由请求上下文生成，见 buildPromptVariables）
+ * - 默认使用标记 isDefault 的版本（未标记时为第一个注册的版本）；每局游戏可单独选择版本（PromptSelection），用于 A/B 对比
+ * - 输出按 llmSchemas.ts 中的 schema 校验，默认版本都启用 JSON 模式
+ * - 离线评估见 promptEvaluator.ts
+ */
+
+import { BUILDINGS_DATA } from '@scc/shared';
+import { worldScoped } from './worldContext.js';
+import type { LLMMessage } from './llmProvider.js';
+import type {
+  DecisionEventRequest,
+  MarketEventsBatchRequest,
+  StrategicAnalysisRequest,
+  TechEffectGenerationRequest,
+  TechnologyEvaluationRequest,
+} from './llm.js';
+
+/** 模板ID */
+export type PromptTemplateId = 'strategy' | 'tech_evaluation' | 'tech_effects' | 'market_events' | 'decision_event';
+
+export const PROMPT_TEMPLATE_IDS: readonly PromptTemplateId[] = ['strategy', 'tech_evaluation', 'tech_effects', 'market_events', 'decision_event'];
+
+/** 各模板的请求上下文 */
+export interface PromptContextMap {
+  strategy: StrategicAnalysisRequest;
+  tech_evaluation: TechnologyEvaluationRequest;
+  tech_effects: TechEffectGenerationRequest;
+  market_events: MarketEventsBatchRequest;
+  decision_event: DecisionEventRequest;
+}
+
+/** 各模板可用的变量 */
+export const PROMPT_VARIABLES: Record<PromptTemplateId, readonly string[]> = {
+  strategy: [
+    'companyName', 'cashM', 'buildingCount', 'industries', 'playerBuildingCount', 'playerIndustries',
+    'personality', 'personalityHint', 'priceTrends', 'trust', 'hostility',
+  ],
+  tech_evaluation: ['prompt', 'currentTech', 'budget', 'companyProfile'],
+  tech_effects: ['conceptName', 'conceptDescription', 'category', 'tier', 'buildings'],
+  market_events: ['eventCount', 'currentTick', 'marketConditions', 'goods', 'methods', 'extractionBuildings'],
+  decision_event: ['trigger', 'currentTick', 'cash', 'buildingCount', 'industries', 'marketConditions', 'companies', 'goods'],
+};
+
+/** 提示词模板 */
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  version: string;
+  /** 版本说明（改了什么、为什么） */
+  description: string;
+  system?: string;
+  /** 用户消息，{{变量}} 占位 */
+  user: string;
+  maxTokens: number;
+  temperature: number;
+  responseFormat?: 'json_object';
+  /** 是否为默认版本（每个模板ID最多一个） */
+  isDefault?: boolean;
+}
+
+/** 渲染后的提示词 */
+export interface RenderedPrompt {
+  templateId: PromptTemplateId;
+  version: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+  responseFormat?: 'json_object';
+}
+
+/** 模板列表项 */
+export interface PromptTemplateSummary {
+  id: PromptTemplateId;
+  defaultVersion: string;
+  variables: readonly string[];
+  versions: { version: string; description: string }[];
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/** 市场事件可影响的商品 */
+const MARKET_EVENT_GOODS = ['steel', 'coal', 'copper', 'electricity', 'chips', 'oil', 'food', 'natural_gas'];
+
+/** 市场事件可禁止 / 豁免的生产方式（开采和加工建筑中有替代方案的生产方式） */
+const MARKET_EVENT_METHODS = BUILDINGS_DATA
+  .filter(b => b.category === 'extraction' || b.category === 'processing')
+  .flatMap(b => b.productionSlots.filter(slot => slot.methods.length > 1).flatMap(slot => slot.methods.map(m => m.id)));
+
+/** 市场事件资源效果可作用的开采建筑 */
+const MARKET_EVENT_EXTRACTION_BUILDINGS = BUILDINGS_DATA.filter(b => b.category === 'extraction').map(b => b.id);
+
+/** 决策事件商品效果推荐使用的商品（完整ID列表较长，只列主要大宗商品） */
+const DECISION_EVENT_GOODS = [
+  'iron-ore', 'coal', 'crude-oil', 'copper-ore', 'grain', 'steel', 'copper', 'plastic',
+  'refined-fuel', 'semiconductor-chip', 'electricity', 'packaged-food',
+];
+
+const JSON_OBJECT_SYSTEM = 'You are a JSON generator. Return only valid JSON, no markdown, no explanation.';
+
+/**
+ * 由请求上下文生成模板变量
+ */
+export function buildPromptVariables<K extends PromptTemplateId>(id: K, context: PromptContextMap[K]): Record<string, string> {
+  switch (id) {
+    case 'strategy': {
+      const request = context as StrategicAnalysisRequest;
+      const priceTrends = Object.entries(request.priceChanges)
+        .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+        .slice(0, 3)
+        .map(([goodsId, change]) => `${goodsId} ${change >= 0 ? '+' : ''}${Math.round(change * 100)}%`)
+        .join(', ');
+      return {
+        companyName: request.companyName,
+        cashM: String(Math.floor(request.currentCash / 1000000)),
+        buildingCount: String(request.buildingCount),
+        industries: request.ownedIndustries.slice(0, 2).join(',') || 'none',
+        playerBuildingCount: String(request.playerBuildingCount),
+        playerIndustries: request.playerIndustries.slice(0, 2).join(',') || 'none',
+        personality: request.personality,
+        personalityHint: request.personality.substring(0, 30),
+        priceTrends: priceTrends || 'none',
+        trust: String(request.relationshipWithPlayer.trust),
+        hostility: String(request.relationshipWithPlayer.hostility),
+      };
+    }
+    case 'tech_evaluation': {
+      const request = context as TechnologyEvaluationRequest;
+      return {
+        prompt: request.prompt,
+        currentTech: request.currentTech.join(', '),
+        budget: String(request.budget),
+        companyProfile: request.companyProfile,
+      };
+    }
+    case 'tech_effects': {
+      const request = context as TechEffectGenerationRequest;
+      return {
+        conceptName: request.conceptName,
+        conceptDescription: request.conceptDescription,
+        category: request.category,
+        tier: String(request.tier),
+        buildings: request.existingBuildings.slice(0, 10).join(', '),
+      };
+    }
+    case 'market_events': {
+      const request = context as MarketEventsBatchRequest;
+      return {
+        eventCount: String(request.eventCount),
+        currentTick: String(request.currentTick),
+        marketConditions: request.marketConditions,
+        goods: MARKET_EVENT_GOODS.join(', '),
+        methods: MARKET_EVENT_METHODS.join(', '),
+        extractionBuildings: MARKET_EVENT_EXTRACTION_BUILDINGS.join(', '),
+      };
+    }
+    case 'decision_event': {
+      const request = context as DecisionEventRequest;
+      const followUp = request.followUp;
+      return {
+        trigger: followUp
+          ? `玩家在事件《${followUp.parentTitle}》中选择了「${followUp.choice}」，请生成它的后续事件：${followUp.prompt}`
+          : '随机出现的经营抉择',
+        currentTick: String(request.currentTick),
+        cash: String(Math.floor(request.playerCash / 100)),
+        buildingCount: String(request.buildingCount),
+        industries: request.playerIndustries.slice(0, 3).join(',') || 'none',
+        marketConditions: request.marketConditions,
+        companies: request.companies.slice(0, 6).map(company => `${company.id}:${company.name}`).join(', ') || 'none',
+        goods: DECISION_EVENT_GOODS.join(', '),
+      };
+    }
+  }
+  throw new Error(`Unknown prompt template: ${String(id)}`);
+}
+
+/**
+ * 渲染模板（缺少变量时抛出）
+ */
+export function renderPromptTemplate(template: PromptTemplate, variables: Record<string, string>): RenderedPrompt {
+  const fill = (text: string) => text.replace(PLACEHOLDER, (_match, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(`Missing variable "${name}" for prompt ${template.id}@${template.version}`);
+    }
+    return value;
+  });
+
+  return {
+    templateId: template.id,
+    version: template.version,
+    messages: [
+      ...(template.system ? [{ role: 'system' as const, content: fill(template.system) }] : []),
+      { role: 'user', content: fill(template.user) },
+    ],
+    maxTokens: template.maxTokens,
+    temperature: template.temperature,
+    ...(template.responseFormat ? { responseFormat: template.responseFormat } : {}),
+  };
+}
+
+/**
+ * 模板注册表（全局，模板随代码发布）
+ */
+export class PromptTemplateRegistry {
+  private templates = new Map<PromptTemplateId, Map<string, PromptTemplate>>();
+
+  /**
+   * 注册模板版本（占位符必须是该模板的已知变量）
+   */
+  register(template: PromptTemplate): void {
+    const known = PROMPT_VARIABLES[template.id];
+    const text = `${template.system ?? ''}\n${template.user}`;
+    for (const [, name] of text.matchAll(PLACEHOLDER)) {
+      if (name && !known.includes(name)) {
+        throw new Error(`Unknown variable "${name}" in prompt ${template.id}@${template.version}`);
+      }
+    }
+
+    let versions = this.templates.get(template.id);
+    if (!versions) {
+      versions = new Map();
+      this.templates.set(template.id, versions);
+    }
+    if (versions.has(template.version)) {
+      throw new Error(`Prompt ${template.id}@${template.version} already registered`);
+    }
+    if (template.isDefault && Array.from(versions.values()).some(existing => existing.isDefault)) {
+      throw new Error(`Prompt ${template.id} already has a default version`);
+    }
+    versions.set(template.version, template);
+  }
+
+  /**
+   * 获取模板，未指定或版本不存在时返回默认版本
+   */
+  get(id: PromptTemplateId, version?: string): PromptTemplate {
+    const versions = this.templates.get(id);
+    const all = Array.from(versions?.values() ?? []);
+    const template = (version !== undefined ? versions?.get(version) : undefined)
+      ?? all.find(candidate => candidate.isDefault)
+      ?? all[0];
+    if (!template) {
+      throw new Error(`No prompt template registered for ${id}`);
+    }
+    return template;
+  }
+
+  hasVersion(id: PromptTemplateId, version: string): boolean {
+    return this.templates.get(id)?.has(version) ?? false;
+  }
+
+  getDefaultVersion(id: PromptTemplateId): string {
+    return this.get(id).version;
+  }
+
+  getVersions(id: PromptTemplateId): string[] {
+    return Array.from(this.templates.get(id)?.keys() ?? []);
+  }
+
+  list(): PromptTemplateSummary[] {
+    return PROMPT_TEMPLATE_IDS.map(id => ({
+      id,
+      defaultVersion: this.getDefaultVersion(id),
+      variables: PROMPT_VARIABLES[id],
+      versions: Array.from(this.templates.get(id)?.values() ?? [], template => ({
+        version: template.version,
+        description: template.description,
+      })),
+    }));
+  }
+}
+
+export const promptTemplateRegistry = new PromptTemplateRegistry();
+
+// ============================================
+// 内置模板
+// ============================================
+
+promptTemplateRegistry.register({
+  id: 'strategy',
+  version: 'v1',
+  description: '极简单行 JSON 提示，确保小模型也能完整返回',
+  system: JSON_OBJECT_SYSTEM,
+  user: `You are AI strategist for "{{companyName}}".
+Company: {{cashM}}M cash, {{buildingCount}} buildings, industries: {{industries}}
+Competitor: {{playerBuildingCount}} buildings, industries: {{playerIndustries}}
+Personality hint: {{personalityHint}}
+
+Return ONLY a single line JSON (no markdown, no explanation):
+{"priorityIndustry":"steel","secondaryIndustry":"energy","marketStance":"neutral","targetPlayer":false,"investmentFocus":"expand_capacity","riskLevel":0.5,"reasoning":"short reason"}
+
+Choose priorityIndustry from: steel, energy, semiconductor, chemicals, food, retail
+Choose marketStance from: aggressive, defensive, neutral
+Choose investmentFocus from: expand_capacity, reduce_cost, diversify`,
+  maxTokens: 1000,
+  temperature: 0.3,
+});
+
+promptTemplateRegistry.register({
+  id: 'strategy',
+  version: 'v2',
+  description: '完整性格、价格走势和对玩家关系作为上下文，逐字段说明取值，启用 JSON 模式',
+  system: JSON_OBJECT_SYSTEM,
+  user: `You are the chief strategist of "{{companyName}}" in a supply chain simulation game.
+
+Company: {{cashM}}M cash, {{buildingCount}} buildings, industries: {{industries}}
+Personality: {{personality}}
+Player competitor: {{playerBuildingCount}} buildings, industries: {{playerIndustries}}
+Relationship with player: trust {{trust}} (-100..100), hostility {{hostility}} (0..100)
+Biggest recent price moves: {{priceTrends}}
+
+Respond with one JSON object with exactly these keys:
+- priorityIndustry: one of steel, energy, semiconductor, chemicals, food, retail
+- secondaryIndustry: one of steel, energy, semiconductor, chemicals, food, retail
+- marketStance: one of aggressive, defensive, neutral
+- targetPlayer: true or false
+- investmentFocus: one of expand_capacity, reduce_cost, diversify
+- riskLevel: number between 0 and 1
+- reasoning: one short sentence`,
+  maxTokens: 600,
+  temperature: 0.3,
+  responseFormat: 'json_object',
+  isDefault: true,
+});
+
+promptTemplateRegistry.register({
+  id: 'tech_evaluation',
+  version: 'v1',
+  description: '首席科学家视角评估研发提案',
+  user: `作为未来供应链游戏中的首席科学家，请评估这个研发提案：
+
+研发请求: "{{prompt}}"
+现有技术: {{currentTech}}
+可用预算: ¥{{budget}}
+公司概况: {{companyProfile}}
+
+请从以下角度评估：
+1. 可行性（0-1）
+2. 预估成本（元）
+3. 研发周期（游戏刻度，1刻度=1天）
+4. 潜在风险
+5. 对生产/市场的预期影响
+6. 可能在后期出现的隐藏副作用（发挥创意，保持现实）
+
+请用中文回复，使用JSON格式:
+{
+  "feasibility": 0.7,
+  "estimatedCost": 50000000,
+  "estimatedTicks": 30,
+  "risks": ["..."],
+  "potentialEffects": ["..."],
+  "sideEffects": ["..."]
+}`,
+  maxTokens: 1500,
+  temperature: 0.7,
+  responseFormat: 'json_object',
+});
+
+promptTemplateRegistry.register({
+  id: 'tech_effects',
+  version: 'v1',
+  description: '游戏设计师视角生成全局修饰符和生产方式解锁',
+  system: JSON_OBJECT_SYSTEM,
+  user: `你是一个游戏设计师，需要为供应链模拟游戏《供应链指挥官：算法都市》生成技术效果。
+
+研发概念：
+- 名称：{{conceptName}}
+- 描述：{{conceptDescription}}
+- 类别：{{category}}
+- 等级：{{tier}}/5
+
+可以解锁生产方式的建筑ID列表：
+{{buildings}}
+
+请生成合理的技术效果，返回JSON格式（不要markdown）：
+{
+  "globalModifiers": [
+    {
+      "type": "efficiency_boost" 或 "cost_reduction" 或 "output_increase" 或 "input_reduction",
+      "target": "all" 或 具体建筑类别(extraction/processing/manufacturing/service),
+      "value": 0.05到0.30之间的数值,
+      "description": "效果的中文描述"
+    }
+  ],
+  "productionMethodUnlocks": [
+    {
+      "buildingId": "适用的建筑ID（从上面列表选择）",
+      "method": {
+        "id": "唯一ID（英文小写加连字符）",
+        "name": "英文名",
+        "nameZh": "中文名",
+        "description": "方法描述",
+        "recipe": {
+          "inputs": [{"goodsId": "商品ID", "amount": 数量}],
+          "outputs": [{"goodsId": "商品ID", "amount": 数量}],
+          "ticksRequired": 1到5
+        },
+        "laborRequired": 50到300,
+        "powerRequired": 50到500,
+        "efficiency": 1.0到2.0
+      }
+    }
+  ]
+}
+
+规则：
+1. tier越高效果越强（tier 1: 5-10%, tier 5: 25-30%）
+2. 效果应与概念描述的领域相关
+3. 至少生成1个全局修饰符
+4. 如果概念与特定建筑相关，可生成对应的生产方式解锁
+5. 生产方式的recipe要合理（可用商品ID：iron-ore, steel, copper, electricity, coal, chemicals, computing-power等）
+6. 不要生成超过2个全局修饰符和1个生产方式解锁`,
+  maxTokens: 1500,
+  temperature: 0.7,
+});
+
+promptTemplateRegistry.register({
+  id: 'tech_effects',
+  version: 'v2',
+  description: '同 v1，启用 JSON 模式',
+  system: JSON_OBJECT_SYSTEM,
+  user: `你是一个游戏设计师，需要为供应链模拟游戏《供应链指挥官：算法都市》生成技术效果。
+
+研发概念：
+- 名称：{{conceptName}}
+- 描述：{{conceptDescription}}
+- 类别：{{category}}
+- 等级：{{tier}}/5
+
+可以解锁生产方式的建筑ID列表：
+{{buildings}}
+
+请生成合理的技术效果，返回JSON格式（不要markdown）：
+{
+  "globalModifiers": [
+    {
+      "type": "efficiency_boost" 或 "cost_reduction" 或 "output_increase" 或 "input_reduction",
+      "target": "all" 或 具体建筑类别(extraction/processing/manufacturing/service),
+      "value": 0.05到0.30之间的数值,
+      "description": "效果的中文描述"
+    }
+  ],
+  "productionMethodUnlocks": [
+    {
+      "buildingId": "适用的建筑ID（从上面列表选择）",
+      "method": {
+        "id": "唯一ID（英文小写加连字符）",
+        "name": "英文名",
+        "nameZh": "中文名",
+        "description": "方法描述",
+        "recipe": {
+          "inputs": [{"goodsId": "商品ID", "amount": 数量}],
+          "outputs": [{"goodsId": "商品ID", "amount": 数量}],
+          "ticksRequired": 1到5
+        },
+        "laborRequired": 50到300,
+        "powerRequired": 50到500,
+        "efficiency": 1.0到2.0
+      }
+    }
+  ]
+}
+
+规则：
+1. tier越高效果越强（tier 1: 5-10%, tier 5: 25-30%）
+2. 效果应与概念描述的领域相关
+3. 至少生成1个全局修饰符
+4. 如果概念与特定建筑相关，可生成对应的生产方式解锁
+5. 生产方式的recipe要合理（可用商品ID：iron-ore, steel, copper, electricity, coal, chemicals, computing-power等）
+6. 不要生成超过2个全局修饰符和1个生产方式解锁`,
+  maxTokens: 1500,
+  temperature: 0.7,
+  responseFormat: 'json_object',
+  isDefault: true,
+});
+
+promptTemplateRegistry.register({
+  id: 'market_events',
+  version: 'v1',
+  description: '一次生成一批市场事件，JSON 数组输出',
+  system: 'You are a JSON generator. Return only valid JSON arrays, no markdown, no explanation.',
+  user: `Generate {{eventCount}} different market events for a supply chain simulation game.
+Current tick: {{currentTick}}
+Market conditions: {{marketConditions}}
+
+Return ONLY a valid JSON array with {{eventCount}} events (no markdown, no explanation):
+[
+  {"type":"regulation","severity":"moderate","title":"简短中文标题1","description":"简短中文描述1","effects":{"priceChanges":{"steel":0.15}}},
+  {"type":"disaster","severity":"major","title":"简短中文标题2","description":"简短中文描述2","effects":{"priceChanges":{"coal":-0.2}}},
+  {"type":"social","severity":"minor","title":"简短中文标题3","description":"简短中文描述3","effects":{"priceChanges":{"food":0.1}}}
+]
+
+Rules:
+- Types: market_shift, regulation, disaster, technology, social
+- Severity: minor, moderate, major, critical
+- PriceChanges values: -0.3 to 0.3 (percent change, not absolute)
+- Goods: {{goods}}
+- Each event should affect different goods
+- Make events realistic and interesting for gameplay`,
+  maxTokens: 1000,
+  temperature: 0.8,
+});
+
+promptTemplateRegistry.register({
+  id: 'market_events',
+  version: 'v2',
+  description: 'JSON 模式只能返回对象，事件列表包在 events 字段中',
+  system: JSON_OBJECT_SYSTEM,
+  user: `Generate {{eventCount}} different market events for a supply chain simulation game.
+Current tick: {{currentTick}}
+Market conditions: {{marketConditions}}
+
+Return ONLY a JSON object whose "events" array holds {{eventCount}} events:
+{"events":[
+  {"type":"regulation","severity":"moderate","title":"简短中文标题1","description":"简短中文描述1","effects":{"priceChanges":{"steel":0.15}}},
+  {"type":"disaster","severity":"major","title":"简短中文标题2","description":"简短中文描述2","effects":{"priceChanges":{"coal":-0.2}}}
+]}
+
+Rules:
+- type: one of market_shift, regulation, disaster, technology, social
+- severity: one of minor, moderate, major, critical
+- priceChanges values: -0.3 to 0.3 (percent change, not absolute)
+- Goods: {{goods}}
+- Each event should affect different goods
+- Make events realistic and interesting for gameplay`,
+  maxTokens: 1000,
+  temperature: 0.8,
+  responseFormat: 'json_object',
+});
+
+promptTemplateRegistry.register({
+  id: 'market_events',
+  version: 'v3',
+  description: '事件可带持续时间和机制效果（禁止生产方式、资源产量、运营成本），到期回滚',
+  system: JSON_OBJECT_SYSTEM,
+  user: `Generate {{eventCount}} different market events for a supply chain simulation game.
+Current tick: {{currentTick}} (1 tick = 1 day)
+Market conditions: {{marketConditions}}
+
+Return ONLY a JSON object whose "events" array holds {{eventCount}} events:
+{"events":[
+  {"type":"regulation","severity":"major","title":"简短中文标题1","description":"简短中文描述1","durationTicks":60,"effects":{"priceChanges":{"steel":0.15},"modifiers":[{"type":"tech_block","target":"open-pit-mining","value":0}]}},
+  {"type":"disaster","severity":"moderate","title":"简短中文标题2","description":"简短中文描述2","durationTicks":30,"effects":{"supplyChanges":{"coal":-0.2},"modifiers":[{"type":"resource_depletion","target":"coal-mine","value":0.3}]}}
+]}
+
+Rules:
+- type: one of market_shift, regulation, disaster, technology, social
+- severity: one of minor, moderate, major, critical
+- priceChanges / supplyChanges values: -0.3 to 0.3 (percent change, not absolute)
+- durationTicks: 10 to 365; every effect of the event is reverted after this many days. Omit it for permanent changes
+- modifiers (optional, at most 2 per event):
+  - tech_block: ban production method "target" (regulation, disaster); tech_unlock: exempt a banned method
+  - resource_discovery / resource_depletion: raise / lower output of extraction building "target" by value (0 to 0.5)
+  - regulation_change: change operating cost of building "target" by value (-0.5 to 0.5); tax_change: change operating cost of all buildings, no target
+  - demand_modifier: change demand of goods "target" by value (-0.3 to 0.3)
+- Goods: {{goods}}
+- Production methods: {{methods}}
+- Extraction buildings: {{extractionBuildings}}
+- Each event should affect different goods
+- Make events realistic and interesting for gameplay`,
+  maxTokens: 1200,
+  temperature: 0.8,
+  responseFormat: 'json_object',
+  isDefault: true,
+});
+
+promptTemplateRegistry.register({
+  id: 'decision_event',
+  version: 'v1',
+  description: '生成一个带2-4个选项的玩家决策事件，选项效果限定为可结算的类型',
+  system: JSON_OBJECT_SYSTEM,
+  user: `你是供应链模拟游戏《供应链指挥官：算法都市》的事件设计师，需要生成一个要求玩家做出选择的经营事件。
+
+事件背景：{{trigger}}
+当前 tick：{{currentTick}}
+玩家现金：¥{{cash}}，建筑 {{buildingCount}} 座，涉足产业：{{industries}}
+市场状况：{{marketConditions}}
+竞争对手（公司ID:名称）：{{companies}}
+
+返回一个JSON对象（不要markdown）：
+{
+  "title": "简短中文标题",
+  "headline": "一句话新闻标题",
+  "description": "2-3句事件描述，说明玩家面临的抉择",
+  "category": "market" 或 "political" 或 "technology" 或 "social" 或 "environmental" 或 "corporate",
+  "severity": "info" 或 "warning" 或 "critical" 或 "opportunity",
+  "options": [
+    {
+      "label": "选项名称",
+      "description": "选项说明和可能后果",
+      "cost": 选择该项需立即支付的金额（元，可省略）,
+      "effects": [{"type": "效果类型", "target": "商品ID或公司ID", "value": 数值}],
+      "followUp": "该选择引发的后续事件梗概（可省略）"
+    }
+  ],
+  "defaultOption": 玩家超时未选择时采用的选项序号（从0开始）
+}
+
+规则：
+1. 给出2到4个选项，各有利弊，不要有明显的最优解
+2. 效果类型：
+   - price_modifier / supply_modifier / demand_modifier：target 为商品ID，value 为 -0.3 到 0.3 的变化比例
+   - fine_imposed / subsidy_grant：对玩家罚款 / 发放补贴，不填 target，value 为金额（元），不超过玩家现金的20%
+   - reputation_change：target 为公司ID（省略时影响所有竞争对手），value 为 -20 到 20 的信任度变化
+3. 可用商品ID：{{goods}}
+4. severity 为 critical 时游戏会暂停等待玩家选择，只用于真正紧急的事件
+5. 最多一个选项带 followUp`,
+  maxTokens: 1200,
+  temperature: 0.8,
+  responseFormat: 'json_object',
+});
+
+// ============================================
+// 每局游戏的版本选择
+// ============================================
+
+/** 版本选择存档状态 */
+export interface PromptSelectionState {
+  versions: Partial<Record<PromptTemplateId, string>>;
+}
+
+/**
+ * 每局游戏使用的模板版本（按游戏隔离）
+ */
+export class PromptSelection {
+  private versions = new Map<PromptTemplateId, string>();
+
+  /**
+   * 当前使用的版本（未选择时为默认版本）
+   */
+  getVersion(id: PromptTemplateId): string {
+    return this.versions.get(id) ?? promptTemplateRegistry.getDefaultVersion(id);
+  }
+
+  /**
+   * 选择版本
+   */
+  select(id: PromptTemplateId, version: string): { success: boolean; error?: string } {
+    if (!promptTemplateRegistry.hasVersion(id, version)) {
+      return { success: false, error: `模板 ${id} 没有版本 ${version}` };
+    }
+    this.versions.set(id, version);
+    console.log(`[PromptSelection] ${id} -> ${version}`);
+    return { success: true };
+  }
+
+  /**
+   * 所有模板当前使用的版本
+   */
+  getSelections(): Record<PromptTemplateId, string> {
+    const selections = {} as Record<PromptTemplateId, string>;
+    for (const id of PROMPT_TEMPLATE_IDS) {
+      selections[id] = this.getVersion(id);
+    }
+    return selections;
+  }
+
+  reset(): void {
+    this.versions.clear();
+  }
+
+  exportState(): PromptSelectionState {
+    return { versions: Object.fromEntries(this.versions) };
+  }
+
+  /**
+   * 恢复状态（已下线的版本回退为默认版本）
+   */
+  importState(state: PromptSelectionState): void {
+    this.versions.clear();
+    for (const id of PROMPT_TEMPLATE_IDS) {
+      const version = state.versions[id];
+      if (version !== undefined && promptTemplateRegistry.hasVersion(id, version)) {
+        this.versions.set(id, version);
+      }
+    }
+  }
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const promptSelection = worldScoped('promptSelection');
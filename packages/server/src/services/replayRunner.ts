@@ -0,0 +1,155 @@
+/**
+ * Replay Runner - 回放执行器
+ * 在全新的游戏中无界面重放指令日志，逐个比对状态校验点，报告首次分歧的位置
+ */
+
+import { randomUUID } from 'crypto';
+import { gameLoop } from './gameLoop.js';
+import {
+  applyPlayerCommand,
+  commandJournal,
+  REPLAY_FORMAT_VERSION,
+  type ReplayFile,
+  type StateCheckpoint,
+} from './commandJournal.js';
+
+/**
+ * 分歧详情
+ */
+export interface ReplayDivergence {
+  /** 校验点序号 */
+  checkpointIndex: number;
+  /** 首个不一致的校验点所在 tick */
+  tick: number;
+  /** 最后一个一致的校验点所在 tick（没有则为 null） */
+  lastMatchingTick: number | null;
+  expected: StateCheckpoint;
+  actual: StateCheckpoint | null;
+  /** 不一致的字段 */
+  fields: (keyof StateCheckpoint)[];
+}
+
+/**
+ * 回放报告
+ */
+export interface ReplayReport {
+  success: boolean;
+  error?: string;
+  /** 与记录完全一致 */
+  matched?: boolean;
+  ticksSimulated?: number;
+  commandsApplied?: number;
+  checkpointsCompared?: number;
+  finalTick?: number;
+  finalPlayerCash?: number;
+  divergence?: ReplayDivergence;
+}
+
+/**
+ * 回放执行器
+ */
+export class ReplayRunner {
+  /**
+   * 重放回放文件
+   * 回放在临时游戏中进行，结束后销毁
+   */
+  async run(replay: ReplayFile): Promise<ReplayReport> {
+    if (replay.version !== REPLAY_FORMAT_VERSION) {
+      return { success: false, error: `不支持的回放版本: ${replay.version}` };
+    }
+
+    const gameId = `replay-${randomUUID()}`;
+    gameLoop.getOrCreateGame(gameId, replay.playerCompanyId, {
+      name: replay.name,
+      playerCompanyName: replay.playerCompanyName,
+      seed: replay.seed,
+      ...(replay.scenarioId !== undefined ? { scenarioId: replay.scenarioId } : {}),
+      ...(replay.difficulty !== undefined ? { difficulty: replay.difficulty } : {}),
+    });
+    console.log(`[Replay] Replaying ${replay.gameId} (seed ${replay.seed}, ${replay.entries.length} commands, ${replay.totalTicks} ticks) as ${gameId}`);
+
+    try {
+      let next = 0;
+      let ticksSimulated = 0;
+
+      const applyDueCommands = (final: boolean) => {
+        for (let entry = replay.entries[next]; entry; entry = replay.entries[next]) {
+          const game = gameLoop.getGame(gameId);
+          if (!final && game && entry.tick > game.currentTick) break;
+          applyPlayerCommand(gameId, entry.command);
+          next++;
+        }
+      };
+
+      while (ticksSimulated < replay.totalTicks) {
+        applyDueCommands(false);
+        gameLoop.advanceTick(gameId);
+        ticksSimulated++;
+
+        // 与实时运行一致：tick 之间让出事件循环，异步结果（AI战略、市场事件等）在下一 tick 前落地
+        await new Promise<void>(resolve => setImmediate(resolve));
+      }
+      // 最后一个 tick 之后发出的指令
+      applyDueCommands(true);
+
+      const actual = commandJournal.getCheckpoints(gameId);
+      const divergence = this.findDivergence(replay.checkpoints, actual);
+      const game = gameLoop.getGame(gameId);
+
+      if (divergence) {
+        console.log(`[Replay] Diverged at tick ${divergence.tick} (fields: ${divergence.fields.join(', ')})`);
+      } else {
+        console.log(`[Replay] Replay matched ${replay.checkpoints.length} checkpoints`);
+      }
+
+      return {
+        success: true,
+        matched: !divergence,
+        ticksSimulated,
+        commandsApplied: next,
+        checkpointsCompared: replay.checkpoints.length,
+        finalTick: game?.currentTick ?? 0,
+        finalPlayerCash: game?.playerCash ?? 0,
+        ...(divergence ? { divergence } : {}),
+      };
+    } catch (error) {
+      console.error('[Replay] Replay failed:', error);
+      return { success: false, error: String(error) };
+    } finally {
+      gameLoop.destroyGame(gameId);
+      commandJournal.clear(gameId);
+    }
+  }
+
+  /**
+   * 逐个比对校验点，返回首个分歧
+   */
+  private findDivergence(expected: StateCheckpoint[], actual: StateCheckpoint[]): ReplayDivergence | undefined {
+    let lastMatchingTick: number | null = null;
+
+    for (const [i, exp] of expected.entries()) {
+      const act = actual[i];
+
+      const fields: (keyof StateCheckpoint)[] = act
+        ? (['tick', 'digest', 'playerCash', 'buildingCount'] as const).filter(field => exp[field] !== act[field])
+        : ['tick', 'digest', 'playerCash', 'buildingCount'];
+
+      if (fields.length > 0) {
+        return {
+          checkpointIndex: i,
+          tick: exp.tick,
+          lastMatchingTick,
+          expected: exp,
+          actual: act ?? null,
+          fields,
+        };
+      }
+      lastMatchingTick = exp.tick;
+    }
+
+    return undefined;
+  }
+}
+
+// 导出单例
+export const replayRunner = new ReplayRunner();
@@ -0,0 +1,428 @@
+/**
+ * Research Events - 研发事件
+ *
+ * 进行中的研发项目在推进过程中随机遭遇事件，发生概率和事件类型的分布取决于项目的风险等级：
+ * 风险越高，事件越频繁，挫折、技术难题和研究员离职越常见，重大突破也越多
+ *
+ * - 突破 / 新发现 / 挫折 / 资源短缺：立即生效（进度、目标成本变化）
+ * - 阶段性成果：进度首次过半时出现，成功率小幅提高
+ * - 技术难题 / 核心研究员离职 / 竞争对手抢先发表：需要公司决定是否追加资金，
+ *   追加则化解（或加速），不追加、超时未答复则承受进度和成功率损失；AI 公司按现金状况自动决定
+ *
+ * 事件效果通过 ResearchService.applyEventEffect 作用到项目，玩家公司的事件随 TickUpdate.researchUpdates 推送
+ */
+
+import { ResearchEventType, type ResearchEvent, type RiskLevel } from '@scc/shared';
+import { researchService, type ResearchEventEffect } from './researchService.js';
+import { inventoryManager } from './inventoryManager.js';
+import { aiCompanyManager } from './aiCompanyManager.js';
+import { rng } from './rng.js';
+import { worldScoped } from './worldContext.js';
+
+/** 各风险等级每次检查（RESEARCH_PROGRESS 执行一次）发生随机事件的概率 */
+const EVENT_CHANCE_BY_RISK: Record<RiskLevel, number> = {
+  minimal: 0.02,
+  low: 0.03,
+  moderate: 0.04,
+  high: 0.06,
+  extreme: 0.08,
+};
+
+/** 风险等级序号（用于调整事件类型权重） */
+const RISK_INDEX: Record<RiskLevel, number> = {
+  minimal: 0,
+  low: 1,
+  moderate: 2,
+  high: 3,
+  extreme: 4,
+};
+
+/** 阶段性成果出现的进度 */
+const MILESTONE_PROGRESS = 50;
+
+/** 研发决策的答复期限（ticks），超时视为不追加资金 */
+const DECISION_DEADLINE = 20;
+
+/** AI 公司追加资金的现金门槛（追加金额的倍数） */
+const AI_FUNDING_CASH_MULTIPLE = 5;
+
+/** 保留的已结束事件数量 */
+const MAX_HISTORY = 100;
+
+/** 决策结果：追加资金 / 不追加 / 超时 */
+export type ResearchDecisionChoice = 'accepted' | 'declined' | 'expired';
+
+/** 需要决定是否追加资金的研发事件 */
+export interface ResearchEventDecision {
+  /** 追加资金 */
+  cost: number;
+  acceptLabel: string;
+  declineLabel: string;
+  acceptEffect: ResearchEventEffect;
+  declineEffect: ResearchEventEffect;
+  deadlineTick: number;
+  choice?: ResearchDecisionChoice;
+  resolvedAt?: number;
+}
+
+/** 研发事件记录 */
+export interface ResearchEventRecord extends ResearchEvent {
+  companyId: string;
+  projectName: string;
+  /** 需要决策的事件（决策前 effect 为空，决策后记录实际生效的影响） */
+  decision?: ResearchEventDecision;
+}
+
+/** 研发事件更新（随 TickUpdate.researchUpdates 推送） */
+export interface ResearchEventUpdate {
+  type: 'occurred' | 'resolved';
+  event: ResearchEventRecord;
+  message: string;
+}
+
+/** 研发决策结果 */
+export interface ResearchDecisionResult {
+  success: boolean;
+  error?: string;
+  update?: ResearchEventUpdate;
+}
+
+/** 研发事件存档数据 */
+export interface ResearchEventsSnapshotState {
+  events: ResearchEventRecord[];
+  /** 已出现阶段性成果的项目 */
+  milestoneProjectIds: string[];
+}
+
+/** 事件草稿（由模板按项目生成） */
+type ResearchEventDraft = Pick<ResearchEventRecord, 'type' | 'title' | 'description' | 'effect'> & {
+  decision?: Omit<ResearchEventDecision, 'deadlineTick'>;
+};
+
+/** 随机事件模板 */
+interface ResearchEventTemplate {
+  type: ResearchEventType;
+  /** 按风险等级序号计算的权重 */
+  weight(riskIndex: number): number;
+  create(projectName: string, targetCost: number): ResearchEventDraft;
+}
+
+const TEMPLATES: [ResearchEventTemplate, ...ResearchEventTemplate[]] = [
+  {
+    type: ResearchEventType.Breakthrough,
+    weight: risk => 3 + risk * 0.5,
+    create: projectName => {
+      const progressBonus = 8 + rng.nextInt(13);
+      return {
+        type: ResearchEventType.Breakthrough,
+        title: '重大突破',
+        description: `「${projectName}」团队取得关键突破，研发进度 +${progressBonus}%`,
+        effect: { progressBonus },
+      };
+    },
+  },
+  {
+    type: ResearchEventType.Discovery,
+    weight: () => 3,
+    create: projectName => ({
+      type: ResearchEventType.Discovery,
+      title: '意外发现',
+      description: `「${projectName}」找到了更便宜的实验路线，剩余目标成本降低 10%`,
+      effect: { costReduction: 0.1 },
+    }),
+  },
+  {
+    type: ResearchEventType.Setback,
+    weight: risk => 2 + risk,
+    create: projectName => {
+      const progressBonus = -(5 + rng.nextInt(11));
+      return {
+        type: ResearchEventType.Setback,
+        title: '实验失败',
+        description: `「${projectName}」的关键实验失败，研发进度 ${progressBonus}%`,
+        effect: { progressBonus },
+      };
+    },
+  },
+  {
+    type: ResearchEventType.ResourceShortage,
+    weight: () => 2,
+    create: projectName => ({
+      type: ResearchEventType.ResourceShortage,
+      title: '实验材料短缺',
+      description: `「${projectName}」所需的实验材料涨价，目标成本增加 10%`,
+      effect: { costReduction: -0.1 },
+    }),
+  },
+  {
+    type: ResearchEventType.Complication,
+    weight: risk => 1 + risk * 0.5,
+    create: (projectName, targetCost) => ({
+      type: ResearchEventType.Complication,
+      title: '技术难题',
+      description: `「${projectName}」遇到了预料之外的技术难题，需要追加资金请外部专家攻关`,
+      decision: {
+        cost: Math.round(targetCost * 0.15),
+        acceptLabel: '追加资金攻关',
+        declineLabel: '绕开问题继续',
+        acceptEffect: {},
+        declineEffect: { riskChange: 0.15 },
+      },
+    }),
+  },
+  {
+    type: ResearchEventType.ResearcherDeparture,
+    weight: risk => 1 + risk * 0.25,
+    create: (projectName, targetCost) => ({
+      type: ResearchEventType.ResearcherDeparture,
+      title: '核心研究员拟离职',
+      description: `「${projectName}」的首席研究员收到了竞争对手的高薪邀请`,
+      decision: {
+        cost: Math.round(targetCost * 0.1),
+        acceptLabel: '发放留任奖金',
+        declineLabel: '放人离开',
+        acceptEffect: {},
+        declineEffect: { progressBonus: -10, riskChange: 0.05 },
+      },
+    }),
+  },
+  {
+    type: ResearchEventType.CompetitorPublished,
+    weight: () => 1,
+    create: (projectName, targetCost) => {
+      const competitor = rng.pick(Array.from(aiCompanyManager.getCompanies().values()));
+      return {
+        type: ResearchEventType.CompetitorPublished,
+        title: '竞争对手抢先发表',
+        description: `${competitor?.name ?? '一家竞争对手'}抢先发表了与「${projectName}」相近的研究成果`,
+        decision: {
+          cost: Math.round(targetCost * 0.2),
+          acceptLabel: '追加资金加速研发',
+          declineLabel: '按原计划推进',
+          acceptEffect: { progressBonus: 15 },
+          declineEffect: { riskChange: 0.1 },
+        },
+      };
+    },
+  },
+];
+
+/**
+ * 研发事件
+ * 每个游戏世界一个实例
+ */
+export class ResearchEventService {
+  private events = new Map<string, ResearchEventRecord>();
+  private milestoneProjectIds = new Set<string>();
+
+  /**
+   * 为进行中的项目生成事件并处理到期的决策，返回玩家公司的事件更新
+   */
+  processTick(currentTick: number, playerCompanyId: string): ResearchEventUpdate[] {
+    const updates: ResearchEventUpdate[] = [];
+
+    for (const record of this.events.values()) {
+      if (!record.decision || record.decision.choice) continue;
+      const project = researchService.getProject(record.projectId);
+      const active = project?.status.toLowerCase() === 'active';
+      if (!active) {
+        this.resolve(record, record.decision, 'expired', currentTick, false);
+      } else if (currentTick >= record.decision.deadlineTick) {
+        updates.push(this.resolve(record, record.decision, 'expired', currentTick, true));
+      }
+    }
+
+    for (const project of researchService.getActiveProjects()) {
+      const riskLevel = project.feasibility?.riskLevel ?? 'moderate';
+
+      if (project.progress >= MILESTONE_PROGRESS && !this.milestoneProjectIds.has(project.id)) {
+        this.milestoneProjectIds.add(project.id);
+        updates.push(this.occur(project.id, project.companyId, project.concept.name, {
+          type: ResearchEventType.Milestone,
+          title: '阶段性成果',
+          description: `「${project.concept.name}」完成过半，原型验证顺利，成功率提高`,
+          effect: { riskChange: -0.03 },
+        }, currentTick));
+      }
+
+      if (this.hasPendingDecision(project.id)) continue;
+      if (rng.next() >= EVENT_CHANCE_BY_RISK[riskLevel]) continue;
+
+      const draft = pickTemplate(RISK_INDEX[riskLevel]).create(project.concept.name, project.targetCost);
+      const update = this.occur(project.id, project.companyId, project.concept.name, draft, currentTick);
+      updates.push(update);
+
+      // AI 公司当场决定是否追加资金
+      if (update.event.decision && project.companyId !== playerCompanyId) {
+        const affordable = inventoryManager.getCash(project.companyId) >= update.event.decision.cost * AI_FUNDING_CASH_MULTIPLE;
+        updates.push(this.decide(update.event, update.event.decision, affordable, currentTick));
+      }
+    }
+
+    this.pruneHistory();
+    return updates.filter(update => update.event.companyId === playerCompanyId);
+  }
+
+  /**
+   * 答复研发决策：追加资金或放弃
+   */
+  respond(companyId: string, eventId: string, accept: boolean, currentTick: number): ResearchDecisionResult {
+    const record = this.events.get(eventId);
+    if (record?.companyId !== companyId || !record.decision) {
+      return { success: false, error: '研发事件不存在' };
+    }
+    if (record.decision.choice) {
+      return { success: false, error: '该事件已处理' };
+    }
+    if (accept && inventoryManager.getCash(companyId) < record.decision.cost) {
+      return { success: false, error: '资金不足' };
+    }
+
+    return { success: true, update: this.decide(record, record.decision, accept, currentTick) };
+  }
+
+  /**
+   * 公司的研发事件（待决策的在前，其余按时间倒序）
+   */
+  getEvents(companyId: string): ResearchEventRecord[] {
+    return Array.from(this.events.values())
+      .filter(record => record.companyId === companyId)
+      .sort((a, b) => Number(isPending(b)) - Number(isPending(a)) || b.tick - a.tick);
+  }
+
+  /**
+   * 导出状态（用于存档）
+   */
+  exportState(): ResearchEventsSnapshotState {
+    return structuredClone({
+      events: Array.from(this.events.values()),
+      milestoneProjectIds: Array.from(this.milestoneProjectIds),
+    });
+  }
+
+  /**
+   * 从存档恢复状态
+   */
+  importState(snapshot: ResearchEventsSnapshotState): void {
+    const state = structuredClone(snapshot);
+    this.events = new Map(state.events.map(record => [record.id, record]));
+    this.milestoneProjectIds = new Set(state.milestoneProjectIds);
+    console.log(`[ResearchEvents] Restored ${this.events.size} research events`);
+  }
+
+  private occur(
+    projectId: string,
+    companyId: string,
+    projectName: string,
+    draft: ResearchEventDraft,
+    currentTick: number
+  ): ResearchEventUpdate {
+    const record: ResearchEventRecord = {
+      id: `research-event-${rng.nextId(12)}`,
+      projectId,
+      companyId,
+      projectName,
+      tick: currentTick,
+      type: draft.type,
+      title: draft.title,
+      description: draft.description,
+      ...(draft.effect ? { effect: draft.effect } : {}),
+      ...(draft.decision ? { decision: { ...draft.decision, deadlineTick: currentTick + DECISION_DEADLINE } } : {}),
+    };
+    this.events.set(record.id, record);
+
+    if (record.effect) {
+      researchService.applyEventEffect(projectId, record.effect);
+    }
+
+    console.log(`[ResearchEvents] ${projectName}: ${record.title}`);
+    return {
+      type: 'occurred',
+      event: record,
+      message: record.decision
+        ? `🔬 ${record.title}：${record.description}（需在 ${DECISION_DEADLINE} 天内决定是否追加资金）`
+        : `🔬 ${record.title}：${record.description}`,
+    };
+  }
+
+  /**
+   * 按决定扣款并生效（追加资金时现金不足视为放弃）
+   */
+  private decide(
+    record: ResearchEventRecord,
+    decision: ResearchEventDecision,
+    accept: boolean,
+    currentTick: number
+  ): ResearchEventUpdate {
+    if (accept && inventoryManager.getCash(record.companyId) >= decision.cost) {
+      inventoryManager.deductCash(record.companyId, decision.cost, currentTick, 'research_event');
+      return this.resolve(record, decision, 'accepted', currentTick, true);
+    }
+    return this.resolve(record, decision, 'declined', currentTick, true);
+  }
+
+  /**
+   * 结束决策并应用对应的影响（项目已结束时不再生效）
+   */
+  private resolve(
+    record: ResearchEventRecord,
+    decision: ResearchEventDecision,
+    choice: ResearchDecisionChoice,
+    currentTick: number,
+    apply: boolean
+  ): ResearchEventUpdate {
+    decision.choice = choice;
+    decision.resolvedAt = currentTick;
+
+    const effect = choice === 'accepted' ? decision.acceptEffect : decision.declineEffect;
+    if (apply) {
+      record.effect = effect;
+      researchService.applyEventEffect(record.projectId, effect);
+    }
+
+    const label = choice === 'accepted' ? decision.acceptLabel : decision.declineLabel;
+    return {
+      type: 'resolved',
+      event: record,
+      message: `🔬 「${record.projectName}」${record.title}：${choice === 'expired' ? `未及时决定，${label}` : label}`,
+    };
+  }
+
+  private hasPendingDecision(projectId: string): boolean {
+    return Array.from(this.events.values()).some(record => record.projectId === projectId && isPending(record));
+  }
+
+  /**
+   * 只保留最近的已结束事件
+   */
+  private pruneHistory(): void {
+    const closed = Array.from(this.events.values())
+      .filter(record => !isPending(record))
+      .sort((a, b) => a.tick - b.tick);
+    for (const record of closed.slice(0, Math.max(0, closed.length - MAX_HISTORY))) {
+      this.events.delete(record.id);
+    }
+  }
+}
+
+function isPending(record: ResearchEventRecord): boolean {
+  return record.decision !== undefined && record.decision.choice === undefined;
+}
+
+/**
+ * 按风险等级加权随机选择事件模板
+ */
+function pickTemplate(riskIndex: number): ResearchEventTemplate {
+  const weighted = TEMPLATES.map(template => ({ template, weight: template.weight(riskIndex) }));
+  let roll = rng.next() * weighted.reduce((sum, entry) => sum + entry.weight, 0);
+  let picked = TEMPLATES[0];
+  for (const { template, weight } of weighted) {
+    picked = template;
+    roll -= weight;
+    if (roll < 0) break;
+  }
+  return picked;
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const researchEvents = worldScoped('researchEvents');
@@ -4,7 +4,9 @@
  */
 
 import { llmService } from './llm.js';
-import { BUILDINGS_DATA } from '@scc/shared';
+import { BUILDINGS_DATA, TECH_KEYWORDS, TECH_PREREQUISITE_RULES, tickToGameTimestamp, type TechConstellationNode } from '@scc/shared';
+import { rng } from './rng.js';
+import { worldScoped } from './worldContext.js';
 
 // ============================================
 // Local Type Definitions (避免类型导出问题)
@@ -38,7 +40,7 @@ interface ResearchConcept {
 }
 
 /** Feasibility evaluation */
-interface FeasibilityEvaluation {
+export interface FeasibilityEvaluation {
   score: number;
   estimatedCost: number;
   estimatedTicks: number;
@@ -51,7 +53,7 @@ interface FeasibilityEvaluation {
 }
 
 /** Research project */
-interface ResearchProject {
+export interface ResearchProject {
   id: string;
   companyId: string;
   technologyId?: string;
@@ -65,6 +67,38 @@ interface ResearchProject {
   completedAt?: number;
   researcherCount: number;
   resultTechnologyId?: string;
+  /** 评估时推导的前置技术及其对成本、成功率的影响 */
+  prerequisiteAssessment?: PrerequisiteAssessment;
+  /** 研发事件累计的风险变化（正数降低成功率） */
+  riskModifier?: number;
+}
+
+/** 研发事件对项目的影响 */
+export interface ResearchEventEffect {
+  /** 进度变化（百分点，负数为倒退） */
+  progressBonus?: number;
+  /** 目标成本降低比例（负数为增加） */
+  costReduction?: number;
+  /** 风险变化（正数降低成功率） */
+  riskChange?: number;
+}
+
+/** 前置技术 */
+interface PrerequisiteEntry {
+  /** 对应的已有技术（尚无该领域技术时为空） */
+  technologyId?: string;
+  name: string;
+}
+
+/** 前置技术评估 */
+export interface PrerequisiteAssessment {
+  prerequisites: (PrerequisiteEntry & { owned: boolean })[];
+  ownedCount: number;
+  missingCount: number;
+  /** 研发成本倍率 */
+  costMultiplier: number;
+  /** 研发完成时的成功概率 */
+  successChance: number;
 }
 
 /** Technology side effect */
@@ -116,6 +150,7 @@ interface Technology {
   /** 生产方式解锁（用于TechnologyEffectManager） */
   productionMethodUnlocks?: ProductionMethodUnlock[];
   patentHolderId?: string;
+  /** 专利到期 tick（与 Patent.expiresAt 一致） */
   patentExpiresAt?: number;
   sideEffects?: TechnologySideEffect[];
   category: TechnologyCategory;
@@ -124,7 +159,7 @@ interface Technology {
 }
 
 /** Patent */
-interface Patent {
+export interface Patent {
   id: string;
   technologyId: string;
   holderId: string;
@@ -134,6 +169,8 @@ interface Patent {
   licensees: string[];
   licenseFee: number;
   status: PatentStatus;
+  /** 正在挑战该专利的公司 */
+  challengedBy?: string[];
 }
 
 /** Production method unlock */
@@ -211,6 +248,29 @@ interface TechnologyGenerationResponse {
   globalModifiers?: TechnologyModifier[];
 }
 
+/** 科技星图节点 */
+export interface TechGraphNode extends TechConstellationNode {
+  name: string;
+  category: TechnologyCategory;
+  tier: number;
+  canUse: boolean;
+  patentHolderId?: string;
+}
+
+/** 科技星图连线（前置技术 → 技术） */
+export interface TechGraphEdge {
+  from: string;
+  to: string;
+  /** 公司是否可使用前置技术 */
+  satisfied: boolean;
+}
+
+/** 公司视角的科技星图 */
+export interface TechGraph {
+  nodes: TechGraphNode[];
+  edges: TechGraphEdge[];
+}
+
 /** 研发项目状态 */
 export interface ResearchState {
   projects: Map<string, ResearchProject>;
@@ -218,6 +278,13 @@ export interface ResearchState {
   patents: Map<string, Patent>;
 }
 
+/** 研发状态存档数据 */
+export interface ResearchSnapshot {
+  projects: ResearchProject[];
+  technologies: Technology[];
+  patents: Patent[];
+}
+
 /** 创建研发项目的请求 */
 export interface CreateResearchRequest {
   companyId: string;
@@ -230,6 +297,7 @@ export interface CreateResearchRequest {
 export interface EvaluationResult {
   success: boolean;
   feasibility?: FeasibilityEvaluation;
+  prerequisiteAssessment?: PrerequisiteAssessment;
   error?: string;
 }
 
@@ -258,6 +326,17 @@ export class ResearchService {
   // 调整为更快的进度：资金充足时每tick增加0.5%，约200 tick (~3分钟)完成
   private readonly PROGRESS_PER_TICK_BASE = 0.5;
 
+  // 每缺少一项前置技术成本 +50%、成功率 -20%；每拥有一项成本 -10%（最多 -30%）、成功率 +5%
+  private readonly MISSING_PREREQUISITE_COST = 0.5;
+  private readonly OWNED_PREREQUISITE_DISCOUNT = 0.1;
+  private readonly MAX_PREREQUISITE_DISCOUNT = 0.3;
+  private readonly MISSING_PREREQUISITE_PENALTY = 0.2;
+  private readonly OWNED_PREREQUISITE_BONUS = 0.05;
+
+  // 自动推导时同类别低阶技术的最低关键词相似度，以及前置技术数量上限
+  private readonly RELATED_TECH_SIMILARITY = 0.3;
+  private readonly MAX_DERIVED_PREREQUISITES = 3;
+
   /**
    * 初始化研发状态
    */
@@ -277,6 +356,30 @@ export class ResearchService {
     return this.state;
   }
 
+  /**
+   * 导出研发状态（用于存档）
+   */
+  exportState(): ResearchSnapshot {
+    return structuredClone({
+      projects: Array.from(this.state.projects.values()),
+      technologies: Array.from(this.state.technologies.values()),
+      patents: Array.from(this.state.patents.values()),
+    });
+  }
+
+  /**
+   * 从存档恢复研发状态
+   */
+  importState(snapshot: ResearchSnapshot): void {
+    const state = structuredClone(snapshot);
+    this.state = {
+      projects: new Map(state.projects.map(p => [p.id, p])),
+      technologies: new Map(state.technologies.map(t => [t.id, t])),
+      patents: new Map(state.patents.map(p => [p.id, p])),
+    };
+    console.log(`[ResearchService] Restored ${this.state.projects.size} projects, ${this.state.technologies.size} technologies`);
+  }
+
   /**
    * 获取公司的所有研发项目
    */
@@ -285,6 +388,21 @@ export class ResearchService {
       .filter(p => p.companyId === companyId);
   }
 
+  /**
+   * 获取研发项目
+   */
+  getProject(projectId: string): ResearchProject | undefined {
+    return this.state.projects.get(projectId);
+  }
+
+  /**
+   * 获取所有进行中的研发项目
+   */
+  getActiveProjects(): ResearchProject[] {
+    return Array.from(this.state.projects.values())
+      .filter(p => p.status.toLowerCase() === 'active');
+  }
+
   /**
    * 获取所有已发现的技术
    */
@@ -313,7 +431,7 @@ export class ResearchService {
     };
 
     const project: ResearchProject = {
-      id: crypto.randomUUID(),
+      id: `project-${rng.nextId(12)}`,
       companyId: request.companyId,
       concept,
       status: 'Planning' as unknown as ResearchStatus,
@@ -337,7 +455,8 @@ export class ResearchService {
       existingTechnologies: string[];
       cash: number;
       researchCapacity: number;
-    }
+    },
+    currentTick = 0
   ): Promise<EvaluationResult> {
     const project = this.state.projects.get(projectId);
     if (!project) {
@@ -359,31 +478,54 @@ export class ResearchService {
 
       const response = await this.callLLMForEvaluation(evaluationRequest);
 
+      // 按概念的关键词、类别和预计层级推导前置技术，调整成本和成功率
+      const prerequisites = this.derivePrerequisites(
+        project.concept.description,
+        this.inferCategory(project.concept.description),
+        this.estimateTier(response.feasibilityScore)
+      );
+      const assessment = this.assessPrerequisites(prerequisites, project.companyId, response.feasibilityScore, currentTick);
+
       const feasibility: FeasibilityEvaluation = {
         score: response.feasibilityScore,
-        estimatedCost: response.estimatedCost,
+        estimatedCost: Math.round(response.estimatedCost * assessment.costMultiplier),
         estimatedTicks: response.estimatedMonths * 30, // 月转tick（1 tick = 1天）
-        prerequisites: response.prerequisites,
+        prerequisites: [...response.prerequisites, ...prerequisites.map(entry => entry.name)],
         risks: response.risks,
         riskLevel: response.riskLevel,
         scientistComment: response.scientistComment,
         keywordAnalysis: response.keywordAnalysis,
-        evaluatedAt: Date.now(),
+        evaluatedAt: tickToGameTimestamp(currentTick),
       };
 
-      // 更新项目
-      project.feasibility = feasibility;
-      project.targetCost = feasibility.estimatedCost;
-      this.state.projects.set(projectId, project);
-
-      console.log(`[ResearchService] Evaluated project ${projectId}: feasibility=${feasibility.score}`);
-      return { success: true, feasibility };
+      if (!this.applyEvaluation(projectId, feasibility, assessment)) {
+        return { success: false, error: 'Project not found' };
+      }
+      return { success: true, feasibility, prerequisiteAssessment: assessment };
     } catch (error) {
       console.error('[ResearchService] Evaluation error:', error);
       return { success: false, error: String(error) };
     }
   }
 
+  /**
+   * 写入评估结果（evaluateConcept 评估完成时调用；重放时直接写入日志中的结果，不再调用LLM）
+   */
+  applyEvaluation(projectId: string, feasibility: FeasibilityEvaluation, assessment: PrerequisiteAssessment): boolean {
+    const project = this.state.projects.get(projectId);
+    if (!project) {
+      return false;
+    }
+
+    project.feasibility = structuredClone(feasibility);
+    project.targetCost = feasibility.estimatedCost;
+    project.prerequisiteAssessment = structuredClone(assessment);
+    this.state.projects.set(projectId, project);
+
+    console.log(`[ResearchService] Evaluated project ${projectId}: feasibility=${feasibility.score}, prerequisites=${assessment.ownedCount}/${assessment.prerequisites.length}, success=${(assessment.successChance * 100).toFixed(0)}%`);
+    return true;
+  }
+
   /**
    * 启动研发项目
    */
@@ -460,12 +602,18 @@ export class ResearchService {
         console.log(`[ResearchService] ACTIVE Project ${project.concept?.name}: ${oldProgress.toFixed(2)}% -> ${project.progress.toFixed(2)}%, funding ratio=${fundingRatio.toFixed(2)}`);
       }
 
-      // 检查是否完成
+      // 检查是否完成：按完成时拥有的前置技术重新计算成功率，失败则投入的资金全部损失
       if (project.progress >= 100 && project.investedFunds >= project.targetCost * 0.9) {
-        project.status = 'Completed' as unknown as ResearchStatus;
         project.completedAt = currentTick;
-        completedProjects.push(projectId);
-        console.log(`[ResearchService] Project completed: ${projectId}`);
+        const successChance = this.getSuccessChance(project, currentTick);
+        if (rng.next() < successChance) {
+          project.status = 'Completed';
+          completedProjects.push(projectId);
+          console.log(`[ResearchService] Project completed: ${projectId}`);
+        } else {
+          project.status = 'Failed';
+          console.log(`[ResearchService] Project failed: ${projectId} (success chance ${(successChance * 100).toFixed(0)}%)`);
+        }
       }
 
       this.state.projects.set(projectId, project);
@@ -560,7 +708,7 @@ export class ResearchService {
     request: TechnologyGenerationRequest
   ): Promise<TechnologyGenerationResponse> {
     const category = this.inferCategory(request.concept.description);
-    const tier = Math.min(5, Math.ceil(request.feasibility.score / 20));
+    const tier = this.estimateTier(request.feasibility.score);
     const sideEffects = this.generateSideEffects(request);
 
     // 获取现有建筑ID列表
@@ -630,7 +778,7 @@ export class ResearchService {
     currentTick: number
   ): Technology {
     const sideEffects: TechnologySideEffect[] = response.sideEffects.map(se => ({
-      id: crypto.randomUUID(),
+      id: `side-effect-${rng.nextId(12)}`,
       name: `${se.type}风险`,
       description: se.description,
       type: se.type as SideEffectType,
@@ -648,23 +796,23 @@ export class ResearchService {
     }));
 
     return {
-      id: crypto.randomUUID(),
+      id: `tech-${rng.nextId(12)}`,
       name: response.name,
       nameZh: response.nameZh,
       description: response.description,
       isLLMGenerated: true,
       generatedFromPrompt: project.concept.originalPrompt,
-      generatedAt: Date.now(),
+      generatedAt: tickToGameTimestamp(currentTick),
       researchCost: project.investedFunds,
       researchTicks: (project.completedAt ?? currentTick) - (project.startedAt ?? 0),
-      prerequisites: [],
+      prerequisites: this.resolvePrerequisiteIds(project, response),
       unlockedMethods: [],
       unlockedBuildings: [],
       unlockedGoods: [],
       globalModifiers: response.globalModifiers ?? [],
       productionMethodUnlocks: response.productionMethods ?? [],
       patentHolderId: project.companyId,
-      patentExpiresAt: Date.now() + this.PATENT_DURATION * 1000 * 3600,
+      patentExpiresAt: currentTick + this.PATENT_DURATION,
       sideEffects,
       category: response.category as TechnologyCategory,
       tier: response.tier,
@@ -681,7 +829,7 @@ export class ResearchService {
     currentTick: number
   ): Patent {
     return {
-      id: crypto.randomUUID(),
+      id: `patent-${rng.nextId(12)}`,
       technologyId: technology.id,
       holderId,
       grantedAt: currentTick,
@@ -709,21 +857,7 @@ export class ResearchService {
    * 提取关键词
    */
   private extractKeywords(description: string): string[] {
-    const keywords: string[] = [];
-    const techTerms = [
-      '能源', '电力', '太阳能', '核能', '生物',
-      '自动化', 'AI', '机器人', '芯片', '半导体',
-      '材料', '合金', '塑料', '化学', '环保',
-      '高效', '低成本', '创新', '突破',
-    ];
-
-    for (const term of techTerms) {
-      if (description.includes(term)) {
-        keywords.push(term);
-      }
-    }
-
-    return keywords;
+    return TECH_KEYWORDS.filter(term => description.includes(term));
   }
 
   /**
@@ -781,8 +915,8 @@ export class ResearchService {
         description: this.generateSideEffectDescription(type, request.concept.name),
         severity: this.pickSeverity(riskLevel, i),
         triggerCondition: '大规模使用后',
-        delayMonths: 3 + Math.floor(Math.random() * 9),
-        probability: 0.3 + Math.random() * 0.4,
+        delayMonths: 3 + rng.nextInt(9),
+        probability: 0.3 + rng.next() * 0.4,
       });
     }
 
@@ -860,7 +994,7 @@ export class ResearchService {
     };
 
     const options = descriptions[type];
-    return options[Math.floor(Math.random() * options.length)] ?? options[0] ?? '';
+    return options[rng.nextInt(options.length)] ?? options[0] ?? '';
   }
 
   /**
@@ -936,7 +1070,7 @@ export class ResearchService {
         if (ticksSinceCompletion < sideEffect.delayTicks) continue;
 
         // 概率检查是否触发
-        if (Math.random() > sideEffect.probability) {
+        if (rng.next() > sideEffect.probability) {
           // 这次没触发，继续等待（可以在后续tick再检查）
           // 但为了避免无限等待，每次过了delay后都有概率触发
           // 如果概率检查失败，可以增加一个"累积触发机会"
@@ -1025,8 +1159,7 @@ export class ResearchService {
    */
   checkPatentExpiry(currentTick: number): void {
     for (const [patentId, patent] of this.state.patents) {
-      if (patent.status === ('Active' as unknown as PatentStatus) && 
-          currentTick >= patent.expiresAt) {
+      if (this.isEnforceable(patent) && currentTick >= patent.expiresAt) {
         patent.status = 'Expired' as unknown as PatentStatus;
         this.state.patents.set(patentId, patent);
         console.log(`[ResearchService] Patent expired: ${patentId}`);
@@ -1039,7 +1172,7 @@ export class ResearchService {
    */
   grantLicense(patentId: string, licenseeId: string): boolean {
     const patent = this.state.patents.get(patentId);
-    if (!patent || patent.status !== ('Active' as unknown as PatentStatus)) {
+    if (!patent || !this.isEnforceable(patent)) {
       return false;
     }
 
@@ -1051,6 +1184,116 @@ export class ResearchService {
     return true;
   }
 
+  /**
+   * 获取专利
+   */
+  getPatent(patentId: string): Patent | undefined {
+    return this.state.patents.get(patentId);
+  }
+
+  /**
+   * 获取技术
+   */
+  getTechnology(technologyId: string): Technology | undefined {
+    return this.state.technologies.get(technologyId);
+  }
+
+  /**
+   * 专利是否仍受保护（未过期、未失效；挑战审理期间仍受保护）
+   */
+  isPatentActive(patent: Patent, currentTick: number): boolean {
+    return this.isEnforceable(patent) && currentTick < patent.expiresAt;
+  }
+
+  /**
+   * 登记对专利的无效挑战，专利进入挑战状态
+   */
+  markPatentChallenged(patentId: string, challengerId: string): boolean {
+    const patent = this.state.patents.get(patentId);
+    if (!patent || !this.isEnforceable(patent)) {
+      return false;
+    }
+
+    patent.challengedBy = [...(patent.challengedBy ?? []).filter(id => id !== challengerId), challengerId];
+    patent.status = 'Challenged';
+    return true;
+  }
+
+  /**
+   * 结束一项挑战：宣告无效，或在没有其他挑战时恢复为有效
+   */
+  resolvePatentChallenge(patentId: string, challengerId: string, invalidated: boolean): void {
+    const patent = this.state.patents.get(patentId);
+    if (!patent) return;
+
+    patent.challengedBy = (patent.challengedBy ?? []).filter(id => id !== challengerId);
+    if (invalidated) {
+      patent.status = 'Invalidated';
+      console.log(`[ResearchService] Patent invalidated: ${patentId}`);
+    } else if (patent.status === ('Challenged' as unknown as PatentStatus) && patent.challengedBy.length === 0) {
+      patent.status = 'Active';
+    }
+  }
+
+  /**
+   * 技术的关键词（名称、描述和研发提示词）
+   */
+  getTechnologyKeywords(technologyId: string): string[] {
+    const technology = this.state.technologies.get(technologyId);
+    if (!technology) return [];
+    return this.extractKeywords(
+      [technology.nameZh, technology.name, technology.description, technology.generatedFromPrompt ?? ''].join(' ')
+    );
+  }
+
+  /**
+   * 查找与专利技术最相近的在先技术（公开技术或更早授权专利的技术），按关键词 Jaccard 相似度
+   */
+  findPriorArt(patentId: string): { technologyId: string; technologyName: string; similarity: number } | null {
+    const patent = this.state.patents.get(patentId);
+    if (!patent) return null;
+
+    const keywords = this.getTechnologyKeywords(patent.technologyId);
+    if (keywords.length === 0) return null;
+
+    let best: { technologyId: string; technologyName: string; similarity: number } | null = null;
+    for (const technology of this.state.technologies.values()) {
+      if (technology.id === patent.technologyId) continue;
+      const otherPatent = this.getPatentForTechnology(technology.id);
+      if (otherPatent && otherPatent.grantedAt >= patent.grantedAt) continue;
+
+      const similarity = this.keywordSimilarity(keywords, this.getTechnologyKeywords(technology.id));
+      if (similarity > (best?.similarity ?? 0)) {
+        best = { technologyId: technology.id, technologyName: technology.nameZh, similarity };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 获取技术的专利
+   */
+  getPatentForTechnology(technologyId: string): Patent | undefined {
+    return Array.from(this.state.patents.values()).find(p => p.technologyId === technologyId);
+  }
+
+  /**
+   * 获取保护某生产方式的专利（生产方式由技术解锁）
+   */
+  getPatentForMethod(methodId: string): Patent | undefined {
+    const technology = Array.from(this.state.technologies.values())
+      .find(t => t.productionMethodUnlocks?.some(unlock => unlock.method.id === methodId));
+    return technology ? this.getPatentForTechnology(technology.id) : undefined;
+  }
+
+  /**
+   * 检查公司是否可以使用某生产方式（不受专利保护的生产方式总是可用）
+   */
+  canUseMethod(methodId: string, companyId: string, currentTick: number): boolean {
+    const patent = this.getPatentForMethod(methodId);
+    return !patent || this.canUseTechnology(patent.technologyId, companyId, currentTick);
+  }
+
   /**
    * 检查公司是否可以使用某技术
    */
@@ -1068,8 +1311,8 @@ export class ResearchService {
       return true; // 没有专利，公开技术
     }
 
-    if (patent.status === ('Expired' as unknown as PatentStatus)) {
-      return true; // 专利已过期
+    if (!this.isEnforceable(patent)) {
+      return true; // 专利已过期或被宣告无效
     }
 
     if (currentTick >= patent.expiresAt) {
@@ -1079,7 +1322,241 @@ export class ResearchService {
     // 检查是否是专利持有者或获得授权
     return patent.holderId === companyId || patent.licensees.includes(companyId);
   }
+
+  /**
+   * 推导前置技术：
+   * 1. 前置规则（如"固态"需要"电池"）：取含所需关键词、且不含该关键词本身的最低阶技术，尚无此类技术时记为缺口
+   * 2. 同类别、更低层级且关键词相似的已有技术
+   */
+  derivePrerequisites(
+    description: string,
+    category: TechnologyCategory,
+    tier: number,
+    excludeTechnologyId?: string
+  ): PrerequisiteEntry[] {
+    const keywords = this.extractKeywords(description);
+    const candidates = Array.from(this.state.technologies.values())
+      .filter(t => t.id !== excludeTechnologyId)
+      .map(t => ({ technology: t, keywords: this.getTechnologyKeywords(t.id) }));
+
+    const entries: PrerequisiteEntry[] = [];
+    const addEntry = (entry: PrerequisiteEntry) => {
+      const duplicate = entries.some(e => entry.technologyId ? e.technologyId === entry.technologyId : e.name === entry.name);
+      if (!duplicate && entries.length < this.MAX_DERIVED_PREREQUISITES) {
+        entries.push(entry);
+      }
+    };
+
+    for (const rule of TECH_PREREQUISITE_RULES) {
+      if (!keywords.includes(rule.keyword)) continue;
+      for (const required of rule.requires) {
+        const match = candidates
+          .filter(c => c.keywords.includes(required) && !c.keywords.includes(rule.keyword))
+          .sort((a, b) => a.technology.tier - b.technology.tier)[0];
+        addEntry(match
+          ? { technologyId: match.technology.id, name: match.technology.nameZh }
+          : { name: `${required}技术` });
+      }
+    }
+
+    const related = candidates
+      .filter(c => c.technology.category === category && c.technology.tier < tier)
+      .map(c => ({ ...c, similarity: this.keywordSimilarity(keywords, c.keywords) }))
+      .filter(c => c.similarity >= this.RELATED_TECH_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity);
+    for (const c of related) {
+      addEntry({ technologyId: c.technology.id, name: c.technology.nameZh });
+    }
+
+    return entries;
+  }
+
+  /**
+   * 评估前置技术对研发成本和成功率的影响（可使用的技术视为已拥有，缺口视为缺少）
+   */
+  assessPrerequisites(
+    prerequisites: PrerequisiteEntry[],
+    companyId: string,
+    feasibilityScore: number,
+    currentTick: number
+  ): PrerequisiteAssessment {
+    const assessed = prerequisites.map(entry => ({
+      ...entry,
+      owned: entry.technologyId !== undefined && this.canUseTechnology(entry.technologyId, companyId, currentTick),
+    }));
+    const ownedCount = assessed.filter(entry => entry.owned).length;
+    const missingCount = assessed.length - ownedCount;
+
+    const discount = Math.min(this.MAX_PREREQUISITE_DISCOUNT, ownedCount * this.OWNED_PREREQUISITE_DISCOUNT);
+    const costMultiplier = 1 + missingCount * this.MISSING_PREREQUISITE_COST - discount;
+    const successChance = Math.max(0.1, Math.min(0.98,
+      0.6 + 0.4 * feasibilityScore / 100
+        - missingCount * this.MISSING_PREREQUISITE_PENALTY
+        + ownedCount * this.OWNED_PREREQUISITE_BONUS
+    ));
+
+    return { prerequisites: assessed, ownedCount, missingCount, costMultiplier, successChance };
+  }
+
+  /**
+   * 按现在拥有的前置技术重新评估项目（未评估前置技术的旧项目返回 undefined）
+   */
+  reassessPrerequisites(project: ResearchProject, currentTick: number): PrerequisiteAssessment | undefined {
+    if (!project.prerequisiteAssessment || !project.feasibility) {
+      return undefined;
+    }
+    return this.assessPrerequisites(
+      project.prerequisiteAssessment.prerequisites,
+      project.companyId,
+      project.feasibility.score,
+      currentTick
+    );
+  }
+
+  /**
+   * 项目当前的研发成功率（前置技术评估结果再计入研发事件的风险变化；未评估前置技术的旧项目基础成功率为 100%）
+   */
+  getSuccessChance(project: ResearchProject, currentTick: number): number {
+    const base = this.reassessPrerequisites(project, currentTick)?.successChance ?? 1;
+    return Math.max(0.05, Math.min(1, base - (project.riskModifier ?? 0)));
+  }
+
+  /**
+   * 把研发事件的影响作用到项目上
+   */
+  applyEventEffect(projectId: string, effect: ResearchEventEffect): boolean {
+    const project = this.state.projects.get(projectId);
+    if (!project) {
+      return false;
+    }
+
+    if (effect.progressBonus) {
+      project.progress = Math.max(0, Math.min(100, project.progress + effect.progressBonus));
+    }
+    if (effect.costReduction) {
+      project.targetCost = Math.round(project.targetCost * (1 - effect.costReduction));
+    }
+    if (effect.riskChange) {
+      project.riskModifier = (project.riskModifier ?? 0) + effect.riskChange;
+    }
+    return true;
+  }
+
+  /**
+   * 设置技术的前置技术（供设计者调整科技树），拒绝不存在的技术和循环依赖
+   */
+  setPrerequisites(technologyId: string, prerequisiteIds: string[]): { success: boolean; error?: string } {
+    const technology = this.state.technologies.get(technologyId);
+    if (!technology) {
+      return { success: false, error: '技术不存在' };
+    }
+
+    const ids = [...new Set(prerequisiteIds)];
+    for (const id of ids) {
+      if (id === technologyId) {
+        return { success: false, error: '技术不能以自身为前置' };
+      }
+      if (!this.state.technologies.has(id)) {
+        return { success: false, error: `前置技术不存在: ${id}` };
+      }
+      if (this.dependsOn(id, technologyId)) {
+        return { success: false, error: `形成循环依赖: ${this.state.technologies.get(id)?.nameZh ?? id}` };
+      }
+    }
+
+    technology.prerequisites = ids;
+    console.log(`[ResearchService] Prerequisites of ${technologyId} set to [${ids.join(', ')}]`);
+    return { success: true };
+  }
+
+  /**
+   * 公司视角的科技星图：按类别分列、按层级分行，连线为前置关系，可使用的技术点亮
+   */
+  getTechGraph(companyId: string, currentTick: number): TechGraph {
+    const technologies = Array.from(this.state.technologies.values());
+    const categories = [...new Set(technologies.map(t => t.category))];
+    const cellCounts = new Map<string, number>();
+
+    const nodes: TechGraphNode[] = technologies.map(technology => {
+      const column = categories.indexOf(technology.category);
+      const cell = `${column}:${technology.tier}`;
+      const indexInCell = cellCounts.get(cell) ?? 0;
+      cellCounts.set(cell, indexInCell + 1);
+
+      const canUse = this.canUseTechnology(technology.id, companyId, currentTick);
+      const patent = this.getPatentForTechnology(technology.id);
+      return {
+        technologyId: technology.id,
+        position: { x: column * 200 + indexInCell * 40, y: technology.tier * 120 + indexInCell * 30, z: 0 },
+        discovered: true,
+        ...(technology.patentHolderId !== undefined ? { discoveredBy: technology.patentHolderId, patentHolderId: technology.patentHolderId } : {}),
+        ...(patent ? { discoveredAt: patent.grantedAt } : {}),
+        connections: technology.prerequisites.filter(id => this.state.technologies.has(id)),
+        brightness: canUse ? 1 : 0.35,
+        isPlayerInvented: technology.patentHolderId === companyId,
+        name: technology.nameZh,
+        category: technology.category,
+        tier: technology.tier,
+        canUse,
+      };
+    });
+
+    const usable = new Map(nodes.map(node => [node.technologyId, node.canUse]));
+    const edges: TechGraphEdge[] = nodes.flatMap(node => node.connections.map(from => ({
+      from,
+      to: node.technologyId,
+      satisfied: usable.get(from) ?? false,
+    })));
+
+    return { nodes, edges };
+  }
+
+  /**
+   * 技术是否（直接或间接）依赖另一技术
+   */
+  private dependsOn(technologyId: string, targetId: string, visited = new Set<string>()): boolean {
+    if (visited.has(technologyId)) return false;
+    visited.add(technologyId);
+    const technology = this.state.technologies.get(technologyId);
+    return technology?.prerequisites.some(id => id === targetId || this.dependsOn(id, targetId, visited)) ?? false;
+  }
+
+  /**
+   * 新技术的前置技术：优先使用评估时推导的结果，旧项目按生成结果重新推导
+   */
+  private resolvePrerequisiteIds(project: ResearchProject, response: TechnologyGenerationResponse): string[] {
+    const entries = project.prerequisiteAssessment?.prerequisites
+      ?? this.derivePrerequisites(project.concept.description, response.category, response.tier);
+    return entries
+      .map(entry => entry.technologyId)
+      .filter((id): id is string => id !== undefined && this.state.technologies.has(id));
+  }
+
+  /**
+   * 关键词 Jaccard 相似度
+   */
+  private keywordSimilarity(a: string[], b: string[]): number {
+    const union = new Set([...a, ...b]);
+    if (union.size === 0) return 0;
+    const other = new Set(b);
+    return a.filter(keyword => other.has(keyword)).length / union.size;
+  }
+
+  /**
+   * 按可行性评分估计技术层级（1-5）
+   */
+  private estimateTier(feasibilityScore: number): number {
+    return Math.max(1, Math.min(5, Math.ceil(feasibilityScore / 20)));
+  }
+
+  /**
+   * 专利状态是否可执行（有效或挑战审理中）
+   */
+  private isEnforceable(patent: Patent): boolean {
+    return patent.status === ('Active' as unknown as PatentStatus)
+      || patent.status === ('Challenged' as unknown as PatentStatus);
+  }
 }
 
-// 导出单例
-export const researchService = new ResearchService();
\ No newline at end of file
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const researchService = worldScoped('researchService');
\ No newline at end of file
@@ -0,0 +1,9 @@
+/**
+ * Game RNG - 按游戏隔离的种子随机数生成器
+ * 模拟服务中的随机性统一从这里获取，不直接调用 Math.random()
+ */
+
+import { worldScoped } from './worldContext.js';
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const rng = worldScoped('rng');
@@ -0,0 +1,301 @@
+/**
+ * 存档服务测试：用内存中的 Prisma 替身验证存档、列表、读档、删除，
+ * 旧版本存档的拒绝，以及快照导出 / 导入的往返一致
+ */
+
+import { randomUUID } from 'crypto';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { BUILDINGS_DATA, EventEffectType, LicenseRequestStatus, ResearchEventType } from '@scc/shared';
+import { aiCompanyManager } from './aiCompanyManager.js';
+import { eventEffectManager } from './eventEffects.js';
+import { gameLoop } from './gameLoop.js';
+import { gameWorldFactory } from './gameWorld.js';
+import { laborMarket } from './laborMarket.js';
+import { llmService } from './llm.js';
+import { patentLicensing } from './patentLicensing.js';
+import { patentLitigation } from './patentLitigation.js';
+import { researchEvents } from './researchEvents.js';
+import { SAVE_FORMAT_VERSION, saveGameService } from './saveGameService.js';
+
+/** Game / Company 表的内存替身（只实现存档服务用到的调用） */
+const db = vi.hoisted(() => {
+  interface GameRecord {
+    id: string;
+    name: string;
+    state: unknown;
+    currentTick: number;
+    speed: number;
+    isPaused: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  }
+
+  const games = new Map<string, GameRecord>();
+  const companies: { gameId: string; name: string }[] = [];
+  // 严格递增的时钟，保证列表按保存先后排序
+  let clock = Date.UTC(2025, 0, 1);
+  const now = () => new Date(clock += 1000);
+
+  const prisma = {
+    game: {
+      upsert(args: { where: { id: string }; create: Omit<GameRecord, 'createdAt' | 'updatedAt'>; update: Partial<GameRecord> }) {
+        const existing = games.get(args.where.id);
+        const record: GameRecord = existing
+          ? { ...existing, ...args.update, updatedAt: now() }
+          : { ...args.create, createdAt: now(), updatedAt: now() };
+        record.state = structuredClone(record.state);
+        games.set(record.id, record);
+        return Promise.resolve(record);
+      },
+      findUnique(args: { where: { id: string } }) {
+        return Promise.resolve(games.get(args.where.id) ?? null);
+      },
+      findMany() {
+        return Promise.resolve(Array.from(games.values()).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()));
+      },
+      deleteMany(args: { where: { id: string } }) {
+        if (!games.delete(args.where.id)) return Promise.resolve({ count: 0 });
+        prisma.company.removeByGame(args.where.id);
+        return Promise.resolve({ count: 1 });
+      },
+    },
+    company: {
+      removeByGame(gameId: string) {
+        const removed = companies.filter(company => company.gameId === gameId).length;
+        companies.splice(0, companies.length, ...companies.filter(company => company.gameId !== gameId));
+        return removed;
+      },
+      deleteMany(args: { where: { gameId: string } }) {
+        return Promise.resolve({ count: prisma.company.removeByGame(args.where.gameId) });
+      },
+      create(args: { data: { gameId: string; name: string } }) {
+        companies.push(args.data);
+        return Promise.resolve(args.data);
+      },
+    },
+    $transaction(operations: Promise<unknown>[]) {
+      return Promise.all(operations);
+    },
+  };
+
+  return { prisma, games, companies };
+});
+
+vi.mock('./database.js', () => ({ prisma: db.prisma }));
+
+const PLAYER_COMPANY_ID = 'player-company-1';
+
+/** 断言值存在并收窄类型 */
+function defined<T>(value: T | null | undefined): T {
+  expect(value).toBeDefined();
+  expect(value).not.toBeNull();
+  return value as T;
+}
+
+/** tick 之间让出事件循环（与实时运行一致） */
+async function advance(gameId: string, ticks: number): Promise<void> {
+  for (let i = 0; i < ticks; i++) {
+    gameLoop.advanceTick(gameId);
+    await new Promise<void>(resolve => setImmediate(resolve));
+  }
+}
+
+describe('SaveGameService', () => {
+  const gameIds: string[] = [];
+
+  /** 创建剧本游戏并写入挖角、授权、诉讼、研发事件和持续中的事件效果 */
+  async function createFixtureGame(): Promise<string> {
+    const gameId = `save-test-${randomUUID()}`;
+    gameIds.push(gameId);
+    gameLoop.getOrCreateGame(gameId, PLAYER_COMPANY_ID, { name: 'save-test', seed: 20250101, scenarioId: 'steel-town' });
+    await advance(gameId, 10);
+
+    const game = defined(gameLoop.getGame(gameId));
+    gameWorldFactory.run(gameId, () => {
+      const companyIds = Array.from(aiCompanyManager.getCompanies().keys());
+      const holderId = defined(companyIds[0]);
+      const rivalId = defined(companyIds[1]);
+
+      expect(laborMarket.poach(PLAYER_COMPANY_ID, holderId, game.currentTick).success).toBe(true);
+
+      patentLicensing.importState({
+        requests: [{
+          id: 'license-request-1',
+          patentId: 'patent-1',
+          technologyId: 'tech-1',
+          technologyName: '连铸连轧',
+          holderId: holderId,
+          requesterId: PLAYER_COMPANY_ID,
+          proposed: { upfrontFee: 500_000, royaltyPerUnit: 20 },
+          counter: { upfrontFee: 800_000, royaltyPerUnit: 30 },
+          status: LicenseRequestStatus.Negotiating,
+          createdAt: game.currentTick - 5,
+          respondedAt: game.currentTick - 2,
+        }],
+        licenses: [{
+          patentId: 'patent-2',
+          technologyName: '高炉喷煤',
+          holderId: PLAYER_COMPANY_ID,
+          licenseeId: rivalId,
+          terms: { upfrontFee: 300_000, royaltyPerUnit: 15 },
+          grantedAt: game.currentTick - 8,
+          royaltiesPaid: 4_500,
+        }],
+      });
+
+      patentLitigation.importState({
+        challenges: [{
+          id: 'challenge-1',
+          patentId: 'patent-1',
+          technologyName: '连铸连轧',
+          holderId: holderId,
+          challengerId: PLAYER_COMPANY_ID,
+          cost: 200_000,
+          filedAt: game.currentTick - 3,
+          resolvesAt: game.currentTick + 27,
+          status: 'pending',
+        }],
+        cases: [{
+          id: 'case-1',
+          patentId: 'patent-2',
+          technologyName: '高炉喷煤',
+          holderId: PLAYER_COMPANY_ID,
+          infringerId: holderId,
+          remedy: 'damages',
+          status: 'dropped',
+          infringingUnits: 120,
+          detectedAt: game.currentTick - 6,
+          resolvedAt: game.currentTick - 1,
+        }],
+        injunctions: [{ patentId: 'patent-1', companyId: rivalId, issuedAt: game.currentTick - 4 }],
+        waivers: [{
+          patentId: 'patent-2',
+          holderId: PLAYER_COMPANY_ID,
+          companyId: holderId,
+          caseId: 'case-1',
+          waivedAt: game.currentTick - 1,
+        }],
+      });
+
+      researchEvents.importState({
+        events: [{
+          id: 'research-event-1',
+          projectId: 'project-1',
+          tick: game.currentTick - 2,
+          type: ResearchEventType.ResourceShortage,
+          title: '实验材料短缺',
+          description: '关键试剂断供',
+          companyId: PLAYER_COMPANY_ID,
+          projectName: '高效选矿工艺',
+          decision: {
+            cost: 50_000,
+            acceptLabel: '高价采购',
+            declineLabel: '等待到货',
+            acceptEffect: { progressBonus: 0 },
+            declineEffect: { progressBonus: -5 },
+            deadlineTick: game.currentTick + 10,
+          },
+        }],
+        milestoneProjectIds: ['project-1'],
+      });
+
+      const methodId = defined(defined(defined(BUILDINGS_DATA[0]).productionSlots[0]).methods[0]).id;
+      const applied = eventEffectManager.applyEffects([
+        { type: EventEffectType.PriceModifier, targetType: 'goods', targetId: 'steel', parameter: 'price', value: 1.2, isMultiplier: true, permanent: false, durationTicks: 30 },
+        { type: EventEffectType.TechBlock, targetType: 'technology', targetId: methodId, parameter: 'blocked', value: 1, isMultiplier: false, permanent: true },
+      ], { game, currentTick: game.currentTick, source: 'save-test' });
+      expect(applied.every(effect => effect.applied)).toBe(true);
+    });
+
+    return gameId;
+  }
+
+  beforeAll(() => {
+    llmService.updateConfig({ enabled: false });
+  });
+
+  afterEach(() => {
+    for (const gameId of gameIds.splice(0)) {
+      gameLoop.destroyGame(gameId);
+    }
+    db.games.clear();
+    db.companies.splice(0);
+  });
+
+  it('saves, lists, loads and deletes a game', async () => {
+    const gameId = await createFixtureGame();
+    const savedTick = defined(gameLoop.getGame(gameId)).currentTick;
+
+    const saved = await saveGameService.saveGame(gameId, '钢城存档');
+    expect(saved.success).toBe(true);
+    expect(saved.meta?.version).toBe(SAVE_FORMAT_VERSION);
+    expect(saved.meta?.name).toBe('钢城存档');
+    expect(saved.meta?.currentTick).toBe(savedTick);
+    const saveId = defined(saved.meta).id;
+
+    const aiCount = gameWorldFactory.run(gameId, () => aiCompanyManager.getCompanies().size);
+    expect(db.companies.filter(company => company.gameId === saveId)).toHaveLength(aiCount + 1);
+
+    const saves = await saveGameService.listSaves();
+    expect(saves.map(save => save.id)).toEqual([saveId]);
+    expect(await saveGameService.getSaveMeta(saveId)).toEqual(saves[0]);
+
+    const targetGameId = `save-test-${randomUUID()}`;
+    gameIds.push(targetGameId);
+    const loaded = await saveGameService.loadGame(saveId, targetGameId);
+    expect(loaded).toEqual({ success: true, gameId: targetGameId, currentTick: savedTick });
+    expect(gameLoop.getGame(targetGameId)?.currentTick).toBe(savedTick);
+
+    expect(await saveGameService.deleteSave(saveId)).toBe(true);
+    expect(await saveGameService.listSaves()).toEqual([]);
+    expect(db.companies).toHaveLength(0);
+    expect(await saveGameService.loadGame(saveId)).toEqual({ success: false, error: '存档不存在' });
+    expect(await saveGameService.deleteSave(saveId)).toBe(false);
+  }, 300_000);
+
+  it('rejects a save written by an older format version', async () => {
+    const gameId = await createFixtureGame();
+    const saved = await saveGameService.saveGame(gameId);
+    expect(saved.success).toBe(true);
+    const saveId = defined(saved.meta).id;
+
+    const row = defined(db.games.get(saveId));
+    (row.state as { version: string }).version = String(Number(SAVE_FORMAT_VERSION) - 1);
+
+    const targetGameId = `save-test-${randomUUID()}`;
+    gameIds.push(targetGameId);
+    const loaded = await saveGameService.loadGame(saveId, targetGameId);
+    expect(loaded.success).toBe(false);
+    expect(loaded.error).toContain('不支持的存档版本');
+    expect(gameLoop.getGame(targetGameId)).toBeUndefined();
+  }, 300_000);
+
+  it('round-trips scenario, labor, licensing, litigation, research events and event effects', async () => {
+    const gameId = await createFixtureGame();
+    const original = defined(saveGameService.createSnapshot(gameId));
+    const { scenario, labor, licensing, litigation, researchEvents: events, eventEffects } = original.services;
+
+    expect(scenario?.scenario.id).toBe('steel-town');
+    expect(labor.campaigns).toHaveLength(1);
+    expect(licensing.requests).toHaveLength(1);
+    expect(licensing.licenses).toHaveLength(1);
+    expect(litigation.challenges).toHaveLength(1);
+    expect(litigation.cases).toHaveLength(1);
+    expect(litigation.injunctions).toHaveLength(1);
+    expect(litigation.waivers).toHaveLength(1);
+    expect(events.events).toHaveLength(1);
+    expect(eventEffects.active).toHaveLength(2);
+
+    const targetGameId = `save-test-${randomUUID()}`;
+    gameIds.push(targetGameId);
+    expect(saveGameService.restoreSnapshot(structuredClone(original), targetGameId)).toBe(targetGameId);
+
+    const restored = defined(saveGameService.createSnapshot(targetGameId));
+    expect(restored.services.scenario).toEqual(scenario);
+    expect(restored.services.labor).toEqual(labor);
+    expect(restored.services.licensing).toEqual(licensing);
+    expect(restored.services.litigation).toEqual(litigation);
+    expect(restored.services.researchEvents).toEqual(events);
+    expect(restored.services.eventEffects).toEqual(eventEffects);
+  }, 300_000);
+});
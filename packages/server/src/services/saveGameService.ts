@@ -0,0 +1,398 @@
+/**
+ * Save Game Service - 存档服务
+ * 将 GameLoop 状态及该游戏世界中各服务的状态序列化到 Prisma 的 Game/Company/Building 表
+ *
+ * 存储结构：
+ * - Game.state 保存完整快照（SaveGameSnapshot），读档只依赖这一列
+ * - Company/Building 行是快照的关系型投影，便于查询和统计
+ */
+
+import { BUILDINGS_DATA, AI_COMPANIES_CONFIG, CompanyType, Difficulty, tickToGameTimestamp, type SaveGameMeta } from '@scc/shared';
+import { prisma } from './database.js';
+import { gameWorldFactory } from './gameWorld.js';
+import { gameLoop, type SerializedGameState, type BuildingInstance } from './gameLoop.js';
+import { inventoryManager, type InventorySnapshotState } from './inventoryManager.js';
+import { economyManager, type EconomySnapshotState } from './economyManager.js';
+import { aiCompanyManager, type AICompanySnapshot } from './aiCompanyManager.js';
+import { stockMarketService, type StockMarketSnapshot } from './stockMarket.js';
+import { researchService, type ResearchSnapshot } from './researchService.js';
+import { technologyEffectManager, type ActiveTechnology } from './technologyEffectManager.js';
+import { autoTradeManager, type AutoTradeSnapshot } from './autoTradeManager.js';
+import { contractService, type ContractSnapshotState } from './contractService.js';
+import { negotiationService, type NegotiationSnapshotState } from './negotiationService.js';
+import { bankingService, type BankingSnapshotState } from './bankingService.js';
+import { bankruptcyService, type BankruptcySnapshotState } from './bankruptcyService.js';
+import { takeoverService, type TakeoverSnapshotState } from './takeoverService.js';
+import { decisionEventService, type DecisionSnapshotState } from './decisionEvents.js';
+import { eventEffectManager, type EventEffectSnapshotState } from './eventEffects.js';
+import { scenarioService, type ScenarioSnapshotState } from './scenarios.js';
+import { laborMarket, type LaborMarketSnapshotState } from './laborMarket.js';
+import { patentLicensing, type PatentLicensingSnapshotState } from './patentLicensing.js';
+import { patentLitigation, type PatentLitigationSnapshotState } from './patentLitigation.js';
+import { researchEvents, type ResearchEventsSnapshotState } from './researchEvents.js';
+import { promptSelection, type PromptSelectionState } from './promptTemplates.js';
+import { rng } from './rng.js';
+
+/** 存档格式版本（结构变化时递增） */
+export const SAVE_FORMAT_VERSION = '18';
+
+/** 默认城市名称 */
+const DEFAULT_CITY_NAME = '算法都市';
+
+/** 完整存档快照 */
+export interface SaveGameSnapshot {
+  version: string;
+  savedAt: number;
+  game: SerializedGameState;
+  services: {
+    inventory: InventorySnapshotState;
+    economy: EconomySnapshotState;
+    aiCompanies: AICompanySnapshot[];
+    stockMarket: StockMarketSnapshot;
+    research: ResearchSnapshot;
+    technologyEffects: ActiveTechnology[];
+    /** 持续中的事件效果（到期回滚、读档时重新登记禁令和修饰符） */
+    eventEffects: EventEffectSnapshotState;
+    autoTrade: AutoTradeSnapshot;
+    contracts: ContractSnapshotState;
+    negotiations: NegotiationSnapshotState;
+    banking: BankingSnapshotState;
+    bankruptcy: BankruptcySnapshotState;
+    takeover: TakeoverSnapshotState;
+    /** 待出现、待选择的决策事件和决策记录 */
+    decisions: DecisionSnapshotState;
+    /** 剧本定义和进度（自由模式为 null） */
+    scenario: ScenarioSnapshotState | null;
+    /** 工资水平和进行中的挖角 */
+    labor: LaborMarketSnapshotState;
+    /** 专利授权申请和生效的授权 */
+    licensing: PatentLicensingSnapshotState;
+    /** 专利挑战、侵权案件和禁令 */
+    litigation: PatentLitigationSnapshotState;
+    /** 研发事件和待决定的追加资金 */
+    researchEvents: ResearchEventsSnapshotState;
+    /** 本局选择的提示词模板版本 */
+    prompts: PromptSelectionState;
+    /** 随机数生成器状态（读档后继续同一随机序列） */
+    rngState: number;
+  };
+}
+
+/** 存档操作结果 */
+export interface SaveResult {
+  success: boolean;
+  meta?: SaveGameMeta;
+  error?: string;
+}
+
+/** 读档操作结果 */
+export interface LoadResult {
+  success: boolean;
+  gameId?: string;
+  currentTick?: number;
+  error?: string;
+}
+
+/** Game 表中与存档列表相关的字段 */
+interface GameRow {
+  id: string;
+  name: string;
+  state: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 存档服务
+ */
+export class SaveGameService {
+  /**
+   * 采集当前游戏及所有服务的快照
+   */
+  createSnapshot(gameId: string): SaveGameSnapshot | undefined {
+    const game = gameLoop.serializeGame(gameId);
+    if (!game) return undefined;
+
+    return gameWorldFactory.run(gameId, () => ({
+      version: SAVE_FORMAT_VERSION,
+      savedAt: Date.now(),
+      game,
+      services: {
+        inventory: inventoryManager.exportState(),
+        economy: economyManager.exportState(),
+        aiCompanies: aiCompanyManager.exportState(),
+        stockMarket: stockMarketService.exportState(),
+        research: researchService.exportState(),
+        technologyEffects: technologyEffectManager.exportState(),
+        eventEffects: eventEffectManager.exportState(),
+        autoTrade: autoTradeManager.exportState(),
+        contracts: contractService.exportState(),
+        negotiations: negotiationService.exportState(),
+        banking: bankingService.exportState(),
+        bankruptcy: bankruptcyService.exportState(),
+        takeover: takeoverService.exportState(),
+        decisions: decisionEventService.exportState(),
+        scenario: scenarioService.exportState(),
+        labor: laborMarket.exportState(),
+        licensing: patentLicensing.exportState(),
+        litigation: patentLitigation.exportState(),
+        researchEvents: researchEvents.exportState(),
+        prompts: promptSelection.exportState(),
+        rngState: rng.getState(),
+      },
+    }));
+  }
+
+  /**
+   * 将快照恢复到一个全新的游戏世界并重建游戏
+   * 恢复顺序：库存 → AI公司 → 经济系统 → 股市 → 研发 → 技术效果 → 事件效果 → 自动交易 → 合同 → 谈判 → 银行 → 破产 → 收购整合 → 决策事件 → 剧本 → 劳动力市场 → 专利授权 → 专利诉讼 → 研发事件 → 提示词版本 → 游戏状态 → 随机数状态
+   */
+  restoreSnapshot(snapshot: SaveGameSnapshot, targetGameId?: string): string {
+    const { services } = snapshot;
+    const gameId = targetGameId ?? snapshot.game.id;
+
+    // 丢弃该ID下旧的世界，避免与读档前的状态混杂
+    gameWorldFactory.removeWorld(gameId);
+
+    return gameWorldFactory.run(gameId, () => {
+      inventoryManager.importState(services.inventory);
+      aiCompanyManager.importState(services.aiCompanies);
+      economyManager.importState(services.economy);
+      stockMarketService.importState(services.stockMarket);
+      researchService.importState(services.research);
+      technologyEffectManager.importState(services.technologyEffects);
+      eventEffectManager.importState(services.eventEffects);
+      autoTradeManager.importState(services.autoTrade);
+      contractService.importState(services.contracts);
+      negotiationService.importState(services.negotiations);
+      bankingService.importState(services.banking);
+      bankruptcyService.importState(services.bankruptcy);
+      takeoverService.importState(services.takeover);
+      decisionEventService.importState(services.decisions);
+      scenarioService.importState(services.scenario);
+      laborMarket.importState(services.labor);
+      patentLicensing.importState(services.licensing);
+      patentLitigation.importState(services.litigation);
+      researchEvents.importState(services.researchEvents);
+      promptSelection.importState(services.prompts);
+
+      const game = gameLoop.restoreGame({ ...snapshot.game, id: gameId });
+      rng.setState(services.rngState);
+      return game.id;
+    });
+  }
+
+  /**
+   * 保存游戏
+   * @param gameId 运行中的游戏ID
+   * @param name 存档名称，默认使用游戏名称
+   * @param saveId 指定时覆盖已有存档，否则新建
+   */
+  async saveGame(gameId: string, name?: string, saveId?: string): Promise<SaveResult> {
+    const snapshot = this.createSnapshot(gameId);
+    if (!snapshot) {
+      return { success: false, error: '游戏不存在' };
+    }
+
+    const serialized = JSON.stringify(snapshot);
+    const saveName = name ?? snapshot.game.name;
+
+    const id = saveId ?? crypto.randomUUID();
+    const data = {
+      name: saveName,
+      state: JSON.parse(serialized),
+      currentTick: snapshot.game.currentTick,
+      speed: snapshot.game.speed,
+      isPaused: snapshot.game.isPaused,
+    };
+
+    try {
+      // 重建关系型投影（Building 随 Company 级联删除）
+      const [row]: [GameRow, ...unknown[]] = await prisma.$transaction([
+        prisma.game.upsert({
+          where: { id },
+          create: { id, ...data },
+          update: data,
+        }),
+        prisma.company.deleteMany({ where: { gameId: id } }),
+        ...this.collectCompanies(snapshot).map(company => prisma.company.create({
+          data: {
+            gameId: id,
+            name: company.name,
+            type: company.type,
+            personality: company.personality,
+            cash: BigInt(Math.round(company.cash)),
+            debt: BigInt(Math.round(company.debt)),
+            ...(company.creditRating ? { creditRating: company.creditRating } : {}),
+            ...(company.bankruptAtTick !== undefined ? { bankruptAt: new Date(tickToGameTimestamp(company.bankruptAtTick)) } : {}),
+            buildings: {
+              create: company.buildings.map(building => this.toBuildingRow(id, building)),
+            },
+          },
+        })),
+      ]);
+
+      console.log(`[SaveGame] Saved game ${gameId} as ${row.id} (${serialized.length} bytes)`);
+      return { success: true, meta: this.toMeta(row) };
+    } catch (error) {
+      console.error('[SaveGame] Save failed:', error);
+      return { success: false, error: String(error) };
+    }
+  }
+
+  /**
+   * 读取存档并恢复为运行中的游戏
+   * @param saveId 存档ID
+   * @param targetGameId 恢复后的游戏ID，默认沿用存档时的游戏ID
+   */
+  async loadGame(saveId: string, targetGameId?: string): Promise<LoadResult> {
+    try {
+      const row: GameRow | null = await prisma.game.findUnique({ where: { id: saveId } });
+      if (!row) {
+        return { success: false, error: '存档不存在' };
+      }
+
+      const snapshot = row.state as SaveGameSnapshot;
+      if (snapshot.version !== SAVE_FORMAT_VERSION) {
+        return { success: false, error: `不支持的存档版本: ${snapshot.version}` };
+      }
+
+      const gameId = this.restoreSnapshot(snapshot, targetGameId);
+      console.log(`[SaveGame] Loaded save ${saveId} into game ${gameId}`);
+      return { success: true, gameId, currentTick: snapshot.game.currentTick };
+    } catch (error) {
+      console.error('[SaveGame] Load failed:', error);
+      return { success: false, error: String(error) };
+    }
+  }
+
+  /**
+   * 列出所有存档（按最近保存时间倒序）
+   */
+  async listSaves(): Promise<SaveGameMeta[]> {
+    const rows: GameRow[] = await prisma.game.findMany({
+      orderBy: { updatedAt: 'desc' },
+    });
+    return rows.map(row => this.toMeta(row));
+  }
+
+  /**
+   * 获取单个存档元数据
+   */
+  async getSaveMeta(saveId: string): Promise<SaveGameMeta | null> {
+    const row: GameRow | null = await prisma.game.findUnique({ where: { id: saveId } });
+    return row ? this.toMeta(row) : null;
+  }
+
+  /**
+   * 删除存档（Company/Building 等关联数据级联删除）
+   */
+  async deleteSave(saveId: string): Promise<boolean> {
+    const result: { count: number } = await prisma.game.deleteMany({ where: { id: saveId } });
+    return result.count > 0;
+  }
+
+  /**
+   * 汇总快照中的公司（玩家 + AI）
+   */
+  private collectCompanies(snapshot: SaveGameSnapshot): {
+    name: string;
+    type: CompanyType;
+    personality: string | null;
+    cash: number;
+    debt: number;
+    creditRating: string | undefined;
+    bankruptAtTick?: number;
+    buildings: BuildingInstance[];
+  }[] {
+    const { game, services } = snapshot;
+    const playerInventory = services.inventory.inventories.find(inv => inv.companyId === game.playerCompanyId);
+    const debtOf = (companyId: string) => services.banking.loans
+      .filter(loan => loan.companyId === companyId && loan.status !== 'repaid')
+      .reduce((sum, loan) => sum + loan.balance + loan.accruedInterest, 0);
+    const ratingOf = (companyId: string) => services.banking.profiles
+      .find(profile => profile.companyId === companyId)?.rating;
+    const liquidated = services.bankruptcy.cases.filter(c => c.status === 'liquidated');
+    const playerLiquidation = liquidated.find(c => c.isPlayer);
+
+    return [
+      {
+        name: playerInventory?.companyName ?? '玩家公司',
+        type: CompanyType.Player,
+        personality: null,
+        cash: playerInventory?.cash ?? game.playerCash,
+        debt: debtOf(game.playerCompanyId),
+        creditRating: ratingOf(game.playerCompanyId),
+        ...(playerLiquidation ? { bankruptAtTick: playerLiquidation.resolvedTick ?? playerLiquidation.graceEndsTick } : {}),
+        buildings: game.buildings,
+      },
+      ...services.aiCompanies.map(company => ({
+        name: company.name,
+        type: CompanyType.AICompetitor,
+        personality: company.personality,
+        cash: services.inventory.inventories.find(inv => inv.companyId === company.id)?.cash ?? company.cash,
+        debt: debtOf(company.id),
+        creditRating: ratingOf(company.id),
+        buildings: company.buildings,
+      })),
+      // 已清算的AI公司不在 aiCompanies 中，保留一行记录破产时间
+      ...liquidated.filter(c => !c.isPlayer).map(c => ({
+        name: c.companyName,
+        type: CompanyType.AICompetitor,
+        personality: AI_COMPANIES_CONFIG.find(config => config.id === c.companyId)?.personality ?? null,
+        cash: 0,
+        debt: 0,
+        creditRating: 'D',
+        bankruptAtTick: c.resolvedTick ?? c.graceEndsTick,
+        buildings: [],
+      })),
+    ];
+  }
+
+  /**
+   * 转换为 Building 表行
+   */
+  private toBuildingRow(gameId: string, building: BuildingInstance) {
+    const def = BUILDINGS_DATA.find(b => b.id === building.definitionId);
+    return {
+      gameId,
+      name: building.name,
+      type: def?.category ?? 'unknown',
+      definitionId: building.definitionId,
+      zoneId: 'default',
+      positionX: building.position.x,
+      positionY: building.position.y,
+      activeMethodIds: { process: building.currentMethodId },
+      efficiency: building.efficiency,
+      utilization: building.utilization,
+    };
+  }
+
+  /**
+   * 由 Game 行生成存档元数据
+   */
+  private toMeta(row: GameRow): SaveGameMeta {
+    const snapshot = row.state as SaveGameSnapshot;
+    const playerInventory = snapshot.services.inventory.inventories
+      .find(inv => inv.companyId === snapshot.game.playerCompanyId);
+    // 列表也包含旧版本存档，早期存档没有难度字段
+    const savedDifficulty = (snapshot.game as { difficulty?: Difficulty }).difficulty;
+
+    return {
+      id: row.id,
+      name: row.name,
+      createdAt: row.createdAt.getTime(),
+      lastPlayedAt: row.updatedAt.getTime(),
+      playerCompanyName: playerInventory?.companyName ?? '玩家公司',
+      playerNetWorth: playerInventory?.cash ?? snapshot.game.playerCash,
+      currentTick: snapshot.game.currentTick,
+      difficulty: savedDifficulty ?? snapshot.services.scenario?.scenario.difficulty ?? Difficulty.Normal,
+      cityName: snapshot.services.scenario?.scenario.cityName ?? DEFAULT_CITY_NAME,
+      fileSize: Buffer.byteLength(JSON.stringify(row.state)),
+      version: snapshot.version,
+    };
+  }
+}
+
+// 导出单例
+export const saveGameService = new SaveGameService();
@@ -0,0 +1,524 @@
+/**
+ * Scenarios - 剧本与战役
+ *
+ * 剧本是 scenarios/ 目录下的 JSON 文件，加载时用 zod 校验并检查引用的商品、建筑、AI公司和POP群体是否存在，
+ * 不合法的文件记录日志后跳过。剧本决定：
+ * - 开局：玩家现金、赠送的建筑（直接投产）和库存、参与的AI公司（AI_COMPANIES_CONFIG 的子集）、各POP群体人口
+ * - 事件日程：到达指定 tick 时触发的市场事件（与 LLM 市场事件一样由 eventEffects.ts 结算）
+ * - 胜负条件：victory 全部达成即胜利，达成后保持；带 byTick 的胜利条件逾期未达成即失败；defeat 任一满足即失败
+ *
+ * 条件类型：
+ * - market_share  玩家在某商品近 periodTicks 天成交量中的份额（%）不低于 minShare
+ * - cash          玩家现金在 [min, max] 区间内（分）
+ * - buildings     已建成的玩家建筑数（可限定建筑类型）在 [min, max] 区间内
+ * - tick          游戏进行到指定 tick
+ *
+ * 剧本注册表是全局的；每局的剧本进度由按游戏隔离的 ScenarioService 维护（见 GameLoop）
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import {
+  AI_COMPANIES_CONFIG,
+  BUILDINGS_DATA,
+  Difficulty,
+  EventEffectType,
+  GOODS_DATA,
+  POP_GROUPS,
+} from '@scc/shared';
+import type { GameState, MarketEventGenerated } from './gameLoop.js';
+import { marketEventSchema } from './llmSchemas.js';
+import { economyManager } from './economyManager.js';
+import { inventoryManager } from './inventoryManager.js';
+import { popsConsumptionManager } from './popsConsumption.js';
+import { worldScoped } from './worldContext.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/** 剧本文件目录 */
+export const SCENARIOS_DIR = process.env.SCENARIOS_DIR ?? path.join(__dirname, '../../scenarios');
+
+/** 未指定剧本时的玩家初始资金（分） */
+export const DEFAULT_STARTING_CASH = 500000000;
+
+const conditionFields = {
+  /** 显示给玩家的目标描述，省略时自动生成 */
+  description: z.string().optional(),
+  /** 胜利条件的期限（含），逾期未达成即失败；失败条件忽略此字段 */
+  byTick: z.number().int().positive().optional(),
+};
+
+const scenarioConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('market_share'),
+    goodsId: z.string(),
+    /** 成交量份额下限（%） */
+    minShare: z.number().min(0).max(100),
+    periodTicks: z.number().int().positive().default(30),
+    ...conditionFields,
+  }),
+  z.object({
+    type: z.literal('cash'),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    ...conditionFields,
+  }),
+  z.object({
+    type: z.literal('buildings'),
+    min: z.number().int().min(0).optional(),
+    max: z.number().int().min(0).optional(),
+    definitionId: z.string().optional(),
+    ...conditionFields,
+  }),
+  z.object({
+    type: z.literal('tick'),
+    tick: z.number().int().positive(),
+    ...conditionFields,
+  }),
+]);
+
+/** 剧本文件 schema */
+export const scenarioSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/),
+  name: z.string().min(1),
+  nameZh: z.string().min(1),
+  description: z.string().default(''),
+  difficulty: z.nativeEnum(Difficulty).default(Difficulty.Normal),
+  cityName: z.string().optional(),
+  startingCash: z.number().int().min(0).default(DEFAULT_STARTING_CASH),
+  /** 开局赠送的建筑，直接处于运营状态 */
+  startingBuildings: z.array(z.object({
+    definitionId: z.string(),
+    count: z.number().int().positive().default(1),
+  })).default([]),
+  /** 开局库存：商品ID -> 数量 */
+  startingInventory: z.record(z.number().positive()).default({}),
+  /** 参与的AI公司ID，省略时为全部 */
+  aiCompanies: z.array(z.string()).optional(),
+  /** POP群体人口：POPGroup ID -> 人口，未列出的使用默认人口 */
+  pops: z.record(z.number().int().min(0)).default({}),
+  events: z.array(marketEventSchema.extend({
+    tick: z.number().int().positive(),
+  })).default([]),
+  victory: z.array(scenarioConditionSchema).default([]),
+  defeat: z.array(scenarioConditionSchema).default([]),
+});
+
+export type ScenarioDefinition = z.infer<typeof scenarioSchema>;
+export type ScenarioCondition = z.infer<typeof scenarioConditionSchema>;
+export type ScenarioOutcome = 'in_progress' | 'victory' | 'defeat';
+
+/** 剧本列表项 */
+export interface ScenarioSummary {
+  id: string;
+  name: string;
+  nameZh: string;
+  description: string;
+  difficulty: Difficulty;
+  startingCash: number;
+  aiCompanyCount: number;
+  objectives: string[];
+  defeatConditions: string[];
+}
+
+/** 单个条件的进度 */
+export interface ScenarioConditionProgress {
+  description: string;
+  met: boolean;
+  /** 当前值（份额%、现金、建筑数或 tick） */
+  current: number;
+  byTick?: number;
+  /** 胜利条件达成的 tick */
+  achievedTick?: number;
+}
+
+/** 本局剧本进度 */
+export interface ScenarioStatus {
+  scenarioId: string;
+  name: string;
+  difficulty: Difficulty;
+  outcome: ScenarioOutcome;
+  outcomeTick?: number;
+  outcomeReason?: string;
+  victory: ScenarioConditionProgress[];
+  defeat: ScenarioConditionProgress[];
+}
+
+/** 每 tick 剧本处理结果 */
+export interface ScenarioTickResult {
+  /** 本 tick 到期的剧本事件 */
+  events: MarketEventGenerated[];
+  /** 检查了胜负条件时的最新进度 */
+  status?: ScenarioStatus;
+  /** 本 tick 是否分出胜负 */
+  concluded: boolean;
+}
+
+/** 存档状态 */
+export interface ScenarioSnapshotState {
+  /** 剧本定义随存档保存，剧本文件修改或删除后仍可读档 */
+  scenario: ScenarioDefinition;
+  firedEvents: number[];
+  achieved: [number, number][];
+  outcome: ScenarioOutcome;
+  outcomeTick: number | null;
+  outcomeReason: string | null;
+}
+
+/**
+ * 生成条件的默认描述
+ */
+export function describeCondition(condition: ScenarioCondition): string {
+  if (condition.description) return condition.description;
+
+  const range = (min: number | undefined, max: number | undefined, format: (value: number) => string) => {
+    if (min !== undefined && max !== undefined) return `介于 ${format(min)} 与 ${format(max)} 之间`;
+    if (min !== undefined) return `不少于 ${format(min)}`;
+    return `不超过 ${format(max ?? 0)}`;
+  };
+  const money = (value: number) => `¥${(value / 100000000).toFixed(1)}亿`;
+  const deadline = condition.byTick !== undefined ? `（第 ${condition.byTick} 天前）` : '';
+
+  switch (condition.type) {
+    case 'market_share': {
+      const goodsName = GOODS_DATA.find(g => g.id === condition.goodsId)?.nameZh ?? condition.goodsId;
+      return `${goodsName}市场份额达到 ${condition.minShare}%${deadline}`;
+    }
+    case 'cash':
+      return `现金${range(condition.min, condition.max, money)}${deadline}`;
+    case 'buildings': {
+      const buildingName = condition.definitionId
+        ? BUILDINGS_DATA.find(b => b.id === condition.definitionId)?.nameZh ?? condition.definitionId
+        : '建筑';
+      return `${buildingName}数量${range(condition.min, condition.max, value => `${value} 座`)}${deadline}`;
+    }
+    case 'tick':
+      return `坚持到第 ${condition.tick} 天`;
+  }
+}
+
+/**
+ * 检查剧本引用的数据是否存在
+ * @returns 问题列表，为空表示合法
+ */
+export function validateScenarioReferences(scenario: ScenarioDefinition): string[] {
+  const issues: string[] = [];
+  const goodsIds = new Set(GOODS_DATA.map(g => g.id));
+  const buildingIds = new Set(BUILDINGS_DATA.map(b => b.id));
+
+  for (const building of scenario.startingBuildings) {
+    if (!buildingIds.has(building.definitionId)) issues.push(`unknown building ${building.definitionId}`);
+  }
+  for (const goodsId of Object.keys(scenario.startingInventory)) {
+    if (!goodsIds.has(goodsId)) issues.push(`unknown goods ${goodsId}`);
+  }
+  for (const companyId of scenario.aiCompanies ?? []) {
+    if (!AI_COMPANIES_CONFIG.some(config => config.id === companyId)) issues.push(`unknown AI company ${companyId}`);
+  }
+  for (const popGroupId of Object.keys(scenario.pops)) {
+    if (!POP_GROUPS.some(group => group.id === popGroupId)) issues.push(`unknown POP group ${popGroupId}`);
+  }
+  for (const event of scenario.events) {
+    const goods = [...Object.keys(event.effects.priceChanges ?? {}), ...Object.keys(event.effects.supplyChanges ?? {})];
+    for (const modifier of event.effects.modifiers ?? []) {
+      if (modifier.type === EventEffectType.DemandModifier && modifier.target !== undefined) goods.push(modifier.target);
+    }
+    for (const goodsId of goods) {
+      if (!goodsIds.has(goodsId)) issues.push(`unknown goods ${goodsId} in event "${event.title}"`);
+    }
+  }
+  for (const condition of [...scenario.victory, ...scenario.defeat]) {
+    if (condition.type === 'market_share' && !goodsIds.has(condition.goodsId)) {
+      issues.push(`unknown goods ${condition.goodsId} in condition`);
+    }
+    if (condition.type === 'buildings' && condition.definitionId && !buildingIds.has(condition.definitionId)) {
+      issues.push(`unknown building ${condition.definitionId} in condition`);
+    }
+    if ((condition.type === 'cash' || condition.type === 'buildings') && condition.min === undefined && condition.max === undefined) {
+      issues.push(`${condition.type} condition needs min or max`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * 解析并校验剧本文件内容
+ */
+export function parseScenario(input: unknown): ScenarioDefinition {
+  const scenario = scenarioSchema.parse(input);
+  const issues = validateScenarioReferences(scenario);
+  if (issues.length > 0) {
+    throw new Error(`Invalid scenario ${scenario.id}: ${issues.join('; ')}`);
+  }
+  return scenario;
+}
+
+/**
+ * 剧本注册表（全局，首次访问时从 SCENARIOS_DIR 加载）
+ */
+export class ScenarioRegistry {
+  private scenarios: Map<string, ScenarioDefinition> | null = null;
+
+  /**
+   * 从目录加载全部剧本（替换已加载的剧本）
+   */
+  load(dir = SCENARIOS_DIR): Map<string, ScenarioDefinition> {
+    const scenarios = new Map<string, ScenarioDefinition>();
+    this.scenarios = scenarios;
+    if (!fs.existsSync(dir)) {
+      console.warn(`[Scenarios] Directory not found: ${dir}`);
+      return scenarios;
+    }
+
+    for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+      try {
+        const scenario = parseScenario(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')));
+        if (scenarios.has(scenario.id)) {
+          console.warn(`[Scenarios] Duplicate scenario id ${scenario.id} in ${file}, skipped`);
+          continue;
+        }
+        scenarios.set(scenario.id, scenario);
+      } catch (error) {
+        console.warn(`[Scenarios] Skipped ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    console.log(`[Scenarios] Loaded ${scenarios.size} scenarios from ${dir}`);
+    return scenarios;
+  }
+
+  get(id: string): ScenarioDefinition | undefined {
+    return this.getAll().get(id);
+  }
+
+  list(): ScenarioSummary[] {
+    return Array.from(this.getAll().values(), scenario => ({
+      id: scenario.id,
+      name: scenario.name,
+      nameZh: scenario.nameZh,
+      description: scenario.description,
+      difficulty: scenario.difficulty,
+      startingCash: scenario.startingCash,
+      aiCompanyCount: scenario.aiCompanies?.length ?? AI_COMPANIES_CONFIG.length,
+      objectives: scenario.victory.map(describeCondition),
+      defeatConditions: scenario.defeat.map(describeCondition),
+    }));
+  }
+
+  private getAll(): Map<string, ScenarioDefinition> {
+    return this.scenarios ?? this.load();
+  }
+}
+
+export const scenarioRegistry = new ScenarioRegistry();
+
+/**
+ * 本局剧本进度
+ */
+export class ScenarioService {
+  private scenario: ScenarioDefinition | null = null;
+  /** 已触发的事件（events 下标） */
+  private firedEvents = new Set<number>();
+  /** 已达成的胜利条件（victory 下标 -> 达成 tick） */
+  private achieved = new Map<number, number>();
+  private outcome: ScenarioOutcome = 'in_progress';
+  private outcomeTick: number | null = null;
+  private outcomeReason: string | null = null;
+
+  /**
+   * 开始剧本：设置POP人口并记录剧本
+   * 开局资金、建筑、AI公司由 GameLoop.getOrCreateGame 按剧本创建
+   */
+  start(scenario: ScenarioDefinition): void {
+    this.scenario = scenario;
+    this.firedEvents.clear();
+    this.achieved.clear();
+    this.outcome = 'in_progress';
+    this.outcomeTick = null;
+    this.outcomeReason = null;
+    popsConsumptionManager.setPopulationOverrides(scenario.pops);
+    console.log(`[Scenarios] Started scenario ${scenario.id}`);
+  }
+
+  getScenario(): ScenarioDefinition | null {
+    return this.scenario;
+  }
+
+  /**
+   * 每 tick 调用：返回到期的剧本事件，按检查频率评估胜负条件
+   * @param checkConditions 本 tick 是否检查胜负条件
+   */
+  processTick(game: GameState, checkConditions: boolean): ScenarioTickResult {
+    const result: ScenarioTickResult = { events: [], concluded: false };
+    const scenario = this.scenario;
+    if (!scenario) return result;
+
+    scenario.events.forEach((event, index) => {
+      if (event.tick > game.currentTick || this.firedEvents.has(index)) return;
+      this.firedEvents.add(index);
+      result.events.push({
+        id: `scenario-event-${scenario.id}-${index}`,
+        tick: game.currentTick,
+        type: event.type,
+        severity: event.severity,
+        title: event.title,
+        description: event.description,
+        ...(event.durationTicks !== undefined ? { durationTicks: event.durationTicks } : {}),
+        effects: {
+          ...(event.effects.priceChanges ? { priceChanges: event.effects.priceChanges } : {}),
+          ...(event.effects.supplyChanges ? { supplyChanges: event.effects.supplyChanges } : {}),
+          ...(event.effects.modifiers ? {
+            modifiers: event.effects.modifiers.map(modifier => ({
+              type: modifier.type,
+              ...(modifier.target !== undefined ? { target: modifier.target } : {}),
+              value: modifier.value,
+            })),
+          } : {}),
+        },
+      });
+    });
+
+    if (!checkConditions || this.outcome !== 'in_progress') return result;
+
+    const status = this.buildStatus(scenario, game, true);
+    const missed = status.victory.find(progress =>
+      !progress.met && progress.byTick !== undefined && game.currentTick > progress.byTick
+    );
+    const defeated = status.defeat.find(progress => progress.met);
+
+    if (defeated) {
+      this.conclude('defeat', game.currentTick, defeated.description);
+    } else if (missed) {
+      this.conclude('defeat', game.currentTick, `未能按期完成：${missed.description}`);
+    } else if (status.victory.length > 0 && status.victory.every(progress => progress.met)) {
+      this.conclude('victory', game.currentTick, '全部目标已达成');
+    } else {
+      result.status = status;
+      return result;
+    }
+
+    result.concluded = true;
+    result.status = this.buildStatus(scenario, game, false);
+    return result;
+  }
+
+  /**
+   * 获取当前进度（不改变已达成状态）
+   */
+  getStatus(game: GameState): ScenarioStatus | null {
+    if (!this.scenario) return null;
+    return this.buildStatus(this.scenario, game, false);
+  }
+
+  /**
+   * 计算各条件进度
+   * @param record 是否记录新达成的胜利条件
+   */
+  private buildStatus(scenario: ScenarioDefinition, game: GameState, record: boolean): ScenarioStatus {
+
+    const victory = scenario.victory.map((condition, index): ScenarioConditionProgress => {
+      const { met, current } = this.check(game, condition);
+      const inTime = condition.byTick === undefined || game.currentTick <= condition.byTick;
+      if (record && met && inTime && !this.achieved.has(index)) {
+        this.achieved.set(index, game.currentTick);
+        console.log(`[Scenarios] Objective achieved: ${describeCondition(condition)} (tick ${game.currentTick})`);
+      }
+      const achievedTick = this.achieved.get(index);
+      return {
+        description: describeCondition(condition),
+        met: achievedTick !== undefined,
+        current,
+        ...(condition.byTick !== undefined ? { byTick: condition.byTick } : {}),
+        ...(achievedTick !== undefined ? { achievedTick } : {}),
+      };
+    });
+
+    const defeat = scenario.defeat.map((condition): ScenarioConditionProgress => ({
+      description: describeCondition(condition),
+      ...this.check(game, condition),
+    }));
+
+    return {
+      scenarioId: scenario.id,
+      name: scenario.nameZh,
+      difficulty: scenario.difficulty,
+      outcome: this.outcome,
+      ...(this.outcomeTick !== null ? { outcomeTick: this.outcomeTick } : {}),
+      ...(this.outcomeReason !== null ? { outcomeReason: this.outcomeReason } : {}),
+      victory,
+      defeat,
+    };
+  }
+
+  /**
+   * 检查单个条件
+   */
+  private check(game: GameState, condition: ScenarioCondition): { met: boolean; current: number } {
+    const inRange = (value: number, min: number | undefined, max: number | undefined) =>
+      (min === undefined || value >= min) && (max === undefined || value <= max);
+
+    switch (condition.type) {
+      case 'market_share': {
+        const share = economyManager.getMarketShare(condition.goodsId, condition.periodTicks).shares
+          .find(s => s.companyId === game.playerCompanyId)?.quantityShare ?? 0;
+        return { met: share >= condition.minShare, current: share };
+      }
+      case 'cash': {
+        const cash = inventoryManager.getInventory(game.playerCompanyId)?.cash ?? game.playerCash;
+        return { met: inRange(cash, condition.min, condition.max), current: cash };
+      }
+      case 'buildings': {
+        const count = game.buildings
+          .filter(b => b.status !== 'under_construction' && b.status !== 'waiting_materials')
+          .filter(b => !condition.definitionId || b.definitionId === condition.definitionId)
+          .length;
+        return { met: inRange(count, condition.min, condition.max), current: count };
+      }
+      case 'tick':
+        return { met: game.currentTick >= condition.tick, current: game.currentTick };
+    }
+  }
+
+  private conclude(outcome: ScenarioOutcome, tick: number, reason: string): void {
+    this.outcome = outcome;
+    this.outcomeTick = tick;
+    this.outcomeReason = reason;
+    console.log(`[Scenarios] Scenario ${this.scenario?.id} ended in ${outcome} at tick ${tick}: ${reason}`);
+  }
+
+  /**
+   * 导出剧本进度（未使用剧本时为 null）
+   */
+  exportState(): ScenarioSnapshotState | null {
+    if (!this.scenario) return null;
+    return {
+      scenario: structuredClone(this.scenario),
+      firedEvents: Array.from(this.firedEvents),
+      achieved: Array.from(this.achieved.entries()),
+      outcome: this.outcome,
+      outcomeTick: this.outcomeTick,
+      outcomeReason: this.outcomeReason,
+    };
+  }
+
+  /**
+   * 从存档恢复剧本进度（同时恢复POP人口设定）
+   */
+  importState(state: ScenarioSnapshotState | null): void {
+    if (!state) {
+      this.scenario = null;
+      return;
+    }
+    this.start(state.scenario);
+    this.firedEvents = new Set(state.firedEvents);
+    this.achieved = new Map(state.achieved);
+    this.outcome = state.outcome;
+    this.outcomeTick = state.outcomeTick;
+    this.outcomeReason = state.outcomeReason;
+  }
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const scenarioService = worldScoped('scenarioService');
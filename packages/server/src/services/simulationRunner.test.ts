@@ -0,0 +1,37 @@
+/**
+ * SimulationRunner 确定性测试：同一种子、关闭 LLM 时两次运行的采样和校验点完全一致
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { llmService } from './llm.js';
+import { simulationRunner, type SimulationStrategy } from './simulationRunner.js';
+
+const strategy: SimulationStrategy = {
+  name: 'determinism',
+  seed: 20250101,
+  ticks: 200,
+  sampleInterval: 50,
+  actions: [
+    { tick: 0, command: { type: 'purchaseBuilding', buildingDefId: 'iron-mine' } },
+    { tick: 0, command: { type: 'purchaseBuilding', buildingDefId: 'coal-mine' } },
+    { tick: 5, command: { type: 'purchaseBuilding', buildingDefId: 'steel-mill' } },
+    { tick: 30, every: 10, command: { type: 'submitSellOrder', goodsId: 'steel', quantity: 50, minPrice: 11000 } },
+  ],
+};
+
+describe('SimulationRunner', () => {
+  beforeAll(() => {
+    llmService.updateConfig({ enabled: false });
+  });
+
+  it('produces identical samples and checkpoints for the same seed', async () => {
+    const first = await simulationRunner.run(strategy);
+    const second = await simulationRunner.run(strategy);
+
+    expect(first.seed).toBe(strategy.seed);
+    expect(first.samples).toHaveLength(strategy.ticks / strategy.sampleInterval + 1);
+    expect(first.checkpoints.length).toBeGreaterThan(0);
+    expect(second.samples).toEqual(first.samples);
+    expect(second.checkpoints).toEqual(first.checkpoints);
+  }, 300_000);
+});
@@ -0,0 +1,356 @@
+/**
+ * Simulation Runner - 无界面模拟
+ * 不启动 Fastify，直接创建游戏世界，按策略文件执行玩家指令并全速推进 tick，
+ * 按间隔采样价格、AI公司、POPs满足度和股价时间序列，供数值平衡使用
+ */
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { Difficulty, StockOrderSide, StockOrderType, TakeoverMode } from '@scc/shared';
+import { gameLoop } from './gameLoop.js';
+import { gameWorldFactory } from './gameWorld.js';
+import { aiCompanyManager } from './aiCompanyManager.js';
+import { inventoryManager } from './inventoryManager.js';
+import { economyManager } from './economyManager.js';
+import { stockMarketService } from './stockMarket.js';
+import { applyPlayerCommand, commandJournal, type PlayerCommand, type StateCheckpoint } from './commandJournal.js';
+
+/** 默认模拟 tick 数 */
+const DEFAULT_TICKS = 3000;
+
+/** 默认采样间隔（tick） */
+const DEFAULT_SAMPLE_INTERVAL = 10;
+
+const positionSchema = z.object({ x: z.number(), y: z.number() });
+
+const feasibilitySchema = z.object({
+  score: z.number().min(0).max(100),
+  estimatedCost: z.number().min(0),
+  estimatedTicks: z.number().min(0),
+  prerequisites: z.array(z.string()),
+  risks: z.array(z.string()),
+  riskLevel: z.enum(['minimal', 'low', 'moderate', 'high', 'extreme']),
+  scientistComment: z.string(),
+  keywordAnalysis: z.array(z.string()),
+  evaluatedAt: z.number(),
+});
+
+const prerequisiteAssessmentSchema = z.object({
+  prerequisites: z.array(z.object({ technologyId: z.string().optional(), name: z.string(), owned: z.boolean() })),
+  ownedCount: z.number().int().min(0),
+  missingCount: z.number().int().min(0),
+  costMultiplier: z.number().positive(),
+  successChance: z.number().min(0).max(1),
+});
+
+const playerCommandSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('purchaseBuilding'), buildingDefId: z.string(), position: positionSchema.optional() }),
+  z.object({ type: z.literal('switchMethod'), buildingId: z.string(), methodId: z.string(), allowInfringement: z.boolean().optional() }),
+  z.object({ type: z.literal('setPowerPriority'), buildingId: z.string(), priority: z.enum(['high', 'normal', 'low']) }),
+  z.object({ type: z.literal('setSpeed'), speed: z.union([z.literal(0), z.literal(1), z.literal(2), z.literal(4)]) }),
+  z.object({ type: z.literal('resetGame') }),
+  z.object({ type: z.literal('submitBuyOrder'), goodsId: z.string(), quantity: z.number().positive(), maxPrice: z.number().positive() }),
+  z.object({ type: z.literal('submitSellOrder'), goodsId: z.string(), quantity: z.number().positive(), minPrice: z.number().positive() }),
+  z.object({ type: z.literal('cancelOrder'), orderId: z.string() }),
+  z.object({
+    type: z.literal('proposeContract'),
+    proposal: z.object({
+      type: z.enum(['spot', 'long_term']),
+      buyerId: z.string(),
+      sellerId: z.string(),
+      goodsId: z.string(),
+      quantity: z.number().positive(),
+      pricePerUnit: z.number().positive(),
+      deliveryIntervalTicks: z.number().int().positive().optional(),
+      totalDeliveries: z.number().int().positive().optional(),
+    }),
+    /** 条款已谈妥，对方不再评估 */
+    agreed: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal('cancelContract'), contractId: z.string() }),
+  z.object({
+    type: z.literal('takeLoan'),
+    loanType: z.enum(['term', 'credit_line']),
+    amount: z.number().positive(),
+    termTicks: z.number().int().positive().optional(),
+  }),
+  z.object({ type: z.literal('drawCredit'), loanId: z.string(), amount: z.number().positive() }),
+  z.object({ type: z.literal('repayLoan'), loanId: z.string(), amount: z.number().positive() }),
+  z.object({
+    type: z.literal('initiateTakeover'),
+    targetId: z.string(),
+    offerPrice: z.number().positive(),
+    mode: z.nativeEnum(TakeoverMode).optional(),
+    rationale: z.string().optional(),
+  }),
+  z.object({ type: z.literal('pledgeShares'), bidId: z.string(), shares: z.number().int().min(0) }),
+  z.object({ type: z.literal('directSubsidiary'), subsidiaryId: z.string(), buildingId: z.string(), methodId: z.string() }),
+  z.object({ type: z.literal('injectCash'), amount: z.number().positive() }),
+  z.object({
+    type: z.literal('requestLicense'),
+    patentId: z.string(),
+    upfrontFee: z.number().min(0).optional(),
+    royaltyPerUnit: z.number().min(0).optional(),
+  }),
+  z.object({
+    type: z.literal('respondLicense'),
+    requestId: z.string(),
+    decision: z.enum(['approve', 'reject', 'counter']),
+    upfrontFee: z.number().min(0).optional(),
+    royaltyPerUnit: z.number().min(0).optional(),
+  }),
+  z.object({ type: z.literal('acceptLicenseCounter'), requestId: z.string() }),
+  z.object({ type: z.literal('withdrawLicense'), requestId: z.string() }),
+  z.object({ type: z.literal('challengePatent'), patentId: z.string() }),
+  z.object({ type: z.literal('fileInfringementSuit'), caseId: z.string(), remedy: z.enum(['damages', 'injunction']) }),
+  z.object({ type: z.literal('dropInfringementCase'), caseId: z.string() }),
+  z.object({ type: z.literal('reopenInfringementCase'), caseId: z.string() }),
+  z.object({ type: z.literal('setTechPrerequisites'), technologyId: z.string(), prerequisiteIds: z.array(z.string()) }),
+  z.object({ type: z.literal('respondResearchEvent'), eventId: z.string(), accept: z.boolean() }),
+  z.object({
+    type: z.literal('createResearchConcept'),
+    name: z.string().min(1),
+    description: z.string().min(1),
+    constraints: z.array(z.string()).default([]),
+  }),
+  z.object({
+    type: z.literal('evaluateResearch'),
+    projectId: z.string(),
+    feasibility: feasibilitySchema,
+    prerequisiteAssessment: prerequisiteAssessmentSchema,
+  }),
+  z.object({ type: z.literal('startResearch'), projectId: z.string() }),
+  z.object({ type: z.literal('investResearch'), projectId: z.string(), amount: z.number().positive() }),
+  z.object({ type: z.literal('cancelResearch'), projectId: z.string() }),
+  z.object({
+    type: z.literal('submitStockOrder'),
+    stockId: z.string(),
+    orderType: z.nativeEnum(StockOrderType),
+    side: z.nativeEnum(StockOrderSide),
+    quantity: z.number().int().positive(),
+    limitPrice: z.number().positive().optional(),
+  }),
+  z.object({ type: z.literal('cancelStockOrder'), stockId: z.string(), orderId: z.string() }),
+  z.object({ type: z.literal('setAutoTrade'), enabled: z.boolean() }),
+  z.object({ type: z.literal('autoConfigureTrade') }),
+  z.object({
+    type: z.literal('updateAutoTradeGoods'),
+    goodsId: z.string(),
+    config: z.object({
+      autoBuy: z.record(z.union([z.boolean(), z.number()])).optional(),
+      autoSell: z.record(z.union([z.boolean(), z.number()])).optional(),
+    }),
+  }),
+]);
+
+/** 策略文件 schema */
+export const simulationStrategySchema = z.object({
+  name: z.string().default('simulation'),
+  seed: z.number().int().min(0).max(0xffffffff).optional(),
+  ticks: z.number().int().positive().default(DEFAULT_TICKS),
+  sampleInterval: z.number().int().positive().default(DEFAULT_SAMPLE_INTERVAL),
+  playerCompanyName: z.string().optional(),
+  /** 剧本ID（scenarios/ 目录），不指定时为自由模式 */
+  scenarioId: z.string().optional(),
+  /** 难度，不指定时使用剧本设定的难度（自由模式为普通） */
+  difficulty: z.nativeEnum(Difficulty).optional(),
+  actions: z.array(z.object({
+    /** 首次执行的 tick（该 tick 推进之前执行） */
+    tick: z.number().int().min(0),
+    /** 重复间隔（tick），不指定则只执行一次 */
+    every: z.number().int().positive().optional(),
+    /** 重复截止 tick（含） */
+    until: z.number().int().min(0).optional(),
+    command: playerCommandSchema,
+  })).default([]),
+});
+
+/**
+ * 策略动作
+ */
+export interface SimulationAction {
+  tick: number;
+  every?: number;
+  until?: number;
+  command: PlayerCommand;
+}
+
+/**
+ * 模拟策略
+ */
+export interface SimulationStrategy {
+  name: string;
+  seed?: number;
+  ticks: number;
+  sampleInterval: number;
+  playerCompanyName?: string;
+  scenarioId?: string;
+  difficulty?: Difficulty;
+  actions: SimulationAction[];
+}
+
+/**
+ * 单次采样
+ */
+export interface SimulationSample {
+  tick: number;
+  playerCash: number;
+  playerBuildingCount: number;
+  /** 商品ID -> 价格 */
+  prices: Record<string, number>;
+  /** AI公司ID -> 现金与建筑数 */
+  companies: Record<string, { cash: number; buildingCount: number }>;
+  /** POP群体ID -> (需求组ID -> 满足度) */
+  popsSatisfaction: Record<string, Record<string, number>>;
+  /** 股票（公司ID） -> 股价 */
+  stockPrices: Record<string, number>;
+}
+
+/**
+ * 模拟结果
+ */
+export interface SimulationResult {
+  name: string;
+  seed: number;
+  ticks: number;
+  sampleInterval: number;
+  durationMs: number;
+  commandsApplied: number;
+  /** AI公司ID -> 名称 */
+  companyNames: Record<string, string>;
+  samples: SimulationSample[];
+  /** 与回放相同的状态校验点（同一种子的两次运行应完全一致） */
+  checkpoints: StateCheckpoint[];
+}
+
+/**
+ * 解析并校验策略文件内容
+ */
+export function parseSimulationStrategy(input: unknown): SimulationStrategy {
+  return simulationStrategySchema.parse(input) as SimulationStrategy;
+}
+
+/**
+ * 无界面模拟执行器
+ */
+export class SimulationRunner {
+  /**
+   * 运行模拟
+   * @param onProgress 每次采样后回调
+   */
+  async run(
+    strategy: SimulationStrategy,
+    onProgress?: (tick: number, total: number) => void
+  ): Promise<SimulationResult> {
+    const gameId = `simulation-${randomUUID()}`;
+    const game = gameLoop.getOrCreateGame(gameId, 'player-company-1', {
+      name: strategy.name,
+      ...(strategy.playerCompanyName ? { playerCompanyName: strategy.playerCompanyName } : {}),
+      ...(strategy.seed !== undefined ? { seed: strategy.seed } : {}),
+      ...(strategy.scenarioId !== undefined ? { scenarioId: strategy.scenarioId } : {}),
+      ...(strategy.difficulty !== undefined ? { difficulty: strategy.difficulty } : {}),
+    });
+    const seed = game.seed;
+    console.log(`[Simulation] Running "${strategy.name}" for ${strategy.ticks} ticks (seed ${seed})`);
+
+    const startTime = Date.now();
+    const samples: SimulationSample[] = [];
+    let commandsApplied = 0;
+
+    try {
+      samples.push(this.sample(gameId));
+
+      for (let tick = 0; tick < strategy.ticks; tick++) {
+        for (const action of strategy.actions) {
+          if (this.isDue(action, tick)) {
+            applyPlayerCommand(gameId, action.command);
+            commandsApplied++;
+          }
+        }
+
+        gameLoop.advanceTick(gameId);
+
+        const completed = tick + 1;
+        if (completed % strategy.sampleInterval === 0 || completed === strategy.ticks) {
+          samples.push(this.sample(gameId));
+          onProgress?.(completed, strategy.ticks);
+        }
+
+        // 与实时运行一致：tick 之间让出事件循环，异步结果在下一 tick 前落地
+        await new Promise<void>(resolve => setImmediate(resolve));
+      }
+
+      const companyNames = gameWorldFactory.run(gameId, () => Object.fromEntries(
+        Array.from(aiCompanyManager.getCompanies().values()).map(company => [company.id, company.name])
+      ));
+
+      return {
+        name: strategy.name,
+        seed,
+        ticks: strategy.ticks,
+        sampleInterval: strategy.sampleInterval,
+        durationMs: Date.now() - startTime,
+        commandsApplied,
+        companyNames,
+        samples,
+        checkpoints: structuredClone(commandJournal.getCheckpoints(gameId)),
+      };
+    } finally {
+      gameLoop.destroyGame(gameId);
+      commandJournal.clear(gameId);
+    }
+  }
+
+  /**
+   * 动作是否在该 tick 执行
+   */
+  private isDue(action: SimulationAction, tick: number): boolean {
+    if (tick < action.tick) return false;
+    if (action.every === undefined) return tick === action.tick;
+    if (action.until !== undefined && tick > action.until) return false;
+    return (tick - action.tick) % action.every === 0;
+  }
+
+  /**
+   * 采集当前状态
+   */
+  private sample(gameId: string): SimulationSample {
+    const game = gameLoop.getGame(gameId);
+    if (!game) {
+      throw new Error(`[Simulation] Game ${gameId} not found`);
+    }
+
+    return gameWorldFactory.run(gameId, () => {
+      const companies: SimulationSample['companies'] = {};
+      for (const company of aiCompanyManager.getCompanies().values()) {
+        companies[company.id] = {
+          cash: inventoryManager.getInventory(company.id)?.cash ?? company.cash,
+          buildingCount: company.buildings.length,
+        };
+      }
+
+      const popsSatisfaction: SimulationSample['popsSatisfaction'] = {};
+      for (const [popGroupId, satisfaction] of economyManager.getPOPsSatisfaction()) {
+        popsSatisfaction[popGroupId] = { ...satisfaction };
+      }
+
+      const stockPrices: SimulationSample['stockPrices'] = {};
+      for (const stock of stockMarketService.getAllStocks()) {
+        stockPrices[stock.companyId] = stock.currentPrice;
+      }
+
+      return {
+        tick: game.currentTick,
+        playerCash: inventoryManager.getInventory(game.playerCompanyId)?.cash ?? game.playerCash,
+        playerBuildingCount: game.buildings.length,
+        prices: gameLoop.getMarketPrices(gameId),
+        companies,
+        popsSatisfaction,
+        stockPrices,
+      };
+    });
+  }
+}
+
+// 导出单例
+export const simulationRunner = new SimulationRunner();
@@ -30,11 +30,15 @@ import {
   ShareholdingType,
   DividendType,
   TakeoverStatus,
+  TakeoverMode,
   MarketSentiment,
   VALUATION_CONSTANTS,
   AI_COMPANIES_CONFIG,
 } from '@scc/shared';
 import { inventoryManager } from './inventoryManager.js';
+import { rng } from './rng.js';
+import { difficultySettings } from './difficulty.js';
+import { worldScoped } from './worldContext.js';
 
 /**
  * 价格形成机制参数
@@ -75,6 +79,18 @@ const PRICE_FORMATION = {
   MIN_FINANCIAL_HISTORY: 30,        // 30天财务历史（1 tick = 1天）
 };
 
+/**
+ * 要约收购参数
+ */
+const TENDER_OFFER = {
+  /** 要约有效期（tick数，1 tick = 1天） */
+  DURATION: 30,
+  /** AI股东接受要约所需的最低溢价（相对当前股价） */
+  SHAREHOLDER_MIN_PREMIUM: 0.15,
+  /** 目标公司自持股份（董事会）接受敌意要约所需的最低溢价 */
+  BOARD_MIN_PREMIUM: 0.5,
+};
+
 /**
  * 动量数据结构
  */
@@ -256,6 +272,9 @@ export class StockMarketService extends EventEmitter {
   /** 收购要约 */
   private takeoverBids: Map<EntityId, TakeoverBid> = new Map();
   
+  /** 要约承诺：要约ID -> (股东ID -> 承诺出售的股数) */
+  private pledges = new Map<EntityId, Map<EntityId, number>>();
+  
   /** 分红记录 */
   private dividends: DividendPayment[] = [];
   
@@ -315,8 +334,9 @@ export class StockMarketService extends EventEmitter {
     // 为玩家创建创始人持股（100%）
     this.createFounderShareholding(playerCompanyId, playerCompanyId, currentTick);
     
-    // 创建AI公司股票（差异化初始价格）
+    // 创建AI公司股票（差异化初始价格），只包括本局参与的AI公司（已在库存系统注册）
     for (const config of AI_COMPANIES_CONFIG) {
+      if (!inventoryManager.getInventory(config.id)) continue;
       const ticker = this.generateTicker(config.name);
       // 根据AI公司初始资金计算初始股价
       const initialPrice = this.calculateInitialPrice(config.initialCash, config.personality);
@@ -341,6 +361,7 @@ export class StockMarketService extends EventEmitter {
     const allStocks = Array.from(this.stocks.values());
     
     for (const config of AI_COMPANIES_CONFIG) {
+      if (!this.stocks.has(config.id)) continue;
       // 为每家 AI 公司分配少量其他公司的股票
       // 这样他们可以参与买卖
       for (const stock of allStocks) {
@@ -348,10 +369,10 @@ export class StockMarketService extends EventEmitter {
         if (stock.companyId === config.id) continue;
         
         // 随机决定是否持有这只股票（50%概率）
-        if (Math.random() > 0.5) continue;
+        if (rng.next() > 0.5) continue;
         
         // 持有 0.1% - 0.5% 的流通股
-        const holdingRatio = 0.001 + Math.random() * 0.004;
+        const holdingRatio = 0.001 + rng.next() * 0.004;
         const shares = Math.floor(stock.floatingShares * holdingRatio);
         
         if (shares > 0) {
@@ -411,11 +432,11 @@ export class StockMarketService extends EventEmitter {
         personalityFactor = 1.0; // 玩家公司标准
         break;
       default:
-        personalityFactor = 0.95 + Math.random() * 0.1; // 其他公司随机
+        personalityFactor = 0.95 + rng.next() * 0.1; // 其他公司随机
     }
     
     // 添加小幅随机差异（±5%）
-    const randomFactor = 0.95 + Math.random() * 0.1;
+    const randomFactor = 0.95 + rng.next() * 0.1;
     
     // 最终价格
     const finalPrice = Math.round(basePrice * scaleFactor * personalityFactor * randomFactor);
@@ -545,13 +566,15 @@ export class StockMarketService extends EventEmitter {
     
     // 撮合订单
     const newTrades: StockTrade[] = [];
-    for (const [stockId] of this.stocks) {
+    for (const [stockId, stock] of this.stocks) {
+      if (stock.status === StockStatus.Delisted) continue;
       const trades = this.matchOrders(stockId, currentTick);
       newTrades.push(...trades);
     }
     
     // 更新股价
-    for (const [stockId] of this.stocks) {
+    for (const [stockId, stock] of this.stocks) {
+      if (stock.status === StockStatus.Delisted) continue;
       this.updateStockPrice(stockId, currentTick);
     }
     
@@ -594,6 +617,7 @@ export class StockMarketService extends EventEmitter {
     
     // 记录昨收价，重置当日高低价
     for (const [, stock] of this.stocks) {
+      if (stock.status === StockStatus.Delisted) continue;
       stock.previousClose = stock.currentPrice;
       stock.openPrice = stock.currentPrice;
       stock.highPrice = stock.currentPrice;
@@ -801,7 +825,7 @@ export class StockMarketService extends EventEmitter {
     
     // 创建成交记录
     const trade: StockTrade = {
-      id: `trade-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: `trade-${rng.nextId(9)}`,
       stockId,
       buyerId: buyOrder.companyId,
       sellerId: sellOrder.companyId,
@@ -1118,12 +1142,12 @@ export class StockMarketService extends EventEmitter {
   
   /**
    * 计算随机噪音
-   * 模拟市场微结构噪音
+   * 模拟市场微结构噪音，幅度随难度调整
    */
   private calculateNoiseImpact(stock: Stock): number {
     // 基础随机波动 (正态分布近似)
-    const u1 = Math.random();
-    const u2 = Math.random();
+    const u1 = rng.next();
+    const u2 = rng.next();
     const normalRandom = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
     
     // 波动率根据市场状态调整
@@ -1132,7 +1156,7 @@ export class StockMarketService extends EventEmitter {
       volatilityMultiplier = 0.1; // 涨跌停时波动很小
     }
     
-    return normalRandom * PRICE_FORMATION.BASE_VOLATILITY * volatilityMultiplier;
+    return normalRandom * PRICE_FORMATION.BASE_VOLATILITY * volatilityMultiplier * difficultySettings.getPreset().stockNoiseMultiplier;
   }
   
   /**
@@ -1353,6 +1377,7 @@ export class StockMarketService extends EventEmitter {
     let totalMarketCap = 0;
     
     for (const [companyId, stock] of this.stocks) {
+      if (stock.status === StockStatus.Delisted) continue;
       totalMarketCap += stock.marketCap;
       
       if (stock.priceChangePercent > 0.001) {
@@ -1379,6 +1404,7 @@ export class StockMarketService extends EventEmitter {
     // 计算综合指数（市值加权）
     let indexValue = 0;
     for (const [, stock] of this.stocks) {
+      if (stock.status === StockStatus.Delisted) continue;
       const weight = stock.marketCap / totalMarketCap;
       indexValue += (stock.currentPrice / stock.previousClose) * weight * this.marketState.indexBase;
     }
@@ -1408,6 +1434,7 @@ export class StockMarketService extends EventEmitter {
     const payments: DividendPayment[] = [];
     
     for (const [companyId, stock] of this.stocks) {
+      if (stock.status === StockStatus.Delisted) continue;
       const financials = this.financialsCache.get(companyId);
       if (!financials || financials.netIncome <= 0) continue;
       
@@ -1437,7 +1464,7 @@ export class StockMarketService extends EventEmitter {
       stock.dividendYield = (dividendPerShare * 12) / stock.currentPrice; // 年化股息率
       
       const payment: DividendPayment = {
-        id: `dividend-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id: `dividend-${rng.nextId(9)}`,
         companyId,
         dividendPerShare,
         totalAmount: totalDividend,
@@ -1457,36 +1484,179 @@ export class StockMarketService extends EventEmitter {
   }
   
   /**
-   * 处理收购
+   * 处理收购（要约收购）
+   *
+   * - AI股东按当前溢价决定是否承诺出售，玩家通过 pledgeShares 手动承诺
+   * - 收购方持股 + 承诺股份达到控股比例时按要约价结算，收购方现金不足则要约失败
+   * - 到期未达到控股比例则要约失败，承诺作废
    */
   processTakeovers(currentTick: GameTick): TakeoverBid[] {
     const updates: TakeoverBid[] = [];
     
-    for (const [_bidId, bid] of this.takeoverBids) {
+    for (const [bidId, bid] of this.takeoverBids) {
       if (bid.status !== TakeoverStatus.Pending) continue;
       
       // 检查是否过期
-      if (currentTick >= bid.expiryTick) {
+      const stock = this.stocks.get(bid.targetId);
+      if (currentTick >= bid.expiryTick || !stock || stock.status === StockStatus.Delisted) {
         bid.status = TakeoverStatus.Failed;
+        this.pledges.delete(bidId);
         updates.push(bid);
         continue;
       }
       
+      this.collectAIPledges(bid, stock);
+      this.refreshPledges(bid);
+      
       // 检查是否达到控股比例
-      const acquirerShares = this.getShareholding(bid.acquirerId, bid.targetId);
-      if (acquirerShares && acquirerShares.sharePercent >= VALUATION_CONSTANTS.CONTROL_THRESHOLD) {
-        bid.status = TakeoverStatus.Successful;
+      const acquirerShares = this.getShareholding(bid.acquirerId, bid.targetId)?.shares ?? 0;
+      const requiredShares = Math.ceil(stock.totalShares * VALUATION_CONSTANTS.CONTROL_THRESHOLD);
+      if (acquirerShares + bid.pledgedShares < requiredShares) continue;
+      
+      if (!this.settleTenderOffer(bid, currentTick)) {
+        bid.status = TakeoverStatus.Failed;
+        this.pledges.delete(bidId);
         updates.push(bid);
-        
-        console.log(`[StockMarket] Takeover successful: ${bid.acquirerId} acquired control of ${bid.targetId}`);
-        
-        this.emit('takeoverComplete', bid);
+        console.log(`[StockMarket] Takeover failed: ${bid.acquirerId} cannot pay for ${bid.pledgedShares} tendered shares of ${bid.targetId}`);
+        continue;
       }
+      
+      bid.status = TakeoverStatus.Successful;
+      updates.push(bid);
+      
+      console.log(`[StockMarket] Takeover successful: ${bid.acquirerId} acquired control of ${bid.targetId}`);
+      
+      this.emit('takeoverComplete', bid);
     }
     
     return updates;
   }
   
+  /**
+   * AI股东根据当前溢价决定是否承诺出售（股价上涨后溢价不足会撤回承诺）
+   * 目标公司自持的股份由董事会决定，要求更高的溢价
+   */
+  private collectAIPledges(bid: TakeoverBid, stock: Stock): void {
+    const premium = (bid.offerPrice - stock.currentPrice) / stock.currentPrice;
+    const pledges = this.pledges.get(bid.id) ?? new Map<EntityId, number>();
+    
+    for (const holding of this.getStockholders(bid.targetId)) {
+      if (holding.holderId === bid.acquirerId) continue;
+      if (!AI_COMPANIES_CONFIG.some(config => config.id === holding.holderId)) continue;
+      
+      const minPremium = holding.holderId === bid.targetId
+        ? TENDER_OFFER.BOARD_MIN_PREMIUM
+        : TENDER_OFFER.SHAREHOLDER_MIN_PREMIUM;
+      if (premium >= minPremium) {
+        pledges.set(holding.holderId, holding.shares);
+      } else {
+        pledges.delete(holding.holderId);
+      }
+    }
+    
+    this.pledges.set(bid.id, pledges);
+  }
+  
+  /**
+   * 按股东当前持股修正承诺数量（承诺后卖出的部分作废），并更新 pledgedShares
+   */
+  private refreshPledges(bid: TakeoverBid): void {
+    const pledges = this.pledges.get(bid.id);
+    let total = 0;
+    
+    if (pledges) {
+      for (const [holderId, shares] of pledges) {
+        const held = this.getShareholding(holderId, bid.targetId)?.shares ?? 0;
+        const valid = Math.min(shares, held);
+        if (valid > 0) {
+          pledges.set(holderId, valid);
+          total += valid;
+        } else {
+          pledges.delete(holderId);
+        }
+      }
+    }
+    
+    bid.pledgedShares = total;
+  }
+  
+  /**
+   * 要约结算：收购方按要约价买入全部承诺股份
+   * @returns 收购方现金不足时返回 false，不做任何转移
+   */
+  private settleTenderOffer(bid: TakeoverBid, currentTick: GameTick): boolean {
+    const pledges = this.pledges.get(bid.id) ?? new Map<EntityId, number>();
+    const totalCost = bid.offerPrice * bid.pledgedShares;
+    if (inventoryManager.getCash(bid.acquirerId) < totalCost) return false;
+    
+    for (const [holderId, shares] of pledges) {
+      const value = bid.offerPrice * shares;
+      inventoryManager.deductCash(bid.acquirerId, value, currentTick, `tender_offer_${bid.targetId}`);
+      inventoryManager.addCash(holderId, value, currentTick, `tender_offer_${bid.targetId}`);
+      this.transferShares(holderId, bid.acquirerId, bid.targetId, shares, bid.offerPrice, currentTick);
+    }
+    
+    this.pledges.delete(bid.id);
+    this.invalidateValuationCache(bid.targetId);
+    return true;
+  }
+  
+  /**
+   * 股东承诺按要约价出售股份（设置承诺数量，0表示撤回承诺）
+   */
+  pledgeShares(
+    bidId: EntityId,
+    holderId: EntityId,
+    shares: number
+  ): { success: boolean; bid?: TakeoverBid; error?: string } {
+    const bid = this.takeoverBids.get(bidId);
+    if (!bid) {
+      return { success: false, error: '收购要约不存在' };
+    }
+    if (bid.status !== TakeoverStatus.Pending) {
+      return { success: false, error: '收购要约已结束' };
+    }
+    if (holderId === bid.acquirerId) {
+      return { success: false, error: '收购方不能向自己的要约承诺股份' };
+    }
+    
+    const held = this.getShareholding(holderId, bid.targetId)?.shares ?? 0;
+    if (shares > held) {
+      return { success: false, error: `持股不足：持有 ${held} 股` };
+    }
+    
+    const pledges = this.pledges.get(bidId) ?? new Map<EntityId, number>();
+    if (shares > 0) {
+      pledges.set(holderId, shares);
+    } else {
+      pledges.delete(holderId);
+    }
+    this.pledges.set(bidId, pledges);
+    this.refreshPledges(bid);
+    
+    return { success: true, bid };
+  }
+  
+  /**
+   * 吸收合并前收购剩余流通股（按要约价，目标公司自持股份直接注销）
+   * @returns 收购方现金不足时返回 false，不做任何转移
+   */
+  squeezeOutMinority(acquirerId: EntityId, targetId: EntityId, price: Money, currentTick: GameTick): boolean {
+    const minority = this.getStockholders(targetId)
+      .filter(h => h.holderId !== acquirerId && h.holderId !== targetId);
+    const totalCost = minority.reduce((sum, h) => sum + h.shares * price, 0);
+    if (inventoryManager.getCash(acquirerId) < totalCost) return false;
+    
+    for (const holding of minority) {
+      const value = holding.shares * price;
+      inventoryManager.deductCash(acquirerId, value, currentTick, `squeeze_out_${targetId}`);
+      inventoryManager.addCash(holding.holderId, value, currentTick, `squeeze_out_${targetId}`);
+      this.transferShares(holding.holderId, acquirerId, targetId, holding.shares, price, currentTick);
+    }
+    
+    return true;
+  }
+  
   /**
    * 提交股票订单
    */
@@ -1523,7 +1693,7 @@ export class StockMarketService extends EventEmitter {
     
     // 创建订单
     const order: StockOrder = {
-      id: `order-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: `order-${rng.nextId(9)}`,
       companyId: request.companyId,
       stockId: request.stockId,
       orderType: request.orderType,
@@ -1669,12 +1839,19 @@ export class StockMarketService extends EventEmitter {
     targetId: EntityId,
     offerPrice: Money,
     rationale: string,
-    currentTick: GameTick
+    currentTick: GameTick,
+    mode: TakeoverMode = TakeoverMode.Subsidiary
   ): { success: boolean; bid?: TakeoverBid; error?: string } {
     const targetStock = this.stocks.get(targetId);
-    if (!targetStock) {
+    if (!targetStock || targetStock.status === StockStatus.Delisted) {
       return { success: false, error: '目标公司不存在' };
     }
+    if (acquirerId === targetId) {
+      return { success: false, error: '不能收购自己' };
+    }
+    if (offerPrice <= 0) {
+      return { success: false, error: '要约价格必须大于0' };
+    }
     
     // 检查是否已有进行中的收购
     for (const [, bid] of this.takeoverBids) {
@@ -1692,7 +1869,7 @@ export class StockMarketService extends EventEmitter {
     const premium = (offerPrice - targetStock.currentPrice) / targetStock.currentPrice;
     
     const bid: TakeoverBid = {
-      id: `takeover-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: `takeover-${rng.nextId(9)}`,
       acquirerId,
       targetId,
       offerPrice,
@@ -1701,10 +1878,11 @@ export class StockMarketService extends EventEmitter {
       pledgedShares: 0,
       status: TakeoverStatus.Pending,
       initiatedTick: currentTick,
-      expiryTick: currentTick + 30, // 30天有效期（1 tick = 1天）
+      expiryTick: currentTick + TENDER_OFFER.DURATION,
       rationale,
       hostile: true, // 默认为敌意收购
       defenseActivated: false,
+      mode,
     };
     
     this.takeoverBids.set(bid.id, bid);
@@ -1716,6 +1894,51 @@ export class StockMarketService extends EventEmitter {
     return { success: true, bid };
   }
   
+  /**
+   * 退市（公司破产清算时调用）
+   * 撤销全部挂单，终止收购要约，股东持股清零
+   */
+  delistStock(companyId: EntityId, currentTick: GameTick): boolean {
+    const stock = this.stocks.get(companyId);
+    if (!stock || stock.status === StockStatus.Delisted) return false;
+    
+    const orderBook = this.orderBooks.get(companyId);
+    if (orderBook) {
+      for (const order of orderBook.getAllOrders()) {
+        orderBook.cancelOrder(order.id);
+      }
+    }
+    
+    for (const [, bid] of this.takeoverBids) {
+      if (bid.targetId === companyId && bid.status === TakeoverStatus.Pending) {
+        bid.status = TakeoverStatus.Failed;
+        this.pledges.delete(bid.id);
+      }
+    }
+    
+    // 股东权益清零
+    let wipedHolders = 0;
+    for (const [holderId, holdings] of this.shareholdings) {
+      const remaining = holdings.filter(h => h.companyId !== companyId);
+      if (remaining.length !== holdings.length) {
+        wipedHolders++;
+        this.shareholdings.set(holderId, remaining);
+      }
+    }
+    
+    stock.status = StockStatus.Delisted;
+    stock.currentPrice = 0;
+    stock.marketCap = 0;
+    stock.volume = 0;
+    stock.turnover = 0;
+    this.invalidateValuationCache(companyId);
+    
+    console.log(`[StockMarket] ${stock.ticker} delisted at tick ${currentTick}, ${wipedHolders} shareholders wiped out`);
+    this.emit('stockDelisted', { companyId, ticker: stock.ticker, tick: currentTick });
+    
+    return true;
+  }
+  
   /**
    * 获取市场深度（盘口）
    */
@@ -1760,6 +1983,30 @@ export class StockMarketService extends EventEmitter {
     return { bids, asks };
   }
   
+  /**
+   * 获取收购要约（可按收购方或目标公司过滤）
+   */
+  getTakeoverBids(companyId?: EntityId): TakeoverBid[] {
+    const bids = Array.from(this.takeoverBids.values());
+    return companyId
+      ? bids.filter(bid => bid.acquirerId === companyId || bid.targetId === companyId)
+      : bids;
+  }
+  
+  /**
+   * 获取收购要约
+   */
+  getTakeoverBid(bidId: EntityId): TakeoverBid | undefined {
+    return this.takeoverBids.get(bidId);
+  }
+  
+  /**
+   * 获取要约的承诺明细
+   */
+  getPledges(bidId: EntityId): { holderId: EntityId; shares: number }[] {
+    return Array.from(this.pledges.get(bidId) ?? [], ([holderId, shares]) => ({ holderId, shares }));
+  }
+  
   /**
    * 重置股市
    */
@@ -1770,6 +2017,7 @@ export class StockMarketService extends EventEmitter {
     this.trades = [];
     this.priceHistory.clear();
     this.takeoverBids.clear();
+    this.pledges.clear();
     this.dividends = [];
     this.financialsCache.clear();
     this.momentumData.clear();
@@ -1777,7 +2025,70 @@ export class StockMarketService extends EventEmitter {
     this.marketState = this.createInitialMarketState();
     console.log('[StockMarket] Reset complete');
   }
+  
+  /**
+   * 导出股市状态（用于存档）
+   * 未成交订单和估值缓存不保存，读档后重新生成
+   */
+  exportState(): StockMarketSnapshot {
+    return structuredClone({
+      stocks: Array.from(this.stocks.values()),
+      shareholdings: Array.from(this.shareholdings.entries()),
+      trades: this.trades,
+      marketState: this.marketState,
+      priceHistory: Array.from(this.priceHistory.entries()),
+      momentumData: Array.from(this.momentumData.entries()),
+      takeoverBids: Array.from(this.takeoverBids.values()),
+      pledges: Array.from(this.pledges, ([bidId, pledges]): [EntityId, [EntityId, number][]] => [bidId, Array.from(pledges.entries())]),
+      dividends: this.dividends,
+      lastTradingDayStart: this.lastTradingDayStart,
+    });
+  }
+  
+  /**
+   * 从存档恢复股市状态
+   */
+  importState(snapshot: StockMarketSnapshot): void {
+    this.reset();
+    const state = structuredClone(snapshot);
+    
+    for (const stock of state.stocks) {
+      this.stocks.set(stock.companyId, stock);
+      this.orderBooks.set(stock.companyId, new StockOrderBook());
+    }
+    this.shareholdings = new Map(state.shareholdings);
+    this.trades = state.trades;
+    this.marketState = state.marketState;
+    this.priceHistory = new Map(state.priceHistory);
+    this.momentumData = new Map(state.momentumData);
+    for (const bid of state.takeoverBids) {
+      this.takeoverBids.set(bid.id, bid);
+    }
+    for (const [bidId, pledges] of state.pledges) {
+      this.pledges.set(bidId, new Map(pledges));
+    }
+    this.dividends = state.dividends;
+    this.lastTradingDayStart = state.lastTradingDayStart;
+    
+    console.log(`[StockMarket] Restored ${this.stocks.size} stocks from save`);
+  }
+}
+
+/**
+ * 股市存档数据（Map 字段转换为条目数组）
+ */
+export interface StockMarketSnapshot {
+  stocks: Stock[];
+  shareholdings: [EntityId, Shareholding[]][];
+  trades: StockTrade[];
+  marketState: StockMarketState;
+  priceHistory: [EntityId, StockPriceHistory[]][];
+  momentumData: [EntityId, { priceChanges: number[]; cumulativeMomentum: number }][];
+  takeoverBids: TakeoverBid[];
+  pledges: [EntityId, [EntityId, number][]][];
+  dividends: DividendPayment[];
+  lastTradingDayStart: GameTick;
 }
 
-// 单例导出
-export const stockMarketService = new StockMarketService();
\ No newline at end of file
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const stockMarketService = worldScoped('stockMarketService');
\ No newline at end of file
@@ -0,0 +1,358 @@
+/**
+ * Takeover Service - 收购整合
+ * 要约收购成功（见 StockMarketService.processTakeovers）后将目标公司置于收购方控制之下
+ *
+ * - 控股（TakeoverMode.Subsidiary）：目标公司成为子公司，保留建筑和现金，继续生产和交易，
+ *   但不再独立制定战略、扩张或炒股；母公司可直接指挥子公司建筑的生产方式
+ * - 吸收合并（TakeoverMode.Merger）：按要约价收购剩余股份后，建筑、库存、现金、贷款和合同并入收购方，
+ *   目标公司退市并退出市场；收购方现金不足或建筑容量不足时改为控股
+ *
+ * 母子公司关系以 RelationshipType.Parent / Subsidiary 表示
+ */
+
+import {
+  BUILDINGS_DATA,
+  RelationshipType,
+  TakeoverMode,
+  TakeoverStatus,
+  tickToGameTimestamp,
+  type CompanyRelationship,
+  type TakeoverBid,
+} from '@scc/shared';
+import type { GameState } from './gameLoop.js';
+import { inventoryManager } from './inventoryManager.js';
+import { marketOrderBook } from './marketOrderBook.js';
+import { aiCompanyManager } from './aiCompanyManager.js';
+import { bankingService } from './bankingService.js';
+import { contractService } from './contractService.js';
+import { stockMarketService } from './stockMarket.js';
+import { technologyEffectManager } from './technologyEffectManager.js';
+import { rng } from './rng.js';
+import { worldScoped } from './worldContext.js';
+
+/** 保留的收购事件数量 */
+const MAX_HISTORY = 100;
+
+/**
+ * 子公司记录
+ */
+export interface Subsidiary {
+  subsidiaryId: string;
+  subsidiaryName: string;
+  parentId: string;
+  /** 取得控制权的收购要约 */
+  bidId: string;
+  acquiredTick: number;
+}
+
+/**
+ * 收购事件
+ */
+export interface TakeoverEvent {
+  type: 'subsidiary_acquired' | 'merged' | 'failed';
+  bidId: string;
+  acquirerId: string;
+  targetId: string;
+  targetName: string;
+  tick: number;
+  message: string;
+  /** 吸收合并：并入收购方的建筑数和现金 */
+  buildingsTransferred?: number;
+  cashTransferred?: number;
+}
+
+/**
+ * 指挥子公司生产的结果
+ */
+export interface DirectProductionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * 收购整合存档数据
+ */
+export interface TakeoverSnapshotState {
+  subsidiaries: Subsidiary[];
+  history: TakeoverEvent[];
+}
+
+/**
+ * 收购整合服务
+ * 每个游戏世界一个实例
+ */
+export class TakeoverService {
+  /** 子公司ID -> 子公司记录 */
+  private subsidiaries = new Map<string, Subsidiary>();
+  private history: TakeoverEvent[] = [];
+
+  /**
+   * 处理股市本轮结束的收购要约：成功的完成整合，失败的生成事件
+   */
+  processTakeoverUpdates(game: GameState, bids: TakeoverBid[], currentTick: number): TakeoverEvent[] {
+    const events: TakeoverEvent[] = [];
+
+    for (const bid of bids) {
+      if (bid.status === TakeoverStatus.Successful) {
+        events.push(this.completeTakeover(game, bid, currentTick));
+      } else if (bid.status === TakeoverStatus.Failed) {
+        const targetName = this.getCompanyName(game, bid.targetId);
+        events.push(this.createEvent('failed', bid, targetName, currentTick,
+          `对 ${targetName} 的收购要约失败（承诺股份 ${bid.pledgedShares}）`));
+      }
+    }
+
+    this.history.push(...events);
+    if (this.history.length > MAX_HISTORY) {
+      this.history = this.history.slice(-MAX_HISTORY);
+    }
+    return events;
+  }
+
+  /**
+   * 完成收购：按要约的整合方式吸收合并或设为子公司
+   */
+  private completeTakeover(game: GameState, bid: TakeoverBid, currentTick: number): TakeoverEvent {
+    const targetName = this.getCompanyName(game, bid.targetId);
+
+    if (bid.mode === TakeoverMode.Merger) {
+      const target = aiCompanyManager.getCompany(bid.targetId);
+      const acquirerIsPlayer = bid.acquirerId === game.playerCompanyId;
+      const hasCapacity = acquirerIsPlayer || aiCompanyManager.canAcquireBuilding(bid.acquirerId, target?.buildings.length ?? 0);
+
+      if (target && hasCapacity && stockMarketService.squeezeOutMinority(bid.acquirerId, bid.targetId, bid.offerPrice, currentTick)) {
+        return this.merge(game, bid, targetName, currentTick);
+      }
+
+      const event = this.subsidiarize(game, bid, targetName, currentTick);
+      event.message += '（无法完成吸收合并，改为控股）';
+      return event;
+    }
+
+    return this.subsidiarize(game, bid, targetName, currentTick);
+  }
+
+  /**
+   * 设为子公司（已是其他公司子公司的，改由收购方控股）
+   */
+  private subsidiarize(game: GameState, bid: TakeoverBid, targetName: string, currentTick: number): TakeoverEvent {
+    this.subsidiaries.set(bid.targetId, {
+      subsidiaryId: bid.targetId,
+      subsidiaryName: targetName,
+      parentId: bid.acquirerId,
+      bidId: bid.id,
+      acquiredTick: currentTick,
+    });
+    this.syncCash(game, bid.acquirerId, bid.targetId);
+
+    console.log(`[Takeover] ${targetName} is now a subsidiary of ${bid.acquirerId}`);
+
+    return this.createEvent('subsidiary_acquired', bid, targetName, currentTick,
+      `${this.getCompanyName(game, bid.acquirerId)} 完成对 ${targetName} 的收购，${targetName} 成为其子公司`);
+  }
+
+  /**
+   * 吸收合并：资产、负债和合同并入收购方，目标公司退市并退出市场
+   */
+  private merge(game: GameState, bid: TakeoverBid, targetName: string, currentTick: number): TakeoverEvent {
+    const { acquirerId, targetId } = bid;
+    const acquirerIsPlayer = acquirerId === game.playerCompanyId;
+    const target = aiCompanyManager.getCompany(targetId);
+    const buildings = target?.buildings ?? [];
+
+    for (const order of marketOrderBook.getCompanyActiveOrders(targetId)) {
+      marketOrderBook.cancelOrder(order.id, currentTick);
+    }
+    contractService.transferForMerger(targetId, acquirerId, currentTick);
+    bankingService.assumeLoans(targetId, acquirerId);
+
+    // 建筑保留建造/生产进度，重新分配ID
+    for (const building of buildings) {
+      if (acquirerIsPlayer) {
+        game.buildings.push({ ...structuredClone(building), id: `building-${rng.nextId(9)}` });
+      } else {
+        aiCompanyManager.acquireBuilding(acquirerId, building);
+      }
+    }
+
+    // 库存按原平均成本转入
+    const avgCosts = new Map<string, number>();
+    for (const [goodsId, stock] of Object.entries(inventoryManager.getInventory(targetId)?.stocks ?? {})) {
+      avgCosts.set(goodsId, stock.avgCost);
+    }
+    for (const [goodsId, quantity] of inventoryManager.clearAllGoods(targetId, currentTick, 'merger')) {
+      inventoryManager.addGoods(acquirerId, goodsId, quantity, avgCosts.get(goodsId) ?? 0, currentTick, 'merger');
+    }
+
+    const cash = Math.max(0, inventoryManager.getCash(targetId));
+    if (cash > 0) {
+      inventoryManager.deductCash(targetId, cash, currentTick, 'merger');
+      inventoryManager.addCash(acquirerId, cash, currentTick, 'merger');
+    }
+
+    stockMarketService.delistStock(targetId, currentTick);
+    aiCompanyManager.removeCompany(targetId, '被吸收合并，退出市场');
+
+    // 被合并方的子公司改由收购方控股
+    this.subsidiaries.delete(targetId);
+    for (const subsidiary of this.subsidiaries.values()) {
+      if (subsidiary.parentId === targetId) {
+        subsidiary.parentId = acquirerId;
+      }
+    }
+    this.syncCash(game, acquirerId);
+
+    console.log(`[Takeover] ${targetName} merged into ${acquirerId}: ${buildings.length} buildings, cash ${Math.round(cash)}`);
+
+    return {
+      ...this.createEvent('merged', bid, targetName, currentTick,
+        `${this.getCompanyName(game, acquirerId)} 吸收合并 ${targetName}：并入 ${buildings.length} 座建筑和 ${(cash / 10000).toFixed(0)} 万现金，${targetName} 退市`),
+      buildingsTransferred: buildings.length,
+      cashTransferred: cash,
+    };
+  }
+
+  /**
+   * 母公司指挥子公司建筑切换生产方式
+   */
+  directProduction(parentId: string, subsidiaryId: string, buildingId: string, methodId: string): DirectProductionResult {
+    if (this.subsidiaries.get(subsidiaryId)?.parentId !== parentId) {
+      return { success: false, error: '该公司不是你的子公司' };
+    }
+
+    const company = aiCompanyManager.getCompany(subsidiaryId);
+    const building = company?.buildings.find(b => b.id === buildingId);
+    if (!company || !building) {
+      return { success: false, error: '建筑不存在' };
+    }
+
+    const slot = BUILDINGS_DATA.find(b => b.id === building.definitionId)?.productionSlots[0];
+    const method = slot?.methods.find(m => m.id === methodId);
+    if (!method) {
+      return { success: false, error: '生产方式不存在' };
+    }
+    if (technologyEffectManager.isMethodBlocked(methodId)) {
+      return { success: false, error: '该生产方式已被禁止' };
+    }
+
+    building.currentMethodId = methodId;
+    building.productionProgress = 0;
+
+    console.log(`[Takeover] ${parentId} switched ${company.name}/${building.name} to ${method.nameZh}`);
+    return { success: true };
+  }
+
+  /**
+   * 解除公司的母子关系（公司清算退出时调用）：作为子公司的记录删除，其子公司恢复独立
+   */
+  detach(companyId: string): void {
+    this.subsidiaries.delete(companyId);
+    for (const [subsidiaryId, subsidiary] of this.subsidiaries) {
+      if (subsidiary.parentId === companyId) {
+        this.subsidiaries.delete(subsidiaryId);
+      }
+    }
+  }
+
+  isSubsidiary(companyId: string): boolean {
+    return this.subsidiaries.has(companyId);
+  }
+
+  getParentId(companyId: string): string | undefined {
+    return this.subsidiaries.get(companyId)?.parentId;
+  }
+
+  getSubsidiaries(parentId?: string): Subsidiary[] {
+    return Array.from(this.subsidiaries.values()).filter(s => !parentId || s.parentId === parentId);
+  }
+
+  /**
+   * 公司的母子公司关系
+   */
+  getRelationships(companyId: string): CompanyRelationship[] {
+    const relationships: CompanyRelationship[] = [];
+    const toRelationship = (targetCompanyId: string, type: RelationshipType, acquiredTick: number): CompanyRelationship => ({
+      targetCompanyId,
+      type,
+      trust: 100,
+      lastInteraction: tickToGameTimestamp(acquiredTick),
+      notes: [],
+    });
+
+    const own = this.subsidiaries.get(companyId);
+    if (own) {
+      relationships.push(toRelationship(own.parentId, RelationshipType.Parent, own.acquiredTick));
+    }
+    for (const subsidiary of this.getSubsidiaries(companyId)) {
+      relationships.push(toRelationship(subsidiary.subsidiaryId, RelationshipType.Subsidiary, subsidiary.acquiredTick));
+    }
+    return relationships;
+  }
+
+  getHistory(limit = 50): TakeoverEvent[] {
+    return this.history.slice(-limit);
+  }
+
+  private getCompanyName(game: GameState, companyId: string): string {
+    if (companyId === game.playerCompanyId) {
+      return inventoryManager.getInventory(companyId)?.companyName ?? '玩家公司';
+    }
+    return aiCompanyManager.getCompany(companyId)?.name ?? stockMarketService.getStock(companyId)?.ticker ?? companyId;
+  }
+
+  /**
+   * 同步现金（股份结算和资产转移都经过 inventoryManager）
+   */
+  private syncCash(game: GameState, ...companyIds: string[]): void {
+    for (const companyId of companyIds) {
+      if (companyId === game.playerCompanyId) {
+        game.playerCash = inventoryManager.getCash(companyId);
+        continue;
+      }
+      const company = aiCompanyManager.getCompany(companyId);
+      if (company) {
+        company.cash = inventoryManager.getCash(companyId);
+      }
+    }
+  }
+
+  private createEvent(
+    type: TakeoverEvent['type'],
+    bid: TakeoverBid,
+    targetName: string,
+    tick: number,
+    message: string
+  ): TakeoverEvent {
+    return {
+      type,
+      bidId: bid.id,
+      acquirerId: bid.acquirerId,
+      targetId: bid.targetId,
+      targetName,
+      tick,
+      message,
+    };
+  }
+
+  /**
+   * 导出收购整合状态（用于存档）
+   */
+  exportState(): TakeoverSnapshotState {
+    return {
+      subsidiaries: Array.from(this.subsidiaries.values()).map(subsidiary => ({ ...subsidiary })),
+      history: this.history.map(event => ({ ...event })),
+    };
+  }
+
+  /**
+   * 从存档恢复收购整合状态
+   */
+  importState(state: TakeoverSnapshotState): void {
+    this.subsidiaries = new Map(state.subsidiaries.map(subsidiary => [subsidiary.subsidiaryId, { ...subsidiary }]));
+    this.history = state.history.map(event => ({ ...event }));
+    console.log(`[Takeover] Restored ${this.subsidiaries.size} subsidiaries`);
+  }
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const takeoverService = worldScoped('takeoverService');
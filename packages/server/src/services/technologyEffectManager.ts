@@ -1,9 +1,18 @@
 /**
  * Technology Effect Manager - 技术效果管理器
  * 管理已激活技术的效果，并在游戏循环中应用这些效果
+ *
+ * 技术修饰符只对持有技术的公司（玩家或 AI）的建筑生效；
+ * 技术解锁的生产方式所有公司都能切换，使用他人专利的生产方式需获得授权（见 patentLicensing.ts）
+ *
+ * 事件效果（见 eventEffects.ts）也通过这里生效：
+ * - 事件修饰符：按来源登记的产能 / 成本修饰符，对所有公司的建筑生效，与技术修饰符一起参与 getBuildingModifiers
+ * - 生产方式禁令：被禁止的生产方式不能切换过去，使用它的建筑停产；豁免可暂时解除禁令
+ * 这两类状态不随技术存档，由 EventEffectManager 读档时重新登记
  */
 
 import { BUILDINGS_DATA, type ProductionMethodData } from '@scc/shared';
+import { worldScoped } from './worldContext.js';
 
 // ============================================
 // 类型定义
@@ -69,12 +78,22 @@ export class TechnologyEffectManager {
   private cachedGlobalModifiers: TechnologyModifier[] = [];
   private cacheValid = false;
 
+  // 事件修饰符（来源ID -> 修饰符）
+  private eventModifiers = new Map<string, TechnologyModifier[]>();
+
+  // 生产方式禁令与豁免（生产方式ID -> 来源ID集合）
+  private blockedMethods = new Map<string, Set<string>>();
+  private exemptedMethods = new Map<string, Set<string>>();
+
   /**
    * 初始化管理器
    */
   initialize(): void {
     this.activeTechnologies.clear();
     this.unlockedMethodsByBuilding.clear();
+    this.eventModifiers.clear();
+    this.blockedMethods.clear();
+    this.exemptedMethods.clear();
     this.invalidateCache();
     console.log('[TechnologyEffectManager] Initialized');
   }
@@ -131,54 +150,81 @@ export class TechnologyEffectManager {
   }
 
   /**
-   * 获取建筑的效率修饰符（聚合所有激活技术的效果）
+   * 获取公司建筑的效率修饰符（聚合该公司激活的技术和所有事件的效果）
    */
-  getBuildingModifiers(buildingId: string, buildingCategory?: string): BuildingModifiers {
-    const result: BuildingModifiers = {
-      efficiencyMultiplier: 1.0,
-      costMultiplier: 1.0,
-      outputMultiplier: 1.0,
-      inputMultiplier: 1.0,
-    };
-
-    // 遍历所有激活技术的修饰符
-    for (const [, tech] of this.activeTechnologies) {
-      for (const mod of tech.globalModifiers) {
-        // 检查是否适用于此建筑
-        const applies = 
-          mod.targetType === 'global' ||
-          (mod.targetType === 'building' && mod.targetId === buildingId) ||
-          (mod.targetType === 'building' && mod.targetId === buildingCategory);
-
-        if (!applies) continue;
-
-        // 应用修饰符
-        switch (mod.modifierType) {
-          case 'efficiency_boost':
-            result.efficiencyMultiplier *= (1 + mod.value);
-            break;
-          case 'cost_reduction':
-            result.costMultiplier *= (1 - mod.value);
-            break;
-          case 'output_increase':
-            result.outputMultiplier *= (1 + mod.value);
-            break;
-          case 'input_reduction':
-            result.inputMultiplier *= (1 - mod.value);
-            break;
-        }
-      }
+  getBuildingModifiers(companyId: string, buildingId: string, buildingCategory?: string): BuildingModifiers {
+    const modifiers: TechnologyModifier[] = [];
+    for (const tech of this.getTechnologiesByCompany(companyId)) {
+      modifiers.push(...tech.globalModifiers);
+    }
+    for (const [, eventModifiers] of this.eventModifiers) {
+      modifiers.push(...eventModifiers);
     }
+    return this.aggregateModifiers(modifiers, buildingId, buildingCategory);
+  }
 
-    return result;
+  /**
+   * 登记事件修饰符（同一来源重复登记时覆盖）
+   */
+  addEventModifiers(sourceId: string, modifiers: TechnologyModifier[]): void {
+    this.eventModifiers.set(sourceId, modifiers);
+  }
+
+  /**
+   * 移除某个来源的事件修饰符
+   */
+  removeEventModifiers(sourceId: string): void {
+    this.eventModifiers.delete(sourceId);
+  }
+
+  /**
+   * 禁止一个生产方式
+   */
+  blockMethod(methodId: string, sourceId: string): void {
+    addToSourceSet(this.blockedMethods, methodId, sourceId);
+  }
+
+  /**
+   * 解除某个来源对生产方式的禁令
+   */
+  unblockMethod(methodId: string, sourceId: string): void {
+    removeFromSourceSet(this.blockedMethods, methodId, sourceId);
+  }
+
+  /**
+   * 豁免一个生产方式（豁免期间禁令不生效）
+   */
+  exemptMethod(methodId: string, sourceId: string): void {
+    addToSourceSet(this.exemptedMethods, methodId, sourceId);
+  }
+
+  /**
+   * 取消某个来源对生产方式的豁免
+   */
+  removeMethodExemption(methodId: string, sourceId: string): void {
+    removeFromSourceSet(this.exemptedMethods, methodId, sourceId);
+  }
+
+  /**
+   * 生产方式当前是否被禁止
+   */
+  isMethodBlocked(methodId: string): boolean {
+    return this.blockedMethods.has(methodId) && !this.exemptedMethods.has(methodId);
   }
 
   /**
-   * 获取所有全局效率修饰符（用于UI显示）
+   * 获取当前被禁止的生产方式
    */
-  getGlobalEfficiencyBonus(): number {
+  getBlockedMethods(): string[] {
+    return Array.from(this.blockedMethods.keys()).filter(methodId => this.isMethodBlocked(methodId));
+  }
+
+  /**
+   * 获取全局效率修饰符（用于UI显示，指定公司时只统计该公司的技术）
+   */
+  getGlobalEfficiencyBonus(companyId?: string): number {
     let bonus = 0;
-    for (const [, tech] of this.activeTechnologies) {
+    for (const tech of this.getScopedTechnologies(companyId)) {
       for (const mod of tech.globalModifiers) {
         if (mod.targetType === 'global' && mod.modifierType === 'efficiency_boost') {
           bonus += mod.value;
@@ -204,6 +250,14 @@ export class TechnologyEffectManager {
     return [...baseMethods, ...unlockedMethods];
   }
 
+  /**
+   * 查找建筑的生产方式（包括技术解锁的），找不到时返回默认生产方式
+   */
+  resolveMethod(buildingId: string, methodId: string): ProductionMethodData | undefined {
+    const methods = this.getAvailableMethods(buildingId);
+    return methods.find(m => m.id === methodId) ?? methods[0];
+  }
+
   /**
    * 检查某个生产方式是否是技术解锁的
    */
@@ -246,9 +300,9 @@ export class TechnologyEffectManager {
   }
 
   /**
-   * 获取效果摘要（用于前端显示）
+   * 获取效果摘要（用于前端显示，指定公司时只统计该公司的技术）
    */
-  getEffectsSummary(): {
+  getEffectsSummary(companyId?: string): {
     totalTechnologies: number;
     globalEfficiencyBonus: number;
     totalUnlockedMethods: number;
@@ -261,20 +315,92 @@ export class TechnologyEffectManager {
       totalUnlockedMethods += methods.length;
     }
 
-    for (const [, tech] of this.activeTechnologies) {
+    const technologies = this.getScopedTechnologies(companyId);
+    for (const tech of technologies) {
       for (const mod of tech.globalModifiers) {
         modifiersByType[mod.modifierType] = (modifiersByType[mod.modifierType] || 0) + mod.value;
       }
     }
 
     return {
-      totalTechnologies: this.activeTechnologies.size,
-      globalEfficiencyBonus: this.getGlobalEfficiencyBonus(),
+      totalTechnologies: technologies.length,
+      globalEfficiencyBonus: this.getGlobalEfficiencyBonus(companyId),
       totalUnlockedMethods,
       modifiersByType,
     };
   }
 
+  /**
+   * 导出激活的技术（用于存档）
+   */
+  exportState(): ActiveTechnology[] {
+    return structuredClone(this.getActiveTechnologies());
+  }
+
+  /**
+   * 从存档恢复激活的技术，重新构建生产方式解锁表
+   */
+  importState(technologies: ActiveTechnology[]): void {
+    this.initialize();
+    for (const tech of structuredClone(technologies)) {
+      this.activateTechnology(
+        tech.id,
+        tech.name,
+        tech.companyId,
+        tech.globalModifiers,
+        tech.unlockedMethods,
+        tech.activatedAt
+      );
+    }
+  }
+
+  /**
+   * 指定公司时返回该公司的技术，否则返回所有激活的技术
+   */
+  private getScopedTechnologies(companyId?: string): ActiveTechnology[] {
+    return companyId !== undefined ? this.getTechnologiesByCompany(companyId) : this.getActiveTechnologies();
+  }
+
+  /**
+   * 聚合适用于建筑的修饰符
+   */
+  private aggregateModifiers(modifiers: TechnologyModifier[], buildingId: string, buildingCategory?: string): BuildingModifiers {
+    const result: BuildingModifiers = {
+      efficiencyMultiplier: 1.0,
+      costMultiplier: 1.0,
+      outputMultiplier: 1.0,
+      inputMultiplier: 1.0,
+    };
+
+    for (const mod of modifiers) {
+      // 检查是否适用于此建筑
+      const applies = 
+        mod.targetType === 'global' ||
+        (mod.targetType === 'building' && mod.targetId === buildingId) ||
+        (mod.targetType === 'building' && mod.targetId === buildingCategory);
+
+      if (!applies) continue;
+
+      // 应用修饰符
+      switch (mod.modifierType) {
+        case 'efficiency_boost':
+          result.efficiencyMultiplier *= (1 + mod.value);
+          break;
+        case 'cost_reduction':
+          result.costMultiplier *= (1 - mod.value);
+          break;
+        case 'output_increase':
+          result.outputMultiplier *= (1 + mod.value);
+          break;
+        case 'input_reduction':
+          result.inputMultiplier *= (1 - mod.value);
+          break;
+      }
+    }
+
+    return result;
+  }
+
   /**
    * 使缓存失效
    */
@@ -284,5 +410,18 @@ export class TechnologyEffectManager {
   }
 }
 
-// 导出单例
-export const technologyEffectManager = new TechnologyEffectManager();
\ No newline at end of file
+function addToSourceSet(map: Map<string, Set<string>>, key: string, sourceId: string): void {
+  const sources = map.get(key) ?? new Set<string>();
+  sources.add(sourceId);
+  map.set(key, sources);
+}
+
+function removeFromSourceSet(map: Map<string, Set<string>>, key: string, sourceId: string): void {
+  const sources = map.get(key);
+  if (!sources) return;
+  sources.delete(sourceId);
+  if (sources.size === 0) map.delete(key);
+}
+
+// 按游戏隔离的实例（解析到当前游戏世界，见 worldContext.ts）
+export const technologyEffectManager = worldScoped('technologyEffectManager');
\ No newline at end of file
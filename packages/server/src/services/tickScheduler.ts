@@ -6,18 +6,28 @@
  * 高频操作（每tick）:
  * - 建筑生产进度
  * - 订单撮合
+ * - 合同交割
+ * - 贷款计息与还款
+ * - 劳动力分配
+ * - 电网供电
  * 
  * 中频操作（每5-20 tick）:
  * - AI公司决策
  * - 股票价格更新
  * - 自动交易
  * - 供需衰减
+ * - 偿付能力检查（破产重整/清算）
+ * - 剧本胜负条件检查
+ * - 工资调整
+ * - 专利授权申请处理
+ * - 专利挑战和侵权诉讼审理
  * 
  * 低频操作（每50-200 tick）:
  * - LLM市场事件生成
  * - 财务报表计算
  * - 经济健康检查
  * - 诊断日志
+ * - 信用评级
  */
 
 import type { GameTick } from '@scc/shared';
@@ -31,6 +41,10 @@ export const TICK_FREQUENCY = {
     BUILDING_PRODUCTION: 1,      // 建筑生产进度
     ORDER_MATCHING: 1,           // 订单撮合
     PRICE_SYNC: 1,               // 价格同步
+    CONTRACT_DELIVERY: 1,        // 合同交割
+    LOAN_SERVICING: 1,           // 贷款计息与还款
+    LABOR_ALLOCATION: 1,         // 劳动力分配
+    POWER_DISTRIBUTION: 1,       // 电网供电
   },
   
   // 中频
@@ -42,6 +56,11 @@ export const TICK_FREQUENCY = {
     SUPPLY_DEMAND_DECAY: 5,      // 供需衰减（每5 tick）
     CONSUMER_DEMAND: 10,         // 消费需求处理（每10 tick）
     RESEARCH_PROGRESS: 5,        // 研发进度（每5 tick）
+    SOLVENCY_CHECK: 10,          // 偿付能力检查（每10 tick）
+    SCENARIO_CHECK: 10,          // 剧本胜负条件检查（每10 tick）
+    WAGE_ADJUSTMENT: 10,         // 工资调整（每10 tick）
+    LICENSE_NEGOTIATION: 20,     // 专利授权申请处理（每20 tick）
+    PATENT_LITIGATION: 10,       // 专利挑战和侵权诉讼审理（每10 tick）
   },
   
   // 低频
@@ -52,6 +71,8 @@ export const TICK_FREQUENCY = {
     MARKET_EVENT_GENERATION: 200, // 市场事件生成（每200 tick）
     PATENT_EXPIRY_CHECK: 100,    // 专利过期检查（每100 tick）
     SIDE_EFFECT_PROCESS: 50,     // 副作用处理（每50 tick）
+    CREDIT_RATING: 30,           // 信用评级（每30 tick）
+    DECISION_EVENT_GENERATION: 150, // 玩家决策事件生成（每150 tick）
   },
 } as const;
 
@@ -78,6 +99,10 @@ export type OperationType =
   | 'BUILDING_PRODUCTION'
   | 'ORDER_MATCHING'
   | 'PRICE_SYNC'
+  | 'CONTRACT_DELIVERY'
+  | 'LOAN_SERVICING'
+  | 'LABOR_ALLOCATION'
+  | 'POWER_DISTRIBUTION'
   // 中频
   | 'AI_COMPANY_DECISION'
   | 'STOCK_MARKET_UPDATE'
@@ -86,13 +111,20 @@ export type OperationType =
   | 'SUPPLY_DEMAND_DECAY'
   | 'CONSUMER_DEMAND'
   | 'RESEARCH_PROGRESS'
+  | 'SOLVENCY_CHECK'
+  | 'SCENARIO_CHECK'
+  | 'WAGE_ADJUSTMENT'
+  | 'LICENSE_NEGOTIATION'
+  | 'PATENT_LITIGATION'
   // 低频
   | 'DIAGNOSTIC_LOG'
   | 'BUILDING_DIAGNOSTIC'
   | 'ECONOMY_HEALTH_CHECK'
   | 'MARKET_EVENT_GENERATION'
   | 'PATENT_EXPIRY_CHECK'
-  | 'SIDE_EFFECT_PROCESS';
+  | 'SIDE_EFFECT_PROCESS'
+  | 'CREDIT_RATING'
+  | 'DECISION_EVENT_GENERATION';
 
 /**
  * 获取操作的执行频率
@@ -106,6 +138,14 @@ export function getFrequency(operationType: OperationType): number {
       return TICK_FREQUENCY.HIGH.ORDER_MATCHING;
     case 'PRICE_SYNC':
       return TICK_FREQUENCY.HIGH.PRICE_SYNC;
+    case 'CONTRACT_DELIVERY':
+      return TICK_FREQUENCY.HIGH.CONTRACT_DELIVERY;
+    case 'LOAN_SERVICING':
+      return TICK_FREQUENCY.HIGH.LOAN_SERVICING;
+    case 'LABOR_ALLOCATION':
+      return TICK_FREQUENCY.HIGH.LABOR_ALLOCATION;
+    case 'POWER_DISTRIBUTION':
+      return TICK_FREQUENCY.HIGH.POWER_DISTRIBUTION;
     
     // 中频
     case 'AI_COMPANY_DECISION':
@@ -122,6 +162,16 @@ export function getFrequency(operationType: OperationType): number {
       return TICK_FREQUENCY.MEDIUM.CONSUMER_DEMAND;
     case 'RESEARCH_PROGRESS':
       return TICK_FREQUENCY.MEDIUM.RESEARCH_PROGRESS;
+    case 'SOLVENCY_CHECK':
+      return TICK_FREQUENCY.MEDIUM.SOLVENCY_CHECK;
+    case 'SCENARIO_CHECK':
+      return TICK_FREQUENCY.MEDIUM.SCENARIO_CHECK;
+    case 'WAGE_ADJUSTMENT':
+      return TICK_FREQUENCY.MEDIUM.WAGE_ADJUSTMENT;
+    case 'LICENSE_NEGOTIATION':
+      return TICK_FREQUENCY.MEDIUM.LICENSE_NEGOTIATION;
+    case 'PATENT_LITIGATION':
+      return TICK_FREQUENCY.MEDIUM.PATENT_LITIGATION;
     
     // 低频
     case 'DIAGNOSTIC_LOG':
@@ -136,6 +186,10 @@ export function getFrequency(operationType: OperationType): number {
       return TICK_FREQUENCY.LOW.PATENT_EXPIRY_CHECK;
     case 'SIDE_EFFECT_PROCESS':
       return TICK_FREQUENCY.LOW.SIDE_EFFECT_PROCESS;
+    case 'CREDIT_RATING':
+      return TICK_FREQUENCY.LOW.CREDIT_RATING;
+    case 'DECISION_EVENT_GENERATION':
+      return TICK_FREQUENCY.LOW.DECISION_EVENT_GENERATION;
     
     default:
       return 1;
@@ -0,0 +1,147 @@
+/**
+ * World Context - 游戏世界上下文
+ *
+ * 各模拟服务（库存、订单簿、股市、AI公司……）按游戏隔离，每个游戏拥有一套独立实例（见 gameWorld.ts）。
+ * 为了不改动服务之间大量的 `import { inventoryManager } from './inventoryManager.js'` 式引用，
+ * 模块导出的服务对象是一个代理，调用时解析到"当前游戏世界"中的对应实例。
+ *
+ * 当前游戏世界由 AsyncLocalStorage 维护，在 tick 处理、玩家操作等入口通过 runWithWorld 进入，
+ * 异步延续（LLM 回调、定时器）会自动继承所属游戏。
+ * 不在任何游戏世界中访问服务会直接报错，不会回退到其他游戏的实例（否则多局并行时会读写错误的游戏）。
+ *
+ * 本模块只引用服务的类型，不引用实现，避免循环依赖。
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { InventoryManager } from './inventoryManager.js';
+import type { MarketOrderBook } from './marketOrderBook.js';
+import type { MatchingEngine } from './matchingEngine.js';
+import type { PriceDiscoveryService } from './priceDiscovery.js';
+import type { POPsConsumptionManager } from './popsConsumption.js';
+import type { EconomyManager } from './economyManager.js';
+import type { AICompanyManager } from './aiCompanyManager.js';
+import type { AutoTradeManager } from './autoTradeManager.js';
+import type { StockMarketService } from './stockMarket.js';
+import type { AIStockTradingService } from './aiStockTrading.js';
+import type { ResearchService } from './researchService.js';
+import type { TechnologyEffectManager } from './technologyEffectManager.js';
+import type { ContractService } from './contractService.js';
+import type { NegotiationService } from './negotiationService.js';
+import type { BankingService } from './bankingService.js';
+import type { BankruptcyService } from './bankruptcyService.js';
+import type { TakeoverService } from './takeoverService.js';
+import type { DecisionEventService } from './decisionEvents.js';
+import type { EventEffectManager } from './eventEffects.js';
+import type { ScenarioService } from './scenarios.js';
+import type { DifficultySettings } from './difficulty.js';
+import type { LaborMarket } from './laborMarket.js';
+import type { PowerGrid } from './powerGrid.js';
+import type { PatentLicensing } from './patentLicensing.js';
+import type { PatentLitigation } from './patentLitigation.js';
+import type { ResearchEventService } from './researchEvents.js';
+import type { LLMUsageTracker } from './llmUsage.js';
+import type { PromptSelection } from './promptTemplates.js';
+import type { SeededRandom } from '../utils/SeededRandom.js';
+
+/** 每个游戏世界拥有的服务实例 */
+export interface WorldServices {
+  readonly gameId: string;
+  /** 该游戏的种子随机数生成器 */
+  readonly rng: SeededRandom;
+  readonly inventoryManager: InventoryManager;
+  readonly marketOrderBook: MarketOrderBook;
+  readonly matchingEngine: MatchingEngine;
+  readonly priceDiscoveryService: PriceDiscoveryService;
+  readonly popsConsumptionManager: POPsConsumptionManager;
+  readonly economyManager: EconomyManager;
+  readonly aiCompanyManager: AICompanyManager;
+  readonly autoTradeManager: AutoTradeManager;
+  readonly stockMarketService: StockMarketService;
+  readonly aiStockTradingService: AIStockTradingService;
+  readonly researchService: ResearchService;
+  readonly technologyEffectManager: TechnologyEffectManager;
+  readonly contractService: ContractService;
+  readonly negotiationService: NegotiationService;
+  readonly bankingService: BankingService;
+  readonly bankruptcyService: BankruptcyService;
+  readonly takeoverService: TakeoverService;
+  readonly decisionEventService: DecisionEventService;
+  readonly eventEffectManager: EventEffectManager;
+  readonly scenarioService: ScenarioService;
+  readonly difficultySettings: DifficultySettings;
+  readonly laborMarket: LaborMarket;
+  readonly powerGrid: PowerGrid;
+  readonly patentLicensing: PatentLicensing;
+  readonly patentLitigation: PatentLitigation;
+  readonly researchEvents: ResearchEventService;
+  readonly llmUsageTracker: LLMUsageTracker;
+  readonly promptSelection: PromptSelection;
+}
+
+/** 可按游戏解析的服务名 */
+export type WorldServiceKey = Exclude<keyof WorldServices, 'gameId'>;
+
+const worldStorage = new AsyncLocalStorage<WorldServices>();
+
+/**
+ * 获取当前游戏世界
+ */
+export function getCurrentWorld(): WorldServices {
+  const world = worldStorage.getStore();
+  if (!world) {
+    throw new Error('[WorldContext] Not in a game world (missing gameId, or called outside gameWorldFactory.run)');
+  }
+  return world;
+}
+
+/**
+ * 在指定游戏世界中执行
+ */
+export function runWithWorld<T>(world: WorldServices, fn: () => T): T {
+  return worldStorage.run(world, fn);
+}
+
+/**
+ * 让当前同步执行及其后续异步调用进入指定游戏世界（用于请求钩子）
+ */
+export function enterWorld(world: WorldServices): void {
+  worldStorage.enterWith(world);
+}
+
+/** 绑定后的方法缓存，避免热路径上重复 bind */
+const boundMethodCache = new WeakMap<object, Map<PropertyKey, unknown>>();
+
+/**
+ * 创建按游戏解析的服务代理
+ * 属性读取和方法调用都会转发到当前游戏世界中的实例
+ */
+export function worldScoped<K extends WorldServiceKey>(key: K): WorldServices[K] {
+  return new Proxy({} as WorldServices[K], {
+    get(_target, prop) {
+      const instance = getCurrentWorld()[key] as object;
+      const value: unknown = Reflect.get(instance, prop, instance);
+      if (typeof value !== 'function') {
+        return value;
+      }
+
+      let cache = boundMethodCache.get(instance);
+      if (!cache) {
+        cache = new Map();
+        boundMethodCache.set(instance, cache);
+      }
+      let bound = cache.get(prop);
+      if (!bound) {
+        bound = (value as (...args: unknown[]) => unknown).bind(instance);
+        cache.set(prop, bound);
+      }
+      return bound;
+    },
+    set(_target, prop, value) {
+      const instance = getCurrentWorld()[key] as object;
+      return Reflect.set(instance, prop, value, instance);
+    },
+    has(_target, prop) {
+      return Reflect.has(getCurrentWorld()[key], prop);
+    },
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * 可设定种子的伪随机数生成器（mulberry32）
+ *
+ * 模拟中所有随机性都应来自游戏世界的生成器（见 services/rng.ts），
+ * 相同种子 + 相同玩家输入 => 相同的 tick 序列，用于平衡回归和问题复现
+ */
+
+/**
+ * 生成一个新的随机种子（游戏创建时使用，是模拟中唯一的非确定性来源）
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * 种子随机数生成器
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number = createSeed()) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * 以新种子重置序列
+   */
+  setSeed(seed: number): void {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * 获取内部状态（用于存档）
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * 恢复内部状态（用于读档）
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * 返回 [0, 1) 的随机数，可直接替代 Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * 返回 [0, max) 的随机整数
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * 从数组中随机选取一个元素
+   */
+  pick<T>(items: readonly T[]): T | undefined {
+    return items[this.nextInt(items.length)];
+  }
+
+  /**
+   * 生成随机ID片段（base36），替代 Math.random().toString(36)
+   */
+  nextId(length = 9): string {
+    let id = '';
+    while (id.length < length) {
+      id += this.nextInt(36).toString(36);
+    }
+    return id;
+  }
+}
@@ -316,7 +316,7 @@ function generateTradingDecisions(
 function generateCompanyDecisions(
   company: AICompanyData,
   marketContext: MarketContext,
-  currentTick: number
+  _currentTick: number
 ): DecisionResult {
   const personalityParams = getPersonalityParameters(company.personality);
   const actions: DecisionResult['actions'] = [];
@@ -9,6 +9,8 @@
  * - 实时200ms/tick，1x速度下1游戏月约6秒
  */
 
+import { Difficulty, type DifficultyPreset } from '../types/game-state.js';
+
 /** Time and tick settings (1 tick = 1 day) */
 export const TIME_CONSTANTS = {
   /** Ticks per in-game day (基本单位) */
@@ -21,8 +23,20 @@ export const TIME_CONSTANTS = {
   TICKS_PER_YEAR: 365,
   /** Default real-time milliseconds per tick at normal speed */
   MS_PER_TICK_NORMAL: 200,
+  /** 游戏起始日期（tick 0，2025-01-01 UTC），模拟内时间戳 = 起始日期 + tick 天 */
+  GAME_START_TIMESTAMP: Date.UTC(2025, 0, 1),
+  /** Milliseconds per in-game day */
+  MS_PER_GAME_DAY: 86_400_000,
 } as const;
 
+/**
+ * tick 对应的模拟内时间戳
+ * 模拟产生的数据（TickUpdate、成交记录）使用模拟时间而非系统时间，保证可复现
+ */
+export function tickToGameTimestamp(tick: number): number {
+  return TIME_CONSTANTS.GAME_START_TIMESTAMP + tick * TIME_CONSTANTS.MS_PER_GAME_DAY;
+}
+
 /** Economic constants */
 export const ECONOMY_CONSTANTS = {
   /** Starting cash for player in easy mode (cents) */
@@ -157,13 +171,66 @@ export const UI_CONSTANTS = {
   MARKET_GALAXY_LINK_DISTANCE: 100,
 } as const;
 
-/** Game balance multipliers */
-export const BALANCE_MULTIPLIERS = {
-  difficulty: {
-    sandbox: { income: 2.0, costs: 0.5, aiAggression: 0.3 },
-    easy: { income: 1.5, costs: 0.75, aiAggression: 0.5 },
-    normal: { income: 1.0, costs: 1.0, aiAggression: 1.0 },
-    hard: { income: 0.75, costs: 1.25, aiAggression: 1.5 },
-    brutal: { income: 0.5, costs: 1.5, aiAggression: 2.0 },
+/** 难度预设（普通难度即原始参数） */
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  [Difficulty.Sandbox]: {
+    startingCashMultiplier: 4,
+    aiAggressionMultiplier: 0.3,
+    aiRiskToleranceMultiplier: 0.5,
+    aiDecisionIntervalMultiplier: 2,
+    constructionCostMultiplier: 0.5,
+    constructionTimeMultiplier: 0.5,
+    eventSeverityWeights: { minor: 0.6, moderate: 0.3, major: 0.1, critical: 0 },
+    stockNoiseMultiplier: 0.5,
+    bankruptcyEnabled: false,
+    allowCashInjection: true,
+  },
+  [Difficulty.Easy]: {
+    startingCashMultiplier: 2,
+    aiAggressionMultiplier: 0.6,
+    aiRiskToleranceMultiplier: 0.8,
+    aiDecisionIntervalMultiplier: 1.5,
+    constructionCostMultiplier: 0.75,
+    constructionTimeMultiplier: 0.75,
+    eventSeverityWeights: { minor: 0.45, moderate: 0.35, major: 0.15, critical: 0.05 },
+    stockNoiseMultiplier: 0.75,
+    bankruptcyEnabled: true,
+    allowCashInjection: false,
+  },
+  [Difficulty.Normal]: {
+    startingCashMultiplier: 1,
+    aiAggressionMultiplier: 1,
+    aiRiskToleranceMultiplier: 1,
+    aiDecisionIntervalMultiplier: 1,
+    constructionCostMultiplier: 1,
+    constructionTimeMultiplier: 1,
+    eventSeverityWeights: null,
+    stockNoiseMultiplier: 1,
+    bankruptcyEnabled: true,
+    allowCashInjection: false,
+  },
+  [Difficulty.Hard]: {
+    startingCashMultiplier: 0.6,
+    aiAggressionMultiplier: 1.3,
+    aiRiskToleranceMultiplier: 1.2,
+    aiDecisionIntervalMultiplier: 0.75,
+    constructionCostMultiplier: 1.25,
+    constructionTimeMultiplier: 1.25,
+    eventSeverityWeights: { minor: 0.15, moderate: 0.35, major: 0.35, critical: 0.15 },
+    stockNoiseMultiplier: 1.3,
+    bankruptcyEnabled: true,
+    allowCashInjection: false,
+  },
+  [Difficulty.Brutal]: {
+    startingCashMultiplier: 0.3,
+    aiAggressionMultiplier: 1.6,
+    aiRiskToleranceMultiplier: 1.4,
+    aiDecisionIntervalMultiplier: 0.5,
+    constructionCostMultiplier: 1.5,
+    constructionTimeMultiplier: 1.5,
+    eventSeverityWeights: { minor: 0.05, moderate: 0.25, major: 0.4, critical: 0.3 },
+    stockNoiseMultiplier: 1.6,
+    bankruptcyEnabled: true,
+    allowCashInjection: false,
   },
-} as const;
\ No newline at end of file
+};
@@ -15,4 +15,7 @@ export * from './goodsDefinitions.js';
 export * from './buildingDefinitions.js';
 
 // POPs 需求系统配置
-export * from './popsConfig.js';
\ No newline at end of file
+export * from './popsConfig.js';
+
+// 科技树前置规则
+export * from './techTree.js';
\ No newline at end of file
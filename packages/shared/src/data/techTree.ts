@@ -0,0 +1,41 @@
+/**
+ * 科技树配置
+ *
+ * 包含:
+ * - 技术关键词 (TECH_KEYWORDS): 从研发描述中识别的技术领域词
+ * - 前置规则 (TECH_PREREQUISITE_RULES): 某关键词的技术需要先掌握哪些关键词的技术
+ *
+ * 新技术创建时按规则和同类别低阶技术推导前置技术，设计者可通过 API 手动调整
+ */
+
+import type { TechPrerequisiteRule } from '../types/technology.js';
+
+/** 技术关键词（按描述文本包含匹配） */
+export const TECH_KEYWORDS: readonly string[] = [
+  '能源', '电力', '太阳能', '核能', '生物',
+  '自动化', 'AI', '机器人', '芯片', '半导体',
+  '材料', '合金', '塑料', '化学', '环保',
+  '高效', '低成本', '创新', '突破',
+  '电池', '锂', '固态', '储能', '光伏',
+  '氢能', '燃料电池', '核聚变', '基因', '纳米',
+  '量子', '光刻', '神经网络',
+];
+
+/** 前置规则 */
+export const TECH_PREREQUISITE_RULES: readonly TechPrerequisiteRule[] = [
+  { keyword: '固态', requires: ['电池'] },
+  { keyword: '锂', requires: ['电池'] },
+  { keyword: '储能', requires: ['电池', '电力'] },
+  { keyword: '光伏', requires: ['太阳能', '半导体'] },
+  { keyword: '燃料电池', requires: ['氢能'] },
+  { keyword: '核聚变', requires: ['核能'] },
+  { keyword: '芯片', requires: ['半导体'] },
+  { keyword: '光刻', requires: ['半导体'] },
+  { keyword: '量子', requires: ['芯片'] },
+  { keyword: 'AI', requires: ['芯片'] },
+  { keyword: '神经网络', requires: ['AI'] },
+  { keyword: '机器人', requires: ['自动化'] },
+  { keyword: '基因', requires: ['生物'] },
+  { keyword: '合金', requires: ['材料'] },
+  { keyword: '纳米', requires: ['材料'] },
+];
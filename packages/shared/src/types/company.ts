@@ -148,6 +148,8 @@ export interface FinancialReport {
   period: { startTick: number; endTick: number };
   
   revenue: Money;
+  /** 专利授权使用费收入 */
+  royaltyIncome: Money;
   costOfGoodsSold: Money;
   grossProfit: Money;
   
@@ -156,6 +158,8 @@ export interface FinancialReport {
     maintenance: Money;
     marketing: Money;
     research: Money;
+    /** 向专利持有人支付的授权使用费 */
+    royalties: Money;
     other: Money;
   };
   
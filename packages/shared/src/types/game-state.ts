@@ -19,6 +19,35 @@ export enum Difficulty {
   Brutal = 'brutal',
 }
 
+/** 市场事件严重程度 */
+export type MarketEventSeverity = 'minor' | 'moderate' | 'major' | 'critical';
+
+/**
+ * 难度预设：各项倍率作用于现有的模拟参数（1 = 不变）
+ */
+export interface DifficultyPreset {
+  /** 自由模式的玩家启动资金倍率（剧本自带启动资金，不受影响） */
+  startingCashMultiplier: number;
+  /** AI 攻击性（aggressiveness）倍率，结果限制在 0-1 */
+  aiAggressionMultiplier: number;
+  /** AI 风险偏好（riskTolerance）倍率，结果限制在 0-1 */
+  aiRiskToleranceMultiplier: number;
+  /** AI 决策间隔（decisionInterval）倍率，越小 AI 反应越快 */
+  aiDecisionIntervalMultiplier: number;
+  /** 玩家建造人工费倍率 */
+  constructionCostMultiplier: number;
+  /** 玩家建造工期倍率 */
+  constructionTimeMultiplier: number;
+  /** 市场事件严重程度的抽样权重；null 时沿用 LLM 给出的严重程度 */
+  eventSeverityWeights: Record<MarketEventSeverity, number> | null;
+  /** 股价随机噪声倍率 */
+  stockNoiseMultiplier: number;
+  /** 玩家是否会破产 */
+  bankruptcyEnabled: boolean;
+  /** 是否允许直接注入资金（测试用） */
+  allowCashInjection: boolean;
+}
+
 /** Game speed settings */
 export enum GameSpeed {
   Paused = 0,
@@ -341,6 +341,19 @@ export interface TakeoverBid {
   
   /** 防御措施启动 */
   defenseActivated: boolean;
+  
+  /** 收购完成后的整合方式 */
+  mode: TakeoverMode;
+}
+
+/**
+ * 收购整合方式
+ */
+export enum TakeoverMode {
+  /** 控股：目标公司保留法人地位，成为收购方的子公司 */
+  Subsidiary = 'subsidiary',
+  /** 吸收合并：收购剩余股份，目标公司的建筑、库存和现金并入收购方后退市 */
+  Merger = 'merger',
 }
 
 /**
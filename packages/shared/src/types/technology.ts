@@ -314,6 +314,12 @@ export interface Blueprint {
   createdAt: Timestamp;
 }
 
+/** 科技树前置规则：描述含 keyword 的技术需要先掌握含 requires 关键词的技术 */
+export interface TechPrerequisiteRule {
+  keyword: string;
+  requires: string[];
+}
+
 /** Technology constellation node for visualization */
 export interface TechConstellationNode {
   technologyId: EntityId;
@@ -404,4 +410,8 @@ export enum ResearchEventType {
   Complication = 'complication',
   Milestone = 'milestone',
   ResourceShortage = 'resource_shortage',
+  /** 核心研究员离职 */
+  ResearcherDeparture = 'researcher_departure',
+  /** 竞争对手抢先发表 */
+  CompetitorPublished = 'competitor_published',
 }
\ No newline at end of file